@@ -0,0 +1,179 @@
+/**
+ * Tests for the Go AST helper.
+ *
+ * These build and run the helper with the local Go toolchain.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  FunctionNotFoundError,
+  GoSyntaxError,
+  InvalidBodySyntaxError,
+  findTodoFunctionsInSource,
+  injectFunctionBody,
+  scanGoSource,
+} from './ast.js';
+
+const LEDGER_GO = `// Package ledger keeps account entries.
+package ledger
+
+import "errors"
+
+// Cents is an amount of money.
+type Cents int64
+
+// Ledger is an append-only ledger.
+type Ledger struct {
+	entries []Cents
+}
+
+type Store interface {
+	Save(l *Ledger) error
+}
+
+type Amounts = []Cents
+
+const MaxEntries = 10
+
+// Total sums all entries.
+//
+// Returns 0 for an empty ledger.
+func (l *Ledger) Total() Cents {
+	panic("TODO")
+}
+
+func (l Ledger) Find(index int, fallback Cents) (Cents, error) {
+	panic("TODO: lookup")
+}
+
+func Transfer(l *Ledger, amount Cents) error {
+	if amount < 0 {
+		return errors.New("negative")
+	}
+	panic("TODO")
+}
+
+func Map[T any, U any](items []T, f func(T) U) []U {
+	panic("TODO")
+}
+
+// Describe mentions panic("TODO") in a string, which is not a stub.
+func Describe() string {
+	return "panic(\\"TODO\\")"
+}
+`;
+
+describe('scanGoSource', () => {
+  it('describes functions, methods, and parameters', async () => {
+    const scan = await scanGoSource(LEDGER_GO, 'ledger.go');
+
+    expect(scan.packageName).toBe('ledger');
+    const find = scan.functions.find((fn) => fn.name === 'Find');
+    expect(find).toMatchObject({
+      receiver: 'Ledger',
+      line: 29,
+      signature: 'func (l Ledger) Find(index int, fallback Cents) (Cents, error)',
+      parameters: [
+        { name: 'index', type: 'int' },
+        { name: 'fallback', type: 'Cents' },
+      ],
+      results: ['Cents', 'error'],
+      isStub: true,
+    });
+
+    const generic = scan.functions.find((fn) => fn.name === 'Map');
+    expect(generic?.typeParameters).toEqual([
+      { name: 'T', type: 'any' },
+      { name: 'U', type: 'any' },
+    ]);
+    expect(generic?.receiver).toBeUndefined();
+  });
+
+  it('reports doc comments and strips pointers from receivers', async () => {
+    const scan = await scanGoSource(LEDGER_GO, 'ledger.go');
+
+    const total = scan.functions.find((fn) => fn.name === 'Total');
+    expect(total?.receiver).toBe('Ledger');
+    expect(total?.doc).toBe('Total sums all entries.\n\nReturns 0 for an empty ledger.');
+  });
+
+  it('reports structs, interfaces, aliases, and defined types but not constants', async () => {
+    const scan = await scanGoSource(LEDGER_GO, 'ledger.go');
+
+    expect(scan.types.map((t) => [t.name, t.kind])).toEqual([
+      ['Cents', 'defined'],
+      ['Ledger', 'struct'],
+      ['Store', 'interface'],
+      ['Amounts', 'alias'],
+    ]);
+    expect(scan.types[0]?.definition).toBe('type Cents int64');
+  });
+
+  it('throws GoSyntaxError for unparseable sources', async () => {
+    await expect(scanGoSource('package broken\n\nfunc f( {\n', 'broken.go')).rejects.toThrow(
+      GoSyntaxError
+    );
+  });
+});
+
+describe('findTodoFunctionsInSource', () => {
+  it('finds bodies that only panic with TODO', async () => {
+    const todos = await findTodoFunctionsInSource(LEDGER_GO, 'ledger.go');
+
+    expect(todos.map((t) => [t.name, t.receiver, t.line])).toEqual([
+      ['Total', 'Ledger', 25],
+      ['Find', 'Ledger', 29],
+      ['Map', undefined, 40],
+    ]);
+    expect(todos.map((t) => t.hasTodoBody)).toEqual([true, true, true]);
+  });
+});
+
+describe('injectFunctionBody', () => {
+  it('replaces the body and formats the file', async () => {
+    const updated = await injectFunctionBody(
+      LEDGER_GO,
+      'Total',
+      `var sum Cents
+for _, e := range l.entries {
+    sum += e
+}
+return sum`,
+      { receiver: 'Ledger' }
+    );
+
+    expect(updated).toContain(`func (l *Ledger) Total() Cents {
+	var sum Cents
+	for _, e := range l.entries {
+		sum += e
+	}
+	return sum
+}`);
+    expect(await findTodoFunctionsInSource(updated, 'ledger.go')).toHaveLength(2);
+  });
+
+  it('handles sources with multi-byte characters before the function', async () => {
+    const source = `package p\n\n// Grüße says hello. ✓\nfunc Greet() string {\n\tpanic("TODO")\n}\n`;
+
+    const updated = await injectFunctionBody(source, 'Greet', 'return "hallo"');
+
+    expect(updated).toBe(
+      `package p\n\n// Grüße says hello. ✓\nfunc Greet() string {\n\treturn "hallo"\n}\n`
+    );
+  });
+
+  it('throws FunctionNotFoundError for unknown functions', async () => {
+    await expect(injectFunctionBody(LEDGER_GO, 'Missing', 'return nil')).rejects.toThrow(
+      FunctionNotFoundError
+    );
+    await expect(
+      injectFunctionBody(LEDGER_GO, 'Transfer', 'return nil', { receiver: 'Ledger' })
+    ).rejects.toThrow(FunctionNotFoundError);
+  });
+
+  it('rejects bodies that do not parse', async () => {
+    await expect(injectFunctionBody(LEDGER_GO, 'Transfer', 'return (amount')).rejects.toThrow(
+      InvalidBodySyntaxError
+    );
+  });
+});
@@ -0,0 +1,764 @@
+/**
+ * Go source analysis for TODO detection and body injection.
+ *
+ * Go sources are parsed by the toolchain's own `go/parser` package, run as a
+ * small helper program, so that stub detection and injection follow the
+ * exact grammar of the installed Go version. The helper is compiled once per
+ * Go installation into the system temp directory and reused across runs. It
+ * reports functions, types, and body byte ranges as JSON; splicing happens
+ * here, and injected sources are normalized with `go/format`.
+ *
+ * @module adapters/go/ast
+ */
+
+import { execa } from 'execa';
+import { createHash } from 'node:crypto';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { safeExists, safeMkdir, safeRename, safeWriteFile } from '../../utils/safe-fs.js';
+
+/**
+ * Represents a Go function whose body is a `panic("TODO")` stub.
+ */
+export interface GoTodoFunction {
+  /** The function name */
+  name: string;
+  /** The absolute file path where the function is defined */
+  filePath: string;
+  /** The line number of the `func` keyword (1-indexed) */
+  line: number;
+  /** The function signature (e.g., "func Add(a int, b int) int") */
+  signature: string;
+  /** The receiver's base type name, for methods */
+  receiver?: string;
+  /** Whether the function body is a TODO marker */
+  hasTodoBody: true;
+}
+
+/**
+ * Information about a function parameter or type parameter.
+ */
+export interface GoParameterInfo {
+  /** The parameter name (empty for unnamed parameters) */
+  name: string;
+  /** The type as written (the constraint, for type parameters) */
+  type: string;
+}
+
+/**
+ * A function or method declaration located in Go source.
+ */
+export interface GoFunctionInfo {
+  /** The function name */
+  name: string;
+  /** The receiver's base type name, without pointer or type arguments, for methods */
+  receiver?: string;
+  /** The line number of the `func` keyword (1-indexed) */
+  line: number;
+  /** The last line of the declaration (1-indexed) */
+  endLine: number;
+  /** The declaration without its body, as printed by `go/printer` */
+  signature: string;
+  /** Type parameters in declaration order */
+  typeParameters: GoParameterInfo[];
+  /** Parameters in declaration order */
+  parameters: GoParameterInfo[];
+  /** Result types in declaration order */
+  results: string[];
+  /** The doc comment text, which carries the function's contract, if any */
+  doc?: string;
+  /** Whether the body is only `panic("TODO")` (or `panic("TODO: ...")`) */
+  isStub: boolean;
+  /** Names of functions and methods called from the body */
+  calls: string[];
+  /** Byte offset just after the body's opening brace */
+  bodyStart: number;
+  /** Byte offset of the body's closing brace */
+  bodyEnd: number;
+}
+
+/**
+ * A type declared in Go source.
+ */
+export interface GoTypeInfo {
+  /** The type name */
+  name: string;
+  /** The kind of declaration */
+  kind: 'struct' | 'interface' | 'alias' | 'defined';
+  /** The first line (1-indexed) */
+  line: number;
+  /** The last line (1-indexed) */
+  endLine: number;
+  /** The declaration source, starting with `type` */
+  definition: string;
+}
+
+/**
+ * Location of a syntax error reported by the Go parser.
+ */
+export interface GoSyntaxErrorInfo {
+  /** The parser's message */
+  message: string;
+  /** The line number (1-indexed) */
+  line: number;
+  /** The column number (1-indexed) */
+  column: number;
+}
+
+/**
+ * Result of scanning one Go file.
+ */
+export interface GoFileScan {
+  /** The file path the source was read from */
+  filePath: string;
+  /** The package name from the package clause */
+  packageName: string;
+  /** Functions and methods, in source order */
+  functions: GoFunctionInfo[];
+  /** Type declarations, in source order */
+  types: GoTypeInfo[];
+  /** The syntax error, if the source does not parse */
+  syntaxError?: GoSyntaxErrorInfo;
+}
+
+/**
+ * Options for running the Go helper.
+ */
+export interface GoHelperOptions {
+  /** Go command to build the helper with. Default: "go" */
+  go?: string;
+  /** Timeout in milliseconds. Default: 60000 */
+  timeout?: number;
+}
+
+/**
+ * Options for injecting a function body.
+ */
+export interface InjectOptions extends GoHelperOptions {
+  /** The receiver's base type name, to disambiguate methods with the same name */
+  receiver?: string;
+  /** File path used in error messages */
+  filePath?: string;
+}
+
+/**
+ * Error thrown when the Go toolchain is not found in PATH.
+ */
+export class GoNotInstalledError extends Error {
+  constructor(go: string) {
+    super(`${go} not found in PATH. Please install Go 1.18 or later.`);
+    this.name = 'GoNotInstalledError';
+  }
+}
+
+/**
+ * Error thrown when the Go helper fails to build, fails to run, or produces
+ * unreadable output.
+ */
+export class GoHelperError extends Error {
+  constructor(message: string) {
+    super(`Go AST helper failed: ${message}`);
+    this.name = 'GoHelperError';
+  }
+}
+
+/**
+ * Error thrown when source cannot be parsed.
+ */
+export class GoSyntaxError extends Error {
+  constructor(
+    public readonly filePath: string,
+    public readonly info: GoSyntaxErrorInfo
+  ) {
+    super(
+      `Syntax error in ${filePath} at line ${String(info.line)}, column ${String(info.column)}: ${info.message}`
+    );
+    this.name = 'GoSyntaxError';
+  }
+}
+
+/**
+ * Error thrown when attempting to inject into a function that doesn't exist.
+ */
+export class FunctionNotFoundError extends Error {
+  constructor(functionName: string, filePath: string) {
+    super(`Function '${functionName}' not found in file: ${filePath}`);
+    this.name = 'FunctionNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when the injected body does not parse.
+ */
+export class InvalidBodySyntaxError extends Error {
+  constructor(functionName: string, originalMessage: string) {
+    super(`Invalid body syntax for function '${functionName}': ${originalMessage}`);
+    this.name = 'InvalidBodySyntaxError';
+  }
+}
+
+/**
+ * Helper program source, built with `go build`.
+ *
+ * Reads `{"sources": [{"path", "source"}], "format": bool}` from stdin and
+ * writes one scan result per source to stdout. With `format`, each source
+ * that parses is also returned formatted by `go/format`. Function literals
+ * are not reported.
+ */
+export const GO_AST_HELPER = String.raw`package main
+
+import (
+	"bytes"
+	"encoding/json"
+	"go/ast"
+	"go/format"
+	"go/parser"
+	"go/printer"
+	"go/scanner"
+	"go/token"
+	"os"
+	"sort"
+	"strconv"
+	"strings"
+)
+
+type source struct {
+	Path   string "json:\"path\""
+	Source string "json:\"source\""
+}
+
+type request struct {
+	Sources []source "json:\"sources\""
+	Format  bool     "json:\"format\""
+}
+
+type param struct {
+	Name string "json:\"name\""
+	Type string "json:\"type\""
+}
+
+type function struct {
+	Name           string   "json:\"name\""
+	Receiver       *string  "json:\"receiver\""
+	Line           int      "json:\"line\""
+	EndLine        int      "json:\"endLine\""
+	Signature      string   "json:\"signature\""
+	TypeParameters []param  "json:\"typeParameters\""
+	Parameters     []param  "json:\"parameters\""
+	Results        []string "json:\"results\""
+	Doc            *string  "json:\"doc\""
+	IsStub         bool     "json:\"isStub\""
+	Calls          []string "json:\"calls\""
+	BodyStart      int      "json:\"bodyStart\""
+	BodyEnd        int      "json:\"bodyEnd\""
+}
+
+type typeDecl struct {
+	Name       string "json:\"name\""
+	Kind       string "json:\"kind\""
+	Line       int    "json:\"line\""
+	EndLine    int    "json:\"endLine\""
+	Definition string "json:\"definition\""
+}
+
+type syntaxError struct {
+	Message string "json:\"message\""
+	Line    int    "json:\"line\""
+	Column  int    "json:\"column\""
+}
+
+type result struct {
+	Path        string       "json:\"filePath\""
+	Package     string       "json:\"packageName\""
+	Functions   []function   "json:\"functions\""
+	Types       []typeDecl   "json:\"types\""
+	SyntaxError *syntaxError "json:\"syntaxError,omitempty\""
+	Formatted   *string      "json:\"formatted,omitempty\""
+}
+
+func render(fset *token.FileSet, node any) string {
+	var buf bytes.Buffer
+	_ = printer.Fprint(&buf, fset, node)
+	return buf.String()
+}
+
+func receiverName(expr ast.Expr) string {
+	switch e := expr.(type) {
+	case *ast.StarExpr:
+		return receiverName(e.X)
+	case *ast.IndexExpr:
+		return receiverName(e.X)
+	case *ast.IndexListExpr:
+		return receiverName(e.X)
+	case *ast.Ident:
+		return e.Name
+	}
+	return ""
+}
+
+func fieldList(fset *token.FileSet, list *ast.FieldList) []param {
+	params := []param{}
+	if list == nil {
+		return params
+	}
+	for _, field := range list.List {
+		typ := render(fset, field.Type)
+		if len(field.Names) == 0 {
+			params = append(params, param{Name: "", Type: typ})
+		}
+		for _, name := range field.Names {
+			params = append(params, param{Name: name.Name, Type: typ})
+		}
+	}
+	return params
+}
+
+func isStub(body *ast.BlockStmt) bool {
+	if len(body.List) != 1 {
+		return false
+	}
+	stmt, ok := body.List[0].(*ast.ExprStmt)
+	if !ok {
+		return false
+	}
+	call, ok := stmt.X.(*ast.CallExpr)
+	if !ok || len(call.Args) != 1 {
+		return false
+	}
+	fun, ok := call.Fun.(*ast.Ident)
+	if !ok || fun.Name != "panic" {
+		return false
+	}
+	lit, ok := call.Args[0].(*ast.BasicLit)
+	if !ok || lit.Kind != token.STRING {
+		return false
+	}
+	text, err := strconv.Unquote(lit.Value)
+	return err == nil && (text == "TODO" || strings.HasPrefix(text, "TODO:"))
+}
+
+func calls(body *ast.BlockStmt) []string {
+	seen := map[string]bool{}
+	ast.Inspect(body, func(node ast.Node) bool {
+		call, ok := node.(*ast.CallExpr)
+		if !ok {
+			return true
+		}
+		switch fun := call.Fun.(type) {
+		case *ast.Ident:
+			seen[fun.Name] = true
+		case *ast.SelectorExpr:
+			seen[fun.Sel.Name] = true
+		}
+		return true
+	})
+	names := []string{}
+	for name := range seen {
+		names = append(names, name)
+	}
+	sort.Strings(names)
+	return names
+}
+
+func describeFunc(fset *token.FileSet, decl *ast.FuncDecl) function {
+	header := *decl
+	header.Body = nil
+	header.Doc = nil
+	fn := function{
+		Name:           decl.Name.Name,
+		Line:           fset.Position(decl.Type.Func).Line,
+		EndLine:        fset.Position(decl.End()).Line,
+		Signature:      render(fset, &header),
+		TypeParameters: fieldList(fset, decl.Type.TypeParams),
+		Parameters:     fieldList(fset, decl.Type.Params),
+		Results:        []string{},
+		Calls:          calls(decl.Body),
+		IsStub:         isStub(decl.Body),
+		BodyStart:      fset.Position(decl.Body.Lbrace).Offset + 1,
+		BodyEnd:        fset.Position(decl.Body.Rbrace).Offset,
+	}
+	if decl.Recv != nil && len(decl.Recv.List) == 1 {
+		name := receiverName(decl.Recv.List[0].Type)
+		fn.Receiver = &name
+	}
+	for _, result := range fieldList(fset, decl.Type.Results) {
+		fn.Results = append(fn.Results, result.Type)
+	}
+	if decl.Doc != nil {
+		doc := strings.TrimSpace(decl.Doc.Text())
+		fn.Doc = &doc
+	}
+	return fn
+}
+
+func describeTypes(fset *token.FileSet, src []byte, decl *ast.GenDecl) []typeDecl {
+	types := []typeDecl{}
+	for _, spec := range decl.Specs {
+		ts := spec.(*ast.TypeSpec)
+		kind := "defined"
+		if ts.Assign.IsValid() {
+			kind = "alias"
+		} else if _, ok := ts.Type.(*ast.StructType); ok {
+			kind = "struct"
+		} else if _, ok := ts.Type.(*ast.InterfaceType); ok {
+			kind = "interface"
+		}
+		var start, end token.Pos
+		prefix := ""
+		if decl.Lparen.IsValid() {
+			start, end, prefix = ts.Pos(), ts.End(), "type "
+		} else {
+			start, end = decl.Pos(), decl.End()
+		}
+		types = append(types, typeDecl{
+			Name:       ts.Name.Name,
+			Kind:       kind,
+			Line:       fset.Position(start).Line,
+			EndLine:    fset.Position(end).Line,
+			Definition: prefix + string(src[fset.Position(start).Offset:fset.Position(end).Offset]),
+		})
+	}
+	return types
+}
+
+func scan(in source, formatOutput bool) result {
+	res := result{Path: in.Path, Functions: []function{}, Types: []typeDecl{}}
+	src := []byte(in.Source)
+	fset := token.NewFileSet()
+	file, err := parser.ParseFile(fset, in.Path, src, parser.ParseComments)
+	if err != nil {
+		res.SyntaxError = &syntaxError{Message: err.Error(), Line: 0, Column: 0}
+		if list, ok := err.(scanner.ErrorList); ok && len(list) > 0 {
+			res.SyntaxError = &syntaxError{Message: list[0].Msg, Line: list[0].Pos.Line, Column: list[0].Pos.Column}
+		}
+		return res
+	}
+	res.Package = file.Name.Name
+	for _, decl := range file.Decls {
+		switch d := decl.(type) {
+		case *ast.FuncDecl:
+			if d.Body != nil {
+				res.Functions = append(res.Functions, describeFunc(fset, d))
+			}
+		case *ast.GenDecl:
+			if d.Tok == token.TYPE {
+				res.Types = append(res.Types, describeTypes(fset, src, d)...)
+			}
+		}
+	}
+	if formatOutput {
+		if formatted, err := format.Source(src); err == nil {
+			text := string(formatted)
+			res.Formatted = &text
+		}
+	}
+	return res
+}
+
+func main() {
+	var req request
+	if err := json.NewDecoder(os.Stdin).Decode(&req); err != nil {
+		os.Stderr.WriteString(err.Error() + "\n")
+		os.Exit(2)
+	}
+	results := []result{}
+	for _, in := range req.Sources {
+		results = append(results, scan(in, req.Format))
+	}
+	_ = json.NewEncoder(os.Stdout).Encode(map[string]any{"results": results})
+}
+`;
+
+/**
+ * A function as emitted by the helper, which uses null for absent values.
+ */
+interface RawFunctionInfo extends Omit<GoFunctionInfo, 'receiver' | 'doc'> {
+  receiver: string | null;
+  doc: string | null;
+}
+
+/**
+ * A file scan as emitted by the helper.
+ */
+interface RawFileScan {
+  filePath: string;
+  packageName: string;
+  functions: RawFunctionInfo[];
+  types: GoTypeInfo[];
+  syntaxError?: GoSyntaxErrorInfo;
+  formatted?: string;
+}
+
+/**
+ * Helper binaries being built or already built, keyed by Go command.
+ */
+const helperBinaries = new Map<string, Promise<string>>();
+
+/**
+ * Returns the path of the compiled helper, building it on first use.
+ *
+ * The binary lives under the system temp directory, keyed by a hash of the
+ * helper source and the Go version, and is written under a temporary name
+ * and renamed so concurrent processes never run a partial binary.
+ */
+function ensureHelper(go: string, timeout: number): Promise<string> {
+  let binary = helperBinaries.get(go);
+  if (binary === undefined) {
+    binary = buildHelper(go, timeout);
+    helperBinaries.set(go, binary);
+    // Let a later call retry after a failed build
+    binary.catch(() => helperBinaries.delete(go));
+  }
+  return binary;
+}
+
+async function buildHelper(go: string, timeout: number): Promise<string> {
+  const version = await execa(go, ['env', 'GOVERSION'], { reject: false, timeout });
+  if (version.code === 'ENOENT') {
+    throw new GoNotInstalledError(go);
+  }
+
+  const hash = createHash('sha256')
+    .update(GO_AST_HELPER, 'utf8')
+    .update(typeof version.stdout === 'string' ? version.stdout : '', 'utf8')
+    .digest('hex')
+    .slice(0, 16);
+  const dir = path.join(os.tmpdir(), `criticality-go-ast-${hash}`);
+  const binary = path.join(dir, 'go-ast-helper');
+  if (await safeExists(binary)) {
+    return binary;
+  }
+
+  await safeMkdir(dir, { recursive: true });
+  const mainFile = path.join(dir, 'main.go');
+  await safeWriteFile(mainFile, GO_AST_HELPER, 'utf-8');
+  const partial = `${binary}.${String(process.pid)}.tmp`;
+  const result = await execa(go, ['build', '-o', partial, mainFile], {
+    cwd: dir,
+    reject: false,
+    timeout: Math.max(timeout, 120000),
+  });
+  if (result.code === 'ENOENT') {
+    throw new GoNotInstalledError(go);
+  }
+  if (result.exitCode !== 0) {
+    const stderr = typeof result.stderr === 'string' ? result.stderr.trim() : '';
+    throw new GoHelperError(stderr !== '' ? stderr : `build exit code ${String(result.exitCode)}`);
+  }
+  await safeRename(partial, binary);
+  return binary;
+}
+
+/**
+ * Runs the helper on the given sources.
+ */
+async function runHelper(
+  sources: readonly { filePath: string; source: string }[],
+  format: boolean,
+  options: GoHelperOptions
+): Promise<RawFileScan[]> {
+  const timeout = options.timeout ?? 60000;
+  const binary = await ensureHelper(options.go ?? 'go', timeout);
+  const result = await execa(binary, [], {
+    input: JSON.stringify({
+      sources: sources.map((s) => ({ path: s.filePath, source: s.source })),
+      format,
+    }),
+    reject: false,
+    timeout,
+  });
+
+  if (result.exitCode !== 0) {
+    const stderr = typeof result.stderr === 'string' ? result.stderr.trim() : '';
+    throw new GoHelperError(stderr !== '' ? stderr : `exit code ${String(result.exitCode)}`);
+  }
+
+  try {
+    const parsed = JSON.parse(typeof result.stdout === 'string' ? result.stdout : '') as {
+      results?: RawFileScan[];
+    };
+    return parsed.results ?? [];
+  } catch {
+    throw new GoHelperError('unreadable output');
+  }
+}
+
+/**
+ * Scans Go sources for functions and type declarations.
+ *
+ * All sources are scanned in one helper run. Sources that do not parse are
+ * reported with a `syntaxError` and no functions.
+ *
+ * @param sources - The sources to scan, with the paths they came from.
+ * @param options - Helper options.
+ * @returns One scan per source, in input order.
+ * @throws {GoNotInstalledError} If the Go toolchain is not found.
+ * @throws {GoHelperError} If the helper fails.
+ */
+export async function scanGoSources(
+  sources: readonly { filePath: string; source: string }[],
+  options: GoHelperOptions = {}
+): Promise<GoFileScan[]> {
+  if (sources.length === 0) {
+    return [];
+  }
+  return (await runHelper(sources, false, options)).map(toFileScan);
+}
+
+/**
+ * Scans a single Go source.
+ *
+ * @param source - The source text.
+ * @param filePath - The path the source came from.
+ * @param options - Helper options.
+ * @returns The file scan.
+ * @throws {GoSyntaxError} If the source does not parse.
+ */
+export async function scanGoSource(
+  source: string,
+  filePath: string,
+  options: GoHelperOptions = {}
+): Promise<GoFileScan> {
+  const [scan] = await scanGoSources([{ filePath, source }], options);
+  if (scan === undefined) {
+    throw new GoHelperError('no result');
+  }
+  if (scan.syntaxError !== undefined) {
+    throw new GoSyntaxError(filePath, scan.syntaxError);
+  }
+  return scan;
+}
+
+/**
+ * Converts the helper's JSON to the exported shapes.
+ */
+function toFileScan(raw: RawFileScan): GoFileScan {
+  if (raw.syntaxError !== undefined) {
+    return {
+      filePath: raw.filePath,
+      packageName: '',
+      functions: [],
+      types: [],
+      syntaxError: raw.syntaxError,
+    };
+  }
+
+  const functions = raw.functions.map((fn): GoFunctionInfo => {
+    const { receiver, doc, ...rest } = fn;
+    return {
+      ...rest,
+      ...(receiver !== null ? { receiver } : {}),
+      ...(doc !== null && doc !== '' ? { doc } : {}),
+    };
+  });
+
+  return { filePath: raw.filePath, packageName: raw.packageName, functions, types: raw.types };
+}
+
+/**
+ * Lists the stub functions in a file scan.
+ *
+ * @param scan - The file scan.
+ * @returns Functions whose body is only `panic("TODO")`.
+ */
+export function todoFunctionsFromScan(scan: GoFileScan): GoTodoFunction[] {
+  return scan.functions
+    .filter((fn) => fn.isStub)
+    .map((fn) => ({
+      name: fn.name,
+      filePath: scan.filePath,
+      line: fn.line,
+      signature: fn.signature,
+      ...(fn.receiver !== undefined ? { receiver: fn.receiver } : {}),
+      hasTodoBody: true as const,
+    }));
+}
+
+/**
+ * Finds functions whose body is only `panic("TODO")` in a source.
+ *
+ * `panic("TODO: reason")` is also a stub. Markers inside comments, strings,
+ * or bodies with other statements are not matched.
+ *
+ * @param source - The source text.
+ * @param filePath - The path to report for each function.
+ * @param options - Helper options.
+ * @returns The stub functions, in source order.
+ * @throws {GoSyntaxError} If the source does not parse.
+ */
+export async function findTodoFunctionsInSource(
+  source: string,
+  filePath: string,
+  options: GoHelperOptions = {}
+): Promise<GoTodoFunction[]> {
+  return todoFunctionsFromScan(await scanGoSource(source, filePath, options));
+}
+
+/**
+ * Replaces a function's body with a new body.
+ *
+ * The body is placed between the function's braces and the file is then
+ * formatted with `go/format`. An InvalidBodySyntaxError is thrown if the
+ * result does not parse, so a broken body never reaches disk.
+ *
+ * @param source - The source text.
+ * @param functionName - The function to replace the body of.
+ * @param body - The new body, without the signature or braces.
+ * @param options - Receiver for disambiguation, file path for messages, and helper options.
+ * @returns The updated, formatted source.
+ * @throws {FunctionNotFoundError} If the function does not exist.
+ * @throws {InvalidBodySyntaxError} If the result does not parse.
+ */
+export async function injectFunctionBody(
+  source: string,
+  functionName: string,
+  body: string,
+  options: InjectOptions = {}
+): Promise<string> {
+  const filePath = options.filePath ?? '<source>';
+  const scan = await scanGoSource(source, filePath, options);
+  const target = scan.functions.find(
+    (fn) =>
+      fn.name === functionName &&
+      (options.receiver === undefined || fn.receiver === options.receiver)
+  );
+  if (target === undefined) {
+    throw new FunctionNotFoundError(functionName, filePath);
+  }
+
+  // Offsets from go/token are UTF-8 byte offsets
+  const bytes = Buffer.from(source, 'utf8');
+  const indented = dedent(body)
+    .split('\n')
+    .map((line) => (line.trim() === '' ? '' : `\t${line}`))
+    .join('\n');
+  const updated = [
+    bytes.subarray(0, target.bodyStart).toString('utf8'),
+    `\n${indented}\n`,
+    bytes.subarray(target.bodyEnd).toString('utf8'),
+  ].join('');
+
+  const [check] = await runHelper([{ filePath, source: updated }], true, options);
+  if (check?.syntaxError !== undefined) {
+    throw new InvalidBodySyntaxError(
+      functionName,
+      `${check.syntaxError.message} at line ${String(check.syntaxError.line)}`
+    );
+  }
+  return check?.formatted ?? updated;
+}
+
+/**
+ * Removes common leading indentation and surrounding blank lines.
+ */
+function dedent(text: string): string {
+  const lines = text
+    .replace(/^\s*\n/, '')
+    .trimEnd()
+    .split('\n');
+  const indents = lines
+    .filter((line) => line.trim() !== '')
+    .map((line) => /^[ \t]*/.exec(line)?.[0].length ?? 0);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(common)).join('\n');
+}
@@ -0,0 +1,330 @@
+/**
+ * Tests for the go build, vet, and test wrappers.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock execa before importing the module under test
+vi.mock('execa', () => ({
+  execa: vi.fn(),
+}));
+
+import { execa } from 'execa';
+import { GoNotInstalledError } from './ast.js';
+import {
+  parseGoBuildOutput,
+  parseGoTestJson,
+  parseGoVetOutput,
+  runGoCheck,
+  runGoTests,
+} from './gotool.js';
+
+const mockExeca = vi.mocked(execa);
+
+const BUILD_OUTPUT = `# example.com/m/money
+money/money.go:7:9: cannot use s (variable of type string) as int value in return statement
+money/money.go:12:2: undefined: total
+money/ledger.go:3:15: too many arguments in call to add
+	have (int, int, int)
+	want (int, int)
+`;
+
+const VET_OUTPUT = `# example.com/m
+{
+	"example.com/m": {
+		"printf": [
+			{
+				"posn": "/work/m/main.go:6:2",
+				"message": "fmt.Printf format %d has arg \\"x\\" of wrong type string"
+			}
+		],
+		"unreachable": [
+			{
+				"posn": "/work/m/main.go:9:2",
+				"message": "unreachable code"
+			}
+		]
+	}
+}
+`;
+
+const TEST_JSON = [
+  { Action: 'start', Package: 'example.com/m/money' },
+  { Action: 'run', Package: 'example.com/m/money', Test: 'TestAdd' },
+  {
+    Action: 'output',
+    Package: 'example.com/m/money',
+    Test: 'TestAdd',
+    Output: '=== RUN   TestAdd\n',
+  },
+  {
+    Action: 'output',
+    Package: 'example.com/m/money',
+    Test: 'TestAdd',
+    Output: '--- PASS: TestAdd (0.00s)\n',
+  },
+  { Action: 'pass', Package: 'example.com/m/money', Test: 'TestAdd', Elapsed: 0.002 },
+  { Action: 'run', Package: 'example.com/m/money', Test: 'TestCompare' },
+  {
+    Action: 'output',
+    Package: 'example.com/m/money',
+    Test: 'TestCompare',
+    Output: '=== RUN   TestCompare\n',
+  },
+  {
+    Action: 'output',
+    Package: 'example.com/m/money',
+    Test: 'TestCompare',
+    Output: '    money_test.go:13: got 2, want 3\n',
+  },
+  {
+    Action: 'output',
+    Package: 'example.com/m/money',
+    Test: 'TestCompare',
+    Output: '--- FAIL: TestCompare (0.01s)\n',
+  },
+  { Action: 'fail', Package: 'example.com/m/money', Test: 'TestCompare', Elapsed: 0.012 },
+  { Action: 'run', Package: 'example.com/m/money', Test: 'TestTotal' },
+  {
+    Action: 'output',
+    Package: 'example.com/m/money',
+    Test: 'TestTotal',
+    Output: '    money_test.go:20: later\n',
+  },
+  { Action: 'skip', Package: 'example.com/m/money', Test: 'TestTotal', Elapsed: 0 },
+  { Action: 'run', Package: 'example.com/m/money', Test: 'TestTable/negative' },
+  {
+    Action: 'output',
+    Package: 'example.com/m/money',
+    Test: 'TestTable/negative',
+    Output: 'panic: boom\n',
+  },
+  {
+    Action: 'output',
+    Package: 'example.com/m/money',
+    Output: 'FAIL\texample.com/m/money\t0.015s\n',
+  },
+  { Action: 'fail', Package: 'example.com/m/money', Elapsed: 0.015 },
+]
+  .map((event) => JSON.stringify(event))
+  .join('\n');
+
+describe('parseGoBuildOutput', () => {
+  it('parses compiler errors and appends continuation lines', () => {
+    const errors = parseGoBuildOutput(BUILD_OUTPUT, '/work/m');
+
+    expect(errors.map((e) => [e.file, e.line, e.column])).toEqual([
+      ['/work/m/money/money.go', 7, 9],
+      ['/work/m/money/money.go', 12, 2],
+      ['/work/m/money/ledger.go', 3, 15],
+    ]);
+    expect(errors[1]).toMatchObject({ code: 'build', message: 'undefined: total' });
+    expect(errors[2]?.message).toBe(
+      'too many arguments in call to add\nhave (int, int, int)\nwant (int, int)'
+    );
+  });
+
+  it('ignores lines without a location', () => {
+    expect(parseGoBuildOutput('go: downloading example.com/x v1.0.0\n')).toEqual([]);
+  });
+});
+
+describe('parseGoVetOutput', () => {
+  it('parses JSON findings with the analyzer as code', () => {
+    const errors = parseGoVetOutput(VET_OUTPUT);
+
+    expect(errors).toEqual([
+      {
+        file: '/work/m/main.go',
+        line: 6,
+        column: 2,
+        code: 'printf',
+        message: 'fmt.Printf format %d has arg "x" of wrong type string',
+        severity: 'error',
+      },
+      {
+        file: '/work/m/main.go',
+        line: 9,
+        column: 2,
+        code: 'unreachable',
+        message: 'unreachable code',
+        severity: 'error',
+      },
+    ]);
+  });
+
+  it('parses type errors reported as text', () => {
+    const errors = parseGoVetOutput('vet: money_test.go:5:9: undefined: Subtract\n', '/work/m');
+
+    expect(errors).toEqual([
+      {
+        file: '/work/m/money_test.go',
+        line: 5,
+        column: 9,
+        code: 'build',
+        message: 'undefined: Subtract',
+        severity: 'error',
+      },
+    ]);
+  });
+});
+
+describe('parseGoTestJson', () => {
+  it('reports one result per test with captured failure output', () => {
+    const tests = parseGoTestJson(TEST_JSON);
+
+    expect(tests.map((t) => [t.fullName, t.status])).toEqual([
+      ['example.com/m/money.TestAdd', 'passed'],
+      ['example.com/m/money.TestCompare', 'failed'],
+      ['example.com/m/money.TestTotal', 'skipped'],
+      ['example.com/m/money.TestTable/negative', 'failed'],
+    ]);
+    expect(tests[1]).toMatchObject({
+      name: 'TestCompare',
+      file: 'money_test.go',
+      durationMs: 12,
+      error: { message: 'money_test.go:13: got 2, want 3' },
+    });
+    expect(tests[3]?.error?.message).toBe('panic: boom');
+  });
+
+  it('reports packages that fail without running tests', () => {
+    const output = [
+      { Action: 'output', Package: 'example.com/m/boot', Output: 'panic: init failed\n' },
+      { Action: 'fail', Package: 'example.com/m/boot', Elapsed: 0.001 },
+    ]
+      .map((event) => JSON.stringify(event))
+      .join('\n');
+
+    expect(parseGoTestJson(output)).toEqual([
+      {
+        name: 'example.com/m/boot',
+        fullName: 'example.com/m/boot',
+        file: '',
+        status: 'failed',
+        durationMs: 1,
+        error: { message: 'panic: init failed' },
+      },
+    ]);
+  });
+});
+
+describe('runGoCheck', () => {
+  beforeEach(() => {
+    mockExeca.mockReset();
+  });
+
+  it('runs go vet after a clean build', async () => {
+    mockExeca
+      .mockResolvedValueOnce({ stdout: '', stderr: '', exitCode: 0 } as never)
+      .mockResolvedValueOnce({ stdout: '', stderr: VET_OUTPUT, exitCode: 0 } as never);
+
+    const result = await runGoCheck('/work/m');
+
+    expect(mockExeca).toHaveBeenNthCalledWith(
+      1,
+      'go',
+      ['build', './...'],
+      expect.objectContaining({ cwd: '/work/m' })
+    );
+    expect(mockExeca).toHaveBeenNthCalledWith(
+      2,
+      'go',
+      ['vet', '-json', './...'],
+      expect.objectContaining({ cwd: '/work/m' })
+    );
+    expect(result.success).toBe(false);
+    expect(result.errorCount).toBe(2);
+  });
+
+  it('skips go vet when the build fails', async () => {
+    mockExeca.mockResolvedValueOnce({ stdout: '', stderr: BUILD_OUTPUT, exitCode: 1 } as never);
+
+    const result = await runGoCheck('/work/m');
+
+    expect(mockExeca).toHaveBeenCalledTimes(1);
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toMatchObject({ file: '/work/m/money/money.go', line: 7 });
+  });
+
+  it('reports failures without a location as a go error', async () => {
+    mockExeca.mockResolvedValueOnce({
+      stdout: '',
+      stderr: 'go: go.mod file not found in current directory or any parent directory\n',
+      exitCode: 1,
+    } as never);
+
+    const result = await runGoCheck('/work/m', { vet: false });
+
+    expect(result.errors).toEqual([
+      {
+        file: '',
+        line: 0,
+        column: 0,
+        code: 'go',
+        message: 'go: go.mod file not found in current directory or any parent directory',
+        severity: 'error',
+      },
+    ]);
+  });
+
+  it('succeeds when build and vet are clean', async () => {
+    mockExeca.mockResolvedValue({ stdout: '', stderr: '', exitCode: 0 } as never);
+
+    const result = await runGoCheck('/work/m', { packages: ['./money'] });
+
+    expect(mockExeca).toHaveBeenLastCalledWith(
+      'go',
+      ['vet', '-json', './money'],
+      expect.anything()
+    );
+    expect(result).toEqual({ success: true, errors: [], errorCount: 0, warningCount: 0 });
+  });
+
+  it('throws GoNotInstalledError when go is missing', async () => {
+    mockExeca.mockResolvedValueOnce({ code: 'ENOENT', exitCode: undefined } as never);
+
+    await expect(runGoCheck('/work/m')).rejects.toThrow(GoNotInstalledError);
+  });
+});
+
+describe('runGoTests', () => {
+  beforeEach(() => {
+    mockExeca.mockReset();
+  });
+
+  it('runs go test -json without caching and summarizes results', async () => {
+    mockExeca.mockResolvedValueOnce({ stdout: TEST_JSON, stderr: '', exitCode: 1 } as never);
+
+    const result = await runGoTests('./money', { cwd: '/work/m', testNamePattern: '^TestA' });
+
+    expect(mockExeca).toHaveBeenCalledWith(
+      'go',
+      ['test', '-json', '-count=1', '-run', '^TestA', './money'],
+      expect.objectContaining({ cwd: '/work/m' })
+    );
+    expect(result).toMatchObject({
+      success: false,
+      totalTests: 4,
+      passedTests: 1,
+      failedTests: 2,
+      skippedTests: 1,
+      diagnostics: [],
+    });
+  });
+
+  it('reports build failures as diagnostics', async () => {
+    mockExeca.mockResolvedValueOnce({ stdout: '', stderr: BUILD_OUTPUT, exitCode: 1 } as never);
+
+    const result = await runGoTests('', { cwd: '/work/m' });
+
+    expect(mockExeca).toHaveBeenCalledWith(
+      'go',
+      ['test', '-json', '-count=1', './...'],
+      expect.anything()
+    );
+    expect(result.success).toBe(false);
+    expect(result.totalTests).toBe(0);
+    expect(result.diagnostics).toHaveLength(3);
+  });
+});
@@ -0,0 +1,503 @@
+/**
+ * Go toolchain wrapper with structured diagnostic and test output.
+ *
+ * Runs `go build` and `go vet -json` and parses compiler errors and vet
+ * findings into StructuralError records, and runs `go test -json` and
+ * parses its event stream into the same TestRunResult shape the TypeScript
+ * adapter produces.
+ *
+ * @module adapters/go/gotool
+ */
+
+import { execa } from 'execa';
+import * as path from 'node:path';
+import type { StructuralError } from '../../servers/toolchain/types.js';
+import type { TestResult, TestRunResult, TestStatus } from '../typescript/testrunner.js';
+import { GoNotInstalledError } from './ast.js';
+
+/**
+ * Options for running `go build` and `go vet`.
+ */
+export interface GoCheckOptions {
+  /** Go command to run. Default: "go" */
+  go?: string;
+  /** Package patterns to check. Default: ["./..."] */
+  packages?: string[];
+  /** Run `go vet` after a clean build. Default: true */
+  vet?: boolean;
+  /** Timeout in milliseconds for each command. Default: 300000 */
+  timeout?: number;
+}
+
+/**
+ * Result of running `go build` and `go vet`.
+ */
+export interface GoCheckResult {
+  /** Whether the packages built and vet reported nothing */
+  success: boolean;
+  /** Compiler errors and vet findings */
+  errors: StructuralError[];
+  /** Number of errors */
+  errorCount: number;
+  /** Number of warnings */
+  warningCount: number;
+}
+
+/**
+ * Options for running `go test`.
+ */
+export interface GoTestOptions {
+  /** Go command to run. Default: "go" */
+  go?: string;
+  /** Working directory (the module root). Default: process.cwd() */
+  cwd?: string;
+  /** Test name filter, passed as `-run` */
+  testNamePattern?: string;
+  /** Timeout in milliseconds. Default: 600000 */
+  timeout?: number;
+}
+
+/**
+ * Result of running `go test`.
+ *
+ * Extends the shared TestRunResult with the compiler errors emitted while
+ * building the test binaries, so build failures are reported as structural
+ * errors rather than as an empty test run.
+ */
+export interface GoTestRunResult extends TestRunResult {
+  /** Compiler errors from building the test binaries */
+  diagnostics: StructuralError[];
+}
+
+/**
+ * An event as emitted by `go test -json` (see `go doc test2json`).
+ */
+interface GoTestEvent {
+  Action?: string;
+  Package?: string;
+  Test?: string;
+  Elapsed?: number;
+  Output?: string;
+}
+
+/**
+ * A single finding in `go vet -json` output.
+ */
+interface VetFinding {
+  posn?: string;
+  message?: string;
+}
+
+/**
+ * Matches a compiler error line, e.g. `pkg/money.go:4:9: undefined: x`.
+ * `go vet` prefixes type errors with `vet: `.
+ */
+const COMPILER_ERROR_PATTERN =
+  // eslint-disable-next-line security/detect-unsafe-regex -- anchored, applied to single output lines
+  /^(?:vet: )?(.+?\.go):(\d+)(?::(\d+))?: (.*)$/;
+
+/**
+ * Matches a vet position, e.g. `/work/m/pkg/a.go:6:2`.
+ */
+const POSITION_PATTERN = /^(.*):(\d+):(\d+)$/;
+
+/**
+ * Matches a location in captured test output, e.g. `    money_test.go:13: got 2`.
+ */
+const TEST_OUTPUT_LOCATION_PATTERN = /^\s+(\S+\.go):\d+: /;
+
+/**
+ * Parses `go build` (or `go vet` type-check) output into structural errors.
+ *
+ * Package headers (`# example.com/m/pkg`) are skipped; tab-indented
+ * continuation lines (e.g. the "have/want" lines of a mismatch) are
+ * appended to the preceding message.
+ *
+ * @param output - Raw stderr from the go command.
+ * @param projectPath - If given, relative file paths are resolved against it.
+ * @returns The structural errors in emission order.
+ */
+export function parseGoBuildOutput(output: string, projectPath?: string): StructuralError[] {
+  const errors: StructuralError[] = [];
+
+  for (const rawLine of output.split('\n')) {
+    const line = rawLine.trimEnd();
+    const previous = errors[errors.length - 1];
+    if (line.startsWith('\t') && previous !== undefined) {
+      previous.message = `${previous.message}\n${line.trim()}`;
+      continue;
+    }
+
+    const match = COMPILER_ERROR_PATTERN.exec(line);
+    if (match === null) {
+      continue;
+    }
+    errors.push({
+      file: resolveFile(match[1] ?? '', projectPath),
+      line: parseInt(match[2] ?? '0', 10),
+      column: match[3] !== undefined ? parseInt(match[3], 10) : 0,
+      code: 'build',
+      message: match[4] ?? '',
+      severity: 'error',
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Parses `go vet -json` output into structural errors.
+ *
+ * The JSON objects (keyed by package, then analyzer) are pretty-printed
+ * across several lines and interleaved with `# package` headers, so they
+ * are located by brace matching. Each finding becomes an error whose code
+ * is the analyzer name. Type errors, which vet reports as text, are parsed
+ * as build errors.
+ *
+ * @param output - Raw stderr from `go vet -json`.
+ * @param projectPath - If given, relative file paths are resolved against it.
+ * @returns The structural errors in emission order.
+ */
+export function parseGoVetOutput(output: string, projectPath?: string): StructuralError[] {
+  const errors: StructuralError[] = [];
+
+  for (const block of extractJsonObjects(output)) {
+    let packages: Record<string, Record<string, VetFinding[] | { error?: string }>>;
+    try {
+      packages = JSON.parse(block) as typeof packages;
+    } catch {
+      continue;
+    }
+    for (const analyzers of Object.values(packages)) {
+      for (const [analyzer, findings] of Object.entries(analyzers)) {
+        if (!Array.isArray(findings)) {
+          continue;
+        }
+        for (const finding of findings) {
+          const position = POSITION_PATTERN.exec(finding.posn ?? '');
+          errors.push({
+            file: resolveFile(position?.[1] ?? finding.posn ?? '', projectPath),
+            line: position !== null ? parseInt(position[2] ?? '0', 10) : 0,
+            column: position !== null ? parseInt(position[3] ?? '0', 10) : 0,
+            code: analyzer,
+            message: finding.message ?? '',
+            severity: 'error',
+          });
+        }
+      }
+    }
+  }
+
+  const textOutput = output
+    .split('\n')
+    .filter((line) => line.startsWith('vet: '))
+    .join('\n');
+  errors.push(...parseGoBuildOutput(textOutput, projectPath));
+
+  return errors;
+}
+
+/**
+ * Runs `go build`, then `go vet` if the build is clean, and returns
+ * structured diagnostics.
+ *
+ * @param projectPath - The module root.
+ * @param options - Check options.
+ * @returns The check result.
+ * @throws {GoNotInstalledError} If the Go toolchain is not installed.
+ *
+ * @example
+ * const result = await runGoCheck('./my-module');
+ * for (const error of result.errors) {
+ *   console.log(`${error.file}:${error.line}:${error.column} - ${error.code}: ${error.message}`);
+ * }
+ */
+export async function runGoCheck(
+  projectPath: string,
+  options: GoCheckOptions = {}
+): Promise<GoCheckResult> {
+  const resolvedProjectPath = path.resolve(projectPath);
+  const packages = options.packages ?? ['./...'];
+
+  let run = await runGo(['build', ...packages], resolvedProjectPath, options);
+  let errors = parseGoBuildOutput(run.stderr, resolvedProjectPath);
+
+  if (run.exitCode === 0 && options.vet !== false) {
+    run = await runGo(['vet', '-json', ...packages], resolvedProjectPath, options);
+    errors = parseGoVetOutput(run.stderr, resolvedProjectPath);
+  }
+
+  if (run.exitCode !== 0 && errors.length === 0) {
+    errors = [toolFailure(run.stderr, run.exitCode)];
+  }
+
+  const errorCount = errors.filter((e) => e.severity === 'error').length;
+  return {
+    success: run.exitCode === 0 && errorCount === 0,
+    errors,
+    errorCount,
+    warningCount: errors.length - errorCount,
+  };
+}
+
+/**
+ * Parses a `go test -json` event stream into test results.
+ *
+ * Each test (including subtests, named `TestParent/sub`) yields one result
+ * from its final pass, fail, or skip event, with its captured output as the
+ * failure message. A package that fails without running any test (e.g. a
+ * panic in `init`) yields one failed result named after the package.
+ * Non-JSON lines are ignored; build failures are reported on stderr and
+ * parsed separately.
+ *
+ * @param output - Raw stdout from `go test -json`.
+ * @returns The individual test results, in the order the tests started.
+ */
+export function parseGoTestJson(output: string): TestResult[] {
+  interface Entry {
+    packageName: string;
+    test?: string;
+    status?: TestStatus;
+    elapsed: number;
+    output: string[];
+  }
+  const entries = new Map<string, Entry>();
+
+  for (const rawLine of output.split('\n')) {
+    const line = rawLine.trim();
+    if (!line.startsWith('{')) {
+      continue;
+    }
+    let event: GoTestEvent;
+    try {
+      event = JSON.parse(line) as GoTestEvent;
+    } catch {
+      continue;
+    }
+    const packageName = event.Package ?? '';
+    const key = `${packageName}\u0000${event.Test ?? ''}`;
+    let entry = entries.get(key);
+    if (entry === undefined) {
+      entry = {
+        packageName,
+        ...(event.Test !== undefined ? { test: event.Test } : {}),
+        elapsed: 0,
+        output: [],
+      };
+      entries.set(key, entry);
+    }
+
+    switch (event.Action) {
+      case 'output':
+        entry.output.push(event.Output ?? '');
+        break;
+      case 'pass':
+      case 'fail':
+      case 'skip':
+        entry.status = STATUS_BY_ACTION[event.Action];
+        entry.elapsed = event.Elapsed ?? 0;
+        break;
+    }
+  }
+
+  const all = [...entries.values()];
+  const tests: TestResult[] = [];
+  for (const entry of all) {
+    if (entry.test === undefined) {
+      const ranTests = all.some((e) => e.test !== undefined && e.packageName === entry.packageName);
+      if (entry.status === 'failed' && !ranTests) {
+        tests.push({
+          name: entry.packageName,
+          fullName: entry.packageName,
+          file: '',
+          status: 'failed',
+          durationMs: Math.round(entry.elapsed * 1000),
+          error: { message: captured(entry.output) },
+        });
+      }
+      continue;
+    }
+
+    // A test without a final event was interrupted (panic or timeout)
+    const status = entry.status ?? 'failed';
+    const location = entry.output
+      .map((text) => TEST_OUTPUT_LOCATION_PATTERN.exec(text)?.[1])
+      .find((file) => file !== undefined);
+    tests.push({
+      name: entry.test,
+      fullName: `${entry.packageName}.${entry.test}`,
+      file: location ?? '',
+      status,
+      durationMs: Math.round(entry.elapsed * 1000),
+      ...(status === 'failed'
+        ? { error: { message: captured(entry.output) || `${entry.test} failed` } }
+        : {}),
+    });
+  }
+
+  return tests;
+}
+
+/**
+ * Runs `go test -json` and returns structured results.
+ *
+ * Results are never cached (`-count=1`), so every run executes the tests
+ * against the current sources.
+ *
+ * @param pattern - Package pattern (e.g. "./money/..."); empty runs every package.
+ * @param options - Test run options.
+ * @returns The test run result, including build diagnostics.
+ * @throws {GoNotInstalledError} If the Go toolchain is not installed.
+ *
+ * @example
+ * const result = await runGoTests('./money', { cwd: './my-module' });
+ * console.log(`${result.passedTests}/${result.totalTests} passed`);
+ */
+export async function runGoTests(
+  pattern: string,
+  options: GoTestOptions = {}
+): Promise<GoTestRunResult> {
+  const cwd =
+    options.cwd !== undefined && options.cwd !== '' ? path.resolve(options.cwd) : process.cwd();
+
+  const args = ['test', '-json', '-count=1'];
+  if (options.testNamePattern !== undefined && options.testNamePattern !== '') {
+    args.push('-run', options.testNamePattern);
+  }
+  args.push(pattern !== '' ? pattern : './...');
+
+  const { stdout, stderr, exitCode } = await runGo(args, cwd, {
+    ...options,
+    timeout: options.timeout ?? 600000,
+  });
+  const diagnostics = parseGoBuildOutput(stderr, cwd);
+  const tests = parseGoTestJson(stdout);
+
+  const passedTests = tests.filter((t) => t.status === 'passed').length;
+  const failedTests = tests.filter((t) => t.status === 'failed').length;
+  const skippedTests = tests.length - passedTests - failedTests;
+
+  return {
+    success: exitCode === 0 && failedTests === 0 && diagnostics.length === 0,
+    totalTests: tests.length,
+    passedTests,
+    failedTests,
+    skippedTests,
+    tests,
+    diagnostics,
+  };
+}
+
+/**
+ * Test statuses for the terminal `go test -json` actions.
+ */
+const STATUS_BY_ACTION: Record<'pass' | 'fail' | 'skip', TestStatus> = {
+  pass: 'passed',
+  fail: 'failed',
+  skip: 'skipped',
+};
+
+/**
+ * Joins captured test output, dropping the framework's own status lines.
+ */
+function captured(output: readonly string[]): string {
+  return output
+    .filter((text) => !/^\s*(?:=== (?:RUN|PAUSE|CONT|NAME)|--- (?:FAIL|PASS|SKIP):)/.test(text))
+    .filter((text) => !/^(?:FAIL|ok|PASS)\b/.test(text))
+    .join('')
+    .trim();
+}
+
+/**
+ * Splits text into its top-level JSON objects by brace matching, skipping
+ * braces inside strings.
+ */
+function extractJsonObjects(text: string): string[] {
+  const objects: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charAt(i);
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"' && depth > 0) {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) {
+        start = i;
+      }
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        objects.push(text.slice(start, i + 1));
+      }
+    }
+  }
+
+  return objects;
+}
+
+/**
+ * Resolves a reported file path against the project.
+ */
+function resolveFile(file: string, projectPath: string | undefined): string {
+  return projectPath !== undefined && file !== '' && !path.isAbsolute(file)
+    ? path.join(projectPath, file)
+    : file;
+}
+
+/**
+ * Describes a go command that failed without reporting a location, e.g.
+ * `go: cannot find main module`.
+ */
+function toolFailure(stderr: string, exitCode: number): StructuralError {
+  const lines = stderr
+    .trim()
+    .split('\n')
+    .filter((line) => line !== '' && !line.startsWith('#'));
+  return {
+    file: '',
+    line: 0,
+    column: 0,
+    code: 'go',
+    message: lines.length > 0 ? lines.join('\n') : `go exited with code ${String(exitCode)}`,
+    severity: 'error',
+  };
+}
+
+/**
+ * Runs a go subcommand, capturing stdout and stderr.
+ */
+async function runGo(
+  args: string[],
+  cwd: string,
+  options: { go?: string; timeout?: number }
+): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  const go = options.go ?? 'go';
+  const result = await execa(go, args, {
+    cwd,
+    reject: false,
+    timeout: options.timeout ?? 300000,
+  });
+  if (result.code === 'ENOENT') {
+    throw new GoNotInstalledError(go);
+  }
+
+  return {
+    stdout: typeof result.stdout === 'string' ? result.stdout : '',
+    stderr: typeof result.stderr === 'string' ? result.stderr : '',
+    exitCode: result.exitCode ?? 1,
+  };
+}
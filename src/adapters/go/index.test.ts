@@ -0,0 +1,202 @@
+/**
+ * Tests for the GoAdapter facade.
+ *
+ * Discovery and injection run the AST helper with the local Go toolchain;
+ * go build, vet, and test are mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+vi.mock('./gotool.js', async () => {
+  const actual = await vi.importActual<typeof import('./gotool.js')>('./gotool.js');
+  return { ...actual, runGoCheck: vi.fn(), runGoTests: vi.fn() };
+});
+
+import { runGoCheck, runGoTests } from './gotool.js';
+import {
+  AdapterNotInitializedError,
+  FunctionNotFoundError,
+  GoAdapter,
+  NotGoProjectError,
+  listSourceFiles,
+} from './index.js';
+
+const LEDGER_GO = `package bank
+
+import "time"
+
+// Ledger is an append-only ledger.
+type Ledger struct {
+	entries []Money
+	opened  time.Time
+}
+
+// Total sums all entries.
+func (l *Ledger) Total() Money {
+	panic("TODO")
+}
+
+func Transfer(l *Ledger, amount Cents) bool {
+	panic("TODO")
+}
+`;
+
+const MONEY_GO = `package bank
+
+// Cents is an amount in the smallest currency unit.
+type Cents int64
+
+type Money struct {
+	Cents Cents
+}
+
+func (m Money) Add(other Money) Money {
+	panic("TODO: checked addition")
+}
+`;
+
+describe('GoAdapter', () => {
+  let projectPath: string;
+  let adapter: GoAdapter;
+
+  beforeEach(async () => {
+    projectPath = mkdtempSync(path.join(os.tmpdir(), 'go-adapter-test-'));
+    writeFileSync(path.join(projectPath, 'go.mod'), 'module example.com/bank\n\ngo 1.21\n');
+    mkdirSync(path.join(projectPath, 'bank'));
+    mkdirSync(path.join(projectPath, 'vendor', 'example.com', 'dep'), { recursive: true });
+    writeFileSync(path.join(projectPath, 'bank', 'ledger.go'), LEDGER_GO);
+    writeFileSync(path.join(projectPath, 'bank', 'money.go'), MONEY_GO);
+    writeFileSync(path.join(projectPath, 'bank', 'broken.go'), 'package bank\n\nfunc oops( {\n');
+    writeFileSync(
+      path.join(projectPath, 'bank', 'ledger_test.go'),
+      'package bank\n\nfunc helper() { panic("TODO") }\n'
+    );
+    writeFileSync(
+      path.join(projectPath, 'vendor', 'example.com', 'dep', 'dep.go'),
+      'package dep\n\nfunc F() { panic("TODO") }\n'
+    );
+
+    adapter = new GoAdapter();
+    await adapter.initialize(projectPath);
+  });
+
+  afterEach(() => {
+    rmSync(projectPath, { recursive: true, force: true });
+    vi.mocked(runGoCheck).mockReset();
+    vi.mocked(runGoTests).mockReset();
+  });
+
+  it('should reject directories without go.mod', async () => {
+    const empty = mkdtempSync(path.join(os.tmpdir(), 'go-adapter-empty-'));
+    try {
+      await expect(new GoAdapter().initialize(empty)).rejects.toThrow(NotGoProjectError);
+    } finally {
+      rmSync(empty, { recursive: true, force: true });
+    }
+  });
+
+  it('should throw before initialization', async () => {
+    await expect(new GoAdapter().findTodoFunctions()).rejects.toThrow(AdapterNotInitializedError);
+  });
+
+  it('should list non-test sources outside vendor', () => {
+    expect(listSourceFiles(projectPath).map((f) => path.relative(projectPath, f))).toEqual([
+      path.join('bank', 'broken.go'),
+      path.join('bank', 'ledger.go'),
+      path.join('bank', 'money.go'),
+    ]);
+  });
+
+  it('should find stubs across the module, skipping unparseable files', async () => {
+    const todos = await adapter.findTodoFunctions();
+
+    expect(todos.map((t) => [path.relative(projectPath, t.filePath), t.name, t.receiver])).toEqual([
+      [path.join('bank', 'ledger.go'), 'Total', 'Ledger'],
+      [path.join('bank', 'ledger.go'), 'Transfer', undefined],
+      [path.join('bank', 'money.go'), 'Add', 'Money'],
+    ]);
+  });
+
+  it('should extract signatures and referenced package types', async () => {
+    const context = await adapter.extractContext('Transfer');
+
+    expect(context.packageName).toBe('bank');
+    expect(context.function.signature).toBe('func Transfer(l *Ledger, amount Cents) bool');
+    expect(context.referencedTypes.map((t) => [t.name, t.kind])).toEqual([
+      ['Ledger', 'struct'],
+      ['Cents', 'defined'],
+    ]);
+    expect(context.referencedTypes[1]?.definition).toBe('type Cents int64');
+  });
+
+  it('should include the receiver type for methods', async () => {
+    const context = await adapter.extractContext('Total', 'bank/ledger.go', 'Ledger');
+
+    expect(context.function.doc).toBe('Total sums all entries.');
+    expect(context.referencedTypes.map((t) => t.name)).toEqual(['Ledger', 'Money']);
+  });
+
+  it('should throw FunctionNotFoundError for unknown functions', async () => {
+    await expect(adapter.extractContext('Missing')).rejects.toThrow(FunctionNotFoundError);
+    await expect(adapter.extractContext('Add', undefined, 'Ledger')).rejects.toThrow(
+      FunctionNotFoundError
+    );
+  });
+
+  it('should inject bodies and write them to disk', async () => {
+    const result = await adapter.inject(
+      'Total',
+      `var total Money
+for _, entry := range l.entries {
+	total = total.Add(entry)
+}
+return total`,
+      'bank/ledger.go',
+      'Ledger'
+    );
+
+    expect(result.success).toBe(true);
+    const updated = readFileSync(path.join(projectPath, 'bank', 'ledger.go'), 'utf-8');
+    expect(updated).toContain(`func (l *Ledger) Total() Money {
+	var total Money
+	for _, entry := range l.entries {
+		total = total.Add(entry)
+	}
+	return total
+}`);
+  });
+
+  it('should report injection failures without touching the file', async () => {
+    const result = await adapter.inject('Transfer', 'return (', 'bank/ledger.go');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Transfer');
+    expect(readFileSync(path.join(projectPath, 'bank', 'ledger.go'), 'utf-8')).toBe(LEDGER_GO);
+  });
+
+  it('should verify with go build and vet and run tests with go test', async () => {
+    vi.mocked(runGoCheck).mockResolvedValueOnce({
+      success: true,
+      errors: [],
+      errorCount: 0,
+      warningCount: 0,
+    });
+    vi.mocked(runGoTests).mockResolvedValueOnce({
+      success: true,
+      totalTests: 0,
+      passedTests: 0,
+      failedTests: 0,
+      skippedTests: 0,
+      tests: [],
+      diagnostics: [],
+    });
+
+    expect((await adapter.verify()).success).toBe(true);
+    expect((await adapter.runTests('./bank')).success).toBe(true);
+    expect(runGoCheck).toHaveBeenCalledWith(projectPath, { go: 'go' });
+    expect(runGoTests).toHaveBeenCalledWith('./bank', { cwd: projectPath, go: 'go' });
+  });
+});
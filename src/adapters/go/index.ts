@@ -0,0 +1,453 @@
+/**
+ * Go adapter facade for the Criticality Protocol.
+ *
+ * Provides the same responsibilities as the TypeScript adapter for Go
+ * modules: `panic("TODO")` stub detection, context extraction, body
+ * injection, verification via `go build` and `go vet`, and test execution
+ * via `go test -json`.
+ *
+ * @module adapters/go
+ */
+
+import * as path from 'node:path';
+import {
+  safeExistsSync,
+  safeReadFileSync,
+  safeReaddirSync,
+  safeWriteFileSync,
+} from '../../utils/safe-fs.js';
+
+import {
+  injectFunctionBody,
+  scanGoSources,
+  todoFunctionsFromScan,
+  type GoFileScan,
+  type GoFunctionInfo,
+  type GoTodoFunction,
+  type GoTypeInfo,
+} from './ast.js';
+import { runGoCheck, runGoTests, type GoCheckResult, type GoTestRunResult } from './gotool.js';
+
+// Re-export types for consumers
+export type {
+  GoFileScan,
+  GoFunctionInfo,
+  GoParameterInfo,
+  GoSyntaxErrorInfo,
+  GoTodoFunction,
+  GoTypeInfo,
+} from './ast.js';
+export {
+  GoHelperError,
+  GoNotInstalledError,
+  GoSyntaxError,
+  InvalidBodySyntaxError,
+} from './ast.js';
+export type { GoCheckResult, GoTestRunResult } from './gotool.js';
+export { parseGoBuildOutput, parseGoTestJson, parseGoVetOutput } from './gotool.js';
+export {
+  InvalidBaseTypeError,
+  generateDefinedType,
+  generateGoWitnessFile,
+  generateGopterFile,
+  generateGopterGenerator,
+  specWitnessToGoDefinition,
+  toGoType,
+  translateInvariant,
+  type GoWitnessDefinition,
+  type GoWitnessTypeParameter,
+} from './witness.js';
+
+/**
+ * Error thrown when attempting to use an adapter that hasn't been initialized.
+ */
+export class AdapterNotInitializedError extends Error {
+  constructor() {
+    super('Adapter not initialized. Call initialize() first.');
+    this.name = 'AdapterNotInitializedError';
+  }
+}
+
+/**
+ * Error thrown when the target directory is not a Go module.
+ */
+export class NotGoProjectError extends Error {
+  constructor(projectPath: string) {
+    super(`Not a Go module: ${projectPath}. No go.mod found.`);
+    this.name = 'NotGoProjectError';
+  }
+}
+
+/**
+ * Error thrown when a function cannot be found for context extraction.
+ */
+export class FunctionNotFoundError extends Error {
+  constructor(functionName: string, filePath?: string) {
+    const location = filePath !== undefined && filePath !== '' ? ` in ${filePath}` : '';
+    super(`Function '${functionName}' not found${location}`);
+    this.name = 'FunctionNotFoundError';
+  }
+}
+
+/**
+ * A type declared in the module.
+ */
+export interface GoTypeDefinition {
+  /** The type name */
+  name: string;
+  /** The kind of declaration */
+  kind: GoTypeInfo['kind'];
+  /** The declaration source, starting with `type` */
+  definition: string;
+  /** The file path where the type is declared */
+  filePath: string;
+}
+
+/**
+ * Context information for a Go function, used during the Injection phase.
+ */
+export interface GoFunctionContext {
+  /** The function as located by the AST helper (signature, parameters, doc comment) */
+  function: GoFunctionInfo;
+  /** Module types referenced by the signature or the receiver */
+  referencedTypes: GoTypeDefinition[];
+  /** The package the function belongs to */
+  packageName: string;
+  /** The file path where the function is defined */
+  filePath: string;
+  /** The line number of the `func` keyword */
+  line: number;
+}
+
+/**
+ * Result of injecting a function body.
+ */
+export interface InjectionResult {
+  /** Whether the injection was successful */
+  success: boolean;
+  /** The file path that was modified */
+  filePath: string;
+  /** The function name that was injected */
+  functionName: string;
+  /** Error message if injection failed */
+  error?: string;
+}
+
+/**
+ * Result of verifying the module after injection.
+ */
+export interface VerificationResult {
+  /** Whether the verification passed (clean build and vet) */
+  success: boolean;
+  /** The build and vet result */
+  check: GoCheckResult;
+}
+
+/**
+ * Options for the Go adapter.
+ */
+export interface GoAdapterOptions {
+  /** Go command used for the AST helper, build, vet, and tests. Default: "go" */
+  go?: string;
+}
+
+/**
+ * Directories never scanned for sources. Like the go command, directories
+ * starting with `.` or `_` are skipped as well.
+ */
+const SKIPPED_DIRECTORIES = new Set(['vendor', 'testdata', 'node_modules']);
+
+/**
+ * Go adapter for Go modules.
+ *
+ * Mirrors the TypeScriptAdapter surface:
+ * - TODO detection of `panic("TODO")` bodies
+ * - Context extraction including signatures, module types, and doc comments
+ * - Body injection validated by the Go parser and formatted with gofmt rules
+ * - Verification via `go build` and `go vet -json`
+ * - Test execution via `go test -json`
+ *
+ * @example
+ * const adapter = new GoAdapter();
+ * await adapter.initialize('./my-module');
+ *
+ * for (const todo of await adapter.findTodoFunctions()) {
+ *   const context = await adapter.extractContext(todo.name, todo.filePath, todo.receiver);
+ *   // Generate implementation using context...
+ *   await adapter.inject(todo.name, generatedBody, todo.filePath, todo.receiver);
+ * }
+ *
+ * const verification = await adapter.verify();
+ * if (!verification.success) {
+ *   console.log('Build errors:', verification.check.errors);
+ * }
+ */
+export class GoAdapter {
+  private projectPath: string | null = null;
+  private go = 'go';
+
+  /**
+   * Initializes the adapter for a Go module.
+   *
+   * @param projectPath - Path to the module root.
+   * @param options - Adapter options.
+   * @throws {NotGoProjectError} If no go.mod is found.
+   */
+  initialize(projectPath: string, options: GoAdapterOptions = {}): Promise<void> {
+    const resolvedPath = path.resolve(projectPath);
+    if (!safeExistsSync(path.join(resolvedPath, 'go.mod'))) {
+      return Promise.reject(new NotGoProjectError(resolvedPath));
+    }
+    this.projectPath = resolvedPath;
+    this.go = options.go ?? 'go';
+    return Promise.resolve();
+  }
+
+  /**
+   * Finds all functions with `panic("TODO")` bodies in the module.
+   *
+   * Files that do not parse are skipped.
+   *
+   * @returns TODO functions, ordered by file path and then source position.
+   * @throws {AdapterNotInitializedError} If not initialized.
+   */
+  async findTodoFunctions(): Promise<GoTodoFunction[]> {
+    const scans = await this.scanProject();
+    return scans.flatMap(todoFunctionsFromScan);
+  }
+
+  /**
+   * Scans every non-test source file in the module with the AST helper.
+   *
+   * @returns One scan per file, ordered by file path.
+   * @throws {AdapterNotInitializedError} If not initialized.
+   */
+  async scanProject(): Promise<GoFileScan[]> {
+    const projectPath = this.ensureInitialized();
+    const sources = listSourceFiles(projectPath).map((filePath) => ({
+      filePath,
+      source: safeReadFileSync(filePath, 'utf-8'),
+    }));
+    return scanGoSources(sources, { go: this.go });
+  }
+
+  /**
+   * Extracts context for a function to support code generation.
+   *
+   * @param functionName - The function name to extract context for.
+   * @param filePath - Optional file path to disambiguate.
+   * @param receiver - Optional receiver type name to disambiguate methods.
+   * @returns The function context.
+   * @throws {AdapterNotInitializedError} If not initialized.
+   * @throws {FunctionNotFoundError} If function not found.
+   */
+  async extractContext(
+    functionName: string,
+    filePath?: string,
+    receiver?: string
+  ): Promise<GoFunctionContext> {
+    const projectPath = this.ensureInitialized();
+    const scans = await this.scanProject();
+    const target =
+      filePath !== undefined && filePath !== '' ? path.resolve(projectPath, filePath) : undefined;
+
+    for (const scan of scans) {
+      if (target !== undefined && scan.filePath !== target) {
+        continue;
+      }
+      const fn = scan.functions.find(
+        (candidate) =>
+          candidate.name === functionName &&
+          (receiver === undefined || candidate.receiver === receiver)
+      );
+      if (fn !== undefined) {
+        const names = new Set(collectTypeNames(fn));
+        if (fn.receiver !== undefined) {
+          names.add(fn.receiver);
+        }
+        // Unqualified names resolve within the function's own package
+        const directory = path.dirname(scan.filePath);
+        const samePackage = scans.filter(
+          (candidate) =>
+            path.dirname(candidate.filePath) === directory &&
+            candidate.packageName === scan.packageName
+        );
+        return {
+          function: fn,
+          referencedTypes: findTypeDefinitions(names, samePackage),
+          packageName: scan.packageName,
+          filePath: scan.filePath,
+          line: fn.line,
+        };
+      }
+    }
+
+    throw new FunctionNotFoundError(functionName, filePath);
+  }
+
+  /**
+   * Injects a function body into a TODO stub.
+   *
+   * @param functionName - The function name to inject into.
+   * @param body - The new function body (statements only, any indentation).
+   * @param filePath - Optional file path to disambiguate.
+   * @param receiver - Optional receiver type name to disambiguate methods.
+   * @returns The injection result.
+   * @throws {AdapterNotInitializedError} If not initialized.
+   */
+  async inject(
+    functionName: string,
+    body: string,
+    filePath?: string,
+    receiver?: string
+  ): Promise<InjectionResult> {
+    const projectPath = this.ensureInitialized();
+    let file: string;
+    try {
+      file = (await this.extractContext(functionName, filePath, receiver)).filePath;
+    } catch {
+      return {
+        success: false,
+        filePath: filePath ?? '',
+        functionName,
+        error: `Function '${functionName}' not found`,
+      };
+    }
+
+    try {
+      const source = safeReadFileSync(file, 'utf-8');
+      const updated = await injectFunctionBody(source, functionName, body, {
+        filePath: path.relative(projectPath, file),
+        go: this.go,
+        ...(receiver !== undefined ? { receiver } : {}),
+      });
+      safeWriteFileSync(file, updated, 'utf-8');
+      return { success: true, filePath: file, functionName };
+    } catch (error) {
+      return {
+        success: false,
+        filePath: file,
+        functionName,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Verifies the module builds and passes `go vet`.
+   *
+   * @returns The verification result.
+   * @throws {AdapterNotInitializedError} If not initialized.
+   */
+  async verify(): Promise<VerificationResult> {
+    const projectPath = this.ensureInitialized();
+    const check = await runGoCheck(projectPath, { go: this.go });
+    return { success: check.success, check };
+  }
+
+  /**
+   * Runs tests with `go test`.
+   *
+   * @param pattern - Package pattern (e.g. "./money"); empty runs every package.
+   * @returns The test run result.
+   * @throws {AdapterNotInitializedError} If not initialized.
+   */
+  async runTests(pattern: string): Promise<GoTestRunResult> {
+    const projectPath = this.ensureInitialized();
+    return runGoTests(pattern, { cwd: projectPath, go: this.go });
+  }
+
+  /**
+   * Gets the project path.
+   *
+   * @returns The project path or null if not initialized.
+   */
+  getProjectPath(): string | null {
+    return this.projectPath;
+  }
+
+  /**
+   * Ensures the adapter has been initialized and returns the project path.
+   *
+   * @throws {AdapterNotInitializedError} If not initialized.
+   */
+  private ensureInitialized(): string {
+    if (this.projectPath === null) {
+      throw new AdapterNotInitializedError();
+    }
+    return this.projectPath;
+  }
+}
+
+/**
+ * Lists the non-test `.go` files under a directory, skipping vendored
+ * code, test data, and directories the go command ignores.
+ *
+ * @param dirPath - The directory to scan.
+ * @returns Absolute file paths, sorted by name at each level.
+ */
+export function listSourceFiles(dirPath: string): string[] {
+  const files: string[] = [];
+  const entries = safeReaddirSync(dirPath, { withFileTypes: true }).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+
+  for (const entry of entries) {
+    if (/^[._]/.test(entry.name) || SKIPPED_DIRECTORIES.has(entry.name)) {
+      continue;
+    }
+    const fullPath = path.join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listSourceFiles(fullPath));
+    } else if (entry.isFile() && entry.name.endsWith('.go') && !entry.name.endsWith('_test.go')) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Collects the identifiers used in a function's parameter, result, and
+ * type parameter types.
+ */
+function collectTypeNames(fn: GoFunctionInfo): string[] {
+  const types = [
+    ...fn.typeParameters.map((param) => param.type),
+    ...fn.parameters.map((param) => param.type),
+    ...fn.results,
+  ];
+  const names: string[] = [];
+  for (const type of types) {
+    // Skip package-qualified names such as time.Duration
+    for (const match of type.matchAll(/(?<![\w.])[A-Za-z_]\w*\b(?!\.)/g)) {
+      if (!names.includes(match[0])) {
+        names.push(match[0]);
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Finds the declarations of the named types in the scanned files.
+ */
+function findTypeDefinitions(
+  names: ReadonlySet<string>,
+  scans: readonly GoFileScan[]
+): GoTypeDefinition[] {
+  const definitions: GoTypeDefinition[] = [];
+  for (const scan of scans) {
+    for (const type of scan.types) {
+      if (names.has(type.name) && !definitions.some((d) => d.name === type.name)) {
+        definitions.push({
+          name: type.name,
+          kind: type.kind,
+          definition: type.definition,
+          filePath: scan.filePath,
+        });
+      }
+    }
+  }
+  return definitions;
+}
@@ -0,0 +1,229 @@
+/**
+ * Tests for Go defined-type witness and gopter generator generation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { execa } from 'execa';
+import { mkdtemp, rm } from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { SpecWitness } from '../../spec/types.js';
+import { safeWriteFile } from '../../utils/safe-fs.js';
+import {
+  generateDefinedType,
+  generateGoWitnessFile,
+  generateGopterFile,
+  generateGopterGenerator,
+  specWitnessToGoDefinition,
+  toGoType,
+  translateInvariant,
+  InvalidBaseTypeError,
+} from './witness.js';
+
+const PERCENTAGE: SpecWitness = {
+  name: 'Percentage',
+  description: 'A percentage.',
+  base_type: 'f64',
+  invariants: [{ id: 'range', formal: '0.0 <= self.0 <= 100.0' }],
+};
+
+const NON_EMPTY_LIST: SpecWitness = {
+  name: 'NonEmptyList',
+  base_type: 'Vec<T>',
+  type_params: [{ name: 'T' }],
+  invariants: [
+    { id: 'non_empty', formal: 'self.len() > 0' },
+    { id: 'positive', formal: 'forall i: self[i] > 0' },
+  ],
+};
+
+const PORT: SpecWitness = {
+  name: 'Port',
+  base_type: 'u16',
+  invariants: [
+    { id: 'unprivileged', formal: 'self.0 > 1023' },
+    { id: 'bounded', formal: 'self.0 < 65536' },
+  ],
+};
+
+describe('toGoType', () => {
+  it('should map spec types to Go types', () => {
+    expect(toGoType('u64')).toBe('uint64');
+    expect(toGoType('&str')).toBe('string');
+    expect(toGoType('Option<i32>')).toBe('*int32');
+    expect(toGoType('Box<Vec<u8>>')).toBe('[]uint8');
+    expect(toGoType('HashMap<String, Vec<u8>>')).toBe('map[string][]uint8');
+    expect(toGoType('HashSet<T>')).toBe('map[T]struct{}');
+  });
+
+  it('should reject types Go cannot represent', () => {
+    expect(() => toGoType('(i32, u8)')).toThrow(InvalidBaseTypeError);
+    expect(() => toGoType('u128')).toThrow(InvalidBaseTypeError);
+  });
+});
+
+describe('translateInvariant', () => {
+  it('should rewrite spec invariants over self into expressions over value', () => {
+    expect(translateInvariant('self.0 >= 0')).toBe('value >= 0');
+    expect(translateInvariant('self.len() >= 1')).toBe('len(value) >= 1');
+    expect(translateInvariant('self.items.length !== 0')).toBe('len(value.items) != 0');
+    expect(translateInvariant('0.0 <= self.0 <= 100.0')).toBe('0.0 <= value && value <= 100.0');
+  });
+
+  it('should return null for quantified invariants', () => {
+    expect(translateInvariant('forall i: self[i] > 0')).toBe(null);
+    expect(translateInvariant('self.0 > 0 implies self.1 > 0')).toBe(null);
+  });
+});
+
+describe('specWitnessToGoDefinition', () => {
+  it('should combine checkable invariants and keep the rest as documentation', () => {
+    expect(specWitnessToGoDefinition(NON_EMPTY_LIST)).toEqual({
+      name: 'NonEmptyList',
+      baseType: '[]T',
+      typeParameters: [{ name: 'T', constraint: 'any' }],
+      invariant: 'len(value) > 0',
+      uncheckedInvariants: ['forall i: self[i] > 0'],
+    });
+  });
+
+  it('should drop comparisons the base type already guarantees', () => {
+    expect(specWitnessToGoDefinition(PORT).invariant).toBe('value > 1023');
+  });
+
+  it('should constrain map key type parameters by comparable', () => {
+    const definition = specWitnessToGoDefinition({
+      name: 'Tags',
+      base_type: 'HashSet<T>',
+      type_params: [{ name: 'T' }],
+      invariants: [],
+    });
+    expect(definition.typeParameters).toEqual([{ name: 'T', constraint: 'comparable' }]);
+  });
+
+  it('should reject witnesses without a usable base type', () => {
+    expect(() => specWitnessToGoDefinition({ name: 'Opaque', invariants: [] })).toThrow(
+      InvalidBaseTypeError
+    );
+    expect(() =>
+      specWitnessToGoDefinition({ name: 'Maybe', base_type: 'Option<i32>', invariants: [] })
+    ).toThrow(InvalidBaseTypeError);
+  });
+});
+
+describe('generateDefinedType', () => {
+  it('should emit a defined type with Valid and a checked constructor', () => {
+    const code = generateDefinedType(specWitnessToGoDefinition(PERCENTAGE));
+
+    expect(code).toContain('// A percentage.\ntype Percentage float64');
+    expect(code).toContain(`func (w Percentage) Valid() bool {
+	value := float64(w)
+	return 0.0 <= value && value <= 100.0
+}`);
+    expect(code).toContain(`func NewPercentage(value float64) (Percentage, error) {
+	w := Percentage(value)
+	if !w.Valid() {
+		var zero Percentage
+		return zero, fmt.Errorf("invalid Percentage: %v", value)
+	}
+	return w, nil
+}`);
+  });
+
+  it('should reject base types methods cannot be declared on', () => {
+    expect(() => generateDefinedType({ name: 'Ref', baseType: '*int' })).toThrow(
+      InvalidBaseTypeError
+    );
+  });
+});
+
+describe('generateGopterGenerator', () => {
+  it('should derive bounds from the invariant', () => {
+    expect(generateGopterGenerator(specWitnessToGoDefinition(PERCENTAGE))).toContain(
+      'return gen.Float64Range(0.0, 100.0).'
+    );
+    expect(generateGopterGenerator(specWitnessToGoDefinition(PORT))).toContain(
+      'return gen.UInt16Range(1024, math.MaxUint16).'
+    );
+  });
+
+  it('should take an element generator for type parameters', () => {
+    const code = generateGopterGenerator(specWitnessToGoDefinition(NON_EMPTY_LIST));
+
+    expect(code).toContain('func NonEmptyListGen[T any](elements gopter.Gen) gopter.Gen {');
+    expect(code).toContain(`	return gen.SliceOf(elements).
+		SuchThat(func(v []T) bool { return NonEmptyList[T](v).Valid() }).
+		Map(func(v []T) NonEmptyList[T] { return NonEmptyList[T](v) })`);
+  });
+
+  it('should skip the filter when there is no invariant', () => {
+    const code = generateGopterGenerator({ name: 'AccountID', baseType: 'int64' });
+    expect(code).toContain(`	return gen.Int64().
+		Map(func(v int64) AccountID { return AccountID(v) })`);
+  });
+});
+
+describe('generateGopterFile', () => {
+  it('should import what the generators use and test the non-generic ones', () => {
+    const code = generateGopterFile([PERCENTAGE, PORT, NON_EMPTY_LIST], {
+      packageName: 'bank',
+    });
+
+    expect(code).toContain('package bank');
+    expect(code).toContain(`import (
+	"math"
+	"testing"
+
+	"github.com/leanovate/gopter"
+	"github.com/leanovate/gopter/gen"
+	"github.com/leanovate/gopter/prop"
+)`);
+    expect(code).toContain('properties.Property("PortGen generates valid values"');
+    expect(code).not.toContain('NonEmptyListGen generates valid values');
+  });
+});
+
+describe('generateGoWitnessFile', () => {
+  it('should generate a package that compiles and enforces the invariants', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'go-witness-test-'));
+    try {
+      await safeWriteFile(path.join(dir, 'go.mod'), 'module example.com/witness\n\ngo 1.18\n');
+      await safeWriteFile(
+        path.join(dir, 'witness.go'),
+        generateGoWitnessFile([PERCENTAGE, NON_EMPTY_LIST, PORT])
+      );
+      await safeWriteFile(
+        path.join(dir, 'witness_test.go'),
+        `package witness
+
+import "testing"
+
+func TestConstructors(t *testing.T) {
+	if _, err := NewPercentage(12.5); err != nil {
+		t.Fatal(err)
+	}
+	if _, err := NewNonEmptyList([]int{1}); err != nil {
+		t.Fatal(err)
+	}
+	if _, err := NewPercentage(100.5); err == nil {
+		t.Fatal("accepted 100.5")
+	}
+	if _, err := NewNonEmptyList([]int{}); err == nil {
+		t.Fatal("accepted an empty list")
+	}
+	if _, err := NewPort(80); err == nil {
+		t.Fatal("accepted port 80")
+	}
+}
+`
+      );
+
+      const result = await execa('go', ['test', '-count=1', '.'], { cwd: dir, reject: false });
+
+      expect(result.stderr).toBe('');
+      expect(result.exitCode).toBe(0);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
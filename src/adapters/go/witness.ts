@@ -0,0 +1,863 @@
+/**
+ * Type witness generation module for Go.
+ *
+ * Generates defined types (`type Percentage float64`) with a `Valid` method
+ * and a validating `New<Name>` constructor that check the witness
+ * invariants, plus gopter generators that only produce valid values. This
+ * is the Go counterpart of the branded types and fast-check arbitraries
+ * generated by the TypeScript adapter.
+ *
+ * Spec base types may be written in Rust or TypeScript notation (`i64`,
+ * `Vec<T>`, `string`); they are mapped to Go types first.
+ *
+ * @module adapters/go/witness
+ */
+
+import type { SpecWitness } from '../../spec/types.js';
+
+/**
+ * Represents a type parameter of a Go witness definition.
+ */
+export interface GoWitnessTypeParameter {
+  /** The type parameter name (e.g., "T") */
+  name: string;
+  /** The constraint (e.g., "any", "comparable") */
+  constraint: string;
+}
+
+/**
+ * Represents a witness type definition used to generate a Go defined type.
+ */
+export interface GoWitnessDefinition {
+  /** The name of the defined type (e.g., "NonNegativeDecimal") */
+  name: string;
+  /** The Go underlying type (e.g., "int64", "[]T") */
+  baseType: string;
+  /** Type parameters, for generic witnesses */
+  typeParameters?: GoWitnessTypeParameter[];
+  /** Go boolean expression over `value` checked by `Valid` */
+  invariant?: string;
+  /** Invariants that cannot be checked at runtime (documentation only) */
+  uncheckedInvariants?: string[];
+  /** Human-readable description of the witness */
+  description?: string;
+}
+
+/**
+ * Options for generating Go witness code.
+ */
+export interface GoWitnessOptions {
+  /** Include doc comments in generated code. Default: true */
+  includeDocs?: boolean;
+}
+
+/**
+ * Options for generating a Go source file.
+ */
+export interface GoFileOptions extends GoWitnessOptions {
+  /** Package clause of the generated file. Default: "witness" */
+  packageName?: string;
+}
+
+/**
+ * Error thrown when a base type cannot be used for a defined type.
+ */
+export class InvalidBaseTypeError extends Error {
+  constructor(
+    public readonly baseType: string,
+    public readonly reason: string
+  ) {
+    super(`Invalid base type "${baseType}": ${reason}`);
+    this.name = 'InvalidBaseTypeError';
+  }
+}
+
+/**
+ * Spec scalar types mapped to Go types.
+ */
+const SCALAR_TYPES = new Map([
+  ['i8', 'int8'],
+  ['i16', 'int16'],
+  ['i32', 'int32'],
+  ['i64', 'int64'],
+  ['isize', 'int'],
+  ['u8', 'uint8'],
+  ['u16', 'uint16'],
+  ['u32', 'uint32'],
+  ['u64', 'uint64'],
+  ['usize', 'uint'],
+  ['int', 'int'],
+  ['integer', 'int'],
+  ['f32', 'float32'],
+  ['f64', 'float64'],
+  ['float', 'float64'],
+  ['number', 'float64'],
+  ['String', 'string'],
+  ['str', 'string'],
+  ['&str', 'string'],
+  ['string', 'string'],
+  ['bool', 'bool'],
+  ['boolean', 'bool'],
+]);
+
+/**
+ * Spec integer types wider than any Go integer type.
+ */
+const WIDE_INTEGER_TYPES = new Set(['i128', 'u128', 'bigint']);
+
+const SLICE_CONTAINERS = new Set(['Vec', 'Array', 'List', 'list', 'VecDeque']);
+
+const SET_CONTAINERS = new Set(['HashSet', 'BTreeSet', 'Set', 'set']);
+
+const MAP_CONTAINERS = new Set(['HashMap', 'BTreeMap', 'Map', 'Record', 'dict']);
+
+const TRANSPARENT_CONTAINERS = new Set(['Box', 'Rc', 'Arc']);
+
+/**
+ * gopter range generators for integer types, with the bounds of each type.
+ */
+const INTEGER_GENERATORS = new Map([
+  [
+    'int',
+    { gen: 'IntRange', min: 'math.MinInt', max: 'math.MaxInt', low: -(2 ** 63), high: 2 ** 63 - 1 },
+  ],
+  [
+    'int8',
+    {
+      gen: 'Int8Range',
+      min: 'math.MinInt8',
+      max: 'math.MaxInt8',
+      low: -(2 ** 7),
+      high: 2 ** 7 - 1,
+    },
+  ],
+  [
+    'int16',
+    {
+      gen: 'Int16Range',
+      min: 'math.MinInt16',
+      max: 'math.MaxInt16',
+      low: -(2 ** 15),
+      high: 2 ** 15 - 1,
+    },
+  ],
+  [
+    'int32',
+    {
+      gen: 'Int32Range',
+      min: 'math.MinInt32',
+      max: 'math.MaxInt32',
+      low: -(2 ** 31),
+      high: 2 ** 31 - 1,
+    },
+  ],
+  [
+    'int64',
+    {
+      gen: 'Int64Range',
+      min: 'math.MinInt64',
+      max: 'math.MaxInt64',
+      low: -(2 ** 63),
+      high: 2 ** 63 - 1,
+    },
+  ],
+  ['uint', { gen: 'UIntRange', min: '0', max: 'math.MaxUint', low: 0, high: 2 ** 64 - 1 }],
+  ['uint8', { gen: 'UInt8Range', min: '0', max: 'math.MaxUint8', low: 0, high: 2 ** 8 - 1 }],
+  ['uint16', { gen: 'UInt16Range', min: '0', max: 'math.MaxUint16', low: 0, high: 2 ** 16 - 1 }],
+  ['uint32', { gen: 'UInt32Range', min: '0', max: 'math.MaxUint32', low: 0, high: 2 ** 32 - 1 }],
+  ['uint64', { gen: 'UInt64Range', min: '0', max: 'math.MaxUint64', low: 0, high: 2 ** 64 - 1 }],
+]);
+
+/**
+ * Unbounded gopter generators for scalar types.
+ */
+const SCALAR_GENERATORS = new Map([
+  ['int', 'gen.Int()'],
+  ['int8', 'gen.Int8()'],
+  ['int16', 'gen.Int16()'],
+  ['int32', 'gen.Int32()'],
+  ['int64', 'gen.Int64()'],
+  ['uint', 'gen.UInt()'],
+  ['uint8', 'gen.UInt8()'],
+  ['uint16', 'gen.UInt16()'],
+  ['uint32', 'gen.UInt32()'],
+  ['uint64', 'gen.UInt64()'],
+  ['float32', 'gen.Float32()'],
+  ['float64', 'gen.Float64()'],
+  ['string', 'gen.AnyString()'],
+  ['bool', 'gen.Bool()'],
+]);
+
+/**
+ * Splits a comma-separated argument list at the top nesting level.
+ */
+function splitArguments(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === '<' || char === '[' || char === '(') {
+      depth++;
+    } else if (char === '>' || char === ']' || char === ')') {
+      depth--;
+    }
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim() !== '') {
+    parts.push(current.trim());
+  }
+  return parts;
+}
+
+/**
+ * Validates bracket balance in a spec type.
+ */
+function validateBrackets(type: string): void {
+  const pairs: Record<string, string> = { '>': '<', ')': '(', ']': '[' };
+  const stack: string[] = [];
+  for (const char of type) {
+    if (char === '<' || char === '(' || char === '[') {
+      stack.push(char);
+    } else if (char === '>' || char === ')' || char === ']') {
+      // eslint-disable-next-line security/detect-object-injection -- char is one of three literal keys
+      if (stack.pop() !== pairs[char]) {
+        throw new InvalidBaseTypeError(type, 'unbalanced brackets');
+      }
+    }
+  }
+  if (stack.length > 0) {
+    throw new InvalidBaseTypeError(type, 'unbalanced brackets');
+  }
+}
+
+/**
+ * Strips a leading `&` or `&mut ` borrow, keeping `&str` intact.
+ */
+function stripReference(type: string): string {
+  if (!type.startsWith('&') || type === '&str') {
+    return type;
+  }
+  return type.startsWith('&mut ') ? type.slice(5).trimStart() : type.slice(1);
+}
+
+/**
+ * Maps a spec type to a Go type.
+ *
+ * Type parameters keep their names. Options become pointers and sets
+ * become `map[T]struct{}`.
+ *
+ * @param type - The type as written in the spec.
+ * @returns The Go type.
+ * @throws InvalidBaseTypeError if the type has unbalanced brackets, is a
+ *   tuple, or is an integer wider than 64 bits.
+ *
+ * @example
+ * toGoType('Vec<u8>');              // '[]uint8'
+ * toGoType('HashMap<String, T>');   // 'map[string]T'
+ */
+export function toGoType(type: string): string {
+  const trimmed = stripReference(type.trim());
+  validateBrackets(trimmed);
+
+  const scalar = SCALAR_TYPES.get(trimmed);
+  if (scalar !== undefined) {
+    return scalar;
+  }
+  if (WIDE_INTEGER_TYPES.has(trimmed)) {
+    throw new InvalidBaseTypeError(trimmed, 'Go has no integer type wider than 64 bits');
+  }
+
+  if (trimmed.endsWith('[]')) {
+    return `[]${toGoType(trimmed.slice(0, -2))}`;
+  }
+
+  if (trimmed.startsWith('(') && trimmed.endsWith(')')) {
+    throw new InvalidBaseTypeError(trimmed, 'Go has no tuple types; use a struct');
+  }
+
+  const generic = /^([A-Za-z_][A-Za-z0-9_:.]*)\s*[<[]([\s\S]*)[>\]]$/.exec(trimmed);
+  if (generic !== null) {
+    const head = (generic[1] ?? '').split('::').pop() ?? '';
+    const args = splitArguments(generic[2] ?? '').map(toGoType);
+    const [first = 'any', second = 'any'] = args;
+    if (head === 'Option' || head === 'Optional') {
+      return `*${first}`;
+    }
+    if (SLICE_CONTAINERS.has(head)) {
+      return `[]${first}`;
+    }
+    if (SET_CONTAINERS.has(head)) {
+      return `map[${first}]struct{}`;
+    }
+    if (MAP_CONTAINERS.has(head)) {
+      return `map[${first}]${second}`;
+    }
+    if (TRANSPARENT_CONTAINERS.has(head)) {
+      return first;
+    }
+    return `${head}[${args.join(', ')}]`;
+  }
+
+  return trimmed;
+}
+
+/**
+ * Checks that a Go type can be the underlying type of a witness, which
+ * needs methods and so cannot be a pointer or interface type.
+ */
+function validateDefinedTypeBase(baseType: string): void {
+  if (baseType === '') {
+    throw new InvalidBaseTypeError(baseType, 'a defined type requires a base type');
+  }
+  if (baseType.startsWith('*')) {
+    throw new InvalidBaseTypeError(baseType, 'methods cannot be declared on pointer types');
+  }
+  if (baseType === 'any' || baseType.startsWith('interface')) {
+    throw new InvalidBaseTypeError(baseType, 'methods cannot be declared on interface types');
+  }
+}
+
+/**
+ * Translates a spec invariant's formal expression into a Go expression
+ * over `value`.
+ *
+ * Spec invariants are written against the witness (`self.0 >= 0`,
+ * `self.len() >= 1`) in a C-like notation, which Go shares except for
+ * strict equality and chained comparisons (`0.0 <= self.0 <= 1.0`), which
+ * are expanded. Quantified invariants (`forall`, `exists`, `implies`)
+ * return null.
+ *
+ * @param formal - The formal expression from the spec.
+ * @returns The Go expression, or null if the invariant cannot be checked.
+ *
+ * @example
+ * translateInvariant('0.0 <= self.0 <= 1.0');
+ * // Returns '0.0 <= value && value <= 1.0'
+ */
+export function translateInvariant(formal: string): string | null {
+  let expr = formal.trim();
+  if (expr === '' || /\b(?:forall|exists|implies)\b/.test(expr)) {
+    return null;
+  }
+
+  expr = expr
+    .replace(/\bself\.0\b/g, 'value')
+    .replace(/\bself\b/g, 'value')
+    .replace(/\b([A-Za-z_][\w.]*)\.len\(\)/g, 'len($1)')
+    .replace(/\b([A-Za-z_][\w.]*)\.length\b/g, 'len($1)')
+    .replace(/===/g, '==')
+    .replace(/!==/g, '!=');
+
+  // Expand chained comparisons: a <= x <= b becomes a <= x && x <= b
+  const chained = /^([^<>=!&|]+?)\s*(<=?)\s*([^<>=!&|]+?)\s*(<=?)\s*([^<>=!&|]+)$/.exec(expr);
+  if (chained !== null) {
+    const [, low = '', op1 = '', middle = '', op2 = '', high = ''] = chained;
+    expr = `${low.trim()} ${op1} ${middle.trim()} && ${middle.trim()} ${op2} ${high.trim()}`;
+  }
+
+  return expr;
+}
+
+/**
+ * Converts a spec witness to a GoWitnessDefinition.
+ *
+ * Invariants with a translatable formal expression are combined into the
+ * `Valid` check; the rest are kept as documentation. Type parameters are
+ * constrained by `any`, or by `comparable` when used as a map key.
+ *
+ * @param witness - The witness from spec.toml.
+ * @returns The Go witness definition.
+ * @throws InvalidBaseTypeError if the witness has no usable base type.
+ */
+export function specWitnessToGoDefinition(witness: SpecWitness): GoWitnessDefinition {
+  const specBaseType = witness.base_type?.trim() ?? '';
+  if (specBaseType === '') {
+    throw new InvalidBaseTypeError('', `witness ${witness.name} has no base_type`);
+  }
+
+  const baseType = toGoType(specBaseType);
+  validateDefinedTypeBase(baseType);
+
+  const typeParameters = (witness.type_params ?? [])
+    .map((param) => param.name)
+    .filter((name): name is string => name !== undefined && name !== '')
+    .map((name) => ({
+      name,
+      constraint: baseType.includes(`map[${name}]`) ? 'comparable' : 'any',
+    }));
+
+  const checked: string[] = [];
+  const unchecked: string[] = [];
+  for (const invariant of witness.invariants) {
+    const formal = invariant.formal?.trim() ?? '';
+    const translated =
+      invariant.testable !== false && formal !== '' ? translateInvariant(formal) : null;
+    if (translated !== null) {
+      const check = dropImpliedComparisons(translated, baseType);
+      if (check !== '') {
+        checked.push(check.includes('||') ? `(${check})` : check);
+      }
+    } else {
+      const text = invariant.description ?? formal;
+      if (text !== '') {
+        unchecked.push(text);
+      }
+    }
+  }
+
+  return {
+    name: witness.name,
+    baseType,
+    ...(typeParameters.length > 0 ? { typeParameters } : {}),
+    ...(checked.length > 0 ? { invariant: checked.join(' && ') } : {}),
+    ...(unchecked.length > 0 ? { uncheckedInvariants: unchecked } : {}),
+    ...(witness.description !== undefined ? { description: witness.description } : {}),
+  };
+}
+
+/**
+ * Drops comparisons the integer base type already guarantees, such as
+ * `value < 65536` for uint16. Go rejects these because the constant
+ * overflows the type.
+ *
+ * @param invariant - Go expression over `value`.
+ * @param baseType - The Go underlying type.
+ * @returns The remaining conjuncts, or "" if every one is implied.
+ */
+function dropImpliedComparisons(invariant: string, baseType: string): string {
+  const integer = INTEGER_GENERATORS.get(baseType);
+  if (integer === undefined || invariant.includes('||')) {
+    return invariant;
+  }
+
+  const kept = invariant.split('&&').filter((raw) => {
+    const parts = raw.trim().split(/\s*(<=|>=|<|>)\s*/);
+    if (parts.length !== 3) {
+      return true;
+    }
+    const [left = '', op = '', right = ''] = parts;
+    let bound: number;
+    let normalized: string;
+    if (left === 'value' && right !== '') {
+      [bound, normalized] = [Number(right), op];
+    } else if (right === 'value' && left !== '') {
+      [bound, normalized] = [Number(left), FLIPPED_COMPARISONS.get(op) ?? op];
+    } else {
+      return true;
+    }
+    switch (normalized) {
+      case '>':
+        return !(bound < integer.low);
+      case '>=':
+        return !(bound <= integer.low);
+      case '<':
+        return !(bound > integer.high);
+      default:
+        return !(bound >= integer.high);
+    }
+  });
+  return kept.map((conjunct) => conjunct.trim()).join(' && ');
+}
+
+/**
+ * Formats the type parameter list for a declaration (e.g., "[T any]").
+ */
+function formatTypeParameters(typeParams: GoWitnessTypeParameter[] | undefined): string {
+  if (typeParams === undefined || typeParams.length === 0) {
+    return '';
+  }
+  return `[${typeParams.map((tp) => `${tp.name} ${tp.constraint}`).join(', ')}]`;
+}
+
+/**
+ * Formats the type arguments for a use of the type (e.g., "[T]").
+ */
+function formatTypeArguments(typeParams: GoWitnessTypeParameter[] | undefined): string {
+  if (typeParams === undefined || typeParams.length === 0) {
+    return '';
+  }
+  return `[${typeParams.map((tp) => tp.name).join(', ')}]`;
+}
+
+/**
+ * Writes a conversion, parenthesizing types that would otherwise parse as
+ * an expression.
+ */
+function convert(type: string, expr: string): string {
+  return /^(?:\*|func\b|<-)/.test(type) ? `(${type})(${expr})` : `${type}(${expr})`;
+}
+
+/**
+ * Generates a Go defined type with a `Valid` method and a checked constructor.
+ *
+ * `Valid` reports whether the value satisfies the invariant and
+ * `New<Name>(value)` returns the wrapped value or an error. Conversions
+ * such as `Name(x)` remain possible in Go, so the constructor is the
+ * validated entry point.
+ *
+ * @param witness - The witness definition.
+ * @param options - Options for code generation.
+ * @returns The Go source for the type and its functions.
+ * @throws InvalidBaseTypeError if the base type is invalid.
+ *
+ * @example
+ * generateDefinedType({ name: 'NonNegative', baseType: 'int64', invariant: 'value >= 0' });
+ * // Returns code for:
+ * //   type NonNegative int64
+ * //   func (w NonNegative) Valid() bool { ... }
+ * //   func NewNonNegative(value int64) (NonNegative, error) { ... }
+ */
+export function generateDefinedType(
+  witness: GoWitnessDefinition,
+  options: GoWitnessOptions = {}
+): string {
+  validateDefinedTypeBase(witness.baseType);
+
+  const { includeDocs = true } = options;
+  const { name, baseType } = witness;
+  const params = formatTypeParameters(witness.typeParameters);
+  const self = `${name}${formatTypeArguments(witness.typeParameters)}`;
+  const lines: string[] = [];
+
+  if (includeDocs) {
+    const doc = [witness.description ?? `${name} is a type witness.`];
+    if (witness.uncheckedInvariants !== undefined) {
+      doc.push('', 'Invariants not checked at runtime:');
+      doc.push(...witness.uncheckedInvariants.map((text) => `  - ${text}`));
+    }
+    lines.push(...doc.map((line) => (line === '' ? '//' : `// ${line}`)));
+  }
+  lines.push(`type ${name}${params} ${baseType}`);
+
+  lines.push('');
+  if (includeDocs) {
+    lines.push(`// Valid reports whether w satisfies the ${name} invariant.`);
+  }
+  lines.push(`func (w ${self}) Valid() bool {`);
+  if (witness.invariant !== undefined) {
+    lines.push(`\tvalue := ${convert(baseType, 'w')}`);
+    lines.push(`\treturn ${witness.invariant}`);
+  } else {
+    lines.push('\treturn true');
+  }
+  lines.push('}');
+
+  lines.push('');
+  if (includeDocs) {
+    lines.push(`// New${name} validates value and wraps it as ${name}.`);
+    if (witness.invariant !== undefined) {
+      lines.push(`// It returns an error if ${witness.invariant} does not hold.`);
+    }
+  }
+  lines.push(`func New${name}${params}(value ${baseType}) (${self}, error) {`);
+  lines.push(`\tw := ${convert(self, 'value')}`);
+  if (witness.invariant !== undefined) {
+    lines.push('\tif !w.Valid() {');
+    lines.push(`\t\tvar zero ${self}`);
+    lines.push(`\t\treturn zero, fmt.Errorf("invalid ${name}: %v", value)`);
+    lines.push('\t}');
+  }
+  lines.push('\treturn w, nil');
+  lines.push('}');
+
+  return lines.join('\n');
+}
+
+/**
+ * Numeric or length bounds extracted from an invariant.
+ */
+interface InvariantBounds {
+  min?: string;
+  max?: string;
+  minExclusive?: boolean;
+  maxExclusive?: boolean;
+}
+
+/**
+ * Comparison operators with their operands swapped.
+ */
+const FLIPPED_COMPARISONS = new Map([
+  ['<', '>'],
+  ['<=', '>='],
+  ['>', '<'],
+  ['>=', '<='],
+]);
+
+/**
+ * Extracts bounds on `value` from the conjuncts of an invariant.
+ *
+ * @param invariant - Go expression over `value`.
+ */
+function extractBounds(invariant: string | undefined): InvariantBounds {
+  const bounds: InvariantBounds = {};
+  if (invariant === undefined || invariant.includes('||')) {
+    return bounds;
+  }
+
+  const isNumber = (text: string): boolean =>
+    /^-?[\d.]+$/.test(text) && Number.isFinite(Number(text));
+  for (const raw of invariant.split('&&')) {
+    const parts = raw.trim().split(/\s*(<=|>=|<|>)\s*/);
+    if (parts.length !== 3) {
+      continue;
+    }
+    const [left = '', op = '', right = ''] = parts;
+    // Normalize to `value <op> bound`
+    let bound: string;
+    let normalized: string;
+    if (left === 'value' && isNumber(right)) {
+      [bound, normalized] = [right, op];
+    } else if (right === 'value' && isNumber(left)) {
+      [bound, normalized] = [left, FLIPPED_COMPARISONS.get(op) ?? op];
+    } else {
+      continue;
+    }
+    if (normalized.startsWith('>')) {
+      bounds.min = bound;
+      bounds.minExclusive = normalized === '>';
+    } else {
+      bounds.max = bound;
+      bounds.maxExclusive = normalized === '<';
+    }
+  }
+  return bounds;
+}
+
+/**
+ * Picks a gopter generator expression for a Go type.
+ *
+ * @param type - The Go type.
+ * @param typeParams - Names of the witness's type parameters.
+ * @param invariant - Invariant over `value`, used to bound the top-level type.
+ * @returns The generator expression; type parameters use the `elements` argument.
+ */
+function generatorFor(type: string, typeParams: ReadonlySet<string>, invariant?: string): string {
+  const trimmed = type.trim();
+
+  if (typeParams.has(trimmed)) {
+    return 'elements';
+  }
+
+  const integer = INTEGER_GENERATORS.get(trimmed);
+  if (integer !== undefined) {
+    const bounds = extractBounds(invariant);
+    if (bounds.min === undefined && bounds.max === undefined) {
+      return SCALAR_GENERATORS.get(trimmed) ?? 'gen.Int()';
+    }
+    const min =
+      bounds.min !== undefined
+        ? String(Math.ceil(Number(bounds.min)) + (bounds.minExclusive === true ? 1 : 0))
+        : integer.min;
+    const max =
+      bounds.max !== undefined
+        ? String(Math.floor(Number(bounds.max)) - (bounds.maxExclusive === true ? 1 : 0))
+        : integer.max;
+    return `gen.${integer.gen}(${min}, ${max})`;
+  }
+
+  if (trimmed === 'float64' || trimmed === 'float32') {
+    const bounds = extractBounds(invariant);
+    if (bounds.min === undefined && bounds.max === undefined) {
+      return SCALAR_GENERATORS.get(trimmed) ?? 'gen.Float64()';
+    }
+    const range = trimmed === 'float64' ? 'Float64Range' : 'Float32Range';
+    const limit = trimmed === 'float64' ? 'math.MaxFloat64' : 'math.MaxFloat32';
+    return `gen.${range}(${bounds.min ?? `-${limit}`}, ${bounds.max ?? limit})`;
+  }
+
+  const scalar = SCALAR_GENERATORS.get(trimmed);
+  if (scalar !== undefined) {
+    return scalar;
+  }
+
+  if (trimmed.startsWith('[]')) {
+    return `gen.SliceOf(${generatorFor(trimmed.slice(2), typeParams)})`;
+  }
+  if (trimmed.startsWith('*')) {
+    return `gen.PtrOf(${generatorFor(trimmed.slice(1), typeParams)})`;
+  }
+  const map = /^map\[(.+?)\](.+)$/.exec(trimmed);
+  if (map !== null) {
+    const value =
+      map[2] === 'struct{}' ? 'gen.Const(struct{}{})' : generatorFor(map[2] ?? '', typeParams);
+    return `gen.MapOf(${generatorFor(map[1] ?? '', typeParams)}, ${value})`;
+  }
+
+  return 'elements';
+}
+
+/**
+ * Generates a gopter generator that produces valid witness values.
+ *
+ * The base generator is narrowed using bounds found in the invariant
+ * (numeric ranges), then filtered with `SuchThat` through the witness's
+ * `Valid` method so that every generated value satisfies the full
+ * invariant. Generic witnesses, and witnesses over types gopter cannot
+ * derive, take an `elements` generator argument.
+ *
+ * @param witness - The witness definition.
+ * @param options - Options for code generation.
+ * @returns The Go source for a `<Name>Gen` function.
+ * @throws InvalidBaseTypeError if the base type is invalid.
+ *
+ * @example
+ * generateGopterGenerator({ name: 'Percentage', baseType: 'float64',
+ *   invariant: '0 <= value && value <= 100' });
+ * // Returns code generating:
+ * //   gen.Float64Range(0, 100).SuchThat(...).Map(...)
+ */
+export function generateGopterGenerator(
+  witness: GoWitnessDefinition,
+  options: GoWitnessOptions = {}
+): string {
+  validateDefinedTypeBase(witness.baseType);
+
+  const { includeDocs = true } = options;
+  const { name, baseType } = witness;
+  const typeParams = new Set((witness.typeParameters ?? []).map((tp) => tp.name));
+  const self = `${name}${formatTypeArguments(witness.typeParameters)}`;
+
+  let body = generatorFor(baseType, typeParams, witness.invariant);
+  const takesElements = /\belements\b/.test(body);
+  if (witness.invariant !== undefined) {
+    body += `.\n\t\tSuchThat(func(v ${baseType}) bool { return ${convert(self, 'v')}.Valid() })`;
+  }
+  body += `.\n\t\tMap(func(v ${baseType}) ${self} { return ${convert(self, 'v')} })`;
+
+  const lines: string[] = [];
+  if (includeDocs) {
+    lines.push(`// ${name}Gen generates valid ${name} values.`);
+    if (takesElements) {
+      lines.push('//');
+      lines.push(
+        typeParams.size > 0
+          ? `// elements generates values of type parameter ${[...typeParams].join(', ')}.`
+          : '// elements generates the values gopter cannot derive.'
+      );
+    }
+  }
+  const params = formatTypeParameters(witness.typeParameters);
+  lines.push(
+    `func ${name}Gen${params}(${takesElements ? 'elements gopter.Gen' : ''}) gopter.Gen {`
+  );
+  lines.push(`\treturn ${body}`);
+  lines.push('}');
+
+  return lines.join('\n');
+}
+
+/**
+ * Generates a Go file with defined types and constructors for spec witnesses.
+ *
+ * @param witnesses - The witnesses from spec.toml.
+ * @param options - Options for code generation.
+ * @returns The Go source file.
+ */
+export function generateGoWitnessFile(
+  witnesses: readonly SpecWitness[],
+  options: GoFileOptions = {}
+): string {
+  const { packageName = 'witness', ...witnessOptions } = options;
+  const definitions = witnesses.map(specWitnessToGoDefinition);
+  const sections: string[] = [
+    '// Type witnesses generated from the specification.',
+    '',
+    `package ${packageName}`,
+  ];
+
+  if (definitions.some((d) => d.invariant !== undefined)) {
+    sections.push('', 'import "fmt"');
+  }
+  for (const definition of definitions) {
+    sections.push('', generateDefinedType(definition, witnessOptions));
+  }
+  sections.push('');
+
+  return sections.join('\n');
+}
+
+/**
+ * Generates a Go test file with gopter generators for spec witnesses.
+ *
+ * The file belongs to the witness package, normally as
+ * `witness_gen_test.go`, since gopter is a test dependency. Besides the
+ * generators it contains a property test checking that every generated
+ * value is accepted by its validating constructor.
+ *
+ * @param witnesses - The witnesses from spec.toml.
+ * @param options - Options for code generation.
+ * @returns The Go source file.
+ */
+export function generateGopterFile(
+  witnesses: readonly SpecWitness[],
+  options: GoFileOptions = {}
+): string {
+  const { packageName = 'witness', ...witnessOptions } = options;
+  const definitions = witnesses.map(specWitnessToGoDefinition);
+  const entries = definitions.map((definition) => ({
+    definition,
+    generator: generateGopterGenerator(definition, witnessOptions),
+  }));
+  const generators = entries.map((entry) => entry.generator);
+  // Generators that take an elements argument have no default to test with
+  const testable = entries
+    .filter((entry) => !/\belements\b/.test(entry.generator))
+    .map((entry) => entry.definition);
+
+  const imports = [
+    ...(generators.some((code) => code.includes('math.')) ? ['"math"'] : []),
+    ...(testable.length > 0 ? ['"testing"'] : []),
+    '',
+    '"github.com/leanovate/gopter"',
+    '"github.com/leanovate/gopter/gen"',
+    ...(testable.length > 0 ? ['"github.com/leanovate/gopter/prop"'] : []),
+  ];
+  if (imports[0] === '') {
+    imports.shift();
+  }
+
+  const sections: string[] = [
+    "// gopter generators for the specification's type witnesses.",
+    '',
+    `package ${packageName}`,
+    '',
+    'import (',
+    ...imports.map((line) => (line === '' ? '' : `\t${line}`)),
+    ')',
+  ];
+
+  for (const generator of generators) {
+    sections.push('', generator);
+  }
+
+  if (testable.length > 0) {
+    sections.push('');
+    if (witnessOptions.includeDocs !== false) {
+      sections.push('// TestWitnessGenerators checks that generated values pass validation.');
+    }
+    sections.push('func TestWitnessGenerators(t *testing.T) {');
+    sections.push('\tproperties := gopter.NewProperties(nil)');
+    for (const definition of testable) {
+      const { name, baseType } = definition;
+      sections.push('');
+      sections.push(`\tproperties.Property("${name}Gen generates valid values", prop.ForAll(`);
+      sections.push(`\t\tfunc(w ${name}) bool {`);
+      sections.push(`\t\t\t_, err := New${name}(${convert(baseType, 'w')})`);
+      sections.push('\t\t\treturn err == nil');
+      sections.push('\t\t},');
+      sections.push(`\t\t${name}Gen(),`);
+      sections.push('\t))');
+    }
+    sections.push('');
+    sections.push('\tproperties.TestingRun(t)');
+    sections.push('}');
+  }
+  sections.push('');
+
+  return sections.join('\n');
+}
@@ -0,0 +1,205 @@
+/**
+ * Tests for the Python AST helper.
+ *
+ * These run the helper against the local python3 interpreter.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  FunctionNotFoundError,
+  InvalidBodySyntaxError,
+  PythonSyntaxError,
+  findTodoFunctionsInSource,
+  injectFunctionBody,
+  scanPythonSource,
+} from './ast.js';
+
+const LEDGER_PY = `"""Ledger operations."""
+from typing import NewType, Optional
+
+Cents = NewType("Cents", int)
+MAX_ENTRIES = 10
+Balance = dict[str, Cents]
+
+
+class Ledger:
+    """An append-only ledger."""
+
+    def __init__(self) -> None:
+        self.entries: list[Cents] = []
+
+    def total(self) -> Cents:
+        """Sums all entries.
+
+        Returns 0 for an empty ledger.
+        """
+        raise NotImplementedError
+
+    def find(self, index: int, default: Optional[Cents] = None) -> Optional[Cents]:
+        raise NotImplementedError("lookup")
+
+    async def sync(self) -> None: raise NotImplementedError
+
+
+def transfer(ledger: Ledger, amount: Cents, *, memo: str = "") -> bool:
+    # not yet
+    raise NotImplementedError()  # TODO
+
+
+def helper(x: int) -> int:
+    """Not a stub: it has a real body."""
+    if x < 0:
+        raise NotImplementedError
+    return x
+`;
+
+describe('scanPythonSource', () => {
+  it('describes functions, methods, and parameters', async () => {
+    const scan = await scanPythonSource(LEDGER_PY, 'ledger.py');
+
+    const find = scan.functions.find((fn) => fn.name === 'find');
+    expect(find).toMatchObject({
+      qualifiedName: 'Ledger.find',
+      className: 'Ledger',
+      line: 22,
+      returnType: 'Optional[Cents]',
+      isAsync: false,
+      isStub: true,
+    });
+    expect(find?.parameters).toEqual([
+      { name: 'self', kind: 'positional_or_keyword' },
+      { name: 'index', kind: 'positional_or_keyword', annotation: 'int' },
+      {
+        name: 'default',
+        kind: 'positional_or_keyword',
+        annotation: 'Optional[Cents]',
+        default: 'None',
+      },
+    ]);
+
+    const transfer = scan.functions.find((fn) => fn.name === 'transfer');
+    expect(transfer?.signature).toBe(
+      "def transfer(ledger: Ledger, amount: Cents, *, memo: str='') -> bool"
+    );
+    expect(transfer?.parameters.map((p) => p.kind)).toEqual([
+      'positional_or_keyword',
+      'positional_or_keyword',
+      'keyword_only',
+    ]);
+  });
+
+  it('reports docstrings and async functions', async () => {
+    const scan = await scanPythonSource(LEDGER_PY, 'ledger.py');
+
+    const total = scan.functions.find((fn) => fn.name === 'total');
+    expect(total?.docstring).toBe('Sums all entries.\n\nReturns 0 for an empty ledger.');
+
+    const sync = scan.functions.find((fn) => fn.name === 'sync');
+    expect(sync?.isAsync).toBe(true);
+    expect(sync?.signature).toBe('async def sync(self) -> None');
+  });
+
+  it('reports classes, NewTypes, and type aliases but not constants', async () => {
+    const scan = await scanPythonSource(LEDGER_PY, 'ledger.py');
+
+    expect(scan.types.map((t) => [t.name, t.kind])).toEqual([
+      ['Cents', 'newtype'],
+      ['Balance', 'alias'],
+      ['Ledger', 'class'],
+    ]);
+  });
+
+  it('throws PythonSyntaxError for unparseable sources', async () => {
+    await expect(scanPythonSource('def broken(:\n', 'broken.py')).rejects.toThrow(
+      PythonSyntaxError
+    );
+  });
+});
+
+describe('findTodoFunctionsInSource', () => {
+  it('finds bodies that only raise NotImplementedError', async () => {
+    const todos = await findTodoFunctionsInSource(LEDGER_PY, 'ledger.py');
+
+    expect(todos.map((t) => [t.name, t.className, t.line])).toEqual([
+      ['total', 'Ledger', 15],
+      ['find', 'Ledger', 22],
+      ['sync', 'Ledger', 25],
+      ['transfer', undefined, 28],
+    ]);
+    expect(todos.map((t) => t.hasTodoBody)).toEqual([true, true, true, true]);
+  });
+
+  it('ignores markers in strings and comments', async () => {
+    const source = `def f() -> str:\n    return "raise NotImplementedError"  # raise NotImplementedError\n`;
+    expect(await findTodoFunctionsInSource(source, 'f.py')).toEqual([]);
+  });
+});
+
+describe('injectFunctionBody', () => {
+  it('replaces the statements after the docstring', async () => {
+    const updated = await injectFunctionBody(
+      LEDGER_PY,
+      'total',
+      'return Cents(sum(self.entries))',
+      { className: 'Ledger' }
+    );
+
+    expect(updated).toContain(`        Returns 0 for an empty ledger.
+        """
+        return Cents(sum(self.entries))
+
+    def find(`);
+    expect(await findTodoFunctionsInSource(updated, 'ledger.py')).toHaveLength(3);
+  });
+
+  it('re-indents multi-line bodies', async () => {
+    const updated = await injectFunctionBody(
+      LEDGER_PY,
+      'find',
+      `    if 0 <= index < len(self.entries):
+        return self.entries[index]
+    return default`,
+      { className: 'Ledger' }
+    );
+
+    expect(updated)
+      .toContain(`    def find(self, index: int, default: Optional[Cents] = None) -> Optional[Cents]:
+        if 0 <= index < len(self.entries):
+            return self.entries[index]
+        return default
+`);
+  });
+
+  it('moves one-line bodies onto their own line', async () => {
+    const updated = await injectFunctionBody(LEDGER_PY, 'sync', 'return None');
+
+    expect(updated).toContain(`    async def sync(self) -> None:
+        return None
+`);
+  });
+
+  it('keeps leading comments and drops the stub statement with its trailing comment', async () => {
+    const updated = await injectFunctionBody(LEDGER_PY, 'transfer', 'return amount > 0');
+
+    expect(updated).toContain(`    # not yet
+    return amount > 0
+
+
+def helper(`);
+  });
+
+  it('throws FunctionNotFoundError for unknown functions', async () => {
+    await expect(injectFunctionBody(LEDGER_PY, 'missing', 'pass')).rejects.toThrow(
+      FunctionNotFoundError
+    );
+    await expect(
+      injectFunctionBody(LEDGER_PY, 'transfer', 'pass', { className: 'Ledger' })
+    ).rejects.toThrow(FunctionNotFoundError);
+  });
+
+  it('rejects bodies that do not parse', async () => {
+    await expect(injectFunctionBody(LEDGER_PY, 'transfer', 'return (amount')).rejects.toThrow(
+      InvalidBodySyntaxError
+    );
+  });
+});
@@ -0,0 +1,658 @@
+/**
+ * Python source analysis for TODO detection and body injection.
+ *
+ * Python sources are parsed by the interpreter's own `ast` module, run as a
+ * subprocess helper, so that stub detection and injection follow the exact
+ * grammar of the target Python version. The helper reports function
+ * locations and body ranges as JSON; splicing happens here.
+ *
+ * Requires Python 3.9 or later (for `ast.unparse`).
+ *
+ * @module adapters/python/ast
+ */
+
+import { execa } from 'execa';
+
+/**
+ * Represents a Python function whose body is a `raise NotImplementedError` stub.
+ */
+export interface PythonTodoFunction {
+  /** The function name */
+  name: string;
+  /** The absolute file path where the function is defined */
+  filePath: string;
+  /** The line number of the `def` (1-indexed) */
+  line: number;
+  /** The function signature (e.g., "def add(a: int, b: int) -> int") */
+  signature: string;
+  /** The enclosing class, for methods */
+  className?: string;
+  /** Whether the function body is a TODO marker */
+  hasTodoBody: true;
+}
+
+/**
+ * Kinds of Python parameters, named after `inspect.Parameter` kinds.
+ */
+export type PythonParameterKind =
+  | 'positional_only'
+  | 'positional_or_keyword'
+  | 'var_positional'
+  | 'keyword_only'
+  | 'var_keyword';
+
+/**
+ * Information about a function parameter.
+ */
+export interface PythonParameterInfo {
+  /** The parameter name */
+  name: string;
+  /** The parameter kind */
+  kind: PythonParameterKind;
+  /** The annotation as written, if any */
+  annotation?: string;
+  /** The default value expression, if any */
+  default?: string;
+}
+
+/**
+ * The part of a function body that injection replaces.
+ *
+ * Covers every statement after the docstring, through the end of the last
+ * statement's line. Columns are in characters, not UTF-8 bytes.
+ */
+export interface PythonBodyRange {
+  /** First line of the range (1-indexed) */
+  startLine: number;
+  /** Column where the range starts on its first line (0-indexed) */
+  startColumn: number;
+  /** Last line of the range (1-indexed) */
+  endLine: number;
+  /** Column where the range ends on its last line (0-indexed, exclusive) */
+  endColumn: number;
+  /** Indentation for body lines */
+  indent: string;
+  /** Whether the range starts mid-line (e.g., `def f(): ...` one-liners) */
+  inline: boolean;
+}
+
+/**
+ * A function definition located in Python source.
+ */
+export interface PythonFunctionInfo {
+  /** The function name */
+  name: string;
+  /** Dotted name including enclosing classes (e.g., "Account.deposit") */
+  qualifiedName: string;
+  /** The innermost enclosing class, for methods */
+  className?: string;
+  /** The line number of the `def` (1-indexed) */
+  line: number;
+  /** The last line of the function (1-indexed) */
+  endLine: number;
+  /** The function signature (e.g., "def add(a: int, b: int) -> int") */
+  signature: string;
+  /** Parameters in declaration order, including `self`/`cls` */
+  parameters: PythonParameterInfo[];
+  /** The return annotation, if any */
+  returnType?: string;
+  /** Whether the function is declared with `async def` */
+  isAsync: boolean;
+  /** Decorator expressions, without the leading `@` */
+  decorators: string[];
+  /** The cleaned docstring, which carries the function's contract, if any */
+  docstring?: string;
+  /** Whether the body (after the docstring) is only `raise NotImplementedError` */
+  isStub: boolean;
+  /** Names of functions and methods called from the body */
+  calls: string[];
+  /** The replaceable body range */
+  body: PythonBodyRange;
+}
+
+/**
+ * A class, type alias, or NewType defined in Python source.
+ */
+export interface PythonTypeInfo {
+  /** The type name */
+  name: string;
+  /** The kind of definition */
+  kind: 'class' | 'alias' | 'newtype';
+  /** The first line, including decorators (1-indexed) */
+  line: number;
+  /** The last line (1-indexed) */
+  endLine: number;
+}
+
+/**
+ * Location of a syntax error reported by the Python parser.
+ */
+export interface PythonSyntaxErrorInfo {
+  /** The parser's message */
+  message: string;
+  /** The line number (1-indexed) */
+  line: number;
+  /** The column number (1-indexed) */
+  column: number;
+}
+
+/**
+ * Result of scanning one Python module.
+ */
+export interface PythonModuleScan {
+  /** The file path the source was read from */
+  filePath: string;
+  /** Functions and methods, in source order */
+  functions: PythonFunctionInfo[];
+  /** Classes and type aliases, in source order */
+  types: PythonTypeInfo[];
+  /** The syntax error, if the source does not parse */
+  syntaxError?: PythonSyntaxErrorInfo;
+}
+
+/**
+ * Options for running the Python helper.
+ */
+export interface PythonHelperOptions {
+  /** Python interpreter to run. Default: "python3" */
+  python?: string;
+  /** Timeout in milliseconds. Default: 60000 */
+  timeout?: number;
+}
+
+/**
+ * Options for injecting a function body.
+ */
+export interface InjectOptions extends PythonHelperOptions {
+  /** The enclosing class, to disambiguate methods with the same name */
+  className?: string;
+  /** File path used in error messages */
+  filePath?: string;
+}
+
+/**
+ * Error thrown when the Python interpreter is not found in PATH.
+ */
+export class PythonNotInstalledError extends Error {
+  constructor(python: string) {
+    super(`${python} not found in PATH. Please install Python 3.9 or later.`);
+    this.name = 'PythonNotInstalledError';
+  }
+}
+
+/**
+ * Error thrown when the Python helper fails or produces unreadable output.
+ */
+export class PythonHelperError extends Error {
+  constructor(message: string) {
+    super(`Python AST helper failed: ${message}`);
+    this.name = 'PythonHelperError';
+  }
+}
+
+/**
+ * Error thrown when source cannot be parsed.
+ */
+export class PythonSyntaxError extends Error {
+  constructor(
+    public readonly filePath: string,
+    public readonly info: PythonSyntaxErrorInfo
+  ) {
+    super(
+      `Syntax error in ${filePath} at line ${String(info.line)}, column ${String(info.column)}: ${info.message}`
+    );
+    this.name = 'PythonSyntaxError';
+  }
+}
+
+/**
+ * Error thrown when attempting to inject into a function that doesn't exist.
+ */
+export class FunctionNotFoundError extends Error {
+  constructor(functionName: string, filePath: string) {
+    super(`Function '${functionName}' not found in file: ${filePath}`);
+    this.name = 'FunctionNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when the injected body does not parse.
+ */
+export class InvalidBodySyntaxError extends Error {
+  constructor(functionName: string, originalMessage: string) {
+    super(`Invalid body syntax for function '${functionName}': ${originalMessage}`);
+    this.name = 'InvalidBodySyntaxError';
+  }
+}
+
+/**
+ * Helper script run with `python -c`.
+ *
+ * Reads `{"sources": [{"path", "source"}]}` from stdin and writes one scan
+ * result per source to stdout. Functions nested in other functions are not
+ * reported; methods of nested classes are.
+ */
+export const PYTHON_AST_HELPER = String.raw`
+import ast
+import json
+import sys
+
+
+def char_column(lines, lineno, col):
+    line = lines[lineno - 1] if lineno - 1 < len(lines) else ""
+    return len(line.encode("utf-8")[:col].decode("utf-8", errors="replace"))
+
+
+def line_length(lines, lineno):
+    return len(lines[lineno - 1].rstrip("\r\n")) if lineno - 1 < len(lines) else 0
+
+
+def docstring_node(body):
+    first = body[0] if body else None
+    if isinstance(first, ast.Expr) and isinstance(first.value, ast.Constant) and isinstance(first.value.value, str):
+        return first
+    return None
+
+
+def is_not_implemented(statements):
+    if len(statements) != 1 or not isinstance(statements[0], ast.Raise):
+        return False
+    exc = statements[0].exc
+    if isinstance(exc, ast.Call):
+        exc = exc.func
+    return isinstance(exc, ast.Name) and exc.id == "NotImplementedError"
+
+
+def unparse(node):
+    return ast.unparse(node) if node is not None else None
+
+
+def parameter(arg, kind, default):
+    return {"name": arg.arg, "kind": kind, "annotation": unparse(arg.annotation), "default": unparse(default)}
+
+
+def parameters(args):
+    result = []
+    positional = args.posonlyargs + args.args
+    defaults = [None] * (len(positional) - len(args.defaults)) + list(args.defaults)
+    for index, (arg, default) in enumerate(zip(positional, defaults)):
+        kind = "positional_only" if index < len(args.posonlyargs) else "positional_or_keyword"
+        result.append(parameter(arg, kind, default))
+    if args.vararg is not None:
+        result.append(parameter(args.vararg, "var_positional", None))
+    for arg, default in zip(args.kwonlyargs, args.kw_defaults):
+        result.append(parameter(arg, "keyword_only", default))
+    if args.kwarg is not None:
+        result.append(parameter(args.kwarg, "var_keyword", None))
+    return result
+
+
+def called_names(statements):
+    names = set()
+    for statement in statements:
+        for child in ast.walk(statement):
+            if isinstance(child, ast.Call):
+                if isinstance(child.func, ast.Name):
+                    names.add(child.func.id)
+                elif isinstance(child.func, ast.Attribute):
+                    names.add(child.func.attr)
+    return sorted(names)
+
+
+def body_range(node, lines):
+    doc = docstring_node(node.body)
+    statements = node.body[1:] if doc is not None else node.body
+    def_indent = lines[node.lineno - 1][: len(lines[node.lineno - 1]) - len(lines[node.lineno - 1].lstrip())]
+    if not statements:
+        column = char_column(lines, doc.end_lineno, doc.end_col_offset)
+        indent = lines[doc.lineno - 1][: char_column(lines, doc.lineno, doc.col_offset)]
+        if indent.strip() != "":
+            indent = def_indent + "    "
+        return {"startLine": doc.end_lineno, "startColumn": column, "endLine": doc.end_lineno, "endColumn": column, "indent": indent, "inline": True}, statements
+    first = statements[0]
+    last = statements[-1]
+    start_column = char_column(lines, first.lineno, first.col_offset)
+    prefix = lines[first.lineno - 1][:start_column]
+    inline = prefix.strip() != ""
+    return {
+        "startLine": first.lineno,
+        "startColumn": start_column if inline else 0,
+        "endLine": last.end_lineno,
+        "endColumn": line_length(lines, last.end_lineno),
+        "indent": def_indent + "    " if inline else prefix,
+        "inline": inline,
+    }, statements
+
+
+def describe_function(node, classes, lines):
+    keyword = "async def" if isinstance(node, ast.AsyncFunctionDef) else "def"
+    signature = keyword + " " + node.name + "(" + ast.unparse(node.args) + ")"
+    if node.returns is not None:
+        signature += " -> " + ast.unparse(node.returns)
+    body, statements = body_range(node, lines)
+    return {
+        "name": node.name,
+        "qualifiedName": ".".join(classes + [node.name]),
+        "className": classes[-1] if classes else None,
+        "line": node.lineno,
+        "endLine": node.end_lineno,
+        "signature": signature,
+        "parameters": parameters(node.args),
+        "returnType": unparse(node.returns),
+        "isAsync": isinstance(node, ast.AsyncFunctionDef),
+        "decorators": [ast.unparse(d) for d in node.decorator_list],
+        "docstring": ast.get_docstring(node),
+        "isStub": is_not_implemented(statements),
+        "calls": called_names(statements),
+        "body": body,
+    }
+
+
+def type_kind(node):
+    if isinstance(node, ast.ClassDef):
+        return "class"
+    if getattr(ast, "TypeAlias", None) is not None and isinstance(node, ast.TypeAlias):
+        return "alias"
+    if isinstance(node, ast.AnnAssign) and isinstance(node.target, ast.Name):
+        return "alias" if unparse(node.annotation) in ("TypeAlias", "typing.TypeAlias") else None
+    if isinstance(node, ast.Assign) and len(node.targets) == 1 and isinstance(node.targets[0], ast.Name):
+        value = node.value
+        if isinstance(value, ast.Call):
+            callee = unparse(value.func)
+            if callee in ("NewType", "typing.NewType"):
+                return "newtype"
+            return None
+        type_like = isinstance(value, (ast.Name, ast.Attribute, ast.Subscript)) or (
+            isinstance(value, ast.BinOp) and isinstance(value.op, ast.BitOr)
+        )
+        return "alias" if type_like and node.targets[0].id[:1].isupper() else None
+    return None
+
+
+def type_name(node):
+    if isinstance(node, ast.ClassDef):
+        return node.name
+    if isinstance(node, ast.Assign):
+        return node.targets[0].id
+    if isinstance(node, ast.AnnAssign):
+        return node.target.id
+    return node.name.id
+
+
+def scan_body(body, classes, lines, functions, types):
+    for node in body:
+        if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef)):
+            functions.append(describe_function(node, classes, lines))
+            continue
+        kind = type_kind(node)
+        if kind is not None:
+            decorators = getattr(node, "decorator_list", [])
+            start = min([node.lineno] + [d.lineno for d in decorators])
+            types.append({"name": type_name(node), "kind": kind, "line": start, "endLine": node.end_lineno})
+        if isinstance(node, ast.ClassDef):
+            scan_body(node.body, classes + [node.name], lines, functions, types)
+        elif isinstance(node, (ast.If, ast.Try)):
+            for block in (node.body, node.orelse, getattr(node, "finalbody", [])):
+                scan_body(block, classes, lines, functions, types)
+
+
+def scan(path, source):
+    try:
+        tree = ast.parse(source, filename=path)
+    except SyntaxError as error:
+        return {"filePath": path, "syntaxError": {"message": error.msg, "line": error.lineno or 0, "column": error.offset or 0}}
+    lines = source.splitlines(True)
+    functions = []
+    types = []
+    scan_body(tree.body, [], lines, functions, types)
+    return {"filePath": path, "functions": functions, "types": types}
+
+
+request = json.load(sys.stdin)
+json.dump({"results": [scan(item["path"], item["source"]) for item in request["sources"]]}, sys.stdout)
+`;
+
+/**
+ * Raw scan result as written by the helper (nulls instead of absent fields).
+ */
+interface RawModuleScan {
+  filePath: string;
+  functions?: (Omit<PythonFunctionInfo, 'className' | 'returnType' | 'docstring' | 'parameters'> & {
+    className: string | null;
+    returnType: string | null;
+    docstring: string | null;
+    parameters: {
+      name: string;
+      kind: PythonParameterKind;
+      annotation: string | null;
+      default: string | null;
+    }[];
+  })[];
+  types?: PythonTypeInfo[];
+  syntaxError?: PythonSyntaxErrorInfo;
+}
+
+/**
+ * Scans Python sources with the helper in a single subprocess.
+ *
+ * Sources that do not parse are reported with a `syntaxError` and no
+ * functions, rather than failing the whole scan.
+ *
+ * @param sources - The sources to scan, with the paths they came from.
+ * @param options - Helper options.
+ * @returns One scan per source, in input order.
+ * @throws {PythonNotInstalledError} If the interpreter is not found.
+ * @throws {PythonHelperError} If the helper fails.
+ */
+export async function scanPythonSources(
+  sources: readonly { filePath: string; source: string }[],
+  options: PythonHelperOptions = {}
+): Promise<PythonModuleScan[]> {
+  if (sources.length === 0) {
+    return [];
+  }
+
+  const python = options.python ?? 'python3';
+  const result = await execa(python, ['-c', PYTHON_AST_HELPER], {
+    input: JSON.stringify({
+      sources: sources.map((s) => ({ path: s.filePath, source: s.source })),
+    }),
+    reject: false,
+    timeout: options.timeout ?? 60000,
+  });
+
+  if (result.code === 'ENOENT') {
+    throw new PythonNotInstalledError(python);
+  }
+  if (result.exitCode !== 0) {
+    const stderr = typeof result.stderr === 'string' ? result.stderr.trim() : '';
+    const lastLine = stderr.split('\n').pop() ?? '';
+    throw new PythonHelperError(
+      lastLine !== '' ? lastLine : `exit code ${String(result.exitCode)}`
+    );
+  }
+
+  let parsed: { results?: RawModuleScan[] };
+  try {
+    parsed = JSON.parse(typeof result.stdout === 'string' ? result.stdout : '') as {
+      results?: RawModuleScan[];
+    };
+  } catch {
+    throw new PythonHelperError('unreadable output');
+  }
+
+  return (parsed.results ?? []).map(toModuleScan);
+}
+
+/**
+ * Scans a single Python source.
+ *
+ * @param source - The source text.
+ * @param filePath - The path the source came from.
+ * @param options - Helper options.
+ * @returns The module scan.
+ * @throws {PythonSyntaxError} If the source does not parse.
+ */
+export async function scanPythonSource(
+  source: string,
+  filePath: string,
+  options: PythonHelperOptions = {}
+): Promise<PythonModuleScan> {
+  const [scan] = await scanPythonSources([{ filePath, source }], options);
+  if (scan === undefined) {
+    throw new PythonHelperError('no result');
+  }
+  if (scan.syntaxError !== undefined) {
+    throw new PythonSyntaxError(filePath, scan.syntaxError);
+  }
+  return scan;
+}
+
+/**
+ * Converts the helper's JSON (which uses null for absent values) to the
+ * exported shapes.
+ */
+function toModuleScan(raw: RawModuleScan): PythonModuleScan {
+  if (raw.syntaxError !== undefined) {
+    return { filePath: raw.filePath, functions: [], types: [], syntaxError: raw.syntaxError };
+  }
+
+  const functions = (raw.functions ?? []).map((fn): PythonFunctionInfo => {
+    const { className, returnType, docstring, parameters, ...rest } = fn;
+    return {
+      ...rest,
+      ...(className !== null ? { className } : {}),
+      parameters: parameters.map((param) => ({
+        name: param.name,
+        kind: param.kind,
+        ...(param.annotation !== null ? { annotation: param.annotation } : {}),
+        ...(param.default !== null ? { default: param.default } : {}),
+      })),
+      ...(returnType !== null ? { returnType } : {}),
+      ...(docstring !== null ? { docstring } : {}),
+    };
+  });
+
+  return { filePath: raw.filePath, functions, types: raw.types ?? [] };
+}
+
+/**
+ * Lists the stub functions in a module scan.
+ *
+ * @param scan - The module scan.
+ * @returns Functions whose body is only `raise NotImplementedError`.
+ */
+export function todoFunctionsFromScan(scan: PythonModuleScan): PythonTodoFunction[] {
+  return scan.functions
+    .filter((fn) => fn.isStub)
+    .map((fn) => ({
+      name: fn.name,
+      filePath: scan.filePath,
+      line: fn.line,
+      signature: fn.signature,
+      ...(fn.className !== undefined ? { className: fn.className } : {}),
+      hasTodoBody: true as const,
+    }));
+}
+
+/**
+ * Finds functions whose body is only `raise NotImplementedError` in a source.
+ *
+ * A leading docstring is allowed and preserved. Markers inside comments,
+ * strings, or bodies with other statements are not matched.
+ *
+ * @param source - The source text.
+ * @param filePath - The path to report for each function.
+ * @param options - Helper options.
+ * @returns The stub functions, in source order.
+ * @throws {PythonSyntaxError} If the source does not parse.
+ */
+export async function findTodoFunctionsInSource(
+  source: string,
+  filePath: string,
+  options: PythonHelperOptions = {}
+): Promise<PythonTodoFunction[]> {
+  return todoFunctionsFromScan(await scanPythonSource(source, filePath, options));
+}
+
+/**
+ * Replaces a function's statements (after its docstring) with a new body.
+ *
+ * The body is dedented and re-indented to the function's body indentation.
+ * The result is parsed again, and an InvalidBodySyntaxError is thrown if it
+ * does not parse, so a broken body never reaches disk.
+ *
+ * @param source - The source text.
+ * @param functionName - The function to replace the body of.
+ * @param body - The new body, without the `def` line.
+ * @param options - Class for disambiguation, file path for messages, and helper options.
+ * @returns The updated source.
+ * @throws {FunctionNotFoundError} If the function does not exist.
+ * @throws {InvalidBodySyntaxError} If the result does not parse.
+ */
+export async function injectFunctionBody(
+  source: string,
+  functionName: string,
+  body: string,
+  options: InjectOptions = {}
+): Promise<string> {
+  const filePath = options.filePath ?? '<source>';
+  const scan = await scanPythonSource(source, filePath, options);
+  const target = scan.functions.find(
+    (fn) =>
+      fn.name === functionName &&
+      (options.className === undefined || fn.className === options.className)
+  );
+  if (target === undefined) {
+    throw new FunctionNotFoundError(functionName, filePath);
+  }
+
+  const updated = spliceBody(source, target.body, body);
+  const [check] = await scanPythonSources([{ filePath, source: updated }], options);
+  if (check?.syntaxError !== undefined) {
+    throw new InvalidBodySyntaxError(
+      functionName,
+      `${check.syntaxError.message} at line ${String(check.syntaxError.line)}`
+    );
+  }
+  return updated;
+}
+
+/**
+ * Splices a re-indented body into the given range.
+ */
+function spliceBody(source: string, range: PythonBodyRange, body: string): string {
+  const lines = source.split('\n');
+  const formatted = dedent(body)
+    .split('\n')
+    .map((line) => (line.trim() === '' ? '' : `${range.indent}${line}`))
+    .join('\n');
+
+  const startIndex = range.startLine - 1;
+  const endIndex = range.endLine - 1;
+  // eslint-disable-next-line security/detect-object-injection -- numeric index derived from the helper's line numbers
+  const startLine = lines[startIndex] ?? '';
+  // eslint-disable-next-line security/detect-object-injection -- numeric index derived from the helper's line numbers
+  const endLine = lines[endIndex] ?? '';
+  const before = startLine.slice(0, range.startColumn).trimEnd();
+  const after = endLine.slice(range.endColumn);
+
+  const replacement = range.inline ? `${before}\n${formatted}${after}` : `${formatted}${after}`;
+
+  return [...lines.slice(0, startIndex), replacement, ...lines.slice(endIndex + 1)].join('\n');
+}
+
+/**
+ * Removes common leading indentation and surrounding blank lines.
+ */
+function dedent(text: string): string {
+  const lines = text
+    .replace(/^\s*\n/, '')
+    .trimEnd()
+    .split('\n');
+  const indents = lines
+    .filter((line) => line.trim() !== '')
+    .map((line) => /^[ \t]*/.exec(line)?.[0].length ?? 0);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(common)).join('\n');
+}
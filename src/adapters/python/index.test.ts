@@ -0,0 +1,195 @@
+/**
+ * Tests for the PythonAdapter facade.
+ *
+ * Discovery and injection run the AST helper on the local python3
+ * interpreter; mypy and pytest are mocked.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+vi.mock('./mypy.js', async () => {
+  const actual = await vi.importActual<typeof import('./mypy.js')>('./mypy.js');
+  return { ...actual, runMypy: vi.fn() };
+});
+
+vi.mock('./pytest.js', async () => {
+  const actual = await vi.importActual<typeof import('./pytest.js')>('./pytest.js');
+  return { ...actual, runPytest: vi.fn() };
+});
+
+import { runMypy } from './mypy.js';
+import { runPytest } from './pytest.js';
+import {
+  AdapterNotInitializedError,
+  FunctionNotFoundError,
+  NotPythonProjectError,
+  PythonAdapter,
+  listSourceFiles,
+} from './index.js';
+
+const LEDGER_PY = `from bank.money import Cents, Money
+
+
+class Ledger:
+    """An append-only ledger."""
+
+    def __init__(self) -> None:
+        self.entries: list[Money] = []
+
+    def total(self) -> Money:
+        """Sums all entries."""
+        raise NotImplementedError
+
+
+def transfer(ledger: Ledger, amount: Cents) -> bool:
+    raise NotImplementedError
+`;
+
+const MONEY_PY = `from dataclasses import dataclass
+from typing import NewType
+
+Cents = NewType("Cents", int)
+
+
+@dataclass(frozen=True)
+class Money:
+    cents: Cents
+
+    def add(self, other: "Money") -> "Money":
+        raise NotImplementedError("checked addition")
+`;
+
+describe('PythonAdapter', () => {
+  let projectPath: string;
+  let adapter: PythonAdapter;
+
+  beforeEach(async () => {
+    projectPath = mkdtempSync(path.join(os.tmpdir(), 'python-adapter-test-'));
+    writeFileSync(path.join(projectPath, 'pyproject.toml'), '[project]\nname = "bank"\n');
+    mkdirSync(path.join(projectPath, 'bank'));
+    mkdirSync(path.join(projectPath, '.venv', 'lib'), { recursive: true });
+    writeFileSync(path.join(projectPath, 'bank', '__init__.py'), '');
+    writeFileSync(path.join(projectPath, 'bank', 'ledger.py'), LEDGER_PY);
+    writeFileSync(path.join(projectPath, 'bank', 'money.py'), MONEY_PY);
+    writeFileSync(path.join(projectPath, 'bank', 'broken.py'), 'def oops(:\n');
+    writeFileSync(
+      path.join(projectPath, '.venv', 'lib', 'vendored.py'),
+      'def f():\n    raise NotImplementedError\n'
+    );
+
+    adapter = new PythonAdapter();
+    await adapter.initialize(projectPath);
+  });
+
+  afterEach(() => {
+    rmSync(projectPath, { recursive: true, force: true });
+    vi.mocked(runMypy).mockReset();
+    vi.mocked(runPytest).mockReset();
+  });
+
+  it('should reject directories without Python project files', async () => {
+    const empty = mkdtempSync(path.join(os.tmpdir(), 'python-adapter-empty-'));
+    try {
+      await expect(new PythonAdapter().initialize(empty)).rejects.toThrow(NotPythonProjectError);
+    } finally {
+      rmSync(empty, { recursive: true, force: true });
+    }
+  });
+
+  it('should throw before initialization', async () => {
+    await expect(new PythonAdapter().findTodoFunctions()).rejects.toThrow(
+      AdapterNotInitializedError
+    );
+  });
+
+  it('should list sources outside virtual environments and hidden directories', () => {
+    expect(listSourceFiles(projectPath).map((f) => path.relative(projectPath, f))).toEqual([
+      path.join('bank', '__init__.py'),
+      path.join('bank', 'broken.py'),
+      path.join('bank', 'ledger.py'),
+      path.join('bank', 'money.py'),
+    ]);
+  });
+
+  it('should find stubs across the project, skipping unparseable files', async () => {
+    const todos = await adapter.findTodoFunctions();
+
+    expect(todos.map((t) => [path.relative(projectPath, t.filePath), t.name, t.className])).toEqual(
+      [
+        [path.join('bank', 'ledger.py'), 'total', 'Ledger'],
+        [path.join('bank', 'ledger.py'), 'transfer', undefined],
+        [path.join('bank', 'money.py'), 'add', 'Money'],
+      ]
+    );
+  });
+
+  it('should extract signatures and referenced project types', async () => {
+    const context = await adapter.extractContext('transfer');
+
+    expect(context.function.signature).toBe('def transfer(ledger: Ledger, amount: Cents) -> bool');
+    expect(context.referencedTypes.map((t) => [t.name, t.kind])).toEqual([
+      ['Ledger', 'class'],
+      ['Cents', 'newtype'],
+    ]);
+    expect(context.referencedTypes[1]?.definition).toBe('Cents = NewType("Cents", int)');
+  });
+
+  it('should include decorators and the enclosing class for methods', async () => {
+    const context = await adapter.extractContext('add', 'bank/money.py', 'Money');
+
+    expect(context.function.className).toBe('Money');
+    const money = context.referencedTypes.find((t) => t.name === 'Money');
+    expect(money?.definition).toContain('@dataclass(frozen=True)\nclass Money:');
+  });
+
+  it('should throw FunctionNotFoundError for unknown functions', async () => {
+    await expect(adapter.extractContext('missing')).rejects.toThrow(FunctionNotFoundError);
+  });
+
+  it('should inject bodies and write them to disk', async () => {
+    const result = await adapter.inject(
+      'total',
+      'return Money(Cents(sum(m.cents for m in self.entries)))',
+      'bank/ledger.py'
+    );
+
+    expect(result.success).toBe(true);
+    const updated = readFileSync(path.join(projectPath, 'bank', 'ledger.py'), 'utf-8');
+    expect(updated).toContain(`        """Sums all entries."""
+        return Money(Cents(sum(m.cents for m in self.entries)))
+`);
+  });
+
+  it('should report injection failures without touching the file', async () => {
+    const result = await adapter.inject('transfer', 'return (', 'bank/ledger.py');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('transfer');
+    expect(readFileSync(path.join(projectPath, 'bank', 'ledger.py'), 'utf-8')).toBe(LEDGER_PY);
+  });
+
+  it('should verify with mypy and run tests with pytest', async () => {
+    vi.mocked(runMypy).mockResolvedValueOnce({
+      success: true,
+      errors: [],
+      errorCount: 0,
+      warningCount: 0,
+    });
+    vi.mocked(runPytest).mockResolvedValueOnce({
+      success: true,
+      totalTests: 0,
+      passedTests: 0,
+      failedTests: 0,
+      skippedTests: 0,
+      tests: [],
+    });
+
+    expect((await adapter.verify()).success).toBe(true);
+    expect((await adapter.runTests('tests')).success).toBe(true);
+    expect(runMypy).toHaveBeenCalledWith(projectPath, { python: 'python3' });
+    expect(runPytest).toHaveBeenCalledWith('tests', { cwd: projectPath, python: 'python3' });
+  });
+});
@@ -0,0 +1,463 @@
+/**
+ * Python adapter facade for the Criticality Protocol.
+ *
+ * Provides the same responsibilities as the TypeScript adapter for Python
+ * projects: `raise NotImplementedError` stub detection, context extraction,
+ * body injection, verification via mypy, and test execution via pytest.
+ *
+ * @module adapters/python
+ */
+
+import * as path from 'node:path';
+import {
+  safeExistsSync,
+  safeReadFileSync,
+  safeReaddirSync,
+  safeWriteFileSync,
+} from '../../utils/safe-fs.js';
+
+import {
+  injectFunctionBody,
+  scanPythonSources,
+  todoFunctionsFromScan,
+  type PythonFunctionInfo,
+  type PythonModuleScan,
+  type PythonTodoFunction,
+} from './ast.js';
+import { runMypy, type MypyResult } from './mypy.js';
+import { runPytest } from './pytest.js';
+import type { TestRunResult } from '../typescript/testrunner.js';
+
+// Re-export types for consumers
+export type {
+  PythonBodyRange,
+  PythonFunctionInfo,
+  PythonModuleScan,
+  PythonParameterInfo,
+  PythonParameterKind,
+  PythonTodoFunction,
+  PythonTypeInfo,
+} from './ast.js';
+export {
+  InvalidBodySyntaxError,
+  PythonHelperError,
+  PythonNotInstalledError,
+  PythonSyntaxError,
+} from './ast.js';
+export type { MypyResult } from './mypy.js';
+export { MypyFailedError, MypyNotInstalledError, parseMypyOutput } from './mypy.js';
+export { PytestFailedError, PytestNotInstalledError, parseJUnitXml } from './pytest.js';
+export {
+  InvalidBaseTypeError,
+  generateHypothesisModule,
+  generateHypothesisStrategy,
+  generateNewType,
+  generatePythonWitnessModule,
+  specWitnessToPythonDefinition,
+  toPythonType,
+  translateInvariant,
+  type PythonWitnessDefinition,
+} from './witness.js';
+
+/**
+ * Error thrown when attempting to use an adapter that hasn't been initialized.
+ */
+export class AdapterNotInitializedError extends Error {
+  constructor() {
+    super('Adapter not initialized. Call initialize() first.');
+    this.name = 'AdapterNotInitializedError';
+  }
+}
+
+/**
+ * Error thrown when the target directory is not a Python project.
+ */
+export class NotPythonProjectError extends Error {
+  constructor(projectPath: string) {
+    super(
+      `Not a Python project: ${projectPath}. No pyproject.toml, setup.py, setup.cfg, or requirements.txt found.`
+    );
+    this.name = 'NotPythonProjectError';
+  }
+}
+
+/**
+ * Error thrown when a function cannot be found for context extraction.
+ */
+export class FunctionNotFoundError extends Error {
+  constructor(functionName: string, filePath?: string) {
+    const location = filePath !== undefined && filePath !== '' ? ` in ${filePath}` : '';
+    super(`Function '${functionName}' not found${location}`);
+    this.name = 'FunctionNotFoundError';
+  }
+}
+
+/**
+ * A class, type alias, or NewType defined in the project.
+ */
+export interface PythonTypeDefinition {
+  /** The type name */
+  name: string;
+  /** The kind of definition */
+  kind: 'class' | 'alias' | 'newtype';
+  /** The definition source, including decorators */
+  definition: string;
+  /** The file path where the type is defined */
+  filePath: string;
+}
+
+/**
+ * Context information for a Python function, used during the Injection phase.
+ */
+export interface PythonFunctionContext {
+  /** The function as located by the AST helper (signature, parameters, docstring) */
+  function: PythonFunctionInfo;
+  /** Project types referenced by the annotations or the enclosing class */
+  referencedTypes: PythonTypeDefinition[];
+  /** The file path where the function is defined */
+  filePath: string;
+  /** The line number of the `def` */
+  line: number;
+}
+
+/**
+ * Result of injecting a function body.
+ */
+export interface InjectionResult {
+  /** Whether the injection was successful */
+  success: boolean;
+  /** The file path that was modified */
+  filePath: string;
+  /** The function name that was injected */
+  functionName: string;
+  /** Error message if injection failed */
+  error?: string;
+}
+
+/**
+ * Result of verifying the project after injection.
+ */
+export interface VerificationResult {
+  /** Whether the verification passed (no type errors) */
+  success: boolean;
+  /** The mypy result */
+  check: MypyResult;
+}
+
+/**
+ * Options for the Python adapter.
+ */
+export interface PythonAdapterOptions {
+  /** Python interpreter used for the AST helper, mypy, and pytest. Default: "python3" */
+  python?: string;
+}
+
+/**
+ * Files whose presence marks a Python project root.
+ */
+const PROJECT_MARKERS = ['pyproject.toml', 'setup.py', 'setup.cfg', 'requirements.txt'];
+
+/**
+ * Directories never scanned for sources.
+ */
+const SKIPPED_DIRECTORIES = new Set([
+  '__pycache__',
+  'venv',
+  'env',
+  'node_modules',
+  'build',
+  'dist',
+  'site-packages',
+]);
+
+/**
+ * Python adapter for mypy/pytest projects.
+ *
+ * Mirrors the TypeScriptAdapter surface:
+ * - TODO detection of `raise NotImplementedError` bodies
+ * - Context extraction including signatures, project types, and docstrings
+ * - Body injection validated by the Python parser
+ * - Verification via `mypy -O json`
+ * - Test execution via pytest with JUnit XML results
+ *
+ * @example
+ * const adapter = new PythonAdapter();
+ * await adapter.initialize('./my-project');
+ *
+ * for (const todo of await adapter.findTodoFunctions()) {
+ *   const context = await adapter.extractContext(todo.name, todo.filePath);
+ *   // Generate implementation using context...
+ *   await adapter.inject(todo.name, generatedBody, todo.filePath);
+ * }
+ *
+ * const verification = await adapter.verify();
+ * if (!verification.success) {
+ *   console.log('Type errors:', verification.check.errors);
+ * }
+ */
+export class PythonAdapter {
+  private projectPath: string | null = null;
+  private python = 'python3';
+
+  /**
+   * Initializes the adapter for a Python project.
+   *
+   * @param projectPath - Path to the project root.
+   * @param options - Adapter options.
+   * @throws {NotPythonProjectError} If no project marker file is found.
+   */
+  initialize(projectPath: string, options: PythonAdapterOptions = {}): Promise<void> {
+    const resolvedPath = path.resolve(projectPath);
+    if (!PROJECT_MARKERS.some((marker) => safeExistsSync(path.join(resolvedPath, marker)))) {
+      return Promise.reject(new NotPythonProjectError(resolvedPath));
+    }
+    this.projectPath = resolvedPath;
+    this.python = options.python ?? 'python3';
+    return Promise.resolve();
+  }
+
+  /**
+   * Finds all functions with `raise NotImplementedError` bodies in the project.
+   *
+   * Files that do not parse are skipped.
+   *
+   * @returns TODO functions, ordered by file path and then source position.
+   * @throws {AdapterNotInitializedError} If not initialized.
+   */
+  async findTodoFunctions(): Promise<PythonTodoFunction[]> {
+    const scans = await this.scanProject();
+    return scans.flatMap(todoFunctionsFromScan);
+  }
+
+  /**
+   * Scans every source file in the project with the AST helper.
+   *
+   * @returns One scan per file, ordered by file path.
+   * @throws {AdapterNotInitializedError} If not initialized.
+   */
+  async scanProject(): Promise<PythonModuleScan[]> {
+    const projectPath = this.ensureInitialized();
+    const sources = listSourceFiles(projectPath).map((filePath) => ({
+      filePath,
+      source: safeReadFileSync(filePath, 'utf-8'),
+    }));
+    return scanPythonSources(sources, { python: this.python });
+  }
+
+  /**
+   * Extracts context for a function to support code generation.
+   *
+   * @param functionName - The function name to extract context for.
+   * @param filePath - Optional file path to disambiguate.
+   * @param className - Optional enclosing class to disambiguate methods.
+   * @returns The function context.
+   * @throws {AdapterNotInitializedError} If not initialized.
+   * @throws {FunctionNotFoundError} If function not found.
+   */
+  async extractContext(
+    functionName: string,
+    filePath?: string,
+    className?: string
+  ): Promise<PythonFunctionContext> {
+    const projectPath = this.ensureInitialized();
+    const scans = await this.scanProject();
+    const target =
+      filePath !== undefined && filePath !== '' ? path.resolve(projectPath, filePath) : undefined;
+
+    for (const scan of scans) {
+      if (target !== undefined && scan.filePath !== target) {
+        continue;
+      }
+      const fn = scan.functions.find(
+        (candidate) =>
+          candidate.name === functionName &&
+          (className === undefined || candidate.className === className)
+      );
+      if (fn !== undefined) {
+        const names = new Set(collectAnnotationNames(fn));
+        if (fn.className !== undefined) {
+          names.add(fn.className);
+        }
+        return {
+          function: fn,
+          referencedTypes: findTypeDefinitions(names, scans),
+          filePath: scan.filePath,
+          line: fn.line,
+        };
+      }
+    }
+
+    throw new FunctionNotFoundError(functionName, filePath);
+  }
+
+  /**
+   * Injects a function body into a TODO stub.
+   *
+   * @param functionName - The function name to inject into.
+   * @param body - The new function body (statements only, any indentation).
+   * @param filePath - Optional file path to disambiguate.
+   * @param className - Optional enclosing class to disambiguate methods.
+   * @returns The injection result.
+   * @throws {AdapterNotInitializedError} If not initialized.
+   */
+  async inject(
+    functionName: string,
+    body: string,
+    filePath?: string,
+    className?: string
+  ): Promise<InjectionResult> {
+    const projectPath = this.ensureInitialized();
+    let file: string;
+    try {
+      file = (await this.extractContext(functionName, filePath, className)).filePath;
+    } catch {
+      return {
+        success: false,
+        filePath: filePath ?? '',
+        functionName,
+        error: `Function '${functionName}' not found`,
+      };
+    }
+
+    try {
+      const source = safeReadFileSync(file, 'utf-8');
+      const updated = await injectFunctionBody(source, functionName, body, {
+        filePath: path.relative(projectPath, file),
+        python: this.python,
+        ...(className !== undefined ? { className } : {}),
+      });
+      safeWriteFileSync(file, updated, 'utf-8');
+      return { success: true, filePath: file, functionName };
+    } catch (error) {
+      return {
+        success: false,
+        filePath: file,
+        functionName,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Verifies the project type-checks using mypy.
+   *
+   * @returns The verification result.
+   * @throws {AdapterNotInitializedError} If not initialized.
+   */
+  async verify(): Promise<VerificationResult> {
+    const projectPath = this.ensureInitialized();
+    const check = await runMypy(projectPath, { python: this.python });
+    return { success: check.success, check };
+  }
+
+  /**
+   * Runs tests with pytest.
+   *
+   * @param pattern - Test file, directory, or node id (empty runs the suite).
+   * @returns The test run result.
+   * @throws {AdapterNotInitializedError} If not initialized.
+   */
+  async runTests(pattern: string): Promise<TestRunResult> {
+    const projectPath = this.ensureInitialized();
+    return runPytest(pattern, { cwd: projectPath, python: this.python });
+  }
+
+  /**
+   * Gets the project path.
+   *
+   * @returns The project path or null if not initialized.
+   */
+  getProjectPath(): string | null {
+    return this.projectPath;
+  }
+
+  /**
+   * Ensures the adapter has been initialized and returns the project path.
+   *
+   * @throws {AdapterNotInitializedError} If not initialized.
+   */
+  private ensureInitialized(): string {
+    if (this.projectPath === null) {
+      throw new AdapterNotInitializedError();
+    }
+    return this.projectPath;
+  }
+}
+
+/**
+ * Lists the `.py` files under a directory, skipping virtual environments,
+ * build output, caches, and hidden directories.
+ *
+ * @param dirPath - The directory to scan.
+ * @returns Absolute file paths, sorted by name at each level.
+ */
+export function listSourceFiles(dirPath: string): string[] {
+  const files: string[] = [];
+  const entries = safeReaddirSync(dirPath, { withFileTypes: true }).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.') || SKIPPED_DIRECTORIES.has(entry.name)) {
+      continue;
+    }
+    const fullPath = path.join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listSourceFiles(fullPath));
+    } else if (entry.isFile() && entry.name.endsWith('.py')) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Collects the identifiers used in a function's annotations.
+ */
+function collectAnnotationNames(fn: PythonFunctionInfo): string[] {
+  const annotations = [
+    ...fn.parameters.map((param) => param.annotation ?? ''),
+    fn.returnType ?? '',
+  ];
+  const names: string[] = [];
+  for (const annotation of annotations) {
+    for (const match of annotation.matchAll(/[A-Za-z_][A-Za-z0-9_]*/g)) {
+      if (!names.includes(match[0])) {
+        names.push(match[0]);
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Finds the definitions of the named types in the scanned modules.
+ */
+function findTypeDefinitions(
+  names: ReadonlySet<string>,
+  scans: readonly PythonModuleScan[]
+): PythonTypeDefinition[] {
+  const definitions: PythonTypeDefinition[] = [];
+  for (const scan of scans) {
+    const matching = scan.types.filter(
+      (type) => names.has(type.name) && !definitions.some((d) => d.name === type.name)
+    );
+    if (matching.length === 0) {
+      continue;
+    }
+    const lines = safeReadFileSync(scan.filePath, 'utf-8').split('\n');
+    for (const type of matching) {
+      definitions.push({
+        name: type.name,
+        kind: type.kind,
+        definition: lines
+          .slice(type.line - 1, type.endLine)
+          .join('\n')
+          .trimEnd(),
+        filePath: scan.filePath,
+      });
+    }
+  }
+  return definitions;
+}
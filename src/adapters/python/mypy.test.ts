@@ -0,0 +1,177 @@
+/**
+ * Tests for the mypy wrapper.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock execa before importing the module under test
+vi.mock('execa', () => ({
+  execa: vi.fn(),
+}));
+
+import { execa } from 'execa';
+import { PythonNotInstalledError } from './ast.js';
+import { MypyFailedError, MypyNotInstalledError, parseMypyOutput, runMypy } from './mypy.js';
+
+const mockExeca = vi.mocked(execa);
+
+const RETURN_VALUE = JSON.stringify({
+  file: 'bank/money.py',
+  line: 12,
+  column: 4,
+  message: 'Incompatible return value type (got "str", expected "int")',
+  hint: null,
+  code: 'return-value',
+  severity: 'error',
+});
+
+const NOTE = JSON.stringify({
+  file: 'bank/money.py',
+  line: 12,
+  column: 4,
+  message: 'See https://mypy.rtfd.io',
+  hint: null,
+  code: null,
+  severity: 'note',
+});
+
+const IMPORT_ERROR = JSON.stringify({
+  file: 'bank/ledger.py',
+  line: 1,
+  column: -1,
+  message: 'Cannot find implementation or library stub for module named "requests"',
+  hint: 'Hint: "python3 -m pip install types-requests"',
+  code: 'import-not-found',
+  severity: 'error',
+});
+
+describe('parseMypyOutput', () => {
+  it('parses JSON diagnostics with 1-based columns', () => {
+    const errors = parseMypyOutput(`${RETURN_VALUE}\n${NOTE}\n${IMPORT_ERROR}\n`);
+
+    expect(errors).toEqual([
+      {
+        file: 'bank/money.py',
+        line: 12,
+        column: 5,
+        code: 'return-value',
+        message: 'Incompatible return value type (got "str", expected "int")',
+        severity: 'error',
+      },
+      {
+        file: 'bank/ledger.py',
+        line: 1,
+        column: 0,
+        code: 'import-not-found',
+        message:
+          'Cannot find implementation or library stub for module named "requests"\nHint: "python3 -m pip install types-requests"',
+        severity: 'error',
+      },
+    ]);
+  });
+
+  it('parses the text format', () => {
+    const output = [
+      'bank/money.py:12:5: error: Incompatible return value type (got "str", expected "int")  [return-value]',
+      'bank/money.py:12:5: note: See https://mypy.rtfd.io',
+      'bank/ledger.py:3: warning: Unused "type: ignore" comment',
+      'Found 1 error in 1 file (checked 2 source files)',
+    ].join('\n');
+
+    expect(parseMypyOutput(output)).toEqual([
+      {
+        file: 'bank/money.py',
+        line: 12,
+        column: 5,
+        code: 'return-value',
+        message: 'Incompatible return value type (got "str", expected "int")',
+        severity: 'error',
+      },
+      {
+        file: 'bank/ledger.py',
+        line: 3,
+        column: 0,
+        code: 'mypy',
+        message: 'Unused "type: ignore" comment',
+        severity: 'warning',
+      },
+    ]);
+  });
+
+  it('resolves relative paths against the project', () => {
+    const [error] = parseMypyOutput(RETURN_VALUE, '/work/bank');
+    expect(error?.file).toBe('/work/bank/bank/money.py');
+  });
+});
+
+describe('runMypy', () => {
+  beforeEach(() => {
+    mockExeca.mockReset();
+  });
+
+  it('runs mypy with JSON output through the interpreter', async () => {
+    mockExeca.mockResolvedValueOnce({ stdout: '', stderr: '', exitCode: 0 } as never);
+
+    const result = await runMypy('/work/bank', { strict: true, files: ['bank'] });
+
+    expect(result).toEqual({ success: true, errors: [], errorCount: 0, warningCount: 0 });
+    expect(mockExeca).toHaveBeenCalledWith(
+      'python3',
+      [
+        '-m',
+        'mypy',
+        '-O',
+        'json',
+        '--show-column-numbers',
+        '--no-error-summary',
+        '--no-color-output',
+        '--strict',
+        'bank',
+      ],
+      expect.objectContaining({ cwd: '/work/bank', reject: false })
+    );
+  });
+
+  it('reports diagnostics as a failed check', async () => {
+    mockExeca.mockResolvedValueOnce({ stdout: RETURN_VALUE, stderr: '', exitCode: 1 } as never);
+
+    const result = await runMypy('/work/bank');
+
+    expect(result.success).toBe(false);
+    expect(result.errorCount).toBe(1);
+    expect(result.errors[0]?.file).toBe('/work/bank/bank/money.py');
+  });
+
+  it('throws when the interpreter is missing', async () => {
+    mockExeca.mockResolvedValueOnce({ code: 'ENOENT', exitCode: undefined } as never);
+
+    await expect(runMypy('/work/bank', { python: 'python3.12' })).rejects.toThrow(
+      PythonNotInstalledError
+    );
+  });
+
+  it('throws when mypy is not installed', async () => {
+    mockExeca.mockResolvedValueOnce({
+      stdout: '',
+      stderr: '/usr/bin/python3: No module named mypy',
+      exitCode: 1,
+    } as never);
+
+    await expect(runMypy('/work/bank')).rejects.toThrow(MypyNotInstalledError);
+  });
+
+  it('throws when mypy fails without diagnostics', async () => {
+    mockExeca.mockResolvedValueOnce({
+      stdout: '',
+      stderr: 'mypy.ini: [mypy]: Unrecognized option: strictt = True',
+      exitCode: 2,
+    } as never);
+
+    const error = await runMypy('/work/bank').catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(MypyFailedError);
+    expect((error as MypyFailedError).exitCode).toBe(2);
+    expect((error as MypyFailedError).message).toBe(
+      'mypy failed with exit code 2: mypy.ini: [mypy]: Unrecognized option: strictt = True'
+    );
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * mypy wrapper with structured error parsing.
+ *
+ * Runs mypy through the project's Python interpreter with JSON output
+ * (`-O json`, mypy 1.11+) and parses each diagnostic into a StructuralError.
+ * The classic `file:line:col: error: message  [code]` text format is also
+ * understood, for output captured from older mypy versions.
+ *
+ * @module adapters/python/mypy
+ */
+
+import { execa } from 'execa';
+import * as path from 'node:path';
+import type { StructuralError } from '../../servers/toolchain/types.js';
+import { PythonNotInstalledError } from './ast.js';
+
+/**
+ * Error thrown when mypy is not installed in the target interpreter.
+ */
+export class MypyNotInstalledError extends Error {
+  constructor(python: string) {
+    super(`mypy is not installed for ${python}. Install it with: ${python} -m pip install mypy`);
+    this.name = 'MypyNotInstalledError';
+  }
+}
+
+/**
+ * Error thrown when mypy exits without reporting diagnostics, e.g. for an
+ * invalid configuration file.
+ */
+export class MypyFailedError extends Error {
+  constructor(
+    public readonly exitCode: number,
+    public readonly stderr: string
+  ) {
+    const lastLine = stderr.trim().split('\n').pop() ?? '';
+    super(
+      `mypy failed with exit code ${String(exitCode)}${lastLine !== '' ? `: ${lastLine}` : ''}`
+    );
+    this.name = 'MypyFailedError';
+  }
+}
+
+/**
+ * Options for running mypy.
+ */
+export interface MypyOptions {
+  /** Python interpreter to run mypy with. Default: "python3" */
+  python?: string;
+  /** Files or directories to check, relative to the project. Default: ["."] */
+  files?: string[];
+  /** Path to a mypy configuration file */
+  configFile?: string;
+  /** Enable `--strict` */
+  strict?: boolean;
+  /** Timeout in milliseconds. Default: 300000 */
+  timeout?: number;
+}
+
+/**
+ * Result of running mypy.
+ */
+export interface MypyResult {
+  /** Whether the check passed with no errors */
+  success: boolean;
+  /** Type errors and warnings */
+  errors: StructuralError[];
+  /** Number of errors */
+  errorCount: number;
+  /** Number of warnings */
+  warningCount: number;
+}
+
+/**
+ * A diagnostic as emitted by `mypy -O json`.
+ */
+interface MypyJsonDiagnostic {
+  file?: string;
+  line?: number;
+  column?: number;
+  message?: string;
+  hint?: string | null;
+  code?: string | null;
+  severity?: string;
+}
+
+/**
+ * Matches a text-format diagnostic, e.g.
+ * `pkg/money.py:12:5: error: Incompatible return value type  [return-value]`.
+ */
+const TEXT_DIAGNOSTIC_PATTERN =
+  // eslint-disable-next-line security/detect-unsafe-regex -- anchored, applied to single output lines
+  /^(.+?):(\d+)(?::(\d+))?: (error|warning|note): (.*?)(?: {2}\[([a-z0-9-]+)\])?$/;
+
+/**
+ * Parses mypy output into structural errors.
+ *
+ * Notes are dropped; JSON hints are appended to the message they belong to.
+ *
+ * @param output - Raw stdout from mypy, in JSON or text format.
+ * @param projectPath - If given, relative file paths are resolved against it.
+ * @returns The structural errors in emission order.
+ */
+export function parseMypyOutput(output: string, projectPath?: string): StructuralError[] {
+  const errors: StructuralError[] = [];
+
+  const resolve = (file: string): string =>
+    projectPath !== undefined && file !== '' && !path.isAbsolute(file)
+      ? path.join(projectPath, file)
+      : file;
+
+  for (const rawLine of output.split('\n')) {
+    const line = rawLine.trim();
+    if (line === '') {
+      continue;
+    }
+
+    if (line.startsWith('{')) {
+      let diagnostic: MypyJsonDiagnostic;
+      try {
+        diagnostic = JSON.parse(line) as MypyJsonDiagnostic;
+      } catch {
+        continue;
+      }
+      if (diagnostic.severity !== 'error' && diagnostic.severity !== 'warning') {
+        continue;
+      }
+      const hint = diagnostic.hint ?? '';
+      errors.push({
+        file: resolve(diagnostic.file ?? ''),
+        // JSON columns are 0-indexed, with -1 when unknown
+        line: diagnostic.line ?? 0,
+        column:
+          diagnostic.column !== undefined && diagnostic.column >= 0 ? diagnostic.column + 1 : 0,
+        code: diagnostic.code ?? 'mypy',
+        message: hint !== '' ? `${diagnostic.message ?? ''}\n${hint}` : (diagnostic.message ?? ''),
+        severity: diagnostic.severity,
+      });
+      continue;
+    }
+
+    const match = TEXT_DIAGNOSTIC_PATTERN.exec(line);
+    if (match === null || match[4] === 'note') {
+      continue;
+    }
+    errors.push({
+      file: resolve(match[1] ?? ''),
+      line: parseInt(match[2] ?? '0', 10),
+      column: match[3] !== undefined ? parseInt(match[3], 10) : 0,
+      code: match[6] ?? 'mypy',
+      message: match[5] ?? '',
+      severity: match[4] === 'warning' ? 'warning' : 'error',
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Runs mypy on a project and returns structured diagnostics.
+ *
+ * mypy exits with 1 when it reports errors and 2 on fatal errors; a fatal
+ * exit with nothing parseable is raised as a MypyFailedError rather than
+ * reported as an empty failure.
+ *
+ * @param projectPath - The project root (mypy's working directory).
+ * @param options - mypy options.
+ * @returns The check result.
+ * @throws {PythonNotInstalledError} If the interpreter is not found.
+ * @throws {MypyNotInstalledError} If mypy is not installed.
+ * @throws {MypyFailedError} If mypy fails without diagnostics.
+ *
+ * @example
+ * const result = await runMypy('./my-project', { strict: true });
+ * for (const error of result.errors) {
+ *   console.log(`${error.file}:${error.line}:${error.column} - ${error.code}: ${error.message}`);
+ * }
+ */
+export async function runMypy(projectPath: string, options: MypyOptions = {}): Promise<MypyResult> {
+  const resolvedProjectPath = path.resolve(projectPath);
+  const python = options.python ?? 'python3';
+  const args = [
+    '-m',
+    'mypy',
+    '-O',
+    'json',
+    '--show-column-numbers',
+    '--no-error-summary',
+    '--no-color-output',
+  ];
+  if (options.configFile !== undefined && options.configFile !== '') {
+    args.push('--config-file', options.configFile);
+  }
+  if (options.strict === true) {
+    args.push('--strict');
+  }
+  args.push(...(options.files !== undefined && options.files.length > 0 ? options.files : ['.']));
+
+  const result = await execa(python, args, {
+    cwd: resolvedProjectPath,
+    reject: false,
+    timeout: options.timeout ?? 300000,
+  });
+  if (result.code === 'ENOENT') {
+    throw new PythonNotInstalledError(python);
+  }
+
+  const stdout = typeof result.stdout === 'string' ? result.stdout : '';
+  const stderr = typeof result.stderr === 'string' ? result.stderr : '';
+  const exitCode = result.exitCode ?? 1;
+  if (exitCode !== 0 && /No module named mypy\b/.test(stderr)) {
+    throw new MypyNotInstalledError(python);
+  }
+
+  const errors = parseMypyOutput(stdout, resolvedProjectPath);
+  if (exitCode !== 0 && errors.length === 0) {
+    throw new MypyFailedError(exitCode, stderr !== '' ? stderr : stdout);
+  }
+
+  const errorCount = errors.filter((e) => e.severity === 'error').length;
+  return {
+    success: exitCode === 0 && errorCount === 0,
+    errors,
+    errorCount,
+    warningCount: errors.length - errorCount,
+  };
+}
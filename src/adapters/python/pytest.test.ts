@@ -0,0 +1,141 @@
+/**
+ * Tests for the pytest wrapper.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { writeFileSync } from 'node:fs';
+
+// Mock execa before importing the module under test
+vi.mock('execa', () => ({
+  execa: vi.fn(),
+}));
+
+import { execa } from 'execa';
+import { PytestFailedError, PytestNotInstalledError, parseJUnitXml, runPytest } from './pytest.js';
+
+const mockExeca = vi.mocked(execa);
+
+const JUNIT_XML = `<?xml version="1.0" encoding="utf-8"?>
+<testsuites><testsuite name="pytest" errors="0" failures="1" skipped="1" tests="4" time="0.031">
+<testcase classname="tests.test_money" name="test_add" file="tests/test_money.py" line="2" time="0.001" />
+<testcase classname="tests.test_money" name="test_compare" file="tests/test_money.py" line="6" time="0.012"><failure message="AssertionError: a &lt; b &amp; c&#10;assert 1 == 2">def test_compare():
+&gt;       assert 1 == 2
+E       assert 1 == 2
+
+tests/test_money.py:8: AssertionError</failure></testcase>
+<testcase classname="tests.test_money.TestLedger" name="test_total" file="tests/test_money.py" line="11" time="0.000"><skipped type="pytest.skip" message="later">tests/test_money.py:12: later</skipped></testcase>
+<testcase classname="tests.test_money" name="test_boom" file="tests/test_money.py" line="15" time="0.002"><error message="failed on setup with &quot;fixture 'db' not found&quot;"><![CDATA[file tests/test_money.py, line 15
+  def test_boom(db):
+E       fixture 'db' not found]]></error></testcase>
+</testsuite></testsuites>`;
+
+/**
+ * Makes the mocked pytest write a report to the `--junitxml` path.
+ */
+function pytestWritesReport(xml: string, exitCode: number): void {
+  mockExeca.mockImplementationOnce(((_file: string, args: readonly string[]) => {
+    const reportArg = args.find((arg) => arg.startsWith('--junitxml='));
+    if (reportArg !== undefined) {
+      writeFileSync(reportArg.slice('--junitxml='.length), xml);
+    }
+    return Promise.resolve({ stdout: '', stderr: '', exitCode });
+  }) as never);
+}
+
+describe('parseJUnitXml', () => {
+  it('parses test cases into results with pytest node ids', () => {
+    const tests = parseJUnitXml(JUNIT_XML);
+
+    expect(tests.map((t) => [t.fullName, t.status])).toEqual([
+      ['tests/test_money.py::test_add', 'passed'],
+      ['tests/test_money.py::test_compare', 'failed'],
+      ['tests/test_money.py::TestLedger::test_total', 'skipped'],
+      ['tests/test_money.py::test_boom', 'failed'],
+    ]);
+    expect(tests[1]).toMatchObject({
+      name: 'test_compare',
+      file: 'tests/test_money.py',
+      durationMs: 12,
+    });
+  });
+
+  it('decodes failure messages and details', () => {
+    const [, compare, , boom] = parseJUnitXml(JUNIT_XML);
+
+    expect(compare?.error?.message).toBe('AssertionError: a < b & c\nassert 1 == 2');
+    expect(compare?.error?.stack).toContain('>       assert 1 == 2');
+    expect(boom?.error?.message).toBe('failed on setup with "fixture \'db\' not found"');
+    expect(boom?.error?.stack).toContain("E       fixture 'db' not found");
+  });
+
+  it('returns no results for an empty report', () => {
+    expect(parseJUnitXml('<testsuites><testsuite tests="0"></testsuite></testsuites>')).toEqual([]);
+  });
+});
+
+describe('runPytest', () => {
+  beforeEach(() => {
+    mockExeca.mockReset();
+  });
+
+  it('runs pytest with a JUnit XML report and summarizes it', async () => {
+    pytestWritesReport(JUNIT_XML, 1);
+
+    const result = await runPytest('tests/test_money.py', {
+      cwd: '/work/bank',
+      testNamePattern: 'money',
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      totalTests: 4,
+      passedTests: 1,
+      failedTests: 2,
+      skippedTests: 1,
+    });
+
+    const [file, args, options] = mockExeca.mock.calls[0] as unknown as [
+      string,
+      string[],
+      { cwd: string },
+    ];
+    expect(file).toBe('python3');
+    expect(args.slice(0, 3)).toEqual(['-m', 'pytest', 'tests/test_money.py']);
+    expect(args).toContain('junit_family=xunit1');
+    expect(args.slice(-2)).toEqual(['-k', 'money']);
+    expect(options.cwd).toBe('/work/bank');
+  });
+
+  it('succeeds when every test passes', async () => {
+    pytestWritesReport(
+      '<testsuites><testsuite><testcase classname="test_a" name="test_ok" file="test_a.py" time="0.1" /></testsuite></testsuites>',
+      0
+    );
+
+    const result = await runPytest('');
+
+    expect(result.success).toBe(true);
+    expect(result.tests[0]?.fullName).toBe('test_a.py::test_ok');
+    expect((mockExeca.mock.calls[0]?.[1] as string[]).slice(0, 3)).toEqual(['-m', 'pytest', '-q']);
+  });
+
+  it('throws when pytest is not installed', async () => {
+    mockExeca.mockResolvedValueOnce({
+      stdout: '',
+      stderr: '/usr/bin/python3: No module named pytest',
+      exitCode: 1,
+    } as never);
+
+    await expect(runPytest('tests')).rejects.toThrow(PytestNotInstalledError);
+  });
+
+  it('throws when pytest exits without a report', async () => {
+    mockExeca.mockResolvedValueOnce({
+      stdout: '',
+      stderr: 'ERROR: file or directory not found: tests/missing.py',
+      exitCode: 4,
+    } as never);
+
+    await expect(runPytest('tests/missing.py')).rejects.toThrow(PytestFailedError);
+  });
+});
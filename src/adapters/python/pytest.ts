@@ -0,0 +1,242 @@
+/**
+ * pytest wrapper with JUnit XML results.
+ *
+ * Runs pytest with `--junitxml` (xunit1 family, which records each test's
+ * file and line) and parses the report into the same TestRunResult shape the
+ * TypeScript adapter produces for vitest.
+ *
+ * @module adapters/python/pytest
+ */
+
+import { execa } from 'execa';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { safeExists, safeMkdirTemp, safeReadFile, safeRm } from '../../utils/safe-fs.js';
+import type { TestResult, TestRunResult, TestStatus } from '../typescript/testrunner.js';
+import { PythonNotInstalledError } from './ast.js';
+
+/**
+ * Error thrown when pytest is not installed in the target interpreter.
+ */
+export class PytestNotInstalledError extends Error {
+  constructor(python: string) {
+    super(
+      `pytest is not installed for ${python}. Install it with: ${python} -m pip install pytest`
+    );
+    this.name = 'PytestNotInstalledError';
+  }
+}
+
+/**
+ * Error thrown when pytest exits without writing a report, e.g. for a usage
+ * error or an internal error.
+ */
+export class PytestFailedError extends Error {
+  constructor(
+    public readonly exitCode: number,
+    public readonly output: string
+  ) {
+    const lastLine = output.trim().split('\n').pop() ?? '';
+    super(
+      `pytest failed with exit code ${String(exitCode)}${lastLine !== '' ? `: ${lastLine}` : ''}`
+    );
+    this.name = 'PytestFailedError';
+  }
+}
+
+/**
+ * Options for running pytest.
+ */
+export interface PytestOptions {
+  /** Working directory (the project root) */
+  cwd?: string;
+  /** Python interpreter to run pytest with. Default: "python3" */
+  python?: string;
+  /** Keyword expression selecting tests (-k) */
+  testNamePattern?: string;
+  /** Timeout in milliseconds. Default: 300000 */
+  timeout?: number;
+}
+
+/**
+ * Matches a `<testcase>` element, self-closing or with children.
+ */
+const TESTCASE_PATTERN = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+
+/**
+ * Matches a result child of a test case.
+ */
+const RESULT_PATTERN = /<(failure|error|skipped)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/;
+
+/**
+ * Matches a double-quoted XML attribute.
+ */
+const ATTRIBUTE_PATTERN = /([A-Za-z_:][\w:.-]*)="([^"]*)"/g;
+
+/**
+ * Decodes the XML entities and CDATA sections pytest can emit.
+ */
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Parses the attributes of an element's start tag.
+ */
+function parseAttributes(text: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const match of text.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes.set(match[1] ?? '', decodeXml(match[2] ?? ''));
+  }
+  return attributes;
+}
+
+/**
+ * Builds a pytest node id (`tests/test_x.py::TestClass::test_name`) from
+ * the xunit1 `file` and `classname` attributes.
+ */
+function nodeId(file: string, classname: string, name: string): string {
+  if (file === '') {
+    return classname !== '' ? `${classname}.${name}` : name;
+  }
+  const moduleName = file.replace(/\.py$/, '').split(/[\\/]/).join('.');
+  const classPath = classname.startsWith(`${moduleName}.`)
+    ? classname.slice(moduleName.length + 1).split('.')
+    : [];
+  return [file, ...classPath, name].join('::');
+}
+
+/**
+ * Parses a pytest JUnit XML report into test results.
+ *
+ * Failures and errors (including collection errors) map to `failed`;
+ * skips and expected failures map to `skipped`.
+ *
+ * @param xml - The report contents.
+ * @returns The individual test results, in report order.
+ */
+export function parseJUnitXml(xml: string): TestResult[] {
+  const tests: TestResult[] = [];
+
+  for (const match of xml.matchAll(TESTCASE_PATTERN)) {
+    const attributes = parseAttributes(match[1] ?? '');
+    const name = attributes.get('name') ?? '';
+    const file = attributes.get('file') ?? '';
+    const classname = attributes.get('classname') ?? '';
+    const time = parseFloat(attributes.get('time') ?? '0');
+
+    const child = RESULT_PATTERN.exec(match[2] ?? '');
+    let status: TestStatus = 'passed';
+    if (child !== null) {
+      status = child[1] === 'skipped' ? 'skipped' : 'failed';
+    }
+
+    const result: TestResult = {
+      name,
+      fullName: nodeId(file, classname, name),
+      file,
+      status,
+      durationMs: Number.isFinite(time) ? Math.round(time * 1000) : 0,
+    };
+
+    if (status === 'failed' && child !== null) {
+      const childAttributes = parseAttributes(child[2] ?? '');
+      const details = decodeXml(child[3] ?? '').trim();
+      const message = childAttributes.get('message') ?? '';
+      result.error = {
+        message: message !== '' ? message : (details.split('\n').pop() ?? 'Test failed'),
+        ...(details !== '' ? { stack: details } : {}),
+      };
+    }
+
+    tests.push(result);
+  }
+
+  return tests;
+}
+
+/**
+ * Runs pytest and returns structured results.
+ *
+ * @param pattern - Test file, directory, or node id to run (empty runs the suite).
+ * @param options - pytest options.
+ * @returns The test run result.
+ * @throws {PythonNotInstalledError} If the interpreter is not found.
+ * @throws {PytestNotInstalledError} If pytest is not installed.
+ * @throws {PytestFailedError} If pytest exits without writing a report.
+ *
+ * @example
+ * const result = await runPytest('tests/test_money.py', { cwd: './my-project' });
+ * console.log(`${result.passedTests}/${result.totalTests} passed`);
+ */
+export async function runPytest(
+  pattern: string,
+  options: PytestOptions = {}
+): Promise<TestRunResult> {
+  const cwd =
+    options.cwd !== undefined && options.cwd !== '' ? path.resolve(options.cwd) : process.cwd();
+  const python = options.python ?? 'python3';
+  const reportDir = await safeMkdirTemp(path.join(os.tmpdir(), 'crit-pytest-'));
+  const reportPath = path.join(reportDir, 'junit.xml');
+
+  try {
+    const args = ['-m', 'pytest'];
+    if (pattern !== '') {
+      args.push(pattern);
+    }
+    args.push(
+      '-q',
+      '--color=no',
+      '-p',
+      'no:cacheprovider',
+      `--junitxml=${reportPath}`,
+      '-o',
+      'junit_family=xunit1'
+    );
+    if (options.testNamePattern !== undefined && options.testNamePattern !== '') {
+      args.push('-k', options.testNamePattern);
+    }
+
+    const result = await execa(python, args, {
+      cwd,
+      reject: false,
+      timeout: options.timeout ?? 300000,
+    });
+    if (result.code === 'ENOENT') {
+      throw new PythonNotInstalledError(python);
+    }
+
+    const exitCode = result.exitCode ?? 1;
+    const stderr = typeof result.stderr === 'string' ? result.stderr : '';
+    const stdout = typeof result.stdout === 'string' ? result.stdout : '';
+    if (/No module named pytest\b/.test(stderr)) {
+      throw new PytestNotInstalledError(python);
+    }
+    if (!(await safeExists(reportPath))) {
+      throw new PytestFailedError(exitCode, stderr !== '' ? stderr : stdout);
+    }
+
+    const tests = parseJUnitXml(await safeReadFile(reportPath, 'utf-8'));
+    const passedTests = tests.filter((t) => t.status === 'passed').length;
+    const failedTests = tests.filter((t) => t.status === 'failed').length;
+
+    return {
+      success: exitCode === 0 && failedTests === 0,
+      totalTests: tests.length,
+      passedTests,
+      failedTests,
+      skippedTests: tests.length - passedTests - failedTests,
+      tests,
+    };
+  } finally {
+    await safeRm(reportDir, { recursive: true, force: true });
+  }
+}
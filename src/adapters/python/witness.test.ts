@@ -0,0 +1,179 @@
+/**
+ * Tests for Python NewType witness and hypothesis strategy generation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { execa } from 'execa';
+import type { SpecWitness } from '../../spec/types.js';
+import {
+  generateHypothesisModule,
+  generateHypothesisStrategy,
+  generateNewType,
+  generatePythonWitnessModule,
+  specWitnessToPythonDefinition,
+  toPythonType,
+  translateInvariant,
+  InvalidBaseTypeError,
+} from './witness.js';
+
+const PERCENTAGE: SpecWitness = {
+  name: 'Percentage',
+  description: 'A percentage.',
+  base_type: 'f64',
+  invariants: [{ id: 'range', formal: '0.0 <= self.0 <= 100.0' }],
+};
+
+const NON_EMPTY_LIST: SpecWitness = {
+  name: 'NonEmptyList',
+  base_type: 'Vec<T>',
+  type_params: [{ name: 'T' }],
+  invariants: [
+    { id: 'non_empty', formal: 'self.len() > 0' },
+    { id: 'positive', formal: 'forall i: self[i] > 0' },
+  ],
+};
+
+const PORT: SpecWitness = {
+  name: 'Port',
+  base_type: 'u16',
+  invariants: [
+    { id: 'unprivileged', formal: 'self.0 > 1023' },
+    { id: 'bounded', formal: 'self.0 < 65536' },
+  ],
+};
+
+describe('toPythonType', () => {
+  it('should map spec types to Python annotations', () => {
+    expect(toPythonType('u64')).toBe('int');
+    expect(toPythonType('f64')).toBe('float');
+    expect(toPythonType('&str')).toBe('str');
+    expect(toPythonType('(i32, &str)')).toBe('tuple[int, str]');
+    expect(toPythonType('Box<Vec<u8>>')).toBe('list[int]');
+    expect(toPythonType('HashMap<String, Option<T>>', new Set(['T']))).toBe(
+      'dict[str, Optional[Any]]'
+    );
+  });
+
+  it('should reject unbalanced brackets', () => {
+    expect(() => toPythonType('Vec<u8')).toThrow(InvalidBaseTypeError);
+  });
+});
+
+describe('translateInvariant', () => {
+  it('should rewrite spec invariants over self into expressions over value', () => {
+    expect(translateInvariant('self.0 >= 0')).toBe('value >= 0');
+    expect(translateInvariant('self.len() >= 1')).toBe('len(value) >= 1');
+    expect(translateInvariant('self.items.length !== 0')).toBe('len(value.items) != 0');
+  });
+
+  it('should translate boolean operators and literals', () => {
+    expect(translateInvariant('self.0 > 0 && !(self.0 === 5) || true')).toBe(
+      'value > 0 and not (value == 5) or True'
+    );
+  });
+
+  it('should return null for quantified invariants', () => {
+    expect(translateInvariant('forall i: self[i] > 0')).toBe(null);
+    expect(translateInvariant('self.0 > 0 implies self.1 > 0')).toBe(null);
+  });
+});
+
+describe('specWitnessToPythonDefinition', () => {
+  it('should combine checkable invariants and keep the rest as documentation', () => {
+    expect(specWitnessToPythonDefinition(NON_EMPTY_LIST)).toEqual({
+      name: 'NonEmptyList',
+      baseType: 'list[Any]',
+      typeParameters: ['T'],
+      invariant: 'len(value) > 0',
+      uncheckedInvariants: ['forall i: self[i] > 0'],
+    });
+    expect(specWitnessToPythonDefinition(PORT).invariant).toBe('value > 1023 and value < 65536');
+  });
+
+  it('should reject witnesses without a base type', () => {
+    expect(() => specWitnessToPythonDefinition({ name: 'Opaque', invariants: [] })).toThrow(
+      InvalidBaseTypeError
+    );
+  });
+});
+
+describe('generateNewType', () => {
+  it('should emit a NewType with a validator and a checked constructor', () => {
+    const code = generateNewType(specWitnessToPythonDefinition(PERCENTAGE));
+
+    expect(code).toContain('Percentage = NewType("Percentage", float)');
+    expect(code).toContain(`def is_percentage(value: float) -> bool:
+    """Returns whether \`\`value\`\` satisfies the Percentage invariant."""
+    return 0.0 <= value <= 100.0`);
+    expect(code).toContain(`    if not is_percentage(value):
+        raise ValueError(f"invalid Percentage: {value!r}")
+    return Percentage(value)`);
+  });
+
+  it('should reject base types NewType cannot wrap', () => {
+    expect(() => generateNewType({ name: 'Maybe', baseType: 'Optional[int]' })).toThrow(
+      InvalidBaseTypeError
+    );
+  });
+});
+
+describe('generateHypothesisStrategy', () => {
+  it('should derive bounds from the invariant', () => {
+    expect(generateHypothesisStrategy(specWitnessToPythonDefinition(PERCENTAGE))).toContain(
+      'return st.floats(min_value=0.0, max_value=100.0, allow_nan=False, allow_infinity=False).filter(is_percentage).map(Percentage)'
+    );
+    expect(generateHypothesisStrategy(specWitnessToPythonDefinition(PORT))).toContain(
+      'return st.integers(min_value=1024, max_value=65535).filter(is_port).map(Port)'
+    );
+  });
+
+  it('should take element strategies for type parameters', () => {
+    const code = generateHypothesisStrategy(specWitnessToPythonDefinition(NON_EMPTY_LIST));
+
+    expect(code).toContain(
+      'def non_empty_list_strategy(elements: st.SearchStrategy[Any]) -> st.SearchStrategy[NonEmptyList]:'
+    );
+    expect(code).toContain(
+      'return st.lists(elements, min_size=1).filter(is_non_empty_list).map(NonEmptyList)'
+    );
+  });
+
+  it('should skip the filter when there is no invariant', () => {
+    const code = generateHypothesisStrategy({ name: 'AccountId', baseType: 'int' });
+    expect(code).toContain('return st.integers().map(AccountId)');
+  });
+});
+
+describe('generateHypothesisModule', () => {
+  it('should import the witnesses and validators it uses', () => {
+    const code = generateHypothesisModule([PERCENTAGE, { ...PORT, invariants: [] }], {
+      witnessModule: 'bank.witnesses',
+    });
+
+    expect(code).toContain('from hypothesis import strategies as st');
+    expect(code).toContain('from bank.witnesses import Percentage, is_percentage, Port\n');
+  });
+});
+
+describe('generatePythonWitnessModule', () => {
+  it('should generate a module that runs and enforces the invariants', async () => {
+    const code = generatePythonWitnessModule([PERCENTAGE, NON_EMPTY_LIST, PORT]);
+    const script = `${code}
+assert make_percentage(12.5) == 12.5
+assert make_non_empty_list([1]) == [1]
+for bad in (lambda: make_percentage(100.5), lambda: make_non_empty_list([]), lambda: make_port(80)):
+    try:
+        bad()
+    except ValueError:
+        pass
+    else:
+        raise SystemExit("accepted an invalid value")
+print("ok")
+`;
+
+    const result = await execa('python3', ['-c', script], { reject: false });
+
+    expect(result.stderr).toBe('');
+    expect(result.stdout).toBe('ok');
+  });
+});
@@ -0,0 +1,702 @@
+/**
+ * Type witness generation module for Python.
+ *
+ * Generates `typing.NewType` definitions with validator and constructor
+ * functions that check the witness invariants, plus hypothesis strategies
+ * that only produce valid values. This is the Python counterpart of the
+ * branded types and fast-check arbitraries generated by the TypeScript
+ * adapter.
+ *
+ * Spec base types may be written in Rust or TypeScript notation (`i64`,
+ * `Vec<T>`, `string`); they are mapped to Python annotations first.
+ *
+ * @module adapters/python/witness
+ */
+
+import type { SpecWitness } from '../../spec/types.js';
+
+/**
+ * Represents a witness type definition used to generate a Python NewType.
+ */
+export interface PythonWitnessDefinition {
+  /** The name of the NewType (e.g., "NonNegativeDecimal") */
+  name: string;
+  /** The Python base type annotation (e.g., "int", "list[Any]") */
+  baseType: string;
+  /** Type parameters of the spec witness, erased to `Any` in the base type */
+  typeParameters?: string[];
+  /** Python boolean expression over `value` checked by the validator */
+  invariant?: string;
+  /** Invariants that cannot be checked at runtime (documentation only) */
+  uncheckedInvariants?: string[];
+  /** Human-readable description of the witness */
+  description?: string;
+}
+
+/**
+ * Options for generating Python witness code.
+ */
+export interface PythonWitnessOptions {
+  /** Include docstrings in generated code. Default: true */
+  includeDocs?: boolean;
+}
+
+/**
+ * Options for generating a hypothesis strategy module.
+ */
+export interface HypothesisModuleOptions extends PythonWitnessOptions {
+  /** Module the witness definitions are imported from. Default: "witnesses" */
+  witnessModule?: string;
+}
+
+/**
+ * Error thrown when a base type cannot be used for a NewType.
+ */
+export class InvalidBaseTypeError extends Error {
+  constructor(
+    public readonly baseType: string,
+    public readonly reason: string
+  ) {
+    super(`Invalid base type "${baseType}": ${reason}`);
+    this.name = 'InvalidBaseTypeError';
+  }
+}
+
+const INTEGER_TYPES = new Set([
+  'i8',
+  'i16',
+  'i32',
+  'i64',
+  'i128',
+  'isize',
+  'u8',
+  'u16',
+  'u32',
+  'u64',
+  'u128',
+  'usize',
+  'int',
+  'integer',
+  'bigint',
+]);
+
+const FLOAT_TYPES = new Set(['f32', 'f64', 'float', 'number']);
+
+const STRING_TYPES = new Set(['String', 'str', '&str', 'string']);
+
+const BOOL_TYPES = new Set(['bool', 'boolean']);
+
+/**
+ * Generic containers mapped to their Python builtin equivalents.
+ */
+const CONTAINER_TYPES = new Map([
+  ['Vec', 'list'],
+  ['Array', 'list'],
+  ['List', 'list'],
+  ['list', 'list'],
+  ['VecDeque', 'list'],
+  ['HashSet', 'set'],
+  ['BTreeSet', 'set'],
+  ['Set', 'set'],
+  ['set', 'set'],
+  ['HashMap', 'dict'],
+  ['BTreeMap', 'dict'],
+  ['Map', 'dict'],
+  ['Record', 'dict'],
+  ['dict', 'dict'],
+  ['Box', ''],
+  ['Rc', ''],
+  ['Arc', ''],
+]);
+
+/**
+ * Splits a comma-separated argument list at the top nesting level.
+ */
+function splitArguments(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === '<' || char === '[' || char === '(') {
+      depth++;
+    } else if (char === '>' || char === ']' || char === ')') {
+      depth--;
+    }
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim() !== '') {
+    parts.push(current.trim());
+  }
+  return parts;
+}
+
+/**
+ * Validates bracket balance in a spec type.
+ */
+function validateBrackets(type: string): void {
+  const pairs: Record<string, string> = { '>': '<', ')': '(', ']': '[' };
+  const stack: string[] = [];
+  for (const char of type) {
+    if (char === '<' || char === '(' || char === '[') {
+      stack.push(char);
+    } else if (char === '>' || char === ')' || char === ']') {
+      // eslint-disable-next-line security/detect-object-injection -- char is one of three literal keys
+      if (stack.pop() !== pairs[char]) {
+        throw new InvalidBaseTypeError(type, 'unbalanced brackets');
+      }
+    }
+  }
+  if (stack.length > 0) {
+    throw new InvalidBaseTypeError(type, 'unbalanced brackets');
+  }
+}
+
+/**
+ * Strips a leading `&` or `&mut ` borrow, keeping `&str` intact.
+ */
+function stripReference(type: string): string {
+  if (!type.startsWith('&') || type === '&str') {
+    return type;
+  }
+  return type.startsWith('&mut ') ? type.slice(5).trimStart() : type.slice(1);
+}
+
+/**
+ * Maps a spec type to a Python annotation.
+ *
+ * Type parameters are erased to `Any`, since NewType cannot be generic.
+ *
+ * @param type - The type as written in the spec.
+ * @param typeParams - Names of the witness's type parameters.
+ * @returns The Python annotation.
+ * @throws InvalidBaseTypeError if the type has unbalanced brackets.
+ *
+ * @example
+ * toPythonType('Vec<u8>', new Set());          // 'list[int]'
+ * toPythonType('HashMap<String, T>', new Set(['T'])); // 'dict[str, Any]'
+ */
+export function toPythonType(type: string, typeParams: ReadonlySet<string> = new Set()): string {
+  const trimmed = stripReference(type.trim());
+  validateBrackets(trimmed);
+
+  if (typeParams.has(trimmed)) {
+    return 'Any';
+  }
+  if (INTEGER_TYPES.has(trimmed)) {
+    return 'int';
+  }
+  if (FLOAT_TYPES.has(trimmed)) {
+    return 'float';
+  }
+  if (STRING_TYPES.has(trimmed)) {
+    return 'str';
+  }
+  if (BOOL_TYPES.has(trimmed)) {
+    return 'bool';
+  }
+
+  if (trimmed.endsWith('[]')) {
+    return `list[${toPythonType(trimmed.slice(0, -2), typeParams)}]`;
+  }
+
+  if (trimmed.startsWith('(') && trimmed.endsWith(')')) {
+    const items = splitArguments(trimmed.slice(1, -1)).map((t) => toPythonType(t, typeParams));
+    return items.length > 0 ? `tuple[${items.join(', ')}]` : 'None';
+  }
+
+  const generic = /^([A-Za-z_][A-Za-z0-9_:.]*)\s*[<[]([\s\S]*)[>\]]$/.exec(trimmed);
+  if (generic !== null) {
+    const head = (generic[1] ?? '').split('::').pop() ?? '';
+    const args = splitArguments(generic[2] ?? '').map((t) => toPythonType(t, typeParams));
+    if (head === 'Option' || head === 'Optional') {
+      return `Optional[${args.join(', ')}]`;
+    }
+    const container = CONTAINER_TYPES.get(head);
+    if (container === '') {
+      return args[0] ?? 'Any';
+    }
+    return `${container ?? head}[${args.join(', ')}]`;
+  }
+
+  return trimmed;
+}
+
+/**
+ * Checks that a Python annotation can be the base of a NewType, which
+ * requires a class (not `Any`, `Optional[...]`, or a union).
+ */
+function validateNewTypeBase(baseType: string): void {
+  if (baseType === '' || baseType === 'Any' || baseType === 'None') {
+    throw new InvalidBaseTypeError(baseType, 'NewType requires a class base type');
+  }
+  if (baseType.startsWith('Optional[') || baseType.includes('|')) {
+    throw new InvalidBaseTypeError(baseType, 'NewType cannot wrap an optional or union type');
+  }
+}
+
+/**
+ * Converts a type name to snake_case (e.g., "NonEmptyList" to "non_empty_list").
+ */
+function toSnakeCase(name: string): string {
+  return name
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase();
+}
+
+/**
+ * Translates a spec invariant's formal expression into a Python expression
+ * over `value`.
+ *
+ * Spec invariants are written against the witness (`self.0 >= 0`,
+ * `len(self) >= 1`) in a C-like notation; operators are rewritten to
+ * Python (`&&` to `and`, `!` to `not`). Chained comparisons are kept, since
+ * Python supports them natively. Quantified invariants (`forall`, `exists`,
+ * `implies`) return null.
+ *
+ * @param formal - The formal expression from the spec.
+ * @returns The Python expression, or null if the invariant cannot be checked.
+ *
+ * @example
+ * translateInvariant('self.0 > 0 && self.0.len() < 10');
+ * // Returns 'value > 0 and len(value) < 10'
+ */
+export function translateInvariant(formal: string): string | null {
+  let expr = formal.trim();
+  if (expr === '' || /\b(?:forall|exists|implies)\b/.test(expr)) {
+    return null;
+  }
+
+  expr = expr
+    .replace(/\bself\.0\b/g, 'value')
+    .replace(/\bself\b/g, 'value')
+    .replace(/\b([A-Za-z_][\w.]*)\.len\(\)/g, 'len($1)')
+    .replace(/\b([A-Za-z_][\w.]*)\.length\b/g, 'len($1)')
+    .replace(/===/g, '==')
+    .replace(/!==/g, '!=')
+    .replace(/\s*&&\s*/g, ' and ')
+    .replace(/\s*\|\|\s*/g, ' or ')
+    .replace(/!(?!=)\s*/g, 'not ')
+    .replace(/\btrue\b/g, 'True')
+    .replace(/\bfalse\b/g, 'False');
+
+  return expr;
+}
+
+/**
+ * Converts a spec witness to a PythonWitnessDefinition.
+ *
+ * Invariants with a translatable formal expression are combined into the
+ * validator; the rest are kept as documentation.
+ *
+ * @param witness - The witness from spec.toml.
+ * @returns The Python witness definition.
+ * @throws InvalidBaseTypeError if the witness has no usable base type.
+ */
+export function specWitnessToPythonDefinition(witness: SpecWitness): PythonWitnessDefinition {
+  const specBaseType = witness.base_type?.trim() ?? '';
+  if (specBaseType === '') {
+    throw new InvalidBaseTypeError('', `witness ${witness.name} has no base_type`);
+  }
+
+  const typeParameters = (witness.type_params ?? [])
+    .map((param) => param.name)
+    .filter((name): name is string => name !== undefined && name !== '');
+  const baseType = toPythonType(specBaseType, new Set(typeParameters));
+  validateNewTypeBase(baseType);
+
+  const checked: string[] = [];
+  const unchecked: string[] = [];
+  for (const invariant of witness.invariants) {
+    const formal = invariant.formal?.trim() ?? '';
+    const translated =
+      invariant.testable !== false && formal !== '' ? translateInvariant(formal) : null;
+    if (translated !== null) {
+      checked.push(/\bor\b/.test(translated) ? `(${translated})` : translated);
+    } else {
+      const text = invariant.description ?? formal;
+      if (text !== '') {
+        unchecked.push(text);
+      }
+    }
+  }
+
+  return {
+    name: witness.name,
+    baseType,
+    ...(typeParameters.length > 0 ? { typeParameters } : {}),
+    ...(checked.length > 0 ? { invariant: checked.join(' and ') } : {}),
+    ...(unchecked.length > 0 ? { uncheckedInvariants: unchecked } : {}),
+    ...(witness.description !== undefined ? { description: witness.description } : {}),
+  };
+}
+
+/**
+ * Generates a NewType with validator and constructor functions.
+ *
+ * `is_<name>(value)` checks the invariant and `make_<name>(value)` returns
+ * the wrapped value or raises ValueError. NewType has no runtime cost, so
+ * values created by calling the NewType directly are not checked; the
+ * constructor is the validated entry point.
+ *
+ * @param witness - The witness definition.
+ * @param options - Options for code generation.
+ * @returns The Python source for the NewType and its functions.
+ * @throws InvalidBaseTypeError if the base type is invalid.
+ *
+ * @example
+ * generateNewType({ name: 'NonNegative', baseType: 'int', invariant: 'value >= 0' });
+ * // Returns code for:
+ * //   NonNegative = NewType("NonNegative", int)
+ * //   def is_non_negative(value: int) -> bool: ...
+ * //   def make_non_negative(value: int) -> NonNegative: ...
+ */
+export function generateNewType(
+  witness: PythonWitnessDefinition,
+  options: PythonWitnessOptions = {}
+): string {
+  validateNewTypeBase(witness.baseType);
+
+  const { includeDocs = true } = options;
+  const { name, baseType } = witness;
+  const snake = toSnakeCase(name);
+  const lines: string[] = [`${name} = NewType("${name}", ${baseType})`];
+
+  if (includeDocs) {
+    const doc: string[] = [];
+    if (witness.description !== undefined) {
+      doc.push(witness.description);
+    }
+    if (witness.uncheckedInvariants !== undefined) {
+      if (doc.length > 0) {
+        doc.push('');
+      }
+      doc.push('Invariants not checked at runtime:');
+      doc.push(...witness.uncheckedInvariants.map((text) => `- ${text}`));
+    }
+    if (doc.length > 0) {
+      lines.push(...docstring(doc, ''));
+    }
+  }
+
+  lines.push('', '');
+  lines.push(`def is_${snake}(value: ${baseType}) -> bool:`);
+  if (includeDocs) {
+    lines.push(`    """Returns whether \`\`value\`\` satisfies the ${name} invariant."""`);
+  }
+  lines.push(`    return ${witness.invariant ?? 'True'}`);
+
+  lines.push('', '');
+  lines.push(`def make_${snake}(value: ${baseType}) -> ${name}:`);
+  if (includeDocs) {
+    const doc = [`Validates \`\`value\`\` and wraps it as ${name}.`];
+    if (witness.invariant !== undefined) {
+      doc.push('', 'Raises:', `    ValueError: If \`\`${witness.invariant}\`\` does not hold.`);
+    }
+    lines.push(...docstring(doc, '    '));
+  }
+  if (witness.invariant !== undefined) {
+    lines.push(`    if not is_${snake}(value):`);
+    lines.push(`        raise ValueError(f"invalid ${name}: {value!r}")`);
+  }
+  lines.push(`    return ${name}(value)`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Numeric or length bounds extracted from an invariant.
+ */
+interface InvariantBounds {
+  min?: string;
+  max?: string;
+  minExclusive?: boolean;
+  maxExclusive?: boolean;
+}
+
+/**
+ * Extracts bounds on a subject (`value` or `len(value)`) from the
+ * conjuncts of an invariant.
+ *
+ * @param invariant - Python expression over `value`.
+ * @param subject - The bounded expression, as a regex source.
+ */
+function extractBounds(invariant: string | undefined, subject: string): InvariantBounds {
+  const bounds: InvariantBounds = {};
+  if (invariant === undefined) {
+    return bounds;
+  }
+
+  const number = '(-?\\d+(?:\\.\\d+)?)';
+  const setLower = (op: string, value: string): void => {
+    bounds.min = value;
+    bounds.minExclusive = op === '>' || op === '<';
+  };
+  const setUpper = (op: string, value: string): void => {
+    bounds.max = value;
+    bounds.maxExclusive = op === '<' || op === '>';
+  };
+
+  for (const raw of invariant.split(/\s+and\s+/)) {
+    const conjunct = raw.trim();
+    const chained = new RegExp(`^${number}\\s*(<=?)\\s*${subject}\\s*(<=?)\\s*${number}$`).exec(
+      conjunct
+    );
+    if (chained !== null) {
+      setLower(chained[2] ?? '', chained[1] ?? '');
+      setUpper(chained[3] ?? '', chained[4] ?? '');
+      continue;
+    }
+
+    const upper =
+      new RegExp(`^${subject}\\s*(<=?)\\s*${number}$`).exec(conjunct) ??
+      new RegExp(`^${number}\\s*(>=?)\\s*${subject}$`).exec(conjunct);
+    if (upper !== null) {
+      const [op, value] =
+        upper[1]?.startsWith('<') === true ? [upper[1], upper[2]] : [upper[2], upper[1]];
+      setUpper(op ?? '', value ?? '');
+      continue;
+    }
+
+    const lower =
+      new RegExp(`^${subject}\\s*(>=?)\\s*${number}$`).exec(conjunct) ??
+      new RegExp(`^${number}\\s*(<=?)\\s*${subject}$`).exec(conjunct);
+    if (lower !== null) {
+      const [op, value] =
+        lower[1]?.startsWith('>') === true ? [lower[1], lower[2]] : [lower[2], lower[1]];
+      setLower(op ?? '', value ?? '');
+    }
+  }
+  return bounds;
+}
+
+/**
+ * Formats keyword arguments for integer-valued bounds such as sizes,
+ * tightening exclusive bounds by one.
+ */
+function integerBounds(bounds: InvariantBounds, minName: string, maxName: string): string[] {
+  const args: string[] = [];
+  if (bounds.min !== undefined) {
+    const min = Math.ceil(Number(bounds.min)) + (bounds.minExclusive === true ? 1 : 0);
+    args.push(`${minName}=${String(minName === 'min_size' ? Math.max(0, min) : min)}`);
+  }
+  if (bounds.max !== undefined) {
+    const max = Math.floor(Number(bounds.max)) - (bounds.maxExclusive === true ? 1 : 0);
+    args.push(`${maxName}=${String(max)}`);
+  }
+  return args;
+}
+
+/**
+ * Picks a hypothesis strategy expression for a Python annotation.
+ *
+ * @param type - The Python annotation.
+ * @param invariant - Invariant over `value`, used to bound the top-level type.
+ * @returns The strategy expression.
+ */
+function strategyFor(type: string, invariant?: string): string {
+  const trimmed = type.trim();
+
+  if (trimmed === 'Any') {
+    return 'elements';
+  }
+  if (trimmed === 'int') {
+    const args = integerBounds(extractBounds(invariant, 'value'), 'min_value', 'max_value');
+    return `st.integers(${args.join(', ')})`;
+  }
+  if (trimmed === 'float') {
+    const bounds = extractBounds(invariant, 'value');
+    const args: string[] = [];
+    if (bounds.min !== undefined) {
+      args.push(`min_value=${bounds.min.includes('.') ? bounds.min : `${bounds.min}.0`}`);
+    }
+    if (bounds.max !== undefined) {
+      args.push(`max_value=${bounds.max.includes('.') ? bounds.max : `${bounds.max}.0`}`);
+    }
+    if (bounds.minExclusive === true) {
+      args.push('exclude_min=True');
+    }
+    if (bounds.maxExclusive === true) {
+      args.push('exclude_max=True');
+    }
+    args.push('allow_nan=False', 'allow_infinity=False');
+    return `st.floats(${args.join(', ')})`;
+  }
+  if (trimmed === 'str') {
+    const args = integerBounds(extractBounds(invariant, 'len\\(value\\)'), 'min_size', 'max_size');
+    return `st.text(${args.join(', ')})`;
+  }
+  if (trimmed === 'bool') {
+    return 'st.booleans()';
+  }
+  if (trimmed === 'None') {
+    return 'st.none()';
+  }
+
+  const generic = /^([A-Za-z_][A-Za-z0-9_.]*)\[([\s\S]*)\]$/.exec(trimmed);
+  if (generic !== null) {
+    const head = generic[1] ?? '';
+    const args = splitArguments(generic[2] ?? '');
+    const sizes = integerBounds(extractBounds(invariant, 'len\\(value\\)'), 'min_size', 'max_size');
+    const inner = args.map((arg) => strategyFor(arg));
+    switch (head) {
+      case 'list':
+        return `st.lists(${[inner[0] ?? 'elements', ...sizes].join(', ')})`;
+      case 'set':
+        return `st.sets(${[inner[0] ?? 'elements', ...sizes].join(', ')})`;
+      case 'dict':
+        return `st.dictionaries(${[inner[0] ?? 'elements', inner[1] ?? 'elements', ...sizes].join(', ')})`;
+      case 'tuple':
+        return `st.tuples(${inner.join(', ')})`;
+      case 'Optional':
+        return `st.none() | ${inner[0] ?? 'elements'}`;
+    }
+  }
+
+  return `st.from_type(${trimmed})`;
+}
+
+/**
+ * Generates a hypothesis strategy that produces valid witness values.
+ *
+ * The base strategy is narrowed using bounds found in the invariant
+ * (numeric ranges, string and collection sizes), then filtered through the
+ * witness validator so that every generated value satisfies the full
+ * invariant. Generic witnesses take an `elements` strategy for their erased
+ * type parameters.
+ *
+ * @param witness - The witness definition.
+ * @param options - Options for code generation.
+ * @returns The Python source for a `<name>_strategy` function.
+ * @throws InvalidBaseTypeError if the base type is invalid.
+ *
+ * @example
+ * generateHypothesisStrategy({ name: 'Percentage', baseType: 'float',
+ *   invariant: '0 <= value <= 100' });
+ * // Returns code generating:
+ * //   st.floats(min_value=0.0, max_value=100.0, ...).filter(is_percentage).map(Percentage)
+ */
+export function generateHypothesisStrategy(
+  witness: PythonWitnessDefinition,
+  options: PythonWitnessOptions = {}
+): string {
+  validateNewTypeBase(witness.baseType);
+
+  const { includeDocs = true } = options;
+  const { name } = witness;
+  const snake = toSnakeCase(name);
+  const generic = (witness.typeParameters ?? []).length > 0;
+
+  let body = strategyFor(witness.baseType, witness.invariant);
+  if (witness.invariant !== undefined) {
+    body += `.filter(is_${snake})`;
+  }
+  body += `.map(${name})`;
+
+  const params = generic ? 'elements: st.SearchStrategy[Any]' : '';
+  const lines = [`def ${snake}_strategy(${params}) -> st.SearchStrategy[${name}]:`];
+  if (includeDocs) {
+    const doc = [`Generates valid ${name} values.`];
+    if (generic) {
+      const names = (witness.typeParameters ?? []).join(', ');
+      doc.push('', 'Args:', `    elements: Strategy for values of type parameter ${names}.`);
+    }
+    lines.push(...docstring(doc, '    '));
+  }
+  lines.push(`    return ${body}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Generates a Python module with NewTypes and validators for spec witnesses.
+ *
+ * @param witnesses - The witnesses from spec.toml.
+ * @param options - Options for code generation.
+ * @returns The Python module source.
+ */
+export function generatePythonWitnessModule(
+  witnesses: readonly SpecWitness[],
+  options: PythonWitnessOptions = {}
+): string {
+  const definitions = witnesses.map(specWitnessToPythonDefinition);
+  const sections: string[] = ['"""Type witnesses generated from the specification."""', ''];
+
+  const typingImports = ['NewType'];
+  const baseTypes = definitions.map((d) => d.baseType).join(' ');
+  if (/\bAny\b/.test(baseTypes)) {
+    typingImports.unshift('Any');
+  }
+  if (/\bOptional\[/.test(baseTypes)) {
+    typingImports.push('Optional');
+  }
+  sections.push(`from typing import ${typingImports.join(', ')}`);
+
+  for (const definition of definitions) {
+    sections.push('', '', generateNewType(definition, options));
+  }
+  sections.push('');
+
+  return sections.join('\n');
+}
+
+/**
+ * Generates a Python module with hypothesis strategies for spec witnesses.
+ *
+ * Strategies live in their own module, normally under the test tree, since
+ * hypothesis is a test dependency.
+ *
+ * @param witnesses - The witnesses from spec.toml.
+ * @param options - Options for code generation.
+ * @returns The Python module source.
+ */
+export function generateHypothesisModule(
+  witnesses: readonly SpecWitness[],
+  options: HypothesisModuleOptions = {}
+): string {
+  const { witnessModule = 'witnesses', ...witnessOptions } = options;
+  const definitions = witnesses.map(specWitnessToPythonDefinition);
+  const sections: string[] = [
+    '"""Hypothesis strategies for the specification\'s type witnesses."""',
+    '',
+  ];
+
+  const strategies = definitions.map((d) => generateHypothesisStrategy(d, witnessOptions));
+  if (strategies.some((code) => /\bAny\b/.test(code))) {
+    sections.push('from typing import Any', '');
+  }
+  sections.push('from hypothesis import strategies as st');
+
+  const names = definitions.flatMap((d) =>
+    d.invariant !== undefined ? [d.name, `is_${toSnakeCase(d.name)}`] : [d.name]
+  );
+  if (names.length > 0) {
+    sections.push('', `from ${witnessModule} import ${names.join(', ')}`);
+  }
+
+  for (const strategy of strategies) {
+    sections.push('', '', strategy);
+  }
+  sections.push('');
+
+  return sections.join('\n');
+}
+
+/**
+ * Formats docstring lines at the given indentation.
+ */
+function docstring(lines: string[], indent: string): string[] {
+  if (lines.length === 1) {
+    return [`${indent}"""${lines[0] ?? ''}"""`];
+  }
+  return [
+    `${indent}"""${lines[0] ?? ''}`,
+    ...lines.slice(1).map((line) => (line === '' ? '' : `${indent}${line}`)),
+    `${indent}"""`,
+  ];
+}
@@ -0,0 +1,234 @@
+/**
+ * Tests for Rust source scanning and body injection.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findFunctionItems,
+  findTodoFunctionsInSource,
+  injectFunctionBody,
+  maskRustSource,
+  validateBodySyntax,
+  FunctionNotFoundError,
+  InvalidBodySyntaxError,
+} from './ast.js';
+
+const ACCOUNT_SOURCE = `use std::fmt;
+
+/// A bank account.
+pub struct Account {
+    balance: i64,
+}
+
+impl fmt::Display for Account {
+    fn fmt(&self, f: &mut fmt::Formatter<'_>) -> fmt::Result {
+        write!(f, "{}", '}')
+    }
+}
+
+impl Account {
+    /// Deposits money into the account.
+    ///
+    /// Returns an error for negative amounts.
+    #[inline]
+    pub fn deposit(&mut self, amount: i64) -> Result<(), String> {
+        todo!("deposit { }")
+    }
+
+    pub fn balance(&self) -> i64 {
+        self.balance
+    }
+}
+
+pub async fn sync_all<'a>(accounts: &'a [Account]) -> usize {
+    todo!();
+}
+`;
+
+describe('maskRustSource', () => {
+  it('should blank comments and literal contents while preserving offsets', () => {
+    const source = "let s = \"a { b\"; // c }\nlet c = '}'; /* x /* y */ z */ let l: &'a str;";
+
+    const { masked, error } = maskRustSource(source);
+
+    expect(error).toBeUndefined();
+    expect(masked).toHaveLength(source.length);
+    expect(masked).not.toContain('{');
+    expect(masked).not.toContain('}');
+    expect(masked).toContain("&'a str");
+    expect(masked.split('\n')).toHaveLength(2);
+  });
+
+  it('should blank raw string contents', () => {
+    const { masked } = maskRustSource('let s = r#"todo!() "quoted" }"#;');
+
+    expect(masked).not.toContain('todo!');
+    expect(masked).not.toContain('}');
+  });
+
+  it('should report unterminated literals and comments', () => {
+    expect(maskRustSource('let s = "open;').error).toBe('unterminated string literal');
+    expect(maskRustSource('/* open /* nested */').error).toBe('unterminated block comment');
+  });
+});
+
+describe('findFunctionItems', () => {
+  it('should locate functions with their impl type and doc comments', () => {
+    const items = findFunctionItems(ACCOUNT_SOURCE);
+
+    expect(items.map((item) => [item.name, item.implType])).toEqual([
+      ['fmt', 'Account'],
+      ['deposit', 'Account'],
+      ['balance', 'Account'],
+      ['sync_all', undefined],
+    ]);
+    expect(items[1]?.docComment).toBe(
+      'Deposits money into the account.\n\nReturns an error for negative amounts.'
+    );
+    expect(items[1]?.signature).toBe(
+      'pub fn deposit(&mut self, amount: i64) -> Result<(), String>'
+    );
+  });
+
+  it('should ignore functions inside comments and bodiless declarations', () => {
+    const source = `
+/* fn hidden() { todo!() } */
+trait Store {
+    fn load(&self) -> u32;
+}
+`;
+
+    expect(findFunctionItems(source)).toEqual([]);
+  });
+
+  it('should not treat impl Trait arguments as impl blocks', () => {
+    const source = `
+fn apply(f: impl Fn(i32) -> i32) -> i32 {
+    fn inner() -> i32 { 1 }
+    f(inner())
+}
+`;
+
+    const items = findFunctionItems(source);
+
+    expect(items.map((item) => item.name)).toEqual(['apply', 'inner']);
+    expect(items.every((item) => item.implType === undefined)).toBe(true);
+  });
+});
+
+describe('findTodoFunctionsInSource', () => {
+  it('should find functions whose body is only todo!()', () => {
+    const todos = findTodoFunctionsInSource(ACCOUNT_SOURCE, '/crate/src/lib.rs');
+
+    expect(todos).toEqual([
+      {
+        name: 'deposit',
+        filePath: '/crate/src/lib.rs',
+        line: 19,
+        signature: 'pub fn deposit(&mut self, amount: i64) -> Result<(), String>',
+        implType: 'Account',
+        hasTodoBody: true,
+      },
+      {
+        name: 'sync_all',
+        filePath: '/crate/src/lib.rs',
+        line: 28,
+        signature: "pub async fn sync_all<'a>(accounts: &'a [Account]) -> usize",
+        hasTodoBody: true,
+      },
+    ]);
+  });
+
+  it('should ignore todo!() in comments, strings, and partial bodies', () => {
+    const source = `
+fn commented() -> u32 {
+    // todo!()
+    1
+}
+
+fn in_string() -> &'static str {
+    "todo!()"
+}
+
+fn partial(x: u32) -> u32 {
+    if x == 0 {
+        return 0;
+    }
+    todo!()
+}
+`;
+
+    expect(findTodoFunctionsInSource(source, 'lib.rs')).toEqual([]);
+  });
+});
+
+describe('validateBodySyntax', () => {
+  it('should accept balanced bodies', () => {
+    expect(validateBodySyntax('let v = vec![1, 2];\nv.iter().map(|x| { x + 1 }).sum()')).toBe(
+      undefined
+    );
+  });
+
+  it('should reject unbalanced delimiters', () => {
+    expect(validateBodySyntax('if x { 1')).toBe("unclosed '{'");
+    expect(validateBodySyntax('foo(1]')).toBe("unexpected ']' at line 1");
+  });
+});
+
+describe('injectFunctionBody', () => {
+  it('should replace the body and re-indent it', () => {
+    const updated = injectFunctionBody(
+      ACCOUNT_SOURCE,
+      'deposit',
+      `
+        if amount < 0 {
+            return Err("negative amount".into());
+        }
+        self.balance += amount;
+        Ok(())
+      `
+    );
+
+    expect(updated).toContain(`    /// Returns an error for negative amounts.
+    #[inline]
+    pub fn deposit(&mut self, amount: i64) -> Result<(), String> {
+        if amount < 0 {
+            return Err("negative amount".into());
+        }
+        self.balance += amount;
+        Ok(())
+    }
+
+    pub fn balance(&self) -> i64 {`);
+    expect(findTodoFunctionsInSource(updated, 'lib.rs').map((t) => t.name)).toEqual(['sync_all']);
+  });
+
+  it('should disambiguate methods by impl type', () => {
+    const source = `
+impl A {
+    fn run(&self) -> u8 { todo!() }
+}
+
+impl B {
+    fn run(&self) -> u8 { todo!() }
+}
+`;
+
+    const updated = injectFunctionBody(source, 'run', '2', { implType: 'B' });
+
+    expect(updated).toContain('impl A {\n    fn run(&self) -> u8 { todo!() }');
+    expect(updated).toContain('impl B {\n    fn run(&self) -> u8 {\n        2\n    }');
+  });
+
+  it('should throw for unknown functions', () => {
+    expect(() =>
+      injectFunctionBody(ACCOUNT_SOURCE, 'withdraw', '0', { filePath: 'src/lib.rs' })
+    ).toThrow(FunctionNotFoundError);
+  });
+
+  it('should throw for invalid bodies without changing anything', () => {
+    expect(() => injectFunctionBody(ACCOUNT_SOURCE, 'deposit', 'Ok(()')).toThrow(
+      InvalidBodySyntaxError
+    );
+  });
+});
@@ -0,0 +1,582 @@
+/**
+ * Lexical analysis of Rust source for TODO detection and body injection.
+ *
+ * Rust sources are scanned without a full parser: comments and literals are
+ * masked out so that braces, `fn` keywords, and `todo!()` markers are only
+ * matched in code, then function items are located by delimiter matching.
+ *
+ * @module adapters/rust/ast
+ */
+
+/**
+ * Represents a Rust function whose body is a `todo!()` placeholder.
+ */
+export interface RustTodoFunction {
+  /** The function name */
+  name: string;
+  /** The absolute file path where the function is defined */
+  filePath: string;
+  /** The line number where the function starts (1-indexed) */
+  line: number;
+  /** The function signature as written, with whitespace collapsed */
+  signature: string;
+  /** The self type of the enclosing `impl` block, for methods */
+  implType?: string;
+  /** Whether the function body is a TODO marker */
+  hasTodoBody: true;
+}
+
+/**
+ * A function item located in Rust source.
+ */
+export interface RustFunctionItem {
+  /** The function name */
+  name: string;
+  /** The line number where the function starts (1-indexed) */
+  line: number;
+  /** The function signature as written, with whitespace collapsed */
+  signature: string;
+  /** The self type of the enclosing `impl` block, for methods */
+  implType?: string;
+  /** Doc comment text (`///` lines) preceding the function, if any */
+  docComment?: string;
+  /** Offset of the first character of the item (after attributes and docs) */
+  start: number;
+  /** Offset of the body's opening brace */
+  bodyStart: number;
+  /** Offset just past the body's closing brace */
+  bodyEnd: number;
+}
+
+/**
+ * Error thrown when attempting to inject into a function that doesn't exist.
+ */
+export class FunctionNotFoundError extends Error {
+  constructor(functionName: string, filePath: string) {
+    super(`Function '${functionName}' not found in file: ${filePath}`);
+    this.name = 'FunctionNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when the injected body contains unbalanced delimiters or
+ * unterminated literals.
+ */
+export class InvalidBodySyntaxError extends Error {
+  constructor(functionName: string, originalMessage: string) {
+    super(`Invalid body syntax for function '${functionName}': ${originalMessage}`);
+    this.name = 'InvalidBodySyntaxError';
+  }
+}
+
+/**
+ * Matches a body consisting solely of a `todo!()` invocation.
+ * Applied to masked text, so string arguments are already blanked.
+ */
+const TODO_BODY_PATTERN = /^todo!\s*\([\s\S]*\)\s*;?$/;
+
+/**
+ * Matches the start of a function item in masked text.
+ */
+const FN_PATTERN = /\bfn\s+([A-Za-z_][A-Za-z0-9_]*)/g;
+
+/**
+ * Matches the start of an `impl` block in masked text.
+ */
+const IMPL_PATTERN = /\bimpl\b/g;
+
+/**
+ * Keywords that may precede `fn` in an item declaration.
+ */
+const FN_QUALIFIERS = new Set(['pub', 'const', 'async', 'unsafe', 'extern', 'default']);
+
+/**
+ * Result of masking Rust source.
+ */
+interface MaskResult {
+  /** Source with comments and literal contents replaced by spaces */
+  masked: string;
+  /** Description of the first lexical error, if any */
+  error?: string;
+}
+
+/**
+ * Replaces comments and the contents of string and character literals with
+ * spaces, preserving offsets and newlines.
+ *
+ * Handles nested block comments, raw strings (`r#"..."#`), byte strings, and
+ * distinguishes character literals from lifetimes.
+ *
+ * @param source - Rust source text.
+ * @returns The masked text and the first lexical error encountered.
+ */
+export function maskRustSource(source: string): MaskResult {
+  const out = source.split('');
+  const blank = (from: number, to: number): void => {
+    for (let k = from; k < to && k < out.length; k++) {
+      // eslint-disable-next-line security/detect-object-injection -- bounded numeric index
+      if (out[k] !== '\n') {
+        // eslint-disable-next-line security/detect-object-injection -- bounded numeric index
+        out[k] = ' ';
+      }
+    }
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const ch = source.charAt(i);
+    const next = source.charAt(i + 1);
+
+    if (ch === '/' && next === '/') {
+      const end = source.indexOf('\n', i);
+      const stop = end === -1 ? source.length : end;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+
+    if (ch === '/' && next === '*') {
+      let depth = 1;
+      let j = i + 2;
+      while (j < source.length && depth > 0) {
+        if (source.startsWith('/*', j)) {
+          depth++;
+          j += 2;
+        } else if (source.startsWith('*/', j)) {
+          depth--;
+          j += 2;
+        } else {
+          j++;
+        }
+      }
+      blank(i, j);
+      if (depth > 0) {
+        return { masked: out.join(''), error: 'unterminated block comment' };
+      }
+      i = j;
+      continue;
+    }
+
+    // Raw strings: r"..." r#"..."# br#"..."#
+    const raw = /^b?r(#*)"/.exec(source.slice(i, i + 260));
+    if (raw !== null && !isIdentChar(source.charAt(i - 1))) {
+      const hashes = raw[1] ?? '';
+      const open = i + raw[0].length;
+      const close = source.indexOf(`"${hashes}`, open);
+      if (close === -1) {
+        blank(open, source.length);
+        return { masked: out.join(''), error: 'unterminated raw string literal' };
+      }
+      blank(open, close);
+      i = close + 1 + hashes.length;
+      continue;
+    }
+
+    if (ch === '"') {
+      let j = i + 1;
+      while (j < source.length && source.charAt(j) !== '"') {
+        j += source.charAt(j) === '\\' ? 2 : 1;
+      }
+      blank(i + 1, j);
+      if (j >= source.length) {
+        return { masked: out.join(''), error: 'unterminated string literal' };
+      }
+      i = j + 1;
+      continue;
+    }
+
+    if (ch === "'") {
+      const literalEnd = charLiteralEnd(source, i);
+      if (literalEnd !== null) {
+        blank(i + 1, literalEnd);
+        i = literalEnd + 1;
+        continue;
+      }
+      // A lifetime or label: leave it in place
+    }
+
+    i++;
+  }
+
+  return { masked: out.join('') };
+}
+
+/**
+ * Returns the offset of the closing quote of a character literal starting at
+ * `start`, or null if the quote begins a lifetime.
+ */
+function charLiteralEnd(source: string, start: number): number | null {
+  if (source.charAt(start + 1) === '\\') {
+    const close = source.indexOf("'", start + 3);
+    return close === -1 ? null : close;
+  }
+  const codePoint = source.codePointAt(start + 1);
+  if (codePoint === undefined) {
+    return null;
+  }
+  const width = codePoint > 0xffff ? 2 : 1;
+  return source.charAt(start + 1 + width) === "'" ? start + 1 + width : null;
+}
+
+function isIdentChar(ch: string): boolean {
+  return /[A-Za-z0-9_]/.test(ch);
+}
+
+/**
+ * Finds the offset of the delimiter closing the one at `open`.
+ *
+ * @param masked - Masked source text.
+ * @param open - Offset of an opening `{`, `(`, or `[`.
+ * @returns Offset of the matching closing delimiter, or -1 if unbalanced.
+ */
+function findMatchingClose(masked: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < masked.length; i++) {
+    const ch = masked.charAt(i);
+    if (ch === '{' || ch === '(' || ch === '[') {
+      depth++;
+    } else if (ch === '}' || ch === ')' || ch === ']') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Finds the end of a signature: the body's opening brace, or a `;` for
+ * bodiless declarations.
+ *
+ * @returns Offset of the `{` or `;`, or -1 if neither is found.
+ */
+function findSignatureEnd(masked: string, from: number): number {
+  let depth = 0;
+  for (let i = from; i < masked.length; i++) {
+    const ch = masked.charAt(i);
+    if (ch === '(' || ch === '[') {
+      depth++;
+    } else if (ch === ')' || ch === ']') {
+      depth--;
+      if (depth < 0) {
+        return -1;
+      }
+    } else if (depth === 0 && (ch === '{' || ch === ';')) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Walks back from the `fn` keyword over qualifiers such as `pub(crate)`,
+ * `async`, `unsafe`, and `extern "C"` to the start of the item.
+ */
+function findItemStart(masked: string, fnOffset: number): number {
+  let start = fnOffset;
+  for (;;) {
+    const before = masked.slice(0, start).trimEnd();
+    const visibility = /pub\s*\([^()]*\)$/.exec(before);
+    if (visibility !== null) {
+      start = before.length - visibility[0].length;
+      continue;
+    }
+    // Masked ABI strings keep their quotes: extern "   "
+    const abi = /extern\s+"[^"]*"$/.exec(before);
+    if (abi !== null) {
+      start = before.length - abi[0].length;
+      continue;
+    }
+    const word = /[A-Za-z_][A-Za-z0-9_]*$/.exec(before);
+    if (word !== null && FN_QUALIFIERS.has(word[0])) {
+      start = before.length - word[0].length;
+      continue;
+    }
+    return start;
+  }
+}
+
+/**
+ * Collects the `///` doc comment lines directly above an item, skipping
+ * attributes such as `#[inline]`.
+ */
+function collectDocComment(source: string, itemStart: number): string | undefined {
+  const lines = source.slice(0, itemStart).split('\n');
+  lines.pop(); // Text on the item's own line before it
+  const docs: string[] = [];
+  for (let i = lines.length - 1; i >= 0; i--) {
+    // eslint-disable-next-line security/detect-object-injection -- bounded numeric index
+    const line = (lines[i] ?? '').trim();
+    if (line.startsWith('///')) {
+      docs.unshift(line.replace(/^\/\/\/ ?/, ''));
+    } else if (!line.startsWith('#[')) {
+      break;
+    }
+  }
+  return docs.length > 0 ? docs.join('\n') : undefined;
+}
+
+/**
+ * Extracts the self type from an `impl` header such as
+ * `impl<T: Ord> Display for Wrapper<T>` (yielding `Wrapper<T>`).
+ */
+function parseImplType(header: string): string {
+  let rest = header.replace(/^impl\s*/, '');
+  if (rest.startsWith('<')) {
+    let depth = 0;
+    for (let i = 0; i < rest.length; i++) {
+      const ch = rest.charAt(i);
+      if (ch === '<') {
+        depth++;
+      } else if (ch === '>' && rest.charAt(i - 1) !== '-') {
+        depth--;
+        if (depth === 0) {
+          rest = rest.slice(i + 1);
+          break;
+        }
+      }
+    }
+  }
+  const forMatch = /\bfor\s+([\s\S]*)$/.exec(rest);
+  const selfType = forMatch?.[1] ?? rest;
+  return selfType
+    .replace(/\bwhere\b[\s\S]*$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Locates the ranges of all `impl` blocks in masked source.
+ */
+function findImplBlocks(masked: string): { start: number; end: number; selfType: string }[] {
+  const blocks: { start: number; end: number; selfType: string }[] = [];
+  IMPL_PATTERN.lastIndex = 0;
+  let match;
+  while ((match = IMPL_PATTERN.exec(masked)) !== null) {
+    // Skip `impl Trait` in argument and return position
+    const before = masked.slice(0, match.index).trimEnd();
+    if (before !== '' && !/[;{}\]]$|\b(?:unsafe|default)$/.test(before)) {
+      continue;
+    }
+    const open = findSignatureEnd(masked, match.index);
+    if (open === -1 || masked.charAt(open) !== '{') {
+      continue;
+    }
+    const close = findMatchingClose(masked, open);
+    if (close === -1) {
+      continue;
+    }
+    blocks.push({
+      start: open,
+      end: close,
+      selfType: parseImplType(masked.slice(match.index, open)),
+    });
+  }
+  return blocks;
+}
+
+/**
+ * Computes the 1-indexed line number of an offset.
+ */
+function lineOf(source: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) {
+    if (source.charAt(i) === '\n') {
+      line++;
+    }
+  }
+  return line;
+}
+
+/**
+ * Finds every function item with a body in Rust source.
+ *
+ * Bodiless declarations (trait methods without defaults, `extern` blocks)
+ * are skipped, as are `fn` pointer types.
+ *
+ * @param source - Rust source text.
+ * @returns The function items in source order.
+ *
+ * @example
+ * findFunctionItems('pub fn add(a: i32, b: i32) -> i32 { a + b }');
+ * // Returns [{ name: 'add', signature: 'pub fn add(a: i32, b: i32) -> i32', ... }]
+ */
+export function findFunctionItems(source: string): RustFunctionItem[] {
+  const { masked } = maskRustSource(source);
+  const implBlocks = findImplBlocks(masked);
+  const items: RustFunctionItem[] = [];
+
+  FN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = FN_PATTERN.exec(masked)) !== null) {
+    const name = match[1] ?? '';
+    const fnOffset = match.index;
+    const bodyStart = findSignatureEnd(masked, fnOffset);
+    if (bodyStart === -1 || masked.charAt(bodyStart) !== '{') {
+      continue;
+    }
+    const close = findMatchingClose(masked, bodyStart);
+    if (close === -1) {
+      continue;
+    }
+
+    const start = findItemStart(masked, fnOffset);
+    const enclosing = implBlocks
+      .filter((block) => block.start < fnOffset && block.end > close)
+      .sort((a, b) => b.start - a.start)[0];
+    const docComment = collectDocComment(source, start);
+
+    items.push({
+      name,
+      line: lineOf(source, start),
+      signature: source.slice(start, bodyStart).replace(/\s+/g, ' ').trim(),
+      ...(enclosing !== undefined ? { implType: enclosing.selfType } : {}),
+      ...(docComment !== undefined ? { docComment } : {}),
+      start,
+      bodyStart,
+      bodyEnd: close + 1,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Checks whether a function item's body is a `todo!()` placeholder.
+ *
+ * @param source - Rust source text containing the item.
+ * @param item - The function item.
+ * @returns True if the body consists solely of a `todo!()` invocation.
+ */
+export function hasTodoBody(source: string, item: RustFunctionItem): boolean {
+  const { masked } = maskRustSource(source.slice(item.bodyStart + 1, item.bodyEnd - 1));
+  return TODO_BODY_PATTERN.test(masked.trim());
+}
+
+/**
+ * Finds all functions with `todo!()` bodies in a Rust source file.
+ *
+ * @param source - Rust source text.
+ * @param filePath - Path of the file, recorded on each result.
+ * @returns The TODO functions in source order.
+ *
+ * @example
+ * findTodoFunctionsInSource('fn add(a: i32, b: i32) -> i32 { todo!() }', '/src/lib.rs');
+ * // Returns [{ name: 'add', filePath: '/src/lib.rs', line: 1, ... }]
+ */
+export function findTodoFunctionsInSource(source: string, filePath: string): RustTodoFunction[] {
+  if (!source.includes('todo!')) {
+    return [];
+  }
+
+  return findFunctionItems(source)
+    .filter((item) => hasTodoBody(source, item))
+    .map((item) => ({
+      name: item.name,
+      filePath,
+      line: item.line,
+      signature: item.signature,
+      ...(item.implType !== undefined ? { implType: item.implType } : {}),
+      hasTodoBody: true as const,
+    }));
+}
+
+/**
+ * Checks that a function body has balanced delimiters and terminated
+ * literals and comments.
+ *
+ * @param body - The body text (without surrounding braces).
+ * @returns A description of the problem, or undefined if the body is valid.
+ */
+export function validateBodySyntax(body: string): string | undefined {
+  const { masked, error } = maskRustSource(body);
+  if (error !== undefined) {
+    return error;
+  }
+
+  const stack: string[] = [];
+  const pairs: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+  for (let i = 0; i < masked.length; i++) {
+    const ch = masked.charAt(i);
+    if (ch === '(' || ch === '[' || ch === '{') {
+      stack.push(ch);
+    } else if (ch === ')' || ch === ']' || ch === '}') {
+      // eslint-disable-next-line security/detect-object-injection -- ch is one of three literal keys
+      if (stack.pop() !== pairs[ch]) {
+        return `unexpected '${ch}' at line ${String(lineOf(body, i))}`;
+      }
+    }
+  }
+  const unclosed = stack.pop();
+  if (unclosed !== undefined) {
+    return `unclosed '${unclosed}'`;
+  }
+  return undefined;
+}
+
+/**
+ * Replaces the body of a function in Rust source.
+ *
+ * The signature, attributes, and doc comments are preserved. The new body is
+ * re-indented one level deeper than the function item.
+ *
+ * @param source - Rust source text.
+ * @param functionName - The name of the function to inject into.
+ * @param body - The new function body (without curly braces).
+ * @param options - Disambiguation options.
+ * @param options.filePath - File path for error messages.
+ * @param options.implType - Self type of the enclosing `impl` block, for methods.
+ * @returns The updated source text.
+ * @throws {FunctionNotFoundError} If the function doesn't exist in the source.
+ * @throws {InvalidBodySyntaxError} If the body has unbalanced delimiters.
+ *
+ * @example
+ * injectFunctionBody('fn add(a: i32, b: i32) -> i32 {\n    todo!()\n}', 'add', 'a + b');
+ * // Returns 'fn add(a: i32, b: i32) -> i32 {\n    a + b\n}'
+ */
+export function injectFunctionBody(
+  source: string,
+  functionName: string,
+  body: string,
+  options: { filePath?: string; implType?: string } = {}
+): string {
+  const item = findFunctionItems(source).find(
+    (candidate) =>
+      candidate.name === functionName &&
+      (options.implType === undefined || candidate.implType === options.implType)
+  );
+  if (item === undefined) {
+    throw new FunctionNotFoundError(functionName, options.filePath ?? '<source>');
+  }
+
+  const syntaxError = validateBodySyntax(body);
+  if (syntaxError !== undefined) {
+    throw new InvalidBodySyntaxError(functionName, syntaxError);
+  }
+
+  const lineStart = source.lastIndexOf('\n', item.start) + 1;
+  const indent = /^[ \t]*/.exec(source.slice(lineStart))?.[0] ?? '';
+  const bodyIndent = `${indent}    `;
+  const lines = dedent(body).split('\n');
+  const formatted = lines
+    .map((line) => (line.trim() === '' ? '' : `${bodyIndent}${line}`))
+    .join('\n');
+
+  return `${source.slice(0, item.bodyStart)}{\n${formatted}\n${indent}}${source.slice(item.bodyEnd)}`;
+}
+
+/**
+ * Removes common leading indentation and surrounding blank lines.
+ */
+function dedent(text: string): string {
+  const lines = text
+    .replace(/^\s*\n/, '')
+    .trimEnd()
+    .split('\n');
+  const indents = lines
+    .filter((line) => line.trim() !== '')
+    .map((line) => /^[ \t]*/.exec(line)?.[0].length ?? 0);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(common)).join('\n');
+}
@@ -0,0 +1,214 @@
+/**
+ * Tests for the cargo check/test wrapper.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock execa before importing the module under test
+vi.mock('execa', () => ({
+  execa: vi.fn(),
+}));
+
+import { execa } from 'execa';
+import {
+  CargoNotInstalledError,
+  parseCargoDiagnostics,
+  parseCargoTestOutput,
+  runCargoCheck,
+  runCargoTests,
+} from './cargo.js';
+
+const mockExeca = vi.mocked(execa);
+
+/**
+ * Builds a cargo `compiler-message` JSON line.
+ */
+function compilerMessage(
+  level: string,
+  message: string,
+  code: string | null,
+  spans: { file_name: string; line_start: number; column_start: number; is_primary: boolean }[]
+): string {
+  return JSON.stringify({
+    reason: 'compiler-message',
+    package_id: 'path+file:///crate#0.1.0',
+    message: {
+      rendered: `${level}: ${message}`,
+      level,
+      message,
+      code: code !== null ? { code, explanation: null } : null,
+      spans,
+      children: [],
+    },
+  });
+}
+
+const MISMATCHED_TYPES = compilerMessage('error', 'mismatched types', 'E0308', [
+  { file_name: 'src/lib.rs', line_start: 3, column_start: 9, is_primary: false },
+  { file_name: 'src/lib.rs', line_start: 4, column_start: 5, is_primary: true },
+]);
+
+const UNUSED_VARIABLE = compilerMessage('warning', 'unused variable: `x`', 'unused_variables', [
+  { file_name: 'src/lib.rs', line_start: 8, column_start: 9, is_primary: true },
+]);
+
+const ABORTING = compilerMessage('error', 'aborting due to 1 previous error', null, []);
+
+const TEST_OUTPUT = `${UNUSED_VARIABLE}
+{"reason":"compiler-artifact","package_id":"path+file:///crate#0.1.0"}
+${UNUSED_VARIABLE}
+{"reason":"build-finished","success":true}
+
+running 3 tests
+test tests::adds ... FAILED
+test tests::subtracts ... ok
+test tests::slow ... ignored, takes a minute
+
+failures:
+
+---- tests::adds stdout ----
+
+thread 'tests::adds' panicked at src/lib.rs:12:9:
+assertion \`left == right\` failed
+  left: 4
+ right: 3
+note: run with \`RUST_BACKTRACE=1\` environment variable to display a backtrace
+
+
+failures:
+    tests::adds
+
+test result: FAILED. 1 passed; 1 failed; 1 ignored; 0 measured; 0 filtered out; finished in 0.01s
+
+   Doc-tests crate
+
+running 1 test
+test src/lib.rs - add (line 5) ... ok
+
+test result: ok. 1 passed; 0 failed; 0 ignored; 0 measured; 0 filtered out; finished in 0.20s
+`;
+
+function mockCargo(stdout: string, exitCode: number): void {
+  mockExeca.mockResolvedValueOnce({ stdout, exitCode } as never);
+}
+
+describe('parseCargoDiagnostics', () => {
+  it('should map compiler messages to structural errors at their primary span', () => {
+    const errors = parseCargoDiagnostics(
+      [MISMATCHED_TYPES, UNUSED_VARIABLE, ABORTING, 'not json'].join('\n'),
+      '/crate'
+    );
+
+    expect(errors).toEqual([
+      {
+        file: '/crate/src/lib.rs',
+        line: 4,
+        column: 5,
+        code: 'E0308',
+        message: 'mismatched types',
+        severity: 'error',
+      },
+      {
+        file: '/crate/src/lib.rs',
+        line: 8,
+        column: 9,
+        code: 'unused_variables',
+        message: 'unused variable: `x`',
+        severity: 'warning',
+      },
+    ]);
+  });
+
+  it('should report a diagnostic emitted for several targets once', () => {
+    expect(parseCargoDiagnostics(`${UNUSED_VARIABLE}\n${UNUSED_VARIABLE}`)).toHaveLength(1);
+  });
+});
+
+describe('parseCargoTestOutput', () => {
+  it('should parse unit and doc test results with failure messages', () => {
+    const tests = parseCargoTestOutput(TEST_OUTPUT);
+
+    expect(tests.map((t) => [t.name, t.fullName, t.file, t.status])).toEqual([
+      ['adds', 'tests::adds', '', 'failed'],
+      ['subtracts', 'tests::subtracts', '', 'passed'],
+      ['slow', 'tests::slow', '', 'skipped'],
+      ['src/lib.rs - add (line 5)', 'src/lib.rs - add (line 5)', 'src/lib.rs', 'passed'],
+    ]);
+    expect(tests[0]?.error?.message).toBe('assertion `left == right` failed\n  left: 4\n right: 3');
+    expect(tests[0]?.error?.stack).toContain("thread 'tests::adds' panicked at src/lib.rs:12:9:");
+  });
+});
+
+describe('runCargoCheck', () => {
+  beforeEach(() => {
+    mockExeca.mockReset();
+  });
+
+  it('should run cargo check with JSON diagnostics', async () => {
+    mockCargo([MISMATCHED_TYPES, UNUSED_VARIABLE, ABORTING].join('\n'), 101);
+
+    const result = await runCargoCheck('/crate');
+
+    expect(mockExeca).toHaveBeenCalledWith(
+      'cargo',
+      ['check', '--message-format=json', '--all-targets'],
+      expect.objectContaining({ cwd: '/crate', reject: false })
+    );
+    expect(result).toMatchObject({ success: false, errorCount: 1, warningCount: 1 });
+  });
+
+  it('should succeed with only warnings', async () => {
+    mockCargo(UNUSED_VARIABLE, 0);
+
+    const result = await runCargoCheck('/crate', { allTargets: false, package: 'core' });
+
+    expect(mockExeca.mock.calls[0]?.[1]).toEqual(['check', '--message-format=json', '-p', 'core']);
+    expect(result).toMatchObject({ success: true, errorCount: 0, warningCount: 1 });
+  });
+
+  it('should throw when cargo is not installed', async () => {
+    mockExeca.mockResolvedValueOnce({ code: 'ENOENT', failed: true, stdout: '' } as never);
+
+    await expect(runCargoCheck('/crate')).rejects.toThrow(CargoNotInstalledError);
+  });
+});
+
+describe('runCargoTests', () => {
+  beforeEach(() => {
+    mockExeca.mockReset();
+  });
+
+  it('should run cargo test and summarize results', async () => {
+    mockCargo(TEST_OUTPUT, 101);
+
+    const result = await runCargoTests('tests::', { cwd: '/crate' });
+
+    expect(mockExeca.mock.calls[0]?.[1]).toEqual([
+      'test',
+      '--message-format=json',
+      '--no-fail-fast',
+      'tests::',
+      '--',
+      '--color',
+      'never',
+    ]);
+    expect(result).toMatchObject({
+      success: false,
+      totalTests: 4,
+      passedTests: 2,
+      failedTests: 1,
+      skippedTests: 1,
+    });
+    expect(result.diagnostics).toHaveLength(1);
+  });
+
+  it('should report build failures as diagnostics', async () => {
+    mockCargo([MISMATCHED_TYPES, ABORTING].join('\n'), 101);
+
+    const result = await runCargoTests('', { cwd: '/crate' });
+
+    expect(result.success).toBe(false);
+    expect(result.totalTests).toBe(0);
+    expect(result.diagnostics[0]).toMatchObject({ code: 'E0308', severity: 'error' });
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * Cargo wrapper with structured diagnostic and test output.
+ *
+ * Runs `cargo check` and `cargo test` with `--message-format=json` and parses
+ * compiler messages into StructuralError records and libtest output into
+ * the same TestRunResult shape the TypeScript adapter produces.
+ *
+ * @module adapters/rust/cargo
+ */
+
+import { execa } from 'execa';
+import * as path from 'node:path';
+import type { StructuralError } from '../../servers/toolchain/types.js';
+import type { TestResult, TestRunResult, TestStatus } from '../typescript/testrunner.js';
+
+/**
+ * Error thrown when cargo is not found in PATH.
+ */
+export class CargoNotInstalledError extends Error {
+  constructor() {
+    super('cargo not found in PATH. Please install Rust: https://rustup.rs');
+    this.name = 'CargoNotInstalledError';
+  }
+}
+
+/**
+ * Options for running `cargo check`.
+ */
+export interface CargoCheckOptions {
+  /** Also check tests, examples, and benches (--all-targets). Default: true */
+  allTargets?: boolean;
+  /** Package to check in a workspace (-p) */
+  package?: string;
+  /** Timeout in milliseconds. Default: 600000 */
+  timeout?: number;
+}
+
+/**
+ * Result of running `cargo check`.
+ */
+export interface CargoCheckResult {
+  /** Whether the check passed with no errors */
+  success: boolean;
+  /** Compiler errors and warnings */
+  errors: StructuralError[];
+  /** Number of errors */
+  errorCount: number;
+  /** Number of warnings */
+  warningCount: number;
+}
+
+/**
+ * Options for running `cargo test`.
+ */
+export interface CargoTestOptions {
+  /** Working directory (the crate or workspace root) */
+  cwd?: string;
+  /** Package to test in a workspace (-p) */
+  package?: string;
+  /** Timeout in milliseconds. Default: 600000 */
+  timeout?: number;
+}
+
+/**
+ * Result of running `cargo test`.
+ *
+ * Extends the shared TestRunResult with the compiler diagnostics emitted
+ * while building the test binaries, so build failures are reported as
+ * structural errors rather than as an empty test run.
+ */
+export interface CargoTestRunResult extends TestRunResult {
+  /** Compiler errors and warnings from building the tests */
+  diagnostics: StructuralError[];
+}
+
+/**
+ * A compiler message as emitted by `cargo --message-format=json`.
+ */
+interface CargoCompilerMessage {
+  reason?: string;
+  message?: {
+    level?: string;
+    message?: string;
+    code?: { code?: string } | null;
+    spans?: {
+      file_name?: string;
+      line_start?: number;
+      column_start?: number;
+      is_primary?: boolean;
+    }[];
+  };
+}
+
+/**
+ * Parses cargo JSON output into structural errors.
+ *
+ * Only `compiler-message` records with a source span are kept; the primary
+ * span locates the error. Summary messages such as "aborting due to
+ * previous error" have no spans and are skipped. Non-JSON lines (libtest
+ * output, progress) are ignored.
+ *
+ * @param output - Raw stdout from cargo with `--message-format=json`.
+ * @param projectPath - If given, relative file paths are resolved against it.
+ * @returns The structural errors in emission order.
+ */
+export function parseCargoDiagnostics(output: string, projectPath?: string): StructuralError[] {
+  const errors: StructuralError[] = [];
+  const seen = new Set<string>();
+
+  for (const line of output.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{')) {
+      continue;
+    }
+
+    let record: CargoCompilerMessage;
+    try {
+      record = JSON.parse(trimmed) as CargoCompilerMessage;
+    } catch {
+      continue;
+    }
+    if (record.reason !== 'compiler-message' || record.message === undefined) {
+      continue;
+    }
+
+    const message = record.message;
+    const level = message.level ?? 'error';
+    if (level !== 'warning' && !level.startsWith('error')) {
+      continue;
+    }
+    const spans = message.spans ?? [];
+    const span = spans.find((s) => s.is_primary === true) ?? spans[0];
+    if (span === undefined) {
+      continue;
+    }
+
+    const fileName = span.file_name ?? '';
+    const error: StructuralError = {
+      file:
+        projectPath !== undefined && fileName !== '' && !path.isAbsolute(fileName)
+          ? path.join(projectPath, fileName)
+          : fileName,
+      line: span.line_start ?? 0,
+      column: span.column_start ?? 0,
+      code: message.code?.code ?? '',
+      message: message.message ?? '',
+      severity: level === 'warning' ? 'warning' : 'error',
+    };
+
+    // The same diagnostic is reported once per target that includes the file
+    const key = `${error.file}:${String(error.line)}:${String(error.column)}:${error.code}:${error.message}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      errors.push(error);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Runs `cargo check` and returns structured diagnostics.
+ *
+ * @param projectPath - The crate or workspace root.
+ * @param options - Check options.
+ * @returns The check result.
+ * @throws {CargoNotInstalledError} If cargo is not installed.
+ *
+ * @example
+ * const result = await runCargoCheck('./my-crate');
+ * for (const error of result.errors) {
+ *   console.log(`${error.file}:${error.line}:${error.column} - ${error.code}: ${error.message}`);
+ * }
+ */
+export async function runCargoCheck(
+  projectPath: string,
+  options: CargoCheckOptions = {}
+): Promise<CargoCheckResult> {
+  const resolvedProjectPath = path.resolve(projectPath);
+  const args = ['check', '--message-format=json'];
+  if (options.allTargets !== false) {
+    args.push('--all-targets');
+  }
+  if (options.package !== undefined && options.package !== '') {
+    args.push('-p', options.package);
+  }
+
+  const { stdout, exitCode } = await runCargo(args, resolvedProjectPath, options.timeout);
+  const errors = parseCargoDiagnostics(stdout, resolvedProjectPath);
+  const errorCount = errors.filter((e) => e.severity === 'error').length;
+
+  return {
+    success: exitCode === 0 && errorCount === 0,
+    errors,
+    errorCount,
+    warningCount: errors.length - errorCount,
+  };
+}
+
+/**
+ * Matches a libtest result line, e.g. `test math::tests::adds ... ok`.
+ */
+// eslint-disable-next-line security/detect-unsafe-regex -- anchored, applied to single output lines
+const TEST_LINE_PATTERN = /^test (.+?) \.\.\. (ok|FAILED|ignored(?:, .*)?|bench:.*)$/;
+
+/**
+ * Matches the header of a captured failure section, e.g. `---- adds stdout ----`.
+ */
+const FAILURE_HEADER_PATTERN = /^---- (.+?) stdout ----$/;
+
+/**
+ * Matches the file of a doc test name, e.g. `src/lib.rs - add (line 5)`.
+ */
+const DOC_TEST_PATTERN = /^(.+?\.rs) - /;
+
+function mapTestStatus(status: string): TestStatus {
+  if (status === 'ok' || status.startsWith('bench:')) {
+    return 'passed';
+  }
+  if (status === 'FAILED') {
+    return 'failed';
+  }
+  return 'skipped';
+}
+
+/**
+ * Parses libtest's human-readable output into test results.
+ *
+ * Stable Rust has no machine-readable test output, so this reads the
+ * `test <name> ... <status>` lines and attaches the captured stdout of each
+ * failure (including its panic message) as the error.
+ *
+ * @param output - Raw output from `cargo test`.
+ * @returns The individual test results.
+ */
+export function parseCargoTestOutput(output: string): TestResult[] {
+  const lines = output.split('\n').map((line) => line.replace(/\r$/, ''));
+  const failureOutput = new Map<string, string[]>();
+
+  let current: string[] | null = null;
+  for (const line of lines) {
+    const header = FAILURE_HEADER_PATTERN.exec(line);
+    if (header !== null) {
+      current = [];
+      failureOutput.set(header[1] ?? '', current);
+      continue;
+    }
+    if (current !== null) {
+      if (line === 'failures:' || line.startsWith('test result:')) {
+        current = null;
+      } else {
+        current.push(line);
+      }
+    }
+  }
+
+  const tests: TestResult[] = [];
+  for (const line of lines) {
+    const match = TEST_LINE_PATTERN.exec(line);
+    if (match === null) {
+      continue;
+    }
+    const fullName = match[1] ?? '';
+    const status = mapTestStatus(match[2] ?? '');
+    const docTest = DOC_TEST_PATTERN.exec(fullName);
+    const segments = fullName.split('::');
+    const result: TestResult = {
+      name: docTest !== null ? fullName : (segments[segments.length - 1] ?? fullName),
+      fullName,
+      file: docTest?.[1] ?? '',
+      status,
+      durationMs: 0,
+    };
+
+    if (status === 'failed') {
+      const captured = (failureOutput.get(fullName) ?? []).join('\n').trim();
+      const panic = /panicked at [^\n]*\n([\s\S]*)$/.exec(captured)?.[1] ?? captured;
+      // Drop the backtrace and `note: run with RUST_BACKTRACE` hints
+      const message = panic.split(/^(?:stack backtrace:|note: )/m)[0]?.trim() ?? '';
+      result.error = {
+        message: message !== '' ? message : 'Test failed',
+        ...(captured !== '' ? { stack: captured } : {}),
+      };
+    }
+
+    tests.push(result);
+  }
+
+  return tests;
+}
+
+/**
+ * Runs `cargo test` and returns structured results.
+ *
+ * Test binaries are run with `--no-fail-fast` so one failing target does
+ * not hide results from the others.
+ *
+ * @param pattern - Test name filter (substring match, as with `cargo test <filter>`).
+ * @param options - Test run options.
+ * @returns The test run result, including build diagnostics.
+ * @throws {CargoNotInstalledError} If cargo is not installed.
+ *
+ * @example
+ * const result = await runCargoTests('parser::', { cwd: './my-crate' });
+ * console.log(`${result.passedTests}/${result.totalTests} passed`);
+ */
+export async function runCargoTests(
+  pattern: string,
+  options: CargoTestOptions = {}
+): Promise<CargoTestRunResult> {
+  const cwd =
+    options.cwd !== undefined && options.cwd !== '' ? path.resolve(options.cwd) : process.cwd();
+
+  const args = ['test', '--message-format=json', '--no-fail-fast'];
+  if (options.package !== undefined && options.package !== '') {
+    args.push('-p', options.package);
+  }
+  if (pattern !== '') {
+    args.push(pattern);
+  }
+  args.push('--', '--color', 'never');
+
+  const { stdout, exitCode } = await runCargo(args, cwd, options.timeout);
+  const diagnostics = parseCargoDiagnostics(stdout, cwd);
+  const tests = parseCargoTestOutput(stdout);
+
+  const passedTests = tests.filter((t) => t.status === 'passed').length;
+  const failedTests = tests.filter((t) => t.status === 'failed').length;
+  const skippedTests = tests.length - passedTests - failedTests;
+  const buildFailed = diagnostics.some((d) => d.severity === 'error');
+
+  return {
+    success: exitCode === 0 && failedTests === 0 && !buildFailed,
+    totalTests: tests.length,
+    passedTests,
+    failedTests,
+    skippedTests,
+    tests,
+    diagnostics,
+  };
+}
+
+/**
+ * Runs a cargo subcommand, capturing stdout.
+ */
+async function runCargo(
+  args: string[],
+  cwd: string,
+  timeout = 600000
+): Promise<{ stdout: string; exitCode: number }> {
+  const result = await execa('cargo', args, {
+    cwd,
+    reject: false,
+    timeout,
+    env: {
+      ...process.env,
+      CARGO_TERM_COLOR: 'never',
+    },
+  });
+  if (result.code === 'ENOENT') {
+    throw new CargoNotInstalledError();
+  }
+
+  const rawOutput = result.stdout;
+  return {
+    stdout: typeof rawOutput === 'string' ? rawOutput : String(rawOutput),
+    exitCode: result.exitCode ?? 1,
+  };
+}
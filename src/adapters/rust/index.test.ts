@@ -0,0 +1,197 @@
+/**
+ * Tests for the RustAdapter facade.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+vi.mock('execa', () => ({
+  execa: vi.fn(),
+}));
+
+import { execa } from 'execa';
+import {
+  AdapterNotInitializedError,
+  FunctionNotFoundError,
+  NotRustProjectError,
+  RustAdapter,
+} from './index.js';
+
+const mockExeca = vi.mocked(execa);
+
+const LIB_RS = `mod money;
+
+use money::Money;
+
+/// Account identifier.
+#[derive(Debug, Clone, Copy, PartialEq, Eq)]
+pub struct AccountId(pub u64);
+
+/// Transfers money between accounts.
+///
+/// Requires: amount is positive.
+pub fn transfer(from: AccountId, to: AccountId, amount: Money) -> Result<(), TransferError> {
+    todo!()
+}
+
+pub enum TransferError {
+    InsufficientFunds,
+    SameAccount,
+}
+`;
+
+const MONEY_RS = `pub type Cents = i64;
+
+pub struct Money {
+    cents: Cents,
+}
+
+impl Money {
+    pub fn add(&self, other: &Money) -> Money {
+        todo!("checked addition")
+    }
+}
+`;
+
+describe('RustAdapter', () => {
+  let projectPath: string;
+  let adapter: RustAdapter;
+
+  beforeEach(async () => {
+    projectPath = mkdtempSync(path.join(os.tmpdir(), 'rust-adapter-test-'));
+    writeFileSync(path.join(projectPath, 'Cargo.toml'), '[package]\nname = "bank"\n');
+    mkdirSync(path.join(projectPath, 'src'));
+    mkdirSync(path.join(projectPath, 'target', 'debug'), { recursive: true });
+    writeFileSync(path.join(projectPath, 'src', 'lib.rs'), LIB_RS);
+    writeFileSync(path.join(projectPath, 'src', 'money.rs'), MONEY_RS);
+    writeFileSync(path.join(projectPath, 'target', 'debug', 'build.rs'), 'fn x() { todo!() }');
+
+    adapter = new RustAdapter();
+    await adapter.initialize(projectPath);
+    mockExeca.mockReset();
+  });
+
+  afterEach(() => {
+    rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  it('should reject directories without Cargo.toml', async () => {
+    rmSync(path.join(projectPath, 'Cargo.toml'));
+
+    await expect(new RustAdapter().initialize(projectPath)).rejects.toThrow(NotRustProjectError);
+  });
+
+  it('should require initialization', () => {
+    expect(() => new RustAdapter().findTodoFunctions()).toThrow(AdapterNotInitializedError);
+  });
+
+  it('should find todo!() functions outside the target directory', () => {
+    const todos = adapter.findTodoFunctions();
+
+    expect(todos.map((t) => [path.relative(projectPath, t.filePath), t.name, t.implType])).toEqual([
+      ['src/lib.rs', 'transfer', undefined],
+      ['src/money.rs', 'add', 'Money'],
+    ]);
+  });
+
+  it('should extract signature, doc comment, and referenced crate types', () => {
+    const context = adapter.extractContext('transfer');
+
+    expect(context.signature.parameters.map((p) => p.type)).toEqual([
+      'AccountId',
+      'AccountId',
+      'Money',
+    ]);
+    expect(context.docComment).toBe(
+      'Transfers money between accounts.\n\nRequires: amount is positive.'
+    );
+    expect(context.line).toBe(12);
+    expect(context.referencedTypes.map((t) => [t.name, t.kind])).toEqual([
+      ['AccountId', 'struct'],
+      ['TransferError', 'enum'],
+      ['Money', 'struct'],
+    ]);
+    expect(context.referencedTypes[0]?.definition).toBe(
+      '/// Account identifier.\n#[derive(Debug, Clone, Copy, PartialEq, Eq)]\npub struct AccountId(pub u64);'
+    );
+  });
+
+  it('should include the impl type for methods', () => {
+    const context = adapter.extractContext('add', 'src/money.rs');
+
+    expect(context.implType).toBe('Money');
+    expect(context.signature.receiver).toBe('&self');
+    expect(context.referencedTypes.map((t) => t.name)).toEqual(['Money']);
+  });
+
+  it('should throw for unknown functions', () => {
+    expect(() => adapter.extractContext('withdraw')).toThrow(FunctionNotFoundError);
+  });
+
+  it('should inject bodies into the source file', () => {
+    const result = adapter.inject('add', 'Money { cents: self.cents + other.cents }');
+
+    expect(result).toEqual({
+      success: true,
+      filePath: path.join(projectPath, 'src', 'money.rs'),
+      functionName: 'add',
+    });
+    expect(readFileSync(path.join(projectPath, 'src', 'money.rs'), 'utf-8')).toContain(
+      '    pub fn add(&self, other: &Money) -> Money {\n        Money { cents: self.cents + other.cents }\n    }'
+    );
+    expect(adapter.findTodoFunctions().map((t) => t.name)).toEqual(['transfer']);
+  });
+
+  it('should report injection failures', () => {
+    expect(adapter.inject('transfer', 'Ok(()')).toMatchObject({
+      success: false,
+      error: expect.stringContaining("unclosed '('") as unknown,
+    });
+    expect(adapter.inject('withdraw', 'Ok(())')).toMatchObject({
+      success: false,
+      error: "Function 'withdraw' not found",
+    });
+  });
+
+  it('should verify with cargo check', async () => {
+    mockExeca.mockResolvedValueOnce({
+      stdout: JSON.stringify({
+        reason: 'compiler-message',
+        message: {
+          level: 'error',
+          message: 'mismatched types',
+          code: { code: 'E0308' },
+          spans: [{ file_name: 'src/lib.rs', line_start: 13, column_start: 5, is_primary: true }],
+        },
+      }),
+      exitCode: 101,
+    } as never);
+
+    const result = await adapter.verify();
+
+    expect(mockExeca).toHaveBeenCalledWith(
+      'cargo',
+      expect.arrayContaining(['check']),
+      expect.objectContaining({ cwd: projectPath })
+    );
+    expect(result.success).toBe(false);
+    expect(result.check.errors[0]).toMatchObject({
+      file: path.join(projectPath, 'src', 'lib.rs'),
+      code: 'E0308',
+    });
+  });
+
+  it('should run tests with cargo test', async () => {
+    mockExeca.mockResolvedValueOnce({
+      stdout: 'running 1 test\ntest money::tests::adds ... ok\n',
+      exitCode: 0,
+    } as never);
+
+    const result = await adapter.runTests('money');
+
+    expect(mockExeca.mock.calls[0]?.[1]).toContain('money');
+    expect(result).toMatchObject({ success: true, totalTests: 1, passedTests: 1 });
+  });
+});
@@ -0,0 +1,453 @@
+/**
+ * Rust adapter facade for the Criticality Protocol.
+ *
+ * Provides the same responsibilities as the TypeScript adapter for Cargo
+ * projects: `todo!()` detection, context extraction, body injection,
+ * verification via `cargo check`, and test execution via `cargo test`.
+ *
+ * @module adapters/rust
+ */
+
+import * as path from 'node:path';
+import {
+  safeExistsSync,
+  safeReadFileSync,
+  safeReaddirSync,
+  safeWriteFileSync,
+} from '../../utils/safe-fs.js';
+
+import {
+  findFunctionItems,
+  findTodoFunctionsInSource,
+  injectFunctionBody,
+  maskRustSource,
+  type RustFunctionItem,
+  type RustTodoFunction,
+} from './ast.js';
+import {
+  collectReferencedTypeNames,
+  extractRustSignature,
+  type RustFunctionSignature,
+} from './signature.js';
+import {
+  runCargoCheck,
+  runCargoTests,
+  type CargoCheckResult,
+  type CargoTestRunResult,
+} from './cargo.js';
+
+// Re-export types for consumers
+export type { RustTodoFunction } from './ast.js';
+export type {
+  RustFunctionSignature,
+  RustParameterInfo,
+  RustTypeParameterInfo,
+} from './signature.js';
+export type { CargoCheckResult, CargoTestRunResult } from './cargo.js';
+export { CargoNotInstalledError, parseCargoDiagnostics, parseCargoTestOutput } from './cargo.js';
+export {
+  InvalidBaseTypeError,
+  generateNewtype,
+  generateProptestStrategy,
+  generateRustWitnessModule,
+  specWitnessToRustDefinition,
+  translateInvariant,
+  type RustWitnessDefinition,
+  type RustWitnessTypeParameter,
+} from './witness.js';
+
+/**
+ * Error thrown when attempting to use an adapter that hasn't been initialized.
+ */
+export class AdapterNotInitializedError extends Error {
+  constructor() {
+    super('Adapter not initialized. Call initialize() first.');
+    this.name = 'AdapterNotInitializedError';
+  }
+}
+
+/**
+ * Error thrown when the target project is not a Cargo project.
+ */
+export class NotRustProjectError extends Error {
+  constructor(projectPath: string) {
+    super(`Not a Rust project: ${projectPath}. No Cargo.toml found.`);
+    this.name = 'NotRustProjectError';
+  }
+}
+
+/**
+ * Error thrown when a function cannot be found for context extraction.
+ */
+export class FunctionNotFoundError extends Error {
+  constructor(functionName: string, filePath?: string) {
+    const location = filePath !== undefined && filePath !== '' ? ` in ${filePath}` : '';
+    super(`Function '${functionName}' not found${location}`);
+    this.name = 'FunctionNotFoundError';
+  }
+}
+
+/**
+ * A struct, enum, type alias, or trait defined in the crate.
+ */
+export interface RustTypeDefinition {
+  /** The type name */
+  name: string;
+  /** The kind of item */
+  kind: 'struct' | 'enum' | 'type' | 'trait';
+  /** The item source, including doc comments and attributes */
+  definition: string;
+  /** The file path where the type is defined */
+  filePath: string;
+}
+
+/**
+ * Context information for a Rust function, used during the Injection phase.
+ */
+export interface RustFunctionContext {
+  /** The function signature */
+  signature: RustFunctionSignature;
+  /** Crate types referenced by the signature */
+  referencedTypes: RustTypeDefinition[];
+  /** The self type of the enclosing `impl` block, for methods */
+  implType?: string;
+  /** The function's doc comment, which carries its contract, if any */
+  docComment?: string;
+  /** The file path where the function is defined */
+  filePath: string;
+  /** The line number where the function starts */
+  line: number;
+}
+
+/**
+ * Result of injecting a function body.
+ */
+export interface InjectionResult {
+  /** Whether the injection was successful */
+  success: boolean;
+  /** The file path that was modified */
+  filePath: string;
+  /** The function name that was injected */
+  functionName: string;
+  /** Error message if injection failed */
+  error?: string;
+}
+
+/**
+ * Result of verifying the project after injection.
+ */
+export interface VerificationResult {
+  /** Whether the verification passed (no compiler errors) */
+  success: boolean;
+  /** The cargo check result */
+  check: CargoCheckResult;
+}
+
+/**
+ * Matches the start of a type item in masked source.
+ */
+const TYPE_ITEM_PATTERN =
+  // eslint-disable-next-line security/detect-unsafe-regex -- line-anchored, no nested quantifiers
+  /^[ \t]*(?:pub(?:\s*\([^()]*\))?\s+)?(struct|enum|type|trait)\s+([A-Za-z_][A-Za-z0-9_]*)/gm;
+
+/**
+ * Rust adapter for Cargo projects.
+ *
+ * Mirrors the TypeScriptAdapter surface:
+ * - TODO detection of `todo!()` bodies
+ * - Context extraction including signatures, crate types, and doc comments
+ * - Body injection with delimiter validation
+ * - Verification via `cargo check --message-format=json`
+ * - Test execution via `cargo test`
+ *
+ * @example
+ * const adapter = new RustAdapter();
+ * await adapter.initialize('./my-crate');
+ *
+ * for (const todo of adapter.findTodoFunctions()) {
+ *   const context = adapter.extractContext(todo.name, todo.filePath);
+ *   // Generate implementation using context...
+ *   adapter.inject(todo.name, generatedBody, todo.filePath);
+ * }
+ *
+ * const verification = await adapter.verify();
+ * if (!verification.success) {
+ *   console.log('Compiler errors:', verification.check.errors);
+ * }
+ */
+export class RustAdapter {
+  private projectPath: string | null = null;
+
+  /**
+   * Initializes the adapter for a Cargo project.
+   *
+   * @param projectPath - Path to the crate or workspace root.
+   * @throws {NotRustProjectError} If no Cargo.toml is found.
+   */
+  initialize(projectPath: string): Promise<void> {
+    const resolvedPath = path.resolve(projectPath);
+    if (!safeExistsSync(path.join(resolvedPath, 'Cargo.toml'))) {
+      return Promise.reject(new NotRustProjectError(resolvedPath));
+    }
+    this.projectPath = resolvedPath;
+    return Promise.resolve();
+  }
+
+  /**
+   * Finds all functions with `todo!()` bodies in the project.
+   *
+   * @returns TODO functions, ordered by file path and then source position.
+   * @throws {AdapterNotInitializedError} If not initialized.
+   */
+  findTodoFunctions(): RustTodoFunction[] {
+    const projectPath = this.ensureInitialized();
+    return this.listSourceFiles(projectPath).flatMap((filePath) =>
+      findTodoFunctionsInSource(safeReadFileSync(filePath, 'utf-8'), filePath)
+    );
+  }
+
+  /**
+   * Extracts context for a function to support code generation.
+   *
+   * @param functionName - The function name to extract context for.
+   * @param filePath - Optional file path to disambiguate.
+   * @returns The function context.
+   * @throws {AdapterNotInitializedError} If not initialized.
+   * @throws {FunctionNotFoundError} If function not found.
+   */
+  extractContext(functionName: string, filePath?: string): RustFunctionContext {
+    const projectPath = this.ensureInitialized();
+    const func = this.findFunction(functionName, filePath, projectPath);
+    if (func === null) {
+      throw new FunctionNotFoundError(functionName, filePath);
+    }
+
+    const signature = extractRustSignature(func.item.signature);
+    const typeNames = collectReferencedTypeNames(signature);
+    if (func.item.implType !== undefined) {
+      typeNames.push(...(/^[A-Za-z_][A-Za-z0-9_]*/.exec(func.item.implType) ?? []));
+    }
+    const referencedTypes = this.findTypeDefinitions(new Set(typeNames), projectPath);
+
+    return {
+      signature,
+      referencedTypes,
+      ...(func.item.implType !== undefined ? { implType: func.item.implType } : {}),
+      ...(func.item.docComment !== undefined ? { docComment: func.item.docComment } : {}),
+      filePath: func.filePath,
+      line: func.item.line,
+    };
+  }
+
+  /**
+   * Injects a function body into a TODO stub.
+   *
+   * @param functionName - The function name to inject into.
+   * @param body - The new function body (without curly braces).
+   * @param filePath - Optional file path to disambiguate.
+   * @returns The injection result.
+   * @throws {AdapterNotInitializedError} If not initialized.
+   */
+  inject(functionName: string, body: string, filePath?: string): InjectionResult {
+    const projectPath = this.ensureInitialized();
+    const func = this.findFunction(functionName, filePath, projectPath);
+    if (func === null) {
+      return {
+        success: false,
+        filePath: filePath ?? '',
+        functionName,
+        error: `Function '${functionName}' not found`,
+      };
+    }
+
+    try {
+      const updated = injectFunctionBody(func.source, functionName, body, {
+        filePath: func.filePath,
+        ...(func.item.implType !== undefined ? { implType: func.item.implType } : {}),
+      });
+      safeWriteFileSync(func.filePath, updated, 'utf-8');
+      return { success: true, filePath: func.filePath, functionName };
+    } catch (error) {
+      return {
+        success: false,
+        filePath: func.filePath,
+        functionName,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Verifies the project compiles without errors using `cargo check`.
+   *
+   * @returns The verification result.
+   * @throws {AdapterNotInitializedError} If not initialized.
+   */
+  async verify(): Promise<VerificationResult> {
+    const projectPath = this.ensureInitialized();
+    const check = await runCargoCheck(projectPath);
+    return { success: check.success, check };
+  }
+
+  /**
+   * Runs tests whose names match the pattern using `cargo test`.
+   *
+   * @param pattern - Test name filter (empty runs all tests).
+   * @returns The test run result.
+   * @throws {AdapterNotInitializedError} If not initialized.
+   */
+  async runTests(pattern: string): Promise<CargoTestRunResult> {
+    const projectPath = this.ensureInitialized();
+    return runCargoTests(pattern, { cwd: projectPath });
+  }
+
+  /**
+   * Gets the project path.
+   *
+   * @returns The project path or null if not initialized.
+   */
+  getProjectPath(): string | null {
+    return this.projectPath;
+  }
+
+  /**
+   * Ensures the adapter has been initialized and returns the project path.
+   *
+   * @throws {AdapterNotInitializedError} If not initialized.
+   */
+  private ensureInitialized(): string {
+    if (this.projectPath === null) {
+      throw new AdapterNotInitializedError();
+    }
+    return this.projectPath;
+  }
+
+  /**
+   * Lists the `.rs` files in the project, skipping build output and hidden
+   * directories.
+   */
+  private listSourceFiles(dirPath: string): string[] {
+    const files: string[] = [];
+    const entries = safeReaddirSync(dirPath, { withFileTypes: true }).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+
+    for (const entry of entries) {
+      if (entry.name === 'target' || entry.name.startsWith('.')) {
+        continue;
+      }
+      const fullPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...this.listSourceFiles(fullPath));
+      } else if (entry.isFile() && entry.name.endsWith('.rs')) {
+        files.push(fullPath);
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Finds a function by name in the project.
+   */
+  private findFunction(
+    functionName: string,
+    filePath: string | undefined,
+    projectPath: string
+  ): {
+    item: RustFunctionItem;
+    filePath: string;
+    source: string;
+  } | null {
+    const files =
+      filePath !== undefined && filePath !== ''
+        ? [path.resolve(projectPath, filePath)].filter((file) => safeExistsSync(file))
+        : this.listSourceFiles(projectPath);
+
+    for (const file of files) {
+      const source = safeReadFileSync(file, 'utf-8');
+      if (!source.includes(functionName)) {
+        continue;
+      }
+      const item = findFunctionItems(source).find((candidate) => candidate.name === functionName);
+      if (item !== undefined) {
+        return { item, filePath: file, source };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Finds the definitions of the named types in the project.
+   */
+  private findTypeDefinitions(names: Set<string>, projectPath: string): RustTypeDefinition[] {
+    const definitions: RustTypeDefinition[] = [];
+    if (names.size === 0) {
+      return definitions;
+    }
+
+    for (const filePath of this.listSourceFiles(projectPath)) {
+      const source = safeReadFileSync(filePath, 'utf-8');
+      const { masked } = maskRustSource(source);
+
+      TYPE_ITEM_PATTERN.lastIndex = 0;
+      let match;
+      while ((match = TYPE_ITEM_PATTERN.exec(masked)) !== null) {
+        const name = match[2] ?? '';
+        if (!names.has(name) || definitions.some((d) => d.name === name)) {
+          continue;
+        }
+        const end = findItemEnd(masked, match.index + match[0].length);
+        definitions.push({
+          name,
+          kind: match[1] as RustTypeDefinition['kind'],
+          definition: `${leadingDocs(source, match.index)}${source.slice(match.index, end).trim()}`,
+          filePath,
+        });
+      }
+    }
+
+    return definitions;
+  }
+}
+
+/**
+ * Finds the end of a type item: past its closing brace, or past the `;` of
+ * a unit/tuple struct or type alias.
+ */
+function findItemEnd(masked: string, from: number): number {
+  let depth = 0;
+  for (let i = from; i < masked.length; i++) {
+    const ch = masked.charAt(i);
+    if (ch === '{' || ch === '(' || ch === '[') {
+      depth++;
+    } else if (ch === '}' || ch === ')' || ch === ']') {
+      depth--;
+      if (depth === 0 && ch === '}') {
+        return i + 1;
+      }
+    } else if (ch === ';' && depth === 0) {
+      return i + 1;
+    }
+  }
+  return masked.length;
+}
+
+/**
+ * Returns the doc comment and attribute lines directly above an item.
+ */
+function leadingDocs(source: string, itemStart: number): string {
+  const lines = source.slice(0, itemStart).split('\n');
+  lines.pop();
+  const kept: string[] = [];
+  for (let i = lines.length - 1; i >= 0; i--) {
+    // eslint-disable-next-line security/detect-object-injection -- bounded numeric index
+    const line = (lines[i] ?? '').trim();
+    if (!line.startsWith('///') && !line.startsWith('#[')) {
+      break;
+    }
+    kept.unshift(line);
+  }
+  return kept.length > 0 ? `${kept.join('\n')}\n` : '';
+}
@@ -0,0 +1,92 @@
+/**
+ * Tests for Rust signature extraction.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  collectReferencedTypeNames,
+  extractRustSignature,
+  splitTopLevel,
+  SignatureParseError,
+} from './signature.js';
+
+describe('splitTopLevel', () => {
+  it('should ignore separators inside generics, tuples, and fn arrows', () => {
+    expect(
+      splitTopLevel('a: HashMap<K, V>, f: impl Fn(u8, u8) -> Vec<u8>, t: (i32, i32)', ',')
+    ).toEqual(['a: HashMap<K, V>', 'f: impl Fn(u8, u8) -> Vec<u8>', 't: (i32, i32)']);
+  });
+});
+
+describe('extractRustSignature', () => {
+  it('should extract a simple function', () => {
+    expect(extractRustSignature('pub fn add(a: i32, b: i32) -> i32')).toEqual({
+      name: 'add',
+      visibility: 'pub',
+      isAsync: false,
+      isConst: false,
+      isUnsafe: false,
+      typeParameters: [],
+      parameters: [
+        { name: 'a', type: 'i32' },
+        { name: 'b', type: 'i32' },
+      ],
+      returnType: 'i32',
+    });
+  });
+
+  it('should extract qualifiers, generics, receivers, and where clauses', () => {
+    const signature = extractRustSignature(
+      "pub(crate) async unsafe fn load<'a, T: DeserializeOwned + Send, const N: usize>(&'a mut self, keys: [&'a str; N]) -> Result<Vec<T>, store::Error> where T: Default, 'a: 'static"
+    );
+
+    expect(signature).toMatchObject({
+      name: 'load',
+      visibility: 'pub(crate)',
+      isAsync: true,
+      isUnsafe: true,
+      receiver: "&'a mut self",
+      parameters: [{ name: 'keys', type: "[&'a str; N]" }],
+      returnType: 'Result<Vec<T>, store::Error>',
+      whereClause: ['T: Default', "'a: 'static"],
+    });
+    expect(signature.typeParameters).toEqual([
+      { name: "'a", kind: 'lifetime', bounds: [] },
+      { name: 'T', kind: 'type', bounds: ['DeserializeOwned', 'Send'] },
+      { name: 'N', kind: 'const', bounds: ['usize'] },
+    ]);
+  });
+
+  it('should default the return type to unit and keep parameter patterns', () => {
+    const signature = extractRustSignature('const fn reset(mut buf: Vec<u8>, (x, y): (u8, u8))');
+
+    expect(signature.isConst).toBe(true);
+    expect(signature.returnType).toBe('()');
+    expect(signature.parameters).toEqual([
+      { name: 'mut buf', type: 'Vec<u8>' },
+      { name: '(x, y)', type: '(u8, u8)' },
+    ]);
+  });
+
+  it('should throw for text that is not a signature', () => {
+    expect(() => extractRustSignature('struct Account')).toThrow(SignatureParseError);
+    expect(() => extractRustSignature('fn broken(a: i32')).toThrow('unbalanced parameter list');
+  });
+});
+
+describe('collectReferencedTypeNames', () => {
+  it('should collect capitalized types excluding generics and Self', () => {
+    const signature = extractRustSignature(
+      'fn transfer<T: Ledger>(&self, from: AccountId, amount: Money) -> Result<Self, TransferError> where T: Audit'
+    );
+
+    expect(collectReferencedTypeNames(signature)).toEqual([
+      'AccountId',
+      'Money',
+      'Result',
+      'TransferError',
+      'Ledger',
+      'Audit',
+    ]);
+  });
+});
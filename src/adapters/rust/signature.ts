@@ -0,0 +1,301 @@
+/**
+ * Rust function signature extraction.
+ *
+ * Parses the signature text of a Rust function item into its qualifiers,
+ * generics, receiver, parameters, return type, and where clause.
+ *
+ * @module adapters/rust/signature
+ */
+
+/**
+ * Information about a function parameter.
+ */
+export interface RustParameterInfo {
+  /** The parameter pattern (usually an identifier, e.g. "amount" or "mut buf") */
+  name: string;
+  /** The parameter type as a string (e.g., "&str", "Vec<T>") */
+  type: string;
+}
+
+/**
+ * Information about a generic parameter.
+ */
+export interface RustTypeParameterInfo {
+  /** The parameter name (e.g., "T", "'a", "N") */
+  name: string;
+  /** Whether this is a type, lifetime, or const generic parameter */
+  kind: 'type' | 'lifetime' | 'const';
+  /** Trait or lifetime bounds (e.g., ["Clone", "Send"]), or the type of a const parameter */
+  bounds: string[];
+  /** The default value, if any */
+  default?: string;
+}
+
+/**
+ * Represents an extracted Rust function signature.
+ */
+export interface RustFunctionSignature {
+  /** The function name */
+  name: string;
+  /** The visibility qualifier (e.g., "pub", "pub(crate)"), if any */
+  visibility?: string;
+  /** Whether the function is `async` */
+  isAsync: boolean;
+  /** Whether the function is `const` */
+  isConst: boolean;
+  /** Whether the function is `unsafe` */
+  isUnsafe: boolean;
+  /** Generic parameters */
+  typeParameters: RustTypeParameterInfo[];
+  /** The `self` receiver (e.g., "&self", "&mut self", "self: Box<Self>"), for methods */
+  receiver?: string;
+  /** Parameters other than the receiver */
+  parameters: RustParameterInfo[];
+  /** The return type ("()" when omitted) */
+  returnType: string;
+  /** The where clause predicates, if any */
+  whereClause?: string[];
+}
+
+/**
+ * Error thrown when signature text cannot be parsed.
+ */
+export class SignatureParseError extends Error {
+  constructor(signature: string, reason: string) {
+    super(`Cannot parse Rust signature '${signature}': ${reason}`);
+    this.name = 'SignatureParseError';
+  }
+}
+
+/**
+ * Splits text on a separator at nesting depth zero, treating `<>`, `()`,
+ * and `[]` as nesting and ignoring the `>` of `->`.
+ *
+ * @param text - The text to split.
+ * @param separator - A single-character separator.
+ * @returns The trimmed, non-empty parts.
+ */
+export function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charAt(i);
+    if (ch === '<' || ch === '(' || ch === '[') {
+      depth++;
+    } else if ((ch === '>' && text.charAt(i - 1) !== '-') || ch === ')' || ch === ']') {
+      depth--;
+    }
+
+    if (ch === separator && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current.trim());
+
+  return parts.filter((part) => part !== '');
+}
+
+/**
+ * Finds the offset of the delimiter closing the one at `open`.
+ */
+function findClose(text: string, open: number, opener: string, closer: string): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    const ch = text.charAt(i);
+    if (ch === opener) {
+      depth++;
+    } else if (ch === closer && !(closer === '>' && text.charAt(i - 1) === '-')) {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Finds the first top-level `:` that is not part of a `::` path separator.
+ */
+function findTypeColon(text: string): number {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charAt(i);
+    if (ch === '<' || ch === '(' || ch === '[') {
+      depth++;
+    } else if ((ch === '>' && text.charAt(i - 1) !== '-') || ch === ')' || ch === ']') {
+      depth--;
+    } else if (
+      ch === ':' &&
+      depth === 0 &&
+      text.charAt(i + 1) !== ':' &&
+      text.charAt(i - 1) !== ':'
+    ) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parses one generic parameter, e.g. `T: Clone + Send = String`, `'a: 'b`,
+ * or `const N: usize`.
+ */
+function parseTypeParameter(text: string): RustTypeParameterInfo {
+  const [head = '', defaultValue] = splitTopLevel(text, '=');
+  const withDefault = defaultValue !== undefined ? { default: defaultValue } : {};
+
+  const constMatch = /^const\s+([A-Za-z_][A-Za-z0-9_]*)\s*:\s*(.+)$/.exec(head);
+  if (constMatch !== null) {
+    return {
+      name: constMatch[1] ?? '',
+      kind: 'const',
+      bounds: [constMatch[2]?.trim() ?? ''],
+      ...withDefault,
+    };
+  }
+
+  const colon = findTypeColon(head);
+  const name = (colon === -1 ? head : head.slice(0, colon)).trim();
+  const bounds = colon === -1 ? [] : splitTopLevel(head.slice(colon + 1), '+');
+
+  return {
+    name,
+    kind: name.startsWith("'") ? 'lifetime' : 'type',
+    bounds,
+    ...withDefault,
+  };
+}
+
+/**
+ * Checks whether a parameter is a `self` receiver.
+ */
+function isReceiver(param: string): boolean {
+  // eslint-disable-next-line security/detect-unsafe-regex -- bounded parameter text, no nested quantifiers
+  return /^(?:&\s*(?:'[A-Za-z_][A-Za-z0-9_]*\s+)?)?(?:mut\s+)?self\b/.test(param);
+}
+
+/**
+ * Extracts a structured signature from a Rust function signature string.
+ *
+ * @param signature - Signature text up to (not including) the body, e.g.
+ *   `pub async fn fetch<T: DeserializeOwned>(&self, url: &str) -> Result<T, Error>`.
+ * @returns The parsed signature.
+ * @throws {SignatureParseError} If the text is not a function signature.
+ *
+ * @example
+ * extractRustSignature('pub fn add(a: i32, b: i32) -> i32');
+ * // Returns { name: 'add', visibility: 'pub', parameters: [{ name: 'a', type: 'i32' }, ...],
+ * //           returnType: 'i32', ... }
+ */
+export function extractRustSignature(signature: string): RustFunctionSignature {
+  const text = signature.replace(/\s+/g, ' ').trim();
+
+  const fnMatch = /\bfn\s+([A-Za-z_][A-Za-z0-9_]*)\s*/.exec(text);
+  if (fnMatch === null) {
+    throw new SignatureParseError(signature, "missing 'fn' keyword");
+  }
+  const name = fnMatch[1] ?? '';
+  const qualifiers = text.slice(0, fnMatch.index);
+
+  let rest = text.slice(fnMatch.index + fnMatch[0].length);
+
+  let typeParameters: RustTypeParameterInfo[] = [];
+  if (rest.startsWith('<')) {
+    const close = findClose(rest, 0, '<', '>');
+    if (close === -1) {
+      throw new SignatureParseError(signature, 'unbalanced generic parameters');
+    }
+    typeParameters = splitTopLevel(rest.slice(1, close), ',').map(parseTypeParameter);
+    rest = rest.slice(close + 1).trim();
+  }
+
+  if (!rest.startsWith('(')) {
+    throw new SignatureParseError(signature, 'missing parameter list');
+  }
+  const paramsClose = findClose(rest, 0, '(', ')');
+  if (paramsClose === -1) {
+    throw new SignatureParseError(signature, 'unbalanced parameter list');
+  }
+
+  let receiver: string | undefined;
+  const parameters: RustParameterInfo[] = [];
+  for (const param of splitTopLevel(rest.slice(1, paramsClose), ',')) {
+    if (isReceiver(param)) {
+      receiver = param;
+      continue;
+    }
+    const colon = findTypeColon(param);
+    if (colon === -1) {
+      throw new SignatureParseError(signature, `parameter '${param}' has no type`);
+    }
+    parameters.push({
+      name: param.slice(0, colon).trim(),
+      type: param.slice(colon + 1).trim(),
+    });
+  }
+  rest = rest.slice(paramsClose + 1).trim();
+
+  let whereClause: string[] | undefined;
+  const whereMatch = /(?:^|\s)where\s/.exec(rest);
+  if (whereMatch !== null) {
+    whereClause = splitTopLevel(rest.slice(whereMatch.index + whereMatch[0].length), ',');
+    rest = rest.slice(0, whereMatch.index).trim();
+  }
+
+  const returnType = rest.startsWith('->') ? rest.slice(2).trim() : '()';
+  // eslint-disable-next-line security/detect-unsafe-regex -- bounded qualifier text
+  const visibility = /\bpub(?:\s*\([^()]*\))?/.exec(qualifiers)?.[0];
+
+  return {
+    name,
+    ...(visibility !== undefined ? { visibility: visibility.replace(/\s+/g, '') } : {}),
+    isAsync: /\basync\b/.test(qualifiers),
+    isConst: /\bconst\b/.test(qualifiers),
+    isUnsafe: /\bunsafe\b/.test(qualifiers),
+    typeParameters,
+    ...(receiver !== undefined ? { receiver } : {}),
+    parameters,
+    returnType,
+    ...(whereClause !== undefined ? { whereClause } : {}),
+  };
+}
+
+/**
+ * Collects the type names referenced by a signature.
+ *
+ * Returns every capitalized path segment in parameter, return, bound, and
+ * where-clause types, excluding the signature's own type parameters and
+ * `Self`. Prelude types such as `Option` are included; callers decide which
+ * names resolve to definitions in the crate.
+ *
+ * @param signature - The parsed signature.
+ * @returns Unique type names in order of first appearance.
+ */
+export function collectReferencedTypeNames(signature: RustFunctionSignature): string[] {
+  const own = new Set(signature.typeParameters.map((tp) => tp.name));
+  own.add('Self');
+
+  const sources = [
+    ...signature.parameters.map((param) => param.type),
+    signature.returnType,
+    ...signature.typeParameters.flatMap((tp) => tp.bounds),
+    ...(signature.whereClause ?? []),
+  ];
+
+  const names: string[] = [];
+  for (const source of sources) {
+    for (const match of source.matchAll(/\b[A-Z][A-Za-z0-9_]*/g)) {
+      const typeName = match[0];
+      if (!own.has(typeName) && !names.includes(typeName)) {
+        names.push(typeName);
+      }
+    }
+  }
+  return names;
+}
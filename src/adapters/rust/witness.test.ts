@@ -0,0 +1,213 @@
+/**
+ * Tests for Rust newtype witness and proptest strategy generation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  generateNewtype,
+  generateProptestStrategy,
+  generateRustWitnessModule,
+  specWitnessToRustDefinition,
+  translateInvariant,
+  InvalidBaseTypeError,
+} from './witness.js';
+
+describe('translateInvariant', () => {
+  it('should rewrite spec invariants over self into expressions over value', () => {
+    expect(translateInvariant('self.0 >= 0', 'i64')).toBe('value >= 0');
+    expect(translateInvariant('len(self) >= 1', 'Vec<T>')).toBe('value.len() >= 1');
+    expect(translateInvariant('self.length !== 0', 'String')).toBe('value.len() != 0');
+  });
+
+  it('should expand chained comparisons', () => {
+    expect(translateInvariant('0.0 <= self.0 <= 1.0', 'f64')).toBe('0.0 <= value && value <= 1.0');
+  });
+
+  it('should write integer literals as floats for float base types', () => {
+    expect(translateInvariant('self.0 > 0', 'f64')).toBe('value > 0.0');
+  });
+
+  it('should return null for quantified invariants', () => {
+    expect(translateInvariant('forall i, j: i < j implies self[i] <= self[j]', 'Vec<T>')).toBe(
+      null
+    );
+  });
+});
+
+describe('specWitnessToRustDefinition', () => {
+  it('should combine checkable invariants and keep the rest as documentation', () => {
+    const definition = specWitnessToRustDefinition({
+      name: 'SortedVec',
+      description: 'A vector sorted in ascending order.',
+      base_type: 'Vec<T>',
+      type_params: [{ name: 'T', bounds: ['Ord', 'Clone'] }],
+      invariants: [
+        {
+          id: 'sorted',
+          description: 'elements are in ascending order',
+          formal: 'forall i, j: 0 <= i < j < len implies self[i] <= self[j]',
+        },
+        { id: 'non_empty', formal: 'len(self) >= 1' },
+        { id: 'audited', formal: 'is_audited(self)', testable: false },
+      ],
+    });
+
+    expect(definition).toEqual({
+      name: 'SortedVec',
+      baseType: 'Vec<T>',
+      typeParameters: [{ name: 'T', bounds: ['Ord', 'Clone'] }],
+      invariant: 'value.len() >= 1',
+      uncheckedInvariants: ['elements are in ascending order', 'is_audited(self)'],
+      description: 'A vector sorted in ascending order.',
+    });
+  });
+
+  it('should require a base type', () => {
+    expect(() => specWitnessToRustDefinition({ name: 'Opaque', invariants: [] })).toThrow(
+      InvalidBaseTypeError
+    );
+  });
+});
+
+describe('generateNewtype', () => {
+  it('should generate a tuple struct with a checked constructor', () => {
+    const code = generateNewtype({
+      name: 'NonNegative',
+      baseType: 'i64',
+      invariant: 'value >= 0',
+    });
+
+    expect(code).toContain('#[derive(Debug, Clone, PartialEq)]\npub struct NonNegative(i64);');
+    expect(code).toContain(`    pub fn new(value: i64) -> Option<Self> {
+        if value >= 0 {
+            Some(Self(value))
+        } else {
+            None
+        }
+    }`);
+    expect(code).toContain('    pub fn into_inner(self) -> i64 {');
+    expect(code).toContain('impl AsRef<i64> for NonNegative {');
+  });
+
+  it('should carry generic bounds onto the impls', () => {
+    const code = generateNewtype(
+      {
+        name: 'NonEmpty',
+        baseType: 'Vec<T>',
+        typeParameters: [{ name: 'T', bounds: ['Clone'] }],
+      },
+      { includeDocs: false, derives: ['Debug'] }
+    );
+
+    expect(code).toBe(`#[derive(Debug)]
+pub struct NonEmpty<T>(Vec<T>);
+
+impl<T: Clone> NonEmpty<T> {
+    pub fn new(value: Vec<T>) -> Option<Self> {
+        Some(Self(value))
+    }
+
+    pub fn get(&self) -> &Vec<T> {
+        &self.0
+    }
+
+    pub fn into_inner(self) -> Vec<T> {
+        self.0
+    }
+}
+
+impl<T: Clone> AsRef<Vec<T>> for NonEmpty<T> {
+    fn as_ref(&self) -> &Vec<T> {
+        &self.0
+    }
+}`);
+  });
+
+  it('should reject invalid base types', () => {
+    expect(() => generateNewtype({ name: 'Bad', baseType: 'Vec<u8' })).toThrow(
+      'unbalanced brackets'
+    );
+    expect(() => generateNewtype({ name: 'Bad', baseType: 'impl' })).toThrow('reserved keyword');
+  });
+});
+
+describe('generateProptestStrategy', () => {
+  it('should narrow integer ranges from the invariant', () => {
+    const code = generateProptestStrategy({
+      name: 'Percent',
+      baseType: 'u8',
+      invariant: 'value > 0 && value <= 100',
+    });
+
+    expect(code).toContain('pub fn arb_percent() -> impl Strategy<Value = Percent> {');
+    expect(code).toContain(
+      '(1u8..=100u8).prop_filter_map("value > 0 && value <= 100", Percent::new)'
+    );
+  });
+
+  it('should use float ranges and exclude NaN when unbounded', () => {
+    expect(
+      generateProptestStrategy({
+        name: 'Probability',
+        baseType: 'f64',
+        invariant: '0.0 <= value && value <= 1.0',
+      })
+    ).toContain('(0.0f64..=1.0f64).prop_filter_map(');
+    expect(generateProptestStrategy({ name: 'Ratio', baseType: 'f32' })).toContain(
+      'prop::num::f32::NORMAL.prop_map(Ratio)'
+    );
+  });
+
+  it('should bound string and collection lengths', () => {
+    expect(
+      generateProptestStrategy({
+        name: 'Username',
+        baseType: 'String',
+        invariant: 'value.len() > 0 && value.len() < 33',
+      })
+    ).toContain('".{1,32}".prop_filter_map(');
+
+    const generic = generateProptestStrategy({
+      name: 'NonEmptyVec',
+      baseType: 'Vec<T>',
+      typeParameters: [{ name: 'T', bounds: ['Clone'] }],
+      invariant: 'value.len() >= 1',
+    });
+    expect(generic).toContain(
+      'pub fn arb_non_empty_vec<T: Clone + std::fmt::Debug>(arb_t: impl Strategy<Value = T>) -> impl Strategy<Value = NonEmptyVec<T>> {'
+    );
+    expect(generic).toContain(
+      'prop::collection::vec(arb_t, 1..101).prop_filter_map("value.len() >= 1", NonEmptyVec::new)'
+    );
+  });
+
+  it('should fall back to any::<T>() for other types', () => {
+    expect(
+      generateProptestStrategy({ name: 'UserId', baseType: 'Uuid', invariant: 'is_v4(&value)' })
+    ).toContain('any::<Uuid>().prop_filter_map("is_v4(&value)", UserId::new)');
+  });
+});
+
+describe('generateRustWitnessModule', () => {
+  it('should emit newtypes and a test-only strategies module', () => {
+    const code = generateRustWitnessModule([
+      {
+        name: 'NonNegativeDecimal',
+        base_type: 'i64',
+        invariants: [{ id: 'non_negative', formal: 'self.0 >= 0' }],
+      },
+    ]);
+
+    expect(code).toMatch(/^\/\/! Type witnesses generated from the specification\./);
+    expect(code).toContain('pub struct NonNegativeDecimal(i64);');
+    expect(code).toContain('#[cfg(test)]\npub mod strategies {\n    use super::*;');
+    expect(code).toContain('    use proptest::prelude::*;');
+    expect(code).toContain(
+      '        (0i64..).prop_filter_map("value >= 0", NonNegativeDecimal::new)'
+    );
+  });
+
+  it('should omit the strategies module when there are no witnesses', () => {
+    expect(generateRustWitnessModule([])).not.toContain('strategies');
+  });
+});
@@ -0,0 +1,684 @@
+/**
+ * Type witness generation module for Rust.
+ *
+ * Generates newtype definitions whose constructors check the witness
+ * invariants, plus proptest strategies that only produce valid values.
+ * This is the Rust counterpart of the branded types and fast-check
+ * arbitraries generated by the TypeScript adapter.
+ *
+ * @module adapters/rust/witness
+ */
+
+import type { SpecWitness } from '../../spec/types.js';
+
+/**
+ * Represents a generic parameter for a Rust witness definition.
+ */
+export interface RustWitnessTypeParameter {
+  /** The type parameter name (e.g., "T") */
+  name: string;
+  /** Trait bounds (e.g., ["Ord", "Clone"]) */
+  bounds?: string[];
+}
+
+/**
+ * Represents a witness type definition used to generate a Rust newtype.
+ */
+export interface RustWitnessDefinition {
+  /** The name of the newtype (e.g., "NonNegativeDecimal") */
+  name: string;
+  /** The wrapped type (e.g., "i64", "Vec<T>") */
+  baseType: string;
+  /** Type parameters for generic witnesses */
+  typeParameters?: RustWitnessTypeParameter[];
+  /** Rust boolean expression over `value` checked by the constructor */
+  invariant?: string;
+  /** Invariants that cannot be checked at runtime (documentation only) */
+  uncheckedInvariants?: string[];
+  /** Human-readable description of the witness */
+  description?: string;
+}
+
+/**
+ * Options for generating newtype definitions.
+ */
+export interface NewtypeOptions {
+  /** Include doc comments in generated code. Default: true */
+  includeDocs?: boolean;
+  /** Traits to derive. Default: ["Debug", "Clone", "PartialEq"] */
+  derives?: string[];
+}
+
+/**
+ * Options for generating proptest strategies.
+ */
+export interface StrategyOptions {
+  /** Include doc comments in generated code. Default: true */
+  includeDocs?: boolean;
+}
+
+/**
+ * Error thrown when an invalid base type is provided to the witness generator.
+ */
+export class InvalidBaseTypeError extends Error {
+  constructor(
+    public readonly baseType: string,
+    public readonly reason: string
+  ) {
+    super(`Invalid base type "${baseType}": ${reason}`);
+    this.name = 'InvalidBaseTypeError';
+  }
+}
+
+/**
+ * Rust keywords that cannot be used as base types.
+ */
+const RESERVED_KEYWORDS = new Set([
+  'as',
+  'async',
+  'await',
+  'break',
+  'const',
+  'continue',
+  'crate',
+  'dyn',
+  'else',
+  'enum',
+  'extern',
+  'false',
+  'fn',
+  'for',
+  'if',
+  'impl',
+  'in',
+  'let',
+  'loop',
+  'match',
+  'mod',
+  'move',
+  'mut',
+  'pub',
+  'ref',
+  'return',
+  'static',
+  'struct',
+  'super',
+  'trait',
+  'true',
+  'type',
+  'unsafe',
+  'use',
+  'where',
+  'while',
+]);
+
+const INTEGER_TYPES = new Set([
+  'i8',
+  'i16',
+  'i32',
+  'i64',
+  'i128',
+  'isize',
+  'u8',
+  'u16',
+  'u32',
+  'u64',
+  'u128',
+  'usize',
+]);
+
+const FLOAT_TYPES = new Set(['f32', 'f64']);
+
+/**
+ * Default upper bound on generated collection sizes, matching proptest's
+ * own default of `0..100`.
+ */
+const DEFAULT_COLLECTION_SPAN = 100;
+
+/**
+ * Validates that a base type is syntactically valid for a newtype.
+ *
+ * @param baseType - The base type string to validate.
+ * @throws InvalidBaseTypeError if the base type is invalid.
+ */
+function validateBaseType(baseType: string): void {
+  const trimmed = baseType.trim();
+
+  if (trimmed === '') {
+    throw new InvalidBaseTypeError(baseType, 'base type cannot be empty');
+  }
+
+  const pairs: Record<string, string> = { '>': '<', ')': '(', ']': '[' };
+  const stack: string[] = [];
+  for (let i = 0; i < trimmed.length; i++) {
+    const char = trimmed.charAt(i);
+    if (char === '<' || char === '(' || char === '[') {
+      stack.push(char);
+    } else if (char === '>' || char === ')' || char === ']') {
+      // Skip > if it's part of a -> return arrow
+      if (char === '>' && trimmed.charAt(i - 1) === '-') {
+        continue;
+      }
+      // eslint-disable-next-line security/detect-object-injection -- char is one of three literal keys
+      if (stack.pop() !== pairs[char]) {
+        throw new InvalidBaseTypeError(baseType, 'unbalanced brackets');
+      }
+    }
+  }
+  if (stack.length > 0) {
+    throw new InvalidBaseTypeError(baseType, 'unbalanced brackets');
+  }
+
+  if (RESERVED_KEYWORDS.has(trimmed)) {
+    throw new InvalidBaseTypeError(baseType, `"${trimmed}" is a reserved keyword`);
+  }
+}
+
+/**
+ * Converts a type name to snake_case (e.g., "NonEmptyVec" to "non_empty_vec").
+ */
+function toSnakeCase(name: string): string {
+  return name
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase();
+}
+
+/**
+ * Formats the generic parameter list for a declaration.
+ *
+ * @param typeParams - The type parameters.
+ * @param extraBounds - Bounds added to every parameter (e.g., "std::fmt::Debug").
+ * @returns Formatted list such as "<T: Ord + Clone>", or "" when not generic.
+ */
+function formatTypeParameters(
+  typeParams: RustWitnessTypeParameter[] | undefined,
+  extraBounds: string[] = []
+): string {
+  if (typeParams === undefined || typeParams.length === 0) {
+    return '';
+  }
+  const formatted = typeParams.map((tp) => {
+    const bounds = [...(tp.bounds ?? []), ...extraBounds];
+    return bounds.length > 0 ? `${tp.name}: ${bounds.join(' + ')}` : tp.name;
+  });
+  return `<${formatted.join(', ')}>`;
+}
+
+/**
+ * Formats the generic arguments for a use of the type (e.g., "<T>").
+ */
+function formatTypeArguments(typeParams: RustWitnessTypeParameter[] | undefined): string {
+  if (typeParams === undefined || typeParams.length === 0) {
+    return '';
+  }
+  return `<${typeParams.map((tp) => tp.name).join(', ')}>`;
+}
+
+/**
+ * Translates a spec invariant's formal expression into a Rust expression
+ * over `value`.
+ *
+ * Spec invariants are written against the newtype (`self.0 >= 0`,
+ * `len(self) >= 1`) and may use chained comparisons (`0.0 <= self.0 <= 1.0`).
+ * Quantified invariants (`forall`, `exists`, `implies`) have no direct Rust
+ * equivalent and return null.
+ *
+ * @param formal - The formal expression from the spec.
+ * @param baseType - The wrapped type, used to write float literals correctly.
+ * @returns The Rust expression, or null if the invariant cannot be checked.
+ *
+ * @example
+ * translateInvariant('0.0 <= self.0 <= 1.0', 'f64');
+ * // Returns '0.0 <= value && value <= 1.0'
+ */
+export function translateInvariant(formal: string, baseType: string): string | null {
+  let expr = formal.trim();
+  if (expr === '' || /\b(?:forall|exists|implies)\b/.test(expr)) {
+    return null;
+  }
+
+  expr = expr
+    .replace(/\bself\.0\b/g, 'value')
+    .replace(/\bself\b/g, 'value')
+    .replace(/\blen\(\s*([A-Za-z_][A-Za-z0-9_.]*)\s*\)/g, '$1.len()')
+    .replace(/\.length\b/g, '.len()')
+    .replace(/===/g, '==')
+    .replace(/!==/g, '!=');
+
+  // Expand chained comparisons: a <= x <= b becomes a <= x && x <= b
+  const chained = /^([^<>=!&|]+?)\s*(<=?)\s*([^<>=!&|]+?)\s*(<=?)\s*([^<>=!&|]+)$/.exec(expr);
+  if (chained !== null) {
+    const [, low = '', op1 = '', middle = '', op2 = '', high = ''] = chained;
+    expr = `${low.trim()} ${op1} ${middle.trim()} && ${middle.trim()} ${op2} ${high.trim()}`;
+  }
+
+  if (FLOAT_TYPES.has(baseType.trim())) {
+    expr = expr.replace(/(?<![\w.])(\d+)(?![\w.])/g, '$1.0');
+  }
+
+  return expr;
+}
+
+/**
+ * Converts a spec witness to a RustWitnessDefinition.
+ *
+ * Invariants with a translatable formal expression are combined into the
+ * constructor check; the rest are kept as documentation.
+ *
+ * @param witness - The witness from spec.toml.
+ * @returns The Rust witness definition.
+ * @throws InvalidBaseTypeError if the witness has no base type.
+ */
+export function specWitnessToRustDefinition(witness: SpecWitness): RustWitnessDefinition {
+  const baseType = witness.base_type?.trim() ?? '';
+  if (baseType === '') {
+    throw new InvalidBaseTypeError('', `witness ${witness.name} has no base_type`);
+  }
+
+  const checked: string[] = [];
+  const unchecked: string[] = [];
+  for (const invariant of witness.invariants) {
+    const formal = invariant.formal?.trim() ?? '';
+    const translated =
+      invariant.testable !== false && formal !== '' ? translateInvariant(formal, baseType) : null;
+    if (translated !== null) {
+      checked.push(translated.includes('||') ? `(${translated})` : translated);
+    } else {
+      const text = invariant.description ?? formal;
+      if (text !== '') {
+        unchecked.push(text);
+      }
+    }
+  }
+
+  const typeParameters = (witness.type_params ?? [])
+    .filter((param): param is { name: string; bounds?: string[] } => param.name !== undefined)
+    .map((param) => ({
+      name: param.name,
+      ...(param.bounds !== undefined && param.bounds.length > 0 ? { bounds: param.bounds } : {}),
+    }));
+
+  return {
+    name: witness.name,
+    baseType,
+    ...(typeParameters.length > 0 ? { typeParameters } : {}),
+    ...(checked.length > 0 ? { invariant: checked.join(' && ') } : {}),
+    ...(unchecked.length > 0 ? { uncheckedInvariants: unchecked } : {}),
+    ...(witness.description !== undefined ? { description: witness.description } : {}),
+  };
+}
+
+/**
+ * Generates a Rust newtype definition from a witness definition.
+ *
+ * The generated type wraps the base type in a tuple struct with a private
+ * field, so values can only be created through `new`, which returns `None`
+ * when the invariant does not hold.
+ *
+ * @param witness - The witness definition.
+ * @param options - Options for code generation.
+ * @returns The Rust source for the newtype and its impls.
+ * @throws InvalidBaseTypeError if the base type is invalid.
+ *
+ * @example
+ * generateNewtype({ name: 'NonNegative', baseType: 'i64', invariant: 'value >= 0' });
+ * // Returns code for:
+ * //   pub struct NonNegative(i64);
+ * //   impl NonNegative { pub fn new(value: i64) -> Option<Self> { ... } ... }
+ */
+export function generateNewtype(
+  witness: RustWitnessDefinition,
+  options: NewtypeOptions = {}
+): string {
+  validateBaseType(witness.baseType);
+
+  const { includeDocs = true, derives = ['Debug', 'Clone', 'PartialEq'] } = options;
+  const name = witness.name;
+  const base = witness.baseType.trim();
+  const params = formatTypeParameters(witness.typeParameters);
+  const args = formatTypeArguments(witness.typeParameters);
+  const lines: string[] = [];
+
+  if (includeDocs) {
+    lines.push(`/// ${witness.description ?? `${name} type witness.`}`);
+    if (witness.invariant !== undefined) {
+      lines.push('///');
+      lines.push(`/// Invariant: \`${witness.invariant}\``);
+    }
+    if (witness.uncheckedInvariants !== undefined && witness.uncheckedInvariants.length > 0) {
+      lines.push('///');
+      lines.push('/// Not checked at runtime:');
+      for (const invariant of witness.uncheckedInvariants) {
+        lines.push(`/// - ${invariant}`);
+      }
+    }
+  }
+  if (derives.length > 0) {
+    lines.push(`#[derive(${derives.join(', ')})]`);
+  }
+  lines.push(`pub struct ${name}${args}(${base});`);
+  lines.push('');
+
+  lines.push(`impl${params} ${name}${args} {`);
+  if (includeDocs) {
+    lines.push(
+      witness.invariant !== undefined
+        ? `    /// Creates a \`${name}\`, returning \`None\` if \`value\` violates the invariant.`
+        : `    /// Creates a \`${name}\`.`
+    );
+  }
+  lines.push(`    pub fn new(value: ${base}) -> Option<Self> {`);
+  if (witness.invariant !== undefined) {
+    lines.push(`        if ${witness.invariant} {`);
+    lines.push('            Some(Self(value))');
+    lines.push('        } else {');
+    lines.push('            None');
+    lines.push('        }');
+  } else {
+    lines.push('        Some(Self(value))');
+  }
+  lines.push('    }');
+  lines.push('');
+  if (includeDocs) {
+    lines.push('    /// Returns a reference to the wrapped value.');
+  }
+  lines.push(`    pub fn get(&self) -> &${base} {`);
+  lines.push('        &self.0');
+  lines.push('    }');
+  lines.push('');
+  if (includeDocs) {
+    lines.push('    /// Consumes the witness, returning the wrapped value.');
+  }
+  lines.push(`    pub fn into_inner(self) -> ${base} {`);
+  lines.push('        self.0');
+  lines.push('    }');
+  lines.push('}');
+  lines.push('');
+
+  lines.push(`impl${params} AsRef<${base}> for ${name}${args} {`);
+  lines.push(`    fn as_ref(&self) -> &${base} {`);
+  lines.push('        &self.0');
+  lines.push('    }');
+  lines.push('}');
+
+  return lines.join('\n');
+}
+
+/**
+ * Numeric or length bounds extracted from an invariant.
+ */
+interface InvariantBounds {
+  /** Inclusive lower bound */
+  min?: string;
+  /** Inclusive upper bound */
+  max?: string;
+  /** Exclusive upper bound */
+  maxExclusive?: string;
+}
+
+/**
+ * Extracts bounds on a subject (`value` or `value.len()`) from the
+ * conjuncts of an invariant.
+ *
+ * @param invariant - Rust expression over `value`.
+ * @param subject - The bounded expression, as a regex source.
+ * @param integral - Whether strict bounds can be tightened by one.
+ */
+function extractBounds(
+  invariant: string | undefined,
+  subject: string,
+  integral: boolean
+): InvariantBounds {
+  const bounds: InvariantBounds = {};
+  if (invariant === undefined) {
+    return bounds;
+  }
+
+  const number = '(-?\\d+(?:\\.\\d+)?)';
+  for (const raw of invariant.split('&&')) {
+    const conjunct = raw.trim();
+    const upper =
+      comparison(new RegExp(`^${subject}\\s*(<=?)\\s*${number}$`).exec(conjunct), false) ??
+      comparison(new RegExp(`^${number}\\s*(>=?)\\s*${subject}$`).exec(conjunct), true);
+    const lower =
+      comparison(new RegExp(`^${subject}\\s*(>=?)\\s*${number}$`).exec(conjunct), false) ??
+      comparison(new RegExp(`^${number}\\s*(<=?)\\s*${subject}$`).exec(conjunct), true);
+
+    if (lower !== null) {
+      const [op, value] = lower;
+      bounds.min = op === '>' && integral ? String(Number(value) + 1) : value;
+    }
+    if (upper !== null) {
+      const [op, value] = upper;
+      if (op === '<=') {
+        bounds.max = value;
+      } else if (integral) {
+        bounds.maxExclusive = value;
+      } else {
+        bounds.max = value;
+      }
+    }
+  }
+  return bounds;
+}
+
+/**
+ * Reads a comparison match as [operator, number]. With `flip`, a match of
+ * the reversed form `N >= x` is turned into `x <= N`.
+ */
+function comparison(match: RegExpExecArray | null, flip: boolean): [string, string] | null {
+  if (match === null) {
+    return null;
+  }
+  if (!flip) {
+    return [match[1] ?? '', match[2] ?? ''];
+  }
+  const [, value = '', op = ''] = match;
+  return [op.startsWith('<') ? op.replace('<', '>') : op.replace('>', '<'), value];
+}
+
+/**
+ * Builds a size range for `prop::collection::vec` from length bounds.
+ */
+function sizeRange(bounds: InvariantBounds): string {
+  const min = Number(bounds.min ?? '0');
+  if (bounds.max !== undefined) {
+    return `${String(min)}..=${bounds.max}`;
+  }
+  if (bounds.maxExclusive !== undefined) {
+    return `${String(min)}..${bounds.maxExclusive}`;
+  }
+  return `${String(min)}..${String(min + DEFAULT_COLLECTION_SPAN)}`;
+}
+
+/**
+ * Builds a numeric range strategy from bounds, e.g. `(0i64..=100i64)`.
+ */
+function numericRange(bounds: InvariantBounds, type: string): string | null {
+  const literal = (value: string): string =>
+    FLOAT_TYPES.has(type) && !value.includes('.') ? `${value}.0${type}` : `${value}${type}`;
+  const low = bounds.min !== undefined ? literal(bounds.min) : '';
+  if (bounds.max !== undefined) {
+    return `(${low}..=${literal(bounds.max)})`;
+  }
+  if (bounds.maxExclusive !== undefined) {
+    return `(${low}..${literal(bounds.maxExclusive)})`;
+  }
+  return low !== '' ? `(${low}..)` : null;
+}
+
+/**
+ * Splits a generic type such as `Vec<u8>` into its head and single argument.
+ */
+function splitGeneric(type: string): { head: string; arg: string } | null {
+  const match = /^([A-Za-z_][A-Za-z0-9_:]*)\s*<(.+)>$/.exec(type);
+  if (match === null) {
+    return null;
+  }
+  return { head: match[1] ?? '', arg: (match[2] ?? '').trim() };
+}
+
+/**
+ * Picks a proptest strategy expression for a type.
+ *
+ * @param type - The Rust type.
+ * @param typeParams - Names of generic parameters with strategy arguments.
+ * @param invariant - Invariant over `value`, used to bound the top-level type.
+ * @returns The strategy expression.
+ */
+function strategyFor(type: string, typeParams: Set<string>, invariant?: string): string {
+  const trimmed = type.trim();
+
+  if (typeParams.has(trimmed)) {
+    return `arb_${trimmed.toLowerCase()}`;
+  }
+
+  if (INTEGER_TYPES.has(trimmed) || FLOAT_TYPES.has(trimmed)) {
+    const bounds = extractBounds(invariant, 'value', INTEGER_TYPES.has(trimmed));
+    const range = numericRange(bounds, trimmed);
+    if (range !== null) {
+      return range;
+    }
+    // Excludes NaN and infinities, like fast-check's noNaN floats
+    return FLOAT_TYPES.has(trimmed) ? `prop::num::${trimmed}::NORMAL` : `any::<${trimmed}>()`;
+  }
+
+  if (trimmed === 'String') {
+    const bounds = extractBounds(invariant, 'value\\.len\\(\\)', true);
+    const min = bounds.min ?? '0';
+    const max =
+      bounds.max ??
+      (bounds.maxExclusive !== undefined ? String(Number(bounds.maxExclusive) - 1) : '');
+    if (bounds.min === undefined && max === '') {
+      return '".*"';
+    }
+    return `".{${min},${max}}"`;
+  }
+
+  const generic = splitGeneric(trimmed);
+  if (generic !== null && (generic.head === 'Vec' || generic.head === 'std::vec::Vec')) {
+    const bounds = extractBounds(invariant, 'value\\.len\\(\\)', true);
+    return `prop::collection::vec(${strategyFor(generic.arg, typeParams)}, ${sizeRange(bounds)})`;
+  }
+  if (generic !== null && generic.head === 'Option') {
+    return `prop::option::of(${strategyFor(generic.arg, typeParams)})`;
+  }
+
+  return `any::<${trimmed}>()`;
+}
+
+/**
+ * Generates a proptest strategy that produces valid witness values.
+ *
+ * The base strategy is narrowed using bounds found in the invariant
+ * (numeric ranges, string and collection lengths), and candidate values are
+ * passed through the witness's `new` constructor with `prop_filter_map` so
+ * that every generated value satisfies the full invariant. Shrinking stays
+ * within the valid region because rejected candidates are discarded.
+ *
+ * @param witness - The witness definition.
+ * @param options - Options for code generation.
+ * @returns The Rust source for a `arb_<name>` strategy function.
+ * @throws InvalidBaseTypeError if the base type is invalid.
+ *
+ * @example
+ * generateProptestStrategy({ name: 'Percentage', baseType: 'f64',
+ *   invariant: '0.0 <= value && value <= 100.0' });
+ * // Returns code generating: (0.0f64..=100.0f64).prop_filter_map(..., Percentage::new)
+ *
+ * @example
+ * // Generic witnesses take a strategy per type parameter
+ * generateProptestStrategy({ name: 'NonEmptyVec', baseType: 'Vec<T>',
+ *   typeParameters: [{ name: 'T' }], invariant: 'value.len() > 0' });
+ * // Returns: pub fn arb_non_empty_vec<T: std::fmt::Debug>(arb_t: impl Strategy<Value = T>) ...
+ */
+export function generateProptestStrategy(
+  witness: RustWitnessDefinition,
+  options: StrategyOptions = {}
+): string {
+  validateBaseType(witness.baseType);
+
+  const { includeDocs = true } = options;
+  const name = witness.name;
+  const typeParams = witness.typeParameters ?? [];
+  const typeParamNames = new Set(typeParams.map((tp) => tp.name));
+  const params = formatTypeParameters(witness.typeParameters, ['std::fmt::Debug']);
+  const args = formatTypeArguments(witness.typeParameters);
+  const strategyArgs = typeParams
+    .map((tp) => `arb_${tp.name.toLowerCase()}: impl Strategy<Value = ${tp.name}>`)
+    .join(', ');
+
+  const base = strategyFor(witness.baseType, typeParamNames, witness.invariant);
+  const body =
+    witness.invariant !== undefined
+      ? `${base}.prop_filter_map("${escapeRustString(witness.invariant)}", ${name}::new)`
+      : `${base}.prop_map(${name})`;
+
+  const lines: string[] = [];
+  if (includeDocs) {
+    lines.push(`/// Proptest strategy for \`${name}\` values.`);
+    if (witness.invariant !== undefined) {
+      lines.push('///');
+      lines.push(`/// Generated values satisfy: \`${witness.invariant}\``);
+    }
+    for (const tp of typeParams) {
+      lines.push(
+        `/// \`arb_${tp.name.toLowerCase()}\` generates values for type parameter \`${tp.name}\`.`
+      );
+    }
+  }
+  lines.push(
+    `pub fn arb_${toSnakeCase(name)}${params}(${strategyArgs}) -> impl Strategy<Value = ${name}${args}> {`
+  );
+  lines.push(`    ${body}`);
+  lines.push('}');
+
+  return lines.join('\n');
+}
+
+/**
+ * Generates a Rust module with newtypes and strategies for spec witnesses.
+ *
+ * Strategies are placed in a `#[cfg(test)]` submodule since proptest is
+ * normally a dev-dependency.
+ *
+ * @param witnesses - The witnesses from spec.toml.
+ * @param options - Options for code generation.
+ * @returns The Rust module source.
+ */
+export function generateRustWitnessModule(
+  witnesses: readonly SpecWitness[],
+  options: NewtypeOptions = {}
+): string {
+  const definitions = witnesses.map(specWitnessToRustDefinition);
+  const sections: string[] = ['//! Type witnesses generated from the specification.', ''];
+
+  for (const definition of definitions) {
+    sections.push(generateNewtype(definition, options), '');
+  }
+
+  if (definitions.length > 0) {
+    sections.push('#[cfg(test)]');
+    sections.push('pub mod strategies {');
+    sections.push('    use super::*;');
+    sections.push('    use proptest::prelude::*;');
+    for (const definition of definitions) {
+      sections.push('');
+      const strategy = generateProptestStrategy(definition, {
+        ...(options.includeDocs !== undefined ? { includeDocs: options.includeDocs } : {}),
+      });
+      sections.push(...strategy.split('\n').map((line) => `    ${line}`));
+    }
+    sections.push('}', '');
+  }
+
+  return sections.join('\n');
+}
+
+/**
+ * Escapes text for use in a Rust string literal.
+ */
+function escapeRustString(str: string): string {
+  return str.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdtempSync, rmSync } from 'node:fs';
+import { mkdirSync, mkdtempSync, rmSync } from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
 import { Project } from 'ts-morph';
@@ -11,7 +11,9 @@ import {
   FunctionNotFoundError,
   InvalidBodySyntaxError,
   orderByDependency,
+  buildDependencyMap,
   inspectAst,
+  getFunctionId,
   type TodoFunction,
 } from './ast.js';
 import { safeWriteFileSync, safeReadFileSync, safeExistsSync } from '../../utils/safe-fs.js';
@@ -356,6 +358,129 @@ describe('findTodoFunctions', () => {
     });
   });
 
+  describe('function identity', () => {
+    it('qualifies ids with the module path and container chain', () => {
+      addSourceFile(
+        'accounts.ts',
+        `
+        export class Account {
+          withdraw(amount: number): void {
+            throw new Error('TODO');
+          }
+          audit = (): void => {
+            throw new Error('TODO');
+          };
+        }
+        export namespace Fees.Tiers {
+          export function rate(): number {
+            throw new Error('TODO');
+          }
+        }
+        export const handlers = {
+          onOpen(): void {
+            throw new Error('TODO');
+          },
+        };
+        export function outer(): void {
+          function inner(): void {
+            throw new Error('TODO');
+          }
+          throw new Error('TODO');
+        }
+        export default function (): void {
+          throw new Error('TODO');
+        }
+      `
+      );
+
+      const ids = findTodoFunctions(project, { projectRoot: tempDir }).map((todo) => todo.id);
+
+      expect(ids.sort()).toEqual([
+        'accounts.ts::Account.audit',
+        'accounts.ts::Account.withdraw',
+        'accounts.ts::Fees.Tiers.rate',
+        'accounts.ts::default',
+        'accounts.ts::handlers.onOpen',
+        'accounts.ts::outer',
+        'accounts.ts::outer.inner',
+      ]);
+    });
+
+    it('numbers functions that share a qualified name', () => {
+      addSourceFile(
+        'parsers.ts',
+        `
+        if (process.env.LEGACY) {
+          function parse(): void {
+            return;
+          }
+        } else {
+          function parse(): void {
+            throw new Error('TODO');
+          }
+        }
+      `
+      );
+
+      const todos = findTodoFunctions(project, { projectRoot: tempDir });
+
+      expect(todos.map((todo) => todo.id)).toEqual(['parsers.ts::parse~1']);
+    });
+
+    it('does not depend on line numbers', () => {
+      const filePath = addSourceFile(
+        'shifted.ts',
+        `export function add(a: number, b: number): number {
+  throw new Error('TODO');
+}`
+      );
+      const before = findTodoFunctions(project, { projectRoot: tempDir })[0]?.id;
+
+      project.getSourceFileOrThrow(filePath).insertText(0, '// header\n\n\n');
+      const after = findTodoFunctions(project, { projectRoot: tempDir })[0]?.id;
+
+      expect(before).toBe('shifted.ts::add');
+      expect(after).toBe(before);
+    });
+
+    it('keeps the original module path across recorded file moves', () => {
+      mkdirSync(path.join(tempDir, 'lib', 'billing'), { recursive: true });
+      addSourceFile(
+        'lib/billing/invoice.ts',
+        `export function total(): number {
+  throw new Error('TODO');
+}`
+      );
+
+      const todos = findTodoFunctions(project, {
+        projectRoot: tempDir,
+        fileMoves: [
+          { from: 'src/invoice.ts', to: 'src/billing/invoice.ts' },
+          { from: 'src', to: 'lib' },
+        ],
+      });
+
+      expect(todos[0]?.id).toBe('src/invoice.ts::total');
+    });
+
+    it('gets the id of a single function node', () => {
+      const filePath = addSourceFile(
+        'single.ts',
+        `export class Ledger {
+  append(): void {
+    return;
+  }
+}`
+      );
+      const method = project
+        .getSourceFileOrThrow(filePath)
+        .getClassOrThrow('Ledger')
+        .getMethodOrThrow('append');
+
+      expect(getFunctionId(method, { projectRoot: tempDir })).toBe('single.ts::Ledger.append');
+    });
+  });
+
   describe('arrow functions', () => {
     it('detects TODO in arrow functions assigned to variables', () => {
       addSourceFile(
@@ -780,6 +905,44 @@ return await response.text();`
       expect(content).toContain('return this.value;');
       expect(content).toContain('setValue(v: number): void');
     });
+
+    it('selects a method by function id when names repeat', () => {
+      const filePath = addSourceFile(
+        'shapes.ts',
+        `export class Circle {
+  area(): number {
+    throw new Error('TODO');
+  }
+}
+export class Square {
+  area(): number {
+    throw new Error('TODO');
+  }
+}`
+      );
+
+      // The module path is ignored, so ids recorded before a move still match
+      injectFunctionBody(project, filePath, 'old/shapes.ts::Square.area', 'return 4;');
+
+      const content = readFileContent(filePath);
+      expect(content).toMatch(/class Circle \{\s+area\(\): number \{\s+throw new Error\('TODO'\)/);
+      expect(content).toMatch(/class Square \{\s+area\(\): number \{\s+return 4;/);
+    });
+
+    it('throws FunctionNotFoundError for an unknown function id', () => {
+      const filePath = addSourceFile(
+        'circle.ts',
+        `export class Circle {
+  area(): number {
+    throw new Error('TODO');
+  }
+}`
+      );
+
+      expect(() => {
+        injectFunctionBody(project, filePath, 'circle.ts::Circle.area~1', 'return 1;');
+      }).toThrow(FunctionNotFoundError);
+    });
   });
 
   describe('arrow functions', () => {
@@ -1096,6 +1259,7 @@ describe('orderByDependency', () => {
 
   function createTodoFunction(name: string, filePath: string, line: number): TodoFunction {
     return {
+      id: `${filePath}::${name}`,
       name,
       filePath,
       line,
@@ -1719,6 +1883,134 @@ describe('orderByDependency', () => {
   });
 });
 
+describe('buildDependencyMap', () => {
+  let tempDir: string;
+  let project: Project;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), 'deps-test-'));
+    project = createProject();
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function createTodoFunction(name: string, filePath: string, line: number): TodoFunction {
+    return {
+      id: `${filePath}::${name}`,
+      name,
+      filePath,
+      line,
+      signature: `function ${name}()`,
+      hasTodoBody: true,
+    };
+  }
+
+  it('maps each function to the TODO functions it calls', () => {
+    const filePath = path.join(tempDir, 'deps.ts');
+    safeWriteFileSync(
+      filePath,
+      `
+export function functionA(): number {
+  return functionB() + functionC();
+}
+
+export function functionB(): number {
+  return functionC() * 2;
+}
+
+export function functionC(): number {
+  return Math.max(1, 2);
+}
+`
+    );
+    project.addSourceFileAtPath(filePath);
+
+    const deps = buildDependencyMap(
+      [
+        createTodoFunction('functionA', filePath, 2),
+        createTodoFunction('functionB', filePath, 6),
+        createTodoFunction('functionC', filePath, 10),
+      ],
+      project
+    );
+
+    expect(deps.get(`${filePath}::functionA`)).toEqual(
+      new Set([`${filePath}::functionB`, `${filePath}::functionC`])
+    );
+    expect(deps.get(`${filePath}::functionB`)).toEqual(new Set([`${filePath}::functionC`]));
+    expect(deps.get(`${filePath}::functionC`)).toEqual(new Set());
+  });
+
+  it('keeps same-named methods in different classes apart', () => {
+    const filePath = path.join(tempDir, 'methods.ts');
+    safeWriteFileSync(
+      filePath,
+      `
+export function prepare(): number {
+  return 1;
+}
+
+export class Alpha {
+  run(): number {
+    return prepare();
+  }
+}
+
+export class Beta {
+  run(): number {
+    return 2;
+  }
+}
+`
+    );
+    project.addSourceFileAtPath(filePath);
+    const alphaRun: TodoFunction = {
+      ...createTodoFunction('run', filePath, 7),
+      id: `${filePath}::Alpha.run`,
+    };
+    const betaRun: TodoFunction = {
+      ...createTodoFunction('run', filePath, 13),
+      id: `${filePath}::Beta.run`,
+    };
+
+    const deps = buildDependencyMap(
+      [createTodoFunction('prepare', filePath, 2), alphaRun, betaRun],
+      project
+    );
+
+    expect(deps.size).toBe(3);
+    expect(deps.get(alphaRun.id)).toEqual(new Set([`${filePath}::prepare`]));
+    expect(deps.get(betaRun.id)).toEqual(new Set());
+  });
+
+  it('ignores calls to functions outside the given set', () => {
+    const filePath = path.join(tempDir, 'partial.ts');
+    safeWriteFileSync(
+      filePath,
+      `
+export function caller(): number {
+  return helper();
+}
+
+export function helper(): number {
+  return 1;
+}
+`
+    );
+    project.addSourceFileAtPath(filePath);
+
+    const deps = buildDependencyMap([createTodoFunction('caller', filePath, 2)], project);
+
+    expect(deps.get(`${filePath}::caller`)).toEqual(new Set());
+  });
+
+  it('returns an empty map for no functions', () => {
+    expect(buildDependencyMap([], project).size).toBe(0);
+  });
+});
+
 describe('inspectAst', () => {
   let tempDir: string;
 
@@ -17,6 +17,8 @@ import {
 } from 'ts-morph';
 import * as path from 'node:path';
 import { safeExistsSync } from '../../utils/safe-fs.js';
+import type { FileMove } from '../../ledger/types.js';
+import { createFunctionId, getQualifiedName, type FunctionId } from './function-id.js';
 
 /**
  * Error thrown when a tsconfig.json file cannot be found.
@@ -79,6 +81,8 @@ export function createProject(tsConfigPath?: string): Project {
  * Represents a function with a TODO body that needs implementation.
  */
 export interface TodoFunction {
+  /** Canonical id: module path, container chain, name and overload index */
+  id: FunctionId;
   /** The name of the function (or '<anonymous>' for unnamed functions) */
   name: string;
   /** The absolute file path where the function is defined */
@@ -92,9 +96,23 @@ export interface TodoFunction {
 }
 
 /**
- * Internal type for function-like declarations that can have TODO bodies.
+ * Options for deriving function ids.
  */
-type FunctionLike = FunctionDeclaration | MethodDeclaration | ArrowFunction | FunctionExpression;
+export interface FunctionIdOptions {
+  /** Project root that module paths are relative to. Default: the current directory. */
+  projectRoot?: string;
+  /** File moves recorded in the ledger, oldest first. */
+  fileMoves?: readonly FileMove[];
+}
+
+/**
+ * Function-like declarations that can have TODO bodies.
+ */
+export type FunctionLike =
+  | FunctionDeclaration
+  | MethodDeclaration
+  | ArrowFunction
+  | FunctionExpression;
 
 /**
  * Regular expression patterns for detecting TODO markers.
@@ -192,9 +210,141 @@ function getFunctionName(functionNode: FunctionLike): string {
     }
   }
 
+  // For class properties like class A { myFunc = () => {} }
+  const property = parent.asKind(SyntaxKind.PropertyDeclaration);
+  if (property !== undefined) {
+    return property.getName();
+  }
+
+  // For `export default function () {}`
+  if (functionNode.isKind(SyntaxKind.FunctionDeclaration) && functionNode.isDefaultExport()) {
+    return 'default';
+  }
+
   return '<anonymous>';
 }
 
+/**
+ * Gets the names of the declarations enclosing a function, outermost first.
+ *
+ * Classes, namespaces, named object literals and enclosing functions count
+ * as containers.
+ *
+ * @param functionNode - The function-like node.
+ * @returns The container chain.
+ */
+function getFunctionContainers(functionNode: FunctionLike): string[] {
+  const containers: string[] = [];
+
+  for (const ancestor of functionNode.getAncestors()) {
+    const kind = ancestor.getKind();
+    if (kind === SyntaxKind.ClassDeclaration || kind === SyntaxKind.ClassExpression) {
+      const classNode = ancestor.asKindOrThrow(kind);
+      const variable = classNode.getParentIfKind(SyntaxKind.VariableDeclaration);
+      containers.push(
+        classNode.getName() ??
+          variable?.getName() ??
+          (classNode.isKind(SyntaxKind.ClassDeclaration) && classNode.isDefaultExport()
+            ? 'default'
+            : '<anonymous>')
+      );
+    } else if (kind === SyntaxKind.ModuleDeclaration) {
+      // `namespace A.B {}` nests B directly inside A, whose name is already 'A.B'
+      if (ancestor.getParentIfKind(SyntaxKind.ModuleDeclaration) === undefined) {
+        containers.push(ancestor.asKindOrThrow(SyntaxKind.ModuleDeclaration).getName());
+      }
+    } else if (kind === SyntaxKind.ObjectLiteralExpression) {
+      const owner =
+        ancestor.getParentIfKind(SyntaxKind.VariableDeclaration) ??
+        ancestor.getParentIfKind(SyntaxKind.PropertyAssignment);
+      if (owner !== undefined) {
+        containers.push(owner.getName());
+      }
+    } else if (
+      kind === SyntaxKind.FunctionDeclaration ||
+      kind === SyntaxKind.MethodDeclaration ||
+      kind === SyntaxKind.ArrowFunction ||
+      kind === SyntaxKind.FunctionExpression
+    ) {
+      containers.push(getFunctionName(ancestor as FunctionLike));
+    } else if (kind === SyntaxKind.Constructor) {
+      containers.push('constructor');
+    } else if (kind === SyntaxKind.GetAccessor || kind === SyntaxKind.SetAccessor) {
+      containers.push(ancestor.asKindOrThrow(kind).getName());
+    }
+  }
+
+  // getAncestors() walks outwards
+  return containers.reverse();
+}
+
+/**
+ * Assigns canonical ids to the functions with bodies in a source file.
+ *
+ * The overload index counts earlier functions in the file with the same
+ * container chain and name, so ids only change when such a function is
+ * added or removed above.
+ *
+ * @param sourceFile - The source file.
+ * @param options - Project root and recorded file moves.
+ * @returns Map of function node to id.
+ */
+function assignFunctionIds(
+  sourceFile: SourceFile,
+  options: FunctionIdOptions
+): Map<FunctionLike, FunctionId> {
+  const projectRoot = options.projectRoot ?? process.cwd();
+  const seen = new Map<string, number>();
+  const ids = new Map<FunctionLike, FunctionId>();
+
+  for (const func of collectFunctions(sourceFile)) {
+    if (!func.getBody()) {
+      continue;
+    }
+    const containers = getFunctionContainers(func);
+    const name = getFunctionName(func);
+    const key = [...containers, name].join('.');
+    const overload = seen.get(key) ?? 0;
+    seen.set(key, overload + 1);
+    ids.set(
+      func,
+      createFunctionId(
+        sourceFile.getFilePath(),
+        projectRoot,
+        { containers, name, overload },
+        options.fileMoves
+      )
+    );
+  }
+
+  return ids;
+}
+
+/**
+ * Gets the canonical id of a function.
+ *
+ * @param functionNode - The function-like node (must have a body).
+ * @param options - Project root and recorded file moves.
+ * @returns The function id.
+ *
+ * @example
+ * // class Account { withdraw() { ... } } in /project/src/account.ts
+ * getFunctionId(withdraw, { projectRoot: '/project' }); // 'src/account.ts::Account.withdraw'
+ */
+export function getFunctionId(
+  functionNode: FunctionLike,
+  options: FunctionIdOptions = {}
+): FunctionId {
+  const id = assignFunctionIds(functionNode.getSourceFile(), options).get(functionNode);
+  if (id === undefined) {
+    throw new FunctionNotFoundError(
+      getFunctionName(functionNode),
+      functionNode.getSourceFile().getFilePath()
+    );
+  }
+  return id;
+}
+
 /**
  * Collects all function-like declarations from a source file.
  *
@@ -234,31 +384,42 @@ function buildCallGraph(functions: FunctionLike[]): Map<string, Set<string>> {
   const callGraph = new Map<string, Set<string>>();
 
   for (const func of functions) {
-    const name = getFunctionName(func);
-    const calls = new Set<string>();
+    callGraph.set(getFunctionName(func), collectCalledNames(func, functionNames));
+  }
 
-    // Find all call expressions in the function body
-    const body = func.getBody();
-    if (body) {
-      // Use getDescendantsOfKind for optimized traversal
-      const callExpressions = body.getDescendantsOfKind(SyntaxKind.CallExpression);
-      for (const callExpr of callExpressions) {
-        const expr = callExpr.getExpression();
-        // Get the identifier being called
-        if (expr.getKind() === SyntaxKind.Identifier) {
-          const calledName = expr.getText();
-          // Only track calls to functions in our set
-          if (functionNames.has(calledName) && calledName !== name) {
-            calls.add(calledName);
-          }
+  return callGraph;
+}
+
+/**
+ * Collects the names a function calls directly, limited to a set of names.
+ *
+ * @param func - The function-like node.
+ * @param functionNames - The names to track.
+ * @returns The tracked names called from the function body, excluding itself.
+ */
+function collectCalledNames(func: FunctionLike, functionNames: Set<string>): Set<string> {
+  const name = getFunctionName(func);
+  const calls = new Set<string>();
+
+  // Find all call expressions in the function body
+  const body = func.getBody();
+  if (body) {
+    // Use getDescendantsOfKind for optimized traversal
+    const callExpressions = body.getDescendantsOfKind(SyntaxKind.CallExpression);
+    for (const callExpr of callExpressions) {
+      const expr = callExpr.getExpression();
+      // Get the identifier being called
+      if (expr.getKind() === SyntaxKind.Identifier) {
+        const calledName = expr.getText();
+        // Only track calls to functions in our set
+        if (functionNames.has(calledName) && calledName !== name) {
+          calls.add(calledName);
         }
       }
     }
-
-    callGraph.set(name, calls);
   }
 
-  return callGraph;
+  return calls;
 }
 
 /**
@@ -336,7 +497,7 @@ function findStronglyConnectedComponents(
  * @returns Sorted array with leaves first (dependencies before dependents).
  *          Functions in cycles are grouped together as a batch.
  */
-function topologicalSort(
+export function topologicalSort(
   functions: TodoFunction[],
   callGraph: Map<string, Set<string>>
 ): TodoFunction[] {
@@ -548,9 +709,75 @@ export function orderByDependency(functions: TodoFunction[], project: Project):
     return [];
   }
 
-  // Optimize: Only analyze files that contain the TODO functions we are interested in
-  // instead of scanning the entire project. This significantly reduces AST traversal overhead.
+  // Build call graph from only the relevant functions
+  // Note: buildCallGraph will only track calls TO functions present in the input array.
+  // Since we only pass the AST nodes for our TodoFunctions, it will track dependencies
+  // between TodoFunctions, which is exactly what topologicalSort needs.
+  const callGraph = buildCallGraph(collectTodoFunctionNodes(functions, project));
+
+  // Perform topological sort
+  return topologicalSort(functions, callGraph);
+}
 
+/**
+ * Builds the dependency map between TODO functions.
+ *
+ * Each function id maps to the ids of the other TODO functions it calls, so
+ * same-named methods in different classes or modules stay apart. Calls are
+ * resolved by name; a call whose name several TODO functions share depends on
+ * all of them. Calls to functions outside the given set are ignored, so a
+ * function with an empty dependency set can be implemented without waiting on
+ * any other TODO.
+ *
+ * @param functions - Array of TodoFunction objects to analyze.
+ * @param project - The ts-morph Project containing the source files.
+ * @returns Map of function id to the ids of TODO functions it depends on.
+ *
+ * @example
+ * // If A calls B and B calls C
+ * const deps = buildDependencyMap([A, B, C], project);
+ * // deps.get(A.id) => Set { B.id }, deps.get(C.id) => Set {}
+ */
+export function buildDependencyMap(
+  functions: TodoFunction[],
+  project: Project
+): Map<FunctionId, Set<FunctionId>> {
+  const dependencies = new Map<FunctionId, Set<FunctionId>>();
+
+  const idsByName = new Map<string, FunctionId[]>();
+  for (const func of functions) {
+    idsByName.set(func.name, [...(idsByName.get(func.name) ?? []), func.id]);
+  }
+  const todoNames = new Set(idsByName.keys());
+
+  for (const func of functions) {
+    const sourceFile = project.getSourceFile(func.filePath);
+    const node = sourceFile !== undefined ? findFunctionById(sourceFile, func.id) : undefined;
+    const deps = new Set<FunctionId>();
+    for (const called of node !== undefined ? collectCalledNames(node, todoNames) : []) {
+      for (const id of idsByName.get(called) ?? []) {
+        if (id !== func.id) {
+          deps.add(id);
+        }
+      }
+    }
+    dependencies.set(func.id, deps);
+  }
+
+  return dependencies;
+}
+
+/**
+ * Resolves the AST nodes for a set of TODO functions.
+ *
+ * Only analyzes files that contain the TODO functions we are interested in
+ * instead of scanning the entire project.
+ *
+ * @param functions - Array of TodoFunction objects to resolve.
+ * @param project - The ts-morph Project containing the source files.
+ * @returns The function-like nodes for the given functions.
+ */
+function collectTodoFunctionNodes(functions: TodoFunction[], project: Project): FunctionLike[] {
   // Group functions by file path to process each file once
   const funcsByFile = new Map<string, TodoFunction[]>();
   for (const func of functions) {
@@ -600,14 +827,7 @@ export function orderByDependency(functions: TodoFunction[], project: Project):
     }
   }
 
-  // Build call graph from only the relevant functions
-  // Note: buildCallGraph will only track calls TO functions present in the input array.
-  // Since we only pass the AST nodes for our TodoFunctions, it will track dependencies
-  // between TodoFunctions, which is exactly what topologicalSort needs.
-  const callGraph = buildCallGraph(relevantAstNodes);
-
-  // Perform topological sort
-  return topologicalSort(functions, callGraph);
+  return relevantAstNodes;
 }
 
 /**
@@ -750,6 +970,26 @@ function validateBodySyntax(
   }
 }
 
+/**
+ * Finds the function with a given id in a source file.
+ *
+ * Only the qualified part of the id (containers, name and overload) is
+ * compared, so ids recorded before the file moved still match.
+ *
+ * @param sourceFile - The source file to search in.
+ * @param id - The function id.
+ * @returns The function node if found, undefined otherwise.
+ */
+function findFunctionById(sourceFile: SourceFile, id: FunctionId): FunctionLike | undefined {
+  const qualifiedName = getQualifiedName(id);
+  for (const [func, candidate] of assignFunctionIds(sourceFile, {})) {
+    if (getQualifiedName(candidate) === qualifiedName) {
+      return func;
+    }
+  }
+  return undefined;
+}
+
 /**
  * Injects a function body into an existing function, replacing the current body.
  *
@@ -760,9 +1000,14 @@ function validateBodySyntax(
  * - Handles generator functions (body may contain yield)
  * - Saves changes to the source file after injection
  *
+ * The target is either a {@link FunctionId}, which selects methods, nested
+ * functions and overloads unambiguously, or a plain name, which selects the
+ * first top-level function, class method or variable-bound function with
+ * that name.
+ *
  * @param project - The ts-morph Project containing the file.
  * @param filePath - The path to the source file containing the function.
- * @param functionName - The name of the function to inject into.
+ * @param functionName - The id or name of the function to inject into.
  * @param body - The new function body to inject (without curly braces).
  * @throws {FunctionNotFoundError} If the function doesn't exist in the file.
  * @throws {InvalidBodySyntaxError} If the body contains syntax errors.
@@ -771,6 +1016,7 @@ function validateBodySyntax(
  * // Injecting 'return a + b;' into add(a, b) { throw new Error('TODO'); }
  * // produces add(a, b) { return a + b; }
  * injectFunctionBody(project, './math.ts', 'add', 'return a + b;');
+ * injectFunctionBody(project, './math.ts', 'src/math.ts::Calculator.add', 'return a + b;');
  */
 export function injectFunctionBody(
   project: Project,
@@ -783,7 +1029,9 @@ export function injectFunctionBody(
     throw new FunctionNotFoundError(functionName, filePath);
   }
 
-  const func = findFunctionByName(sourceFile, functionName);
+  const func = functionName.includes('::')
+    ? findFunctionById(sourceFile, functionName)
+    : findFunctionByName(sourceFile, functionName);
   if (!func) {
     throw new FunctionNotFoundError(functionName, filePath);
   }
@@ -843,15 +1091,30 @@ export function injectFunctionBody(
  * - `throw new Error("TODO")`
  * - `// todo!()` macro-style comments
  *
+ * Each function gets a canonical {@link FunctionId}. Module paths are
+ * relative to `options.projectRoot`, which defaults to the directory of the
+ * project's tsconfig.json, or the current directory without one.
+ *
  * @param project - The ts-morph Project to scan.
+ * @param options - Project root and file moves recorded in the ledger.
  * @returns Array of TodoFunction objects sorted in topological order (leaves first).
  *
  * @example
  * const project = createProject('./tsconfig.json');
  * const todos = findTodoFunctions(project);
- * // Returns functions like: { name: 'add', filePath: '/src/math.ts', line: 5, ... }
+ * // Returns functions like: { id: 'src/math.ts::add', name: 'add', filePath: '/src/math.ts', line: 5, ... }
  */
-export function findTodoFunctions(project: Project): TodoFunction[] {
+export function findTodoFunctions(
+  project: Project,
+  options: FunctionIdOptions = {}
+): TodoFunction[] {
+  const configFile = project.getCompilerOptions().configFilePath;
+  const idOptions: FunctionIdOptions = {
+    ...options,
+    projectRoot:
+      options.projectRoot ??
+      (typeof configFile === 'string' ? path.dirname(configFile) : process.cwd()),
+  };
   const todoFunctions: TodoFunction[] = [];
   // Optimization: Only collect AST nodes for TODO functions, not all functions.
   // This significantly reduces buildCallGraph overhead by avoiding traversal of completed functions.
@@ -872,9 +1135,9 @@ export function findTodoFunctions(project: Project): TodoFunction[] {
       continue;
     }
 
-    const functions = collectFunctions(sourceFile);
+    const ids = assignFunctionIds(sourceFile, idOptions);
 
-    for (const func of functions) {
+    for (const [func, id] of ids) {
       // Optimization: Extract body text from already loaded fileText to avoid internal getText() calls
       // within hasTodoMarker (if we can)
       const body = func.getBody();
@@ -888,6 +1151,7 @@ export function findTodoFunctions(project: Project): TodoFunction[] {
 
       if (hasTodoMarker(func, bodyText)) {
         todoFunctions.push({
+          id,
           name: getFunctionName(func),
           filePath: sourceFile.getFilePath(),
           line: func.getStartLineNumber(),
@@ -1116,7 +1380,13 @@ export function inspectAst(
 
     // Check for non-TODO bodies when required
     // Run LOGIC_LEAKAGE_PATTERNS scan only when not isTodoBody (strict check)
-    if (checkFunctionBodies && checkTodoPattern && hasBody && !isTodoBody && bodyText !== undefined) {
+    if (
+      checkFunctionBodies &&
+      checkTodoPattern &&
+      hasBody &&
+      !isTodoBody &&
+      bodyText !== undefined
+    ) {
       // This is a function with implementation - check if it's allowed
       // For Lattice output, only TODO bodies should exist
       // bodyText is guaranteed to exist since hasBody is true
@@ -95,6 +95,7 @@ Return structured JSON.
       const result = await this.router.complete({
         modelAlias: 'auditor',
         prompt: userPrompt,
+        taskType: 'audit',
         parameters: {
           systemPrompt: CLAIM_PARSER_SYSTEM_PROMPT,
         },
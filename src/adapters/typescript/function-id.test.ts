@@ -0,0 +1,115 @@
+/**
+ * Tests for canonical function ids.
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as path from 'node:path';
+import {
+  createFunctionId,
+  formatFunctionId,
+  getQualifiedName,
+  parseFunctionId,
+  resolveFunctionFile,
+  toCurrentModulePath,
+  toModulePath,
+  toOriginalModulePath,
+} from './function-id.js';
+
+describe('formatFunctionId', () => {
+  it('joins the module path, containers and name', () => {
+    expect(
+      formatFunctionId({
+        modulePath: 'src/accounts/account.ts',
+        containers: ['AccountService'],
+        name: 'withdraw',
+        overload: 0,
+      })
+    ).toBe('src/accounts/account.ts::AccountService.withdraw');
+  });
+
+  it('appends a non-zero overload index', () => {
+    expect(
+      formatFunctionId({ modulePath: 'src/math.ts', containers: [], name: 'sum', overload: 2 })
+    ).toBe('src/math.ts::sum~2');
+  });
+});
+
+describe('parseFunctionId', () => {
+  it('round-trips formatted ids', () => {
+    const parts = {
+      modulePath: 'pkg/store.go',
+      containers: ['Store', 'index'],
+      name: '<anonymous>',
+      overload: 1,
+    };
+
+    expect(parseFunctionId(formatFunctionId(parts))).toEqual(parts);
+  });
+
+  it.each(['withdraw', '::withdraw', 'src/a.ts::', 'src/a.ts::Account..withdraw'])(
+    'rejects %s',
+    (text) => {
+      expect(parseFunctionId(text)).toBeUndefined();
+    }
+  );
+});
+
+describe('getQualifiedName', () => {
+  it('drops the module path', () => {
+    expect(getQualifiedName('src/a.ts::Account.withdraw~1')).toBe('Account.withdraw~1');
+    expect(getQualifiedName('withdraw')).toBe('withdraw');
+  });
+});
+
+describe('module paths', () => {
+  const moves = [
+    { from: 'src/account.ts', to: 'src/accounts/account.ts' },
+    { from: 'src/accounts', to: 'lib/accounts' },
+  ];
+
+  it('makes file paths project-relative with forward slashes', () => {
+    const root = path.resolve('/project');
+
+    expect(toModulePath(path.join(root, 'src', 'a.ts'), root)).toBe('src/a.ts');
+    expect(toModulePath('src/a.ts', root)).toBe('src/a.ts');
+  });
+
+  it('follows file and directory moves back to the original path', () => {
+    expect(toOriginalModulePath('lib/accounts/account.ts', moves)).toBe('src/account.ts');
+    expect(toOriginalModulePath('lib/accounts/ledger.ts', moves)).toBe('src/accounts/ledger.ts');
+    expect(toOriginalModulePath('lib/accountsx.ts', moves)).toBe('lib/accountsx.ts');
+  });
+
+  it('follows moves forward to the current path', () => {
+    expect(toCurrentModulePath('src/account.ts', moves)).toBe('lib/accounts/account.ts');
+    expect(toCurrentModulePath('src/other.ts', moves)).toBe('src/other.ts');
+  });
+});
+
+describe('createFunctionId', () => {
+  it('keeps ids stable when the file moves', () => {
+    const root = path.resolve('/project');
+    const qualified = { containers: ['Account'], name: 'withdraw', overload: 0 };
+    const before = createFunctionId(path.join(root, 'src/account.ts'), root, qualified);
+
+    const after = createFunctionId(path.join(root, 'src/accounts/account.ts'), root, qualified, [
+      { from: 'src/account.ts', to: 'src/accounts/account.ts' },
+    ]);
+
+    expect(before).toBe('src/account.ts::Account.withdraw');
+    expect(after).toBe(before);
+  });
+});
+
+describe('resolveFunctionFile', () => {
+  it('locates the file that defines a function now', () => {
+    const root = path.resolve('/project');
+
+    expect(
+      resolveFunctionFile('src/account.ts::Account.withdraw', root, [{ from: 'src', to: 'lib' }])
+    ).toBe(path.join(root, 'lib', 'account.ts'));
+    expect(resolveFunctionFile('withdraw', root)).toBeUndefined();
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Canonical function identity shared by injection, the circuit breaker,
+ * Mass Defect and the toolchain server.
+ *
+ * A FunctionId reads `<module path>::<containers>.<name>[~<overload>]`, e.g.
+ * `src/accounts/account.ts::AccountService.withdraw` or `src/math.ts::sum~1`.
+ * The module path is project-relative with `/` separators, so ids do not
+ * depend on where the project is checked out. Overload 0 is omitted.
+ *
+ * Ids do not contain line numbers, so edits elsewhere in a file leave them
+ * unchanged. File moves recorded in the ledger are followed back to the
+ * module path a function was first identified under, so moving a file keeps
+ * its functions' ids.
+ *
+ * @packageDocumentation
+ */
+
+import * as path from 'node:path';
+import type { FileMove } from '../../ledger/types.js';
+
+/**
+ * Stable identifier of a function: module path, container chain, name and overload index.
+ */
+export type FunctionId = string;
+
+/**
+ * The components of a {@link FunctionId}.
+ */
+export interface FunctionIdParts {
+  /** Project-relative module path with `/` separators. */
+  readonly modulePath: string;
+  /** Enclosing classes, namespaces, objects or functions, outermost first. */
+  readonly containers: readonly string[];
+  /** The function's own name. */
+  readonly name: string;
+  /** Index among functions sharing the module, containers and name (0 for the first). */
+  readonly overload: number;
+}
+
+/** Separates the module path from the qualified name. */
+const MODULE_SEPARATOR = '::';
+
+/** Precedes a non-zero overload index. */
+const OVERLOAD_SEPARATOR = '~';
+
+/**
+ * Formats a function id.
+ *
+ * @param parts - The id components.
+ * @returns The canonical id.
+ *
+ * @example
+ * formatFunctionId({ modulePath: 'src/a.ts', containers: ['Account'], name: 'withdraw', overload: 0 });
+ * // 'src/a.ts::Account.withdraw'
+ */
+export function formatFunctionId(parts: FunctionIdParts): FunctionId {
+  const qualifiedName = [...parts.containers, parts.name].join('.');
+  const overload = parts.overload > 0 ? `${OVERLOAD_SEPARATOR}${String(parts.overload)}` : '';
+  return `${parts.modulePath}${MODULE_SEPARATOR}${qualifiedName}${overload}`;
+}
+
+/**
+ * Parses a function id.
+ *
+ * @param id - The id to parse.
+ * @returns The id components, or undefined if the text is not a function id.
+ */
+export function parseFunctionId(id: string): FunctionIdParts | undefined {
+  const separator = id.lastIndexOf(MODULE_SEPARATOR);
+  if (separator <= 0) {
+    return undefined;
+  }
+  const modulePath = id.slice(0, separator);
+  let qualifiedName = id.slice(separator + MODULE_SEPARATOR.length);
+
+  let overload = 0;
+  const overloadMatch = /~(\d+)$/.exec(qualifiedName);
+  if (overloadMatch !== null) {
+    overload = Number(overloadMatch[1]);
+    qualifiedName = qualifiedName.slice(0, overloadMatch.index);
+  }
+
+  const segments = qualifiedName.split('.');
+  const name = segments.pop();
+  if (name === undefined || name === '' || segments.some((segment) => segment === '')) {
+    return undefined;
+  }
+  return { modulePath, containers: segments, name, overload };
+}
+
+/**
+ * Returns the qualified part of an id: containers, name and overload, without the module path.
+ *
+ * @param id - A function id.
+ * @returns The qualified name, e.g. `Account.withdraw~1`, or the input if it is not a function id.
+ */
+export function getQualifiedName(id: FunctionId): string {
+  const separator = id.lastIndexOf(MODULE_SEPARATOR);
+  return separator <= 0 ? id : id.slice(separator + MODULE_SEPARATOR.length);
+}
+
+/**
+ * Converts a file path to a module path relative to the project root.
+ *
+ * @param filePath - Absolute or root-relative file path.
+ * @param projectRoot - The project root.
+ * @returns The project-relative path with `/` separators.
+ */
+export function toModulePath(filePath: string, projectRoot: string): string {
+  const relative = path.relative(path.resolve(projectRoot), path.resolve(projectRoot, filePath));
+  return relative.split(path.sep).join('/');
+}
+
+/**
+ * Follows recorded moves backwards to the module path a file was first identified under.
+ *
+ * A move of a directory applies to every module beneath it.
+ *
+ * @param modulePath - The module's current path.
+ * @param moves - File moves, oldest first.
+ * @returns The original module path.
+ */
+export function toOriginalModulePath(modulePath: string, moves: readonly FileMove[]): string {
+  let current = modulePath;
+  for (let i = moves.length - 1; i >= 0; i--) {
+    // eslint-disable-next-line security/detect-object-injection -- safe: i is bounded numeric loop counter
+    const move = moves[i];
+    if (move !== undefined) {
+      current = applyMove(current, move.to, move.from);
+    }
+  }
+  return current;
+}
+
+/**
+ * Follows recorded moves forwards to the module path a file lives at now.
+ *
+ * @param modulePath - The module path recorded in a function id.
+ * @param moves - File moves, oldest first.
+ * @returns The current module path.
+ */
+export function toCurrentModulePath(modulePath: string, moves: readonly FileMove[]): string {
+  let current = modulePath;
+  for (const move of moves) {
+    current = applyMove(current, move.from, move.to);
+  }
+  return current;
+}
+
+function applyMove(modulePath: string, from: string, to: string): string {
+  if (modulePath === from) {
+    return to;
+  }
+  return modulePath.startsWith(`${from}/`) ? `${to}${modulePath.slice(from.length)}` : modulePath;
+}
+
+/**
+ * Builds the id of a function in a file, following recorded moves.
+ *
+ * @param filePath - Path of the file that defines the function.
+ * @param projectRoot - The project root.
+ * @param qualified - Containers, name and overload index of the function.
+ * @param moves - File moves recorded in the ledger, oldest first.
+ * @returns The canonical id.
+ */
+export function createFunctionId(
+  filePath: string,
+  projectRoot: string,
+  qualified: Omit<FunctionIdParts, 'modulePath'>,
+  moves: readonly FileMove[] = []
+): FunctionId {
+  return formatFunctionId({
+    ...qualified,
+    modulePath: toOriginalModulePath(toModulePath(filePath, projectRoot), moves),
+  });
+}
+
+/**
+ * Resolves the file that currently defines a function.
+ *
+ * @param id - A function id.
+ * @param projectRoot - The project root.
+ * @param moves - File moves recorded in the ledger, oldest first.
+ * @returns The absolute file path, or undefined if the text is not a function id.
+ */
+export function resolveFunctionFile(
+  id: FunctionId,
+  projectRoot: string,
+  moves: readonly FileMove[] = []
+): string | undefined {
+  const parts = parseFunctionId(id);
+  if (parts === undefined) {
+    return undefined;
+  }
+  return path.resolve(projectRoot, toCurrentModulePath(parts.modulePath, moves));
+}
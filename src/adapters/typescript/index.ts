@@ -27,7 +27,14 @@ import { runTypeCheck, type TypeCheckResult } from './typecheck.js';
 import { runTests as runVitestTests, type TestRunResult } from './testrunner.js';
 
 // Re-export types for consumers
-export type { TodoFunction } from './ast.js';
+export type { TodoFunction, FunctionIdOptions } from './ast.js';
+export type { FunctionId, FunctionIdParts } from './function-id.js';
+export {
+  formatFunctionId,
+  parseFunctionId,
+  toOriginalModulePath,
+  toCurrentModulePath,
+} from './function-id.js';
 export type { FunctionSignature, ParameterInfo, TypeParameterInfo } from './signature.js';
 export type { ExtractedType, TypeMember, ExtractedTypeParameter } from './types.js';
 export type { MicroContract, InlineAssertion } from './assertions.js';
@@ -284,8 +291,8 @@ export class TypeScriptAdapter implements TargetAdapter {
    * @throws {AdapterNotInitializedError} If not initialized.
    */
   findTodoFunctions(): TodoFunction[] {
-    const { project } = this.ensureInitialized();
-    return findTodoFunctionsFromAst(project);
+    const { project, projectPath } = this.ensureInitialized();
+    return findTodoFunctionsFromAst(project, { projectRoot: projectPath });
   }
 
   /**
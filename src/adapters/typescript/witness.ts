@@ -876,6 +876,20 @@ function analyzeBaseArbitrary(baseType: string, invariant?: string): BaseArbitra
   return { arbitrary: 'fc.anything()', optimizable: false };
 }
 
+/**
+ * Returns the fast-check arbitrary expression for a TypeScript type.
+ *
+ * Named types without a built-in arbitrary are emitted as `arb<Name>`
+ * placeholders for the caller to bind, and types that cannot be analyzed
+ * fall back to `fc.anything()`.
+ *
+ * @param typeText - The TypeScript type, as written in source.
+ * @returns The fast-check expression, e.g. `fc.array(fc.string())`.
+ */
+export function generateTypeArbitrary(typeText: string): string {
+  return analyzeBaseArbitrary(typeText).arbitrary;
+}
+
 /**
  * Splits a comma-separated list of tuple elements, respecting nested generics.
  */
@@ -12,6 +12,7 @@ export type {
   MCPServerName,
   MCPAccessMode,
   MCPServerAccess,
+  MCPToolCall,
   AgentDefinition,
   SwarmConfiguration,
   AccessValidationResult,
@@ -43,6 +44,7 @@ export {
   validateSwarmConfiguration,
   createSwarmRegistryFromData,
   swarmRegistry,
+  isPathInScope,
 } from './registry.js';
 
 // Loader
@@ -12,7 +12,12 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { SwarmRegistry, validateSwarmConfiguration, swarmRegistry } from './registry.js';
+import {
+  SwarmRegistry,
+  validateSwarmConfiguration,
+  swarmRegistry,
+  isPathInScope,
+} from './registry.js';
 import {
   DEFAULT_SWARM_CONFIG,
   WORKER_AGENT,
@@ -284,6 +289,104 @@ describe('SwarmRegistry', () => {
     });
   });
 
+  describe('validateMCPToolCall', () => {
+    it('should deny writes to read-only agents', () => {
+      const result = registry.validateMCPToolCall('Guardian', 'toolchain-server', {
+        tool: 'verify_structure',
+        writes: true,
+        paths: ['.'],
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.tool).toBe('verify_structure');
+      expect(result.reason).toContain('read-only access');
+    });
+
+    it('should allow reads by read-only agents', () => {
+      const result = registry.validateMCPToolCall('Auditor', 'artifact-server', {
+        tool: 'read_spec_section',
+        writes: false,
+        paths: ['spec.toml'],
+      });
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it('should apply tool-level checks first', () => {
+      const result = registry.validateMCPToolCall('Auditor', 'artifact-server', {
+        tool: 'append_decision',
+        writes: true,
+        paths: ['DECISIONS.toml'],
+      });
+
+      expect(result.reason).toContain("Tool 'append_decision' is blocked");
+    });
+
+    it('should confine scoped agents to their scoped paths', () => {
+      const scoped = new SwarmRegistry({
+        ...DEFAULT_SWARM_CONFIG,
+        agents: [
+          {
+            ...WORKER_AGENT,
+            mcpServers: [{ server: 'filesystem', mode: 'scoped', scopedPaths: ['src/ledger'] }],
+          },
+        ],
+      });
+      const call = (paths: string[]): boolean =>
+        scoped.validateMCPToolCall('Worker', 'filesystem', { tool: 'read', writes: true, paths })
+          .allowed;
+
+      expect(call(['src/ledger/ledger.ts'])).toBe(true);
+      expect(call(['src/ledger'])).toBe(true);
+      expect(call(['src/ledger-old/x.ts'])).toBe(false);
+      expect(call(['src/ledger/ledger.ts', 'package.json'])).toBe(false);
+      expect(call([])).toBe(true);
+    });
+
+    it('should deny path access to scoped agents without scoped paths', () => {
+      const result = registry.validateMCPToolCall('Worker', 'filesystem', {
+        tool: 'read',
+        writes: false,
+        paths: ['src/index.ts'],
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain('(none)');
+    });
+
+    it('should throw a structured error from assertMCPToolCall', () => {
+      let error: unknown;
+      try {
+        registry.assertMCPToolCall('Guardian', 'toolchain-server', {
+          tool: 'run_function_test',
+          writes: true,
+          paths: ['src'],
+        });
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(UnauthorizedMCPAccessError);
+      expect((error as UnauthorizedMCPAccessError).toJSON()).toEqual({
+        error:
+          "Tool 'run_function_test' is not in the allowed tools list for agent 'Guardian' on server 'toolchain-server'",
+        type: 'UnauthorizedMCPAccessError',
+        agent: 'Guardian',
+        server: 'toolchain-server',
+        tool: 'run_function_test',
+      });
+    });
+  });
+
+  describe('isPathInScope', () => {
+    it('should reject paths escaping the project root', () => {
+      expect(isPathInScope('src/../../etc/passwd', ['src/'])).toBe(false);
+      expect(isPathInScope('/etc/passwd', ['.'])).toBe(false);
+      expect(isPathInScope('src/../src/a.ts', ['src/'])).toBe(true);
+      expect(isPathInScope('anything', ['.'])).toBe(true);
+    });
+  });
+
   describe('validateSkillExecution', () => {
     it('should allow Worker to execute implement_atomic', () => {
       const result = registry.validateSkillExecution('Worker', 'implement_atomic');
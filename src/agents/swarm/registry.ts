@@ -7,6 +7,7 @@
  * @packageDocumentation
  */
 
+import path from 'node:path';
 import type { AgentRole, SkillName, SkillPermissions } from '../types.js';
 import { skillRegistry, getMissingPermissions } from '../registry.js';
 import type {
@@ -14,6 +15,7 @@ import type {
   SwarmConfiguration,
   MCPServerName,
   MCPServerAccess,
+  MCPToolCall,
   AccessValidationResult,
   SkillExecutionValidationResult,
 } from './types.js';
@@ -174,7 +176,81 @@ export class SwarmRegistry {
   assertMCPAccess(role: AgentRole, server: MCPServerName, tool?: string): void {
     const result = this.validateMCPAccess(role, server, tool);
     if (!result.allowed) {
-      throw new UnauthorizedMCPAccessError(role, server);
+      throw new UnauthorizedMCPAccessError(role, server, {
+        ...(tool !== undefined ? { tool } : {}),
+        ...(result.reason !== undefined ? { reason: result.reason } : {}),
+      });
+    }
+  }
+
+  /**
+   * Validates a tool call against an agent's full access policy for a server.
+   *
+   * @remarks
+   * In addition to the server and tool checks of {@link validateMCPAccess}:
+   * - `read-only` access denies calls that modify state
+   * - `scoped` access denies calls touching paths outside `scopedPaths`
+   *   (an agent with no scoped paths may only make calls without paths)
+   *
+   * @param role - The agent role making the call.
+   * @param server - The MCP server being called.
+   * @param call - The tool call, with the paths it touches relative to the project root.
+   * @returns Validation result with allowed status and reason.
+   */
+  validateMCPToolCall(
+    role: AgentRole,
+    server: MCPServerName,
+    call: MCPToolCall
+  ): AccessValidationResult {
+    const { tool } = call;
+    const result = this.validateMCPAccess(role, server, tool);
+    if (!result.allowed) {
+      return { ...result, tool };
+    }
+
+    const serverAccess = this.getAgentMCPServers(role).find((s) => s.server === server);
+    if (serverAccess?.mode === 'read-only' && call.writes) {
+      return {
+        allowed: false,
+        agent: role,
+        server,
+        tool,
+        reason: `Agent '${role}' has read-only access to MCP server '${server}' and tool '${tool}' modifies state`,
+      };
+    }
+
+    if (serverAccess?.mode === 'scoped') {
+      const scopes = serverAccess.scopedPaths ?? [];
+      const outside = call.paths.find((p) => !isPathInScope(p, scopes));
+      if (outside !== undefined) {
+        return {
+          allowed: false,
+          agent: role,
+          server,
+          tool,
+          reason: `Path '${outside}' is outside the scoped paths of agent '${role}' on server '${server}' (${scopes.length > 0 ? scopes.join(', ') : 'none'})`,
+        };
+      }
+    }
+
+    return { allowed: true, agent: role, server, tool };
+  }
+
+  /**
+   * Asserts that an agent may make a tool call.
+   *
+   * @param role - The agent role making the call.
+   * @param server - The MCP server being called.
+   * @param call - The tool call.
+   * @throws {UnauthorizedMCPAccessError} If the call is denied.
+   */
+  assertMCPToolCall(role: AgentRole, server: MCPServerName, call: MCPToolCall): void {
+    const result = this.validateMCPToolCall(role, server, call);
+    if (!result.allowed) {
+      throw new UnauthorizedMCPAccessError(role, server, {
+        tool: call.tool,
+        ...(result.reason !== undefined ? { reason: result.reason } : {}),
+      });
     }
   }
 
@@ -316,6 +392,28 @@ export class SwarmRegistry {
   }
 }
 
+/**
+ * Checks whether a project-relative path lies within one of the scoped paths.
+ *
+ * Paths that escape the project root (absolute, or starting with `..`) are
+ * never in scope.
+ *
+ * @param filePath - The path to check, relative to the project root.
+ * @param scopes - Scoped paths, e.g. `['src/']`.
+ * @returns True if the path equals or lies under a scoped path.
+ */
+export function isPathInScope(filePath: string, scopes: readonly string[]): boolean {
+  const normalized = path.posix.normalize(filePath.replace(/\\/g, '/'));
+  if (path.posix.isAbsolute(normalized) || normalized === '..' || normalized.startsWith('../')) {
+    return false;
+  }
+
+  return scopes.some((scope) => {
+    const root = path.posix.normalize(scope.replace(/\\/g, '/')).replace(/\/+$/, '');
+    return root === '.' || normalized === root || normalized.startsWith(`${root}/`);
+  });
+}
+
 /**
  * Type guard to check if a value is a record/object.
  */
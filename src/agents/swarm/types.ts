@@ -63,6 +63,22 @@ export interface MCPServerAccess {
   readonly blockedTools?: readonly string[];
 }
 
+/**
+ * Description of an MCP tool call, used to check it against an agent's
+ * access mode.
+ */
+export interface MCPToolCall {
+  /** The tool being invoked. */
+  readonly tool: string;
+  /** Whether the call modifies state (denied in `read-only` mode). */
+  readonly writes: boolean;
+  /**
+   * Project-relative paths the call reads or writes (checked against
+   * `scopedPaths` in `scoped` mode).
+   */
+  readonly paths: readonly string[];
+}
+
 /**
  * Agent definition with its complete access policy.
  *
@@ -130,6 +146,8 @@ export interface AccessValidationResult {
   readonly agent: AgentRole;
   /** The MCP server being accessed. */
   readonly server: MCPServerName;
+  /** The tool being invoked, if a specific tool was checked. */
+  readonly tool?: string;
   /** Reason for denial if not allowed. */
   readonly reason?: string;
 }
@@ -154,16 +172,48 @@ export interface SkillExecutionValidationResult {
  * Error thrown when an agent attempts unauthorized MCP server access.
  */
 export class UnauthorizedMCPAccessError extends Error {
-  /** The agent that attempted access. */
-  public readonly agent: AgentRole;
+  /** The agent that attempted access (undefined when the caller did not identify itself). */
+  public readonly agent: AgentRole | undefined;
   /** The MCP server that was accessed. */
   public readonly server: MCPServerName;
+  /** The tool that was invoked, if the denial is tool-specific. */
+  public readonly tool: string | undefined;
+  /** Why access was denied. */
+  public readonly reason: string;
 
-  constructor(agent: AgentRole, server: MCPServerName) {
-    super(`Agent '${agent}' is not authorized to access MCP server '${server}'`);
+  constructor(
+    agent: AgentRole | undefined,
+    server: MCPServerName,
+    options: { tool?: string; reason?: string } = {}
+  ) {
+    const reason =
+      options.reason ??
+      `Agent '${agent ?? 'unknown'}' is not authorized to access MCP server '${server}'`;
+    super(reason);
     this.name = 'UnauthorizedMCPAccessError';
     this.agent = agent;
     this.server = server;
+    this.tool = options.tool;
+    this.reason = reason;
+  }
+
+  /**
+   * Returns the structured form sent to MCP clients and written to audit logs.
+   */
+  toJSON(): {
+    error: string;
+    type: 'UnauthorizedMCPAccessError';
+    agent: AgentRole | null;
+    server: MCPServerName;
+    tool: string | null;
+  } {
+    return {
+      error: this.reason,
+      type: 'UnauthorizedMCPAccessError',
+      agent: this.agent ?? null,
+      server: this.server,
+      tool: this.tool ?? null,
+    };
   }
 }
 
@@ -0,0 +1,132 @@
+/**
+ * Cache command handler for the Criticality Protocol CLI.
+ *
+ * Inspects and clears the on-disk model response cache.
+ */
+
+import type { CliContext, CliCommandResult } from '../types.js';
+import { validateConfig } from '../../config/index.js';
+import { loadCliConfig } from '../config.js';
+import { createModelResponseCache, type ModelCacheStats } from '../../router/cache.js';
+import { wrapInBox } from '../utils/displayUtils.js';
+
+/**
+ * Formats a byte count for display.
+ *
+ * @param bytes - Number of bytes.
+ * @returns Human-readable size.
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${String(bytes)} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Formats cache statistics for display.
+ *
+ * @param stats - The cache statistics.
+ * @param enabled - Whether caching is enabled in configuration.
+ * @param taskTypes - Cacheable task types from configuration.
+ * @returns Formatted statistics text.
+ */
+export function formatCacheStats(
+  stats: ModelCacheStats,
+  enabled: boolean,
+  taskTypes: readonly string[]
+): string {
+  const lines = [
+    'Model Response Cache',
+    '',
+    `Status:      ${enabled ? 'enabled' : 'disabled'}`,
+    `Task types:  ${taskTypes.length > 0 ? taskTypes.join(', ') : '(none)'}`,
+    `Directory:   ${stats.directory}`,
+    `Entries:     ${String(stats.entries)}`,
+    `Size:        ${formatBytes(stats.totalBytes)}`,
+    `Tokens:      ${String(stats.storedTokens)} stored`,
+  ];
+
+  const taskEntries = Object.entries(stats.byTaskType);
+  if (taskEntries.length > 0) {
+    lines.push('', 'By task type:');
+    for (const [taskType, count] of taskEntries) {
+      lines.push(`  ${taskType}: ${String(count)}`);
+    }
+  }
+
+  const aliasEntries = Object.entries(stats.byModelAlias);
+  if (aliasEntries.length > 0) {
+    lines.push('', 'By model alias:');
+    for (const [alias, count] of aliasEntries) {
+      lines.push(`  ${alias}: ${String(count)}`);
+    }
+  }
+
+  if (stats.oldestEntry !== undefined && stats.newestEntry !== undefined) {
+    lines.push('', `Oldest:      ${stats.oldestEntry}`, `Newest:      ${stats.newestEntry}`);
+  }
+
+  if (stats.invalidEntries > 0) {
+    lines.push(
+      '',
+      `Invalid:     ${String(stats.invalidEntries)} (run 'crit cache clear' to remove)`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Handles the cache command.
+ *
+ * Subcommands:
+ * - `stats [--json]`: Show cache contents
+ * - `clear`: Remove all cached responses
+ *
+ * @param context - The CLI context.
+ * @returns A promise resolving to the command result.
+ */
+export async function handleCacheCommand(context: CliContext): Promise<CliCommandResult> {
+  const [subcommand = 'stats', ...rest] = context.args;
+  const config = loadCliConfig();
+  const directoryError = validateConfig(config).errors.find(
+    (e) => e.field === 'model_cache.directory'
+  );
+  if (directoryError !== undefined) {
+    console.error(`Invalid model cache configuration: ${directoryError.message}`);
+    return { exitCode: 1 };
+  }
+  const cache = createModelResponseCache(config.model_cache);
+
+  switch (subcommand) {
+    case 'stats': {
+      const stats = await cache.stats();
+      if (rest.includes('--json')) {
+        console.log(JSON.stringify(stats, null, 2));
+      } else {
+        console.log(
+          wrapInBox(
+            formatCacheStats(stats, config.model_cache.enabled, config.model_cache.task_types),
+            { colors: context.config.colors, unicode: context.config.unicode }
+          )
+        );
+      }
+      return { exitCode: 0 };
+    }
+
+    case 'clear': {
+      const removed = await cache.clear();
+      console.log(`Removed ${String(removed)} cached response(s) from ${cache.getDirectory()}`);
+      return { exitCode: 0 };
+    }
+
+    default:
+      console.error(`Unknown cache subcommand: ${subcommand}`);
+      console.error('Usage: crit cache <stats|clear>');
+      return { exitCode: 1 };
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Catalog command handler for the Criticality Protocol CLI.
+ *
+ * Lints the layered Mass Defect transformation catalog.
+ */
+
+import type { CliContext, CliCommandResult } from '../types.js';
+import path from 'node:path';
+import { loadCliConfig } from '../config.js';
+import {
+  lintCatalog,
+  resolveCatalogLayers,
+  type CatalogLintDiagnostic,
+} from '../../mass-defect/index.js';
+
+/**
+ * Formats lint diagnostics for display, one per line, with a summary.
+ *
+ * @param diagnostics - Diagnostics from {@link lintCatalog}.
+ * @param cwd - Directory file paths are shown relative to.
+ * @returns Formatted report text.
+ */
+export function formatCatalogDiagnostics(
+  diagnostics: readonly CatalogLintDiagnostic[],
+  cwd: string = process.cwd()
+): string {
+  const errors = diagnostics.filter((d) => d.severity === 'error').length;
+  const warnings = diagnostics.length - errors;
+  const lines = diagnostics.map(
+    (d) => `${d.severity.padEnd(7)} ${path.relative(cwd, d.filePath)}: ${d.message}`
+  );
+  lines.push(
+    diagnostics.length === 0
+      ? 'Catalog OK'
+      : `${String(errors)} error(s), ${String(warnings)} warning(s)`
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Handles the catalog command.
+ *
+ * @param context - The CLI context.
+ * @returns Promise resolving to command result.
+ */
+export async function handleCatalogCommand(context: CliContext): Promise<CliCommandResult> {
+  const [subcommand, ...rest] = context.args;
+
+  if (subcommand !== 'lint') {
+    console.error(`Unknown catalog subcommand: ${subcommand ?? ''}`);
+    console.error('Usage: crit catalog lint [--catalog <dir>] [--json]');
+    return { exitCode: 1 };
+  }
+
+  const config = loadCliConfig();
+  let projectCatalog = config.mass_defect.catalog_path;
+  let json = false;
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === '--json') {
+      json = true;
+    } else if (arg === '--catalog') {
+      const value = rest[i + 1];
+      if (value === undefined || value === '') {
+        console.error('Missing value for --catalog');
+        return { exitCode: 1 };
+      }
+      projectCatalog = value;
+      i++;
+    } else {
+      console.error(`Unknown option: ${arg ?? ''}`);
+      return { exitCode: 1 };
+    }
+  }
+
+  const diagnostics = await lintCatalog(
+    resolveCatalogLayers(projectCatalog, config.mass_defect.org_catalog_path)
+  );
+
+  if (json) {
+    console.log(JSON.stringify(diagnostics, null, 2));
+  } else {
+    console.log(formatCatalogDiagnostics(diagnostics));
+  }
+
+  return { exitCode: diagnostics.some((d) => d.severity === 'error') ? 1 : 0 };
+}
@@ -0,0 +1,100 @@
+/**
+ * Dashboard command handler for the Criticality Protocol CLI.
+ *
+ * Serves the local web dashboard until interrupted.
+ */
+
+import type { CliContext, CliCommandResult } from '../types.js';
+import { getDefaultStatePath, getDefaultLedgerPath } from '../state.js';
+import { DashboardServer, DEFAULT_DASHBOARD_PORT } from '../dashboard/server.js';
+import { approveBudgetIfBlocked } from './resolve.js';
+
+/**
+ * Parsed dashboard command arguments.
+ */
+interface DashboardArgs {
+  readonly host: string;
+  readonly port: number;
+}
+
+/**
+ * Parses dashboard command arguments.
+ *
+ * @param args - Command arguments.
+ * @returns Parsed options, or an error message.
+ */
+export function parseDashboardArgs(args: readonly string[]): DashboardArgs | { error: string } {
+  let host = '127.0.0.1';
+  let port = DEFAULT_DASHBOARD_PORT;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = args[i + 1];
+
+    if (arg === '--port' || arg === '-p') {
+      const parsed = Number(value);
+      if (!Number.isInteger(parsed) || parsed < 0 || parsed > 65535) {
+        return { error: `Invalid port: ${value ?? '(missing)'}` };
+      }
+      port = parsed;
+      i++;
+    } else if (arg === '--host') {
+      if (value === undefined || value === '') {
+        return { error: 'Missing value for --host' };
+      }
+      host = value;
+      i++;
+    } else {
+      return { error: `Unknown option: ${arg ?? ''}` };
+    }
+  }
+
+  return { host, port };
+}
+
+/**
+ * Handles the dashboard command.
+ *
+ * Starts the dashboard server and keeps it running until SIGINT or SIGTERM.
+ *
+ * @param context - The CLI context.
+ * @returns A promise resolving to the command result when the server stops.
+ */
+export async function handleDashboardCommand(context: CliContext): Promise<CliCommandResult> {
+  const parsed = parseDashboardArgs(context.args);
+  if ('error' in parsed) {
+    console.error(parsed.error);
+    console.error('Usage: crit dashboard [--port <port>] [--host <host>]');
+    return { exitCode: 1 };
+  }
+
+  const statePath = getDefaultStatePath();
+  const server = new DashboardServer({
+    statePath,
+    ledgerPath: getDefaultLedgerPath(statePath),
+    host: parsed.host,
+    port: parsed.port,
+    beforeResolve: (snapshot) => approveBudgetIfBlocked(snapshot, statePath),
+  });
+
+  const url = await server.start();
+  console.log(`Dashboard running at ${url}`);
+  if (parsed.host !== '127.0.0.1' && parsed.host !== 'localhost') {
+    console.log('Warning: the dashboard has no authentication and can resolve blocking queries.');
+  }
+  console.log('Press Ctrl+C to stop.');
+
+  await new Promise<void>((resolve) => {
+    const stop = (): void => {
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+      resolve();
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+  });
+
+  await server.close();
+  console.log('\nDashboard stopped.');
+  return { exitCode: 0 };
+}
@@ -0,0 +1,109 @@
+/**
+ * History command handler for the Criticality Protocol CLI.
+ *
+ * Lists the recorded protocol state history that `crit rewind` restores from.
+ */
+
+import type { CliContext, CliCommandResult } from '../types.js';
+import * as path from 'node:path';
+import {
+  getEntrySnapshot,
+  loadStateHistory,
+  type StateHistoryEntry,
+} from '../../protocol/history.js';
+import { getPhase, isBlockedState, isCompleteState, isFailedState } from '../../protocol/types.js';
+import { getDefaultStatePath } from '../state.js';
+
+/**
+ * Describes the protocol state of a history entry in a few words.
+ *
+ * @param entry - The history entry.
+ * @returns E.g. `Injection`, `Lattice (blocked)` or `Complete`.
+ */
+export function describeHistoryEntryState(entry: StateHistoryEntry): string {
+  let state;
+  try {
+    state = getEntrySnapshot(entry).state;
+  } catch {
+    return '(unreadable state)';
+  }
+
+  if (isCompleteState(state)) {
+    return 'Complete';
+  }
+  const phase = getPhase(state) ?? 'Unknown';
+  if (isBlockedState(state)) {
+    return `${phase} (blocked)`;
+  }
+  if (isFailedState(state)) {
+    return `${phase} (failed)`;
+  }
+  return phase;
+}
+
+/**
+ * Formats history entries for display, oldest first.
+ *
+ * @param entries - The recorded entries.
+ * @returns Formatted listing text.
+ */
+export function formatStateHistory(entries: readonly StateHistoryEntry[]): string {
+  if (entries.length === 0) {
+    return 'No state history recorded yet.';
+  }
+
+  const idWidth = Math.max(...entries.map((e) => String(e.id).length));
+  const stateWidth = Math.max(...entries.map((e) => describeHistoryEntryState(e).length));
+  const lines = entries.map((entry) =>
+    [
+      `#${String(entry.id).padStart(idWidth)}`,
+      entry.recordedAt,
+      describeHistoryEntryState(entry).padEnd(stateWidth),
+      `ledger ${String(entry.ledgerLength).padStart(4)}`,
+      entry.treeHash !== undefined ? `tree ${entry.treeHash.slice(0, 12)}` : 'no tree',
+    ].join('  ')
+  );
+  lines.push('', 'Run "crit rewind <id>" to restore an entry.');
+  return lines.join('\n');
+}
+
+/**
+ * Handles the history command.
+ *
+ * @param context - The CLI context.
+ * @returns A promise resolving to the command result.
+ */
+export async function handleHistoryCommand(context: CliContext): Promise<CliCommandResult> {
+  let json = false;
+  let limit: number | undefined;
+
+  for (let i = 0; i < context.args.length; i++) {
+    const arg = context.args[i];
+    if (arg === '--json') {
+      json = true;
+    } else if (arg === '--limit' || arg === '-n') {
+      const value = Number(context.args[i + 1]);
+      if (!Number.isInteger(value) || value <= 0) {
+        console.error(`Invalid value for ${arg}: expected a positive integer`);
+        return { exitCode: 1 };
+      }
+      limit = value;
+      i++;
+    } else {
+      console.error(`Unknown option: ${arg ?? ''}`);
+      return { exitCode: 1 };
+    }
+  }
+
+  const projectRoot = path.dirname(path.resolve(getDefaultStatePath()));
+  const entries = await loadStateHistory(projectRoot);
+  const shown = limit !== undefined ? entries.slice(-limit) : entries;
+
+  if (json) {
+    console.log(JSON.stringify(shown, null, 2));
+  } else {
+    console.log(formatStateHistory(shown));
+  }
+
+  return { exitCode: 0 };
+}
@@ -0,0 +1,213 @@
+/**
+ * Ignite command handler for the Criticality Protocol CLI.
+ *
+ * Runs the Ignition interview from a requirements document, asking the
+ * user only the questions the document leaves open.
+ */
+
+import type { CliContext, CliCommandResult } from '../types.js';
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { loadCliConfig } from '../config.js';
+import { createCliOperations } from '../operations.js';
+import { getDefaultStatePath, getDefaultLedgerPath } from '../state.js';
+import { Ledger } from '../../ledger/ledger.js';
+import { loadLedger, saveLedger } from '../../ledger/persistence.js';
+import { safeMkdir, safeReadFile } from '../../utils/safe-fs.js';
+import { selectQuestionBank, type QuestionBank } from '../../interview/question-bank.js';
+import { createReadlineReader, formatChoices, formatPrompt } from '../../interview/cli.js';
+import { IgniteError, igniteFromDocument, type BlockingQuestion } from '../../interview/ignite.js';
+import { wrapInBox } from '../utils/displayUtils.js';
+
+/**
+ * Parsed ignite command arguments.
+ */
+interface IgniteArgs {
+  readonly from: string;
+  readonly projectId: string;
+  readonly domain?: string;
+  readonly questionBanks?: string;
+}
+
+/**
+ * Parses ignite command arguments.
+ *
+ * @param args - Command arguments.
+ * @param cwd - Working directory, whose name is the default project ID.
+ * @returns Parsed options, or an error message.
+ */
+export function parseIgniteArgs(
+  args: readonly string[],
+  cwd: string = process.cwd()
+): IgniteArgs | { error: string } {
+  let from: string | undefined;
+  let projectId = path.basename(cwd);
+  let domain: string | undefined;
+  let questionBanks: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = args[i + 1];
+
+    if (arg !== '--from' && arg !== '--project' && arg !== '--domain' && arg !== '--questions') {
+      return { error: `Unknown option: ${arg ?? ''}` };
+    }
+    if (value === undefined || value === '') {
+      return { error: `Missing value for ${arg}` };
+    }
+    i++;
+
+    if (arg === '--from') {
+      from = value;
+    } else if (arg === '--project') {
+      projectId = value;
+    } else if (arg === '--domain') {
+      domain = value;
+    } else {
+      questionBanks = value;
+    }
+  }
+
+  if (from === undefined) {
+    return { error: 'Missing required option --from <file>' };
+  }
+
+  return {
+    from,
+    projectId,
+    ...(domain !== undefined ? { domain } : {}),
+    ...(questionBanks !== undefined ? { questionBanks } : {}),
+  };
+}
+
+/**
+ * Creates the handler that puts blocking questions to the user.
+ *
+ * Empty answers are re-prompted, and a number picks the matching option.
+ */
+function createBlockingQuestionPrompt(): {
+  ask: (question: BlockingQuestion) => Promise<string>;
+  close: () => void;
+} {
+  const reader = createReadlineReader();
+
+  const ask = async (question: BlockingQuestion): Promise<string> => {
+    const label = question.kind === 'gap' ? 'Not covered by the document' : 'Auditor finding';
+    console.log(`\n[${label}] ${question.phase}`);
+    const options = question.options ?? [];
+    if (options.length > 0) {
+      console.log(formatChoices(options));
+    }
+
+    for (;;) {
+      const answer = (await reader.readLine(formatPrompt(question.text, question.hint))).trim();
+      if (answer === '') {
+        continue;
+      }
+      const index = Number(answer);
+      const option = Number.isInteger(index) ? options[index - 1] : undefined;
+      return option ?? answer;
+    }
+  };
+
+  return {
+    ask,
+    close: () => {
+      reader.close();
+    },
+  };
+}
+
+/**
+ * Handles the ignite command.
+ *
+ * Options:
+ * - `--from <file>`: Requirements document to answer the interview from (required)
+ * - `--project <id>`: Project ID (default: the current directory's name)
+ * - `--domain <domain>`: Spec domain, also used to pick a domain question bank
+ * - `--questions <dir>`: Directory of question banks to walk
+ *
+ * @param context - The CLI context.
+ * @returns A promise resolving to the command result.
+ */
+export async function handleIgniteCommand(context: CliContext): Promise<CliCommandResult> {
+  const parsed = parseIgniteArgs(context.args);
+  if ('error' in parsed) {
+    console.error(parsed.error);
+    console.error(
+      'Usage: crit ignite --from <file> [--project <id>] [--domain <domain>] [--questions <dir>]'
+    );
+    return { exitCode: 1 };
+  }
+
+  if (!existsSync(parsed.from)) {
+    console.error(`Document not found: ${parsed.from}`);
+    return { exitCode: 1 };
+  }
+  const document = await safeReadFile(parsed.from, 'utf-8');
+
+  let questionBank: QuestionBank | undefined;
+  if (parsed.questionBanks !== undefined) {
+    questionBank = await selectQuestionBank({
+      directory: parsed.questionBanks,
+      ...(parsed.domain !== undefined ? { domain: parsed.domain } : {}),
+    });
+  }
+
+  const config = loadCliConfig();
+  const statePath = getDefaultStatePath();
+  const operations = await createCliOperations({
+    config,
+    statePath,
+    onTelemetryUpdate: () => {
+      // Ignition has no live display
+    },
+  });
+  const modelRouter = await operations.ensureModelClient();
+  modelRouter.setPhase('Ignition');
+
+  const ledgerPath = getDefaultLedgerPath(statePath);
+  const ledger = existsSync(ledgerPath)
+    ? await loadLedger(ledgerPath)
+    : new Ledger({ project: parsed.projectId });
+
+  const prompt = createBlockingQuestionPrompt();
+  try {
+    const result = await igniteFromDocument(parsed.projectId, document, {
+      modelRouter,
+      ledger,
+      askUser: prompt.ask,
+      documentName: path.basename(parsed.from),
+      projectRoot: process.cwd(),
+      ...(questionBank !== undefined ? { questionBank } : {}),
+      ...(parsed.domain !== undefined ? { specOptions: { domain: parsed.domain } } : {}),
+    });
+
+    await safeMkdir(path.dirname(ledgerPath), { recursive: true });
+    await saveLedger(ledger, ledgerPath);
+
+    console.log(
+      wrapInBox(
+        [
+          `Ignition from ${parsed.from}`,
+          '',
+          `Inferred answers:    ${String(result.inferredAnswers.length)} (recorded as inferred decisions)`,
+          `Blocking questions:  ${String(result.blockingQuestions.length)}`,
+          `Auditor findings:    ${String(result.findings.length)}`,
+          '',
+          `Proposal v${String(result.proposal.version)} saved to ${result.proposal.path}`,
+        ].join('\n'),
+        { colors: context.config.colors, unicode: context.config.unicode }
+      )
+    );
+    return { exitCode: 0 };
+  } catch (error) {
+    if (error instanceof IgniteError) {
+      console.error(`Error: ${error.message}`);
+      return { exitCode: 1, message: error.message };
+    }
+    throw error;
+  } finally {
+    prompt.close();
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Tests for the ledger command formatters.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Ledger } from '../../ledger/index.js';
+import { buildDependencyGraph } from '../dashboard/model.js';
+import {
+  formatCascadeReport,
+  formatChainVerification,
+  formatDecisionDetails,
+  formatDecisionList,
+  formatDependencyGraphDot,
+  formatDependencyGraphMermaid,
+} from './ledger.js';
+
+function createLedger(): Ledger {
+  const ledger = new Ledger({
+    project: 'ledger-cli-test',
+    now: () => new Date('2024-01-20T12:00:00.000Z'),
+  });
+  ledger.append({
+    category: 'architectural',
+    constraint: 'Use "PostgreSQL" for persistence',
+    source: 'design_choice',
+    confidence: 'canonical',
+    phase: 'design',
+  });
+  ledger.append({
+    category: 'data_model',
+    constraint: 'Balances are stored as integer cents',
+    rationale: 'Avoids rounding errors',
+    source: 'design_review',
+    confidence: 'provisional',
+    phase: 'lattice',
+    dependencies: ['architectural_001'],
+  });
+  ledger.append({
+    category: 'testing',
+    constraint: 'Property tests cover balance arithmetic',
+    source: 'design_choice',
+    confidence: 'inferred',
+    phase: 'injection',
+    dependencies: ['data_model_001'],
+  });
+  return ledger;
+}
+
+describe('formatDecisionList', () => {
+  it('shows one line per decision', () => {
+    const output = formatDecisionList(createLedger().query({ phase: 'lattice' }), {
+      colors: false,
+      unicode: false,
+    });
+
+    expect(output).toBe(
+      'data_model_001 active      [lattice] [provisional] Balances are stored as integer cents\n\n1 decision(s)'
+    );
+  });
+
+  it('says when nothing matches', () => {
+    expect(formatDecisionList([], { colors: false, unicode: false })).toBe(
+      'No matching decisions.'
+    );
+  });
+});
+
+describe('formatDecisionDetails', () => {
+  it('lists the fields that are set, with dependents', () => {
+    const ledger = createLedger();
+    const decision = ledger.getById('data_model_001');
+    if (decision === undefined) {
+      throw new Error('missing decision');
+    }
+
+    const output = formatDecisionDetails(decision, ledger.getDependents(decision.id));
+
+    expect(output.split('\n')).toEqual([
+      'data_model_001 (active)',
+      '  Constraint:    Balances are stored as integer cents',
+      '  Rationale:     Avoids rounding errors',
+      '  Category:      data_model',
+      '  Phase:         lattice',
+      '  Source:        design_review',
+      '  Confidence:    provisional',
+      '  Recorded:      2024-01-20T12:00:00.000Z',
+      '  Depends on:    architectural_001',
+      '  Dependents:    testing_001',
+    ]);
+  });
+});
+
+describe('formatCascadeReport', () => {
+  it('indents dependents by depth and marks previews', () => {
+    const report = createLedger().previewInvalidate('data_model_001');
+
+    expect(formatCascadeReport(report, true)).toBe(
+      [
+        'Would invalidate 2 decision(s):',
+        '  data_model_001  Balances are stored as integer cents',
+        '    testing_001  Property tests cover balance arithmetic',
+        '',
+        'Run again without --dry-run to apply.',
+      ].join('\n')
+    );
+  });
+});
+
+describe('dependency graph output', () => {
+  it('renders Graphviz DOT with escaped labels', () => {
+    const ledger = createLedger();
+    ledger.invalidate('testing_001');
+
+    const output = formatDependencyGraphDot(buildDependencyGraph(ledger, 'data_model_001'));
+
+    expect(output).toContain(
+      '"architectural_001" [label="architectural_001\\nUse \\"PostgreSQL\\" for persistence"];'
+    );
+    expect(output).toContain('"data_model_001" [label=');
+    expect(output).toContain('style="bold"];');
+    expect(output).toContain('"testing_001" [label=');
+    expect(output).toContain('style="dashed"];');
+    expect(output).toContain('"data_model_001" -> "architectural_001";');
+    expect(output).toContain('"testing_001" -> "data_model_001";');
+    expect(output.startsWith('digraph ledger {')).toBe(true);
+  });
+
+  it('renders a Mermaid flowchart', () => {
+    const ledger = createLedger();
+    ledger.invalidate('testing_001');
+
+    const output = formatDependencyGraphMermaid(buildDependencyGraph(ledger, 'data_model_001'));
+
+    expect(output.split('\n')).toEqual([
+      'flowchart LR',
+      '  data_model_001["data_model_001<br/>Balances are stored as integer cents"]',
+      '  architectural_001["architectural_001<br/>Use #quot;PostgreSQL#quot; for persistence"]',
+      '  testing_001["testing_001<br/>Property tests cover balance arithmetic"]',
+      '  data_model_001 --> architectural_001',
+      '  testing_001 --> data_model_001',
+      '  classDef inactive stroke-dasharray: 5 5',
+      '  class testing_001 inactive',
+      '  classDef root stroke-width:3px',
+      '  class data_model_001 root',
+    ]);
+  });
+});
+
+describe('formatChainVerification', () => {
+  it('shows the head of an intact chain', () => {
+    expect(formatChainVerification({ status: 'intact', entries: 3, headHash: 'abc' })).toBe(
+      'Hash chain intact: 3 entries\nHead: abc'
+    );
+  });
+
+  it('explains how to chain an unchained ledger', () => {
+    expect(formatChainVerification({ status: 'unchained', entries: 2 })).toContain(
+      "Run 'crit ledger verify --migrate'"
+    );
+  });
+
+  it('points at the first broken link', () => {
+    expect(
+      formatChainVerification({
+        status: 'broken',
+        firstBreak: {
+          position: 4,
+          entry: 'event',
+          decisionId: 'data_model_001',
+          reason: 'event on data_model_001 does not match its hash',
+        },
+      })
+    ).toBe(
+      'Hash chain broken at entry 4 (event data_model_001): event on data_model_001 does not match its hash'
+    );
+  });
+});
@@ -0,0 +1,686 @@
+/**
+ * Ledger command handler for the Criticality Protocol CLI.
+ *
+ * Queries and edits decisions in the decision ledger: listing with
+ * filters, showing one decision, rendering dependency graphs,
+ * superseding, invalidating or reinstating decisions, and verifying the
+ * ledger's hash chain.
+ */
+
+import type { CliContext, CliCommandResult } from '../types.js';
+import { existsSync } from 'node:fs';
+import {
+  DECISION_FILTER_VALUES,
+  loadLedger,
+  saveLedger,
+  verifyLedgerFile,
+  type CascadeReport,
+  type Decision,
+  type DecisionFilter,
+  type DecisionFilterKey,
+  type DecisionInput,
+  type Ledger,
+  type LedgerChainVerification,
+} from '../../ledger/index.js';
+import { buildDependencyGraph, type DashboardDependencyGraph } from '../dashboard/model.js';
+import { formatConfidence, type DisplayOptions } from '../utils/displayUtils.js';
+import { getDefaultLedgerPath, getDefaultStatePath } from '../state.js';
+
+/**
+ * Filter keys in the order their options are listed.
+ */
+const FILTER_KEYS: readonly DecisionFilterKey[] = ['category', 'phase', 'status', 'confidence'];
+
+/**
+ * Longest constraint text shown in a graph node label.
+ */
+const GRAPH_LABEL_LENGTH = 60;
+
+/**
+ * Usage text shown for unknown subcommands.
+ */
+const LEDGER_USAGE =
+  'Usage: crit ledger <list|show|graph|supersede|invalidate|reinstate|verify> [options]';
+
+/**
+ * Parsed command-line arguments of a ledger subcommand.
+ */
+interface LedgerArgs {
+  /** Positional arguments. */
+  readonly positionals: string[];
+  /** Values of options that take one. */
+  readonly values: Map<string, string>;
+  /** Options given without a value. */
+  readonly flags: Set<string>;
+}
+
+/**
+ * Parses subcommand arguments.
+ *
+ * @param args - The arguments after the subcommand.
+ * @param valueOptions - Options that take a value, e.g. `--reason`.
+ * @param flagOptions - Options that take no value, e.g. `--json`.
+ * @returns The parsed arguments, or an error message.
+ */
+function parseLedgerArgs(
+  args: readonly string[],
+  valueOptions: readonly string[],
+  flagOptions: readonly string[]
+): LedgerArgs | string {
+  const parsed: LedgerArgs = { positionals: [], values: new Map(), flags: new Set() };
+
+  for (let i = 0; i < args.length; i++) {
+    // eslint-disable-next-line security/detect-object-injection -- safe: i is bounded numeric loop counter
+    const arg = args[i] ?? '';
+    if (valueOptions.includes(arg)) {
+      const value = args[i + 1];
+      if (value === undefined || value === '') {
+        return `Missing value for ${arg}`;
+      }
+      parsed.values.set(arg, value);
+      i++;
+    } else if (flagOptions.includes(arg)) {
+      parsed.flags.add(arg);
+    } else if (arg.startsWith('-')) {
+      return `Unknown option: ${arg}`;
+    } else {
+      parsed.positionals.push(arg);
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Builds a decision filter from `--category`, `--phase`, `--status` and `--confidence`.
+ *
+ * @param args - Parsed arguments.
+ * @returns The filter, or an error message naming the accepted values.
+ */
+function buildDecisionFilter(args: LedgerArgs): DecisionFilter | string {
+  const filter: Record<string, string> = {};
+  for (const key of FILTER_KEYS) {
+    const value = args.values.get(`--${key}`);
+    if (value === undefined) {
+      continue;
+    }
+    // eslint-disable-next-line security/detect-object-injection -- safe: key is a DecisionFilterKey literal
+    const accepted = DECISION_FILTER_VALUES[key];
+    if (!accepted.has(value)) {
+      return `Invalid ${key} '${value}'. Valid values: ${[...accepted].join(', ')}`;
+    }
+    // eslint-disable-next-line security/detect-object-injection -- safe: key is a DecisionFilterKey literal
+    filter[key] = value;
+  }
+  return filter as DecisionFilter;
+}
+
+/**
+ * Formats decisions as one line each.
+ *
+ * @param decisions - The decisions to list.
+ * @param options - Display options.
+ * @returns Formatted listing text.
+ */
+export function formatDecisionList(
+  decisions: readonly Decision[],
+  options: DisplayOptions
+): string {
+  if (decisions.length === 0) {
+    return 'No matching decisions.';
+  }
+
+  const idWidth = Math.max(...decisions.map((d) => d.id.length));
+  const lines = decisions.map((d) =>
+    [
+      d.id.padEnd(idWidth),
+      d.status.padEnd(11),
+      `[${d.phase}]`,
+      formatConfidence(d.confidence, options),
+      d.constraint,
+    ].join(' ')
+  );
+  lines.push('', `${String(decisions.length)} decision(s)`);
+  return lines.join('\n');
+}
+
+/**
+ * Formats every field of a decision, with its dependents.
+ *
+ * @param decision - The decision to show.
+ * @param dependents - Decisions that depend on it.
+ * @returns Formatted detail text.
+ */
+export function formatDecisionDetails(decision: Decision, dependents: readonly Decision[]): string {
+  const rows: [string, string | undefined][] = [
+    ['Constraint', decision.constraint],
+    ['Rationale', decision.rationale],
+    ['Category', decision.category],
+    ['Phase', decision.phase],
+    ['Source', decision.source],
+    ['Confidence', decision.confidence],
+    ['Recorded', decision.timestamp],
+    ['Depends on', decision.dependencies?.join(', ')],
+    ['Dependents', dependents.map((d) => d.id).join(', ')],
+    ['Supersedes', decision.supersedes?.join(', ')],
+    ['Superseded by', decision.superseded_by],
+    ['Failure', decision.failure_context],
+    ['Resolution', decision.contradiction_resolved],
+    ['Human query', decision.human_query_id],
+    [
+      'File move',
+      decision.file_move !== undefined
+        ? `${decision.file_move.from} -> ${decision.file_move.to}`
+        : undefined,
+    ],
+  ];
+
+  const lines = [`${decision.id} (${decision.status})`];
+  for (const [label, value] of rows) {
+    if (value !== undefined && value !== '') {
+      lines.push(`  ${`${label}:`.padEnd(15)}${value}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Formats a cascade report as an indented tree.
+ *
+ * @param report - The cascade report.
+ * @param dryRun - Whether the report is a preview.
+ * @returns Formatted report text.
+ */
+export function formatCascadeReport(report: CascadeReport, dryRun: boolean): string {
+  const lines = [
+    `${dryRun ? 'Would invalidate' : 'Invalidated'} ${String(report.totalInvalidated)} decision(s):`,
+  ];
+  for (const affected of report.affectedDecisions) {
+    lines.push(`${'  '.repeat(affected.depth + 1)}${affected.id}  ${affected.constraint}`);
+  }
+  if (dryRun) {
+    lines.push('', 'Run again without --dry-run to apply.');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Formats the result of verifying the ledger's hash chain.
+ *
+ * @param result - The verification result.
+ * @returns Formatted result text.
+ */
+export function formatChainVerification(result: LedgerChainVerification): string {
+  switch (result.status) {
+    case 'intact':
+      return result.headHash !== undefined
+        ? `Hash chain intact: ${String(result.entries)} entries\nHead: ${result.headHash}`
+        : 'Hash chain intact: ledger is empty';
+    case 'unchained':
+      return [
+        `No hash chain: ${String(result.entries)} decision(s) were written before chaining,`,
+        'or their hashes were removed. The ledger will not load until it is chained.',
+        "Run 'crit ledger verify --migrate' to chain it if you trust its contents.",
+      ].join('\n');
+    default: {
+      const { position, entry, decisionId, reason } = result.firstBreak;
+      const where = decisionId !== undefined ? `${entry} ${decisionId}` : entry;
+      return `Hash chain broken at entry ${String(position)} (${where}): ${reason}`;
+    }
+  }
+}
+
+/**
+ * Builds the dependency graph of a set of decisions.
+ *
+ * @param decisions - The decisions to include.
+ * @returns The graph nodes and the dependency edges between them.
+ */
+function buildLedgerGraph(decisions: readonly Decision[]): DashboardDependencyGraph {
+  const ids = new Set(decisions.map((d) => d.id));
+  const edges = decisions.flatMap((decision) =>
+    (decision.dependencies ?? [])
+      .filter((dependency) => ids.has(dependency))
+      .map((dependency) => ({ from: decision.id, to: dependency }))
+  );
+  return { root: '', nodes: decisions, edges };
+}
+
+/**
+ * Shortens a constraint for use in a node label.
+ *
+ * @param constraint - The constraint text.
+ * @returns The text, cut to {@link GRAPH_LABEL_LENGTH} characters.
+ */
+function truncateLabel(constraint: string): string {
+  return constraint.length > GRAPH_LABEL_LENGTH
+    ? `${constraint.slice(0, GRAPH_LABEL_LENGTH - 3)}...`
+    : constraint;
+}
+
+/**
+ * Renders a dependency graph as Graphviz DOT.
+ *
+ * Edges point from a decision to the decisions it depends on. Superseded
+ * and invalidated decisions are dashed; the root, if any, is bold.
+ *
+ * @param graph - The dependency graph.
+ * @returns DOT source.
+ */
+export function formatDependencyGraphDot(graph: DashboardDependencyGraph): string {
+  const escape = (text: string): string => text.replace(/["\\]/g, (c) => `\\${c}`);
+  const quote = (text: string): string => `"${escape(text)}"`;
+  const lines = ['digraph ledger {', '  rankdir=LR;', '  node [shape=box];'];
+
+  for (const node of graph.nodes) {
+    const styles = [
+      ...(node.status !== 'active' ? ['dashed'] : []),
+      ...(node.id === graph.root ? ['bold'] : []),
+    ];
+    const style = styles.length > 0 ? `, style=${quote(styles.join(','))}` : '';
+    lines.push(
+      `  ${quote(node.id)} [label="${escape(node.id)}\\n${escape(truncateLabel(node.constraint))}"${style}];`
+    );
+  }
+  for (const edge of graph.edges) {
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Renders a dependency graph as a Mermaid flowchart.
+ *
+ * Edges point from a decision to the decisions it depends on. Superseded
+ * and invalidated decisions are dashed; the root, if any, is bold.
+ *
+ * @param graph - The dependency graph.
+ * @returns Mermaid source.
+ */
+export function formatDependencyGraphMermaid(graph: DashboardDependencyGraph): string {
+  const escape = (text: string): string => text.replace(/"/g, '#quot;');
+  const lines = ['flowchart LR'];
+
+  for (const node of graph.nodes) {
+    lines.push(`  ${node.id}["${node.id}<br/>${escape(truncateLabel(node.constraint))}"]`);
+  }
+  for (const edge of graph.edges) {
+    lines.push(`  ${edge.from} --> ${edge.to}`);
+  }
+
+  const inactive = graph.nodes.filter((n) => n.status !== 'active').map((n) => n.id);
+  if (inactive.length > 0) {
+    lines.push(
+      '  classDef inactive stroke-dasharray: 5 5',
+      `  class ${inactive.join(',')} inactive`
+    );
+  }
+  if (graph.nodes.some((n) => n.id === graph.root)) {
+    lines.push('  classDef root stroke-width:3px', `  class ${graph.root} root`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Reads a single decision ID argument.
+ *
+ * @param args - Parsed arguments.
+ * @param usage - Usage line printed when the ID is missing.
+ * @returns The ID, or undefined after printing an error.
+ */
+function requireDecisionId(args: LedgerArgs, usage: string): string | undefined {
+  const [id, ...extra] = args.positionals;
+  if (id === undefined || extra.length > 0) {
+    console.error(usage);
+    return undefined;
+  }
+  return id;
+}
+
+/**
+ * Handles `crit ledger list`.
+ */
+function listDecisions(ledger: Ledger, args: LedgerArgs, options: DisplayOptions): number {
+  const filter = buildDecisionFilter(args);
+  if (typeof filter === 'string') {
+    console.error(filter);
+    return 1;
+  }
+
+  let decisions = ledger.query(filter);
+  const limit = args.values.get('--limit');
+  if (limit !== undefined) {
+    const count = Number(limit);
+    if (!Number.isInteger(count) || count <= 0) {
+      console.error('Invalid value for --limit: expected a positive integer');
+      return 1;
+    }
+    decisions = decisions.slice(-count);
+  }
+
+  console.log(
+    args.flags.has('--json')
+      ? JSON.stringify(decisions, null, 2)
+      : formatDecisionList(decisions, options)
+  );
+  return 0;
+}
+
+/**
+ * Handles `crit ledger show`.
+ */
+function showDecision(ledger: Ledger, args: LedgerArgs): number {
+  const id = requireDecisionId(args, 'Usage: crit ledger show <id> [--json]');
+  if (id === undefined) {
+    return 1;
+  }
+  const decision = ledger.getById(id);
+  if (decision === undefined) {
+    console.error(`Decision not found: ${id}`);
+    return 1;
+  }
+
+  const dependents = ledger.getDependents(id);
+  console.log(
+    args.flags.has('--json')
+      ? JSON.stringify({ ...decision, dependents: dependents.map((d) => d.id) }, null, 2)
+      : formatDecisionDetails(decision, dependents)
+  );
+  return 0;
+}
+
+/**
+ * Handles `crit ledger graph`.
+ */
+function graphDecisions(ledger: Ledger, args: LedgerArgs): number {
+  const format = args.values.get('--format') ?? 'dot';
+  if (format !== 'dot' && format !== 'mermaid') {
+    console.error(`Invalid format '${format}'. Valid formats: dot, mermaid`);
+    return 1;
+  }
+  if (args.positionals.length > 1) {
+    console.error('Usage: crit ledger graph [id] [--format dot|mermaid] [--json]');
+    return 1;
+  }
+
+  const [id] = args.positionals;
+  let graph: DashboardDependencyGraph;
+  if (id !== undefined) {
+    graph = buildDependencyGraph(ledger, id);
+  } else {
+    const filter = buildDecisionFilter(args);
+    if (typeof filter === 'string') {
+      console.error(filter);
+      return 1;
+    }
+    graph = buildLedgerGraph(ledger.query(filter));
+  }
+
+  if (args.flags.has('--json')) {
+    console.log(
+      JSON.stringify(
+        { ...graph, nodes: graph.nodes.map((n) => ({ id: n.id, status: n.status })) },
+        null,
+        2
+      )
+    );
+  } else {
+    console.log(
+      format === 'dot' ? formatDependencyGraphDot(graph) : formatDependencyGraphMermaid(graph)
+    );
+  }
+  return 0;
+}
+
+/**
+ * Handles `crit ledger supersede`.
+ *
+ * The new decision keeps the old one's category, phase and dependencies
+ * unless overridden, and defaults to a canonical, user-explicit decision.
+ */
+async function supersedeDecision(
+  ledger: Ledger,
+  ledgerPath: string,
+  args: LedgerArgs
+): Promise<number> {
+  const id = requireDecisionId(
+    args,
+    'Usage: crit ledger supersede <id> --constraint <text> [--rationale <text>] [--force]'
+  );
+  if (id === undefined) {
+    return 1;
+  }
+  const constraint = args.values.get('--constraint');
+  if (constraint === undefined) {
+    console.error('Missing required option: --constraint');
+    return 1;
+  }
+  const old = ledger.getById(id);
+  if (old === undefined) {
+    console.error(`Decision not found: ${id}`);
+    return 1;
+  }
+
+  const rationale = args.values.get('--rationale');
+  const input = {
+    category: args.values.get('--category') ?? old.category,
+    constraint,
+    source: args.values.get('--source') ?? 'user_explicit',
+    confidence: args.values.get('--confidence') ?? 'canonical',
+    phase: args.values.get('--phase') ?? old.phase,
+    ...(rationale !== undefined ? { rationale } : {}),
+    ...(old.dependencies !== undefined ? { dependencies: [...old.dependencies] } : {}),
+  } as DecisionInput;
+
+  const result = ledger.supersede(id, input, {
+    forceOverrideCanonical: args.flags.has('--force'),
+  });
+  await saveLedger(ledger, ledgerPath);
+
+  if (args.flags.has('--json')) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    console.log(`Superseded ${result.oldDecision.id} with ${result.newDecision.id}`);
+  }
+  return 0;
+}
+
+/**
+ * Handles `crit ledger invalidate`.
+ */
+async function invalidateDecision(
+  ledger: Ledger,
+  ledgerPath: string,
+  args: LedgerArgs
+): Promise<number> {
+  const id = requireDecisionId(
+    args,
+    'Usage: crit ledger invalidate <id> [--dry-run] [--no-cascade] [--force]'
+  );
+  if (id === undefined) {
+    return 1;
+  }
+
+  const dryRun = args.flags.has('--dry-run');
+  const invalidateOptions = {
+    cascade: !args.flags.has('--no-cascade'),
+    forceInvalidateCanonical: args.flags.has('--force'),
+  };
+  const report = dryRun
+    ? ledger.previewInvalidate(id, invalidateOptions)
+    : ledger.invalidate(id, invalidateOptions);
+  if (!dryRun) {
+    await saveLedger(ledger, ledgerPath);
+  }
+
+  console.log(
+    args.flags.has('--json')
+      ? JSON.stringify({ dryRun, ...report }, null, 2)
+      : formatCascadeReport(report, dryRun)
+  );
+  return 0;
+}
+
+/**
+ * Handles `crit ledger reinstate`.
+ */
+async function reinstateDecision(
+  ledger: Ledger,
+  ledgerPath: string,
+  args: LedgerArgs
+): Promise<number> {
+  const id = requireDecisionId(
+    args,
+    'Usage: crit ledger reinstate <id> --reason <text> [--validator <name>] [--confidence <level>]'
+  );
+  if (id === undefined) {
+    return 1;
+  }
+  const reason = args.values.get('--reason');
+  if (reason === undefined) {
+    console.error('Missing required option: --reason');
+    return 1;
+  }
+  const confidence = args.values.get('--confidence');
+  if (
+    confidence !== undefined &&
+    !['canonical', 'delegated', 'inferred', 'provisional'].includes(confidence)
+  ) {
+    console.error(
+      `Invalid confidence '${confidence}'. Valid values: canonical, delegated, inferred, provisional`
+    );
+    return 1;
+  }
+
+  const decision = ledger.reinstate(
+    id,
+    {
+      reason,
+      validator: args.values.get('--validator') ?? process.env.USER ?? 'crit',
+      timestamp: new Date().toISOString(),
+    },
+    confidence !== undefined
+      ? { confidence: confidence as 'canonical' | 'delegated' | 'inferred' | 'provisional' }
+      : {}
+  );
+  await saveLedger(ledger, ledgerPath);
+
+  if (args.flags.has('--json')) {
+    console.log(JSON.stringify(decision, null, 2));
+  } else {
+    console.log(`Reinstated ${decision.id} with ${decision.confidence} confidence`);
+  }
+  return 0;
+}
+
+/**
+ * Handles `crit ledger verify`.
+ */
+async function verifyLedger(ledgerPath: string, args: LedgerArgs): Promise<number> {
+  if (args.positionals.length > 0) {
+    console.error('Usage: crit ledger verify [--migrate] [--json]');
+    return 1;
+  }
+  const result = await verifyLedgerFile(ledgerPath);
+  if (result.status === 'unchained' && args.flags.has('--migrate')) {
+    const ledger = await loadLedger(ledgerPath, { allowUnchained: true });
+    await saveLedger(ledger, ledgerPath);
+    const migrated = await verifyLedgerFile(ledgerPath);
+    console.log(
+      args.flags.has('--json')
+        ? JSON.stringify(migrated, null, 2)
+        : formatChainVerification(migrated)
+    );
+    return migrated.status === 'intact' ? 0 : 1;
+  }
+  console.log(
+    args.flags.has('--json') ? JSON.stringify(result, null, 2) : formatChainVerification(result)
+  );
+  return result.status === 'intact' ? 0 : 1;
+}
+
+/**
+ * Handles the ledger command.
+ *
+ * Subcommands:
+ * - `list`: List decisions, filtered by category, phase, status or confidence
+ * - `show <id>`: Show every field of a decision
+ * - `graph [id]`: Render a dependency graph as DOT or Mermaid
+ * - `supersede <id>`: Replace a decision with a new one
+ * - `invalidate <id>`: Invalidate a decision and its dependents, or preview it
+ * - `reinstate <id>`: Reinstate a suspended decision
+ * - `verify`: Check the hash chain for edits made outside the ledger API,
+ *   or chain a ledger written before chaining with `--migrate`
+ *
+ * @param context - The CLI context.
+ * @returns A promise resolving to the command result.
+ */
+export async function handleLedgerCommand(context: CliContext): Promise<CliCommandResult> {
+  const [subcommand = 'list', ...rest] = context.args;
+  const filterOptions = FILTER_KEYS.map((key) => `--${key}`);
+
+  const subcommandOptions = new Map<string, { values: string[]; flags: string[] }>([
+    ['list', { values: [...filterOptions, '--limit'], flags: ['--json'] }],
+    ['show', { values: [], flags: ['--json'] }],
+    ['graph', { values: [...filterOptions, '--format'], flags: ['--json'] }],
+    [
+      'supersede',
+      {
+        values: [
+          '--constraint',
+          '--rationale',
+          '--category',
+          '--phase',
+          '--source',
+          '--confidence',
+        ],
+        flags: ['--force', '--json'],
+      },
+    ],
+    ['invalidate', { values: [], flags: ['--dry-run', '--no-cascade', '--force', '--json'] }],
+    ['reinstate', { values: ['--reason', '--validator', '--confidence'], flags: ['--json'] }],
+    ['verify', { values: [], flags: ['--migrate', '--json'] }],
+  ]);
+  const options = subcommandOptions.get(subcommand);
+  if (options === undefined) {
+    console.error(`Unknown ledger subcommand: ${subcommand}`);
+    console.error(LEDGER_USAGE);
+    return { exitCode: 1 };
+  }
+
+  const args = parseLedgerArgs(rest, options.values, options.flags);
+  if (typeof args === 'string') {
+    console.error(args);
+    return { exitCode: 1 };
+  }
+
+  const ledgerPath = getDefaultLedgerPath(getDefaultStatePath());
+  if (!existsSync(ledgerPath)) {
+    console.error(`No decision ledger found at ${ledgerPath}`);
+    return { exitCode: 1 };
+  }
+  if (subcommand === 'verify') {
+    return { exitCode: await verifyLedger(ledgerPath, args) };
+  }
+  const ledger = await loadLedger(ledgerPath);
+  const display: DisplayOptions = {
+    colors: context.config.colors,
+    unicode: context.config.unicode,
+  };
+
+  switch (subcommand) {
+    case 'list':
+      return { exitCode: listDecisions(ledger, args, display) };
+    case 'show':
+      return { exitCode: showDecision(ledger, args) };
+    case 'graph':
+      return { exitCode: graphDecisions(ledger, args) };
+    case 'supersede':
+      return { exitCode: await supersedeDecision(ledger, ledgerPath, args) };
+    case 'invalidate':
+      return { exitCode: await invalidateDecision(ledger, ledgerPath, args) };
+    default:
+      return { exitCode: await reinstateDecision(ledger, ledgerPath, args) };
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Notifications command handler for the Criticality Protocol CLI.
+ *
+ * Lists and replays webhook deliveries held in the dead-letter queue.
+ */
+
+import type { CliContext, CliCommandResult } from '../types.js';
+import * as path from 'node:path';
+import { loadCliConfig } from '../config.js';
+import {
+  NotificationService,
+  loadDeadLetters,
+  type DeadLetter,
+} from '../../notifications/index.js';
+import { getDefaultStatePath } from '../state.js';
+
+/**
+ * Formats queued dead letters for display.
+ *
+ * @param letters - The queued deliveries.
+ * @returns Formatted listing text.
+ */
+export function formatDeadLetters(letters: readonly DeadLetter[]): string {
+  if (letters.length === 0) {
+    return 'No undelivered notifications.';
+  }
+
+  const lines = [`${String(letters.length)} undelivered notification(s):`];
+  for (const letter of letters) {
+    lines.push(
+      '',
+      `  ${letter.id}`,
+      `    Event:     ${letter.event}`,
+      `    Endpoint:  ${letter.endpoint}`,
+      `    Attempts:  ${String(letter.attempts)}`,
+      `    Failed:    ${letter.last_failed_at}`,
+      `    Error:     ${letter.last_error}`
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Handles the notifications command.
+ *
+ * Subcommands:
+ * - `list`: Show deliveries in the dead-letter queue
+ * - `retry`: Replay the dead-letter queue
+ *
+ * @param context - The CLI context.
+ * @returns A promise resolving to the command result.
+ */
+export async function handleNotificationsCommand(context: CliContext): Promise<CliCommandResult> {
+  const [subcommand = 'list'] = context.args;
+  const stateDir = path.dirname(getDefaultStatePath());
+
+  switch (subcommand) {
+    case 'list': {
+      console.log(formatDeadLetters(await loadDeadLetters(stateDir)));
+      return { exitCode: 0 };
+    }
+
+    case 'retry': {
+      const config = loadCliConfig();
+      const service = new NotificationService(config.notifications, { stateDir });
+      const result = await service.retryDeadLetters();
+
+      console.log(
+        `Delivered ${String(result.delivered.length)}, failed ${String(result.failed.length)}, ` +
+          `skipped ${String(result.skipped.length)}`
+      );
+      for (const letter of result.failed) {
+        console.error(`  ${letter.id} -> ${letter.endpoint}: ${letter.last_error}`);
+      }
+      for (const letter of result.skipped) {
+        console.error(`  ${letter.id} -> ${letter.endpoint}: no matching webhook channel`);
+      }
+      return { exitCode: result.failed.length > 0 ? 1 : 0 };
+    }
+
+    default:
+      console.error(`Unknown notifications subcommand: ${subcommand}`);
+      console.error('Usage: crit notifications <list|retry>');
+      return { exitCode: 1 };
+  }
+}
@@ -18,6 +18,9 @@ import {
   type CliStateSnapshot,
 } from '../state.js';
 import { wrapInBox } from '../utils/displayUtils.js';
+import { isBlockedState } from '../../protocol/types.js';
+import { loadCliConfig } from '../config.js';
+import { CostLedger, getCostReportPath } from '../../router/cost.js';
 import readline from 'node:readline';
 
 interface ResolveDisplayOptions {
@@ -582,6 +585,31 @@ async function promptForClarification(
   }
 }
 
+/**
+ * Raises the spending limit when a budget block is resolved.
+ *
+ * @param snapshot - The snapshot before resolution.
+ * @param statePath - Path to the state file.
+ */
+export async function approveBudgetIfBlocked(
+  snapshot: CliStateSnapshot,
+  statePath: string
+): Promise<void> {
+  if (!isBlockedState(snapshot.state) || snapshot.state.reason !== 'budget_exceeded') {
+    return;
+  }
+
+  const config = loadCliConfig();
+  const costLedger = new CostLedger({
+    cost: config.cost,
+    models: config.models,
+    filePath: getCostReportPath(statePath),
+  });
+  await costLedger.load();
+  const approval = await costLedger.approveFurtherSpend();
+  console.log(`Budget limit raised to $${approval.limitUsd.toFixed(2)}.`);
+}
+
 /**
  * Handles the resolve command.
  *
@@ -642,6 +670,8 @@ export async function handleResolveCommand(context: CliContext): Promise<CliComm
           return { exitCode: 1, message: resolveResult.error.message };
         }
 
+        await approveBudgetIfBlocked(snapshot, statePath);
+
         const updatedSnapshot = updateStateAfterResolution(
           snapshot,
           query.id,
@@ -14,11 +14,13 @@ import {
   saveCliState,
   type CliStateSnapshot,
 } from '../state.js';
-import { loadLedger } from '../../ledger/persistence.js';
+import { loadLedger, saveLedger } from '../../ledger/persistence.js';
+import { Ledger } from '../../ledger/ledger.js';
 import type { Decision } from '../../ledger/types.js';
 import { formatRelativeTime, formatConfidence, wrapInBox } from '../utils/displayUtils.js';
 import {
   createOrchestrator,
+  type StateHistory,
   type TickResult,
   type TickStopReason,
 } from '../../protocol/orchestrator.js';
@@ -33,6 +35,15 @@ import { ReminderScheduler } from '../../notifications/reminder.js';
 import { validateWebhookEndpoint } from '../../notifications/index.js';
 import * as path from 'node:path';
 import { getPhase, isBlockedState, isFailedState } from '../../protocol/types.js';
+import { parseSpec, SpecParseError } from '../../spec/parser.js';
+import {
+  applyIncrementalPlan,
+  loadSpecBaseline,
+  planIncrementalUpdate,
+  saveIncrementalPlan,
+} from '../../protocol/incremental.js';
+import { createStateHistoryRecorder } from '../../protocol/history.js';
+import { safeMkdir } from '../../utils/safe-fs.js';
 
 interface ResumeDisplayOptions {
   colors: boolean;
@@ -132,8 +143,8 @@ async function checkAndSendReminder(
     return;
   }
 
-  const notificationService = new NotificationService(cliConfig.notifications);
   const stateDir = path.dirname(statePath);
+  const notificationService = new NotificationService(cliConfig.notifications, { stateDir });
   const reminderScheduler = new ReminderScheduler({
     cronExpression: cliConfig.notifications.reminder_schedule,
     notificationService,
@@ -253,6 +264,65 @@ async function displayResumeSummary(
   console.log(`Resuming protocol from ${getPhase(snapshot.state) ?? 'Unknown'}...`);
 }
 
+/**
+ * Regresses the protocol if spec.toml changed since Lattice last ran.
+ *
+ * Compares spec.toml with the recorded baseline, regresses to the earliest
+ * affected phase, records preserved and invalidated functions in the
+ * ledger, and leaves a plan for the Lattice phase to restore unaffected
+ * implementations.
+ *
+ * @param snapshot - The CLI state snapshot.
+ * @param statePath - Path to the state file.
+ * @returns The snapshot to resume from; `snapshot` itself if nothing regressed.
+ * @throws SpecParseError if spec.toml or its baseline cannot be parsed.
+ */
+async function applySpecChanges(
+  snapshot: CliStateSnapshot,
+  statePath: string
+): Promise<CliStateSnapshot> {
+  const projectRoot = path.dirname(path.resolve(statePath));
+  const specPath = path.join(projectRoot, 'spec.toml');
+  const baseline = await loadSpecBaseline(projectRoot);
+  if (baseline === undefined || !existsSync(specPath)) {
+    return snapshot;
+  }
+
+  const specContent = readFileSync(specPath, 'utf-8');
+  if (specContent === baseline) {
+    return snapshot;
+  }
+
+  const nextSpec = parseSpec(specContent);
+  const plan = planIncrementalUpdate(parseSpec(baseline), nextSpec);
+  if (plan.targetPhase === undefined) {
+    return snapshot;
+  }
+
+  const ledgerPath = getDefaultLedgerPath(statePath);
+  const ledger = existsSync(ledgerPath)
+    ? await loadLedger(ledgerPath)
+    : new Ledger({ project: nextSpec.system.name });
+  const result = applyIncrementalPlan(snapshot, plan, ledger);
+  if (!result.regressed) {
+    return snapshot;
+  }
+
+  await safeMkdir(path.dirname(ledgerPath), { recursive: true });
+  await saveLedger(ledger, ledgerPath);
+  await saveIncrementalPlan(projectRoot, plan);
+  await saveCliState(result.snapshot, statePath);
+
+  console.log(
+    `spec.toml changed: regressing from ${result.fromPhase ?? 'Unknown'} to ${plan.targetPhase}`
+  );
+  console.log(
+    `  ${String(plan.invalidatedFunctions.length)} function(s) to re-implement, ${String(plan.preservedFunctions.length)} preserved`
+  );
+
+  return result.snapshot;
+}
+
 /**
  * Formats phases completed for display.
  *
@@ -481,7 +551,7 @@ export async function handleResumeCommand(context: CliContext): Promise<CliComma
   let gracefulShutdown = false;
 
   try {
-    const snapshot = await loadCliStateWithRecovery(statePath);
+    let snapshot = await loadCliStateWithRecovery(statePath);
     const cliConfig = loadCliConfig();
 
     try {
@@ -492,9 +562,22 @@ export async function handleResumeCommand(context: CliContext): Promise<CliComma
       );
     }
 
+    let specRegressed: boolean;
+    try {
+      const updated = await applySpecChanges(snapshot, statePath);
+      specRegressed = updated !== snapshot;
+      snapshot = updated;
+    } catch (error) {
+      if (error instanceof SpecParseError) {
+        console.error(`Error: spec.toml is invalid: ${error.message}`);
+        return { exitCode: 1, message: error.message };
+      }
+      throw error;
+    }
+
     await checkAndSendReminder(snapshot, cliConfig, statePath);
 
-    if (snapshot.resolvedQueries.length === 0) {
+    if (snapshot.resolvedQueries.length === 0 && !specRegressed) {
       console.error('Error: No blocked state to resume');
       return { exitCode: 1, message: 'No resolved queries to resume from' };
     }
@@ -519,14 +602,24 @@ export async function handleResumeCommand(context: CliContext): Promise<CliComma
       telemetryCollector,
     });
 
+    const ledgerPath = getDefaultLedgerPath(statePath);
     const orchestratorOptions: {
       statePath: string;
       operations: typeof operations;
       notificationService: NotificationService;
+      budget: typeof operations.costLedger;
+      history: StateHistory;
     } = {
       statePath,
       operations,
       notificationService: operations.notificationService,
+      budget: operations.costLedger,
+      history: createStateHistoryRecorder({
+        projectRoot: path.dirname(path.resolve(statePath)),
+        statePath,
+        getLedgerLength: async () =>
+          existsSync(ledgerPath) ? (await loadLedger(ledgerPath)).size : 0,
+      }),
     };
 
     const orchestrator = await createOrchestrator(orchestratorOptions);
@@ -0,0 +1,101 @@
+/**
+ * Rewind command handler for the Criticality Protocol CLI.
+ *
+ * Restores protocol state, ledger view and source tree to a recorded
+ * history entry.
+ */
+
+import type { CliContext, CliCommandResult } from '../types.js';
+import * as path from 'node:path';
+import { existsSync } from 'node:fs';
+import { Ledger } from '../../ledger/ledger.js';
+import { loadLedger, saveLedger } from '../../ledger/persistence.js';
+import {
+  loadStateHistory,
+  recordStateHistory,
+  rewindToHistoryEntry,
+  type StateHistoryOptions,
+} from '../../protocol/history.js';
+import { stateFileExists } from '../../protocol/persistence.js';
+import { safeMkdir } from '../../utils/safe-fs.js';
+import {
+  createInitialCliState,
+  getDefaultLedgerPath,
+  getDefaultStatePath,
+  loadCliState,
+  saveCliState,
+  type CliStateSnapshot,
+} from '../state.js';
+import { describeHistoryEntryState } from './history.js';
+
+/**
+ * Handles the rewind command.
+ *
+ * The current state is recorded first, so a rewind can itself be undone
+ * by rewinding to that entry.
+ *
+ * @param context - The CLI context.
+ * @returns A promise resolving to the command result.
+ */
+export async function handleRewindCommand(context: CliContext): Promise<CliCommandResult> {
+  const [idArg, ...rest] = context.args;
+  const id = Number(idArg);
+  if (idArg === undefined || !Number.isInteger(id) || id <= 0) {
+    console.error('Usage: crit rewind <id>');
+    console.error('Run "crit history" to list entries.');
+    return { exitCode: 1 };
+  }
+  if (rest.length > 0) {
+    console.error(`Unknown option: ${rest[0] ?? ''}`);
+    return { exitCode: 1 };
+  }
+
+  const statePath = getDefaultStatePath();
+  const projectRoot = path.dirname(path.resolve(statePath));
+  const options: StateHistoryOptions = { projectRoot, statePath };
+
+  const entry = (await loadStateHistory(projectRoot)).find((e) => e.id === id);
+  if (entry === undefined) {
+    console.error(`No history entry #${String(id)}`);
+    console.error('Run "crit history" to list entries.');
+    return { exitCode: 1 };
+  }
+
+  const ledgerPath = getDefaultLedgerPath(statePath);
+  const ledger = existsSync(ledgerPath)
+    ? await loadLedger(ledgerPath)
+    : new Ledger({ project: path.basename(projectRoot) });
+
+  const hasState = await stateFileExists(statePath);
+  const current: CliStateSnapshot = hasState
+    ? await loadCliState(statePath)
+    : createInitialCliState();
+  const undoEntry = hasState ? await recordStateHistory(current, ledger.size, options) : undefined;
+
+  const result = await rewindToHistoryEntry(entry, ledger, options);
+
+  await safeMkdir(path.dirname(ledgerPath), { recursive: true });
+  await saveLedger(ledger, ledgerPath);
+  const restored: CliStateSnapshot = {
+    ...current,
+    ...result.snapshot,
+    lastActivity: new Date().toISOString(),
+  };
+  await saveCliState(restored, statePath);
+  await recordStateHistory(restored, ledger.size, options);
+
+  console.log(`Rewound to history entry #${String(entry.id)}: ${describeHistoryEntryState(entry)}`);
+  console.log(
+    result.treeRestored
+      ? `  Source tree restored to ${entry.treeHash ?? ''}`
+      : '  No source tree was recorded; sources left unchanged'
+  );
+  console.log(
+    `  ${String(result.invalidated.length)} later decision(s) invalidated; rewind recorded as ${result.decision.id}`
+  );
+  if (undoEntry !== undefined) {
+    console.log(`  Run "crit rewind ${String(undoEntry.id)}" to undo.`);
+  }
+
+  return { exitCode: 0 };
+}
@@ -257,6 +257,7 @@ describe('3-Tier Display Format (US-004)', () => {
     expect(formatBlockReasonLabel('canonical_conflict')).toBe('Canonical Conflict');
     expect(formatBlockReasonLabel('unresolved_contradiction')).toBe('Unresolved Contradiction');
     expect(formatBlockReasonLabel('security_review')).toBe('Security Review');
+    expect(formatBlockReasonLabel('budget_exceeded')).toBe('Budget Exceeded');
   });
 
   it('should show substep name from phase substate when active', () => {
@@ -131,8 +131,8 @@ async function checkAndSendReminder(
     return undefined;
   }
 
-  const notificationService = new NotificationService(cliConfig.notifications);
   const stateDir = path.dirname(statePath);
+  const notificationService = new NotificationService(cliConfig.notifications, { stateDir });
   const reminderScheduler = new ReminderScheduler({
     cronExpression: cliConfig.notifications.reminder_schedule,
     notificationService,
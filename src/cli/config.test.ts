@@ -0,0 +1,51 @@
+/**
+ * Tests for project configuration loading in CLI commands.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { existsSync, readFileSync } from 'node:fs';
+import { loadCliConfig } from './config.js';
+import { parseConfig } from '../config/index.js';
+
+vi.mock('node:fs', async (importOriginal) => {
+  const original = await importOriginal<typeof import('node:fs')>();
+
+  return {
+    ...original,
+    existsSync: vi.fn(),
+    readFileSync: vi.fn(),
+  };
+});
+
+const mockExistsSync = vi.mocked(existsSync);
+const mockReadFileSync = vi.mocked(readFileSync);
+
+describe('loadCliConfig', () => {
+  beforeEach(() => {
+    mockExistsSync.mockReset();
+    mockReadFileSync.mockReset();
+  });
+
+  it('uses defaults when no config file exists', () => {
+    mockExistsSync.mockReturnValue(false);
+
+    expect(loadCliConfig()).toEqual(parseConfig(''));
+  });
+
+  it('warns and uses defaults when config file has parse error', () => {
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    mockExistsSync.mockReturnValue(true);
+    mockReadFileSync.mockReturnValue('invalid [ toml');
+
+    const config = loadCliConfig();
+
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Warning: Failed to load config from criticality.toml')
+    );
+    expect(consoleWarnSpy).toHaveBeenCalledWith('Using default CLI settings.');
+    expect(config).toEqual(parseConfig(''));
+
+    consoleWarnSpy.mockRestore();
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Project configuration loading for CLI commands.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { parseConfig, type Config } from '../config/index.js';
+
+/**
+ * Loads configuration from criticality.toml.
+ *
+ * Warns and falls back to defaults when the file is invalid.
+ *
+ * @returns The loaded configuration or defaults.
+ */
+export function loadCliConfig(): Config {
+  const configFilePath = 'criticality.toml';
+
+  if (existsSync(configFilePath)) {
+    try {
+      const tomlContent = readFileSync(configFilePath, 'utf-8');
+      return parseConfig(tomlContent);
+    } catch (error) {
+      console.warn(
+        `Warning: Failed to load config from ${configFilePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      console.warn('Using default CLI settings.');
+    }
+  }
+
+  return parseConfig('');
+}
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildDashboardState,
+  buildDependencyGraph,
+  describeStatus,
+  searchDecisions,
+  type DashboardTimelineEntry,
+} from './model.js';
+import {
+  createActiveState,
+  createBlockedState,
+  createCompleteState,
+  createLatticeCompilingCheck,
+  createLatticePhaseState,
+} from '../../protocol/types.js';
+import type { BlockingRecord } from '../../protocol/blocking.js';
+import { Ledger } from '../../ledger/ledger.js';
+import type { CliStateSnapshot } from '../state.js';
+
+const PENDING: BlockingRecord = {
+  id: 'blocking_lattice_2',
+  phase: 'Lattice',
+  query: 'Use Money or number for balances?',
+  options: ['Money', 'number'],
+  blockedAt: '2024-02-07T10:00:00.000Z',
+  resolved: false,
+};
+
+const RESOLVED: BlockingRecord = {
+  id: 'blocking_ignition_1',
+  phase: 'Ignition',
+  query: 'Approve the spec?',
+  options: ['Yes', 'No'],
+  blockedAt: '2024-02-07T08:00:00.000Z',
+  resolved: true,
+  resolution: {
+    queryId: 'blocking_ignition_1',
+    response: 'Yes',
+    resolvedAt: '2024-02-07T09:00:00.000Z',
+  },
+};
+
+function snapshot(overrides: Partial<CliStateSnapshot> = {}): CliStateSnapshot {
+  return {
+    state: createBlockedState({
+      reason: 'user_requested',
+      phase: 'Lattice',
+      query: PENDING.query,
+      options: PENDING.options ?? [],
+    }),
+    artifacts: ['spec'],
+    blockingQueries: [PENDING],
+    createdAt: '2024-02-07T07:00:00.000Z',
+    lastActivity: '2024-02-07T10:00:00.000Z',
+    resolvedQueries: [{ record: RESOLVED, resolvedAt: '2024-02-07T09:00:00.000Z' }],
+    ...overrides,
+  };
+}
+
+describe('buildDashboardState', () => {
+  it('should mark phase progress and list pending queries', () => {
+    const state = buildDashboardState(snapshot());
+
+    expect(state.status).toEqual({
+      kind: 'Blocked',
+      phase: 'Lattice',
+      blockReason: 'User Requested',
+    });
+    expect(state.phases.slice(0, 3)).toEqual([
+      { phase: 'Ignition', status: 'done' },
+      { phase: 'Lattice', status: 'current' },
+      { phase: 'CompositionAudit', status: 'pending' },
+    ]);
+    expect(state.pendingQueries).toEqual([PENDING]);
+  });
+
+  it('should merge recorded and observed events into a chronological timeline', () => {
+    const observed: DashboardTimelineEntry[] = [
+      {
+        at: '2024-02-07T09:30:00.000Z',
+        kind: 'transition',
+        phase: 'Lattice',
+        label: 'Lattice > Generating Structure',
+      },
+    ];
+
+    const { timeline } = buildDashboardState(snapshot(), observed);
+
+    expect(timeline.map((entry) => [entry.kind, entry.label])).toEqual([
+      ['started', 'Protocol started'],
+      ['blocked', 'Blocked: Approve the spec?'],
+      ['resolved', 'Resolved: Yes'],
+      ['transition', 'Lattice > Generating Structure'],
+      ['blocked', 'Blocked: Use Money or number for balances?'],
+    ]);
+  });
+
+  it('should describe active substates and completion', () => {
+    const active = buildDashboardState(
+      snapshot({
+        state: createActiveState(createLatticePhaseState(createLatticeCompilingCheck(2))),
+      })
+    );
+    expect(describeStatus(active.status)).toBe('Lattice > Compiling Check');
+    expect(active.status.substate).toMatchObject({ step: 'compilingCheck' });
+
+    const complete = buildDashboardState(snapshot({ state: createCompleteState(['spec']) }));
+    expect(describeStatus(complete.status)).toBe('Protocol complete');
+    expect(complete.phases.every((phase) => phase.status === 'done')).toBe(true);
+  });
+});
+
+describe('ledger views', () => {
+  function ledgerWithChain(): Ledger {
+    const ledger = new Ledger({ project: 'bank' });
+    const base = ledger.append({
+      category: 'architectural',
+      constraint: 'Balances use the Money type',
+      source: 'design_review',
+      confidence: 'canonical',
+      phase: 'design',
+    });
+    const middle = ledger.append({
+      category: 'contracts',
+      constraint: 'Transfers never overdraw an account',
+      rationale: 'Regulatory requirement',
+      source: 'design_review',
+      confidence: 'canonical',
+      phase: 'lattice',
+      dependencies: [base.id],
+    });
+    ledger.append({
+      category: 'testing',
+      constraint: 'Property tests cover overdraft rejection',
+      source: 'injection_failure',
+      confidence: 'inferred',
+      phase: 'mesoscopic',
+      dependencies: [middle.id],
+    });
+    ledger.append({
+      category: 'models',
+      constraint: 'Unrelated decision',
+      source: 'design_review',
+      confidence: 'provisional',
+      phase: 'design',
+    });
+    return ledger;
+  }
+
+  it('should match every search term against decision fields', () => {
+    const decisions = ledgerWithChain().getDecisions();
+
+    expect(searchDecisions(decisions, 'regulatory').map((d) => d.category)).toEqual(['contracts']);
+    expect(searchDecisions(decisions, 'DESIGN money').map((d) => d.category)).toEqual([
+      'architectural',
+    ]);
+    expect(searchDecisions(decisions, '')).toHaveLength(4);
+  });
+
+  it('should build the transitive dependency graph around a decision', () => {
+    const ledger = ledgerWithChain();
+    const [base, middle, leaf] = ledger.getDecisions();
+
+    const graph = buildDependencyGraph(ledger, middle?.id ?? '');
+
+    expect(graph.nodes.map((d) => d.id).sort()).toEqual([base?.id, middle?.id, leaf?.id].sort());
+    expect(graph.edges).toEqual(
+      expect.arrayContaining([
+        { from: middle?.id, to: base?.id },
+        { from: leaf?.id, to: middle?.id },
+      ])
+    );
+    expect(graph.edges).toHaveLength(2);
+  });
+});
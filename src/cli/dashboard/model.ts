@@ -0,0 +1,287 @@
+/**
+ * View model for the web dashboard.
+ *
+ * Turns the CLI state snapshot and decision ledger into the plain JSON
+ * shapes served by the dashboard API. Everything here is pure so the
+ * server only has to load files and serialize the results.
+ *
+ * @packageDocumentation
+ */
+
+import type { ProtocolPhase, ProtocolState } from '../../protocol/types.js';
+import {
+  PROTOCOL_PHASES,
+  formatBlockReasonLabel,
+  formatStepName,
+  getPhase,
+  getPhaseIndex,
+  isActiveState,
+  isBlockedState,
+  isFailedState,
+} from '../../protocol/types.js';
+import type { BlockingRecord } from '../../protocol/blocking.js';
+import type { Ledger } from '../../ledger/ledger.js';
+import type { Decision } from '../../ledger/types.js';
+import type { CliStateSnapshot, ResolvedQuery } from '../state.js';
+
+/**
+ * Current position of the protocol.
+ */
+export interface DashboardStatus {
+  /** Protocol state kind. */
+  readonly kind: ProtocolState['kind'];
+  /** Current phase ('Complete' once the protocol has finished). */
+  readonly phase: ProtocolPhase;
+  /** Human-readable substate step, for active states. */
+  readonly step?: string;
+  /** Raw substate, for active states. */
+  readonly substate?: Readonly<Record<string, unknown>>;
+  /** Human-readable block reason, for blocked states. */
+  readonly blockReason?: string;
+  /** Failure description, for failed states. */
+  readonly error?: string;
+}
+
+/**
+ * Progress marker for one protocol phase.
+ */
+export interface DashboardPhase {
+  /** The phase. */
+  readonly phase: ProtocolPhase;
+  /** Whether the phase is finished, in progress, or not yet reached. */
+  readonly status: 'done' | 'current' | 'pending';
+}
+
+/**
+ * An entry in the dashboard timeline.
+ */
+export interface DashboardTimelineEntry {
+  /** When the event happened (ISO 8601). */
+  readonly at: string;
+  /** Event kind. */
+  readonly kind: 'started' | 'transition' | 'blocked' | 'resolved';
+  /** Phase the event belongs to. */
+  readonly phase: ProtocolPhase;
+  /** Human-readable description. */
+  readonly label: string;
+}
+
+/**
+ * Everything the dashboard shows about the protocol state.
+ */
+export interface DashboardState {
+  /** Current position of the protocol. */
+  readonly status: DashboardStatus;
+  /** Progress through the phases, in execution order. */
+  readonly phases: readonly DashboardPhase[];
+  /** Events, oldest first. */
+  readonly timeline: readonly DashboardTimelineEntry[];
+  /** Blocking queries awaiting a response. */
+  readonly pendingQueries: readonly BlockingRecord[];
+  /** Blocking queries already answered. */
+  readonly resolvedQueries: readonly ResolvedQuery[];
+  /** Artifacts produced so far. */
+  readonly artifacts: readonly string[];
+  /** When the state was created (ISO 8601). */
+  readonly createdAt: string;
+  /** When the state last changed (ISO 8601). */
+  readonly lastActivity: string;
+}
+
+/**
+ * A decision's neighbourhood in the dependency graph.
+ */
+export interface DashboardDependencyGraph {
+  /** The decision at the centre of the graph. */
+  readonly root: string;
+  /** Every decision in the graph, including the root. */
+  readonly nodes: readonly Decision[];
+  /** Dependency edges; `from` depends on `to`. */
+  readonly edges: readonly { readonly from: string; readonly to: string }[];
+}
+
+/**
+ * Describes the current position of the protocol.
+ *
+ * @param state - The protocol state.
+ * @returns The dashboard status.
+ */
+export function buildDashboardStatus(state: ProtocolState): DashboardStatus {
+  const phase = getPhase(state) ?? 'Complete';
+
+  if (isActiveState(state)) {
+    return {
+      kind: state.kind,
+      phase,
+      step: formatStepName(state.phase.substate.step),
+      substate: state.phase.substate,
+    };
+  }
+  if (isBlockedState(state)) {
+    return { kind: state.kind, phase, blockReason: formatBlockReasonLabel(state.reason) };
+  }
+  if (isFailedState(state)) {
+    return { kind: state.kind, phase, error: state.error };
+  }
+  return { kind: state.kind, phase };
+}
+
+/**
+ * Describes a status as a single timeline label.
+ *
+ * @param status - The dashboard status.
+ * @returns Label such as "Lattice > Compiling Check".
+ */
+export function describeStatus(status: DashboardStatus): string {
+  switch (status.kind) {
+    case 'Active':
+      return `${status.phase} > ${status.step ?? ''}`;
+    case 'Blocked':
+      return `${status.phase} blocked: ${status.blockReason ?? ''}`;
+    case 'Failed':
+      return `${status.phase} failed: ${status.error ?? ''}`;
+    case 'Complete':
+      return 'Protocol complete';
+  }
+}
+
+/**
+ * Builds the dashboard view of a CLI state snapshot.
+ *
+ * The timeline combines events recorded in the snapshot (creation, blocking
+ * queries and their resolutions) with transitions the caller observed while
+ * watching the state file, since the snapshot itself keeps no history.
+ *
+ * @param snapshot - The CLI state snapshot.
+ * @param observed - Transitions observed while watching the state.
+ * @returns The dashboard state.
+ */
+export function buildDashboardState(
+  snapshot: CliStateSnapshot,
+  observed: readonly DashboardTimelineEntry[] = []
+): DashboardState {
+  const status = buildDashboardStatus(snapshot.state);
+  const currentIndex = getPhaseIndex(status.phase);
+  const phases = PROTOCOL_PHASES.map((phase, index): DashboardPhase => {
+    if (index < currentIndex || status.kind === 'Complete') {
+      return { phase, status: 'done' };
+    }
+    return { phase, status: index === currentIndex ? 'current' : 'pending' };
+  });
+
+  const pendingQueries = snapshot.blockingQueries.filter((query) => !query.resolved);
+  const timeline: DashboardTimelineEntry[] = [
+    {
+      at: snapshot.createdAt,
+      kind: 'started',
+      phase: 'Ignition',
+      label: 'Protocol started',
+    },
+    ...snapshot.resolvedQueries.flatMap(({ record, resolvedAt }): DashboardTimelineEntry[] => [
+      {
+        at: record.blockedAt,
+        kind: 'blocked',
+        phase: record.phase,
+        label: `Blocked: ${record.query}`,
+      },
+      {
+        at: resolvedAt,
+        kind: 'resolved',
+        phase: record.phase,
+        label: `Resolved: ${record.resolution?.response ?? 'answered'}`,
+      },
+    ]),
+    ...pendingQueries.map(
+      (record): DashboardTimelineEntry => ({
+        at: record.blockedAt,
+        kind: 'blocked',
+        phase: record.phase,
+        label: `Blocked: ${record.query}`,
+      })
+    ),
+    ...observed,
+  ];
+  timeline.sort((a, b) => a.at.localeCompare(b.at));
+
+  return {
+    status,
+    phases,
+    timeline,
+    pendingQueries,
+    resolvedQueries: snapshot.resolvedQueries,
+    artifacts: snapshot.artifacts,
+    createdAt: snapshot.createdAt,
+    lastActivity: snapshot.lastActivity,
+  };
+}
+
+/**
+ * Filters decisions by a free-text search.
+ *
+ * Every whitespace-separated term must appear (case-insensitively) in the
+ * decision's ID, category, phase, status, source, constraint, or rationale.
+ *
+ * @param decisions - The decisions to search.
+ * @param query - The search text; empty matches everything.
+ * @returns Matching decisions, newest first.
+ */
+export function searchDecisions(decisions: readonly Decision[], query: string): Decision[] {
+  const terms = query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((term) => term.length > 0);
+
+  return decisions
+    .filter((decision) => {
+      const haystack = [
+        decision.id,
+        decision.category,
+        decision.phase,
+        decision.status,
+        decision.source,
+        decision.constraint,
+        decision.rationale ?? '',
+      ]
+        .join('\n')
+        .toLowerCase();
+      return terms.every((term) => haystack.includes(term));
+    })
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+/**
+ * Builds the full dependency graph around a decision.
+ *
+ * Includes the transitive dependencies and dependents returned by
+ * `getDecisionsByDependencyGraph`, with an edge for every dependency
+ * between two decisions in the graph.
+ *
+ * @param ledger - The decision ledger.
+ * @param decisionId - The decision at the centre of the graph.
+ * @returns The graph nodes and edges.
+ * @throws DecisionNotFoundError if the decision doesn't exist.
+ */
+export function buildDependencyGraph(ledger: Ledger, decisionId: string): DashboardDependencyGraph {
+  const graph = ledger.getDecisionsByDependencyGraph(decisionId, {
+    includeTransitiveDependencies: true,
+    includeTransitiveDependents: true,
+  });
+
+  const nodes = new Map<string, Decision>([[graph.decision.id, graph.decision]]);
+  for (const decision of [
+    ...graph.directDependencies,
+    ...graph.directDependents,
+    ...(graph.transitiveDependencies ?? []),
+    ...(graph.transitiveDependents ?? []),
+  ]) {
+    nodes.set(decision.id, decision);
+  }
+
+  const edges = [...nodes.values()].flatMap((decision) =>
+    (decision.dependencies ?? [])
+      .filter((dependency) => nodes.has(dependency))
+      .map((dependency) => ({ from: decision.id, to: dependency }))
+  );
+
+  return { root: decisionId, nodes: [...nodes.values()], edges };
+}
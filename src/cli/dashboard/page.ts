@@ -0,0 +1,317 @@
+/**
+ * Single-page UI for the web dashboard.
+ *
+ * The page is self-contained (inline styles and script, no external
+ * assets) so the dashboard works offline. All dynamic content is inserted
+ * with `textContent`, never as HTML.
+ *
+ * @packageDocumentation
+ */
+
+const STYLES = `
+  :root { color-scheme: light dark; --muted: #888; --accent: #2f7de1; --warn: #d98e04; --bad: #d14343; --ok: #2e9d5b; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 14px/1.5 system-ui, sans-serif; }
+  header { padding: 16px 24px; border-bottom: 1px solid #8884; display: flex; gap: 16px; align-items: baseline; }
+  header h1 { font-size: 18px; margin: 0; }
+  #connection { margin-left: auto; color: var(--muted); font-size: 12px; }
+  main { display: grid; grid-template-columns: minmax(320px, 1fr) minmax(360px, 1.3fr); gap: 24px; padding: 24px; }
+  section { border: 1px solid #8884; border-radius: 8px; padding: 16px; margin-bottom: 24px; }
+  h2 { font-size: 15px; margin: 0 0 12px; }
+  .muted { color: var(--muted); }
+  .phases { display: flex; gap: 4px; margin: 12px 0; }
+  .phase { flex: 1; padding: 6px 4px; text-align: center; font-size: 12px; border-radius: 4px; background: #8882; }
+  .phase.done { background: color-mix(in srgb, var(--ok) 25%, transparent); }
+  .phase.current { background: var(--accent); color: white; font-weight: 600; }
+  .kind-Blocked .phase.current { background: var(--warn); }
+  .kind-Failed .phase.current { background: var(--bad); }
+  ol.timeline { list-style: none; padding: 0; margin: 0; max-height: 320px; overflow-y: auto; }
+  ol.timeline li { padding: 4px 0 4px 12px; border-left: 3px solid #8886; margin-left: 4px; }
+  ol.timeline li.blocked { border-color: var(--warn); }
+  ol.timeline li.resolved { border-color: var(--ok); }
+  ol.timeline li.transition { border-color: var(--accent); }
+  .query { border-top: 1px solid #8884; padding-top: 12px; margin-top: 12px; }
+  .query:first-of-type { border-top: none; margin-top: 0; padding-top: 0; }
+  .options { display: flex; flex-wrap: wrap; gap: 8px; margin: 8px 0; }
+  button { font: inherit; padding: 4px 12px; border-radius: 4px; border: 1px solid #8888; background: transparent; cursor: pointer; }
+  button:hover { border-color: var(--accent); }
+  input, textarea { font: inherit; width: 100%; padding: 6px 8px; border-radius: 4px; border: 1px solid #8888; background: transparent; }
+  .error { color: var(--bad); }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  td, th { text-align: left; padding: 4px 6px; border-bottom: 1px solid #8883; vertical-align: top; }
+  tr.decision { cursor: pointer; }
+  tr.decision:hover, tr.decision.selected { background: #8882; }
+  .status-superseded, .status-invalidated { color: var(--muted); text-decoration: line-through; }
+  #ledger-results { max-height: 360px; overflow-y: auto; margin-top: 8px; }
+  #graph svg { width: 100%; }
+  #graph text { font-size: 11px; fill: currentColor; }
+  #graph rect { fill: #8882; stroke: #8888; }
+  #graph rect.root { stroke: var(--accent); stroke-width: 2; }
+  #graph line { stroke: #888; marker-end: url(#arrow); }
+`;
+
+const SCRIPT = `
+(function () {
+  'use strict';
+
+  function el(tag, attrs, children) {
+    var node = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (key) {
+      if (key === 'text') { node.textContent = attrs[key]; }
+      else if (key === 'onclick') { node.addEventListener('click', attrs[key]); }
+      else { node.setAttribute(key, attrs[key]); }
+    });
+    (children || []).forEach(function (child) { if (child) { node.appendChild(child); } });
+    return node;
+  }
+
+  function replace(id, children) {
+    var target = document.getElementById(id);
+    target.replaceChildren.apply(target, children);
+  }
+
+  function formatTime(iso) {
+    var date = new Date(iso);
+    return isNaN(date.getTime()) ? iso : date.toLocaleString();
+  }
+
+  function renderState(state) {
+    if (state === null) {
+      replace('status', [el('p', { class: 'muted', text: 'No protocol state found. Run crit to start.' })]);
+      replace('timeline', []);
+      replace('queries', [el('p', { class: 'muted', text: 'No queries pending.' })]);
+      return;
+    }
+
+    var status = state.status;
+    var detail = status.step || status.blockReason || status.error || '';
+    var phases = el('div', { class: 'phases' }, state.phases.map(function (p) {
+      return el('div', { class: 'phase ' + p.status, text: p.phase });
+    }));
+    replace('status', [
+      el('div', { class: 'kind-' + status.kind }, [
+        el('strong', { text: status.phase + ' (' + status.kind + ')' }),
+        detail ? el('span', { text: ' > ' + detail }) : null,
+        phases,
+        el('div', { class: 'muted', text: 'Last activity ' + formatTime(state.lastActivity) +
+          (state.artifacts.length ? ' | Artifacts: ' + state.artifacts.join(', ') : '') })
+      ])
+    ]);
+
+    replace('timeline', state.timeline.slice().reverse().map(function (entry) {
+      return el('li', { class: entry.kind }, [
+        el('div', { text: entry.label }),
+        el('div', { class: 'muted', text: entry.phase + ' | ' + formatTime(entry.at) })
+      ]);
+    }));
+
+    if (state.pendingQueries.length === 0) {
+      replace('queries', [el('p', { class: 'muted', text: 'No queries pending.' })]);
+    } else {
+      replace('queries', state.pendingQueries.map(renderQuery));
+    }
+  }
+
+  function renderQuery(query) {
+    var rationale = el('textarea', { rows: '2', placeholder: 'Rationale (optional)' });
+    var error = el('div', { class: 'error' });
+    var custom = el('input', { placeholder: 'Response' });
+
+    function submit(response) {
+      error.textContent = '';
+      fetch('/api/queries/' + encodeURIComponent(query.id) + '/resolve', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response: response, rationale: rationale.value })
+      }).then(function (res) {
+        return res.json().then(function (body) {
+          if (!res.ok) { error.textContent = body.error; }
+        });
+      }).catch(function (err) { error.textContent = String(err); });
+    }
+
+    var hasOptions = query.options && query.options.length > 0;
+    var actions = hasOptions
+      ? el('div', { class: 'options' }, query.options.map(function (option) {
+          return el('button', { text: option, onclick: function () { submit(option); } });
+        }))
+      : el('div', { class: 'options' }, [custom, el('button', { text: 'Submit', onclick: function () { submit(custom.value); } })]);
+
+    return el('div', { class: 'query' }, [
+      el('div', { class: 'muted', text: query.phase + ' | blocked ' + formatTime(query.blockedAt) + ' | ' + query.id }),
+      el('p', { text: query.query }),
+      actions,
+      rationale,
+      error
+    ]);
+  }
+
+  var selectedDecision = null;
+
+  function searchLedger() {
+    var q = document.getElementById('ledger-search').value;
+    fetch('/api/ledger?q=' + encodeURIComponent(q)).then(function (res) { return res.json(); }).then(function (body) {
+      document.getElementById('ledger-count').textContent = body.decisions.length + ' of ' + body.total + ' decisions';
+      replace('ledger-results', [el('table', {}, [el('tbody', {}, body.decisions.map(function (d) {
+        return el('tr', {
+          class: 'decision' + (d.id === selectedDecision ? ' selected' : ''),
+          onclick: function () { selectedDecision = d.id; showGraph(d.id); searchLedger(); }
+        }, [
+          el('td', { text: d.id }),
+          el('td', { class: 'status-' + d.status, text: d.constraint }),
+          el('td', { class: 'muted', text: d.phase + ' / ' + d.confidence })
+        ]);
+      }))])]);
+    });
+  }
+
+  function showGraph(id) {
+    fetch('/api/ledger/' + encodeURIComponent(id) + '/graph').then(function (res) { return res.json(); }).then(function (graph) {
+      if (graph.error) { replace('graph', [el('p', { class: 'error', text: graph.error })]); return; }
+      replace('graph', [renderGraph(graph)]);
+    });
+  }
+
+  function renderGraph(graph) {
+    var depth = {};
+    depth[graph.root] = 0;
+    var changed = true;
+    while (changed) {
+      changed = false;
+      graph.edges.forEach(function (edge) {
+        if (depth[edge.from] !== undefined && depth[edge.from] <= 0 && depth[edge.to] === undefined) {
+          depth[edge.to] = depth[edge.from] - 1; changed = true;
+        }
+        if (depth[edge.to] !== undefined && depth[edge.to] >= 0 && depth[edge.from] === undefined) {
+          depth[edge.from] = depth[edge.to] + 1; changed = true;
+        }
+      });
+    }
+
+    var columns = {};
+    graph.nodes.forEach(function (node) {
+      var d = depth[node.id] === undefined ? 0 : depth[node.id];
+      (columns[d] = columns[d] || []).push(node);
+    });
+    var levels = Object.keys(columns).map(Number).sort(function (a, b) { return a - b; });
+    var boxW = 150, boxH = 28, gapX = 40, gapY = 14;
+    var position = {};
+    var rows = 0;
+    levels.forEach(function (level, col) {
+      columns[level].forEach(function (node, row) {
+        position[node.id] = { x: 10 + col * (boxW + gapX), y: 10 + row * (boxH + gapY), node: node };
+      });
+      rows = Math.max(rows, columns[level].length);
+    });
+
+    var ns = 'http://www.w3.org/2000/svg';
+    function svgEl(tag, attrs, text) {
+      var node = document.createElementNS(ns, tag);
+      Object.keys(attrs).forEach(function (key) { node.setAttribute(key, attrs[key]); });
+      if (text !== undefined) { node.textContent = text; }
+      return node;
+    }
+
+    var width = 20 + levels.length * (boxW + gapX);
+    var height = 20 + rows * (boxH + gapY);
+    var svg = svgEl('svg', { viewBox: '0 0 ' + width + ' ' + height, height: String(height) });
+    var defs = svgEl('defs', {});
+    var marker = svgEl('marker', { id: 'arrow', viewBox: '0 0 10 10', refX: '10', refY: '5', markerWidth: '6', markerHeight: '6', orient: 'auto-start-reverse' });
+    marker.appendChild(svgEl('path', { d: 'M 0 0 L 10 5 L 0 10 z', fill: '#888' }));
+    defs.appendChild(marker);
+    svg.appendChild(defs);
+
+    graph.edges.forEach(function (edge) {
+      var from = position[edge.from], to = position[edge.to];
+      if (!from || !to) { return; }
+      svg.appendChild(svgEl('line', { x1: String(from.x), y1: String(from.y + boxH / 2), x2: String(to.x + boxW), y2: String(to.y + boxH / 2) }));
+    });
+    Object.keys(position).forEach(function (id) {
+      var p = position[id];
+      var group = svgEl('g', {});
+      group.appendChild(svgEl('title', {}, p.node.constraint));
+      group.appendChild(svgEl('rect', { x: String(p.x), y: String(p.y), width: String(boxW), height: String(boxH), rx: '4', class: id === graph.root ? 'root' : '' }));
+      group.appendChild(svgEl('text', { x: String(p.x + 8), y: String(p.y + 18) }, id));
+      group.addEventListener('click', function () { selectedDecision = id; showGraph(id); searchLedger(); });
+      svg.appendChild(group);
+    });
+
+    return el('div', {}, [
+      el('p', { class: 'muted', text: 'Arrows point from a decision to what it depends on. Hover for the constraint; click to re-centre.' }),
+      svg
+    ]);
+  }
+
+  function connect() {
+    var connection = document.getElementById('connection');
+    var source = new EventSource('/api/events');
+    source.addEventListener('state', function (event) {
+      connection.textContent = 'Live';
+      renderState(JSON.parse(event.data));
+    });
+    source.onerror = function () { connection.textContent = 'Reconnecting...'; };
+  }
+
+  var timer = null;
+  document.getElementById('ledger-search').addEventListener('input', function () {
+    clearTimeout(timer);
+    timer = setTimeout(searchLedger, 200);
+  });
+
+  connect();
+  searchLedger();
+})();
+`;
+
+/**
+ * Renders the dashboard page.
+ *
+ * @returns The complete HTML document.
+ */
+export function renderDashboardPage(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Criticality Dashboard</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>Criticality Dashboard</h1>
+  <span id="connection">Connecting...</span>
+</header>
+<main>
+  <div>
+    <section>
+      <h2>Protocol</h2>
+      <div id="status" class="muted">Loading...</div>
+    </section>
+    <section>
+      <h2>Pending Queries</h2>
+      <div id="queries"></div>
+    </section>
+    <section>
+      <h2>Timeline</h2>
+      <ol id="timeline" class="timeline"></ol>
+    </section>
+  </div>
+  <div>
+    <section>
+      <h2>Decision Ledger</h2>
+      <input id="ledger-search" type="search" placeholder="Search decisions (ID, phase, category, text)">
+      <div id="ledger-count" class="muted"></div>
+      <div id="ledger-results"></div>
+    </section>
+    <section>
+      <h2>Dependency Graph</h2>
+      <div id="graph" class="muted">Select a decision to see what it depends on and what depends on it.</div>
+    </section>
+  </div>
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,285 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, rmSync } from 'node:fs';
+import { request } from 'node:http';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { DashboardServer } from './server.js';
+import type { DashboardState } from './model.js';
+import {
+  createActiveState,
+  createBlockedState,
+  createLatticeGeneratingStructure,
+  createLatticePhaseState,
+} from '../../protocol/types.js';
+import type { BlockingRecord } from '../../protocol/blocking.js';
+import { Ledger } from '../../ledger/ledger.js';
+import { loadLedger, saveLedger } from '../../ledger/persistence.js';
+import { loadCliState, saveCliState, type CliStateSnapshot } from '../state.js';
+
+const QUERY: BlockingRecord = {
+  id: 'blocking_lattice_1',
+  phase: 'Lattice',
+  query: 'Use Money or number for balances?',
+  options: ['Money', 'number'],
+  blockedAt: '2024-02-07T10:00:00.000Z',
+  resolved: false,
+};
+
+function blockedSnapshot(): CliStateSnapshot {
+  return {
+    state: createBlockedState({
+      reason: 'user_requested',
+      phase: 'Lattice',
+      query: QUERY.query,
+      options: QUERY.options ?? [],
+    }),
+    artifacts: [],
+    blockingQueries: [QUERY],
+    createdAt: '2024-02-07T07:00:00.000Z',
+    lastActivity: '2024-02-07T10:00:00.000Z',
+    resolvedQueries: [],
+  };
+}
+
+/**
+ * Sends a raw HTTP request, which unlike fetch can set the Host header.
+ */
+function rawRequest(
+  url: string,
+  options: { method: string; path: string; headers: Record<string, string>; body?: string }
+): Promise<number> {
+  const { hostname, port } = new URL(url);
+  return new Promise((resolve, reject) => {
+    const req = request(
+      { hostname, port, method: options.method, path: options.path, headers: options.headers },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      }
+    );
+    req.on('error', reject);
+    req.end(options.body);
+  });
+}
+
+/**
+ * Reads Server-Sent Events from a dashboard event stream.
+ */
+async function openEvents(url: string): Promise<{
+  next(): Promise<DashboardState | null>;
+  close(): Promise<void>;
+}> {
+  const response = await fetch(`${url}/api/events`);
+  const body = response.body;
+  if (body === null) {
+    throw new Error('Event stream has no body');
+  }
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  return {
+    async next() {
+      for (;;) {
+        const end = buffer.indexOf('\n\n');
+        if (end !== -1) {
+          const message = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          const data = /^data: (.*)$/m.exec(message)?.[1];
+          if (message.startsWith('event: state') && data !== undefined) {
+            return JSON.parse(data) as DashboardState | null;
+          }
+          continue;
+        }
+        const { value, done } = (await reader.read()) as { value?: Uint8Array; done: boolean };
+        if (done) {
+          throw new Error('Event stream closed');
+        }
+        buffer += decoder.decode(value, { stream: true });
+      }
+    },
+    close: () => reader.cancel(),
+  };
+}
+
+describe('DashboardServer', () => {
+  let tempDir: string;
+  let statePath: string;
+  let ledgerPath: string;
+  let server: DashboardServer;
+  let url: string;
+
+  beforeEach(async () => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), 'dashboard-test-'));
+    statePath = path.join(tempDir, '.criticality-state.json');
+    ledgerPath = path.join(tempDir, '.criticality', 'ledger');
+    await saveCliState(blockedSnapshot(), statePath);
+    server = new DashboardServer({ statePath, ledgerPath, port: 0, pollIntervalMs: 20 });
+    url = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should serve the dashboard page', async () => {
+    const response = await fetch(url);
+
+    expect(response.headers.get('content-type')).toContain('text/html');
+    expect(await response.text()).toContain('<title>Criticality Dashboard</title>');
+  });
+
+  it('should serve the current state', async () => {
+    const body = (await (await fetch(`${url}/api/state`)).json()) as {
+      state: DashboardState;
+    };
+
+    expect(body.state.status).toEqual({
+      kind: 'Blocked',
+      phase: 'Lattice',
+      blockReason: 'User Requested',
+    });
+    expect(body.state.pendingQueries).toEqual([QUERY]);
+  });
+
+  it('should serve null when there is no state file', async () => {
+    rmSync(statePath);
+
+    const body = (await (await fetch(`${url}/api/state`)).json()) as { state: unknown };
+
+    expect(body.state).toBeNull();
+  });
+
+  it('should resolve a query and record the decision in the ledger', async () => {
+    const response = await fetch(`${url}/api/queries/${QUERY.id}/resolve`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ response: 'Money', rationale: 'Avoid float rounding' }),
+    });
+
+    expect(response.status).toBe(200);
+    const saved = await loadCliState(statePath);
+    expect(saved.state.kind).toBe('Active');
+    expect(saved.blockingQueries).toEqual([]);
+    expect(saved.resolvedQueries[0]?.record.resolution).toMatchObject({
+      response: 'Money',
+      rationale: 'Avoid float rounding',
+    });
+    const decisions = (await loadLedger(ledgerPath)).getDecisions();
+    expect(decisions).toHaveLength(1);
+    expect(decisions[0]).toMatchObject({ source: 'human_resolution', human_query_id: QUERY.id });
+  });
+
+  it('should reject invalid resolutions', async () => {
+    const post = (id: string, body: string, contentType = 'application/json'): Promise<Response> =>
+      fetch(`${url}/api/queries/${id}/resolve`, {
+        method: 'POST',
+        headers: { 'Content-Type': contentType },
+        body,
+      });
+
+    const invalidOption = await post(QUERY.id, JSON.stringify({ response: 'float' }));
+    expect(invalidOption.status).toBe(400);
+    expect(((await invalidOption.json()) as { error: string }).error).toContain(
+      "Response 'float' is not in available options"
+    );
+
+    expect((await post('blocking_unknown', JSON.stringify({ response: 'Money' }))).status).toBe(
+      404
+    );
+    expect((await post(QUERY.id, 'response=Money', 'text/plain')).status).toBe(415);
+    expect((await post(QUERY.id, JSON.stringify({}))).status).toBe(400);
+    expect(existsSync(ledgerPath)).toBe(false);
+    expect((await loadCliState(statePath)).blockingQueries).toEqual([QUERY]);
+  });
+
+  it('should reject requests for other hosts and cross-origin posts', async () => {
+    const port = new URL(url).port;
+    const resolvePath = `/api/queries/${QUERY.id}/resolve`;
+    const body = JSON.stringify({ response: 'Money' });
+    const post = (headers: Record<string, string>): Promise<number> =>
+      rawRequest(url, {
+        method: 'POST',
+        path: resolvePath,
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body,
+      });
+
+    expect(
+      await rawRequest(url, {
+        method: 'GET',
+        path: '/api/state',
+        headers: { Host: `attacker.example:${port}` },
+      })
+    ).toBe(403);
+    expect(await post({ Host: `attacker.example:${port}` })).toBe(403);
+    expect(await post({ Host: `127.0.0.1:${port}`, Origin: 'http://attacker.example' })).toBe(403);
+    expect(await post({ Host: `localhost:${port}`, Origin: `http://127.0.0.1:${port}` })).toBe(403);
+    expect(existsSync(ledgerPath)).toBe(false);
+
+    expect(await post({ Host: `localhost:${port}`, Origin: `http://localhost:${port}` })).toBe(200);
+  });
+
+  it('should search the ledger and serve dependency graphs', async () => {
+    const ledger = new Ledger({ project: 'bank' });
+    const base = ledger.append({
+      category: 'architectural',
+      constraint: 'Balances use the Money type',
+      source: 'design_review',
+      confidence: 'canonical',
+      phase: 'design',
+    });
+    const dependent = ledger.append({
+      category: 'contracts',
+      constraint: 'Transfers never overdraw an account',
+      source: 'design_review',
+      confidence: 'canonical',
+      phase: 'lattice',
+      dependencies: [base.id],
+    });
+    mkdirSync(path.dirname(ledgerPath), { recursive: true });
+    await saveLedger(ledger, ledgerPath);
+
+    const search = (await (await fetch(`${url}/api/ledger?q=overdraw`)).json()) as {
+      decisions: { id: string }[];
+      total: number;
+    };
+    expect(search.decisions.map((d) => d.id)).toEqual([dependent.id]);
+    expect(search.total).toBe(2);
+
+    const graph = (await (await fetch(`${url}/api/ledger/${base.id}/graph`)).json()) as {
+      edges: unknown[];
+    };
+    expect(graph.edges).toEqual([{ from: dependent.id, to: base.id }]);
+
+    expect((await fetch(`${url}/api/ledger/missing_001/graph`)).status).toBe(404);
+  });
+
+  it('should push state updates over SSE when the state file changes', async () => {
+    const events = await openEvents(url);
+    try {
+      const initial = await events.next();
+      expect(initial?.status.kind).toBe('Blocked');
+
+      await saveCliState(
+        {
+          ...blockedSnapshot(),
+          state: createActiveState(createLatticePhaseState(createLatticeGeneratingStructure())),
+          blockingQueries: [],
+          lastActivity: '2024-02-07T11:00:00.000Z',
+        },
+        statePath
+      );
+
+      const updated = await events.next();
+      expect(updated?.status).toMatchObject({ kind: 'Active', step: 'Generating Structure' });
+      expect(updated?.timeline.at(-1)).toMatchObject({
+        kind: 'transition',
+        label: 'Lattice > Generating Structure',
+      });
+    } finally {
+      await events.close();
+    }
+  });
+});
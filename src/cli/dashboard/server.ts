@@ -0,0 +1,446 @@
+/**
+ * HTTP server for the web dashboard.
+ *
+ * Serves a single-page UI and a small JSON API over the CLI state file and
+ * decision ledger, and pushes state updates to the page over Server-Sent
+ * Events whenever the state file changes.
+ *
+ * @packageDocumentation
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { unwatchFile, watchFile, type Stats } from 'node:fs';
+import * as path from 'node:path';
+import { resolveBlocking } from '../../protocol/blocking.js';
+import { DecisionNotFoundError, Ledger } from '../../ledger/ledger.js';
+import { loadLedger, saveLedger } from '../../ledger/persistence.js';
+import { safeExists, safeMkdir } from '../../utils/safe-fs.js';
+import {
+  loadCliState,
+  saveCliState,
+  updateStateAfterResolution,
+  type CliStateSnapshot,
+} from '../state.js';
+import {
+  buildDashboardState,
+  buildDashboardStatus,
+  buildDependencyGraph,
+  describeStatus,
+  searchDecisions,
+  type DashboardState,
+  type DashboardTimelineEntry,
+} from './model.js';
+import { renderDashboardPage } from './page.js';
+
+/**
+ * Default port for the dashboard.
+ */
+export const DEFAULT_DASHBOARD_PORT = 4317;
+
+/**
+ * Largest request body accepted, in bytes.
+ */
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * Options for the dashboard server.
+ */
+export interface DashboardServerOptions {
+  /** Path to the CLI state file. */
+  readonly statePath: string;
+  /** Path to the decision ledger file. */
+  readonly ledgerPath: string;
+  /** Interface to listen on (default: 127.0.0.1). */
+  readonly host?: string;
+  /** Port to listen on; 0 picks a free port (default: 4317). */
+  readonly port?: number;
+  /** How often the state file is checked for changes (default: 500ms). */
+  readonly pollIntervalMs?: number;
+  /** Interval between SSE keep-alive comments (default: 15000ms). */
+  readonly heartbeatMs?: number;
+  /**
+   * Called with the current snapshot before a query resolution is saved,
+   * e.g. to raise the spending limit when resolving a budget block.
+   */
+  readonly beforeResolve?: (snapshot: CliStateSnapshot) => Promise<void>;
+}
+
+/**
+ * An API error with the HTTP status to answer with.
+ */
+class RequestError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+/**
+ * Writes a JSON response.
+ */
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.writeHead(statusCode, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Cache-Control': 'no-store',
+  });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Reads and parses a JSON request body.
+ *
+ * Only `application/json` bodies are accepted, so cross-origin pages cannot
+ * submit resolutions with a plain form post.
+ */
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  if (!(req.headers['content-type'] ?? '').startsWith('application/json')) {
+    throw new RequestError(415, 'Expected an application/json body');
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new RequestError(400, 'Request body is not valid JSON');
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new RequestError(400, 'Request body must be a JSON object');
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Local web dashboard over the protocol state and decision ledger.
+ *
+ * Routes:
+ * - `GET /`: the dashboard page
+ * - `GET /api/state`: current {@link DashboardState}, or null without a state file
+ * - `GET /api/events`: SSE stream of `state` events
+ * - `GET /api/ledger?q=`: decisions matching a search
+ * - `GET /api/ledger/:id/graph`: dependency graph around a decision
+ * - `POST /api/queries/:id/resolve`: resolve a pending blocking query
+ *
+ * @example
+ * ```typescript
+ * const server = new DashboardServer({ statePath, ledgerPath });
+ * const url = await server.start();
+ * console.log(`Dashboard running at ${url}`);
+ * ```
+ */
+export class DashboardServer {
+  private readonly options: DashboardServerOptions;
+  private readonly server: Server;
+  private readonly clients = new Set<ServerResponse>();
+  private readonly observed: DashboardTimelineEntry[] = [];
+  private lastStatusLabel: string | undefined;
+  private allowedHosts = new Set<string>();
+  private heartbeat: ReturnType<typeof setInterval> | undefined;
+  private readonly onStateFileChange = (current: Stats, previous: Stats): void => {
+    if (current.mtimeMs !== previous.mtimeMs || current.size !== previous.size) {
+      void this.broadcastState();
+    }
+  };
+
+  /**
+   * Creates a new DashboardServer.
+   *
+   * @param options - Server options.
+   */
+  constructor(options: DashboardServerOptions) {
+    this.options = options;
+    this.server = createServer((req, res) => {
+      void this.handle(req, res);
+    });
+  }
+
+  /**
+   * Starts listening and watching the state file.
+   *
+   * @returns The dashboard URL.
+   */
+  async start(): Promise<string> {
+    const snapshot = await this.loadSnapshot();
+    if (snapshot !== undefined) {
+      this.lastStatusLabel = describeStatus(buildDashboardStatus(snapshot.state));
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(
+        this.options.port ?? DEFAULT_DASHBOARD_PORT,
+        this.options.host ?? '127.0.0.1',
+        () => {
+          this.server.off('error', reject);
+          resolve();
+        }
+      );
+    });
+
+    watchFile(
+      this.options.statePath,
+      { interval: this.options.pollIntervalMs ?? 500 },
+      this.onStateFileChange
+    );
+    this.heartbeat = setInterval(() => {
+      for (const client of this.clients) {
+        client.write(': keep-alive\n\n');
+      }
+    }, this.options.heartbeatMs ?? 15000);
+    this.heartbeat.unref();
+
+    const { address, port } = this.server.address() as AddressInfo;
+    const host = address.includes(':') ? `[${address}]` : address;
+    this.allowedHosts = new Set([`${host}:${String(port)}`, `localhost:${String(port)}`]);
+    return `http://${host}:${String(port)}`;
+  }
+
+  /**
+   * Stops watching, disconnects event streams, and closes the server.
+   */
+  async close(): Promise<void> {
+    unwatchFile(this.options.statePath, this.onStateFileChange);
+    if (this.heartbeat !== undefined) {
+      clearInterval(this.heartbeat);
+    }
+    for (const client of this.clients) {
+      client.end();
+    }
+    this.clients.clear();
+
+    await new Promise<void>((resolve) => {
+      this.server.close(() => {
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Builds the current dashboard state.
+   *
+   * @returns The dashboard state, or null if there is no state file.
+   */
+  async getState(): Promise<DashboardState | null> {
+    const snapshot = await this.loadSnapshot();
+    return snapshot === undefined ? null : buildDashboardState(snapshot, this.observed);
+  }
+
+  private async loadSnapshot(): Promise<CliStateSnapshot | undefined> {
+    if (!(await safeExists(this.options.statePath))) {
+      return undefined;
+    }
+    return loadCliState(this.options.statePath);
+  }
+
+  private async loadLedger(): Promise<Ledger> {
+    if (!(await safeExists(this.options.ledgerPath))) {
+      return new Ledger({
+        project: path.basename(path.resolve(path.dirname(this.options.statePath))),
+      });
+    }
+    return loadLedger(this.options.ledgerPath);
+  }
+
+  /**
+   * Pushes the current state to every connected event stream, recording a
+   * timeline transition when the protocol position has changed.
+   */
+  private async broadcastState(): Promise<void> {
+    let snapshot: CliStateSnapshot | undefined;
+    try {
+      snapshot = await this.loadSnapshot();
+    } catch {
+      // The file may be mid-write; the next change will be picked up
+      return;
+    }
+
+    if (snapshot !== undefined) {
+      const status = buildDashboardStatus(snapshot.state);
+      const label = describeStatus(status);
+      if (label !== this.lastStatusLabel) {
+        this.lastStatusLabel = label;
+        this.observed.push({
+          at: new Date().toISOString(),
+          kind: 'transition',
+          phase: status.phase,
+          label,
+        });
+      }
+    }
+
+    const state = snapshot === undefined ? null : buildDashboardState(snapshot, this.observed);
+    const message = `event: state\ndata: ${JSON.stringify(state)}\n\n`;
+    for (const client of this.clients) {
+      client.write(message);
+    }
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://dashboard.local');
+    const method = req.method ?? 'GET';
+
+    try {
+      this.checkRequestOrigin(req, method);
+
+      if (method === 'GET' && url.pathname === '/') {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(renderDashboardPage());
+        return;
+      }
+
+      if (method === 'GET' && url.pathname === '/api/state') {
+        sendJson(res, 200, { state: await this.getState() });
+        return;
+      }
+
+      if (method === 'GET' && url.pathname === '/api/events') {
+        await this.openEventStream(res);
+        return;
+      }
+
+      if (method === 'GET' && url.pathname === '/api/ledger') {
+        const ledger = await this.loadLedger();
+        const decisions = searchDecisions(ledger.getDecisions(), url.searchParams.get('q') ?? '');
+        sendJson(res, 200, { decisions, total: ledger.size });
+        return;
+      }
+
+      const graphMatch = /^\/api\/ledger\/([^/]+)\/graph$/.exec(url.pathname);
+      if (method === 'GET' && graphMatch?.[1] !== undefined) {
+        const ledger = await this.loadLedger();
+        try {
+          sendJson(res, 200, buildDependencyGraph(ledger, decodeURIComponent(graphMatch[1])));
+        } catch (error) {
+          if (error instanceof DecisionNotFoundError) {
+            throw new RequestError(404, error.message);
+          }
+          throw error;
+        }
+        return;
+      }
+
+      const resolveMatch = /^\/api\/queries\/([^/]+)\/resolve$/.exec(url.pathname);
+      if (method === 'POST' && resolveMatch?.[1] !== undefined) {
+        const body = await readJsonBody(req);
+        const record = await this.resolveQuery(decodeURIComponent(resolveMatch[1]), body);
+        sendJson(res, 200, { record });
+        return;
+      }
+
+      throw new RequestError(404, `Not found: ${method} ${url.pathname}`);
+    } catch (error) {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      if (error instanceof RequestError) {
+        sendJson(res, error.statusCode, { error: error.message });
+        return;
+      }
+      sendJson(res, 500, { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /**
+   * Rejects requests addressed to another host name, so a page that rebinds
+   * its own domain to 127.0.0.1 cannot read or drive the dashboard, and
+   * cross-origin POSTs.
+   */
+  private checkRequestOrigin(req: IncomingMessage, method: string): void {
+    const host = req.headers.host;
+    if (host === undefined || !this.allowedHosts.has(host.toLowerCase())) {
+      throw new RequestError(403, 'Unexpected Host header');
+    }
+
+    const origin = req.headers.origin;
+    if (
+      method !== 'GET' &&
+      origin !== undefined &&
+      origin.toLowerCase() !== `http://${host.toLowerCase()}`
+    ) {
+      throw new RequestError(403, 'Cross-origin requests are not allowed');
+    }
+  }
+
+  private async openEventStream(res: ServerResponse): Promise<void> {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    this.clients.add(res);
+    res.on('close', () => {
+      this.clients.delete(res);
+    });
+
+    res.write(`event: state\ndata: ${JSON.stringify(await this.getState())}\n\n`);
+  }
+
+  /**
+   * Resolves a pending blocking query and records the decision.
+   *
+   * Mirrors `crit resolve`: the response must be one of the query's options
+   * when it has any. The resolution decision is appended to the ledger so it
+   * shows up in the ledger browser.
+   */
+  private async resolveQuery(
+    queryId: string,
+    body: Record<string, unknown>
+  ): Promise<CliStateSnapshot['blockingQueries'][number]> {
+    const { response, rationale } = body;
+    if (typeof response !== 'string' || response.trim() === '') {
+      throw new RequestError(400, "Field 'response' must be a non-empty string");
+    }
+    if (rationale !== undefined && typeof rationale !== 'string') {
+      throw new RequestError(400, "Field 'rationale' must be a string");
+    }
+
+    const snapshot = await this.loadSnapshot();
+    const query = snapshot?.blockingQueries.find((q) => q.id === queryId && !q.resolved);
+    if (snapshot === undefined || query === undefined) {
+      throw new RequestError(404, `No pending query with ID '${queryId}'`);
+    }
+
+    const ledger = await this.loadLedger();
+    const result = resolveBlocking(
+      snapshot.state,
+      query,
+      {
+        response,
+        allowCustomResponse: false,
+        ...(rationale !== undefined && rationale.trim() !== '' ? { rationale } : {}),
+      },
+      ledger
+    );
+    if (!result.success) {
+      throw new RequestError(
+        result.error.code === 'INVALID_RESPONSE' ? 400 : 409,
+        result.error.message
+      );
+    }
+
+    await this.options.beforeResolve?.(snapshot);
+    await safeMkdir(path.dirname(this.options.ledgerPath), { recursive: true });
+    await saveLedger(ledger, this.options.ledgerPath);
+    await saveCliState(
+      updateStateAfterResolution(snapshot, query.id, result.record, result.state),
+      this.options.statePath
+    );
+    await this.broadcastState();
+
+    return result.record;
+  }
+}
@@ -12,6 +12,14 @@ import { handleStatusCommand } from './commands/status.js';
 import { handleResumeCommand } from './commands/resume.js';
 import { handleResolveCommand } from './commands/resolve.js';
 import { handleVersionCommand } from './commands/version.js';
+import { handleCacheCommand } from './commands/cache.js';
+import { handleNotificationsCommand } from './commands/notifications.js';
+import { handleDashboardCommand } from './commands/dashboard.js';
+import { handleIgniteCommand } from './commands/ignite.js';
+import { handleCatalogCommand } from './commands/catalog.js';
+import { handleHistoryCommand } from './commands/history.js';
+import { handleRewindCommand } from './commands/rewind.js';
+import { handleLedgerCommand } from './commands/ledger.js';
 import { withErrorHandling } from './utils/errorHandling.js';
 
 /**
@@ -26,9 +34,17 @@ USAGE:
   crit <command> [options]
 
 COMMANDS:
+  ignite      Run the Ignition interview from a requirements document
   status      Show the current protocol state
   resume      Resume protocol execution from blocked state
   resolve     Resolve pending blocking queries
+  history     List recorded protocol state history
+  rewind      Restore state, ledger and sources to a history entry
+  ledger      Query, graph and edit decisions in the decision ledger
+  cache       Inspect or clear the model response cache
+  notifications  List or retry undelivered webhook notifications
+  dashboard   Serve the web dashboard
+  catalog     Lint the Mass Defect transformation catalog
   help        Show this help message
   version     Show version information
 
@@ -37,10 +53,18 @@ OPTIONS:
   --version, -v  Show version information
 
 EXAMPLES:
+  crit ignite --from prd.md  Draft a spec proposal from a PRD
   crit status            Show protocol status
   crit status --watch    Auto-refresh status
   crit resolve           Resolve pending queries
   crit resume            Resume from blocked state
+  crit history           List recorded states
+  crit rewind 12         Go back to history entry #12
+  crit ledger list --status active  List active decisions
+  crit cache stats       Show model response cache usage
+  crit notifications retry  Replay undelivered webhooks
+  crit dashboard         Open the web dashboard at http://127.0.0.1:4317
+  crit catalog lint      Validate catalogs and run pattern self-tests
 
 For more information, visit: https://github.com/anomalyco/criticality
 `;
@@ -101,6 +125,14 @@ function main(): void {
       handleVersionCommandWithContext();
       break;
 
+    case 'ignite':
+      if (commandArgs.includes('--help') || commandArgs.includes('-h')) {
+        showHelpForCommand('ignite');
+        process.exit(0);
+      }
+      handleIgniteCommandWithContext(commandArgs);
+      break;
+
     case 'status':
       if (commandArgs.includes('--help') || commandArgs.includes('-h')) {
         showHelpForCommand('status');
@@ -125,6 +157,62 @@ function main(): void {
       handleResolveCommandWithContext(commandArgs);
       break;
 
+    case 'history':
+      if (commandArgs.includes('--help') || commandArgs.includes('-h')) {
+        showHelpForCommand('history');
+        process.exit(0);
+      }
+      handleHistoryCommandWithContext(commandArgs);
+      break;
+
+    case 'rewind':
+      if (commandArgs.includes('--help') || commandArgs.includes('-h')) {
+        showHelpForCommand('rewind');
+        process.exit(0);
+      }
+      handleRewindCommandWithContext(commandArgs);
+      break;
+
+    case 'ledger':
+      if (commandArgs.includes('--help') || commandArgs.includes('-h')) {
+        showHelpForCommand('ledger');
+        process.exit(0);
+      }
+      handleLedgerCommandWithContext(commandArgs);
+      break;
+
+    case 'cache':
+      if (commandArgs.includes('--help') || commandArgs.includes('-h')) {
+        showHelpForCommand('cache');
+        process.exit(0);
+      }
+      handleCacheCommandWithContext(commandArgs);
+      break;
+
+    case 'notifications':
+      if (commandArgs.includes('--help') || commandArgs.includes('-h')) {
+        showHelpForCommand('notifications');
+        process.exit(0);
+      }
+      handleNotificationsCommandWithContext(commandArgs);
+      break;
+
+    case 'dashboard':
+      if (commandArgs.includes('--help') || commandArgs.includes('-h')) {
+        showHelpForCommand('dashboard');
+        process.exit(0);
+      }
+      handleDashboardCommandWithContext(commandArgs);
+      break;
+
+    case 'catalog':
+      if (commandArgs.includes('--help') || commandArgs.includes('-h')) {
+        showHelpForCommand('catalog');
+        process.exit(0);
+      }
+      handleCatalogCommandWithContext(commandArgs);
+      break;
+
     default:
       showError(`Unknown command: ${command}`);
       process.exit(1);
@@ -139,6 +227,28 @@ function main(): void {
 function showHelpForCommand(commandName: string): void {
   const commandHelp: Record<string, string> = {
     /* eslint-disable security/detect-object-injection -- commandName is validated via switch statement */
+    ignite: `
+USAGE: crit ignite --from <file> [options]
+
+Runs the Ignition interview from a requirements document such as a
+PRD. The architect model answers each interview phase from the
+document, and every inferred answer is recorded in the decision
+ledger with 'inferred' confidence. You are only asked the questions
+the document does not answer and auditor findings that need your
+decision. The spec proposal is saved exactly as after a live
+interview.
+
+OPTIONS:
+  --from <file>        Requirements document to answer from (required)
+  --project <id>       Project ID (default: current directory name)
+  --domain <domain>    Spec domain; also selects <domain>.toml from
+                       the question bank directory
+  --questions <dir>    Directory of question banks to walk
+
+EXAMPLES:
+  crit ignite --from prd.md
+  crit ignite --from prd.md --domain fintech --questions question-banks
+`,
     status: `
 USAGE: crit status [options]
 
@@ -171,6 +281,162 @@ and allowing selection of options.
 
 EXAMPLES:
   crit resolve
+`,
+    history: `
+USAGE: crit history [options]
+
+Lists the protocol state history. Every state the protocol persists
+while running is recorded in .criticality/history.jsonl together with
+the number of ledger decisions at that moment and the git tree of the
+project's sources.
+
+OPTIONS:
+  --limit, -n <count>  Show only the most recent entries
+  --json               Print entries as JSON
+
+EXAMPLES:
+  crit history
+  crit history -n 10
+`,
+    rewind: `
+USAGE: crit rewind <id>
+
+Restores a history entry: the state file, the ledger view and the
+source tree. Decisions made after the entry are invalidated rather
+than deleted, and the rewind itself is recorded as a ledger decision.
+Sources are restored from git, so files the entry did not have are
+removed; ignored files are left alone. The current state is recorded
+first, so the rewind can be undone.
+
+EXAMPLES:
+  crit history
+  crit rewind 12
+`,
+    ledger: `
+USAGE: crit ledger <subcommand> [options]
+
+Queries and edits the decision ledger (.criticality/ledger). Entries
+are never deleted: superseding and invalidating change a decision's
+status and keep the original, and every change is recorded in a hash
+chain that verify checks.
+
+SUBCOMMANDS:
+  list                List decisions
+  show <id>           Show every field of a decision and its dependents
+  graph [id]          Print the dependency graph around a decision, or
+                      of all (filtered) decisions
+  supersede <id>      Replace a decision with a new one
+                        --constraint <text>  New constraint (required)
+                        --rationale <text>   Why it changed
+                        --category, --phase, --source, --confidence
+                                             Override the defaults (the old
+                                             category and phase; user_explicit,
+                                             canonical)
+  invalidate <id>     Invalidate a decision and, by default, everything
+                      that depends on it
+                        --dry-run            Preview the cascade only
+                        --no-cascade         Leave dependents active
+  reinstate <id>      Reinstate a suspended decision
+                        --reason <text>      Why it is valid again (required)
+                        --validator <name>   Who validated it (default: $USER)
+                        --confidence <level> New confidence (default: inferred)
+  verify              Check the ledger's hash chain and report the first
+                      broken link; exits 1 unless the chain is intact
+                        --migrate            Chain a ledger written before
+                                             chaining, in its current state
+
+OPTIONS:
+  --category, --phase, --status, --confidence <value>
+                      Filter list and graph output
+  --limit <count>     Show only the most recent matches (list)
+  --format <dot|mermaid>  Graph output format (default: dot)
+  --force             Allow superseding or invalidating canonical decisions
+  --json              Print results as JSON
+
+EXAMPLES:
+  crit ledger list --status active --phase lattice
+  crit ledger show architectural_001
+  crit ledger graph architectural_001 --format mermaid
+  crit ledger invalidate architectural_001 --dry-run
+  crit ledger supersede architectural_001 --constraint "Use SQLite" --force
+  crit ledger reinstate injection_004 --reason "Re-verified by tests"
+  crit ledger verify
+  crit ledger verify --migrate
+`,
+    cache: `
+USAGE: crit cache <stats|clear> [options]
+
+Manages the on-disk model response cache. Responses for cacheable
+task types (see [model_cache] in criticality.toml) are replayed
+instead of re-sent to the model.
+
+SUBCOMMANDS:
+  stats      Show cached entry counts, size, and stored tokens
+  clear      Remove all cached responses
+
+OPTIONS:
+  --json     Print stats as JSON
+
+EXAMPLES:
+  crit cache stats
+  crit cache stats --json
+  crit cache clear
+`,
+    notifications: `
+USAGE: crit notifications <list|retry>
+
+Manages webhook deliveries that failed after every retry. These are
+kept in a dead-letter queue (notification-dead-letters.json) next to
+the protocol state until they are replayed.
+
+SUBCOMMANDS:
+  list       Show undelivered notifications
+  retry      Replay them with their original delivery IDs, signed
+             with each channel's current secret
+
+EXAMPLES:
+  crit notifications list
+  crit notifications retry
+`,
+    dashboard: `
+USAGE: crit dashboard [options]
+
+Serves a local web dashboard showing the phase and substate timeline,
+pending blocking queries (which can be resolved from the page), and a
+searchable decision ledger with dependency graphs. The page updates
+live whenever the state file changes.
+
+OPTIONS:
+  --port, -p <port>  Port to listen on (default: 4317)
+  --host <host>      Interface to listen on (default: 127.0.0.1)
+
+The dashboard has no authentication; only expose it beyond localhost
+on a trusted network.
+
+EXAMPLES:
+  crit dashboard
+  crit dashboard --port 8080
+`,
+    catalog: `
+USAGE: crit catalog lint [options]
+
+Lints the Mass Defect transformation catalog. Catalogs are layered:
+the built-in catalog, then the org-wide catalog (~/.criticality/catalog
+or mass_defect.org_catalog_path), then the project catalog
+(mass_defect.catalog_path). Each layer's smell and pattern TOML files
+are validated, custom ESLint detection rules are checked against
+ESLint, and each pattern's before/after examples are run as
+self-tests: both must parse, the after code must not be more complex
+or more deeply nested, and self-contained examples must behave the
+same on generated inputs. Exits with status 1 if there are errors.
+
+OPTIONS:
+  --catalog <dir>    Project catalog to lint instead of the configured one
+  --json             Print diagnostics as JSON
+
+EXAMPLES:
+  crit catalog lint
+  crit catalog lint --catalog ./mass-defect-catalog
 `,
   };
 
@@ -183,6 +449,17 @@ EXAMPLES:
   }
 }
 
+/**
+ * Handles ignite command with CLI context.
+ */
+function handleIgniteCommandWithContext(igniteArgs: string[]): void {
+  withErrorHandling(async () => {
+    const context = createCliApp();
+    context.args = igniteArgs;
+    return await handleIgniteCommand(context);
+  });
+}
+
 /**
  * Handles status command with CLI context.
  */
@@ -216,6 +493,83 @@ function handleResumeCommandWithContext(resumeArgs: string[]): void {
   });
 }
 
+/**
+ * Handles history command with CLI context.
+ */
+function handleHistoryCommandWithContext(historyArgs: string[]): void {
+  withErrorHandling(async () => {
+    const context = createCliApp();
+    context.args = historyArgs;
+    return await handleHistoryCommand(context);
+  });
+}
+
+/**
+ * Handles rewind command with CLI context.
+ */
+function handleRewindCommandWithContext(rewindArgs: string[]): void {
+  withErrorHandling(async () => {
+    const context = createCliApp();
+    context.args = rewindArgs;
+    return await handleRewindCommand(context);
+  });
+}
+
+/**
+ * Handles ledger command with CLI context.
+ */
+function handleLedgerCommandWithContext(ledgerArgs: string[]): void {
+  withErrorHandling(async () => {
+    const context = createCliApp();
+    context.args = ledgerArgs;
+    return await handleLedgerCommand(context);
+  });
+}
+
+/**
+ * Handles cache command with CLI context.
+ */
+function handleCacheCommandWithContext(cacheArgs: string[]): void {
+  withErrorHandling(async () => {
+    const context = createCliApp();
+    context.args = cacheArgs;
+    return await handleCacheCommand(context);
+  });
+}
+
+/**
+ * Handles notifications command with CLI context.
+ */
+function handleNotificationsCommandWithContext(notificationsArgs: string[]): void {
+  withErrorHandling(async () => {
+    const context = createCliApp();
+    context.args = notificationsArgs;
+    return await handleNotificationsCommand(context);
+  });
+}
+
+/**
+ * Handles dashboard command with CLI context.
+ */
+function handleDashboardCommandWithContext(dashboardArgs: string[]): void {
+  withErrorHandling(async () => {
+    const context = createCliApp();
+    context.args = dashboardArgs;
+    return await handleDashboardCommand(context);
+  });
+}
+
+/**
+ * Handles catalog command with CLI context.
+ */
+function handleCatalogCommandWithContext(catalogArgs: string[]): void {
+  withErrorHandling(async () => {
+    const context = createCliApp();
+    context.args = catalogArgs;
+    return await handleCatalogCommand(context);
+  });
+}
+
 try {
   main();
 } catch (error) {
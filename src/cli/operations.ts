@@ -9,9 +9,24 @@
 
 import type { ProtocolPhase } from '../protocol/types.js';
 import type { ExternalOperations, ActionResult } from '../protocol/orchestrator.js';
-import type { Config } from '../config/types.js';
-import { createClaudeCodeClient, type ClaudeCodeClient } from '../router/claude-code-client.js';
-import type { ModelAlias } from '../router/types.js';
+import type { Config, RouterBackend } from '../config/types.js';
+import { createAnthropicClient } from '../router/anthropic-client.js';
+import { createClaudeCodeClient } from '../router/claude-code-client.js';
+import {
+  OpenAICompatibleClient,
+  usesOnlyOpenAICompatibleModels,
+  withOpenAICompatibleModels,
+} from '../router/openai-compatible-client.js';
+import { createCachingModelRouter } from '../router/cache.js';
+import {
+  ModelFixtureStore,
+  RecordingModelRouter,
+  ReplayModelRouter,
+} from '../router/record-replay.js';
+import { CostLedger, CostTrackingModelRouter, getCostReportPath } from '../router/cost.js';
+import { FallbackModelRouter } from '../router/fallback.js';
+import { createModelLogger } from '../router/logging.js';
+import type { ModelAlias, ModelRouter } from '../router/types.js';
 import { NotificationService } from '../notifications/service.js';
 import { execa } from 'execa';
 import { copyFile, mkdir } from 'node:fs/promises';
@@ -109,7 +124,8 @@ export class CliOperations implements ExternalOperations {
   private readonly onTelemetryUpdate: (telemetry: OperationTelemetry) => void;
   private readonly telemetryCollector: TelemetryCollector;
   private readonly _notificationService: NotificationService;
-  private modelClient: ClaudeCodeClient | null = null;
+  private modelClient: CostTrackingModelRouter | null = null;
+  private readonly _costLedger: CostLedger;
   private telemetry: OperationTelemetry;
   private currentPhase: ProtocolPhase;
 
@@ -125,7 +141,14 @@ export class CliOperations implements ExternalOperations {
     this.collectTelemetry = options.collectTelemetry ?? true;
     this.onTelemetryUpdate = options.onTelemetryUpdate;
     this.telemetryCollector = options.telemetryCollector ?? new TelemetryCollector();
-    this._notificationService = new NotificationService(this.config.notifications);
+    this._notificationService = new NotificationService(this.config.notifications, {
+      stateDir: path.dirname(this.statePath),
+    });
+    this._costLedger = new CostLedger({
+      cost: this.config.cost,
+      models: this.config.models,
+      filePath: getCostReportPath(this.statePath),
+    });
     this.telemetry = {
       modelCalls: 0,
       promptTokens: 0,
@@ -145,19 +168,37 @@ export class CliOperations implements ExternalOperations {
   }
 
   /**
-   * Initializes the model client.
+   * Initializes the model client, wrapped with the response cache when enabled,
+   * with fixture recording when configured, and with cost tracking. In fixture
+   * replay mode the client serves recorded results and no backend is created.
    *
    * @throws Error if Claude Code CLI is not installed.
    */
-  public async ensureModelClient(): Promise<ClaudeCodeClient> {
+  public async ensureModelClient(): Promise<CostTrackingModelRouter> {
     if (this.modelClient !== null) {
       return this.modelClient;
     }
 
+    const { fixtures, fixtures_dir } = this.config.router;
+    const store = new ModelFixtureStore({ directory: path.resolve(this.cwd, fixtures_dir) });
+    if (fixtures === 'replay') {
+      this.modelClient = new CostTrackingModelRouter({
+        router: await ReplayModelRouter.load({ store }),
+        ledger: this._costLedger,
+      });
+      return this.modelClient;
+    }
+
     try {
-      this.modelClient = await createClaudeCodeClient({
-        config: this.config,
-        cwd: this.cwd,
+      // Aliases assigned openai-compat: models bypass the configured backend
+      const client = usesOnlyOpenAICompatibleModels(this.config.models)
+        ? new OpenAICompatibleClient({ config: this.config })
+        : withOpenAICompatibleModels(await this.createBackendClient(), { config: this.config });
+      const cached = createCachingModelRouter(client, this.config.model_cache, this.cwd);
+      this.modelClient = new CostTrackingModelRouter({
+        router:
+          fixtures === 'record' ? new RecordingModelRouter({ router: cached, store }) : cached,
+        ledger: this._costLedger,
       });
       return this.modelClient;
     } catch (error) {
@@ -167,15 +208,56 @@ export class CliOperations implements ExternalOperations {
         'message' in error &&
         typeof error.message === 'string'
       ) {
-        throw new Error(
-          `Failed to initialize model client: ${error.message}\n\n` +
-            'Please install Claude Code: https://claude.ai/download'
-        );
+        const hint =
+          this.config.router.backend === 'anthropic'
+            ? `Please set ${this.config.router.api_key_env} to an Anthropic API key.`
+            : 'Please install Claude Code: https://claude.ai/download';
+        throw new Error(`Failed to initialize model client: ${error.message}\n\n${hint}`);
       }
       throw error;
     }
   }
 
+  /**
+   * Creates the client for the configured router backend, failing over to
+   * `router.fallback_backends` in order when any are configured.
+   */
+  private async createBackendClient(): Promise<ModelRouter> {
+    const { backend, fallback_backends } = this.config.router;
+    if (fallback_backends.length === 0) {
+      return this.createSingleBackendClient(backend);
+    }
+
+    const backends = [];
+    for (const name of [backend, ...fallback_backends]) {
+      backends.push({ name, router: await this.createSingleBackendClient(name) });
+    }
+    return new FallbackModelRouter({
+      backends,
+      logger: createModelLogger({
+        logFilePath: path.resolve(this.cwd, this.config.paths.logs, 'model-failover.log'),
+      }),
+    });
+  }
+
+  /**
+   * Creates the client for one router backend.
+   */
+  private async createSingleBackendClient(backend: RouterBackend): Promise<ModelRouter> {
+    const router = this.config.router;
+    if (backend === 'anthropic') {
+      return createAnthropicClient({
+        config: this.config,
+        baseUrl: router.base_url,
+        apiKeyEnv: router.api_key_env,
+      });
+    }
+    return createClaudeCodeClient({
+      config: this.config,
+      cwd: this.cwd,
+    });
+  }
+
   /**
    * Updates telemetry and triggers callback if configured.
    */
@@ -222,6 +304,7 @@ export class CliOperations implements ExternalOperations {
 
     try {
       const client = await this.ensureModelClient();
+      client.setPhase(phase);
       const modelAlias = getModelAliasForPhase(phase);
 
       const result = await client.prompt(modelAlias, `Execute ${phase} phase`);
@@ -263,12 +346,15 @@ export class CliOperations implements ExternalOperations {
       }
 
       const elapsed = Date.now() - startTime;
+      // Replayed responses were not billed, so they do not count toward token usage
+      const { usage } = result.response;
+      const billed = usage.cacheHit !== true;
 
       this.updateTelemetry(
         {
           modelCalls: 1,
-          promptTokens: result.response.usage.promptTokens,
-          completionTokens: result.response.usage.completionTokens,
+          promptTokens: billed ? usage.promptTokens : 0,
+          completionTokens: billed ? usage.completionTokens : 0,
           executionTimeMs: elapsed,
         },
         phase
@@ -495,6 +581,15 @@ export class CliOperations implements ExternalOperations {
   get notificationService(): NotificationService {
     return this._notificationService;
   }
+
+  /**
+   * Gets the cost ledger tracking model spend for this run.
+   *
+   * @returns The cost ledger.
+   */
+  get costLedger(): CostLedger {
+    return this._costLedger;
+  }
 }
 
 /**
@@ -506,6 +601,7 @@ export class CliOperations implements ExternalOperations {
 export async function createCliOperations(options: CliOperationsOptions): Promise<CliOperations> {
   const telemetryCollector = options.telemetryCollector ?? new TelemetryCollector();
   const operations = new CliOperations({ ...options, telemetryCollector });
+  await operations.costLedger.load();
   await operations.ensureModelClient();
   return operations;
 }
@@ -9,6 +9,7 @@
 
 import {
   loadState,
+  serializeState,
   StatePersistenceError,
   type ProtocolStateSnapshot,
 } from '../protocol/persistence.js';
@@ -19,7 +20,7 @@ import {
 } from '../protocol/types.js';
 import type { BlockingRecord } from '../protocol/blocking.js';
 import { renameSync } from 'node:fs';
-import { stat, writeFile, rename, unlink } from 'node:fs/promises';
+import { readFile, stat, writeFile, rename, unlink } from 'node:fs/promises';
 import path from 'node:path';
 import readline from 'node:readline';
 import { TelemetryCollector } from './telemetry.js';
@@ -117,7 +118,7 @@ export async function loadCliState(filePath: string): Promise<CliStateSnapshot>
   try {
     const snapshot = await loadState(filePath);
 
-    return upgradeToCliState(snapshot);
+    return upgradeToCliState(snapshot, await readCliMetadata(filePath));
   } catch (error) {
     if (error instanceof StatePersistenceError) {
       throw error;
@@ -231,14 +232,12 @@ export function updateStateAfterResolution(
 function serializeCliState(snapshot: CliStateSnapshot, options?: SaveCliStateOptions): string {
   const { createdAt, lastActivity, resolvedQueries, telemetry } = snapshot;
 
+  // Start from the protocol format so loadState can read the file back
   const data: Record<string, unknown> = {
-    state: snapshot.state,
-    artifacts: snapshot.artifacts,
-    blockingQueries: snapshot.blockingQueries,
+    ...(JSON.parse(serializeState(snapshot)) as Record<string, unknown>),
     createdAt,
     lastActivity,
     resolvedQueries,
-    version: '1.0.0-cli',
   };
 
   if (telemetry !== undefined) {
@@ -254,6 +253,26 @@ function serializeCliState(snapshot: CliStateSnapshot, options?: SaveCliStateOpt
   return JSON.stringify(data);
 }
 
+/**
+ * Reads the CLI-specific fields of a state file.
+ *
+ * `loadState` only returns the protocol fields, so the CLI metadata is read
+ * separately. Unreadable metadata is treated as absent.
+ *
+ * @param filePath - Path to the state JSON file.
+ * @returns The CLI fields present in the file.
+ */
+async function readCliMetadata(filePath: string): Promise<Partial<CliStateSnapshot>> {
+  try {
+    const parsed: unknown = JSON.parse(await readFile(filePath, 'utf-8'));
+    return typeof parsed === 'object' && parsed !== null
+      ? (parsed as Partial<CliStateSnapshot>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
 /**
  * Upgrades a legacy ProtocolStateSnapshot to a CliStateSnapshot.
  *
@@ -261,11 +280,15 @@ function serializeCliState(snapshot: CliStateSnapshot, options?: SaveCliStateOpt
  * if they don't exist (for backward compatibility).
  *
  * @param snapshot - The legacy protocol state snapshot.
+ * @param metadata - CLI fields read from the state file.
  * @returns An upgraded CLI state snapshot.
  */
-function upgradeToCliState(snapshot: ProtocolStateSnapshot): CliStateSnapshot {
+function upgradeToCliState(
+  snapshot: ProtocolStateSnapshot,
+  metadata: Partial<CliStateSnapshot>
+): CliStateSnapshot {
   const now = new Date().toISOString();
-  const maybeCliSnapshot = snapshot as unknown as Partial<CliStateSnapshot>;
+  const maybeCliSnapshot = metadata;
 
   const base = {
     ...snapshot,
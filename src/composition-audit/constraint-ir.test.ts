@@ -0,0 +1,110 @@
+/**
+ * Tests for the constraint IR parser.
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getFormulaVariables, parseConstraint, type ConstraintFormula } from './constraint-ir.js';
+import { formatRational } from './rational.js';
+
+/**
+ * Renders a formula compactly for assertions, e.g. `(-1*amount + 0 < 0)`.
+ */
+function show(formula: ConstraintFormula | undefined): string {
+  if (formula === undefined) {
+    return 'unsupported';
+  }
+  switch (formula.kind) {
+    case 'linear': {
+      const { coefficients, constant, operator } = formula.constraint;
+      const terms = [...coefficients].map(([name, c]) => `${formatRational(c)}*${name}`);
+      return `(${[...terms, formatRational(constant)].join(' + ')} ${operator} 0)`;
+    }
+    case 'bool':
+      return formula.name;
+    case 'literal':
+      return String(formula.value);
+    case 'not':
+      return `!${show(formula.operand)}`;
+    case 'and':
+    case 'or':
+      return `${formula.kind}(${formula.operands.map(show).join(', ')})`;
+  }
+}
+
+describe('parseConstraint', () => {
+  it('normalizes comparisons to a linear form against zero', () => {
+    expect(show(parseConstraint('amount > 0'))).toBe('(-1*amount + 0 < 0)');
+    expect(show(parseConstraint('balance >= amount'))).toBe('(-1*balance + 1*amount + 0 <= 0)');
+    expect(show(parseConstraint('2 * x + y / 4 <= 10'))).toBe('(2*x + 0.25*y + -10 <= 0)');
+    expect(show(parseConstraint('x === 3'))).toBe('(1*x + -3 = 0)');
+    expect(show(parseConstraint('x != 3'))).toBe('!(1*x + -3 = 0)');
+  });
+
+  it('reads decimal literals exactly', () => {
+    expect(show(parseConstraint('ratio <= 0.1'))).toBe('(1*ratio + -0.1 <= 0)');
+  });
+
+  it('expands chained comparisons to a conjunction', () => {
+    expect(show(parseConstraint('0.0 <= self.0 <= 1.0'))).toBe(
+      'and((-1*self.0 + 0 <= 0), (1*self.0 + -1 <= 0))'
+    );
+  });
+
+  it('parses boolean structure and keywords', () => {
+    expect(show(parseConstraint('active && !(limit < 0 || locked)'))).toBe(
+      'and(active, !or((1*limit + 0 < 0), locked))'
+    );
+    expect(show(parseConstraint('premium implies limit >= 100'))).toBe(
+      'or(!premium, (-1*limit + 100 <= 0))'
+    );
+    expect(show(parseConstraint('not x = 1 and true'))).toBe('and(!(1*x + -1 = 0), true)');
+  });
+
+  it('groups arithmetic in parentheses', () => {
+    expect(show(parseConstraint('(a + b) * 2 < 8'))).toBe('(2*a + 2*b + -8 < 0)');
+  });
+
+  it('folds comparisons between constants', () => {
+    expect(show(parseConstraint('1 > 2'))).toBe('false');
+    expect(show(parseConstraint('x - x <= 0'))).toBe('true');
+  });
+
+  it('prefixes the subject to a clause that starts with an operator', () => {
+    expect(show(parseConstraint('>= 0', { subject: 'balance' }))).toBe('(-1*balance + 0 <= 0)');
+    expect(show(parseConstraint('balance < 10', { subject: 'balance' }))).toBe(
+      '(1*balance + -10 < 0)'
+    );
+  });
+
+  it('renames variables', () => {
+    const formula = parseConstraint('self.0 > 0', {
+      rename: (name) => (name === 'self.0' ? 'amount' : name),
+    });
+
+    expect(show(formula)).toBe('(-1*amount + 0 < 0)');
+  });
+
+  it.each([
+    ['calls', 'session.isActive()'],
+    ['quantifiers', 'forall i, j: i != j implies self[i] != self[j]'],
+    ['non-linear terms', 'x * y > 0'],
+    ['division by a variable', '1 / x > 0'],
+    ['division by zero', 'x / 0 > 0'],
+    ['arrow functions', 'arr.every(x => x !== null)'],
+    ['natural language', 'must be valid email format'],
+    ['trailing operators', 'x >'],
+    ['empty text', '  '],
+  ])('rejects %s', (_name, text) => {
+    expect(parseConstraint(text)).toBeUndefined();
+  });
+});
+
+describe('getFormulaVariables', () => {
+  it('lists numeric and boolean variables once, sorted', () => {
+    const formula = parseConstraint('b > a && (active || a < 10)');
+
+    expect(formula && getFormulaVariables(formula)).toEqual(['a', 'active', 'b']);
+  });
+});
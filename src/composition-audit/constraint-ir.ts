@@ -0,0 +1,483 @@
+/**
+ * Constraint IR for the Composition Audit solver pass.
+ *
+ * Parses contract clauses, witness invariants and field constraints into a
+ * small boolean/linear-arithmetic formula language. Only the decidable
+ * fragment is accepted: comparisons between linear terms, boolean variables,
+ * and `&&`, `||`, `!` and `implies` over them. Anything else (calls,
+ * quantifiers, non-linear arithmetic) is reported as unsupported and left to
+ * the model-based audit.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  ONE,
+  ZERO,
+  add,
+  div,
+  isZero,
+  mul,
+  neg,
+  parseDecimal,
+  compare,
+  type Rational,
+} from './rational.js';
+
+/**
+ * A linear constraint `sum(coefficient * variable) + constant <operator> 0`.
+ */
+export interface LinearConstraint {
+  /** Variable coefficients; variables with a zero coefficient are omitted. */
+  readonly coefficients: ReadonlyMap<string, Rational>;
+  /** The constant term. */
+  readonly constant: Rational;
+  /** How the sum relates to zero. */
+  readonly operator: '<' | '<=' | '=';
+}
+
+/**
+ * A formula in the constraint IR.
+ */
+export type ConstraintFormula =
+  | { readonly kind: 'linear'; readonly constraint: LinearConstraint }
+  | { readonly kind: 'bool'; readonly name: string }
+  | { readonly kind: 'literal'; readonly value: boolean }
+  | { readonly kind: 'not'; readonly operand: ConstraintFormula }
+  | { readonly kind: 'and' | 'or'; readonly operands: readonly ConstraintFormula[] };
+
+/**
+ * Options for {@link parseConstraint}.
+ */
+export interface ConstraintParseOptions {
+  /**
+   * Variable constrained by a clause that starts with a comparison operator,
+   * as field constraints do (e.g. `>= 0` on field `balance`).
+   */
+  readonly subject?: string;
+  /** Renames variables as they are read, e.g. to map `self.0` onto a field name. */
+  readonly rename?: (name: string) => string;
+}
+
+interface Token {
+  readonly type: 'number' | 'name' | 'operator';
+  readonly text: string;
+}
+
+interface LinearExpression {
+  readonly coefficients: Map<string, Rational>;
+  readonly constant: Rational;
+}
+
+/** Longest operators first, so `<=` is not read as `<` followed by `=`. */
+const OPERATORS = [
+  '===',
+  '!==',
+  '=>',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '<',
+  '>',
+  '=',
+  '!',
+  '+',
+  '-',
+  '*',
+  '/',
+  '(',
+  ')',
+] as const;
+
+const RELATIONAL_OPERATORS = new Set(['<', '<=', '>', '>=', '==', '===', '=', '!=', '!==']);
+const ARITHMETIC_OPERATORS = new Set(['+', '-', '*', '/']);
+const KEYWORDS = new Set(['and', 'or', 'not', 'implies', 'true', 'false']);
+
+/**
+ * Thrown inside the parser when the text leaves the supported fragment.
+ */
+class UnsupportedConstraint extends Error {}
+
+/**
+ * Parses a clause into the constraint IR.
+ *
+ * Comparisons may be chained (`0 <= x <= 1`), and `and`, `or`, `not` and
+ * `implies` are accepted alongside `&&`, `||` and `!`.
+ *
+ * @param text - The clause, e.g. `amount > 0 && balance >= amount`.
+ * @param options - Parse options.
+ * @returns The formula, or undefined if the clause is outside the supported fragment.
+ *
+ * @example
+ * parseConstraint('>= 0', { subject: 'balance' });
+ * // balance >= 0, i.e. -balance <= 0
+ */
+export function parseConstraint(
+  text: string,
+  options: ConstraintParseOptions = {}
+): ConstraintFormula | undefined {
+  const source =
+    options.subject !== undefined && /^\s*(?:[<>]=?|[!=]==?|=)/.test(text)
+      ? `${options.subject} ${text}`
+      : text;
+  const tokens = tokenize(source);
+  if (tokens === undefined || tokens.length === 0) {
+    return undefined;
+  }
+
+  try {
+    const parser = new ConstraintParser(tokens, options.rename ?? ((name): string => name));
+    return parser.parse();
+  } catch (error) {
+    if (error instanceof UnsupportedConstraint) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lists the variables a formula mentions.
+ *
+ * @param formula - The formula.
+ * @returns Variable names, sorted.
+ */
+export function getFormulaVariables(formula: ConstraintFormula): string[] {
+  const names = new Set<string>();
+  const visit = (f: ConstraintFormula): void => {
+    switch (f.kind) {
+      case 'linear':
+        for (const name of f.constraint.coefficients.keys()) {
+          names.add(name);
+        }
+        break;
+      case 'bool':
+        names.add(f.name);
+        break;
+      case 'literal':
+        break;
+      case 'not':
+        visit(f.operand);
+        break;
+      case 'and':
+      case 'or':
+        f.operands.forEach(visit);
+        break;
+    }
+  };
+  visit(formula);
+  return [...names].sort();
+}
+
+/**
+ * Splits a clause into tokens.
+ *
+ * @returns The tokens, or undefined if the clause contains a character the IR does not use.
+ */
+function tokenize(text: string): Token[] | undefined {
+  const tokens: Token[] = [];
+  let rest = text;
+
+  while (rest !== '') {
+    const space = /^\s+/.exec(rest);
+    if (space !== null) {
+      rest = rest.slice(space[0].length);
+      continue;
+    }
+
+    // eslint-disable-next-line security/detect-unsafe-regex -- Anchored; each group starts with a distinct literal
+    const number = /^\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/.exec(rest);
+    // eslint-disable-next-line security/detect-unsafe-regex -- Anchored; each repetition starts with a literal '.'
+    const name = /^[A-Za-z_$][\w$]*(?:\.(?:[A-Za-z_$][\w$]*|\d+))*/.exec(rest);
+    const operator = OPERATORS.find((op) => rest.startsWith(op));
+    if (number !== null) {
+      tokens.push({ type: 'number', text: number[0] });
+    } else if (name !== null) {
+      tokens.push({ type: 'name', text: name[0] });
+    } else if (operator !== undefined) {
+      tokens.push({ type: 'operator', text: operator });
+    } else {
+      return undefined;
+    }
+    rest = rest.slice(tokens[tokens.length - 1]?.text.length ?? rest.length);
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over a token list.
+ */
+class ConstraintParser {
+  private position = 0;
+
+  constructor(
+    private readonly tokens: readonly Token[],
+    private readonly rename: (name: string) => string
+  ) {}
+
+  parse(): ConstraintFormula {
+    const formula = this.implication();
+    if (this.peek() !== undefined) {
+      throw new UnsupportedConstraint();
+    }
+    return formula;
+  }
+
+  private implication(): ConstraintFormula {
+    const premise = this.disjunction();
+    if (this.accept('implies')) {
+      return { kind: 'or', operands: [negate(premise), this.implication()] };
+    }
+    return premise;
+  }
+
+  private disjunction(): ConstraintFormula {
+    const operands = [this.conjunction()];
+    while (this.accept('||') || this.accept('or')) {
+      operands.push(this.conjunction());
+    }
+    return operands.length === 1 && operands[0] !== undefined
+      ? operands[0]
+      : { kind: 'or', operands };
+  }
+
+  private conjunction(): ConstraintFormula {
+    const operands = [this.unary()];
+    while (this.accept('&&') || this.accept('and')) {
+      operands.push(this.unary());
+    }
+    return operands.length === 1 && operands[0] !== undefined
+      ? operands[0]
+      : { kind: 'and', operands };
+  }
+
+  private unary(): ConstraintFormula {
+    if (this.accept('!') || this.accept('not')) {
+      return negate(this.unary());
+    }
+    return this.atom();
+  }
+
+  private atom(): ConstraintFormula {
+    // A parenthesized formula, unless the parentheses group an arithmetic term
+    if (this.peek()?.text === '(') {
+      const start = this.position;
+      try {
+        this.position++;
+        const formula = this.implication();
+        this.expect(')');
+        const next = this.peek()?.text;
+        if (
+          next === undefined ||
+          (!RELATIONAL_OPERATORS.has(next) && !ARITHMETIC_OPERATORS.has(next))
+        ) {
+          return formula;
+        }
+      } catch (error) {
+        if (!(error instanceof UnsupportedConstraint)) {
+          throw error;
+        }
+      }
+      this.position = start;
+    }
+
+    const literal = this.peek()?.text;
+    if (literal === 'true' || literal === 'false') {
+      this.position++;
+      return { kind: 'literal', value: literal === 'true' };
+    }
+
+    const first = this.sum();
+    const comparisons: ConstraintFormula[] = [];
+    let left = first;
+    let operator = this.peek()?.text;
+    while (operator !== undefined && RELATIONAL_OPERATORS.has(operator)) {
+      this.position++;
+      const right = this.sum();
+      comparisons.push(compareExpressions(operator, left, right));
+      left = right;
+      operator = this.peek()?.text;
+    }
+
+    if (comparisons.length === 0) {
+      const [name, coefficient] = [...first.coefficients][0] ?? [];
+      if (
+        first.coefficients.size === 1 &&
+        name !== undefined &&
+        coefficient !== undefined &&
+        compare(coefficient, ONE) === 0 &&
+        isZero(first.constant)
+      ) {
+        return { kind: 'bool', name };
+      }
+      throw new UnsupportedConstraint();
+    }
+    return comparisons.length === 1 && comparisons[0] !== undefined
+      ? comparisons[0]
+      : { kind: 'and', operands: comparisons };
+  }
+
+  private sum(): LinearExpression {
+    let result = this.product();
+    for (;;) {
+      if (this.accept('+')) {
+        result = addExpressions(result, this.product());
+      } else if (this.accept('-')) {
+        result = addExpressions(result, scaleExpression(this.product(), neg(ONE)));
+      } else {
+        return result;
+      }
+    }
+  }
+
+  private product(): LinearExpression {
+    let result = this.factor();
+    for (;;) {
+      if (this.accept('*')) {
+        const right = this.factor();
+        if (right.coefficients.size === 0) {
+          result = scaleExpression(result, right.constant);
+        } else if (result.coefficients.size === 0) {
+          result = scaleExpression(right, result.constant);
+        } else {
+          throw new UnsupportedConstraint();
+        }
+      } else if (this.accept('/')) {
+        const right = this.factor();
+        if (right.coefficients.size !== 0 || isZero(right.constant)) {
+          throw new UnsupportedConstraint();
+        }
+        result = scaleExpression(result, div(ONE, right.constant));
+      } else {
+        return result;
+      }
+    }
+  }
+
+  private factor(): LinearExpression {
+    const token = this.peek();
+    if (token === undefined) {
+      throw new UnsupportedConstraint();
+    }
+    this.position++;
+
+    if (token.text === '-') {
+      return scaleExpression(this.factor(), neg(ONE));
+    }
+    if (token.text === '+') {
+      return this.factor();
+    }
+    if (token.text === '(') {
+      const inner = this.sum();
+      this.expect(')');
+      return inner;
+    }
+    if (token.type === 'number') {
+      const value = parseDecimal(token.text);
+      if (value === undefined) {
+        throw new UnsupportedConstraint();
+      }
+      return { coefficients: new Map(), constant: value };
+    }
+    if (token.type === 'name' && !KEYWORDS.has(token.text) && this.peek()?.text !== '(') {
+      return { coefficients: new Map([[this.rename(token.text), ONE]]), constant: ZERO };
+    }
+    throw new UnsupportedConstraint();
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private accept(text: string): boolean {
+    if (this.peek()?.text === text) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(text: string): void {
+    if (!this.accept(text)) {
+      throw new UnsupportedConstraint();
+    }
+  }
+}
+
+function negate(formula: ConstraintFormula): ConstraintFormula {
+  return formula.kind === 'not' ? formula.operand : { kind: 'not', operand: formula };
+}
+
+function addExpressions(a: LinearExpression, b: LinearExpression): LinearExpression {
+  const coefficients = new Map(a.coefficients);
+  for (const [name, coefficient] of b.coefficients) {
+    const sum = add(coefficients.get(name) ?? ZERO, coefficient);
+    if (isZero(sum)) {
+      coefficients.delete(name);
+    } else {
+      coefficients.set(name, sum);
+    }
+  }
+  return { coefficients, constant: add(a.constant, b.constant) };
+}
+
+function scaleExpression(expression: LinearExpression, factor: Rational): LinearExpression {
+  if (isZero(factor)) {
+    return { coefficients: new Map(), constant: ZERO };
+  }
+  return {
+    coefficients: new Map(
+      [...expression.coefficients].map(([name, coefficient]) => [name, mul(coefficient, factor)])
+    ),
+    constant: mul(expression.constant, factor),
+  };
+}
+
+/**
+ * Builds the formula for `left <operator> right` as a constraint on `left - right`.
+ */
+function compareExpressions(
+  operator: string,
+  left: LinearExpression,
+  right: LinearExpression
+): ConstraintFormula {
+  const difference = addExpressions(left, scaleExpression(right, neg(ONE)));
+  const negated = scaleExpression(difference, neg(ONE));
+  switch (operator) {
+    case '<':
+      return linear(difference, '<');
+    case '<=':
+      return linear(difference, '<=');
+    case '>':
+      return linear(negated, '<');
+    case '>=':
+      return linear(negated, '<=');
+    case '!=':
+    case '!==':
+      return negate(linear(difference, '='));
+    default:
+      return linear(difference, '=');
+  }
+}
+
+/**
+ * Builds a linear formula, folding constraints without variables to a literal.
+ */
+function linear(
+  expression: LinearExpression,
+  operator: LinearConstraint['operator']
+): ConstraintFormula {
+  if (expression.coefficients.size === 0) {
+    const sign = compare(expression.constant, ZERO);
+    const value = operator === '<' ? sign < 0 : operator === '<=' ? sign <= 0 : sign === 0;
+    return { kind: 'literal', value };
+  }
+  return {
+    kind: 'linear',
+    constraint: { coefficients: expression.coefficients, constant: expression.constant, operator },
+  };
+}
@@ -0,0 +1,213 @@
+/**
+ * Tests for the constraint solver pass.
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GeneratedContract } from '../lattice/contract-attacher.js';
+import type { WitnessCodeResult } from '../lattice/witness-generator.js';
+import type { CompositionAuditInput } from './types.js';
+import { runConstraintPrepass } from './constraint-prepass.js';
+import type { ConstraintSolverBackend } from './constraint-solver.js';
+
+function createContract(overrides: Partial<GeneratedContract> = {}): GeneratedContract {
+  return {
+    functionName: 'withdraw',
+    interfaceName: 'AccountService',
+    requires: [],
+    ensures: [],
+    invariants: [],
+    claimRefs: [],
+    jsDoc: '/** Withdraw funds */',
+    ...overrides,
+  };
+}
+
+function createWitness(name: string, ...formals: string[]): WitnessCodeResult {
+  return {
+    name,
+    brandedType: `type ${name} = ...`,
+    validationFactory: `function make${name}...`,
+    arbitrary: `const arb${name} = ...`,
+    invariantAnalysis: formals.map((formal, index) => ({
+      invariant: { id: `inv${String(index + 1)}`, formal, testable: true },
+      tier: 'distinction',
+      isTypeEncodable: true,
+      reason: 'Can be enforced via branded type',
+    })),
+    highestTier: 'distinction',
+    jsDoc: '/** JSDoc */',
+    success: true,
+    warnings: [],
+  };
+}
+
+function createInput(overrides: Partial<CompositionAuditInput> = {}): CompositionAuditInput {
+  return { constraints: {}, contracts: [], witnesses: [], claims: {}, ...overrides };
+}
+
+describe('runConstraintPrepass', () => {
+  it('reports conflicting preconditions with a minimal core and witnesses', async () => {
+    const input = createInput({
+      contracts: [
+        createContract({
+          requires: ['amount > 0', 'session.isActive()', 'balance >= amount', 'amount <= -1'],
+        }),
+      ],
+    });
+
+    const result = await runConstraintPrepass(input);
+
+    expect(result.checkedClauses).toBe(3);
+    expect(result.skippedClauses).toBe(1);
+    expect(result.contradictions).toHaveLength(1);
+    const [contradiction] = result.contradictions;
+    expect(contradiction).toMatchObject({
+      type: 'invariant',
+      severity: 'critical',
+      description:
+        'Contract of AccountService.withdraw is unsatisfiable: "amount > 0" and "amount <= -1" cannot hold together',
+      minimalScenario:
+        'With amount = -1, "amount <= -1" holds but "amount > 0" does not. With amount = 1, "amount > 0" holds but "amount <= -1" does not.',
+      suggestedResolutions: [
+        'Relax or remove "amount > 0" (AccountService.withdraw@requires#1)',
+        'Relax or remove "amount <= -1" (AccountService.withdraw@requires#4)',
+      ],
+    });
+    expect(contradiction?.involved.map((e) => e.id)).toEqual([
+      'AccountService.withdraw@requires#1',
+      'AccountService.withdraw@requires#4',
+    ]);
+    expect(contradiction?.analysis).toContain('linear-arithmetic solver proved');
+  });
+
+  it('classifies a postcondition that contradicts the preconditions', async () => {
+    const input = createInput({
+      contracts: [
+        createContract({
+          requires: ['amount > 0'],
+          ensures: ['result == amount - amount - 1', 'result >= 0'],
+        }),
+      ],
+    });
+
+    const result = await runConstraintPrepass(input);
+
+    expect(result.contradictions[0]?.type).toBe('postcondition_conflict');
+    expect(result.contradictions[0]?.involved.map((e) => e.id)).toEqual([
+      'AccountService.withdraw@ensures#1',
+      'AccountService.withdraw@ensures#2',
+    ]);
+  });
+
+  it('checks witness-typed fields against their field constraints', async () => {
+    const input = createInput({
+      witnesses: [createWitness('NonNegativeDecimal', 'self.0 >= 0')],
+      dataModels: {
+        Account: {
+          fields: [
+            { name: 'balance', type: 'NonNegativeDecimal', constraints: ['< 0'] },
+            { name: 'limit', type: 'Decimal', constraints: ['>= 0'] },
+          ],
+        },
+      },
+    });
+
+    const result = await runConstraintPrepass(input);
+
+    expect(result.contradictions).toHaveLength(1);
+    expect(result.contradictions[0]).toMatchObject({
+      description:
+        'Data model Account is unsatisfiable: "balance < 0" and "self.0 >= 0" cannot hold together',
+      minimalScenario:
+        'With balance = 0, "self.0 >= 0" holds but "balance < 0" does not. With balance = -1, "balance < 0" holds but "self.0 >= 0" does not.',
+    });
+    expect(result.contradictions[0]?.involved[1]).toMatchObject({
+      elementType: 'witness',
+      id: 'NonNegativeDecimal.inv1',
+      name: 'NonNegativeDecimal (type of Account.balance)',
+    });
+  });
+
+  it('checks a witness on its own and relates model invariants to fields', async () => {
+    const input = createInput({
+      witnesses: [createWitness('Percentage', '0 <= self.0 <= 100', 'value > 100')],
+      dataModels: {
+        Range: {
+          fields: [
+            { name: 'low', type: 'number' },
+            { name: 'high', type: 'number' },
+          ],
+          invariants: ['self.low <= self.high', 'low > high'],
+        },
+      },
+    });
+
+    const result = await runConstraintPrepass(input);
+
+    expect(result.contradictions.map((c) => c.description)).toEqual([
+      'Witness Percentage is unsatisfiable: "0 <= self.0 <= 100" and "value > 100" cannot hold together',
+      'Data model Range is unsatisfiable: "self.low <= self.high" and "low > high" cannot hold together',
+    ]);
+  });
+
+  it('checks spec constraints that use arithmetic', async () => {
+    const input = createInput({
+      constraints: {
+        functional: ['Balance must be non-negative'],
+        non_functional: ['session_timeout_s <= 1800', 'operation_time_s <= session_timeout_s'],
+        security: ['operation_time_s >= 7200'],
+      },
+    });
+
+    const result = await runConstraintPrepass(input);
+
+    expect(result.skippedClauses).toBe(1);
+    expect(result.contradictions[0]?.involved.map((e) => e.id)).toEqual([
+      'NF001',
+      'NF002',
+      'SC001',
+    ]);
+    expect(result.contradictions[0]?.analysis).toContain('while any 2 of them can be satisfied');
+  });
+
+  it('reports a single clause that can never hold', async () => {
+    const input = createInput({
+      contracts: [createContract({ invariants: ['x > x + 1'] })],
+    });
+
+    const result = await runConstraintPrepass(input);
+
+    expect(result.contradictions[0]?.minimalScenario).toBe('"x > x + 1" is false for all values.');
+  });
+
+  it('reports nothing for a consistent composition', async () => {
+    const input = createInput({
+      contracts: [createContract({ requires: ['amount > 0', 'balance >= amount'] })],
+      witnesses: [createWitness('NonNegativeDecimal', 'self.0 >= 0')],
+    });
+
+    const result = await runConstraintPrepass(input);
+
+    expect(result).toEqual({
+      contradictions: [],
+      checkedClauses: 3,
+      skippedClauses: 0,
+      undecided: [],
+    });
+  });
+
+  it('records scopes the solver cannot decide', async () => {
+    const solver: ConstraintSolverBackend = {
+      name: 'stub',
+      check: () => Promise.resolve({ status: 'unknown', reason: 'timed out' }),
+    };
+    const input = createInput({ contracts: [createContract({ requires: ['amount > 0'] })] });
+
+    const result = await runConstraintPrepass(input, { solver });
+
+    expect(result.undecided).toEqual(['Contract of AccountService.withdraw: timed out']);
+    expect(result.contradictions).toEqual([]);
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Deterministic constraint solver pass for the Composition Audit.
+ *
+ * Runs before the model-based audit. Clauses that fall inside the constraint
+ * IR are grouped into scopes that share variables, each scope is checked for
+ * satisfiability, and every unsatisfiable scope is reported as a critical
+ * {@link Contradiction} with a minimal set of conflicting clauses and
+ * concrete witness values. Clauses outside the IR are counted and left to
+ * the auditor model.
+ *
+ * Scopes:
+ * - each contract: its requires, ensures and invariant clauses
+ * - each witness: its formal invariants, over `value`
+ * - each data model: field constraints, the invariants of witness-typed
+ *   fields, and model invariants, over the field names
+ * - the spec constraints, over the names they mention
+ *
+ * @packageDocumentation
+ */
+
+import { createHash } from 'node:crypto';
+import type {
+  Contradiction,
+  ContradictionType,
+  CompositionAuditInput,
+  InvolvedElement,
+} from './types.js';
+import { getFormulaVariables, parseConstraint, type ConstraintFormula } from './constraint-ir.js';
+import {
+  linearArithmeticSolver,
+  type ConstraintModel,
+  type ConstraintSolverBackend,
+} from './constraint-solver.js';
+import type { WitnessCodeResult } from '../lattice/witness-generator.js';
+
+/**
+ * Options for {@link runConstraintPrepass}.
+ */
+export interface ConstraintPrepassOptions {
+  /** Solver backend. Default: the bundled linear-arithmetic solver. */
+  readonly solver?: ConstraintSolverBackend;
+}
+
+/**
+ * Result of the constraint solver pass.
+ */
+export interface ConstraintPrepassResult {
+  /** Contradictions proven by the solver. */
+  readonly contradictions: readonly Contradiction[];
+  /** Number of clauses translated into the constraint IR. */
+  readonly checkedClauses: number;
+  /** Number of clauses outside the IR, left to the model-based audit. */
+  readonly skippedClauses: number;
+  /** Scopes the solver could not decide, with the reason. */
+  readonly undecided: readonly string[];
+}
+
+interface Clause {
+  readonly element: InvolvedElement;
+  readonly formula: ConstraintFormula;
+  /** Contract postconditions make a conflict a postcondition conflict. */
+  readonly postcondition: boolean;
+}
+
+interface Scope {
+  readonly label: string;
+  readonly clauses: Clause[];
+}
+
+/** Names a witness invariant uses for the constrained value. */
+const WITNESS_SELF_NAMES = new Set(['self', 'self.0', 'self.value', 'value']);
+
+/**
+ * Checks the composition's clauses for contradictions with the constraint solver.
+ *
+ * @param input - The composition audit input.
+ * @param options - Solver options.
+ * @returns Proven contradictions and coverage counts.
+ */
+export async function runConstraintPrepass(
+  input: CompositionAuditInput,
+  options: ConstraintPrepassOptions = {}
+): Promise<ConstraintPrepassResult> {
+  const solver = options.solver ?? linearArithmeticSolver;
+  const { scopes, skipped } = buildScopes(input);
+  const contradictions: Contradiction[] = [];
+  const undecided: string[] = [];
+
+  for (const scope of scopes) {
+    const result = await solver.check(scope.clauses.map((c) => c.formula));
+    if (result.status === 'unknown') {
+      undecided.push(`${scope.label}: ${result.reason}`);
+    } else if (result.status === 'unsat') {
+      const core = await findConflictingClauses(scope.clauses, solver);
+      contradictions.push(await describeConflict(scope, core, solver));
+    }
+  }
+
+  return {
+    contradictions,
+    checkedClauses: scopes.reduce((total, scope) => total + scope.clauses.length, 0),
+    skippedClauses: skipped,
+    undecided,
+  };
+}
+
+/**
+ * Translates the input into solver scopes, counting clauses the IR cannot express.
+ */
+function buildScopes(input: CompositionAuditInput): { scopes: Scope[]; skipped: number } {
+  const scopes: Scope[] = [];
+  let skipped = 0;
+
+  const addClause = (
+    scope: Scope,
+    element: InvolvedElement,
+    formula: ConstraintFormula | undefined,
+    postcondition = false
+  ): void => {
+    if (formula === undefined) {
+      skipped++;
+    } else {
+      scope.clauses.push({ element, formula, postcondition });
+    }
+  };
+
+  for (const contract of input.contracts) {
+    const name = `${contract.interfaceName}.${contract.functionName}`;
+    const scope: Scope = { label: `Contract of ${name}`, clauses: [] };
+    const sections = [
+      ['requires', contract.requires],
+      ['ensures', contract.ensures],
+      ['invariant', contract.invariants],
+    ] as const;
+    for (const [tag, clauses] of sections) {
+      for (const [index, text] of clauses.entries()) {
+        addClause(
+          scope,
+          {
+            elementType: 'contract',
+            id: `${name}@${tag}#${String(index + 1)}`,
+            name: `${name} @${tag}`,
+            text,
+          },
+          parseConstraint(text),
+          tag === 'ensures'
+        );
+      }
+    }
+    scopes.push(scope);
+  }
+
+  for (const witness of input.witnesses) {
+    const scope: Scope = { label: `Witness ${witness.name}`, clauses: [] };
+    addWitnessClauses(witness, 'value', (element, formula) => {
+      addClause(scope, element, formula);
+    });
+    scopes.push(scope);
+  }
+
+  for (const [modelName, model] of Object.entries(input.dataModels ?? {})) {
+    const scope: Scope = { label: `Data model ${modelName}`, clauses: [] };
+    const fieldName = (name: string): string => name.replace(/^self\./, '');
+
+    for (const field of model.fields) {
+      for (const [index, constraint] of (field.constraints ?? []).entries()) {
+        const formula = parseConstraint(constraint, { subject: field.name, rename: fieldName });
+        const text = /^\s*[<>!=]/.test(constraint)
+          ? `${field.name} ${constraint.trim()}`
+          : constraint;
+        addClause(
+          scope,
+          {
+            elementType: 'constraint',
+            id: `${modelName}.${field.name}#${String(index + 1)}`,
+            name: `${modelName}.${field.name}`,
+            text,
+          },
+          formula
+        );
+      }
+
+      const witness = input.witnesses.find((w) => w.name === field.type);
+      if (witness !== undefined) {
+        // Unparsed witness invariants were already counted in the witness's own scope
+        addWitnessClauses(witness, field.name, (element, formula) => {
+          if (formula === undefined) {
+            return;
+          }
+          addClause(
+            scope,
+            { ...element, name: `${witness.name} (type of ${modelName}.${field.name})` },
+            formula
+          );
+        });
+      }
+    }
+
+    for (const [index, invariant] of (model.invariants ?? []).entries()) {
+      addClause(
+        scope,
+        {
+          elementType: 'constraint',
+          id: `${modelName}@invariant#${String(index + 1)}`,
+          name: `${modelName} invariant`,
+          text: invariant,
+        },
+        parseConstraint(invariant, { rename: fieldName })
+      );
+    }
+    scopes.push(scope);
+  }
+
+  const specScope: Scope = { label: 'Spec constraints', clauses: [] };
+  const categories = [
+    ['FC', input.constraints.functional],
+    ['NF', input.constraints.non_functional],
+    ['SC', input.constraints.security],
+  ] as const;
+  for (const [prefix, constraints] of categories) {
+    for (const [index, text] of (constraints ?? []).entries()) {
+      const id = `${prefix}${String(index + 1).padStart(3, '0')}`;
+      addClause(
+        specScope,
+        { elementType: 'constraint', id, name: id, text },
+        parseConstraint(text)
+      );
+    }
+  }
+  scopes.push(specScope);
+
+  return { scopes: scopes.filter((scope) => scope.clauses.length > 0), skipped };
+}
+
+/**
+ * Parses a witness's formal invariants with the witnessed value renamed to `subject`.
+ */
+function addWitnessClauses(
+  witness: WitnessCodeResult,
+  subject: string,
+  add: (element: InvolvedElement, formula: ConstraintFormula | undefined) => void
+): void {
+  for (const [index, { invariant }] of witness.invariantAnalysis.entries()) {
+    if (invariant.formal === undefined) {
+      continue;
+    }
+    add(
+      {
+        elementType: 'witness',
+        id: `${witness.name}.${invariant.id ?? String(index + 1)}`,
+        name: witness.name,
+        text: invariant.formal,
+      },
+      parseConstraint(invariant.formal, {
+        rename: (name) => (WITNESS_SELF_NAMES.has(name) ? subject : name),
+      })
+    );
+  }
+}
+
+/**
+ * Shrinks an unsatisfiable clause list to a minimal unsatisfiable subset by
+ * dropping each clause whose removal keeps the rest unsatisfiable.
+ */
+async function findConflictingClauses(
+  clauses: readonly Clause[],
+  solver: ConstraintSolverBackend
+): Promise<Clause[]> {
+  let core = [...clauses];
+  for (const clause of clauses) {
+    const without = core.filter((c) => c !== clause);
+    const result = await solver.check(without.map((c) => c.formula));
+    if (result.status === 'unsat') {
+      core = without;
+    }
+  }
+  return core;
+}
+
+/**
+ * Builds the contradiction for a minimal conflicting clause set, with a
+ * witness per clause: values satisfying all the others but not that one.
+ */
+async function describeConflict(
+  scope: Scope,
+  core: readonly Clause[],
+  solver: ConstraintSolverBackend
+): Promise<Contradiction> {
+  const type: ContradictionType = core.some((c) => c.postcondition)
+    ? 'postcondition_conflict'
+    : 'invariant';
+  const quoted = core.map((c) => `"${c.element.text}"`);
+  const variables = [...new Set(core.flatMap((c) => getFormulaVariables(c.formula)))];
+
+  const witnesses: string[] = [];
+  if (core.length === 1) {
+    witnesses.push(
+      variables.length > 0
+        ? `No values of ${variables.join(', ')} satisfy ${quoted.join('')}.`
+        : `${quoted.join('')} is false for all values.`
+    );
+  }
+  for (const clause of core.length > 1 ? core : []) {
+    const others = core.filter((c) => c !== clause);
+    const result = await solver.check(others.map((c) => c.formula));
+    if (result.status !== 'sat') {
+      continue;
+    }
+    const holds = others.map((c) => `"${c.element.text}"`).join(' and ');
+    witnesses.push(
+      `With ${formatModel(result.model, variables)}, ${holds} ${others.length === 1 ? 'holds' : 'hold'} but "${clause.element.text}" does not.`
+    );
+  }
+
+  const hash = createHash('sha256')
+    .update([scope.label, ...core.map((c) => c.element.id)].join('\n'))
+    .digest('hex')
+    .slice(0, 8);
+
+  return {
+    id: `${type.toUpperCase().replace(/_/g, '')}_SOLVER_${hash}`,
+    type,
+    severity: 'critical',
+    description: `${scope.label} is unsatisfiable: ${quoted.join(' and ')} cannot hold together`,
+    involved: core.map((c) => c.element),
+    analysis:
+      core.length === 1
+        ? `The ${solver.name} solver proved that no assignment to ${variables.join(', ')} satisfies this clause.`
+        : `The ${solver.name} solver proved that no assignment to ${variables.join(', ')} satisfies these clauses together, while any ${String(core.length - 1)} of them can be satisfied.`,
+    minimalScenario: witnesses.join(' '),
+    suggestedResolutions: core.map((c) => `Relax or remove "${c.element.text}" (${c.element.id})`),
+  };
+}
+
+function formatModel(model: ConstraintModel, variables: readonly string[]): string {
+  const assignments = variables
+    .filter((name) => model[name] !== undefined)
+    .map((name) => `${name} = ${model[name] ?? ''}`);
+  return assignments.length > 0 ? assignments.join(', ') : 'any values';
+}
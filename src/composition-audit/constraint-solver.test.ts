@@ -0,0 +1,163 @@
+/**
+ * Tests for the constraint solver backends.
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseConstraint, type ConstraintFormula } from './constraint-ir.js';
+import {
+  createSmtSolver,
+  linearArithmeticSolver,
+  parseSmtOutput,
+  toSmtLib,
+} from './constraint-solver.js';
+
+function parseAll(...clauses: string[]): ConstraintFormula[] {
+  return clauses.map((clause) => {
+    const formula = parseConstraint(clause);
+    if (formula === undefined) {
+      throw new Error(`Unsupported test clause: ${clause}`);
+    }
+    return formula;
+  });
+}
+
+describe('linearArithmeticSolver', () => {
+  it('finds contradictory bounds', async () => {
+    const result = await linearArithmeticSolver.check(parseAll('amount > 0', 'amount <= -1'));
+
+    expect(result).toEqual({ status: 'unsat' });
+  });
+
+  it('returns a model that satisfies every clause', async () => {
+    const result = await linearArithmeticSolver.check(
+      parseAll('amount > 0', 'balance >= amount', 'balance <= 100')
+    );
+
+    expect(result).toEqual({ status: 'sat', model: { amount: '1', balance: '1' } });
+  });
+
+  it('keeps decimal bounds exact', async () => {
+    const result = await linearArithmeticSolver.check(parseAll('0.1 < ratio', 'ratio < 0.2'));
+
+    expect(result).toEqual({ status: 'sat', model: { ratio: '0.15' } });
+  });
+
+  it('treats values as reals, so it never reports integer-only gaps', async () => {
+    const result = await linearArithmeticSolver.check(parseAll('n > 0', '3 * n < 1'));
+
+    expect(result).toEqual({ status: 'sat', model: { n: '1/6' } });
+  });
+
+  it('chains bounds through several variables', async () => {
+    const result = await linearArithmeticSolver.check(
+      parseAll('timeout_ms <= session_ms', 'session_ms <= 1800000', 'timeout_ms >= 7200000')
+    );
+
+    expect(result).toEqual({ status: 'unsat' });
+  });
+
+  it('decides equalities and disequalities', async () => {
+    expect(await linearArithmeticSolver.check(parseAll('x + y = 10', 'x - y = 2'))).toEqual({
+      status: 'sat',
+      model: { x: '6', y: '4' },
+    });
+    expect(await linearArithmeticSolver.check(parseAll('x = 5', 'x != 5'))).toEqual({
+      status: 'unsat',
+    });
+  });
+
+  it('decides boolean structure', async () => {
+    expect(
+      await linearArithmeticSolver.check(
+        parseAll('premium implies limit >= 100', 'premium', 'limit < 50')
+      )
+    ).toEqual({ status: 'unsat' });
+    expect(
+      await linearArithmeticSolver.check(parseAll('premium implies limit >= 100', 'limit < 50'))
+    ).toEqual({ status: 'sat', model: { limit: '0', premium: 'false' } });
+  });
+
+  it('gives up on formulas with too many cases', async () => {
+    const clauses = Array.from({ length: 9 }, (_, i) => `x${String(i)} != 0`);
+
+    const result = await linearArithmeticSolver.check(parseAll(...clauses));
+
+    expect(result.status).toBe('unknown');
+  });
+});
+
+describe('toSmtLib', () => {
+  it('renders declarations and linear assertions', () => {
+    expect(toSmtLib(parseAll('amount > 0.5', 'active', 'self.0 <= -2'))).toBe(
+      [
+        '(set-option :produce-models true)',
+        '(set-logic QF_LRA)',
+        '(declare-const amount Real)',
+        '(declare-const |self.0| Real)',
+        '(declare-const active Bool)',
+        '(assert (< (+ (* (- 1.0) amount) (/ 1.0 2.0)) 0.0))',
+        '(assert active)',
+        '(assert (<= (+ |self.0| 2.0) 0.0))',
+        '(check-sat)',
+        '(get-model)',
+        '',
+      ].join('\n')
+    );
+  });
+});
+
+describe('parseSmtOutput', () => {
+  it('reads a z3 model', () => {
+    const output = `sat
+(
+  (define-fun amount () Real
+    (/ 1.0 2.0))
+  (define-fun |self.0| () Real
+    (- 3.0))
+  (define-fun active () Bool
+    true)
+)`;
+
+    expect(parseSmtOutput(output)).toEqual({
+      status: 'sat',
+      model: { active: 'true', amount: '0.5', 'self.0': '-3' },
+    });
+  });
+
+  it('reads unsat and unknown answers', () => {
+    expect(parseSmtOutput('unsat\n(error "model is not available")')).toEqual({ status: 'unsat' });
+    expect(parseSmtOutput('unknown')).toEqual({ status: 'unknown', reason: 'unknown' });
+    expect(parseSmtOutput('')).toEqual({ status: 'unknown', reason: 'SMT solver gave no answer' });
+  });
+});
+
+describe('createSmtSolver', () => {
+  it('pipes the script to the solver and parses its answer', async () => {
+    // Stands in for z3: answers unsat when given exactly the two assertions
+    const solver = createSmtSolver({
+      command: process.execPath,
+      args: [
+        '-e',
+        "let s='';process.stdin.on('data',d=>s+=d).on('end',()=>console.log(s.split('(assert').length-1===2?'unsat':'sat'))",
+      ],
+    });
+
+    const result = await solver.check(parseAll('amount > 0', 'amount <= -1'));
+
+    expect(result).toEqual({ status: 'unsat' });
+    expect(solver.name).toBe(`smt:${process.execPath}`);
+  });
+
+  it('answers unknown when the solver is not installed', async () => {
+    const solver = createSmtSolver({ command: 'criticality-no-such-solver' });
+
+    const result = await solver.check(parseAll('x > 0'));
+
+    expect(result).toEqual({
+      status: 'unknown',
+      reason: "SMT solver 'criticality-no-such-solver' is not installed",
+    });
+  });
+});
@@ -0,0 +1,608 @@
+/**
+ * Satisfiability checking for the constraint IR.
+ *
+ * The bundled backend decides linear real arithmetic with boolean structure
+ * exactly: formulas are expanded to disjunctive normal form and each
+ * conjunction is checked by Fourier-Motzkin elimination over rationals, with
+ * back-substitution producing a model. Integer-typed values are treated as
+ * reals, so an `unsat` answer is always sound. A local SMT solver that speaks
+ * SMT-LIB 2 (z3 or cvc5) can be plugged in for larger problems.
+ *
+ * @packageDocumentation
+ */
+
+import { execa } from 'execa';
+import type { ConstraintFormula, LinearConstraint } from './constraint-ir.js';
+import { getFormulaVariables } from './constraint-ir.js';
+import {
+  ONE,
+  ZERO,
+  add,
+  compare,
+  div,
+  formatRational,
+  isZero,
+  mul,
+  neg,
+  parseDecimal,
+  rational,
+  sub,
+  type Rational,
+} from './rational.js';
+
+/**
+ * Values assigned to the variables of a satisfiable formula, as display text
+ * (e.g. `{ amount: '1', active: 'true' }`).
+ */
+export type ConstraintModel = Readonly<Record<string, string>>;
+
+/**
+ * Outcome of a satisfiability check.
+ */
+export type ConstraintSolverResult =
+  | { readonly status: 'sat'; readonly model: ConstraintModel }
+  | { readonly status: 'unsat' }
+  | { readonly status: 'unknown'; readonly reason: string };
+
+/**
+ * A decision procedure for conjunctions of IR formulas.
+ */
+export interface ConstraintSolverBackend {
+  /** Backend name, for reports. */
+  readonly name: string;
+  /**
+   * Checks whether all formulas can hold at once.
+   *
+   * @param formulas - The formulas, read as a conjunction.
+   * @returns The outcome, with a model when satisfiable.
+   */
+  check(formulas: readonly ConstraintFormula[]): Promise<ConstraintSolverResult>;
+}
+
+/**
+ * Options for {@link createSmtSolver}.
+ */
+export interface SmtSolverOptions {
+  /** Solver executable. Default: "z3" */
+  readonly command?: string;
+  /** Arguments that make the solver read SMT-LIB 2 from stdin. Default: ["-in"] */
+  readonly args?: readonly string[];
+  /** Timeout in milliseconds. Default: 10000 */
+  readonly timeoutMs?: number;
+}
+
+/** Disjuncts beyond which DNF expansion gives up rather than blow up. */
+const MAX_DNF_TERMS = 256;
+
+/** Constraints beyond which Fourier-Motzkin elimination gives up. */
+const MAX_ELIMINATION_CONSTRAINTS = 4096;
+
+type Literal =
+  | { readonly kind: 'linear'; readonly constraint: LinearConstraint }
+  | { readonly kind: 'bool'; readonly name: string; readonly value: boolean };
+
+/**
+ * A linear constraint normalized to `<` or `<=` for elimination.
+ */
+interface Inequality {
+  readonly coefficients: ReadonlyMap<string, Rational>;
+  readonly constant: Rational;
+  readonly strict: boolean;
+}
+
+class DnfLimitExceeded extends Error {}
+
+/**
+ * The bundled linear-arithmetic backend.
+ */
+export const linearArithmeticSolver: ConstraintSolverBackend = {
+  name: 'linear-arithmetic',
+  check(formulas) {
+    return Promise.resolve(checkLinear(formulas));
+  },
+};
+
+/**
+ * Creates a backend that runs a local SMT solver.
+ *
+ * @param options - Solver command and timeout.
+ * @returns The backend; it answers `unknown` if the solver is missing or times out.
+ */
+export function createSmtSolver(options: SmtSolverOptions = {}): ConstraintSolverBackend {
+  const command = options.command ?? 'z3';
+  const args = options.args ?? ['-in'];
+  const timeout = options.timeoutMs ?? 10000;
+
+  return {
+    name: `smt:${command}`,
+    async check(formulas) {
+      const result = await execa(command, [...args], {
+        input: toSmtLib(formulas),
+        reject: false,
+        timeout,
+      });
+      if (result.code === 'ENOENT') {
+        return { status: 'unknown', reason: `SMT solver '${command}' is not installed` };
+      }
+      if (result.timedOut) {
+        return {
+          status: 'unknown',
+          reason: `SMT solver '${command}' timed out after ${String(timeout)}ms`,
+        };
+      }
+      const stdout = typeof result.stdout === 'string' ? result.stdout : '';
+      return parseSmtOutput(stdout);
+    },
+  };
+}
+
+/**
+ * Renders formulas as an SMT-LIB 2 script that checks their conjunction and
+ * prints a model.
+ *
+ * @param formulas - The formulas.
+ * @returns The script.
+ */
+export function toSmtLib(formulas: readonly ConstraintFormula[]): string {
+  const numeric = new Set<string>();
+  const booleans = new Set<string>();
+  const collect = (f: ConstraintFormula): void => {
+    if (f.kind === 'bool') {
+      booleans.add(f.name);
+    } else if (f.kind === 'linear') {
+      getFormulaVariables(f).forEach((name) => numeric.add(name));
+    } else if (f.kind === 'not') {
+      collect(f.operand);
+    } else if (f.kind === 'and' || f.kind === 'or') {
+      f.operands.forEach(collect);
+    }
+  };
+  formulas.forEach(collect);
+
+  const lines = ['(set-option :produce-models true)', '(set-logic QF_LRA)'];
+  for (const name of [...numeric].sort()) {
+    lines.push(`(declare-const ${smtSymbol(name)} Real)`);
+  }
+  for (const name of [...booleans].sort()) {
+    lines.push(`(declare-const ${smtSymbol(name)} Bool)`);
+  }
+  for (const formula of formulas) {
+    lines.push(`(assert ${smtFormula(formula)})`);
+  }
+  lines.push('(check-sat)', '(get-model)');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parses the output of an SMT-LIB 2 `(check-sat)` / `(get-model)` run.
+ *
+ * @param output - Solver stdout.
+ * @returns The outcome; values the parser does not understand are left out of the model.
+ */
+export function parseSmtOutput(output: string): ConstraintSolverResult {
+  const [status = '', ...rest] = output.trim().split('\n');
+  switch (status.trim()) {
+    case 'unsat':
+      return { status: 'unsat' };
+    case 'sat':
+      return { status: 'sat', model: parseSmtModel(rest.join('\n')) };
+    default:
+      return {
+        status: 'unknown',
+        reason: status.trim() === '' ? 'SMT solver gave no answer' : status.trim(),
+      };
+  }
+}
+
+function checkLinear(formulas: readonly ConstraintFormula[]): ConstraintSolverResult {
+  let disjuncts: Literal[][];
+  try {
+    disjuncts = toDnf({ kind: 'and', operands: formulas }, true);
+  } catch (error) {
+    if (error instanceof DnfLimitExceeded) {
+      return {
+        status: 'unknown',
+        reason: `Formula expands to more than ${String(MAX_DNF_TERMS)} cases`,
+      };
+    }
+    throw error;
+  }
+
+  let unknown: string | undefined;
+  for (const literals of disjuncts) {
+    const result = checkConjunction(literals);
+    if (result.status === 'sat') {
+      return result;
+    }
+    if (result.status === 'unknown') {
+      unknown = result.reason;
+    }
+  }
+  return unknown !== undefined ? { status: 'unknown', reason: unknown } : { status: 'unsat' };
+}
+
+/**
+ * Expands a formula (or its negation, when `positive` is false) to a list of
+ * conjunctions of literals.
+ */
+function toDnf(formula: ConstraintFormula, positive: boolean): Literal[][] {
+  switch (formula.kind) {
+    case 'literal':
+      return formula.value === positive ? [[]] : [];
+    case 'bool':
+      return [[{ kind: 'bool', name: formula.name, value: positive }]];
+    case 'not':
+      return toDnf(formula.operand, !positive);
+    case 'linear':
+      return positive
+        ? [[formula]]
+        : negateLinear(formula.constraint).map((constraint) => [{ kind: 'linear', constraint }]);
+    case 'and':
+    case 'or': {
+      const parts = formula.operands.map((operand) => toDnf(operand, positive));
+      if ((formula.kind === 'or') === positive) {
+        return limit(parts.flat());
+      }
+      return parts.reduce<Literal[][]>(
+        (product, part) =>
+          limit(product.flatMap((left) => part.map((right) => [...left, ...right]))),
+        [[]]
+      );
+    }
+  }
+}
+
+function limit(disjuncts: Literal[][]): Literal[][] {
+  if (disjuncts.length > MAX_DNF_TERMS) {
+    throw new DnfLimitExceeded();
+  }
+  return disjuncts;
+}
+
+/**
+ * Negates `e op 0`: not(e < 0) is -e <= 0, not(e <= 0) is -e < 0, and
+ * not(e = 0) is e < 0 or -e < 0.
+ */
+function negateLinear(constraint: LinearConstraint): LinearConstraint[] {
+  const flipped = scaleConstraint(constraint, neg(ONE));
+  switch (constraint.operator) {
+    case '<':
+      return [{ ...flipped, operator: '<=' }];
+    case '<=':
+      return [{ ...flipped, operator: '<' }];
+    case '=':
+      return [
+        { ...constraint, operator: '<' },
+        { ...flipped, operator: '<' },
+      ];
+  }
+}
+
+function scaleConstraint(constraint: LinearConstraint, factor: Rational): LinearConstraint {
+  return {
+    coefficients: new Map(
+      [...constraint.coefficients].map(([name, coefficient]) => [name, mul(coefficient, factor)])
+    ),
+    constant: mul(constraint.constant, factor),
+    operator: constraint.operator,
+  };
+}
+
+function checkConjunction(literals: readonly Literal[]): ConstraintSolverResult {
+  const model: Record<string, string> = {};
+  const booleans = new Map<string, boolean>();
+  const inequalities: Inequality[] = [];
+
+  for (const literal of literals) {
+    if (literal.kind === 'bool') {
+      if (booleans.get(literal.name) === !literal.value) {
+        return { status: 'unsat' };
+      }
+      booleans.set(literal.name, literal.value);
+      continue;
+    }
+    const { coefficients, constant, operator } = literal.constraint;
+    inequalities.push({ coefficients, constant, strict: operator === '<' });
+    if (operator === '=') {
+      const flipped = scaleConstraint(literal.constraint, neg(ONE));
+      inequalities.push({ ...flipped, strict: false });
+    }
+  }
+
+  const assignment = eliminate(inequalities);
+  if (typeof assignment === 'string') {
+    return assignment === 'unsat' ? { status: 'unsat' } : { status: 'unknown', reason: assignment };
+  }
+  for (const [name, value] of [...assignment].sort(([a], [b]) => a.localeCompare(b))) {
+    model[name] = formatRational(value);
+  }
+  for (const [name, value] of [...booleans].sort(([a], [b]) => a.localeCompare(b))) {
+    model[name] = String(value);
+  }
+  return { status: 'sat', model };
+}
+
+/**
+ * Decides a system of inequalities by Fourier-Motzkin elimination.
+ *
+ * @returns A satisfying assignment, 'unsat', or the reason elimination gave up.
+ */
+function eliminate(system: readonly Inequality[]): Map<string, Rational> | string {
+  const variables = [...new Set(system.flatMap((i) => [...i.coefficients.keys()]))].sort();
+  const steps: { variable: string; bounds: Inequality[] }[] = [];
+  let current = dedupe(system);
+
+  for (const variable of variables) {
+    const bounds = current.filter((i) => i.coefficients.has(variable));
+    const rest = current.filter((i) => !i.coefficients.has(variable));
+    const upper = bounds.filter((i) => compare(coefficientOf(i, variable), ZERO) > 0);
+    const lower = bounds.filter((i) => compare(coefficientOf(i, variable), ZERO) < 0);
+
+    for (const up of upper) {
+      for (const low of lower) {
+        // Scale both to coefficient ±1 on the variable and add, cancelling it
+        const combined = addInequalities(
+          scaleInequality(up, div(ONE, coefficientOf(up, variable))),
+          scaleInequality(low, div(ONE, neg(coefficientOf(low, variable))))
+        );
+        rest.push(combined);
+      }
+    }
+
+    current = dedupe(rest);
+    if (current.length > MAX_ELIMINATION_CONSTRAINTS) {
+      return `Elimination produced more than ${String(MAX_ELIMINATION_CONSTRAINTS)} constraints`;
+    }
+    steps.push({ variable, bounds });
+  }
+
+  for (const { constant, strict } of current) {
+    const sign = compare(constant, ZERO);
+    if (strict ? sign >= 0 : sign > 0) {
+      return 'unsat';
+    }
+  }
+
+  const assignment = new Map<string, Rational>();
+  for (const { variable, bounds } of steps.reverse()) {
+    assignment.set(variable, chooseValue(variable, bounds, assignment));
+  }
+  return assignment;
+}
+
+/**
+ * Picks a value for a variable within the bounds left by elimination,
+ * preferring integers.
+ */
+function chooseValue(
+  variable: string,
+  bounds: readonly Inequality[],
+  assignment: ReadonlyMap<string, Rational>
+): Rational {
+  let lower: { value: Rational; strict: boolean } | undefined;
+  let upper: { value: Rational; strict: boolean } | undefined;
+
+  for (const bound of bounds) {
+    const coefficient = coefficientOf(bound, variable);
+    let rest = bound.constant;
+    for (const [name, c] of bound.coefficients) {
+      if (name !== variable) {
+        rest = add(rest, mul(c, assignment.get(name) ?? ZERO));
+      }
+    }
+    // coefficient * x + rest < 0  =>  x < -rest / coefficient (flipped when negative)
+    const value = div(neg(rest), coefficient);
+    if (compare(coefficient, ZERO) > 0) {
+      const order = upper === undefined ? -1 : compare(value, upper.value);
+      if (order < 0 || (order === 0 && bound.strict)) {
+        upper = { value, strict: bound.strict };
+      }
+    } else {
+      const order = lower === undefined ? 1 : compare(value, lower.value);
+      if (order > 0 || (order === 0 && bound.strict)) {
+        lower = { value, strict: bound.strict };
+      }
+    }
+  }
+
+  const fitsUpper = (v: Rational): boolean =>
+    upper === undefined ||
+    (upper.strict ? compare(v, upper.value) < 0 : compare(v, upper.value) <= 0);
+  const fitsLower = (v: Rational): boolean =>
+    lower === undefined ||
+    (lower.strict ? compare(v, lower.value) > 0 : compare(v, lower.value) >= 0);
+
+  const candidates: Rational[] = [ZERO];
+  if (lower !== undefined) {
+    candidates.push(integerAbove(lower.value, lower.strict));
+  }
+  if (upper !== undefined) {
+    candidates.push(neg(integerAbove(neg(upper.value), upper.strict)));
+  }
+  const integer = candidates.find((v) => fitsLower(v) && fitsUpper(v));
+  if (integer !== undefined) {
+    return integer;
+  }
+  if (lower !== undefined && upper !== undefined) {
+    return compare(lower.value, upper.value) === 0
+      ? lower.value
+      : div(add(lower.value, upper.value), rational(2n));
+  }
+  return lower?.value ?? upper?.value ?? ZERO;
+}
+
+/**
+ * The least integer greater than (or, when not strict, equal to) a value.
+ */
+function integerAbove(value: Rational, strict: boolean): Rational {
+  const floor =
+    value.num >= 0n ? value.num / value.den : -((-value.num + value.den - 1n) / value.den);
+  const isInteger = value.den === 1n;
+  return rational(isInteger && !strict ? floor : floor + 1n);
+}
+
+function coefficientOf(inequality: Inequality, variable: string): Rational {
+  return inequality.coefficients.get(variable) ?? ZERO;
+}
+
+function scaleInequality(inequality: Inequality, factor: Rational): Inequality {
+  return {
+    coefficients: new Map(
+      [...inequality.coefficients].map(([name, coefficient]) => [name, mul(coefficient, factor)])
+    ),
+    constant: mul(inequality.constant, factor),
+    strict: inequality.strict,
+  };
+}
+
+function addInequalities(a: Inequality, b: Inequality): Inequality {
+  const coefficients = new Map(a.coefficients);
+  for (const [name, coefficient] of b.coefficients) {
+    const sum = add(coefficients.get(name) ?? ZERO, coefficient);
+    if (isZero(sum)) {
+      coefficients.delete(name);
+    } else {
+      coefficients.set(name, sum);
+    }
+  }
+  return {
+    coefficients,
+    constant: add(a.constant, b.constant),
+    strict: a.strict || b.strict,
+  };
+}
+
+function dedupe(inequalities: readonly Inequality[]): Inequality[] {
+  const seen = new Map<string, Inequality>();
+  for (const inequality of inequalities) {
+    const key = [...inequality.coefficients]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, c]) => `${name}:${formatRational(c)}`)
+      .join(',');
+    const existing = seen.get(key);
+    // Keep only the tightest constant per left-hand side
+    const tighter =
+      existing === undefined ||
+      compare(inequality.constant, existing.constant) > 0 ||
+      (compare(inequality.constant, existing.constant) === 0 && inequality.strict);
+    if (tighter) {
+      seen.set(key, inequality);
+    }
+  }
+  return [...seen.values()];
+}
+
+function smtSymbol(name: string): string {
+  return /^[A-Za-z_][\w]*$/.test(name) ? name : `|${name}|`;
+}
+
+function smtNumber(value: Rational): string {
+  const magnitude =
+    value.den === 1n
+      ? `${String(value.num < 0n ? -value.num : value.num)}.0`
+      : `(/ ${String(value.num < 0n ? -value.num : value.num)}.0 ${String(value.den)}.0)`;
+  return value.num < 0n ? `(- ${magnitude})` : magnitude;
+}
+
+function smtFormula(formula: ConstraintFormula): string {
+  switch (formula.kind) {
+    case 'literal':
+      return String(formula.value);
+    case 'bool':
+      return smtSymbol(formula.name);
+    case 'not':
+      return `(not ${smtFormula(formula.operand)})`;
+    case 'and':
+    case 'or':
+      return formula.operands.length === 0
+        ? String(formula.kind === 'and')
+        : `(${formula.kind} ${formula.operands.map(smtFormula).join(' ')})`;
+    case 'linear': {
+      const { coefficients, constant, operator } = formula.constraint;
+      const terms = [...coefficients].map(([name, c]) =>
+        compare(c, ONE) === 0 ? smtSymbol(name) : `(* ${smtNumber(c)} ${smtSymbol(name)})`
+      );
+      if (!isZero(constant)) {
+        terms.push(smtNumber(constant));
+      }
+      const sum = terms.length === 1 ? (terms[0] ?? '0.0') : `(+ ${terms.join(' ')})`;
+      return `(${operator} ${sum} 0.0)`;
+    }
+  }
+}
+
+type SExpression = string | SExpression[];
+
+/**
+ * Reads `(define-fun name () Sort value)` entries from a model.
+ */
+function parseSmtModel(text: string): ConstraintModel {
+  const tokens = text.match(/\(|\)|\|[^|]*\||[^\s()]+/g) ?? [];
+  let position = 0;
+  const read = (): SExpression => {
+    const token = tokens[position++] ?? ')';
+    if (token !== '(') {
+      return token.replace(/^\|(.*)\|$/, '$1');
+    }
+    const list: SExpression[] = [];
+    while (position < tokens.length && tokens[position] !== ')') {
+      list.push(read());
+    }
+    position++;
+    return list;
+  };
+
+  // z3 wraps the definitions in a bare list, older solvers in `(model ...)`
+  const model = new Map<string, string>();
+  const visit = (expression: SExpression): void => {
+    if (!Array.isArray(expression)) {
+      return;
+    }
+    if (expression[0] !== 'define-fun') {
+      expression.forEach(visit);
+      return;
+    }
+    const [, name, , , value] = expression;
+    const evaluated = value !== undefined ? evaluateSmtValue(value) : undefined;
+    if (typeof name === 'string' && evaluated !== undefined) {
+      model.set(name, evaluated);
+    }
+  };
+  while (position < tokens.length) {
+    visit(read());
+  }
+  return Object.fromEntries([...model].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function evaluateSmtValue(value: SExpression): string | undefined {
+  if (value === 'true' || value === 'false') {
+    return value;
+  }
+  const number = evaluateSmtNumber(value);
+  return number !== undefined ? formatRational(number) : undefined;
+}
+
+function evaluateSmtNumber(value: SExpression): Rational | undefined {
+  if (typeof value === 'string') {
+    return parseDecimal(value);
+  }
+  const [operator, left, right] = value;
+  const a = left !== undefined ? evaluateSmtNumber(left) : undefined;
+  if (a === undefined) {
+    return undefined;
+  }
+  if (operator === '-' && right === undefined) {
+    return neg(a);
+  }
+  const b = right !== undefined ? evaluateSmtNumber(right) : undefined;
+  if (b === undefined) {
+    return undefined;
+  }
+  if (operator === '/' && !isZero(b)) {
+    return div(a, b);
+  }
+  if (operator === '-') {
+    return sub(a, b);
+  }
+  return undefined;
+}
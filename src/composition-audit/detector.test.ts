@@ -815,4 +815,66 @@ describe('Contradiction Detector', () => {
       expect(formatted).toContain('Proceeding to Injection');
     });
   });
+
+  describe('constraint solver pass', () => {
+    const noContradictions = JSON.stringify({
+      hasContradictions: false,
+      contradictions: [],
+      summary: 'Composition appears consistent',
+    });
+
+    function createConflictingInput(): CompositionAuditInput {
+      const input = createTestInput();
+      const [contract] = input.contracts;
+      if (contract === undefined) {
+        throw new Error('Test input has no contract');
+      }
+      return {
+        ...input,
+        contracts: [{ ...contract, requires: ['amount > 0', 'amount <= -1'] }],
+      };
+    }
+
+    it('reports proven contradictions the auditor missed', async () => {
+      const { router, promptMock } = createMockRouter(noContradictions);
+
+      const result = await detectContradictions(createConflictingInput(), router);
+
+      expect(promptMock).toHaveBeenCalledTimes(1);
+      expect(result.hasCriticalContradictions).toBe(true);
+      expect(result.contradictions).toHaveLength(1);
+      expect(result.contradictions[0]?.id).toMatch(/^INVARIANT_SOLVER_[0-9a-f]{8}$/);
+      expect(result.summary).toBe(
+        'Composition appears consistent\n\n[Constraint Solver]: Proved 1 contradiction(s).'
+      );
+    });
+
+    it('keeps solver contradictions when the auditor fails', async () => {
+      const { router } = createErrorRouter();
+
+      const result = await detectContradictions(createConflictingInput(), router);
+
+      expect(result.contradictions).toHaveLength(1);
+      expect(canProceedToInjection(result)).toBe(false);
+    });
+
+    it('produces the same contradiction on every run', async () => {
+      const { router } = createMockRouter(noContradictions);
+
+      const first = await detectContradictions(createConflictingInput(), router);
+      const second = await detectContradictions(createConflictingInput(), router);
+
+      expect(second.contradictions).toEqual(first.contradictions);
+    });
+
+    it('can be disabled', async () => {
+      const { router } = createMockRouter(noContradictions);
+
+      const result = await detectContradictions(createConflictingInput(), router, {
+        enableConstraintSolver: false,
+      });
+
+      expect(result.hasContradictions).toBe(false);
+    });
+  });
 });
@@ -28,6 +28,8 @@ import {
   createCrossVerificationUserPrompt,
   generateContradictionId,
 } from './prompts.js';
+import { linearArithmeticSolver } from './constraint-solver.js';
+import { runConstraintPrepass } from './constraint-prepass.js';
 
 /**
  * Default options for composition audit.
@@ -38,6 +40,8 @@ const DEFAULT_OPTIONS: Required<CompositionAuditOptions> = {
   timeoutMs: 120000,
 
   logger: (_message: string) => {},
+  enableConstraintSolver: true,
+  constraintSolver: linearArithmeticSolver,
 };
 
 /**
@@ -469,7 +473,10 @@ function isComplexCase(contradictions: readonly Contradiction[], threshold: numb
 /**
  * Performs contradiction detection on the composition.
  *
- * Uses auditor_model to analyze constraints, contracts, and witnesses for
+ * First runs the deterministic constraint solver pass over the clauses it can
+ * express (see {@link runConstraintPrepass}); its contradictions are proven,
+ * so they are kept as-is and not sent for cross-verification. Then uses
+ * auditor_model to analyze constraints, contracts, and witnesses for
  * logical contradictions that would make implementation impossible.
  *
  * @param input - The composition audit input.
@@ -514,7 +521,8 @@ export async function detectContradictions(
     (input.constraints.security?.length ?? 0) > 0 ||
     input.contracts.length > 0 ||
     input.witnesses.length > 0 ||
-    Object.keys(input.claims).length > 0;
+    Object.keys(input.claims).length > 0 ||
+    Object.keys(input.dataModels ?? {}).length > 0;
 
   if (!hasContent) {
     return {
@@ -527,6 +535,20 @@ export async function detectContradictions(
     };
   }
 
+  // Deterministic solver pass
+  let solved: readonly Contradiction[] = [];
+  if (opts.enableConstraintSolver) {
+    const prepass = await runConstraintPrepass(input, { solver: opts.constraintSolver });
+    solved = prepass.contradictions;
+    for (const reason of prepass.undecided) {
+      opts.logger(`Constraint solver could not decide ${reason}`);
+    }
+  }
+  const solverSummary =
+    solved.length > 0
+      ? `\n\n[Constraint Solver]: Proved ${String(solved.length)} contradiction(s).`
+      : '';
+
   // Call auditor_model to detect contradictions
   const auditorPrompt = `${createContradictionAuditorSystemPrompt()}\n\n${createContradictionAuditorUserPrompt(input)}`;
 
@@ -537,10 +559,10 @@ export async function detectContradictions(
       `Composition audit failed: ${auditorResult.error.message}. Proceeding without contradiction check.`
     );
     return {
-      hasContradictions: false,
-      contradictions: [],
-      hasCriticalContradictions: false,
-      summary: `Auditor analysis failed: ${auditorResult.error.message}`,
+      hasContradictions: solved.length > 0,
+      contradictions: solved,
+      hasCriticalContradictions: solved.length > 0,
+      summary: `Auditor analysis failed: ${auditorResult.error.message}${solverSummary}`,
       auditedAt: new Date().toISOString(),
       crossVerified: false,
     };
@@ -552,16 +574,16 @@ export async function detectContradictions(
   // If no contradictions found, return immediately
   if (!parsed.hasContradictions || parsed.contradictions.length === 0) {
     return {
-      hasContradictions: false,
-      contradictions: [],
-      hasCriticalContradictions: false,
-      summary: parsed.summary,
+      hasContradictions: solved.length > 0,
+      contradictions: solved,
+      hasCriticalContradictions: solved.length > 0,
+      summary: `${parsed.summary}${solverSummary}`,
       auditedAt: new Date().toISOString(),
       crossVerified: false,
     };
   }
 
-  let finalContradictions = parsed.contradictions;
+  let finalContradictions: readonly Contradiction[] = parsed.contradictions;
   let crossVerified = false;
 
   // Perform cross-verification for complex cases
@@ -588,6 +610,8 @@ export async function detectContradictions(
     }
   }
 
+  finalContradictions = [...solved, ...finalContradictions];
+
   // Determine if there are critical contradictions
   const hasCriticalContradictions = finalContradictions.some((c) => c.severity === 'critical');
 
@@ -595,7 +619,7 @@ export async function detectContradictions(
     hasContradictions: finalContradictions.length > 0,
     contradictions: finalContradictions,
     hasCriticalContradictions,
-    summary: parsed.summary,
+    summary: `${parsed.summary}${solverSummary}`,
     auditedAt: new Date().toISOString(),
     crossVerified,
   };
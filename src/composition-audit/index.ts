@@ -11,6 +11,7 @@
  * - Invariant contradiction detection (conflicting state requirements)
  * - Precondition gap detection (missing prerequisites)
  * - Postcondition conflict detection (conflicting guarantees)
+ * - Deterministic constraint solver pass with concrete witnesses, before the model-based audit
  * - Structured ContradictionReport for programmatic handling
  * - Report persistence to project directory for audit trails
  * - Retry logic for malformed LLM output with clarification prompts
@@ -27,3 +28,6 @@ export * from './detector.js';
 export * from './report-parser.js';
 export * from './report-storage.js';
 export * from './phase-regression.js';
+export * from './constraint-ir.js';
+export * from './constraint-solver.js';
+export * from './constraint-prepass.js';
@@ -0,0 +1,129 @@
+/**
+ * Exact rational arithmetic for the constraint solver.
+ *
+ * Spec constraints use decimal literals such as `0.1`, which binary floating
+ * point cannot represent; eliminating variables over floats would report
+ * spurious contradictions at bound edges. Rationals keep every step exact.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * A normalized fraction: `den` is positive and shares no factor with `num`.
+ */
+export interface Rational {
+  readonly num: bigint;
+  readonly den: bigint;
+}
+
+export const ZERO: Rational = { num: 0n, den: 1n };
+export const ONE: Rational = { num: 1n, den: 1n };
+
+function gcd(a: bigint, b: bigint): bigint {
+  let x = a < 0n ? -a : a;
+  let y = b < 0n ? -b : b;
+  while (y !== 0n) {
+    [x, y] = [y, x % y];
+  }
+  return x;
+}
+
+/**
+ * Creates a normalized rational.
+ *
+ * @param num - Numerator.
+ * @param den - Denominator (must not be zero).
+ * @returns The rational num/den.
+ */
+export function rational(num: bigint, den = 1n): Rational {
+  if (den === 0n) {
+    throw new RangeError('Rational with zero denominator');
+  }
+  const sign = den < 0n ? -1n : 1n;
+  const divisor = gcd(num, den);
+  return { num: (sign * num) / divisor, den: (sign * den) / divisor };
+}
+
+/**
+ * Parses a decimal literal such as `42`, `0.25` or `1e3`.
+ *
+ * @param text - The literal.
+ * @returns The exact value, or undefined if the text is not a decimal literal.
+ */
+export function parseDecimal(text: string): Rational | undefined {
+  // eslint-disable-next-line security/detect-unsafe-regex -- Anchored; each group starts with a distinct literal
+  const match = /^(\d+)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/.exec(text);
+  if (match === null) {
+    return undefined;
+  }
+  const fraction = match[2] ?? '';
+  const exponent = Number(match[3] ?? '0') - fraction.length;
+  const digits = BigInt((match[1] ?? '') + fraction);
+  return exponent >= 0
+    ? rational(digits * 10n ** BigInt(exponent))
+    : rational(digits, 10n ** BigInt(-exponent));
+}
+
+export function add(a: Rational, b: Rational): Rational {
+  return rational(a.num * b.den + b.num * a.den, a.den * b.den);
+}
+
+export function sub(a: Rational, b: Rational): Rational {
+  return add(a, neg(b));
+}
+
+export function mul(a: Rational, b: Rational): Rational {
+  return rational(a.num * b.num, a.den * b.den);
+}
+
+export function div(a: Rational, b: Rational): Rational {
+  return rational(a.num * b.den, a.den * b.num);
+}
+
+export function neg(a: Rational): Rational {
+  return { num: -a.num, den: a.den };
+}
+
+/**
+ * Compares two rationals.
+ *
+ * @returns A negative number, zero or a positive number as a is less than, equal to or greater than b.
+ */
+export function compare(a: Rational, b: Rational): number {
+  const difference = a.num * b.den - b.num * a.den;
+  return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+}
+
+export function isZero(a: Rational): boolean {
+  return a.num === 0n;
+}
+
+/**
+ * Formats a rational as a decimal when it terminates, otherwise as `num/den`.
+ *
+ * @param a - The value.
+ * @returns Display text, e.g. `-1`, `0.5` or `1/3`.
+ */
+export function formatRational(a: Rational): string {
+  let den = a.den;
+  let scale = 0;
+  for (const factor of [2n, 5n]) {
+    while (den % factor === 0n) {
+      den /= factor;
+      scale++;
+    }
+  }
+  if (den !== 1n) {
+    return `${String(a.num)}/${String(a.den)}`;
+  }
+  if (a.den === 1n) {
+    return String(a.num);
+  }
+
+  // a.den divides 10^scale, so the value has at most `scale` decimal places
+  const scaled = (a.num * 10n ** BigInt(scale)) / a.den;
+  const sign = scaled < 0n ? '-' : '';
+  const digits = String(scaled < 0n ? -scaled : scaled).padStart(scale + 1, '0');
+  const fraction = digits.slice(-scale).replace(/0+$/, '');
+  return `${sign}${digits.slice(0, -scale)}.${fraction}`;
+}
@@ -7,9 +7,10 @@
  * @packageDocumentation
  */
 
-import type { SpecClaim, SpecConstraints } from '../spec/types.js';
+import type { SpecClaim, SpecConstraints, SpecDataModel } from '../spec/types.js';
 import type { GeneratedContract } from '../lattice/contract-attacher.js';
 import type { WitnessCodeResult } from '../lattice/witness-generator.js';
+import type { ConstraintSolverBackend } from './constraint-solver.js';
 
 /**
  * Types of contradictions the audit can detect.
@@ -99,6 +100,8 @@ export interface CompositionAuditInput {
   readonly witnesses: readonly WitnessCodeResult[];
   /** Spec claims for verification. */
   readonly claims: Record<string, SpecClaim>;
+  /** Data models whose field constraints and witness-typed fields the constraint solver checks. */
+  readonly dataModels?: Readonly<Record<string, SpecDataModel>>;
 }
 
 /**
@@ -131,6 +134,10 @@ export interface CompositionAuditOptions {
   readonly timeoutMs?: number;
   /** Custom logger for warnings. */
   readonly logger?: (message: string) => void;
+  /** Whether to run the deterministic constraint solver before the model-based audit. Default: true. */
+  readonly enableConstraintSolver?: boolean;
+  /** Solver backend for the constraint pass. Default: the bundled linear-arithmetic solver. */
+  readonly constraintSolver?: ConstraintSolverBackend;
 }
 
 /**
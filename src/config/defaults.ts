@@ -7,11 +7,15 @@
 import type {
   CliSettingsConfig,
   Config,
+  CostConfig,
+  InjectionConfig,
   MassDefectConfig,
   MassDefectTargetsConfig,
   ModelAssignments,
+  ModelCacheConfig,
   NotificationConfig,
   PathConfig,
+  RouterConfig,
   ThresholdConfig,
 } from './types.js';
 
@@ -75,6 +79,47 @@ export const DEFAULT_MASS_DEFECT_TARGETS: MassDefectTargetsConfig = {
 export const DEFAULT_MASS_DEFECT: MassDefectConfig = {
   targets: DEFAULT_MASS_DEFECT_TARGETS,
   catalog_path: './mass-defect-catalog',
+  differential: false,
+  differential_runs: 100,
+};
+
+/**
+ * Default Injection configuration (sequential).
+ */
+export const DEFAULT_INJECTION_CONFIG: InjectionConfig = {
+  max_concurrency: 1,
+};
+
+/**
+ * Default model cache configuration.
+ *
+ * Only structure and audit responses are replayed by default; implementation
+ * retries deliberately re-prompt and must be opted in.
+ */
+export const DEFAULT_MODEL_CACHE_CONFIG: ModelCacheConfig = {
+  enabled: true,
+  directory: '.criticality/cache/models',
+  task_types: ['structure', 'audit'],
+};
+
+/**
+ * Default cost configuration (no budget, no prices).
+ */
+export const DEFAULT_COST_CONFIG: CostConfig = {
+  budget_usd: 0,
+  prices: {},
+};
+
+/**
+ * Default model backend configuration (the Claude Code CLI).
+ */
+export const DEFAULT_ROUTER_CONFIG: RouterConfig = {
+  backend: 'claude-code',
+  base_url: 'https://api.anthropic.com',
+  api_key_env: 'ANTHROPIC_API_KEY',
+  fixtures: 'off',
+  fixtures_dir: 'test-fixtures/model-runs',
+  fallback_backends: [],
 };
 
 /**
@@ -95,5 +140,9 @@ export const DEFAULT_CONFIG: Config = {
   thresholds: DEFAULT_THRESHOLDS,
   notifications: DEFAULT_NOTIFICATIONS,
   mass_defect: DEFAULT_MASS_DEFECT,
+  injection: DEFAULT_INJECTION_CONFIG,
+  model_cache: DEFAULT_MODEL_CACHE_CONFIG,
+  cost: DEFAULT_COST_CONFIG,
+  router: DEFAULT_ROUTER_CONFIG,
   cli: DEFAULT_CLI_CONFIG,
 };
@@ -83,6 +83,48 @@ describe('Environment Variable Overrides', () => {
         expect(result.overrides.notifications?.endpoint).toBe('https://hooks.example.com');
       });
 
+      it('should read injection env vars', () => {
+        const env = { CRITICALITY_INJECTION_MAX_CONCURRENCY: '4' };
+        const result = readEnvOverrides(env);
+
+        expect(result.overrides.injection?.max_concurrency).toBe(4);
+        expect(result.appliedVars).toEqual(['CRITICALITY_INJECTION_MAX_CONCURRENCY']);
+      });
+
+      it('should read model cache env vars', () => {
+        const env = {
+          CRITICALITY_MODEL_CACHE_ENABLED: 'false',
+          CRITICALITY_MODEL_CACHE_DIRECTORY: '/tmp/cache',
+        };
+        const result = readEnvOverrides(env);
+
+        expect(result.overrides.model_cache?.enabled).toBe(false);
+        expect(result.overrides.model_cache?.directory).toBe('/tmp/cache');
+      });
+
+      it('should read cost env vars', () => {
+        const env = { CRITICALITY_COST_BUDGET_USD: '12.5' };
+        const result = readEnvOverrides(env);
+
+        expect(result.overrides.cost?.budget_usd).toBe(12.5);
+        expect(result.appliedVars).toEqual(['CRITICALITY_COST_BUDGET_USD']);
+      });
+
+      it('should read router env vars', () => {
+        const env = {
+          CRITICALITY_ROUTER_BACKEND: 'anthropic',
+          CRITICALITY_ROUTER_BASE_URL: 'http://localhost:9000',
+          CRITICALITY_ROUTER_FIXTURES: 'replay',
+        };
+        const result = readEnvOverrides(env);
+
+        expect(result.overrides.router).toEqual({
+          backend: 'anthropic',
+          base_url: 'http://localhost:9000',
+          fixtures: 'replay',
+        });
+      });
+
       it('should ignore unset env vars', () => {
         const env = { CRITICALITY_MODEL: 'test-model' };
         const result = readEnvOverrides(env);
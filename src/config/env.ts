@@ -131,6 +131,54 @@ const ENV_VAR_MAPPINGS: Record<
     type: 'number',
   },
 
+  // Injection configuration
+  CRITICALITY_INJECTION_MAX_CONCURRENCY: {
+    section: 'injection',
+    field: 'max_concurrency',
+    type: 'number',
+  },
+
+  // Model cache configuration
+  CRITICALITY_MODEL_CACHE_ENABLED: {
+    section: 'model_cache',
+    field: 'enabled',
+    type: 'boolean',
+  },
+  CRITICALITY_MODEL_CACHE_DIRECTORY: {
+    section: 'model_cache',
+    field: 'directory',
+    type: 'string',
+  },
+
+  // Cost configuration
+  CRITICALITY_COST_BUDGET_USD: {
+    section: 'cost',
+    field: 'budget_usd',
+    type: 'number',
+  },
+
+  // Router configuration
+  CRITICALITY_ROUTER_BACKEND: {
+    section: 'router',
+    field: 'backend',
+    type: 'string',
+  },
+  CRITICALITY_ROUTER_BASE_URL: {
+    section: 'router',
+    field: 'base_url',
+    type: 'string',
+  },
+  CRITICALITY_ROUTER_FIXTURES: {
+    section: 'router',
+    field: 'fixtures',
+    type: 'string',
+  },
+  CRITICALITY_ROUTER_FIXTURES_DIR: {
+    section: 'router',
+    field: 'fixtures_dir',
+    type: 'string',
+  },
+
   // Notification configuration
   CRITICALITY_NOTIFICATIONS_ENABLED: {
     section: 'notifications',
@@ -374,6 +422,22 @@ function mergeConfig(base: Config, partial: PartialConfig): Config {
         ...partial.mass_defect?.targets,
       },
     },
+    injection: {
+      ...base.injection,
+      ...partial.injection,
+    },
+    model_cache: {
+      ...base.model_cache,
+      ...partial.model_cache,
+    },
+    cost: {
+      ...base.cost,
+      ...partial.cost,
+    },
+    router: {
+      ...base.router,
+      ...partial.router,
+    },
     cli: {
       ...base.cli,
       ...partial.cli,
@@ -470,6 +534,46 @@ export function getEnvVarDocumentation(): Record<string, { description: string;
       type: 'string',
     },
 
+    // Injection overrides
+    CRITICALITY_INJECTION_MAX_CONCURRENCY: {
+      description: 'Override maximum number of functions implemented in parallel',
+      type: 'number',
+    },
+
+    // Model cache overrides
+    CRITICALITY_MODEL_CACHE_ENABLED: {
+      description: 'Enable or disable the model response cache (true/false)',
+      type: 'boolean',
+    },
+    CRITICALITY_MODEL_CACHE_DIRECTORY: {
+      description: 'Override model response cache directory',
+      type: 'string',
+    },
+
+    // Cost overrides
+    CRITICALITY_COST_BUDGET_USD: {
+      description: 'Override run budget in USD (0 disables)',
+      type: 'number',
+    },
+
+    // Router overrides
+    CRITICALITY_ROUTER_BACKEND: {
+      description: "Override the model backend ('claude-code' or 'anthropic')",
+      type: 'string',
+    },
+    CRITICALITY_ROUTER_BASE_URL: {
+      description: 'Override the Messages API base URL',
+      type: 'string',
+    },
+    CRITICALITY_ROUTER_FIXTURES: {
+      description: "Record or replay model calls ('off', 'record' or 'replay')",
+      type: 'string',
+    },
+    CRITICALITY_ROUTER_FIXTURES_DIR: {
+      description: 'Override the model fixture directory',
+      type: 'string',
+    },
+
     // Notification overrides
     CRITICALITY_NOTIFICATIONS_ENABLED: {
       description: 'Enable or disable notifications (true/false)',
@@ -13,22 +13,33 @@ export { ConfigParseError, getDefaultConfig, parseConfig } from './parser.js';
 export type {
   CliSettingsConfig,
   Config,
+  CostConfig,
+  InjectionConfig,
   MassDefectConfig,
   MassDefectTargetsConfig,
   ModelAssignments,
+  ModelCacheConfig,
+  ModelPriceConfig,
   NotificationConfig,
   PartialConfig,
   PathConfig,
+  RouterBackend,
+  RouterConfig,
+  RouterFixturesMode,
   ThresholdConfig,
 } from './types.js';
 export {
   DEFAULT_CLI_CONFIG,
   DEFAULT_CONFIG,
+  DEFAULT_COST_CONFIG,
+  DEFAULT_INJECTION_CONFIG,
   DEFAULT_MASS_DEFECT,
   DEFAULT_MASS_DEFECT_TARGETS,
   DEFAULT_MODEL_ASSIGNMENTS,
+  DEFAULT_MODEL_CACHE_CONFIG,
   DEFAULT_NOTIFICATIONS,
   DEFAULT_PATHS,
+  DEFAULT_ROUTER_CONFIG,
   DEFAULT_THRESHOLDS,
 } from './defaults.js';
 export {
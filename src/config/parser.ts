@@ -8,22 +8,31 @@ import * as TOML from '@iarna/toml';
 import {
   DEFAULT_CLI_CONFIG,
   DEFAULT_CONFIG,
+  DEFAULT_COST_CONFIG,
+  DEFAULT_INJECTION_CONFIG,
   DEFAULT_MASS_DEFECT,
   DEFAULT_MASS_DEFECT_TARGETS,
   DEFAULT_MODEL_ASSIGNMENTS,
+  DEFAULT_MODEL_CACHE_CONFIG,
   DEFAULT_NOTIFICATIONS,
   DEFAULT_PATHS,
+  DEFAULT_ROUTER_CONFIG,
   DEFAULT_THRESHOLDS,
 } from './defaults.js';
 import type {
   CliSettingsConfig,
   Config,
+  CostConfig,
+  InjectionConfig,
   MassDefectConfig,
   MassDefectTargetsConfig,
   ModelAssignments,
+  ModelCacheConfig,
+  ModelPriceConfig,
   NotificationChannelConfig,
   NotificationConfig,
   PathConfig,
+  RouterConfig,
   ThresholdConfig,
 } from './types.js';
 import { isValidCronExpression } from '../notifications/cron.js';
@@ -141,6 +150,55 @@ function validateUrl(url: string, fieldPath: string): string {
   }
 }
 
+/**
+ * Validates that an SMTP endpoint URL is valid.
+ *
+ * Credentials belong in `smtp_username`/`smtp_password`, not the URL, so they
+ * never appear in notification history.
+ *
+ * @param url - URL string to validate.
+ * @param fieldPath - Path to the field for error messages.
+ * @returns The validated URL string.
+ * @throws ConfigParseError if URL is invalid.
+ */
+function validateSmtpUrl(url: string, fieldPath: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ConfigParseError(`Invalid value for '${fieldPath}': '${url}' is not a valid URL`);
+  }
+  if (parsed.protocol !== 'smtp:' && parsed.protocol !== 'smtps:') {
+    throw new ConfigParseError(
+      `Invalid value for '${fieldPath}': URL must use smtp or smtps protocol`
+    );
+  }
+  if (parsed.username !== '' || parsed.password !== '') {
+    throw new ConfigParseError(
+      `Invalid value for '${fieldPath}': use 'smtp_username' and 'smtp_password' instead of URL credentials`
+    );
+  }
+  return url;
+}
+
+/**
+ * Validates that a value is a single email address.
+ *
+ * @param value - Value to validate.
+ * @param fieldPath - Path to the field for error messages.
+ * @returns The validated address.
+ * @throws ConfigParseError if the value is not an address.
+ */
+function validateEmailAddress(value: unknown, fieldPath: string): string {
+  const address = validateString(value, fieldPath);
+  if (!/^[^\s<>@,]+@[^\s<>@,]+$/.test(address)) {
+    throw new ConfigParseError(
+      `Invalid value for '${fieldPath}': '${address}' is not an email address`
+    );
+  }
+  return address;
+}
+
 /**
  * Validates that a cron expression is valid.
  *
@@ -304,10 +362,14 @@ function parseNotificationChannel(raw: unknown, index: number): NotificationChan
       `Missing required field 'endpoint' for 'notifications.channels[${String(index)}]'`
     );
   }
-  const endpoint = validateUrl(
-    validateString(endpointRaw, `notifications.channels[${String(index)}].endpoint`),
+  const endpointString = validateString(
+    endpointRaw,
     `notifications.channels[${String(index)}].endpoint`
   );
+  const endpoint =
+    type === 'email'
+      ? validateSmtpUrl(endpointString, `notifications.channels[${String(index)}].endpoint`)
+      : validateUrl(endpointString, `notifications.channels[${String(index)}].endpoint`);
 
   const enabled =
     'enabled' in channelRaw
@@ -343,11 +405,119 @@ function parseNotificationChannel(raw: unknown, index: number): NotificationChan
     events = eventsArr;
   }
 
+  const secret =
+    'secret' in channelRaw
+      ? validateString(channelRaw.secret, `notifications.channels[${String(index)}].secret`)
+      : undefined;
+  if (secret !== undefined && type !== 'webhook') {
+    throw new ConfigParseError(
+      `Invalid field for 'notifications.channels[${String(index)}]': 'secret' is only valid for webhook channels`
+    );
+  }
+  if (secret === '') {
+    throw new ConfigParseError(
+      `Invalid value for 'notifications.channels[${String(index)}].secret': expected a non-empty string`
+    );
+  }
+
+  const bot_token =
+    'bot_token' in channelRaw
+      ? validateString(channelRaw.bot_token, `notifications.channels[${String(index)}].bot_token`)
+      : undefined;
+  const slack_channel =
+    'slack_channel' in channelRaw
+      ? validateString(
+          channelRaw.slack_channel,
+          `notifications.channels[${String(index)}].slack_channel`
+        )
+      : undefined;
+
+  if (type !== 'slack' && (bot_token !== undefined || slack_channel !== undefined)) {
+    throw new ConfigParseError(
+      `Invalid field for 'notifications.channels[${String(index)}]': 'bot_token' and 'slack_channel' are only valid for slack channels`
+    );
+  }
+  if (bot_token !== undefined && slack_channel === undefined) {
+    throw new ConfigParseError(
+      `Missing required field 'slack_channel' for 'notifications.channels[${String(index)}]': required when 'bot_token' is set`
+    );
+  }
+
+  const email = parseEmailChannelFields(channelRaw, type, index);
+
   return {
     type,
     endpoint,
     enabled,
     events,
+    ...(secret !== undefined ? { secret } : {}),
+    ...(bot_token !== undefined ? { bot_token } : {}),
+    ...(slack_channel !== undefined ? { slack_channel } : {}),
+    ...email,
+  };
+}
+
+/**
+ * Parses the email-specific fields of a notification channel.
+ *
+ * @param channelRaw - Raw TOML object for the channel.
+ * @param type - The already-validated channel type.
+ * @param index - Index of the channel for error messages.
+ * @returns The email fields present on the channel.
+ */
+function parseEmailChannelFields(
+  channelRaw: Record<string, unknown>,
+  type: NotificationChannelConfig['type'],
+  index: number
+): Pick<NotificationChannelConfig, 'email_from' | 'email_to' | 'smtp_username' | 'smtp_password'> {
+  const prefix = `notifications.channels[${String(index)}]`;
+  const emailFields = ['email_from', 'email_to', 'smtp_username', 'smtp_password'];
+
+  if (type !== 'email') {
+    if (emailFields.some((field) => field in channelRaw)) {
+      throw new ConfigParseError(
+        `Invalid field for '${prefix}': '${emailFields.join("', '")}' are only valid for email channels`
+      );
+    }
+    return {};
+  }
+
+  if (!('email_from' in channelRaw)) {
+    throw new ConfigParseError(`Missing required field 'email_from' for '${prefix}'`);
+  }
+  const email_from = validateEmailAddress(channelRaw.email_from, `${prefix}.email_from`);
+
+  if (!('email_to' in channelRaw)) {
+    throw new ConfigParseError(`Missing required field 'email_to' for '${prefix}'`);
+  }
+  const email_to = validateArray(channelRaw.email_to, `${prefix}.email_to`).map((address, i) =>
+    validateEmailAddress(address, `${prefix}.email_to[${String(i)}]`)
+  );
+  if (email_to.length === 0) {
+    throw new ConfigParseError(
+      `Invalid value for '${prefix}.email_to': expected at least one recipient`
+    );
+  }
+
+  const smtp_username =
+    'smtp_username' in channelRaw
+      ? validateString(channelRaw.smtp_username, `${prefix}.smtp_username`)
+      : undefined;
+  const smtp_password =
+    'smtp_password' in channelRaw
+      ? validateString(channelRaw.smtp_password, `${prefix}.smtp_password`)
+      : undefined;
+  if (smtp_password !== undefined && smtp_username === undefined) {
+    throw new ConfigParseError(
+      `Missing required field 'smtp_username' for '${prefix}': required when 'smtp_password' is set`
+    );
+  }
+
+  return {
+    email_from,
+    email_to,
+    ...(smtp_username !== undefined ? { smtp_username } : {}),
+    ...(smtp_password !== undefined ? { smtp_password } : {}),
   };
 }
 
@@ -487,6 +657,187 @@ function parseMassDefect(raw: Record<string, unknown> | undefined): MassDefectCo
   if ('catalog_path' in raw) {
     result.catalog_path = validateString(raw.catalog_path, 'mass_defect.catalog_path');
   }
+  if ('org_catalog_path' in raw) {
+    result.org_catalog_path = validateString(raw.org_catalog_path, 'mass_defect.org_catalog_path');
+  }
+  if ('differential' in raw) {
+    result.differential = validateBoolean(raw.differential, 'mass_defect.differential');
+  }
+  if ('differential_runs' in raw) {
+    result.differential_runs = validateNumber(
+      raw.differential_runs,
+      'mass_defect.differential_runs'
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Parses Injection configuration from raw TOML data.
+ *
+ * @param raw - Raw TOML object for injection section.
+ * @returns Validated Injection configuration merged with defaults.
+ */
+function parseInjection(raw: Record<string, unknown> | undefined): InjectionConfig {
+  if (raw === undefined) {
+    return { ...DEFAULT_INJECTION_CONFIG };
+  }
+
+  const result: InjectionConfig = { ...DEFAULT_INJECTION_CONFIG };
+
+  if ('max_concurrency' in raw) {
+    result.max_concurrency = validateNumber(raw.max_concurrency, 'injection.max_concurrency');
+  }
+
+  return result;
+}
+
+/**
+ * Parses model cache configuration from raw TOML data.
+ *
+ * @param raw - Raw TOML object for model_cache section.
+ * @returns Validated model cache configuration merged with defaults.
+ */
+function parseModelCache(raw: Record<string, unknown> | undefined): ModelCacheConfig {
+  if (raw === undefined) {
+    return { ...DEFAULT_MODEL_CACHE_CONFIG };
+  }
+
+  const result: ModelCacheConfig = { ...DEFAULT_MODEL_CACHE_CONFIG };
+
+  if ('enabled' in raw) {
+    result.enabled = validateBoolean(raw.enabled, 'model_cache.enabled');
+  }
+  if ('directory' in raw) {
+    result.directory = validateString(raw.directory, 'model_cache.directory');
+  }
+  if ('task_types' in raw) {
+    const taskTypesRaw = validateArray(raw.task_types, 'model_cache.task_types');
+    result.task_types = taskTypesRaw.map((taskType, i) =>
+      validateString(taskType, `model_cache.task_types[${String(i)}]`)
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Parses a single model price entry.
+ *
+ * @param raw - Raw TOML value for the price entry.
+ * @param modelId - Model ID the price applies to.
+ * @returns Validated model price.
+ * @throws ConfigParseError if the entry is not a table or lacks a price.
+ */
+function parseModelPrice(raw: unknown, modelId: string): ModelPriceConfig {
+  const fieldPath = `cost.prices.${modelId}`;
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ConfigParseError(
+      `Invalid type for '${fieldPath}': expected table, got ${Array.isArray(raw) ? 'array' : typeof raw}`
+    );
+  }
+
+  const priceRaw = raw as Record<string, unknown>;
+  if (!('input_per_mtok' in priceRaw) || !('output_per_mtok' in priceRaw)) {
+    throw new ConfigParseError(
+      `Missing required field in '${fieldPath}': both 'input_per_mtok' and 'output_per_mtok' are required`
+    );
+  }
+
+  return {
+    input_per_mtok: validateNumber(priceRaw.input_per_mtok, `${fieldPath}.input_per_mtok`),
+    output_per_mtok: validateNumber(priceRaw.output_per_mtok, `${fieldPath}.output_per_mtok`),
+  };
+}
+
+/**
+ * Parses cost configuration from raw TOML data.
+ *
+ * @param raw - Raw TOML object for cost section.
+ * @returns Validated cost configuration merged with defaults.
+ */
+function parseCost(raw: Record<string, unknown> | undefined): CostConfig {
+  if (raw === undefined) {
+    return { ...DEFAULT_COST_CONFIG };
+  }
+
+  const result: CostConfig = { ...DEFAULT_COST_CONFIG };
+
+  if ('budget_usd' in raw) {
+    result.budget_usd = validateNumber(raw.budget_usd, 'cost.budget_usd');
+  }
+  if ('prices' in raw) {
+    const pricesRaw = raw.prices;
+    if (typeof pricesRaw !== 'object' || pricesRaw === null || Array.isArray(pricesRaw)) {
+      throw new ConfigParseError(
+        `Invalid type for 'cost.prices': expected table, got ${Array.isArray(pricesRaw) ? 'array' : typeof pricesRaw}`
+      );
+    }
+    result.prices = Object.fromEntries(
+      Object.entries(pricesRaw).map(([modelId, price]) => [
+        modelId,
+        parseModelPrice(price, modelId),
+      ])
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Parses model backend configuration from raw TOML data.
+ *
+ * @param raw - Raw TOML object for router section.
+ * @returns Validated router configuration merged with defaults.
+ */
+function parseRouter(raw: Record<string, unknown> | undefined): RouterConfig {
+  if (raw === undefined) {
+    return { ...DEFAULT_ROUTER_CONFIG };
+  }
+
+  const result: RouterConfig = { ...DEFAULT_ROUTER_CONFIG };
+
+  if ('backend' in raw) {
+    const backend = validateString(raw.backend, 'router.backend');
+    if (backend !== 'claude-code' && backend !== 'anthropic') {
+      throw new ConfigParseError(
+        `Invalid value for 'router.backend': expected 'claude-code' or 'anthropic', got '${backend}'`
+      );
+    }
+    result.backend = backend;
+  }
+  if ('base_url' in raw) {
+    result.base_url = validateString(raw.base_url, 'router.base_url');
+  }
+  if ('api_key_env' in raw) {
+    result.api_key_env = validateString(raw.api_key_env, 'router.api_key_env');
+  }
+  if ('fixtures' in raw) {
+    const fixtures = validateString(raw.fixtures, 'router.fixtures');
+    if (fixtures !== 'off' && fixtures !== 'record' && fixtures !== 'replay') {
+      throw new ConfigParseError(
+        `Invalid value for 'router.fixtures': expected 'off', 'record' or 'replay', got '${fixtures}'`
+      );
+    }
+    result.fixtures = fixtures;
+  }
+  if ('fixtures_dir' in raw) {
+    result.fixtures_dir = validateString(raw.fixtures_dir, 'router.fixtures_dir');
+  }
+  if ('fallback_backends' in raw) {
+    result.fallback_backends = validateArray(raw.fallback_backends, 'router.fallback_backends').map(
+      (value, i) => {
+        const backend = validateString(value, `router.fallback_backends[${String(i)}]`);
+        if (backend !== 'claude-code' && backend !== 'anthropic') {
+          throw new ConfigParseError(
+            `Invalid value for 'router.fallback_backends[${String(i)}]': expected 'claude-code' or 'anthropic', got '${backend}'`
+          );
+        }
+        return backend;
+      }
+    );
+  }
 
   return result;
 }
@@ -552,6 +903,10 @@ export function parseConfig(tomlContent: string): Config {
     thresholds: parseThresholds(parsed.thresholds as Record<string, unknown> | undefined),
     notifications: parseNotifications(parsed.notifications as Record<string, unknown> | undefined),
     mass_defect: parseMassDefect(parsed.mass_defect as Record<string, unknown> | undefined),
+    injection: parseInjection(parsed.injection as Record<string, unknown> | undefined),
+    model_cache: parseModelCache(parsed.model_cache as Record<string, unknown> | undefined),
+    cost: parseCost(parsed.cost as Record<string, unknown> | undefined),
+    router: parseRouter(parsed.router as Record<string, unknown> | undefined),
     cli: parseCliSettings(parsed.cli as Record<string, unknown> | undefined),
   };
 }
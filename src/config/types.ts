@@ -7,6 +7,10 @@
 /**
  * Model role aliases for routing requests.
  * Maps semantic roles to actual model identifiers.
+ *
+ * A value of the form `openai-compat:<base-url>/<model>` routes the role to
+ * an OpenAI-compatible `/v1/chat/completions` server instead of the
+ * configured router backend.
  */
 export interface ModelAssignments {
   /** Model for high-level architecture and user interaction. */
@@ -75,6 +79,87 @@ export interface MassDefectConfig {
   targets: MassDefectTargetsConfig;
   /** Path to transformation catalog directory relative to project root. */
   catalog_path: string;
+  /**
+   * Org-wide catalog layered between the built-in and project catalogs
+   * (default: ~/.criticality/catalog).
+   */
+  org_catalog_path?: string;
+  /** Run original and transformed functions side by side on generated inputs (default: false). */
+  differential: boolean;
+  /** Number of generated inputs per transformation (default: 100). */
+  differential_runs: number;
+}
+
+/**
+ * Configuration for the Injection phase.
+ */
+export interface InjectionConfig {
+  /** Maximum number of functions implemented in parallel (default: 1). */
+  max_concurrency: number;
+}
+
+/**
+ * Configuration for the on-disk model response cache.
+ */
+export interface ModelCacheConfig {
+  /** Whether cacheable model responses are stored and replayed. */
+  enabled: boolean;
+  /** Cache directory relative to project root. */
+  directory: string;
+  /** Task types whose responses are safe to replay (e.g. 'structure', 'audit'). */
+  task_types: readonly string[];
+}
+
+/**
+ * Price of a model in USD per million tokens.
+ */
+export interface ModelPriceConfig {
+  /** USD per million prompt tokens. */
+  input_per_mtok: number;
+  /** USD per million completion tokens. */
+  output_per_mtok: number;
+}
+
+/**
+ * Configuration for cost accounting and budget enforcement.
+ */
+export interface CostConfig {
+  /**
+   * Run budget in USD (0 disables). Once spend passes it, model requests are
+   * refused and the protocol blocks for approval at the next transition.
+   */
+  budget_usd: number;
+  /** Model prices keyed by model ID (e.g. 'claude-opus-4.5'). */
+  prices: Readonly<Record<string, ModelPriceConfig>>;
+}
+
+/**
+ * Backend that serves model requests.
+ */
+export type RouterBackend = 'claude-code' | 'anthropic';
+
+/**
+ * Model fixture mode: record every model call, or replay recorded calls
+ * instead of calling a model.
+ */
+export type RouterFixturesMode = 'off' | 'record' | 'replay';
+
+/**
+ * Configuration for the model backend.
+ */
+export interface RouterConfig {
+  /** 'claude-code' shells out to the Claude Code CLI; 'anthropic' calls the Messages API over HTTP. */
+  backend: RouterBackend;
+  /** Base URL of the Messages API (anthropic backend only). */
+  base_url: string;
+  /** Environment variable holding the API key (anthropic backend only). */
+  api_key_env: string;
+  /** Whether model calls are recorded to, or replayed from, `fixtures_dir`. */
+  fixtures: RouterFixturesMode;
+  /** Directory of recorded model fixtures. */
+  fixtures_dir: string;
+  /** Backends tried in order when `backend` is rate limited, unreachable or timing out. */
+  fallback_backends: RouterBackend[];
 }
 
 /**
@@ -95,12 +180,26 @@ export interface CliSettingsConfig {
 export interface NotificationChannelConfig {
   /** Type of notification channel. */
   readonly type: 'webhook' | 'slack' | 'email';
-  /** Endpoint URL for sending notifications. */
+  /** Endpoint URL for sending notifications (an smtp:// or smtps:// URL for email). */
   readonly endpoint: string;
   /** Whether this channel is enabled. */
   readonly enabled: boolean;
   /** Events that this channel subscribes to. */
   readonly events: readonly string[];
+  /** Shared secret for HMAC-signing requests (webhook channels only). */
+  readonly secret?: string | undefined;
+  /** Slack bot token (slack channels only); posts via chat.postMessage instead of a webhook. */
+  readonly bot_token?: string | undefined;
+  /** Slack channel to post to with a bot token (slack channels only). */
+  readonly slack_channel?: string | undefined;
+  /** Sender address (email channels only). */
+  readonly email_from?: string | undefined;
+  /** Recipient addresses (email channels only). */
+  readonly email_to?: readonly string[] | undefined;
+  /** SMTP username (email channels only). */
+  readonly smtp_username?: string | undefined;
+  /** SMTP password (email channels only). */
+  readonly smtp_password?: string | undefined;
 }
 
 /**
@@ -133,6 +232,14 @@ export interface Config {
   notifications: NotificationConfig;
   /** Mass Defect phase configuration. */
   mass_defect: MassDefectConfig;
+  /** Injection phase configuration. */
+  injection: InjectionConfig;
+  /** Model response cache configuration. */
+  model_cache: ModelCacheConfig;
+  /** Cost accounting and budget configuration. */
+  cost: CostConfig;
+  /** Model backend configuration. */
+  router: RouterConfig;
   /** CLI settings for terminal behavior. */
   cli: CliSettingsConfig;
 }
@@ -151,6 +258,13 @@ export interface PartialConfig {
   mass_defect?: {
     targets?: Partial<MassDefectTargetsConfig>;
     catalog_path?: string;
+    org_catalog_path?: string;
+    differential?: boolean;
+    differential_runs?: number;
   };
+  injection?: Partial<InjectionConfig>;
+  model_cache?: Partial<ModelCacheConfig>;
+  cost?: Partial<CostConfig>;
+  router?: Partial<RouterConfig>;
   cli?: Partial<CliSettingsConfig>;
 }
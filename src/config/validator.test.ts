@@ -95,6 +95,33 @@ worker_model = "${model}"
       });
     });
 
+    describe('OpenAI-compatible model validation', () => {
+      it('should accept openai-compat models without allowUnrecognizedModels', () => {
+        const config = parseConfig(`
+[models]
+worker_model = "openai-compat:http://localhost:8080/qwen-coder"
+`);
+        const result = validateConfig(config);
+        expect(result.errors.filter((e) => e.field.startsWith('models.'))).toHaveLength(0);
+      });
+
+      it('should reject malformed openai-compat models even when unrecognized models are allowed', () => {
+        const config = parseConfig(`
+[models]
+worker_model = "openai-compat:ftp://localhost/qwen-coder"
+`);
+        const result = validateConfig(config, { allowUnrecognizedModels: true });
+
+        expect(result.valid).toBe(false);
+        expect(result.errors).toContainEqual(
+          expect.objectContaining({
+            field: 'models.worker_model',
+            message: expect.stringContaining('must use http or https') as string,
+          })
+        );
+      });
+    });
+
     describe('threshold validation', () => {
       it('should pass validation for valid thresholds', () => {
         const result = validateConfig(DEFAULT_CONFIG);
@@ -297,6 +324,21 @@ max_nesting_depth = -1
         expect(error?.message).toContain('positive integer');
       });
 
+      it('should return error for non-integer differential_runs', () => {
+        const toml = `
+[mass_defect]
+differential = true
+differential_runs = 2.5
+`;
+        const config = parseConfig(toml);
+        const result = validateConfig(config);
+
+        expect(result.valid).toBe(false);
+        const error = result.errors.find((e) => e.field === 'mass_defect.differential_runs');
+        expect(error).toBeDefined();
+        expect(error?.message).toContain('positive integer');
+      });
+
       it('should return error for min_test_coverage <= 0', () => {
         const toml = `
 [mass_defect.targets]
@@ -376,6 +418,188 @@ max_function_length_lines = 50.5
       });
     });
 
+    describe('injection validation', () => {
+      it('should pass validation for default injection config', () => {
+        const result = validateConfig(DEFAULT_CONFIG);
+        const injectionErrors = result.errors.filter((e) => e.field.startsWith('injection.'));
+        expect(injectionErrors).toHaveLength(0);
+      });
+
+      it('should return error for zero max_concurrency', () => {
+        const toml = `
+[injection]
+max_concurrency = 0
+`;
+        const config = parseConfig(toml);
+        const result = validateConfig(config);
+
+        expect(result.valid).toBe(false);
+        const error = result.errors.find((e) => e.field === 'injection.max_concurrency');
+        expect(error).toBeDefined();
+        expect(error?.message).toContain('positive integer');
+      });
+
+      it('should return error for max_concurrency above reasonable maximum', () => {
+        const toml = `
+[injection]
+max_concurrency = 500
+`;
+        const config = parseConfig(toml);
+        const result = validateConfig(config);
+
+        expect(result.valid).toBe(false);
+        const error = result.errors.find((e) => e.field === 'injection.max_concurrency');
+        expect(error?.message).toContain('reasonable maximum');
+      });
+    });
+
+    describe('model cache validation', () => {
+      it('should pass validation for default model cache config', () => {
+        const result = validateConfig(DEFAULT_CONFIG);
+        const cacheErrors = result.errors.filter((e) => e.field.startsWith('model_cache.'));
+        expect(cacheErrors).toHaveLength(0);
+      });
+
+      it('should return error for unknown task type', () => {
+        const toml = `
+[model_cache]
+task_types = ["structure", "refactor"]
+`;
+        const config = parseConfig(toml);
+        const result = validateConfig(config);
+
+        expect(result.valid).toBe(false);
+        const error = result.errors.find((e) => e.field === 'model_cache.task_types[1]');
+        expect(error?.message).toContain("Unknown task type 'refactor'");
+      });
+
+      it('should return error for empty directory', () => {
+        const toml = `
+[model_cache]
+directory = "  "
+`;
+        const config = parseConfig(toml);
+        const result = validateConfig(config);
+
+        expect(result.errors.some((e) => e.field === 'model_cache.directory')).toBe(true);
+      });
+
+      it.each(['.', '..', 'src', '.criticality', '.criticality/../src', '/tmp/cache', '../cache'])(
+        'should reject directory %s outside .criticality/',
+        (directory) => {
+          const config = parseConfig(`
+[model_cache]
+directory = "${directory}"
+`);
+          const result = validateConfig(config);
+
+          const error = result.errors.find((e) => e.field === 'model_cache.directory');
+          expect(error?.message).toContain("inside '.criticality/'");
+        }
+      );
+
+      it('should accept a directory inside .criticality/', () => {
+        const config = parseConfig(`
+[model_cache]
+directory = "./.criticality/cache/other"
+`);
+        const result = validateConfig(config);
+
+        expect(result.errors.some((e) => e.field === 'model_cache.directory')).toBe(false);
+      });
+    });
+
+    describe('cost validation', () => {
+      it('should pass validation for default cost config', () => {
+        const result = validateConfig(DEFAULT_CONFIG);
+        const costErrors = result.errors.filter((e) => e.field.startsWith('cost.'));
+        expect(costErrors).toHaveLength(0);
+      });
+
+      it('should return error for negative budget', () => {
+        const toml = `
+[cost]
+budget_usd = -5
+`;
+        const config = parseConfig(toml);
+        const result = validateConfig(config);
+
+        expect(result.valid).toBe(false);
+        expect(result.errors.some((e) => e.field === 'cost.budget_usd')).toBe(true);
+      });
+
+      it('should return error for negative price', () => {
+        const toml = `
+[cost.prices."some-model"]
+input_per_mtok = 1.0
+output_per_mtok = -2.0
+`;
+        const config = parseConfig(toml);
+        const result = validateConfig(config);
+
+        expect(result.valid).toBe(false);
+        expect(
+          result.errors.some((e) => e.field === 'cost.prices.some-model.output_per_mtok')
+        ).toBe(true);
+      });
+    });
+
+    describe('router validation', () => {
+      it('should pass validation for default router config', () => {
+        const result = validateConfig(DEFAULT_CONFIG);
+        expect(result.errors.filter((e) => e.field.startsWith('router.'))).toHaveLength(0);
+      });
+
+      it('should return errors for a non-http base URL and an empty key variable', () => {
+        const toml = `
+[router]
+backend = "anthropic"
+base_url = "ftp://example.com"
+api_key_env = ""
+`;
+        const result = validateConfig(parseConfig(toml));
+
+        expect(result.valid).toBe(false);
+        expect(result.errors.map((e) => e.field)).toEqual(
+          expect.arrayContaining(['router.base_url', 'router.api_key_env'])
+        );
+      });
+
+      it('should return error for an empty fixture directory when recording', () => {
+        const config = parseConfig(`
+[router]
+fixtures = "record"
+fixtures_dir = ""
+`);
+        const result = validateConfig(config);
+
+        expect(result.errors.some((e) => e.field === 'router.fixtures_dir')).toBe(true);
+      });
+
+      it('should return error when the fallback chain repeats a backend', () => {
+        const config = parseConfig(`
+[router]
+backend = "anthropic"
+fallback_backends = ["claude-code", "anthropic"]
+`);
+        const result = validateConfig(config);
+
+        expect(result.errors).toContainEqual({
+          field: 'router.fallback_backends',
+          value: ['claude-code', 'anthropic'],
+          message: "Backend 'anthropic' appears more than once in the fallback chain",
+        });
+      });
+
+      it('should return error for an unknown backend set through env overrides', () => {
+        const config = { ...DEFAULT_CONFIG, router: { ...DEFAULT_CONFIG.router } };
+        Object.assign(config.router, { backend: 'smoke-signals' });
+        const result = validateConfig(config);
+
+        expect(result.errors.some((e) => e.field === 'router.backend')).toBe(true);
+      });
+    });
+
     describe('path validation', () => {
       it('should not check paths by default', () => {
         const toml = `
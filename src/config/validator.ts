@@ -9,7 +9,23 @@
  * @packageDocumentation
  */
 
-import type { Config, MassDefectConfig, ThresholdConfig } from './types.js';
+import type {
+  Config,
+  CostConfig,
+  InjectionConfig,
+  MassDefectConfig,
+  ModelCacheConfig,
+  RouterBackend,
+  RouterConfig,
+  RouterFixturesMode,
+  ThresholdConfig,
+} from './types.js';
+import * as path from 'node:path';
+import { isValidTaskType, TASK_TYPES } from '../router/routing.js';
+import {
+  isOpenAICompatibleModel,
+  parseOpenAICompatibleModel,
+} from '../router/openai-compatible-client.js';
 
 /**
  * Error class for semantic validation errors.
@@ -53,6 +69,21 @@ export interface ValidationResult {
   errors: ValidationError[];
 }
 
+/**
+ * Project directory that holds Criticality's own state and caches.
+ */
+const CRITICALITY_DIR = '.criticality';
+
+/**
+ * Supported model backends.
+ */
+const ROUTER_BACKENDS: readonly RouterBackend[] = ['claude-code', 'anthropic'];
+
+/**
+ * Supported model fixture modes.
+ */
+const ROUTER_FIXTURES_MODES: readonly RouterFixturesMode[] = ['off', 'record', 'replay'];
+
 /**
  * Recognized model identifiers.
  * These are the models that the Criticality Protocol supports.
@@ -132,6 +163,18 @@ function validateModelName(
   errors: ValidationError[],
   allowUnrecognized: boolean
 ): void {
+  if (isOpenAICompatibleModel(modelName)) {
+    try {
+      parseOpenAICompatibleModel(modelName);
+    } catch (error) {
+      errors.push({
+        field: fieldPath,
+        value: modelName,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return;
+  }
   if (!allowUnrecognized && !RECOGNIZED_MODELS.has(modelName)) {
     errors.push({
       field: fieldPath,
@@ -406,6 +449,180 @@ function validateMassDefect(massDefect: MassDefectConfig, errors: ValidationErro
       message: `'mass_defect.targets.min_test_coverage' must be greater than 0`,
     });
   }
+
+  // differential_runs: positive integer, reasonable range
+  validatePositiveInteger(massDefect.differential_runs, 'mass_defect.differential_runs', errors);
+  if (massDefect.differential_runs > 10000) {
+    errors.push({
+      field: 'mass_defect.differential_runs',
+      value: massDefect.differential_runs,
+      message: `'mass_defect.differential_runs' exceeds reasonable maximum of 10000`,
+    });
+  }
+}
+
+/**
+ * Validates Injection configuration.
+ *
+ * @param injection - The Injection configuration to validate.
+ * @param errors - Array to accumulate errors into.
+ */
+function validateInjection(injection: InjectionConfig, errors: ValidationError[]): void {
+  // max_concurrency: positive integer, reasonable range
+  validatePositiveInteger(injection.max_concurrency, 'injection.max_concurrency', errors);
+  if (injection.max_concurrency > 64) {
+    errors.push({
+      field: 'injection.max_concurrency',
+      value: injection.max_concurrency,
+      message: `'injection.max_concurrency' exceeds reasonable maximum of 64`,
+    });
+  }
+}
+
+/**
+ * Validates model cache configuration.
+ *
+ * @param modelCache - The model cache configuration to validate.
+ * @param errors - Array to accumulate errors into.
+ */
+function validateModelCache(modelCache: ModelCacheConfig, errors: ValidationError[]): void {
+  if (modelCache.directory.trim() === '') {
+    errors.push({
+      field: 'model_cache.directory',
+      value: modelCache.directory,
+      message: `'model_cache.directory' must not be empty`,
+    });
+  } else if (!isInsideCriticalityDir(modelCache.directory)) {
+    // `crit cache clear` deletes files under this directory, so it must not
+    // be able to reach the project root, its ancestors or source files
+    errors.push({
+      field: 'model_cache.directory',
+      value: modelCache.directory,
+      message: `'model_cache.directory' must be a relative path inside '${CRITICALITY_DIR}/'`,
+    });
+  }
+
+  modelCache.task_types.forEach((taskType, i) => {
+    if (!isValidTaskType(taskType)) {
+      errors.push({
+        field: `model_cache.task_types[${String(i)}]`,
+        value: taskType,
+        message: `Unknown task type '${taskType}'. Expected one of: ${TASK_TYPES.join(', ')}`,
+      });
+    }
+  });
+}
+
+/**
+ * Checks that a project-relative path lies strictly inside `.criticality/`.
+ *
+ * @param directory - The configured path.
+ * @returns True if the path is relative and below the `.criticality` directory.
+ */
+function isInsideCriticalityDir(directory: string): boolean {
+  if (path.isAbsolute(directory) || path.win32.isAbsolute(directory)) {
+    return false;
+  }
+  const relative = path.relative(CRITICALITY_DIR, path.normalize(directory.replace(/\\/g, '/')));
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Validates cost configuration.
+ *
+ * @param cost - The cost configuration to validate.
+ * @param errors - Array to accumulate errors into.
+ */
+function validateCost(cost: CostConfig, errors: ValidationError[]): void {
+  if (!Number.isFinite(cost.budget_usd) || cost.budget_usd < 0) {
+    errors.push({
+      field: 'cost.budget_usd',
+      value: cost.budget_usd,
+      message: `'cost.budget_usd' must be a non-negative number (0 disables the budget)`,
+    });
+  }
+
+  for (const [modelId, price] of Object.entries(cost.prices)) {
+    for (const [field, value] of [
+      ['input_per_mtok', price.input_per_mtok],
+      ['output_per_mtok', price.output_per_mtok],
+    ] as const) {
+      if (!Number.isFinite(value) || value < 0) {
+        errors.push({
+          field: `cost.prices.${modelId}.${field}`,
+          value,
+          message: `'cost.prices.${modelId}.${field}' must be a non-negative number`,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Validates model backend configuration.
+ *
+ * @param router - The router configuration to validate.
+ * @param errors - Array to accumulate errors into.
+ */
+function validateRouter(router: RouterConfig, errors: ValidationError[]): void {
+  // Environment overrides bypass the parser's check
+  if (!(ROUTER_BACKENDS as readonly string[]).includes(router.backend)) {
+    errors.push({
+      field: 'router.backend',
+      value: router.backend,
+      message: `Unknown router backend '${router.backend}'. Expected one of: ${ROUTER_BACKENDS.join(', ')}`,
+    });
+  }
+
+  let protocol: string | undefined;
+  try {
+    protocol = new URL(router.base_url).protocol;
+  } catch {
+    protocol = undefined;
+  }
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    errors.push({
+      field: 'router.base_url',
+      value: router.base_url,
+      message: `'router.base_url' must be an http or https URL`,
+    });
+  }
+
+  if (router.api_key_env.trim() === '') {
+    errors.push({
+      field: 'router.api_key_env',
+      value: router.api_key_env,
+      message: `'router.api_key_env' must not be empty`,
+    });
+  }
+
+  if (!(ROUTER_FIXTURES_MODES as readonly string[]).includes(router.fixtures)) {
+    errors.push({
+      field: 'router.fixtures',
+      value: router.fixtures,
+      message: `Unknown fixtures mode '${router.fixtures}'. Expected one of: ${ROUTER_FIXTURES_MODES.join(', ')}`,
+    });
+  }
+
+  if (router.fixtures !== 'off' && router.fixtures_dir.trim() === '') {
+    errors.push({
+      field: 'router.fixtures_dir',
+      value: router.fixtures_dir,
+      message: `'router.fixtures_dir' must not be empty when 'router.fixtures' is '${router.fixtures}'`,
+    });
+  }
+
+  const chain = new Set<string>([router.backend]);
+  for (const backend of router.fallback_backends) {
+    if (chain.has(backend)) {
+      errors.push({
+        field: 'router.fallback_backends',
+        value: router.fallback_backends,
+        message: `Backend '${backend}' appears more than once in the fallback chain`,
+      });
+    }
+    chain.add(backend);
+  }
 }
 
 /**
@@ -416,6 +633,10 @@ function validateMassDefect(massDefect: MassDefectConfig, errors: ValidationErro
  * - Optionally validates paths exist using a provided checker function
  * - Validates thresholds are within valid ranges
  * - Validates Mass Defect configuration
+ * - Validates Injection configuration
+ * - Validates model cache configuration
+ * - Validates cost configuration
+ * - Validates router configuration
  *
  * @param config - The parsed configuration to validate.
  * @param options - Validation options.
@@ -465,6 +686,18 @@ export function validateConfig(
   // Validate Mass Defect configuration
   validateMassDefect(config.mass_defect, errors);
 
+  // Validate Injection configuration
+  validateInjection(config.injection, errors);
+
+  // Validate model cache configuration
+  validateModelCache(config.model_cache, errors);
+
+  // Validate cost configuration
+  validateCost(config.cost, errors);
+
+  // Validate router configuration
+  validateRouter(config.router, errors);
+
   return {
     valid: errors.length === 0,
     errors,
@@ -11,6 +11,7 @@
  * @packageDocumentation
  */
 
+import type { FunctionId } from '../adapters/typescript/function-id.js';
 import type { FailureType, ModelTier } from './escalation.js';
 import { isHighestTier } from './escalation.js';
 
@@ -58,8 +59,8 @@ export type FunctionStatus = 'pending' | 'in_progress' | 'success' | 'escalated'
  * Tracks the implementation status of a single function.
  */
 export interface FunctionState {
-  /** The function identifier (qualified name like "module/functionName"). */
-  readonly functionId: string;
+  /** The function's canonical id (see {@link FunctionId}). */
+  readonly functionId: FunctionId;
   /** The module this function belongs to. */
   readonly modulePath: string;
   /** Current implementation status. */
@@ -81,7 +82,7 @@ export interface FunctionState {
  */
 export interface CircuitBreakerState {
   /** Map of function ID to function state. */
-  readonly functions: ReadonlyMap<string, FunctionState>;
+  readonly functions: ReadonlyMap<FunctionId, FunctionState>;
   /** Whether the circuit has been tripped. */
   readonly isTripped: boolean;
   /** The trip reason (if tripped). */
@@ -100,13 +101,13 @@ export interface CircuitBreakerState {
 export type CircuitTripReason =
   | {
       readonly type: 'function_exhausted';
-      readonly functionId: string;
+      readonly functionId: FunctionId;
       readonly totalAttempts: number;
       readonly architectAttempted: boolean;
     }
   | {
       readonly type: 'max_attempts_exceeded';
-      readonly functionId: string;
+      readonly functionId: FunctionId;
       readonly totalAttempts: number;
       readonly maxAttempts: number;
     }
@@ -146,7 +147,7 @@ export interface CircuitWarning {
  */
 export interface StructuralDefect {
   /** The function that failed. */
-  readonly functionId: string;
+  readonly functionId: FunctionId;
   /** The module containing the function. */
   readonly modulePath: string;
   /** Reason for failure. */
@@ -228,7 +229,7 @@ export function createCircuitBreakerState(): CircuitBreakerState {
  * @param modulePath - The module path.
  * @returns A new FunctionState.
  */
-export function createFunctionState(functionId: string, modulePath: string): FunctionState {
+export function createFunctionState(functionId: FunctionId, modulePath: string): FunctionState {
   return {
     functionId,
     modulePath,
@@ -254,7 +255,7 @@ export function createFunctionState(functionId: string, modulePath: string): Fun
  */
 export function registerFunction(
   state: CircuitBreakerState,
-  functionId: string,
+  functionId: FunctionId,
   modulePath: string
 ): CircuitBreakerState {
   if (state.functions.has(functionId)) {
@@ -280,7 +281,7 @@ export function registerFunction(
  */
 export function recordAttemptStart(
   state: CircuitBreakerState,
-  functionId: string,
+  functionId: FunctionId,
   tier: ModelTier
 ): CircuitBreakerState {
   const funcState = state.functions.get(functionId);
@@ -310,7 +311,10 @@ export function recordAttemptStart(
  * @param functionId - The function identifier.
  * @returns Updated state.
  */
-export function recordSuccess(state: CircuitBreakerState, functionId: string): CircuitBreakerState {
+export function recordSuccess(
+  state: CircuitBreakerState,
+  functionId: FunctionId
+): CircuitBreakerState {
   const funcState = state.functions.get(functionId);
   if (funcState === undefined) {
     return state;
@@ -338,7 +342,7 @@ export function recordSuccess(state: CircuitBreakerState, functionId: string): C
  */
 export function recordEscalation(
   state: CircuitBreakerState,
-  functionId: string,
+  functionId: FunctionId,
   newTier: ModelTier
 ): CircuitBreakerState {
   const funcState = state.functions.get(functionId);
@@ -371,7 +375,7 @@ export function recordEscalation(
  */
 export function recordFailure(
   state: CircuitBreakerState,
-  functionId: string,
+  functionId: FunctionId,
   failure: FailureType
 ): CircuitBreakerState {
   const funcState = state.functions.get(functionId);
@@ -984,7 +988,7 @@ export class CircuitBreaker {
    * @param functionId - The function identifier.
    * @param modulePath - The module path.
    */
-  registerFunction(functionId: string, modulePath: string): void {
+  registerFunction(functionId: FunctionId, modulePath: string): void {
     this.state = registerFunction(this.state, functionId, modulePath);
   }
 
@@ -995,7 +999,7 @@ export class CircuitBreaker {
    * @param tier - The model tier being used.
    * @returns The check result (may indicate circuit should trip).
    */
-  recordAttemptStart(functionId: string, tier: ModelTier): CircuitCheckResult {
+  recordAttemptStart(functionId: FunctionId, tier: ModelTier): CircuitCheckResult {
     this.state = recordAttemptStart(this.state, functionId, tier);
     return this.check();
   }
@@ -1005,7 +1009,7 @@ export class CircuitBreaker {
    *
    * @param functionId - The function identifier.
    */
-  recordSuccess(functionId: string): void {
+  recordSuccess(functionId: FunctionId): void {
     this.state = recordSuccess(this.state, functionId);
   }
 
@@ -1016,7 +1020,7 @@ export class CircuitBreaker {
    * @param newTier - The new model tier.
    * @returns The check result (may indicate circuit should trip).
    */
-  recordEscalation(functionId: string, newTier: ModelTier): CircuitCheckResult {
+  recordEscalation(functionId: FunctionId, newTier: ModelTier): CircuitCheckResult {
     this.state = recordEscalation(this.state, functionId, newTier);
     return this.check();
   }
@@ -1028,7 +1032,7 @@ export class CircuitBreaker {
    * @param failure - The failure type.
    * @returns The check result (may indicate circuit should trip).
    */
-  recordFailure(functionId: string, failure: FailureType): CircuitCheckResult {
+  recordFailure(functionId: FunctionId, failure: FailureType): CircuitCheckResult {
     this.state = recordFailure(this.state, functionId, failure);
     return this.check();
   }
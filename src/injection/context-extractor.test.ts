@@ -51,6 +51,7 @@ function add(a: number, b: number): number {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/math.ts::add',
         name: 'add',
         filePath: '/test/math.ts',
         line: 2,
@@ -80,6 +81,7 @@ async function fetchData(url: string): Promise<string> {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/async.ts::fetchData',
         name: 'fetchData',
         filePath: '/test/async.ts',
         line: 2,
@@ -104,6 +106,7 @@ function identity<T>(value: T): T {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/generic.ts::identity',
         name: 'identity',
         filePath: '/test/generic.ts',
         line: 2,
@@ -135,6 +138,7 @@ function add(a: number, b: number): number {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/contracts.ts::add',
         name: 'add',
         filePath: '/test/contracts.ts',
         line: 7,
@@ -166,6 +170,7 @@ function range(min: number, max: number, step: number): number[] {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/multi-contracts.ts::range',
         name: 'range',
         filePath: '/test/multi-contracts.ts',
         line: 8,
@@ -200,6 +205,7 @@ function createUser(name: string): User {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/types.ts::createUser',
         name: 'createUser',
         filePath: '/test/types.ts',
         line: 7,
@@ -228,6 +234,7 @@ function getResult(): Result {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/types.ts::getResult',
         name: 'getResult',
         filePath: '/test/types.ts',
         line: 4,
@@ -259,6 +266,7 @@ function getStatus(): Status {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/types.ts::getStatus',
         name: 'getStatus',
         filePath: '/test/types.ts',
         line: 8,
@@ -295,6 +303,7 @@ function processTransaction(account: Account, tx: Transaction): Account {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/types.ts::processTransaction',
         name: 'processTransaction',
         filePath: '/test/types.ts',
         line: 13,
@@ -333,6 +342,7 @@ function getAccount(id: string): Account {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/service.ts::getAccount',
         name: 'getAccount',
         filePath: '/test/service.ts',
         line: 4,
@@ -369,6 +379,7 @@ function getAccount(id: string): Account {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/types.ts::getAccount',
         name: 'getAccount',
         filePath: '/test/types.ts',
         line: 12,
@@ -395,6 +406,7 @@ function process(data: string): Promise<number> {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/builtin.ts::process',
         name: 'process',
         filePath: '/test/builtin.ts',
         line: 2,
@@ -424,6 +436,7 @@ function validate(input: NonEmptyString): PositiveNumber {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/witness.ts::validate',
         name: 'validate',
         filePath: '/test/witness.ts',
         line: 5,
@@ -458,6 +471,7 @@ function deposit(account: Account, amount: PositiveDecimal): Account {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/mixed.ts::deposit',
         name: 'deposit',
         filePath: '/test/mixed.ts',
         line: 9,
@@ -508,6 +522,7 @@ function withdraw(account: Account, amount: PositiveDecimal): Account | Insuffic
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/banking.ts::withdraw',
         name: 'withdraw',
         filePath: '/test/banking.ts',
         line: 20,
@@ -557,6 +572,7 @@ function processNode(node: Node): number {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/circular.ts::processNode',
         name: 'processNode',
         filePath: '/test/circular.ts',
         line: 8,
@@ -597,6 +613,7 @@ function processA(a: A): number {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/mutual-circular.ts::processA',
         name: 'processA',
         filePath: '/test/mutual-circular.ts',
         line: 13,
@@ -639,6 +656,7 @@ function process(input: Level1): void {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/deep-circular.ts::process',
         name: 'process',
         filePath: '/test/deep-circular.ts',
         line: 14,
@@ -680,6 +698,7 @@ function createProcessor(): Processor {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/class-methods.ts::createProcessor',
         name: 'createProcessor',
         filePath: '/test/class-methods.ts',
         line: 14,
@@ -717,6 +736,7 @@ function createService(config: Config): Service {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/class-ctor.ts::createService',
         name: 'createService',
         filePath: '/test/class-ctor.ts',
         line: 12,
@@ -759,6 +779,7 @@ function getAccount(account: Account): Value {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/class-accessors.ts::getAccount',
         name: 'getAccount',
         filePath: '/test/class-accessors.ts',
         line: 18,
@@ -791,6 +812,7 @@ function createSimple(): Simple {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/class-no-types.ts::createSimple',
         name: 'createSimple',
         filePath: '/test/class-no-types.ts',
         line: 9,
@@ -828,6 +850,7 @@ function formatUser(user: User): string {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/metrics.ts::formatUser',
         name: 'formatUser',
         filePath: '/test/metrics.ts',
         line: 12,
@@ -875,6 +898,7 @@ function processComplex<T extends object, K extends keyof T>(
       );
 
       const simpleTodo: TodoFunction = {
+        id: 'test/simple.ts::add',
         name: 'add',
         filePath: '/test/simple.ts',
         line: 2,
@@ -883,6 +907,7 @@ function processComplex<T extends object, K extends keyof T>(
       };
 
       const complexTodo: TodoFunction = {
+        id: 'test/complex.ts::processComplex',
         name: 'processComplex',
         filePath: '/test/complex.ts',
         line: 7,
@@ -920,6 +945,7 @@ function process(root: Root): void {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/deep.ts::process',
         name: 'process',
         filePath: '/test/deep.ts',
         line: 7,
@@ -958,6 +984,7 @@ function process(t: Type10): void {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/many-types.ts::process',
         name: 'process',
         filePath: '/test/many-types.ts',
         line: 13,
@@ -1006,6 +1033,7 @@ function createUser(name: NonEmptyString): User {
     );
 
     const todoFunction: TodoFunction = {
+      id: 'test/example.ts::createUser',
       name: 'createUser',
       filePath: '/test/example.ts',
       line: 9,
@@ -1041,6 +1069,7 @@ function traverse(node: Node): void {
     );
 
     const todoFunction: TodoFunction = {
+      id: 'test/circular.ts::traverse',
       name: 'traverse',
       filePath: '/test/circular.ts',
       line: 7,
@@ -1083,6 +1112,7 @@ function add(a: number, b: number): number {
     );
 
     const todoFunction: TodoFunction = {
+      id: 'test/simple.ts::add',
       name: 'add',
       filePath: '/test/simple.ts',
       line: 2,
@@ -1110,6 +1140,7 @@ function traverse(node: Node): void {
     );
 
     const todoFunction: TodoFunction = {
+      id: 'test/circular.ts::traverse',
       name: 'traverse',
       filePath: '/test/circular.ts',
       line: 7,
@@ -1141,6 +1172,7 @@ function complex(a: number, b: number, c: number, d: number, e: number, f: numbe
     );
 
     const todoFunction: TodoFunction = {
+      id: 'test/many-contracts.ts::complex',
       name: 'complex',
       filePath: '/test/many-contracts.ts',
       line: 11,
@@ -1166,6 +1198,7 @@ function process(m: Medium): Medium {
     );
 
     const todoFunction: TodoFunction = {
+      id: 'test/threshold.ts::process',
       name: 'process',
       filePath: '/test/threshold.ts',
       line: 4,
@@ -1297,6 +1330,7 @@ describe('property-based tests', () => {
             });
 
             const todoFunction: TodoFunction = {
+              id: `test/property-${fnSig.fnName}.ts::${fnSig.fnName}`,
               name: fnSig.fnName,
               filePath: `/test/property-${fnSig.fnName}.ts`,
               line: typeDefsText.split('\n').length + 3,
@@ -1354,6 +1388,7 @@ describe('property-based tests', () => {
             });
 
             const todoFunction: TodoFunction = {
+              id: `test/serial-${fnSig.fnName}.ts::${fnSig.fnName}`,
               name: fnSig.fnName,
               filePath: `/test/serial-${fnSig.fnName}.ts`,
               line: typeDefsText.split('\n').length + 3,
@@ -1420,6 +1455,7 @@ describe('property-based tests', () => {
             });
 
             const todoFunction1: TodoFunction = {
+              id: `test/mono1-${fnSig.fnName}.ts::${fnSig.fnName}`,
               name: fnSig.fnName,
               filePath: `/test/mono1-${fnSig.fnName}.ts`,
               line: contracts1.length > 0 ? contracts1.length + 2 : 1,
@@ -1428,6 +1464,7 @@ describe('property-based tests', () => {
             };
 
             const todoFunction2: TodoFunction = {
+              id: `test/mono2-${fnSig.fnName}.ts::${fnSig.fnName}`,
               name: fnSig.fnName,
               filePath: `/test/mono2-${fnSig.fnName}.ts`,
               line: contracts2.length > 0 ? contracts2.length + 2 : 1,
@@ -1499,6 +1536,7 @@ describe('property-based tests', () => {
             });
 
             const todoFunction1: TodoFunction = {
+              id: `test/complex1-${fnSig.fnName}.ts::${fnSig.fnName}`,
               name: fnSig.fnName,
               filePath: `/test/complex1-${fnSig.fnName}.ts`,
               line: chain1.types.length + (chain1.types.length > 0 ? 2 : 0) + 1,
@@ -1507,6 +1545,7 @@ describe('property-based tests', () => {
             };
 
             const todoFunction2: TodoFunction = {
+              id: `test/complex2-${fnSig.fnName}.ts::${fnSig.fnName}`,
               name: fnSig.fnName,
               filePath: `/test/complex2-${fnSig.fnName}.ts`,
               line: chain2.types.length + (chain2.types.length > 0 ? 2 : 0) + 1,
@@ -12,6 +12,7 @@
  * @packageDocumentation
  */
 
+import type { FunctionId } from '../adapters/typescript/function-id.js';
 import type { ModelAlias } from '../router/types.js';
 import { TypedMap } from '../utils/typed-map.js';
 
@@ -141,8 +142,8 @@ export function isHighestTier(tier: ModelTier): boolean {
  * Tracks attempts per model tier for a single function.
  */
 export interface FunctionAttempts {
-  /** The function identifier (name or qualified name). */
-  readonly functionId: string;
+  /** The function's canonical id (see {@link FunctionId}). */
+  readonly functionId: FunctionId;
   /** Attempts per model tier. */
   readonly attemptsByTier: TypedMap<ModelTier, number>;
   /** Total attempts across all tiers. */
@@ -159,7 +160,7 @@ export interface FunctionAttempts {
  * @param functionId - The function identifier.
  * @returns A new FunctionAttempts object.
  */
-export function createFunctionAttempts(functionId: string): FunctionAttempts {
+export function createFunctionAttempts(functionId: FunctionId): FunctionAttempts {
   return {
     functionId,
     attemptsByTier: new TypedMap<ModelTier, number>()
@@ -635,7 +636,7 @@ function escalateOrBreak(currentTier: ModelTier, reason: string): EscalationDeci
  * @returns A formatted failure summary string.
  */
 export function generateFailureSummary(
-  functionId: string,
+  functionId: FunctionId,
   signature: string,
   failure: FailureType
 ): string {
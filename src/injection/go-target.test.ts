@@ -0,0 +1,212 @@
+/**
+ * Tests for the Go language target.
+ *
+ * Discovery and injection run the AST helper with the local Go toolchain;
+ * go build, vet, and test are mocked.
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { safeMkdir, safeReadFile, safeWriteFile } from '../utils/safe-fs.js';
+import type { ModelRouter, ModelRouterRequest, ModelRouterResult } from '../router/types.js';
+
+vi.mock('../adapters/go/gotool.js', async () => {
+  const actual = await vi.importActual<typeof import('../adapters/go/gotool.js')>(
+    '../adapters/go/gotool.js'
+  );
+  return { ...actual, runGoCheck: vi.fn(), runGoTests: vi.fn() };
+});
+
+const { runGoCheck, runGoTests } = await import('../adapters/go/gotool.js');
+const { createGoTarget } = await import('./go-target.js');
+const { createRalphLoop } = await import('./ralph-loop.js');
+
+const MATH_GO = `package mathutil
+
+// Positive is a strictly positive integer.
+type Positive int
+
+// Double returns twice x.
+func Double(x Positive) int {
+	panic("TODO")
+}
+
+func Quadruple(x Positive) int {
+	panic("TODO")
+}
+`;
+
+// Helper to create a ModelRouter that answers from a function-name lookup
+function createMockModelRouter(bodies: Record<string, string>): ModelRouter {
+  return {
+    prompt: vi.fn(),
+    complete: vi.fn().mockImplementation((request: ModelRouterRequest) => {
+      const name = request.functionId?.split(':').pop() ?? '';
+      const result: ModelRouterResult = {
+        success: true,
+        response: {
+          content: bodies[name] ?? 'panic("TODO")',
+          usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+          metadata: { modelId: 'test-model', provider: 'test', latencyMs: 100 },
+        },
+      };
+      return Promise.resolve(result);
+    }),
+    stream: vi.fn(),
+  };
+}
+
+describe('createGoTarget', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await mkdtemp(path.join(os.tmpdir(), 'go-target-test-'));
+    await safeWriteFile(path.join(projectPath, 'go.mod'), 'module example.com/m\n\ngo 1.21\n');
+    await safeMkdir(path.join(projectPath, 'mathutil'));
+    await safeWriteFile(path.join(projectPath, 'mathutil', 'math.go'), MATH_GO);
+    await safeWriteFile(path.join(projectPath, 'mathutil', 'math_test.go'), 'package mathutil\n');
+
+    vi.mocked(runGoCheck).mockResolvedValue({
+      success: true,
+      errors: [],
+      errorCount: 0,
+      warningCount: 0,
+    });
+    vi.mocked(runGoTests).mockResolvedValue({
+      success: true,
+      totalTests: 1,
+      passedTests: 1,
+      failedTests: 0,
+      skippedTests: 0,
+      tests: [],
+      diagnostics: [],
+    });
+  });
+
+  afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+    vi.mocked(runGoCheck).mockReset();
+    vi.mocked(runGoTests).mockReset();
+  });
+
+  it('should keep source order since stubs do not call each other', async () => {
+    const target = createGoTarget({ projectPath });
+
+    const todos = await target.findTodoFunctions(undefined);
+    expect(todos.map((t) => t.name)).toEqual(['Double', 'Quadruple']);
+    expect(await target.buildDependencyMap(todos, undefined)).toEqual(
+      new Map(todos.map((t) => [t.id, new Set()]))
+    );
+  });
+
+  it('should build a prompt context with the doc comment and witness types', async () => {
+    const target = createGoTarget({ projectPath });
+    const [double] = await target.findTodoFunctions(undefined);
+    if (double === undefined) {
+      throw new Error('expected a TODO function');
+    }
+
+    const context = await target.buildContext(undefined, double);
+
+    expect(context.signature).toBe('// Double returns twice x.\nfunc Double(x Positive) int');
+    expect(context.witnessDefinitions).toEqual(['type Positive int']);
+    expect(context.requiredTypes).toEqual([]);
+  });
+
+  it('should map go build and vet errors to compiler errors', async () => {
+    vi.mocked(runGoCheck).mockResolvedValueOnce({
+      success: false,
+      errors: [
+        {
+          file: path.join(projectPath, 'mathutil', 'math.go'),
+          line: 8,
+          column: 9,
+          code: 'build',
+          message: 'cannot use "x" (untyped string constant) as int value in return statement',
+          severity: 'error',
+        },
+      ],
+      errorCount: 1,
+      warningCount: 0,
+    });
+
+    const result = await createGoTarget({ projectPath }).typeCheck();
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toMatchObject({ code: 'build', line: 8, typeDetails: null });
+  });
+
+  it('should find the _test.go file next to the source', async () => {
+    const target = createGoTarget({ projectPath });
+    const [double] = await target.findTodoFunctions(undefined);
+    if (double === undefined) {
+      throw new Error('expected a TODO function');
+    }
+
+    expect(await target.findTestFile(double)).toBe(
+      path.join(projectPath, 'mathutil', 'math_test.go')
+    );
+  });
+
+  it('should implement Go modules through the Ralph Loop', async () => {
+    const loop = createRalphLoop({
+      projectPath,
+      language: 'go',
+      modelRouter: createMockModelRouter({
+        Double: '```go\nreturn int(x) * 2\n```',
+        Quadruple: 'return Double(Positive(Double(x)))',
+      }),
+      logger: () => undefined,
+    });
+
+    const result = await loop.run();
+
+    expect(result.success).toBe(true);
+    expect(result.implementedCount).toBe(2);
+    const updated = await safeReadFile(path.join(projectPath, 'mathutil', 'math.go'), 'utf-8');
+    expect(updated).toContain('func Double(x Positive) int {\n\treturn int(x) * 2\n}');
+    expect(updated).toContain('\treturn Double(Positive(Double(x)))\n');
+    expect(runGoTests).toHaveBeenCalledWith(
+      './mathutil',
+      expect.objectContaining({ cwd: projectPath })
+    );
+  });
+
+  it('should roll back bodies that fail go build', async () => {
+    vi.mocked(runGoCheck).mockResolvedValue({
+      success: false,
+      errors: [
+        {
+          file: path.join(projectPath, 'mathutil', 'math.go'),
+          line: 8,
+          column: 9,
+          code: 'build',
+          message: 'cannot use "x" (untyped string constant) as int value in return statement',
+          severity: 'error',
+        },
+      ],
+      errorCount: 1,
+      warningCount: 0,
+    });
+
+    const loop = createRalphLoop({
+      projectPath,
+      language: 'go',
+      modelRouter: createMockModelRouter({ Double: 'return "x"', Quadruple: 'return "x"' }),
+      maxAttemptsPerFunction: 1,
+      logger: () => undefined,
+    });
+
+    const result = await loop.run();
+
+    expect(result.implementedCount).toBe(0);
+    expect(result.attempts[0]?.rejectionReason).toContain('untyped string constant');
+    expect(await safeReadFile(path.join(projectPath, 'mathutil', 'math.go'), 'utf-8')).toBe(
+      MATH_GO
+    );
+  });
+});
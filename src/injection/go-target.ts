@@ -0,0 +1,217 @@
+/**
+ * Go language target for the Ralph Loop.
+ *
+ * Delegates discovery, context extraction, and injection to the Go adapter
+ * (go/ast via a compiled helper), and verifies through `go build`,
+ * `go vet`, and `go test`. The target reads from disk on every call, so it
+ * needs no in-memory view.
+ *
+ * @packageDocumentation
+ */
+
+import * as path from 'node:path';
+import { GoAdapter, type GoTodoFunction } from '../adapters/go/index.js';
+import { runGoCheck } from '../adapters/go/gotool.js';
+import { topologicalSort, type TodoFunction } from '../adapters/typescript/ast.js';
+import { createFunctionId } from '../adapters/typescript/function-id.js';
+import type { CompilerError, TypeCheckResult } from '../adapters/typescript/typecheck.js';
+import type { FileMove } from '../ledger/types.js';
+import { safeExists } from '../utils/safe-fs.js';
+import type { FunctionContext, LanguageTarget, PromptLanguage } from './ralph-loop.js';
+
+/**
+ * Options for the Go language target.
+ */
+export interface GoTargetOptions {
+  /** Path to the module root (the directory containing go.mod). */
+  readonly projectPath: string;
+  /** Go command for the AST helper, build, vet, and tests. Default: 'go'. */
+  readonly go?: string;
+  /** File moves recorded in the ledger, oldest first, for stable function ids. */
+  readonly fileMoves?: readonly FileMove[];
+}
+
+/**
+ * Prompt wording for Go targets.
+ */
+export const GO_PROMPT_LANGUAGE: PromptLanguage = {
+  name: 'Go',
+  codeFence: 'go',
+  returnInstruction:
+    'Return ONLY the function body statements (no func line, no braces, no explanation).',
+};
+
+/**
+ * System prompt for the worker model on Go targets.
+ */
+const GO_SYSTEM_PROMPT = `You are a precise Go implementation assistant. Your task is to implement function bodies based on the provided signature, doc comment, and types.
+
+CRITICAL RULES:
+1. Return ONLY the statements of the function body
+2. Do NOT include the func line, the doc comment, or the surrounding braces
+3. Only use packages the file already imports
+4. The result must pass go build and go vet
+5. Keep implementations simple and focused
+6. Do NOT add any explanation or markdown - just the raw code
+
+EXAMPLE:
+If given signature: func Add(a int, b int) int
+You return ONLY: return a + b`;
+
+/**
+ * Creates the Go language target.
+ *
+ * The project must contain go.mod; otherwise discovery rejects with
+ * NotGoProjectError.
+ *
+ * @param options - Target options.
+ * @returns The Go target.
+ */
+export function createGoTarget(options: GoTargetOptions): LanguageTarget<undefined> {
+  const projectPath = path.resolve(options.projectPath);
+  const go = options.go ?? 'go';
+  const adapter = new GoAdapter();
+  let initialized: Promise<void> | undefined;
+
+  const ready = async (): Promise<GoAdapter> => {
+    initialized ??= adapter.initialize(projectPath, { go });
+    await initialized;
+    return adapter;
+  };
+
+  const buildCallGraph = async (
+    functions: readonly TodoFunction[]
+  ): Promise<Map<string, Set<string>>> => {
+    const todoNames = new Set(functions.map((fn) => fn.name));
+    const scans = await (await ready()).scanProject();
+    const callGraph = new Map<string, Set<string>>();
+    for (const scan of scans) {
+      for (const fn of scan.functions) {
+        if (!fn.isStub || !todoNames.has(fn.name)) {
+          continue;
+        }
+        const calls = callGraph.get(fn.name) ?? new Set<string>();
+        for (const called of fn.calls) {
+          if (todoNames.has(called) && called !== fn.name) {
+            calls.add(called);
+          }
+        }
+        callGraph.set(fn.name, calls);
+      }
+    }
+    return callGraph;
+  };
+
+  return {
+    language: 'go',
+    prompt: GO_PROMPT_LANGUAGE,
+    systemPrompt: GO_SYSTEM_PROMPT,
+
+    createView: () => undefined,
+
+    findTodoFunctions: async () =>
+      (await (await ready()).findTodoFunctions()).map((todo) => ({
+        ...todo,
+        id: createFunctionId(
+          todo.filePath,
+          projectPath,
+          {
+            containers: todo.receiver !== undefined ? [todo.receiver] : [],
+            name: todo.name,
+            overload: 0,
+          },
+          options.fileMoves
+        ),
+      })),
+
+    orderByDependency: async (functions) =>
+      functions.length === 0 ? [] : topologicalSort(functions, await buildCallGraph(functions)),
+
+    buildDependencyMap: async (functions) => {
+      const callGraph = await buildCallGraph(functions);
+      return new Map(
+        functions.map((fn) => {
+          const calls = callGraph.get(fn.name) ?? new Set<string>();
+          const deps = functions
+            .filter((callee) => callee.id !== fn.id && calls.has(callee.name))
+            .map((callee) => callee.id);
+          return [fn.id, new Set(deps)];
+        })
+      );
+    },
+
+    buildContext: async (_view, todoFunction) => {
+      const context = await (
+        await ready()
+      ).extractContext(todoFunction.name, todoFunction.filePath, receiverOf(todoFunction));
+      const fn = context.function;
+      const doc = (fn.doc?.split('\n') ?? []).map((line) => (line === '' ? '//' : `// ${line}`));
+
+      const result: FunctionContext = {
+        signature: [...doc, fn.signature].join('\n'),
+        contracts: [],
+        requiredTypes: context.referencedTypes
+          .filter((type) => type.kind !== 'defined')
+          .map((type) => type.definition),
+        witnessDefinitions: context.referencedTypes
+          .filter((type) => type.kind === 'defined')
+          .map((type) => type.definition),
+        filePath: context.filePath,
+        functionName: todoFunction.name,
+      };
+      return result;
+    },
+
+    refresh: () => Promise.resolve(),
+
+    inject: async (_view, todoFunction, body) => {
+      const result = await (
+        await ready()
+      ).inject(todoFunction.name, body, todoFunction.filePath, receiverOf(todoFunction));
+      if (!result.success) {
+        throw new Error(result.error ?? `Failed to inject ${todoFunction.name}`);
+      }
+    },
+
+    typeCheck: async (): Promise<TypeCheckResult> => {
+      const check = await runGoCheck(projectPath, { go });
+      const errors: CompilerError[] = check.errors
+        .filter((error) => error.severity === 'error')
+        .map((error) => ({
+          file: error.file,
+          line: error.line,
+          column: error.column,
+          code: error.code,
+          message: error.message,
+          typeDetails: null,
+        }));
+      return {
+        success: check.success,
+        errors,
+        errorCount: check.errorCount,
+        warningCount: check.warningCount,
+      };
+    },
+
+    findTestFile: async (todoFunction) => {
+      // Go tests for money.go conventionally live in money_test.go
+      const candidate = todoFunction.filePath.replace(/\.go$/, '_test.go');
+      return (await safeExists(candidate)) ? candidate : undefined;
+    },
+
+    runTests: async (testPattern) => {
+      // go test takes packages, so a test file runs its whole package
+      const pattern = testPattern.endsWith('.go')
+        ? `./${path.relative(projectPath, path.dirname(path.resolve(projectPath, testPattern)))}`
+        : testPattern;
+      return (await ready()).runTests(pattern === './' ? '.' : pattern);
+    },
+  };
+}
+
+/**
+ * Returns the receiver type of a Go TODO method, if any.
+ */
+function receiverOf(todoFunction: TodoFunction | GoTodoFunction): string | undefined {
+  return 'receiver' in todoFunction ? todoFunction.receiver : undefined;
+}
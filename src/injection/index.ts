@@ -7,6 +7,9 @@
 export {
   RalphLoop,
   createRalphLoop,
+  createTypeScriptTarget,
+  UnsupportedLanguageError,
+  TYPESCRIPT_PROMPT_LANGUAGE,
   generateImplementationPrompt,
   parseImplementationResponse,
   buildFunctionContext,
@@ -16,8 +19,19 @@ export {
   type ImplementationAttempt,
   type RalphLoopResult,
   type RalphLoopOptions,
+  type LanguageTarget,
+  type PromptLanguage,
+  type TypeScriptTargetOptions,
 } from './ralph-loop.js';
 
+export {
+  createPythonTarget,
+  PYTHON_PROMPT_LANGUAGE,
+  type PythonTargetOptions,
+} from './python-target.js';
+
+export { createGoTarget, GO_PROMPT_LANGUAGE, type GoTargetOptions } from './go-target.js';
+
 export {
   extractContext,
   serializeContextForPrompt,
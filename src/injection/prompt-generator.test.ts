@@ -50,6 +50,7 @@ function add(a: number, b: number): number {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::add',
         name: 'add',
         filePath: '/test/example.ts',
         line: 2,
@@ -74,6 +75,7 @@ function multiply(x: number, y: number): number {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::multiply',
         name: 'multiply',
         filePath: '/test/example.ts',
         line: 2,
@@ -105,6 +107,7 @@ function square(a: number): number {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::square',
         name: 'square',
         filePath: '/test/example.ts',
         line: 8,
@@ -138,6 +141,7 @@ function createUser(name: string): User {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::createUser',
         name: 'createUser',
         filePath: '/test/example.ts',
         line: 7,
@@ -165,6 +169,7 @@ function double(n: PositiveNumber): PositiveNumber {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::double',
         name: 'double',
         filePath: '/test/example.ts',
         line: 4,
@@ -191,6 +196,7 @@ function identity(x: number): number {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::identity',
         name: 'identity',
         filePath: '/test/example.ts',
         line: 2,
@@ -229,6 +235,7 @@ function binarySearch(haystack: SortedArray<number>, needle: number): number | u
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/search.ts::binarySearch',
         name: 'binarySearch',
         filePath: '/test/search.ts',
         line: 13,
@@ -278,6 +285,7 @@ function add(a: number, b: number): number {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::add',
         name: 'add',
         filePath: '/test/example.ts',
         line: 2,
@@ -306,6 +314,7 @@ function add(a: number, b: number): number {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::add',
         name: 'add',
         filePath: '/test/example.ts',
         line: 2,
@@ -342,6 +351,7 @@ function anotherHelper(y: string): string {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::targetFunction',
         name: 'targetFunction',
         filePath: '/test/example.ts',
         line: 6,
@@ -371,6 +381,7 @@ function add(a: number, b: number): number {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::add',
         name: 'add',
         filePath: '/test/example.ts',
         line: 2,
@@ -398,6 +409,7 @@ function add(a: number, b: number): number {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::add',
         name: 'add',
         filePath: '/test/example.ts',
         line: 2,
@@ -433,6 +445,7 @@ function processLarge(data: LargeType): LargeType {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/large.ts::processLarge',
         name: 'processLarge',
         filePath: '/test/large.ts',
         line: 4003,
@@ -467,6 +480,7 @@ function createUser(name: string): User {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::createUser',
         name: 'createUser',
         filePath: '/test/example.ts',
         line: 10,
@@ -503,6 +517,7 @@ function divide(a: number, b: number): number {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::divide',
         name: 'divide',
         filePath: '/test/example.ts',
         line: 7,
@@ -533,6 +548,7 @@ function average(a: number, b: number): number {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::average',
         name: 'average',
         filePath: '/test/example.ts',
         line: 6,
@@ -561,6 +577,7 @@ function accumulate(values: number[]): number {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::accumulate',
         name: 'accumulate',
         filePath: '/test/example.ts',
         line: 5,
@@ -585,6 +602,7 @@ function add(a: number, b: number): number {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::add',
         name: 'add',
         filePath: '/test/example.ts',
         line: 2,
@@ -622,6 +640,7 @@ function transfer(acc: Account, tx: Transaction): Account {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::transfer',
         name: 'transfer',
         filePath: '/test/example.ts',
         line: 13,
@@ -648,6 +667,7 @@ function add(a: number, b: number): number {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::add',
         name: 'add',
         filePath: '/test/example.ts',
         line: 2,
@@ -678,6 +698,7 @@ function deposit(acc: Account, amount: PositiveDecimal): Account {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::deposit',
         name: 'deposit',
         filePath: '/test/example.ts',
         line: 8,
@@ -725,6 +746,7 @@ function myFunction(x: number): number {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::myFunction',
         name: 'myFunction',
         filePath: '/test/example.ts',
         line: 2,
@@ -749,6 +771,7 @@ function test(): void {
       );
 
       const todoFunction: TodoFunction = {
+        id: 'test/example.ts::test',
         name: 'test',
         filePath: '/test/example.ts',
         line: 2,
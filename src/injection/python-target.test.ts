@@ -0,0 +1,230 @@
+/**
+ * Tests for the Python language target.
+ *
+ * Discovery and injection run the AST helper on the local python3
+ * interpreter; mypy and pytest are mocked.
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { safeMkdir, safeReadFile, safeWriteFile } from '../utils/safe-fs.js';
+import type { ModelRouter, ModelRouterRequest, ModelRouterResult } from '../router/types.js';
+
+vi.mock('../adapters/python/mypy.js', async () => {
+  const actual = await vi.importActual<typeof import('../adapters/python/mypy.js')>(
+    '../adapters/python/mypy.js'
+  );
+  return { ...actual, runMypy: vi.fn() };
+});
+
+vi.mock('../adapters/python/pytest.js', async () => {
+  const actual = await vi.importActual<typeof import('../adapters/python/pytest.js')>(
+    '../adapters/python/pytest.js'
+  );
+  return { ...actual, runPytest: vi.fn() };
+});
+
+const { runMypy } = await import('../adapters/python/mypy.js');
+const { runPytest } = await import('../adapters/python/pytest.js');
+const { createPythonTarget } = await import('./python-target.js');
+const { createRalphLoop, UnsupportedLanguageError } = await import('./ralph-loop.js');
+
+const MATH_PY = `from typing import NewType
+
+Positive = NewType("Positive", int)
+
+
+def double(x: Positive) -> int:
+    """Returns twice x."""
+    raise NotImplementedError
+
+
+def quadruple(x: Positive) -> int:
+    raise NotImplementedError
+`;
+
+// Helper to create a ModelRouter that answers from a function-name lookup
+function createMockModelRouter(bodies: Record<string, string>): ModelRouter {
+  return {
+    prompt: vi.fn(),
+    complete: vi.fn().mockImplementation((request: ModelRouterRequest) => {
+      const name = request.functionId?.split(':').pop() ?? '';
+      const result: ModelRouterResult = {
+        success: true,
+        response: {
+          content: bodies[name] ?? 'pass',
+          usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+          metadata: { modelId: 'test-model', provider: 'test', latencyMs: 100 },
+        },
+      };
+      return Promise.resolve(result);
+    }),
+    stream: vi.fn(),
+  };
+}
+
+describe('createPythonTarget', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await mkdtemp(path.join(os.tmpdir(), 'python-target-test-'));
+    await safeWriteFile(path.join(projectPath, 'pyproject.toml'), '[project]\nname = "m"\n');
+    await safeMkdir(path.join(projectPath, 'tests'));
+    await safeWriteFile(path.join(projectPath, 'math_utils.py'), MATH_PY);
+    await safeWriteFile(path.join(projectPath, 'tests', 'test_math_utils.py'), '');
+
+    vi.mocked(runMypy).mockResolvedValue({
+      success: true,
+      errors: [],
+      errorCount: 0,
+      warningCount: 0,
+    });
+    vi.mocked(runPytest).mockResolvedValue({
+      success: true,
+      totalTests: 1,
+      passedTests: 1,
+      failedTests: 0,
+      skippedTests: 0,
+      tests: [],
+    });
+  });
+
+  afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+    vi.mocked(runMypy).mockReset();
+    vi.mocked(runPytest).mockReset();
+  });
+
+  it('should keep source order since stubs do not call each other', async () => {
+    const target = createPythonTarget({ projectPath });
+
+    const todos = await target.findTodoFunctions(undefined);
+    expect(todos.map((t) => t.name)).toEqual(['double', 'quadruple']);
+    expect((await target.orderByDependency(todos, undefined)).map((t) => t.name)).toEqual([
+      'double',
+      'quadruple',
+    ]);
+
+    const dependencies = await target.buildDependencyMap(todos, undefined);
+    expect(dependencies).toEqual(new Map(todos.map((t) => [t.id, new Set()])));
+  });
+
+  it('should build a prompt context with the docstring and witness types', async () => {
+    const target = createPythonTarget({ projectPath });
+    const [double] = await target.findTodoFunctions(undefined);
+    if (double === undefined) {
+      throw new Error('expected a TODO function');
+    }
+
+    const context = await target.buildContext(undefined, double);
+
+    expect(context.signature).toBe('def double(x: Positive) -> int:\n    """Returns twice x."""');
+    expect(context.witnessDefinitions).toEqual(['Positive = NewType("Positive", int)']);
+    expect(context.contracts).toEqual([]);
+  });
+
+  it('should map mypy errors to compiler errors', async () => {
+    vi.mocked(runMypy).mockResolvedValueOnce({
+      success: false,
+      errors: [
+        {
+          file: path.join(projectPath, 'math_utils.py'),
+          line: 8,
+          column: 12,
+          code: 'return-value',
+          message: 'Incompatible return value type (got "str", expected "int")',
+          severity: 'error',
+        },
+      ],
+      errorCount: 1,
+      warningCount: 0,
+    });
+
+    const result = await createPythonTarget({ projectPath }).typeCheck();
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toMatchObject({ code: 'return-value', line: 8, typeDetails: null });
+  });
+
+  it('should find test files under tests/', async () => {
+    const target = createPythonTarget({ projectPath });
+    const [double] = await target.findTodoFunctions(undefined);
+    if (double === undefined) {
+      throw new Error('expected a TODO function');
+    }
+
+    expect(await target.findTestFile(double)).toBe(
+      path.join(projectPath, 'tests', 'test_math_utils.py')
+    );
+  });
+
+  it('should implement Python projects through the Ralph Loop', async () => {
+    const loop = createRalphLoop({
+      projectPath,
+      language: 'python',
+      modelRouter: createMockModelRouter({
+        double: '```python\nreturn x * 2\n```',
+        quadruple: 'return double(double(x))',
+      }),
+      logger: () => undefined,
+    });
+
+    const result = await loop.run();
+
+    expect(result.success).toBe(true);
+    expect(result.implementedCount).toBe(2);
+    const updated = await safeReadFile(path.join(projectPath, 'math_utils.py'), 'utf-8');
+    expect(updated).toContain('    """Returns twice x."""\n    return x * 2\n');
+    expect(updated).toContain('    return double(double(x))\n');
+    expect(runPytest).toHaveBeenCalledWith(
+      path.join(projectPath, 'tests', 'test_math_utils.py'),
+      expect.objectContaining({ cwd: projectPath })
+    );
+  });
+
+  it('should roll back bodies that fail mypy', async () => {
+    vi.mocked(runMypy).mockResolvedValue({
+      success: false,
+      errors: [
+        {
+          file: 'math_utils.py',
+          line: 8,
+          column: 5,
+          code: 'return-value',
+          message: 'Incompatible return value type',
+          severity: 'error',
+        },
+      ],
+      errorCount: 1,
+      warningCount: 0,
+    });
+
+    const loop = createRalphLoop({
+      projectPath,
+      language: 'python',
+      modelRouter: createMockModelRouter({ double: 'return "x"', quadruple: 'return "x"' }),
+      maxAttemptsPerFunction: 1,
+      logger: () => undefined,
+    });
+
+    const result = await loop.run();
+
+    expect(result.implementedCount).toBe(0);
+    expect(result.attempts[0]?.rejectionReason).toContain('return-value');
+    expect(await safeReadFile(path.join(projectPath, 'math_utils.py'), 'utf-8')).toBe(MATH_PY);
+  });
+
+  it('should reject languages without a target', () => {
+    expect(() =>
+      createRalphLoop({
+        projectPath,
+        language: 'java',
+        modelRouter: createMockModelRouter({}),
+      })
+    ).toThrow(UnsupportedLanguageError);
+  });
+});
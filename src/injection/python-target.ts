@@ -0,0 +1,228 @@
+/**
+ * Python language target for the Ralph Loop.
+ *
+ * Delegates discovery, context extraction, and injection to the Python
+ * adapter (ast module via a Python subprocess), and verifies through mypy
+ * and pytest. The target reads from disk on every call, so it needs no
+ * in-memory view.
+ *
+ * @packageDocumentation
+ */
+
+import * as path from 'node:path';
+import { PythonAdapter, type PythonTodoFunction } from '../adapters/python/index.js';
+import { runMypy } from '../adapters/python/mypy.js';
+import { topologicalSort, type TodoFunction } from '../adapters/typescript/ast.js';
+import { createFunctionId } from '../adapters/typescript/function-id.js';
+import type { CompilerError, TypeCheckResult } from '../adapters/typescript/typecheck.js';
+import type { FileMove } from '../ledger/types.js';
+import { safeExists } from '../utils/safe-fs.js';
+import type { FunctionContext, LanguageTarget, PromptLanguage } from './ralph-loop.js';
+
+/**
+ * Options for the Python language target.
+ */
+export interface PythonTargetOptions {
+  /** Path to project directory. */
+  readonly projectPath: string;
+  /** Python interpreter for the AST helper, mypy, and pytest. Default: 'python3'. */
+  readonly python?: string;
+  /** File moves recorded in the ledger, oldest first, for stable function ids. */
+  readonly fileMoves?: readonly FileMove[];
+}
+
+/**
+ * Prompt wording for Python targets.
+ */
+export const PYTHON_PROMPT_LANGUAGE: PromptLanguage = {
+  name: 'Python',
+  codeFence: 'python',
+  returnInstruction:
+    'Return ONLY the function body statements (no def line, no docstring, no explanation).',
+};
+
+/**
+ * System prompt for the worker model on Python targets.
+ */
+const PYTHON_SYSTEM_PROMPT = `You are a precise Python implementation assistant. Your task is to implement function bodies based on the provided signature, docstring, and types.
+
+CRITICAL RULES:
+1. Return ONLY the statements of the function body
+2. Do NOT include the def line, decorators, or the docstring
+3. Do NOT indent the first statement; keep relative indentation for nested blocks
+4. The result must type-check under mypy with the given annotations
+5. Keep implementations simple and focused
+6. Do NOT add any explanation or markdown - just the raw code
+
+EXAMPLE:
+If given signature: def add(a: int, b: int) -> int
+You return ONLY: return a + b`;
+
+/**
+ * Creates the Python language target.
+ *
+ * The project must contain pyproject.toml, setup.py, setup.cfg, or
+ * requirements.txt; otherwise discovery rejects with NotPythonProjectError.
+ *
+ * @param options - Target options.
+ * @returns The Python target.
+ */
+export function createPythonTarget(options: PythonTargetOptions): LanguageTarget<undefined> {
+  const projectPath = path.resolve(options.projectPath);
+  const python = options.python ?? 'python3';
+  const adapter = new PythonAdapter();
+  let initialized: Promise<void> | undefined;
+
+  const ready = async (): Promise<PythonAdapter> => {
+    initialized ??= adapter.initialize(projectPath, { python });
+    await initialized;
+    return adapter;
+  };
+
+  const buildCallGraph = async (
+    functions: readonly TodoFunction[]
+  ): Promise<Map<string, Set<string>>> => {
+    const todoNames = new Set(functions.map((fn) => fn.name));
+    const scans = await (await ready()).scanProject();
+    const callGraph = new Map<string, Set<string>>();
+    for (const scan of scans) {
+      for (const fn of scan.functions) {
+        if (!fn.isStub || !todoNames.has(fn.name)) {
+          continue;
+        }
+        const calls = callGraph.get(fn.name) ?? new Set<string>();
+        for (const called of fn.calls) {
+          if (todoNames.has(called) && called !== fn.name) {
+            calls.add(called);
+          }
+        }
+        callGraph.set(fn.name, calls);
+      }
+    }
+    return callGraph;
+  };
+
+  return {
+    language: 'python',
+    prompt: PYTHON_PROMPT_LANGUAGE,
+    systemPrompt: PYTHON_SYSTEM_PROMPT,
+
+    createView: () => undefined,
+
+    findTodoFunctions: async () =>
+      (await (await ready()).findTodoFunctions()).map((todo) => ({
+        ...todo,
+        id: createFunctionId(
+          todo.filePath,
+          projectPath,
+          {
+            containers: todo.className !== undefined ? [todo.className] : [],
+            name: todo.name,
+            overload: 0,
+          },
+          options.fileMoves
+        ),
+      })),
+
+    orderByDependency: async (functions) =>
+      functions.length === 0 ? [] : topologicalSort(functions, await buildCallGraph(functions)),
+
+    buildDependencyMap: async (functions) => {
+      const callGraph = await buildCallGraph(functions);
+      return new Map(
+        functions.map((fn) => {
+          const calls = callGraph.get(fn.name) ?? new Set<string>();
+          const deps = functions
+            .filter((callee) => callee.id !== fn.id && calls.has(callee.name))
+            .map((callee) => callee.id);
+          return [fn.id, new Set(deps)];
+        })
+      );
+    },
+
+    buildContext: async (_view, todoFunction) => {
+      const context = await (
+        await ready()
+      ).extractContext(todoFunction.name, todoFunction.filePath, classNameOf(todoFunction));
+      const fn = context.function;
+      const signature =
+        fn.docstring !== undefined
+          ? `${fn.signature}:\n    """${fn.docstring.replace(/\n/g, '\n    ')}"""`
+          : fn.signature;
+
+      const result: FunctionContext = {
+        signature:
+          fn.className !== undefined ? `class ${fn.className}:\n    ${signature}` : signature,
+        contracts: [],
+        requiredTypes: context.referencedTypes
+          .filter((type) => type.kind !== 'newtype')
+          .map((type) => type.definition),
+        witnessDefinitions: context.referencedTypes
+          .filter((type) => type.kind === 'newtype')
+          .map((type) => type.definition),
+        filePath: context.filePath,
+        functionName: todoFunction.name,
+      };
+      return result;
+    },
+
+    refresh: () => Promise.resolve(),
+
+    inject: async (_view, todoFunction, body) => {
+      const result = await (
+        await ready()
+      ).inject(todoFunction.name, body, todoFunction.filePath, classNameOf(todoFunction));
+      if (!result.success) {
+        throw new Error(result.error ?? `Failed to inject ${todoFunction.name}`);
+      }
+    },
+
+    typeCheck: async (): Promise<TypeCheckResult> => {
+      const check = await runMypy(projectPath, { python });
+      const errors: CompilerError[] = check.errors
+        .filter((error) => error.severity === 'error')
+        .map((error) => ({
+          file: error.file,
+          line: error.line,
+          column: error.column,
+          code: error.code,
+          message: error.message,
+          typeDetails: null,
+        }));
+      return {
+        success: check.success,
+        errors,
+        errorCount: check.errorCount,
+        warningCount: check.warningCount,
+      };
+    },
+
+    findTestFile: async (todoFunction) => {
+      // pytest discovers test_<module>.py and <module>_test.py, next to the
+      // module or under the project's tests/ directory
+      const baseName = path.basename(todoFunction.filePath, '.py');
+      const dirName = path.dirname(todoFunction.filePath);
+      const candidates = [
+        path.join(dirName, `test_${baseName}.py`),
+        path.join(dirName, `${baseName}_test.py`),
+        path.join(projectPath, 'tests', `test_${baseName}.py`),
+        path.join(projectPath, 'tests', `${baseName}_test.py`),
+      ];
+      for (const candidate of candidates) {
+        if (await safeExists(candidate)) {
+          return candidate;
+        }
+      }
+      return undefined;
+    },
+
+    runTests: async (testPattern) => (await ready()).runTests(testPattern),
+  };
+}
+
+/**
+ * Returns the enclosing class of a Python TODO method, if any.
+ */
+function classNameOf(todoFunction: TodoFunction | PythonTodoFunction): string | undefined {
+  return 'className' in todoFunction ? todoFunction.className : undefined;
+}
@@ -28,6 +28,7 @@ import {
   type RalphLoopResult,
   type ImplementationAttempt,
 } from './ralph-loop.js';
+import { DEFAULT_CIRCUIT_BREAKER_CONFIG } from './circuit-breaker.js';
 import type { TodoFunction } from '../adapters/typescript/ast.js';
 import type { ModelRouter, ModelRouterResult, ModelRouterRequest } from '../router/types.js';
 import type { TypeCheckResult } from '../adapters/typescript/typecheck.js';
@@ -321,6 +322,7 @@ function add(a: number, b: number): number {
     );
 
     const todoFunction: TodoFunction = {
+      id: 'test/file.ts::add',
       name: 'add',
       filePath: '/test/file.ts',
       line: 7,
@@ -356,6 +358,7 @@ function createUser(name: string): User {
     );
 
     const todoFunction: TodoFunction = {
+      id: 'test/file.ts::createUser',
       name: 'createUser',
       filePath: '/test/file.ts',
       line: 8,
@@ -751,6 +754,222 @@ describe('add', () => {
     expect(result.failedCount).toBe(1);
     expect(result.attempts[0]?.rejectionReason).toContain('Model error');
   });
+
+  describe('concurrent execution', () => {
+    const bodies: Record<string, string> = {
+      leafA: 'return 1;',
+      leafB: 'return 2;',
+      leafC: 'return 3;',
+      combined: 'return leafA() + leafB();',
+    };
+
+    async function setupProject(): Promise<string> {
+      const srcDir = path.join(tempDir, 'src');
+      await safeMkdir(srcDir, { recursive: true });
+      await safeWriteFile(
+        path.join(srcDir, 'math.ts'),
+        `export function combined(): number {
+  throw new Error('TODO');
+  // combined calls leafA and leafB
+  return leafA() + leafB();
+}
+
+export function leafA(): number {
+  throw new Error('TODO');
+}
+
+export function leafB(): number {
+  throw new Error('TODO');
+}
+`
+      );
+      await safeWriteFile(
+        path.join(srcDir, 'other.ts'),
+        `export function leafC(): number {
+  throw new Error('TODO');
+}
+`
+      );
+      await safeWriteFile(
+        path.join(tempDir, 'tsconfig.json'),
+        JSON.stringify({
+          compilerOptions: { target: 'ES2020', module: 'NodeNext', strict: true },
+          include: ['src/**/*.ts'],
+        })
+      );
+      await safeWriteFile(path.join(tempDir, 'eslint.config.js'), 'export default [];\n');
+      return srcDir;
+    }
+
+    // Router that answers per function after a short delay and tracks overlap
+    function createTrackingRouter(): {
+      router: ModelRouter;
+      started: string[];
+      finished: string[];
+      maxActive: () => number;
+    } {
+      const started: string[] = [];
+      const finished: string[] = [];
+      let active = 0;
+      let peak = 0;
+      const router: ModelRouter = {
+        prompt: vi.fn(),
+        complete: vi.fn().mockImplementation(async (request: ModelRouterRequest) => {
+          const name = /function (\w+)\(/.exec(request.prompt)?.[1] ?? '';
+          started.push(name);
+          active++;
+          peak = Math.max(peak, active);
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          active--;
+          finished.push(name);
+          return {
+            success: true,
+            response: {
+              content: bodies[name] ?? '',
+              usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+              metadata: { modelId: 'test-model', provider: 'test', latencyMs: 20 },
+            },
+          } satisfies ModelRouterResult;
+        }),
+        stream: vi.fn(),
+      };
+      return { router, started, finished, maxActive: () => peak };
+    }
+
+    it('should implement independent functions in parallel', async () => {
+      const srcDir = await setupProject();
+      mockRunTypeCheck.mockResolvedValue(createSuccessTypeCheck());
+      const { router, maxActive } = createTrackingRouter();
+
+      const loop = createRalphLoop({
+        projectPath: tempDir,
+        modelRouter: router,
+        maxConcurrency: 3,
+        logger: (): void => undefined,
+      });
+
+      const result = await loop.run();
+
+      expect(result.success).toBe(true);
+      expect(result.implementedCount).toBe(4);
+      expect(maxActive()).toBeGreaterThan(1);
+
+      // Injections through separate worker views must not clobber each other
+      const math = await safeReadFile(path.join(srcDir, 'math.ts'), 'utf-8');
+      expect(math).toContain('return leafA() + leafB();');
+      expect(math).toContain('return 1;');
+      expect(math).toContain('return 2;');
+      expect(math).not.toContain("throw new Error('TODO')");
+      const other = await safeReadFile(path.join(srcDir, 'other.ts'), 'utf-8');
+      expect(other).toContain('return 3;');
+    });
+
+    it('should wait for dependencies to settle before starting a function', async () => {
+      await setupProject();
+      mockRunTypeCheck.mockResolvedValue(createSuccessTypeCheck());
+      const { router, started, finished } = createTrackingRouter();
+
+      const loop = createRalphLoop({
+        projectPath: tempDir,
+        modelRouter: router,
+        maxConcurrency: 4,
+        logger: (): void => undefined,
+      });
+
+      await loop.run();
+
+      const combinedStart = started.indexOf('combined');
+      expect(combinedStart).toBe(started.length - 1);
+      expect(finished.indexOf('leafA')).toBeLessThan(finished.indexOf('combined'));
+      expect(finished.indexOf('leafB')).toBeLessThan(finished.indexOf('combined'));
+    });
+
+    it('should report the same attempts as a sequential run', async () => {
+      await setupProject();
+      mockRunTypeCheck.mockResolvedValue(createSuccessTypeCheck());
+      const sequential = await createRalphLoop({
+        projectPath: tempDir,
+        modelRouter: createTrackingRouter().router,
+        logger: (): void => undefined,
+      }).run();
+
+      await rm(path.join(tempDir, 'src'), { recursive: true, force: true });
+      await setupProject();
+      const concurrent = await createRalphLoop({
+        projectPath: tempDir,
+        modelRouter: createTrackingRouter().router,
+        maxConcurrency: 3,
+        logger: (): void => undefined,
+      }).run();
+
+      const summarize = (result: RalphLoopResult): [string, boolean, string][] =>
+        result.attempts.map((a) => [a.function.name, a.accepted, a.generatedBody]);
+      expect(summarize(concurrent)).toEqual(summarize(sequential));
+      expect(concurrent.implementedCount).toBe(sequential.implementedCount);
+    });
+
+    it('should stop at a circuit breaker trip like a sequential run', async () => {
+      const srcDir = await setupProject();
+      mockRunTypeCheck.mockResolvedValue(createFailedTypeCheck('everything is broken'));
+      const sequential = await createRalphLoop({
+        projectPath: tempDir,
+        modelRouter: createTrackingRouter().router,
+        maxAttemptsPerFunction: 1,
+        logger: (): void => undefined,
+      }).run();
+
+      await rm(srcDir, { recursive: true, force: true });
+      await setupProject();
+      const concurrent = await createRalphLoop({
+        projectPath: tempDir,
+        modelRouter: createTrackingRouter().router,
+        maxConcurrency: 3,
+        maxAttemptsPerFunction: 1,
+        logger: (): void => undefined,
+      }).run();
+
+      expect(sequential.circuitTripped).toBe(true);
+      expect(concurrent.circuitTripped).toBe(true);
+      const summarize = (result: RalphLoopResult): [string, boolean][] =>
+        result.attempts.map((a) => [a.function.name, a.accepted]);
+      expect(summarize(concurrent)).toEqual(summarize(sequential));
+      expect(concurrent.implementedCount).toBe(sequential.implementedCount);
+      expect(concurrent.failedCount).toBe(sequential.failedCount);
+      const other = await safeReadFile(path.join(srcDir, 'other.ts'), 'utf-8');
+      expect(other).toContain("throw new Error('TODO')");
+    });
+
+    it('should record rejected attempts and roll back only the failing function', async () => {
+      const srcDir = await setupProject();
+      vi.mocked(runTypeCheck).mockImplementation(
+        (): Promise<TypeCheckResult> =>
+          safeReadFile(path.join(srcDir, 'other.ts'), 'utf-8').then((other) =>
+            other.includes('return 3;')
+              ? createFailedTypeCheck('leafC is broken')
+              : createSuccessTypeCheck()
+          )
+      );
+      const { router } = createTrackingRouter();
+
+      const result = await createRalphLoop({
+        projectPath: tempDir,
+        modelRouter: router,
+        maxConcurrency: 3,
+        maxAttemptsPerFunction: 1,
+        // One failure in four must not trip the breaker here
+        circuitBreakerConfig: { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, globalFailureThreshold: 0.5 },
+        logger: (): void => undefined,
+      }).run();
+
+      expect(result.implementedCount).toBe(3);
+      expect(result.failedCount).toBe(1);
+      expect(result.remainingTodos.map((f) => f.name)).toEqual(['leafC']);
+      const other = await safeReadFile(path.join(srcDir, 'other.ts'), 'utf-8');
+      expect(other).toContain("throw new Error('TODO')");
+      const math = await safeReadFile(path.join(srcDir, 'math.ts'), 'utf-8');
+      expect(math).not.toContain("throw new Error('TODO')");
+    });
+  });
 });
 
 describe('formatRalphLoopReport', () => {
@@ -763,6 +982,7 @@ describe('formatRalphLoopReport', () => {
       attempts: [
         {
           function: {
+            id: 'test/file.ts::add',
             name: 'add',
             filePath: '/test/file.ts',
             line: 1,
@@ -776,6 +996,7 @@ describe('formatRalphLoopReport', () => {
         },
         {
           function: {
+            id: 'test/file.ts::subtract',
             name: 'subtract',
             filePath: '/test/file.ts',
             line: 5,
@@ -812,6 +1033,7 @@ describe('formatRalphLoopReport', () => {
       attempts: [
         {
           function: {
+            id: 'test/file.ts::add',
             name: 'add',
             filePath: '/test/file.ts',
             line: 1,
@@ -825,6 +1047,7 @@ describe('formatRalphLoopReport', () => {
         },
         {
           function: {
+            id: 'test/file.ts::divide',
             name: 'divide',
             filePath: '/test/file.ts',
             line: 5,
@@ -841,6 +1064,7 @@ describe('formatRalphLoopReport', () => {
       totalDurationMs: 250,
       remainingTodos: [
         {
+          id: 'test/file.ts::divide',
           name: 'divide',
           filePath: '/test/file.ts',
           line: 5,
@@ -916,6 +1140,7 @@ describe('formatRalphLoopReport', () => {
 
     it('should show [ACCEPTED] for accepted attempts and [REJECTED] for rejected ones', () => {
       const todoFunctionArb = fc.record({
+        id: fc.string({ minLength: 1, maxLength: 20 }).map((name) => `test/file.ts::${name}`),
         name: fc.string({ minLength: 1, maxLength: 20 }),
         filePath: fc.constant('/test/file.ts'),
         line: fc.nat({ max: 1000 }),
@@ -973,6 +1198,7 @@ describe('formatRalphLoopReport', () => {
 
     it('should list all remaining todo function names under REMAINING TODO FUNCTIONS', () => {
       const todoFunctionArb = fc.record({
+        id: fc.string({ minLength: 1, maxLength: 20 }).map((name) => `test/file.ts::${name}`),
         name: fc.string({ minLength: 1, maxLength: 20 }),
         filePath: fc.constant('/test/file.ts'),
         line: fc.nat({ max: 1000 }),
@@ -1008,6 +1234,7 @@ describe('formatRalphLoopReport', () => {
 
     it('should be consistent: counts match attempts array', () => {
       const todoFunctionArb = fc.record({
+        id: fc.string({ minLength: 1, maxLength: 20 }).map((name) => `test/file.ts::${name}`),
         name: fc.string({ minLength: 1, maxLength: 20 }),
         filePath: fc.constant('/test/file.ts'),
         line: fc.nat({ max: 1000 }),
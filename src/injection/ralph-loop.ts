@@ -11,6 +11,9 @@
  * - Use worker_model via ModelRouter as primary
  * - Accept/discard atomically based on compilation + test results
  * - Leaves-first ordering via topological sort for dependency-aware implementation
+ * - Optional concurrency: functions whose dependencies have settled are implemented in parallel
+ * - Language targets: TypeScript by default, Python via {@link createPythonTarget}, Go via
+ *   {@link createGoTarget}
  *
  * @packageDocumentation
  */
@@ -18,16 +21,20 @@
 import * as path from 'node:path';
 import { Project } from 'ts-morph';
 import {
+  buildDependencyMap,
   findTodoFunctions,
   injectFunctionBody,
   orderByDependency,
   type TodoFunction,
 } from '../adapters/typescript/ast.js';
+import type { FunctionId } from '../adapters/typescript/function-id.js';
 import { serializeContractForPrompt } from '../adapters/typescript/contracts.js';
 import { type MicroContract } from '../adapters/typescript/assertions.js';
 import { runTypeCheck, type TypeCheckResult } from '../adapters/typescript/typecheck.js';
 import { runTests, type TestRunResult } from '../adapters/typescript/testrunner.js';
+import type { FileMove } from '../ledger/types.js';
 import type { ModelRouter, ModelRouterRequest } from '../router/types.js';
+import type { Language } from '../spec/types.js';
 import {
   extractContext,
   type ExtractedContext,
@@ -53,6 +60,8 @@ import {
   MODEL_TIER_TO_ALIAS,
 } from './escalation.js';
 import { safeExists, safeReadFile, safeWriteFile } from '../utils/safe-fs.js';
+import { createGoTarget } from './go-target.js';
+import { createPythonTarget } from './python-target.js';
 
 /**
  * Local context for a single function implementation.
@@ -146,6 +155,97 @@ export interface RalphLoopOptions {
   readonly logger?: (message: string) => void;
   /** Circuit breaker configuration (optional, uses defaults if not provided). */
   readonly circuitBreakerConfig?: CircuitBreakerConfig;
+  /**
+   * Maximum number of functions implemented in parallel. Default: 1 (sequential).
+   *
+   * A function is only started once every TODO function it calls has settled, so
+   * the accepted bodies match a sequential run.
+   */
+  readonly maxConcurrency?: number;
+  /** Target language of the project. Default: 'typescript'. */
+  readonly language?: Language;
+  /** Python interpreter for Python targets (AST helper, mypy, pytest). Default: 'python3'. */
+  readonly python?: string;
+  /** Go command for Go targets (AST helper, build, vet, tests). Default: 'go'. */
+  readonly go?: string;
+  /**
+   * File moves recorded in the ledger, oldest first (see `Ledger.getFileMoves`).
+   * Function ids follow them, so a moved function keeps its attempt history.
+   */
+  readonly fileMoves?: readonly FileMove[];
+}
+
+/**
+ * Error thrown when the Ralph Loop has no target for a language.
+ */
+export class UnsupportedLanguageError extends Error {
+  constructor(language: string) {
+    super(`Ralph Loop does not support ${language} projects`);
+    this.name = 'UnsupportedLanguageError';
+  }
+}
+
+/**
+ * How prompts name the target language.
+ */
+export interface PromptLanguage {
+  /** Language name used in instructions (e.g., "TypeScript"). */
+  readonly name: string;
+  /** Info string for fenced code blocks (e.g., "typescript"). */
+  readonly codeFence: string;
+  /** Final instruction describing what to return. */
+  readonly returnInstruction: string;
+}
+
+/**
+ * Language-specific operations the loop delegates to.
+ *
+ * A view is the target's in-memory model of the project (a ts-morph Project
+ * for TypeScript). Each concurrent worker owns one; targets that always read
+ * from disk can use `undefined`.
+ */
+export interface LanguageTarget<View = unknown> {
+  /** The target language. */
+  readonly language: Language;
+  /** How prompts name the language. */
+  readonly prompt: PromptLanguage;
+  /** System prompt for the worker model. */
+  readonly systemPrompt: string;
+  /** Creates a fresh view of the project. */
+  createView(): View;
+  /** Finds all TODO functions in the project. */
+  findTodoFunctions(view: View): Promise<TodoFunction[]>;
+  /** Orders functions leaves-first, grouping cycle members. */
+  orderByDependency(functions: TodoFunction[], view: View): Promise<TodoFunction[]>;
+  /** Maps each function id to the ids of the TODO functions it calls. */
+  buildDependencyMap(
+    functions: TodoFunction[],
+    view: View
+  ): Promise<Map<FunctionId, Set<FunctionId>>>;
+  /** Builds the minimal local context for a function. */
+  buildContext(view: View, todoFunction: TodoFunction): Promise<FunctionContext>;
+  /** Reloads a file into the view after it changed on disk. */
+  refresh(view: View, filePath: string): Promise<void>;
+  /** Injects a body into a TODO function and writes it to disk. Throws on failure. */
+  inject(view: View, todoFunction: TodoFunction, body: string): Promise<void>;
+  /** Type-checks the whole project. */
+  typeCheck(): Promise<TypeCheckResult>;
+  /** Finds the test file covering a function, if any. */
+  findTestFile(todoFunction: TodoFunction): Promise<string | undefined>;
+  /** Runs the tests matching a pattern. */
+  runTests(testPattern: string): Promise<TestRunResult>;
+  /** Scans the function's file for security vulnerabilities, if supported. */
+  securityScan?(todoFunction: TodoFunction): Promise<SecurityScanResult>;
+}
+
+/**
+ * Final outcome of implementing a single function with retry and escalation.
+ */
+interface FunctionOutcome {
+  readonly accepted: boolean;
+  readonly attempts: ImplementationAttempt[];
+  readonly finalRejectionReason?: string;
+  readonly finalFailureType?: FailureType;
 }
 
 /**
@@ -166,19 +266,33 @@ If given signature: function add(a: number, b: number): number
 And contract: @ensures result === a + b
 You return ONLY: return a + b;`;
 
+/**
+ * Prompt wording for TypeScript targets.
+ */
+export const TYPESCRIPT_PROMPT_LANGUAGE: PromptLanguage = {
+  name: 'TypeScript',
+  codeFence: 'typescript',
+  returnInstruction:
+    'Return ONLY the function body code (no signature, no braces, no explanation).',
+};
+
 /**
  * Generates the implementation prompt for a function.
  *
  * @param context - The function context with minimal local information.
+ * @param language - How to name the target language. Default: TypeScript.
  * @returns The prompt string for the model.
  */
-export function generateImplementationPrompt(context: FunctionContext): string {
+export function generateImplementationPrompt(
+  context: FunctionContext,
+  language: PromptLanguage = TYPESCRIPT_PROMPT_LANGUAGE
+): string {
   const lines: string[] = [];
 
-  lines.push('Implement the following TypeScript function body.');
+  lines.push(`Implement the following ${language.name} function body.`);
   lines.push('');
   lines.push('FUNCTION SIGNATURE:');
-  lines.push('```typescript');
+  lines.push(`\`\`\`${language.codeFence}`);
   lines.push(context.signature);
   lines.push('```');
   lines.push('');
@@ -193,7 +307,7 @@ export function generateImplementationPrompt(context: FunctionContext): string {
 
   if (context.requiredTypes.length > 0) {
     lines.push('REQUIRED TYPES:');
-    lines.push('```typescript');
+    lines.push(`\`\`\`${language.codeFence}`);
     for (const typeDef of context.requiredTypes) {
       lines.push(typeDef);
     }
@@ -203,7 +317,7 @@ export function generateImplementationPrompt(context: FunctionContext): string {
 
   if (context.witnessDefinitions.length > 0) {
     lines.push('WITNESS TYPES:');
-    lines.push('```typescript');
+    lines.push(`\`\`\`${language.codeFence}`);
     for (const witnessDef of context.witnessDefinitions) {
       lines.push(witnessDef);
     }
@@ -211,7 +325,7 @@ export function generateImplementationPrompt(context: FunctionContext): string {
     lines.push('');
   }
 
-  lines.push('Return ONLY the function body code (no signature, no braces, no explanation).');
+  lines.push(language.returnInstruction);
 
   return lines.join('\n');
 }
@@ -297,6 +411,100 @@ export function buildExtractedContext(
   return extractContext(project, todoFunction);
 }
 
+/**
+ * Options for the TypeScript language target.
+ */
+export interface TypeScriptTargetOptions {
+  /** Path to project directory. */
+  readonly projectPath: string;
+  /** Path to tsconfig.json relative to the project (empty for the default). */
+  readonly tsconfigPath?: string;
+  /** Logger for security scan progress. */
+  readonly logger?: (message: string) => void;
+  /** File moves recorded in the ledger, oldest first, for stable function ids. */
+  readonly fileMoves?: readonly FileMove[];
+}
+
+/**
+ * Creates the TypeScript language target.
+ *
+ * Views are ts-morph Projects; verification uses `tsc`, vitest, and the
+ * ESLint security scan.
+ *
+ * @param options - Target options.
+ * @returns The TypeScript target.
+ */
+export function createTypeScriptTarget(options: TypeScriptTargetOptions): LanguageTarget<Project> {
+  const projectPath = path.resolve(options.projectPath);
+  const tsconfigPath = options.tsconfigPath ?? '';
+  const logger = options.logger ?? ((): void => undefined);
+
+  return {
+    language: 'typescript',
+    prompt: TYPESCRIPT_PROMPT_LANGUAGE,
+    systemPrompt: IMPLEMENTATION_SYSTEM_PROMPT,
+
+    createView: () =>
+      new Project({
+        tsConfigFilePath:
+          tsconfigPath !== ''
+            ? path.resolve(projectPath, tsconfigPath)
+            : path.resolve(projectPath, 'tsconfig.json'),
+      }),
+
+    findTodoFunctions: (project) =>
+      Promise.resolve(
+        findTodoFunctions(project, {
+          projectRoot: projectPath,
+          ...(options.fileMoves !== undefined ? { fileMoves: options.fileMoves } : {}),
+        })
+      ),
+
+    orderByDependency: (functions, project) =>
+      Promise.resolve(orderByDependency(functions, project)),
+
+    buildDependencyMap: (functions, project) =>
+      Promise.resolve(buildDependencyMap(functions, project)),
+
+    buildContext: (project, todoFunction) =>
+      Promise.resolve(buildFunctionContext(project, todoFunction)),
+
+    refresh: async (project, filePath) => {
+      await project.getSourceFile(filePath)?.refreshFromFileSystem();
+    },
+
+    inject: (project, todoFunction, body) => {
+      injectFunctionBody(project, todoFunction.filePath, todoFunction.id, body);
+      return Promise.resolve();
+    },
+
+    typeCheck: () => runTypeCheck(projectPath, tsconfigPath !== '' ? { tsconfigPath } : {}),
+
+    findTestFile: async (todoFunction) => {
+      // Try both .test.ts and .spec.ts conventions
+      const baseName = path.basename(todoFunction.filePath, '.ts');
+      const dirName = path.dirname(todoFunction.filePath);
+      for (const candidate of [`${baseName}.test.ts`, `${baseName}.spec.ts`]) {
+        const testFile = path.join(dirName, candidate);
+        if (await safeExists(testFile)) {
+          return testFile;
+        }
+      }
+      return undefined;
+    },
+
+    runTests: (testPattern) => runTests(testPattern, { cwd: projectPath }),
+
+    securityScan: (todoFunction) =>
+      runSecurityScan({
+        projectPath,
+        files: [todoFunction.filePath],
+        failFastOnCritical: false, // We handle critical vulnerabilities ourselves
+        logger,
+      }),
+  };
+}
+
 /**
  * Ralph Loop for atomic function implementation.
  *
@@ -306,12 +514,21 @@ export function buildExtractedContext(
  */
 export class RalphLoop {
   private readonly options: Required<
-    Omit<RalphLoopOptions, 'testPattern' | 'circuitBreakerConfig'>
+    Omit<
+      RalphLoopOptions,
+      'testPattern' | 'circuitBreakerConfig' | 'language' | 'python' | 'go' | 'fileMoves'
+    >
   > & {
     testPattern: string | undefined;
     circuitBreakerConfig: CircuitBreakerConfig | undefined;
   };
   private readonly circuitBreaker: CircuitBreaker;
+  private readonly target: LanguageTarget;
+  /**
+   * Tail of the verification queue. Injection, compilation, security scan, tests
+   * and rollback all act on the shared working tree, so they run one at a time.
+   */
+  private verificationQueue: Promise<void> = Promise.resolve();
 
   constructor(options: RalphLoopOptions) {
     this.options = {
@@ -324,8 +541,43 @@ export class RalphLoop {
       // eslint-disable-next-line no-console
       logger: options.logger ?? console.log,
       circuitBreakerConfig: options.circuitBreakerConfig ?? undefined,
+      maxConcurrency: Math.max(1, Math.floor(options.maxConcurrency ?? 1)),
     };
     this.circuitBreaker = createCircuitBreaker(options.circuitBreakerConfig);
+    this.target = this.createTarget(options);
+  }
+
+  /**
+   * Creates the language target for the project.
+   *
+   * @throws {UnsupportedLanguageError} If the language has no target.
+   */
+  private createTarget(options: RalphLoopOptions): LanguageTarget {
+    const language = options.language ?? 'typescript';
+    const fileMoves = options.fileMoves !== undefined ? { fileMoves: options.fileMoves } : {};
+    switch (language) {
+      case 'typescript':
+        return createTypeScriptTarget({
+          projectPath: this.options.projectPath,
+          tsconfigPath: this.options.tsconfigPath,
+          logger: this.options.logger,
+          ...fileMoves,
+        });
+      case 'python':
+        return createPythonTarget({
+          projectPath: this.options.projectPath,
+          ...(options.python !== undefined ? { python: options.python } : {}),
+          ...fileMoves,
+        });
+      case 'go':
+        return createGoTarget({
+          projectPath: this.options.projectPath,
+          ...(options.go !== undefined ? { go: options.go } : {}),
+          ...fileMoves,
+        });
+      default:
+        throw new UnsupportedLanguageError(language);
+    }
   }
 
   /**
@@ -343,6 +595,9 @@ export class RalphLoop {
    * 4. Check circuit breaker after each attempt
    * 5. If circuit trips, return to Lattice with structural defect report
    *
+   * With `maxConcurrency` above 1, step 3 runs on a pool of workers instead
+   * (see {@link RalphLoop.runConcurrent}).
+   *
    * @returns The loop result with all attempt details.
    */
   async run(): Promise<RalphLoopResult> {
@@ -351,21 +606,15 @@ export class RalphLoop {
 
     this.options.logger(`Starting Ralph Loop for ${this.options.projectPath}`);
 
-    // Create ts-morph project
-    const project = new Project({
-      tsConfigFilePath:
-        this.options.tsconfigPath !== ''
-          ? path.resolve(this.options.projectPath, this.options.tsconfigPath)
-          : path.resolve(this.options.projectPath, 'tsconfig.json'),
-    });
+    // Create the target's view of the project (a ts-morph Project for TypeScript)
+    const view = this.target.createView();
 
     // Find all TODO functions
-    let todoFunctions = findTodoFunctions(project);
+    let todoFunctions = await this.target.findTodoFunctions(view);
 
     // Register all functions with circuit breaker
     for (const todo of todoFunctions) {
-      const functionId = `${todo.filePath}:${todo.name}`;
-      this.circuitBreaker.registerFunction(functionId, todo.filePath);
+      this.circuitBreaker.registerFunction(todo.id, todo.filePath);
     }
 
     // Filter to specific files if provided
@@ -392,9 +641,13 @@ export class RalphLoop {
     }
 
     // Order by dependency (leaves first)
-    const orderedFunctions = orderByDependency(todoFunctions, project);
+    const orderedFunctions = await this.target.orderByDependency(todoFunctions, view);
     this.options.logger(`Ordered functions: ${orderedFunctions.map((f) => f.name).join(', ')}`);
 
+    if (this.options.maxConcurrency > 1) {
+      return this.runConcurrent(view, orderedFunctions, todoFunctions.length, startTime);
+    }
+
     // Process each function
     let implementedCount = 0;
     let failedCount = 0;
@@ -403,8 +656,7 @@ export class RalphLoop {
     for (const todoFunction of orderedFunctions) {
       this.options.logger(`Processing: ${todoFunction.name}`);
 
-      const functionId = `${todoFunction.filePath}:${todoFunction.name}`;
-      const finalAttempt = await this.implementFunctionWithRetry(project, todoFunction, functionId);
+      const finalAttempt = await this.implementFunctionWithRetry(view, todoFunction);
 
       for (const attempt of finalAttempt.attempts) {
         attempts.push(attempt);
@@ -412,41 +664,14 @@ export class RalphLoop {
 
       if (finalAttempt.accepted) {
         implementedCount++;
-        this.options.logger(`  Accepted: ${todoFunction.name}`);
-        this.circuitBreaker.recordSuccess(functionId);
       } else {
         failedCount++;
         remainingTodos.push(todoFunction);
-        this.options.logger(
-          `  Rejected: ${todoFunction.name} - ${finalAttempt.finalRejectionReason ?? 'unknown reason'}`
-        );
-
-        // Always record failure for circuit breaker tracking
-        // Use the actual failure type if available, otherwise create a fallback semantic failure
-        const failureToRecord: FailureType = finalAttempt.finalFailureType ?? {
-          type: 'semantic',
-          violation: {
-            type: 'contract',
-            description:
-              finalAttempt.finalRejectionReason ??
-              'Implementation failed without specific failure type',
-          },
-        };
-        this.circuitBreaker.recordFailure(functionId, failureToRecord);
       }
 
-      // Check circuit breaker after each function
-      const circuitCheck = this.circuitBreaker.check();
-
-      if (circuitCheck.shouldTrip) {
-        const tripType = circuitCheck.tripReason?.type ?? 'unknown';
-        this.options.logger(`[CIRCUIT BREAKER TRIPPED] ${tripType}`);
-
-        const report = this.circuitBreaker.generateReport();
-
-        if (report === undefined) {
-          throw new Error('Circuit breaker tripped but no report generated');
-        }
+      // Record the outcome and check circuit breaker after each function
+      if (this.settleFunction(todoFunction, finalAttempt)) {
+        const report = this.generateTripReport();
 
         const result: RalphLoopResult = {
           success: false,
@@ -482,44 +707,263 @@ export class RalphLoop {
     return result;
   }
 
+  /**
+   * Runs the implementation step on a pool of up to `maxConcurrency` workers.
+   *
+   * Each worker owns its own view of the project and refreshes the
+   * target file from disk before injecting, so a stale view can never overwrite
+   * a body another worker has already accepted. Model calls run in parallel;
+   * verification goes through {@link RalphLoop.withVerificationLock}.
+   *
+   * A function is scheduled once every TODO function it calls that precedes it
+   * in the topological order has settled. Cycle members therefore run in the
+   * same order as the sequential loop. Attempts are reported in topological
+   * order regardless of completion order.
+   *
+   * Once the circuit breaker trips no further function is scheduled, workers
+   * still in flight stop before injecting, and their outcomes are left out of
+   * the result so it matches what the sequential loop would have attempted.
+   *
+   * @param view - The project view used by the first worker.
+   * @param orderedFunctions - Functions in topological order (leaves first).
+   * @param totalFunctions - Number of TODO functions in scope.
+   * @param startTime - Loop start timestamp.
+   * @returns The loop result with all attempt details.
+   */
+  private async runConcurrent(
+    view: unknown,
+    orderedFunctions: readonly TodoFunction[],
+    totalFunctions: number,
+    startTime: number
+  ): Promise<RalphLoopResult> {
+    const dependencies = await this.target.buildDependencyMap([...orderedFunctions], view);
+    const prerequisites = orderedFunctions.map((fn, index) => {
+      const deps = dependencies.get(fn.id) ?? new Set<FunctionId>();
+      const earlier: number[] = [];
+      for (let j = 0; j < index; j++) {
+        // eslint-disable-next-line security/detect-object-injection -- safe array access with numeric loop counter
+        const candidate = orderedFunctions[j];
+        if (candidate !== undefined && deps.has(candidate.id)) {
+          earlier.push(j);
+        }
+      }
+      return earlier;
+    });
+
+    const workerCount = Math.min(this.options.maxConcurrency, orderedFunctions.length);
+    const idleViews: unknown[] = [view];
+    for (let i = 1; i < workerCount; i++) {
+      idleViews.push(this.target.createView());
+    }
+    this.options.logger(`Running with ${String(workerCount)} concurrent workers`);
+
+    const outcomes = new Map<number, FunctionOutcome>();
+    const pending = orderedFunctions.map((_, index) => index);
+    let inFlight = 0;
+
+    await new Promise<void>((resolve, reject) => {
+      const launch = (): void => {
+        while (!this.circuitBreaker.isTripped() && inFlight < workerCount) {
+          const position = pending.findIndex((index) =>
+            // eslint-disable-next-line security/detect-object-injection -- safe array access with validated numeric index
+            (prerequisites[index] ?? []).every((dep) => outcomes.has(dep))
+          );
+          if (position === -1 || idleViews.length === 0) {
+            break;
+          }
+          const workerView = idleViews.pop();
+
+          const [index] = pending.splice(position, 1);
+          // eslint-disable-next-line security/detect-object-injection -- safe array access with validated numeric index
+          const todoFunction = index !== undefined ? orderedFunctions[index] : undefined;
+          if (index === undefined || todoFunction === undefined) {
+            idleViews.push(workerView);
+            continue;
+          }
+
+          inFlight++;
+          this.options.logger(`Processing: ${todoFunction.name}`);
+
+          this.implementFunctionWithRetry(workerView, todoFunction).then((outcome) => {
+            idleViews.push(workerView);
+            inFlight--;
+            if (this.circuitBreaker.isTripped()) {
+              this.options.logger(`  Aborted: ${todoFunction.name} - circuit breaker tripped`);
+            } else {
+              outcomes.set(index, outcome);
+              this.settleFunction(todoFunction, outcome);
+            }
+            launch();
+          }, reject);
+        }
+
+        if (inFlight === 0) {
+          resolve();
+        }
+      };
+
+      launch();
+    });
+
+    const attempts: ImplementationAttempt[] = [];
+    const remainingTodos: TodoFunction[] = [];
+    let implementedCount = 0;
+    let failedCount = 0;
+
+    orderedFunctions.forEach((todoFunction, index) => {
+      const outcome = outcomes.get(index);
+      if (outcome === undefined) {
+        return;
+      }
+      attempts.push(...outcome.attempts);
+      if (outcome.accepted) {
+        implementedCount++;
+      } else {
+        failedCount++;
+        remainingTodos.push(todoFunction);
+      }
+    });
+
+    if (this.circuitBreaker.isTripped()) {
+      return {
+        success: false,
+        totalFunctions,
+        implementedCount,
+        failedCount,
+        attempts,
+        totalDurationMs: Date.now() - startTime,
+        remainingTodos,
+        circuitTripped: true,
+        structuralDefectReport: this.generateTripReport(),
+      };
+    }
+
+    this.options.logger(
+      `Ralph Loop complete: ${String(implementedCount)}/${String(totalFunctions)} implemented`
+    );
+
+    return {
+      success: failedCount === 0,
+      totalFunctions,
+      implementedCount,
+      failedCount,
+      attempts,
+      totalDurationMs: Date.now() - startTime,
+      remainingTodos,
+      circuitTripped: false,
+    };
+  }
+
+  /**
+   * Records the final outcome of a function with the circuit breaker.
+   *
+   * @param todoFunction - The function that settled, tracked by its id.
+   * @param outcome - The final outcome of the retry loop.
+   * @returns True if the circuit breaker tripped.
+   */
+  private settleFunction(todoFunction: TodoFunction, outcome: FunctionOutcome): boolean {
+    const functionId = todoFunction.id;
+    if (outcome.accepted) {
+      this.options.logger(`  Accepted: ${todoFunction.name}`);
+      this.circuitBreaker.recordSuccess(functionId);
+    } else {
+      this.options.logger(
+        `  Rejected: ${todoFunction.name} - ${outcome.finalRejectionReason ?? 'unknown reason'}`
+      );
+
+      // Always record failure for circuit breaker tracking
+      // Use the actual failure type if available, otherwise create a fallback semantic failure
+      const failureToRecord: FailureType = outcome.finalFailureType ?? {
+        type: 'semantic',
+        violation: {
+          type: 'contract',
+          description:
+            outcome.finalRejectionReason ?? 'Implementation failed without specific failure type',
+        },
+      };
+      this.circuitBreaker.recordFailure(functionId, failureToRecord);
+    }
+
+    const circuitCheck = this.circuitBreaker.check();
+    if (circuitCheck.shouldTrip) {
+      const tripType = circuitCheck.tripReason?.type ?? 'unknown';
+      this.options.logger(`[CIRCUIT BREAKER TRIPPED] ${tripType}`);
+    }
+    return circuitCheck.shouldTrip;
+  }
+
+  /**
+   * Generates the structural defect report after the circuit breaker tripped.
+   *
+   * @returns The structural defect report.
+   */
+  private generateTripReport(): StructuralDefectReport {
+    const report = this.circuitBreaker.generateReport();
+
+    if (report === undefined) {
+      throw new Error('Circuit breaker tripped but no report generated');
+    }
+
+    return report;
+  }
+
+  /**
+   * Runs a verification step once all previously queued steps have finished.
+   *
+   * @param step - The step to run with exclusive access to the working tree.
+   * @returns The step's result.
+   */
+  private async withVerificationLock<T>(step: () => Promise<T>): Promise<T> {
+    const previous = this.verificationQueue;
+    let release: () => void = () => undefined;
+    this.verificationQueue = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    await previous;
+    try {
+      return await step();
+    } finally {
+      release();
+    }
+  }
+
   /**
    * Attempts to implement a single function.
    *
-   * @param project - The ts-morph Project.
+   * @param view - The worker's project view.
    * @param todoFunction - The function to implement.
    * @param tier - The model tier to use.
    * @returns The implementation attempt result.
    */
   private async implementFunction(
-    project: Project,
+    view: unknown,
     todoFunction: TodoFunction,
     tier: ModelTier = 'worker'
   ): Promise<ImplementationAttempt> {
     const startTime = Date.now();
 
     // Build minimal local context
-    const context = buildFunctionContext(project, todoFunction);
+    const context = await this.target.buildContext(view, todoFunction);
 
     // Generate implementation prompt
-    const prompt = generateImplementationPrompt(context);
+    const prompt = generateImplementationPrompt(context, this.target.prompt);
 
     // Request implementation from the appropriate model tier
     const request: ModelRouterRequest = {
       // eslint-disable-next-line security/detect-object-injection -- tier is ModelTier enum with known literal keys
       modelAlias: MODEL_TIER_TO_ALIAS[tier],
       prompt,
+      taskType: 'implement',
+      functionId: todoFunction.id,
       parameters: {
-        systemPrompt: IMPLEMENTATION_SYSTEM_PROMPT,
+        systemPrompt: this.target.systemPrompt,
         maxTokens: 2000,
         temperature: 0.2, // Low temperature for deterministic code generation
       },
     };
 
     let generatedBody = '';
-    let compilationResult: TypeCheckResult;
-    // Track original content for rollback - will be set before injection
-    let originalContent = '';
-    let injectionOccurred = false;
 
     try {
       const result = await this.options.modelRouter.complete(request);
@@ -543,13 +987,64 @@ export class RalphLoop {
           startTime
         );
       }
+    } catch (error) {
+      return this.createRejectedAttempt(
+        todoFunction,
+        generatedBody,
+        `Error: ${error instanceof Error ? error.message : String(error)}`,
+        startTime
+      );
+    }
+
+    return this.withVerificationLock(() => {
+      // A concurrent worker may have tripped the breaker while this model call ran
+      if (this.circuitBreaker.isTripped()) {
+        return Promise.resolve(
+          this.createRejectedAttempt(
+            todoFunction,
+            generatedBody,
+            'Aborted: circuit breaker tripped',
+            startTime
+          )
+        );
+      }
+      return this.injectAndVerify(view, todoFunction, generatedBody, startTime);
+    });
+  }
+
+  /**
+   * Injects a generated body and verifies it, rolling back on rejection.
+   *
+   * Must run under {@link RalphLoop.withVerificationLock} because it mutates
+   * the working tree that compilation and tests read from.
+   *
+   * @param view - The worker's project view to inject through.
+   * @param todoFunction - The function to implement.
+   * @param generatedBody - The body returned by the model.
+   * @param startTime - Attempt start timestamp.
+   * @returns The implementation attempt result.
+   */
+  private async injectAndVerify(
+    view: unknown,
+    todoFunction: TodoFunction,
+    generatedBody: string,
+    startTime: number
+  ): Promise<ImplementationAttempt> {
+    let compilationResult: TypeCheckResult;
+    // Track original content for rollback - will be set before injection
+    let originalContent = '';
+    let injectionOccurred = false;
+
+    try {
+      // Pick up bodies accepted through other worker views since this view was loaded
+      await this.target.refresh(view, todoFunction.filePath);
 
       // Save original file content for potential rollback
       originalContent = await safeReadFile(todoFunction.filePath, 'utf-8');
 
       // Inject implementation via AST
       try {
-        injectFunctionBody(project, todoFunction.filePath, todoFunction.name, generatedBody);
+        await this.target.inject(view, todoFunction, generatedBody);
         injectionOccurred = true;
       } catch (injectError) {
         return this.createRejectedAttempt(
@@ -561,13 +1056,13 @@ export class RalphLoop {
       }
 
       // Verify compilation
-      compilationResult = await this.runCompilationCheck();
+      compilationResult = await this.target.typeCheck();
 
       if (!compilationResult.success) {
         // Rollback: restore original file
         await safeWriteFile(todoFunction.filePath, originalContent, 'utf-8');
         // Refresh to pick up the restored file
-        void project.getSourceFile(todoFunction.filePath)?.refreshFromFileSystem();
+        await this.target.refresh(view, todoFunction.filePath);
 
         const errorMessages = compilationResult.errors
           .slice(0, 3)
@@ -593,7 +1088,7 @@ export class RalphLoop {
       // Verify security scan (only if compilation passes)
       const securityScanResult = await this.runSecurityVerification(todoFunction);
 
-      if (securityScanResult.hasCriticalVulnerabilities) {
+      if (securityScanResult?.hasCriticalVulnerabilities === true) {
         const failure = securityScanToFailure(securityScanResult) ?? {
           type: 'security' as const,
           vulnerability: 'injection' as const,
@@ -601,7 +1096,7 @@ export class RalphLoop {
 
         // Rollback: restore original file
         await safeWriteFile(todoFunction.filePath, originalContent, 'utf-8');
-        void project.getSourceFile(todoFunction.filePath)?.refreshFromFileSystem();
+        await this.target.refresh(view, todoFunction.filePath);
 
         const vulnSummary = securityScanResult.vulnerabilities
           .filter((v) => v.severity === 'critical')
@@ -627,7 +1122,7 @@ export class RalphLoop {
       if (testResult !== undefined && !testResult.success) {
         // Rollback: restore original file
         await safeWriteFile(todoFunction.filePath, originalContent, 'utf-8');
-        void project.getSourceFile(todoFunction.filePath)?.refreshFromFileSystem();
+        await this.target.refresh(view, todoFunction.filePath);
 
         const failedTests = testResult.tests
           .filter((t) => t.status === 'failed')
@@ -653,7 +1148,7 @@ export class RalphLoop {
           generatedBody,
           compilationResult,
           testResult,
-          securityScanResult,
+          ...(securityScanResult !== undefined ? { securityScanResult } : {}),
           rejectionReason: `Tests failed: ${failedTests}`,
           failureType: failure,
           durationMs: Date.now() - startTime,
@@ -669,7 +1164,7 @@ export class RalphLoop {
           generatedBody,
           compilationResult,
           testResult,
-          securityScanResult,
+          ...(securityScanResult !== undefined ? { securityScanResult } : {}),
           durationMs: Date.now() - startTime,
         };
       }
@@ -679,7 +1174,7 @@ export class RalphLoop {
         accepted: true,
         generatedBody,
         compilationResult,
-        securityScanResult,
+        ...(securityScanResult !== undefined ? { securityScanResult } : {}),
         durationMs: Date.now() - startTime,
       };
     } catch (error) {
@@ -687,7 +1182,7 @@ export class RalphLoop {
       if (injectionOccurred) {
         try {
           await safeWriteFile(todoFunction.filePath, originalContent, 'utf-8');
-          void project.getSourceFile(todoFunction.filePath)?.refreshFromFileSystem();
+          await this.target.refresh(view, todoFunction.filePath);
         } catch {
           // Rollback failed - log but continue with error reporting
           this.options.logger(`  Warning: Failed to rollback ${todoFunction.filePath} after error`);
@@ -711,21 +1206,15 @@ export class RalphLoop {
    * - Escalates to higher tiers based on failure type
    * - Records attempts to circuit breaker
    *
-   * @param project - The ts-morph Project.
-   * @param todoFunction - The function to implement.
-   * @param functionId - The function ID for circuit breaker tracking.
+   * @param view - The worker's project view.
+   * @param todoFunction - The function to implement, tracked by its id.
    * @returns An object with all attempts and final status.
    */
   private async implementFunctionWithRetry(
-    project: Project,
-    todoFunction: TodoFunction,
-    functionId: string
-  ): Promise<{
-    accepted: boolean;
-    attempts: ImplementationAttempt[];
-    finalRejectionReason?: string;
-    finalFailureType?: FailureType;
-  }> {
+    view: unknown,
+    todoFunction: TodoFunction
+  ): Promise<FunctionOutcome> {
+    const functionId = todoFunction.id;
     const attempts: ImplementationAttempt[] = [];
     let currentTier: ModelTier = 'worker';
 
@@ -733,11 +1222,15 @@ export class RalphLoop {
     let functionAttempts = createFunctionAttempts(functionId);
 
     for (let attemptNum = 0; attemptNum < this.options.maxAttemptsPerFunction; attemptNum++) {
+      if (this.circuitBreaker.isTripped()) {
+        break;
+      }
+
       // Record attempt start with circuit breaker
       this.circuitBreaker.recordAttemptStart(functionId, currentTier);
 
       // Attempt implementation at current tier
-      const attempt = await this.implementFunction(project, todoFunction, currentTier);
+      const attempt = await this.implementFunction(view, todoFunction, currentTier);
       attempts.push(attempt);
 
       if (attempt.accepted) {
@@ -831,35 +1324,19 @@ export class RalphLoop {
   }
 
   /**
-   * Runs compilation check on the project.
-   */
-  private async runCompilationCheck(): Promise<TypeCheckResult> {
-    // Build options conditionally
-    if (this.options.tsconfigPath !== '') {
-      return runTypeCheck(this.options.projectPath, {
-        tsconfigPath: this.options.tsconfigPath,
-      });
-    }
-    return runTypeCheck(this.options.projectPath, {});
-  }
-
-  /**
-   * Runs security verification for a function.
+   * Runs security verification for a function, if the target supports it.
    *
    * @param todoFunction - The function being verified.
-   * @returns Security scan result.
+   * @returns Security scan result, or undefined if the target has no scanner.
    */
-  private async runSecurityVerification(todoFunction: TodoFunction): Promise<SecurityScanResult> {
+  private async runSecurityVerification(
+    todoFunction: TodoFunction
+  ): Promise<SecurityScanResult | undefined> {
+    if (this.target.securityScan === undefined) {
+      return undefined;
+    }
     this.options.logger(`  Running security scan for ${todoFunction.name}...`);
-
-    const scanResult = await runSecurityScan({
-      projectPath: this.options.projectPath,
-      files: [todoFunction.filePath],
-      failFastOnCritical: false, // We handle critical vulnerabilities ourselves
-      logger: this.options.logger,
-    });
-
-    return scanResult;
+    return this.target.securityScan(todoFunction);
   }
 
   /**
@@ -871,39 +1348,18 @@ export class RalphLoop {
   private async runTestVerification(
     todoFunction: TodoFunction
   ): Promise<TestRunResult | undefined> {
-    // Determine test pattern
-    let testPattern = this.options.testPattern;
+    // Default: look for a test file matching the source file
+    const testPattern = this.options.testPattern ?? (await this.target.findTestFile(todoFunction));
 
     if (testPattern === undefined) {
-      // Default: look for a test file matching the source file
-      // Try both .test.ts and .spec.ts conventions
-      const baseName = path.basename(todoFunction.filePath, '.ts');
-      const dirName = path.dirname(todoFunction.filePath);
-      const testFile = path.join(dirName, `${baseName}.test.ts`);
-      const specFile = path.join(dirName, `${baseName}.spec.ts`);
-
-      // Check if .test.ts file exists first, then fall back to .spec.ts
-      const testFileExists = await safeExists(testFile);
-      if (testFileExists) {
-        testPattern = testFile;
-      } else {
-        const specFileExists = await safeExists(specFile);
-        if (specFileExists) {
-          testPattern = specFile;
-        } else {
-          // Neither test file convention found, skip test verification
-          this.options.logger(
-            `  No test file found for ${todoFunction.name}, skipping test verification`
-          );
-          return undefined;
-        }
-      }
+      this.options.logger(
+        `  No test file found for ${todoFunction.name}, skipping test verification`
+      );
+      return undefined;
     }
 
     try {
-      return await runTests(testPattern, {
-        cwd: this.options.projectPath,
-      });
+      return await this.target.runTests(testPattern);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       const errorStack = error instanceof Error ? error.stack : undefined;
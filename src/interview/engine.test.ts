@@ -15,6 +15,7 @@ import {
   type ApprovalAnswerResponse,
 } from './engine.js';
 import { getCriticalityBaseDir } from './persistence.js';
+import { parseQuestionBank } from './question-bank.js';
 import { safeReadFile, safeWriteFile, safeExists } from '../utils/safe-fs.js';
 
 // Test helper to create a unique project ID for isolation
@@ -1106,4 +1107,131 @@ phase = "design"
       expect(content).toContain('New condition');
     });
   });
+
+  describe('question bank', () => {
+    const bank = parseQuestionBank(`
+version = "1.0.0"
+
+[phases.discovery]
+phase_summary_template = "Problem: {problem_statement}. Users: {target_users}."
+
+[phases.discovery.topics.problem.primary]
+id = "problem_001"
+text = "What problem are you trying to solve?"
+extract_as = ["problem"]
+
+[[phases.discovery.topics.problem.follow_ups]]
+id = "problem_002"
+text = "Who experiences this problem most acutely?"
+extract_as = ["user_persona"]
+
+[phases.discovery.topics.audience.primary]
+id = "audience_001"
+text = "Who is the audience?"
+type = "multiple_choice"
+allows_freeform = false
+extract_as = ["user_persona"]
+
+[[phases.discovery.topics.audience.primary.options]]
+id = "public"
+text = "General public"
+
+[[phases.discovery.topics.audience.primary.options]]
+id = "clinicians"
+text = "Clinicians"
+implies_facts = [{ category = "constraint_compliance", content = "Handles health records" }]
+
+[phases.constraints]
+delegation_prompt = "Shall I pick sensible constraints?"
+
+[phases.constraints.topics.performance.primary]
+id = "constraints_001"
+text = "What are your performance requirements?"
+extract_as = ["constraint_performance"]
+`);
+
+    function open(phase: OpenTextResponse['phase'], text: string): OpenTextResponse {
+      return { phase, type: 'open', text };
+    }
+
+    it('walks the bank and fills the phase summary', async () => {
+      const engine = new InterviewEngine(projectId, { questionBank: bank });
+
+      const start = await engine.start();
+      expect(start.nextQuestion).toMatchObject({ id: 'problem_001', type: 'open' });
+
+      const followUp = await engine.answer(open('Discovery', 'Claims take weeks to settle'));
+      expect(followUp.nextQuestion?.id).toBe('problem_002');
+
+      const choice = await engine.answer(open('Discovery', 'Insurance adjusters'));
+      expect(choice.nextQuestion).toMatchObject({
+        id: 'audience_001',
+        type: 'choice',
+        options: ['General public', 'Clinicians'],
+      });
+
+      const rejected = await engine.answer(open('Discovery', 'Everyone'));
+      expect(rejected.accepted).toBe(false);
+      expect(rejected.error).toBe('Choose one of: General public, Clinicians');
+
+      const done = await engine.answer(open('Discovery', '2'));
+      expect(done.phaseSummary).toBe(
+        'Problem: Claims take weeks to settle. Users: Insurance adjusters; Clinicians.'
+      );
+      expect(done.state.currentPhase).toBe('Architecture');
+      expect(done.state.extractedRequirements).toContainEqual(
+        expect.objectContaining({
+          questionId: 'audience_001',
+          facts: ['constraint_compliance'],
+          text: 'Handles health records',
+          category: 'constraint',
+        })
+      );
+      expect(done.state.extractedRequirements).toContainEqual(
+        expect.objectContaining({ questionId: 'audience_001', selectedOptions: ['clinicians'] })
+      );
+    });
+
+    it('uses built-in questions for phases the bank does not cover', async () => {
+      const engine = new InterviewEngine(projectId, { questionBank: bank });
+      await engine.start();
+      await engine.answer(open('Discovery', 'Claims take weeks to settle'));
+      await engine.answer(open('Discovery', 'Insurance adjusters'));
+      const result = await engine.answer(open('Discovery', 'public'));
+
+      expect(result.nextQuestion).toMatchObject({ phase: 'Architecture', type: 'open' });
+      expect(result.nextQuestion?.id).toMatch(/^q_architecture_/);
+    });
+
+    it('offers delegation with the bank prompt before walking a delegable phase', async () => {
+      const engine = new InterviewEngine(projectId, { questionBank: bank });
+      await engine.start();
+      await engine.answer(open('Discovery', 'Claims take weeks to settle'));
+      await engine.answer(open('Discovery', 'Insurance adjusters'));
+      await engine.answer(open('Discovery', 'public'));
+      const constraints = await engine.answer(open('Architecture', 'A single service'));
+
+      expect(constraints.nextQuestion).toMatchObject({
+        type: 'delegation',
+        text: 'Shall I pick sensible constraints?',
+      });
+
+      const result = await engine.answer({
+        phase: 'Constraints',
+        type: 'delegation',
+        decision: 'Continue',
+      });
+      expect(result.nextQuestion?.id).toBe('constraints_001');
+    });
+
+    it('resumes at the next unanswered bank question', async () => {
+      const engine = new InterviewEngine(projectId, { questionBank: bank });
+      await engine.start();
+      await engine.answer(open('Discovery', 'Claims take weeks to settle'));
+
+      const resumed = await new InterviewEngine(projectId, { questionBank: bank }).resume();
+
+      expect(resumed.nextQuestion?.id).toBe('problem_002');
+    });
+  });
 });
@@ -45,6 +45,14 @@ import {
   isDelegablePhase,
   createFeatureClassificationTranscriptEntries,
 } from './structure.js';
+import {
+  fillSummaryTemplate,
+  getRequirementCategoryForFacts,
+  matchQuestionOptions,
+  selectNextQuestion,
+  type QuestionBank,
+  type QuestionBankQuestion,
+} from './question-bank.js';
 import { Ledger, fromData } from '../ledger/ledger.js';
 import type { LedgerData } from '../ledger/types.js';
 import { safeReadFile, safeWriteFile, safeRename, safeUnlink } from '../utils/safe-fs.js';
@@ -239,6 +247,18 @@ export interface AnswerResult {
   readonly phasesToRevisit?: readonly InterviewPhase[];
   /** Error message if answer was not accepted. */
   readonly error?: string;
+  /** Filled phase summary template, when a question-bank phase was completed. */
+  readonly phaseSummary?: string;
+}
+
+/**
+ * Options for creating an InterviewEngine.
+ */
+export interface InterviewEngineOptions {
+  /** Project root for ledger integration. */
+  readonly projectRoot?: string;
+  /** Question bank to walk; phases it does not cover use the built-in questions. */
+  readonly questionBank?: QuestionBank;
 }
 
 /**
@@ -360,6 +380,36 @@ function createQuestionForPhase(phase: InterviewPhase): CurrentQuestion {
   };
 }
 
+/**
+ * Creates a current question from a question-bank question.
+ */
+function createQuestionFromBank(
+  question: QuestionBankQuestion,
+  phase: InterviewPhase
+): CurrentQuestion {
+  const hint =
+    question.context ??
+    (question.examples.length > 0 ? `For example: ${question.examples.join('; ')}` : undefined);
+
+  return {
+    id: question.id,
+    phase,
+    type:
+      question.type === 'multiple_choice'
+        ? 'choice'
+        : question.type === 'confirmation'
+          ? 'confirmation'
+          : 'open',
+    text: question.text.trim(),
+    ...(hint !== undefined ? { hint } : {}),
+    ...(question.options.length > 0
+      ? { options: question.options.map((option) => option.text) }
+      : {}),
+    allowsDelegation: false,
+    category: getRequirementCategoryForFacts(question.extract_as) ?? getCategoryForPhase(phase),
+  };
+}
+
 /**
  * Validates that an object has the expected shape for an answer response.
  */
@@ -632,17 +682,20 @@ export class InterviewEngine {
   private readonly projectId: string;
   private readonly projectRoot: string | undefined;
   private readonly logger: Logger;
+  private readonly questionBank: QuestionBank | undefined;
   private state: InterviewState | undefined;
   private currentQuestion: CurrentQuestion | undefined;
+  private bankQuestion: QuestionBankQuestion | undefined;
   private started = false;
 
   /**
    * Creates a new InterviewEngine instance.
    *
    * @param projectId - The project identifier.
-   * @param options - Optional configuration including projectRoot for ledger integration.
+   * @param options - Optional configuration including projectRoot for ledger
+   *   integration and the question bank to walk.
    */
-  constructor(projectId: string, options?: { projectRoot?: string }) {
+  constructor(projectId: string, options?: InterviewEngineOptions) {
     if (typeof projectId !== 'string' || projectId.trim() === '') {
       throw new InterviewEngineError(
         'Project ID must be a non-empty string',
@@ -661,6 +714,7 @@ export class InterviewEngine {
     }
     this.projectId = projectId.trim();
     this.projectRoot = options?.projectRoot;
+    this.questionBank = options?.questionBank;
     this.logger = new Logger({ component: 'InterviewEngine' });
   }
 
@@ -695,7 +749,7 @@ export class InterviewEngine {
       await saveInterviewState(this.state);
 
       // Create first question
-      this.currentQuestion = createQuestionForPhase(this.state.currentPhase);
+      this.currentQuestion = this.createQuestion(this.state.currentPhase);
       this.started = true;
 
       // Record start in transcript
@@ -843,7 +897,7 @@ export class InterviewEngine {
       }
 
       // Create question for current phase
-      this.currentQuestion = createQuestionForPhase(this.state.currentPhase);
+      this.currentQuestion = this.createQuestion(this.state.currentPhase);
 
       // Record resume in transcript
       const entry = createTranscriptEntry(
@@ -880,6 +934,154 @@ export class InterviewEngine {
     return loadTranscript(this.projectId);
   }
 
+  /**
+   * Creates the question to ask next in a phase.
+   *
+   * Question-bank phases open with the delegation offer (for delegable
+   * phases) and then walk the bank; other phases use the built-in question.
+   */
+  private createQuestion(phase: InterviewPhase): CurrentQuestion {
+    this.bankQuestion = undefined;
+    // eslint-disable-next-line security/detect-object-injection -- safe: phase is InterviewPhase enum with known literal keys
+    const bankPhase = this.questionBank?.phases[phase];
+    if (bankPhase === undefined) {
+      return createQuestionForPhase(phase);
+    }
+
+    const started = this.state?.extractedRequirements.some(
+      (requirement) => requirement.sourcePhase === phase && requirement.questionId !== undefined
+    );
+    if (isDelegablePhase(phase) && started !== true) {
+      const question = createQuestionForPhase(phase);
+      return bankPhase.delegation_prompt !== undefined
+        ? { ...question, text: bankPhase.delegation_prompt.trim() }
+        : question;
+    }
+
+    return this.createBankQuestion(phase) ?? createQuestionForPhase(phase);
+  }
+
+  /**
+   * Creates the next question-bank question of a phase.
+   *
+   * @returns The question, or undefined if the bank has no questions left.
+   */
+  private createBankQuestion(phase: InterviewPhase): CurrentQuestion | undefined {
+    // eslint-disable-next-line security/detect-object-injection -- safe: phase is InterviewPhase enum with known literal keys
+    const bankPhase = this.questionBank?.phases[phase];
+    const next =
+      bankPhase !== undefined && this.state !== undefined
+        ? selectNextQuestion(bankPhase, this.state.extractedRequirements)
+        : undefined;
+    this.bankQuestion = next;
+    return next !== undefined ? createQuestionFromBank(next, phase) : undefined;
+  }
+
+  /**
+   * Processes an answer to a question-bank question.
+   *
+   * Records the answer with its fact categories and selected options, then
+   * asks the next bank question or, when the phase is done, fills the
+   * phase summary and advances.
+   */
+  private async processBankAnswer(
+    question: QuestionBankQuestion,
+    response: OpenTextResponse
+  ): Promise<AnswerResult> {
+    if (this.state === undefined) {
+      throw new InterviewEngineError('State is undefined', 'STATE_INCONSISTENT');
+    }
+
+    const phase = this.state.currentPhase;
+    const selected = matchQuestionOptions(question, response.text);
+    if (question.options.length > 0 && selected === undefined && !question.allows_freeform) {
+      return {
+        accepted: false,
+        state: this.state,
+        ...(this.currentQuestion !== undefined ? { nextQuestion: this.currentQuestion } : {}),
+        complete: false,
+        error: `Choose one of: ${question.options.map((option) => option.text).join(', ')}`,
+      };
+    }
+
+    // Selected options are recorded by their text so summaries read naturally
+    const selectedOptions = question.options.filter(
+      (option) => selected?.includes(option.id) === true
+    );
+    const text =
+      selectedOptions.length > 0
+        ? selectedOptions.map((option) => option.text).join(', ')
+        : response.text;
+    const category =
+      getRequirementCategoryForFacts(question.extract_as) ?? getCategoryForPhase(phase);
+    const requirement: ExtractedRequirement = {
+      ...createExtractedRequirement(phase, category, text, response.confidence ?? 'medium'),
+      questionId: question.id,
+      facts: question.extract_as,
+      ...(selected !== undefined ? { selectedOptions: selected } : {}),
+    };
+    const implied = selectedOptions
+      .flatMap((option) => option.implies_facts)
+      .map(
+        (fact): ExtractedRequirement => ({
+          ...createExtractedRequirement(
+            phase,
+            getRequirementCategoryForFacts([fact.category]) ?? category,
+            fact.content,
+            'high'
+          ),
+          questionId: question.id,
+          facts: [fact.category],
+        })
+      );
+
+    const userEntry = createTranscriptEntry(phase, 'user', response.text);
+    const systemEntry = createTranscriptEntry(
+      phase,
+      'system',
+      `Recorded answer to ${question.id}${question.extract_as.length > 0 ? ` as ${question.extract_as.join(', ')}` : ''}`
+    );
+
+    this.state = {
+      ...this.state,
+      extractedRequirements: [...this.state.extractedRequirements, requirement, ...implied],
+      updatedAt: new Date().toISOString(),
+    };
+    this.state = await appendTranscriptEntryAndUpdateState(this.projectId, userEntry, this.state);
+    this.state = await appendTranscriptEntryAndUpdateState(this.projectId, systemEntry, this.state);
+
+    const nextQuestion = this.createBankQuestion(phase);
+    if (nextQuestion !== undefined) {
+      this.currentQuestion = nextQuestion;
+      return {
+        accepted: true,
+        state: this.state,
+        nextQuestion,
+        complete: false,
+      };
+    }
+
+    // eslint-disable-next-line security/detect-object-injection -- safe: phase is InterviewPhase enum with known literal keys
+    const template = this.questionBank?.phases[phase]?.phase_summary_template;
+    if (template === undefined) {
+      return this.advancePhase();
+    }
+
+    const phaseSummary = fillSummaryTemplate(
+      template,
+      this.state.extractedRequirements,
+      this.state.features
+    ).trim();
+    const summaryEntry = createTranscriptEntry(phase, 'assistant', phaseSummary);
+    this.state = await appendTranscriptEntryAndUpdateState(
+      this.projectId,
+      summaryEntry,
+      this.state
+    );
+
+    return { ...(await this.advancePhase()), phaseSummary };
+  }
+
   /**
    * Processes an open text response.
    */
@@ -888,6 +1090,10 @@ export class InterviewEngine {
       throw new InterviewEngineError('State is undefined', 'STATE_INCONSISTENT');
     }
 
+    if (this.bankQuestion !== undefined) {
+      return this.processBankAnswer(this.bankQuestion, response);
+    }
+
     const phase = this.state.currentPhase;
     const confidence = response.confidence ?? 'medium';
 
@@ -958,6 +1164,18 @@ export class InterviewEngine {
       const entry = createTranscriptEntry(phase, 'user', '[Decision] Continue providing input');
       this.state = await appendTranscriptEntryAndUpdateState(this.projectId, entry, this.state);
 
+      // Question-bank phases continue with the bank's first question
+      const bankQuestion = this.createBankQuestion(phase);
+      if (bankQuestion !== undefined) {
+        this.currentQuestion = bankQuestion;
+        return {
+          accepted: true,
+          state: this.state,
+          nextQuestion: bankQuestion,
+          complete: false,
+        };
+      }
+
       // Convert delegation question to open-text variant (no delegation options)
       if (this.currentQuestion !== undefined) {
         // Build open-text question from current question, omitting delegation-specific fields
@@ -1206,7 +1424,7 @@ export class InterviewEngine {
       if (targetPhase !== undefined) {
         this.state = resetToPhase(this.state, targetPhase);
         await saveInterviewState(this.state);
-        this.currentQuestion = createQuestionForPhase(this.state.currentPhase);
+        this.currentQuestion = this.createQuestion(this.state.currentPhase);
       }
 
       // Return with conditionally added nextQuestion to satisfy exactOptionalPropertyTypes
@@ -1231,7 +1449,7 @@ export class InterviewEngine {
     // RejectWithFeedback - reset to Discovery
     this.state = resetToPhase(this.state, 'Discovery');
     await saveInterviewState(this.state);
-    const discoveryQuestion = createQuestionForPhase('Discovery');
+    const discoveryQuestion = this.createQuestion('Discovery');
     this.currentQuestion = discoveryQuestion;
 
     return {
@@ -1350,7 +1568,7 @@ export class InterviewEngine {
     }
 
     // Create question for next phase
-    const nextQuestion = createQuestionForPhase(nextPhase);
+    const nextQuestion = this.createQuestion(nextPhase);
     this.currentQuestion = nextQuestion;
 
     // Record phase transition
@@ -0,0 +1,376 @@
+/**
+ * Tests for the document-driven Ignition interview.
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { igniteFromDocument, IgniteError, type BlockingQuestion } from './ignite.js';
+import { InterviewEngine } from './engine.js';
+import { getCriticalityBaseDir } from './persistence.js';
+import { parseQuestionBank } from './question-bank.js';
+import { generateSpec } from './spec-generator.js';
+import { Ledger } from '../ledger/ledger.js';
+import type { ModelAlias, ModelRouter, ModelRouterResult } from '../router/types.js';
+import { createFailureResult, createNetworkError } from '../router/types.js';
+
+const PRD = `# Claims Portal
+Adjusters settle insurance claims in a web portal.
+The portal is a single Node.js service backed by PostgreSQL.`;
+
+function success(content: string): ModelRouterResult {
+  return {
+    success: true,
+    response: {
+      content,
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      metadata: { modelId: 'claude-sonnet-4-5', provider: 'anthropic', latencyMs: 100 },
+    },
+  };
+}
+
+interface MockReplies {
+  /** Answers per phase, keyed by question ID ('*' answers the built-in question). */
+  readonly phases?: Partial<Record<string, Record<string, string>>>;
+  readonly auditor?: object;
+  /** Architect responses to auditor findings. */
+  readonly architect?: (prompt: string) => object;
+}
+
+// Helper to create a ModelRouter that plays the architect and the auditor
+function createMockModelRouter(replies: MockReplies): ModelRouter {
+  const answer = (alias: ModelAlias, prompt: string): ModelRouterResult => {
+    if (alias === 'auditor') {
+      return success(JSON.stringify(replies.auditor ?? { hasIssues: false, issues: [] }));
+    }
+    const phase = /running the (\w+) phase/.exec(prompt)?.[1];
+    if (phase === undefined) {
+      return success(JSON.stringify(replies.architect?.(prompt) ?? { responses: [] }));
+    }
+    const ids = [...prompt.matchAll(/^\[([^\]]+)\]/gm)].map((match) => match[1] ?? '');
+    const answers = Object.entries(replies.phases?.[phase] ?? {}).map(([id, text]) => ({
+      questionId: id === '*' ? ids[0] : id,
+      answer: text,
+      evidence: 'From the PRD',
+    }));
+    return success(`\`\`\`json\n${JSON.stringify({ answers })}\n\`\`\``);
+  };
+
+  return {
+    prompt: vi
+      .fn()
+      .mockImplementation((alias: ModelAlias, prompt: string) =>
+        Promise.resolve(answer(alias, prompt))
+      ),
+    complete: vi.fn(),
+    stream: vi.fn(),
+  };
+}
+
+describe('igniteFromDocument', () => {
+  let projectId: string;
+  let ledger: Ledger;
+
+  beforeEach(() => {
+    projectId = `test-ignite-${String(Date.now())}-${Math.random().toString(36).substring(2, 9)}`;
+    ledger = new Ledger({ project: projectId });
+  });
+
+  afterEach(async () => {
+    await rm(join(getCriticalityBaseDir(), 'projects', projectId), {
+      recursive: true,
+      force: true,
+    });
+  });
+
+  it('answers the interview from the document and saves the proposal', async () => {
+    const askUser = vi.fn<(question: BlockingQuestion) => Promise<string>>();
+
+    const result = await igniteFromDocument(projectId, PRD, {
+      modelRouter: createMockModelRouter({
+        phases: {
+          Discovery: { '*': 'A web portal where adjusters settle insurance claims' },
+          Architecture: { '*': 'A single Node.js service backed by PostgreSQL' },
+        },
+      }),
+      ledger,
+      askUser,
+      documentName: 'prd.md',
+    });
+
+    expect(askUser).not.toHaveBeenCalled();
+    expect(result.state.currentPhase).toBe('Synthesis');
+    expect(result.state.delegationPoints.map((point) => point.phase)).toEqual([
+      'Constraints',
+      'DesignPreferences',
+    ]);
+    expect(result.state.extractedRequirements.map((req) => [req.text, req.confidence])).toEqual([
+      ['A web portal where adjusters settle insurance claims', 'medium'],
+      ['A single Node.js service backed by PostgreSQL', 'medium'],
+    ]);
+
+    expect(ledger.getDecisions()).toEqual([
+      expect.objectContaining({
+        category: 'interface',
+        confidence: 'inferred',
+        source: 'original_design',
+        phase: 'ignition',
+        rationale: 'Inferred by the Architect from prd.md: "From the PRD"',
+      }),
+      expect.objectContaining({ category: 'architectural', confidence: 'inferred' }),
+    ]);
+    expect(result.inferredAnswers.map((answer) => answer.decisionId)).toEqual(
+      ledger.getDecisions().map((decision) => decision.id)
+    );
+
+    expect(result.proposal.version).toBe(1);
+    expect(result.proposal.spec.claims).toEqual(generateSpec(result.state).claims);
+  });
+
+  it('asks the user about gaps in the document', async () => {
+    const askUser = vi
+      .fn<(question: BlockingQuestion) => Promise<string>>()
+      .mockResolvedValue('Serverless functions behind an API gateway');
+
+    const result = await igniteFromDocument(projectId, PRD, {
+      modelRouter: createMockModelRouter({
+        phases: { Discovery: { '*': 'A claims portal' } },
+      }),
+      ledger,
+      askUser,
+    });
+
+    expect(askUser).toHaveBeenCalledTimes(1);
+    expect(askUser.mock.calls[0]?.[0]).toMatchObject({ kind: 'gap', phase: 'Architecture' });
+    expect(result.state.extractedRequirements[1]).toMatchObject({
+      sourcePhase: 'Architecture',
+      text: 'Serverless functions behind an API gateway',
+      confidence: 'high',
+    });
+    expect(ledger.getDecisions()).toHaveLength(1);
+  });
+
+  it('asks the user only about findings that require a decision', async () => {
+    const askUser = vi
+      .fn<(question: BlockingQuestion) => Promise<string>>()
+      .mockResolvedValue('Extend sessions while uploads are running');
+    const issue = {
+      type: 'temporal_contradiction',
+      severity: 'critical',
+      involvedRequirementIds: [],
+      suggestedResolutions: ['Extend sessions while uploads are running'],
+    };
+
+    const result = await igniteFromDocument(projectId, PRD, {
+      modelRouter: createMockModelRouter({
+        phases: {
+          Discovery: { '*': 'Sessions expire after 30 minutes' },
+          Architecture: { '*': 'Uploads can take 2 hours' },
+        },
+        auditor: {
+          hasIssues: true,
+          issues: [
+            { ...issue, description: 'Sessions expire during uploads', analysis: 'Too short' },
+            { ...issue, description: 'Audit log retention', analysis: 'Unclear' },
+          ],
+        },
+      }),
+      ledger,
+      askUser,
+    });
+
+    expect(result.findings.map((finding) => finding.status)).toEqual(['pending', 'pending']);
+    expect(askUser).toHaveBeenCalledTimes(2);
+    expect(askUser.mock.calls[0]?.[0]).toMatchObject({
+      kind: 'finding',
+      text: 'Sessions expire during uploads',
+      hint: 'Too short',
+      options: ['Extend sessions while uploads are running'],
+    });
+
+    expect(ledger.getDecisions().at(-1)).toMatchObject({
+      category: 'constraint',
+      source: 'human_resolution',
+      confidence: 'canonical',
+      constraint: 'Extend sessions while uploads are running',
+      contradiction_resolved: 'Audit log retention',
+    });
+    expect(result.state.currentPhase).toBe('Approval');
+    expect(result.state.extractedRequirements.at(-1)).toMatchObject({
+      sourcePhase: 'Synthesis',
+      text:
+        'Sessions expire during uploads: Extend sessions while uploads are running\n' +
+        'Audit log retention: Extend sessions while uploads are running',
+    });
+  });
+
+  it('asks again when a finding resolution is empty', async () => {
+    const askUser = vi
+      .fn<(question: BlockingQuestion) => Promise<string>>()
+      .mockResolvedValueOnce('   ')
+      .mockResolvedValue('Keep audit logs for a year');
+
+    const result = await igniteFromDocument(projectId, PRD, {
+      modelRouter: createMockModelRouter({
+        phases: {
+          Discovery: { '*': 'Sessions expire after 30 minutes' },
+          Architecture: { '*': 'Uploads can take 2 hours' },
+        },
+        auditor: {
+          hasIssues: true,
+          issues: [
+            {
+              type: 'temporal_contradiction',
+              severity: 'critical',
+              involvedRequirementIds: [],
+              suggestedResolutions: [],
+              description: 'Audit log retention',
+              analysis: 'Unclear',
+            },
+          ],
+        },
+      }),
+      ledger,
+      askUser,
+    });
+
+    expect(askUser).toHaveBeenCalledTimes(2);
+    expect(askUser.mock.calls[1]?.[0]).toMatchObject({
+      kind: 'finding',
+      text: 'Audit log retention',
+      hint: 'Text cannot be empty',
+    });
+    expect(result.blockingQuestions).toHaveLength(1);
+    expect(ledger.getDecisions().at(-1)).toMatchObject({
+      constraint: 'Keep audit logs for a year',
+      contradiction_resolved: 'Audit log retention',
+    });
+  });
+
+  it('does not ask about findings the Architect resolved', async () => {
+    const askUser = vi.fn<(question: BlockingQuestion) => Promise<string>>();
+    const modelRouter = createMockModelRouter({
+      phases: {
+        Discovery: { '*': 'A claims portal' },
+        Architecture: { '*': 'A monolith' },
+      },
+      auditor: {
+        hasIssues: true,
+        issues: [
+          {
+            type: 'precondition_gap',
+            severity: 'warning',
+            description: 'No authentication',
+            analysis: 'Who may log in?',
+          },
+        ],
+      },
+      // Accept whichever issue ID the auditor generated
+      architect: (prompt) => ({
+        responses: [
+          {
+            issueId: /AUDITOR FINDINGS:\n\[([^\]]+)\]/.exec(prompt)?.[1],
+            accepted: true,
+            explanation: 'Add SSO',
+          },
+        ],
+      }),
+    });
+
+    const result = await igniteFromDocument(projectId, PRD, { modelRouter, ledger, askUser });
+
+    expect(result.findings.map((finding) => finding.status)).toEqual(['resolved']);
+    expect(askUser).not.toHaveBeenCalled();
+    expect(result.state.currentPhase).toBe('Synthesis');
+  });
+
+  it('walks question banks and asks again when an inferred choice does not match', async () => {
+    const bank = parseQuestionBank(`
+version = "1.0.0"
+
+[phases.discovery.topics.problem.primary]
+id = "problem_001"
+text = "What problem are you trying to solve?"
+extract_as = ["problem"]
+
+[phases.discovery.topics.audience.primary]
+id = "audience_001"
+text = "Who is the audience?"
+type = "multiple_choice"
+allows_freeform = false
+extract_as = ["user_persona"]
+options = [
+  { id = "public", text = "General public" },
+  { id = "claims_adjusters", text = "Claims adjusters" },
+]
+`);
+    const askUser = vi
+      .fn<(question: BlockingQuestion) => Promise<string>>()
+      .mockResolvedValue('Claims adjusters');
+
+    const result = await igniteFromDocument(projectId, PRD, {
+      modelRouter: createMockModelRouter({
+        phases: {
+          Discovery: { problem_001: 'Claims take weeks to settle', audience_001: 'Adjusters' },
+          Architecture: { '*': 'A monolith' },
+        },
+      }),
+      ledger,
+      askUser,
+      questionBank: bank,
+    });
+
+    expect(askUser).toHaveBeenCalledTimes(1);
+    expect(askUser.mock.calls[0]?.[0]).toMatchObject({
+      id: 'audience_001',
+      kind: 'gap',
+      options: ['General public', 'Claims adjusters'],
+    });
+    expect(result.inferredAnswers.map((answer) => answer.questionId)).toEqual([
+      'problem_001',
+      expect.stringMatching(/^q_architecture_/),
+    ]);
+    expect(result.state.extractedRequirements[1]).toMatchObject({
+      questionId: 'audience_001',
+      selectedOptions: ['claims_adjusters'],
+    });
+  });
+
+  it('rejects empty documents', async () => {
+    await expect(
+      igniteFromDocument(projectId, '  \n', {
+        modelRouter: createMockModelRouter({}),
+        ledger,
+        askUser: vi.fn(),
+        documentName: 'prd.md',
+      })
+    ).rejects.toThrow(expect.objectContaining({ code: 'EMPTY_DOCUMENT' }) as Error);
+  });
+
+  it('refuses to overwrite an existing interview', async () => {
+    await new InterviewEngine(projectId).start();
+
+    const error = await igniteFromDocument(projectId, PRD, {
+      modelRouter: createMockModelRouter({}),
+      ledger,
+      askUser: vi.fn(),
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(IgniteError);
+    expect((error as IgniteError).code).toBe('INTERVIEW_EXISTS');
+  });
+
+  it('reports architect failures', async () => {
+    const modelRouter = createMockModelRouter({});
+    // eslint-disable-next-line @typescript-eslint/unbound-method -- vi.fn() mocks are safe to use this way
+    vi.mocked(modelRouter.prompt).mockResolvedValue(
+      createFailureResult(createNetworkError('connect ECONNREFUSED', { endpoint: 'https://api' }))
+    );
+
+    await expect(
+      igniteFromDocument(projectId, PRD, { modelRouter, ledger, askUser: vi.fn() })
+    ).rejects.toThrow('Architect could not answer the Discovery phase: connect ECONNREFUSED');
+  });
+});
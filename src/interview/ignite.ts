@@ -0,0 +1,457 @@
+/**
+ * Document-driven Ignition interview.
+ *
+ * Pre-answers the interview phases from a requirements document (e.g. a PRD):
+ * the Architect reads the document and answers each phase's questions, and the
+ * answers are fed through the InterviewEngine exactly as a user's would be.
+ * Every inferred answer is recorded as an `inferred` decision in the ledger.
+ *
+ * The user is only asked blocking questions:
+ * - Gaps: questions the document does not answer
+ * - Auditor findings that `requiresUserDecision` flags
+ *
+ * The resulting interview state goes through the same proposal and spec
+ * generation as a live interview.
+ *
+ * @packageDocumentation
+ */
+
+import type { ModelRouter } from '../router/types.js';
+import type { Ledger } from '../ledger/ledger.js';
+import type { DecisionCategory } from '../ledger/types.js';
+import type { ExtractedRequirement, InterviewPhase, InterviewState } from './types.js';
+import { InterviewEngine, type AnswerResult, type CurrentQuestion } from './engine.js';
+import { interviewStateExists } from './persistence.js';
+import { getPhaseQuestions, type QuestionBank } from './question-bank.js';
+import { performAdversarialAudit, requiresUserDecision, type AuditorFinding } from './auditor.js';
+import {
+  generateAndSaveProposal,
+  type SaveProposalResult,
+  type SpecGeneratorOptions,
+} from './spec-generator.js';
+
+/**
+ * Error codes for document-driven interviews.
+ */
+export type IgniteErrorCode = 'EMPTY_DOCUMENT' | 'INTERVIEW_EXISTS' | 'MODEL_ERROR';
+
+/**
+ * Error class for document-driven interviews.
+ */
+export class IgniteError extends Error {
+  /** The error code for programmatic handling. */
+  public readonly code: IgniteErrorCode;
+
+  /**
+   * Creates a new IgniteError.
+   *
+   * @param message - Human-readable error message.
+   * @param code - The error code.
+   */
+  constructor(message: string, code: IgniteErrorCode) {
+    super(message);
+    this.name = 'IgniteError';
+    this.code = code;
+  }
+}
+
+/**
+ * A question the document could not settle and the user must answer.
+ */
+export interface BlockingQuestion {
+  /** The interview question ID, or the auditor issue ID for findings. */
+  readonly id: string;
+  /** Why the question is blocking. */
+  readonly kind: 'gap' | 'finding';
+  /** The interview phase the answer belongs to. */
+  readonly phase: InterviewPhase;
+  /** The question text. */
+  readonly text: string;
+  /** Optional guidance, or why the previous answer was rejected. */
+  readonly hint?: string;
+  /** Options to choose from, or suggested resolutions for findings. */
+  readonly options?: readonly string[];
+}
+
+/**
+ * An answer the Architect inferred from the document.
+ */
+export interface InferredAnswer {
+  /** The interview question ID. */
+  readonly questionId: string;
+  /** The interview phase. */
+  readonly phase: InterviewPhase;
+  /** The answer given to the interview engine. */
+  readonly answer: string;
+  /** Passage of the document the answer was taken from. */
+  readonly evidence?: string;
+  /** ID of the ledger decision recording the answer. */
+  readonly decisionId: string;
+}
+
+/**
+ * Options for a document-driven interview.
+ */
+export interface IgniteFromDocumentOptions {
+  /** The model router; the architect alias answers, the auditor alias audits. */
+  readonly modelRouter: ModelRouter;
+  /** Ledger the inferred answers and user resolutions are recorded in. */
+  readonly ledger: Ledger;
+  /**
+   * Asks the user a blocking question and resolves with their answer.
+   * A finding is asked again while the answer is empty.
+   */
+  readonly askUser: (question: BlockingQuestion) => Promise<string>;
+  /** Name of the document, used in ledger rationales. Default: 'the document'. */
+  readonly documentName?: string;
+  /** Project root for ledger integration in the interview engine. */
+  readonly projectRoot?: string;
+  /** Question bank to walk; phases it does not cover use the built-in questions. */
+  readonly questionBank?: QuestionBank;
+  /** Options for the generated spec. */
+  readonly specOptions?: SpecGeneratorOptions;
+  /** Timeout for model calls in milliseconds. */
+  readonly timeoutMs?: number;
+}
+
+/**
+ * Result of a document-driven interview.
+ */
+export interface IgniteResult {
+  /** The interview state the proposal was generated from. */
+  readonly state: InterviewState;
+  /** Answers inferred from the document. */
+  readonly inferredAnswers: readonly InferredAnswer[];
+  /** Blocking questions the user was asked. */
+  readonly blockingQuestions: readonly BlockingQuestion[];
+  /** All auditor findings, including those that did not need the user. */
+  readonly findings: readonly AuditorFinding[];
+  /** The saved spec proposal. */
+  readonly proposal: SaveProposalResult;
+}
+
+/**
+ * A question put to the Architect for one phase.
+ */
+interface PhaseQuestion {
+  readonly id: string;
+  readonly text: string;
+  readonly options: readonly string[];
+}
+
+/**
+ * An answer parsed from the Architect's response.
+ */
+interface ParsedAnswer {
+  readonly answer: string;
+  readonly evidence?: string;
+}
+
+/**
+ * Creates the prompt asking the Architect to answer a phase from the document.
+ */
+function createInferencePrompt(
+  document: string,
+  phase: InterviewPhase,
+  questions: readonly PhaseQuestion[]
+): string {
+  const formattedQuestions = questions
+    .map((question) => {
+      const options =
+        question.options.length > 0 ? `\n  Options: ${question.options.join(' | ')}` : '';
+      return `[${question.id}] ${question.text}${options}`;
+    })
+    .join('\n');
+
+  return `You are the Architect running the ${phase} phase of a requirements interview. Instead of asking the user, answer the questions below from the requirements document.
+
+Only answer a question when the document states or clearly implies the answer. Leave out questions the document does not settle; the user will be asked those. When a question lists options, answer with the text of the matching option(s), separated by commas.
+
+Output your answers in the following JSON format:
+{
+  "answers": [
+    {
+      "questionId": "the question ID",
+      "answer": "Your answer",
+      "evidence": "The passage of the document the answer is based on"
+    }
+  ]
+}
+
+QUESTIONS:
+${formattedQuestions}
+
+DOCUMENT:
+${document}`;
+}
+
+/**
+ * Parses the Architect's answers.
+ *
+ * @param content - The raw response content.
+ * @returns Answers by question ID; unparseable responses yield no answers.
+ */
+function parseInferredAnswers(content: string): Map<string, ParsedAnswer> {
+  const answers = new Map<string, ParsedAnswer>();
+  try {
+    const jsonMatch = /\{[\s\S]*\}/.exec(content);
+    if (jsonMatch === null) {
+      return answers;
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]) as {
+      answers?: { questionId?: unknown; answer?: unknown; evidence?: unknown }[];
+    };
+
+    if (Array.isArray(parsed.answers)) {
+      for (const item of parsed.answers) {
+        if (typeof item.questionId !== 'string' || typeof item.answer !== 'string') {
+          continue;
+        }
+        const answer = item.answer.trim();
+        if (answer === '') {
+          continue;
+        }
+        answers.set(
+          item.questionId,
+          typeof item.evidence === 'string' ? { answer, evidence: item.evidence } : { answer }
+        );
+      }
+    }
+  } catch {
+    // Treat an unparseable response as leaving every question open
+  }
+  return answers;
+}
+
+/**
+ * Gets the ledger category for an inferred answer.
+ */
+function getDecisionCategory(
+  phase: InterviewPhase,
+  category: ExtractedRequirement['category']
+): DecisionCategory {
+  if (category === 'constraint' || category === 'non_functional') {
+    return 'constraint';
+  }
+  return phase === 'Architecture' ? 'architectural' : 'interface';
+}
+
+/**
+ * Runs an Ignition interview from a requirements document.
+ *
+ * Walks the interview up to Synthesis, answering each question from the
+ * document where possible and asking the user otherwise, then audits the
+ * requirements and asks the user to decide findings the Architect could not
+ * resolve. User resolutions are given as the Synthesis notes, so they reach
+ * the spec as any other answer would.
+ *
+ * @param projectId - The project identifier.
+ * @param document - The requirements document text.
+ * @param options - Interview options.
+ * @returns The interview result, including the saved proposal.
+ * @throws IgniteError if the document is empty, the project already has an
+ *   interview, or the Architect cannot be reached.
+ *
+ * @example
+ * ```typescript
+ * const result = await igniteFromDocument('payments', prd, {
+ *   modelRouter: router,
+ *   ledger,
+ *   askUser: (question) => reader.readLine(`${question.text} `),
+ *   documentName: 'prd.md',
+ * });
+ * console.log(`Saved proposal v${String(result.proposal.version)}`);
+ * ```
+ */
+export async function igniteFromDocument(
+  projectId: string,
+  document: string,
+  options: IgniteFromDocumentOptions
+): Promise<IgniteResult> {
+  const { modelRouter, ledger, askUser, questionBank, timeoutMs } = options;
+  const documentName = options.documentName ?? 'the document';
+
+  if (document.trim() === '') {
+    throw new IgniteError(`${documentName} is empty`, 'EMPTY_DOCUMENT');
+  }
+  if (await interviewStateExists(projectId)) {
+    throw new IgniteError(
+      `Project "${projectId}" already has an interview; resume it instead`,
+      'INTERVIEW_EXISTS'
+    );
+  }
+
+  const engine = new InterviewEngine(projectId, {
+    ...(options.projectRoot !== undefined ? { projectRoot: options.projectRoot } : {}),
+    ...(questionBank !== undefined ? { questionBank } : {}),
+  });
+  const phaseAnswers = new Map<InterviewPhase, Map<string, ParsedAnswer>>();
+  const inferredAnswers: InferredAnswer[] = [];
+  const blockingQuestions: BlockingQuestion[] = [];
+
+  const inferPhase = async (question: CurrentQuestion): Promise<Map<string, ParsedAnswer>> => {
+    const cached = phaseAnswers.get(question.phase);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    // Bank phases are answered in one go; built-in phases have a single question
+    const bankPhase = questionBank?.phases[question.phase];
+    const questions: PhaseQuestion[] =
+      bankPhase !== undefined
+        ? getPhaseQuestions(bankPhase).map((bankQuestion) => ({
+            id: bankQuestion.id,
+            text: bankQuestion.text.trim(),
+            options: bankQuestion.options.map((option) => option.text),
+          }))
+        : [{ id: question.id, text: question.text, options: question.options ?? [] }];
+
+    const result = await modelRouter.prompt(
+      'architect',
+      createInferencePrompt(document, question.phase, questions),
+      timeoutMs
+    );
+    if (!result.success) {
+      throw new IgniteError(
+        `Architect could not answer the ${question.phase} phase: ${result.error.message}`,
+        'MODEL_ERROR'
+      );
+    }
+
+    const answers = parseInferredAnswers(result.response.content);
+    phaseAnswers.set(question.phase, answers);
+    return answers;
+  };
+
+  // Asks the user until the engine accepts their answer
+  const askUntilAccepted = async (blocking: BlockingQuestion): Promise<AnswerResult> => {
+    let question = blocking;
+    for (;;) {
+      blockingQuestions.push(question);
+      const text = await askUser(question);
+      const result = await engine.answer({
+        phase: question.phase,
+        type: 'open',
+        text,
+        confidence: 'high',
+      });
+      if (result.accepted) {
+        return result;
+      }
+      question = { ...blocking, ...(result.error !== undefined ? { hint: result.error } : {}) };
+    }
+  };
+
+  let result = await engine.start();
+  let question = result.nextQuestion;
+  while (question !== undefined && question.phase !== 'Synthesis') {
+    const answers = await inferPhase(question);
+
+    if (question.type === 'delegation') {
+      // Phases the document is silent on are left to the Architect
+      result = await engine.answer({
+        phase: question.phase,
+        type: 'delegation',
+        decision: answers.size > 0 ? 'Continue' : 'Delegate',
+      });
+      question = result.nextQuestion;
+      continue;
+    }
+
+    const inferred = answers.get(question.id);
+    if (inferred !== undefined) {
+      result = await engine.answer({
+        phase: question.phase,
+        type: 'open',
+        text: inferred.answer,
+        confidence: 'medium',
+      });
+    }
+
+    if (inferred !== undefined && result.accepted) {
+      const decision = ledger.append({
+        category: getDecisionCategory(question.phase, question.category),
+        constraint: `${question.text} ${inferred.answer}`,
+        rationale:
+          inferred.evidence !== undefined
+            ? `Inferred by the Architect from ${documentName}: "${inferred.evidence}"`
+            : `Inferred by the Architect from ${documentName}`,
+        source: 'original_design',
+        confidence: 'inferred',
+        phase: 'ignition',
+      });
+      inferredAnswers.push({
+        questionId: question.id,
+        phase: question.phase,
+        answer: inferred.answer,
+        ...(inferred.evidence !== undefined ? { evidence: inferred.evidence } : {}),
+        decisionId: decision.id,
+      });
+    } else {
+      result = await askUntilAccepted({
+        id: question.id,
+        kind: 'gap',
+        phase: question.phase,
+        text: question.text,
+        ...(question.hint !== undefined ? { hint: question.hint } : {}),
+        ...(question.options !== undefined ? { options: question.options } : {}),
+      });
+    }
+    question = result.nextQuestion;
+  }
+
+  const { findings } = await performAdversarialAudit(result.state.extractedRequirements, {
+    modelRouter,
+    ...(timeoutMs !== undefined ? { timeoutMs } : {}),
+  });
+
+  const resolutions: string[] = [];
+  for (const finding of findings) {
+    if (!requiresUserDecision([finding])) {
+      continue;
+    }
+    const hint = finding.architectResponse?.explanation ?? finding.issue.analysis;
+    const blocking: BlockingQuestion = {
+      id: finding.issue.id,
+      kind: 'finding',
+      phase: 'Synthesis',
+      text: finding.issue.description,
+      hint,
+      options: finding.issue.suggestedResolutions,
+    };
+    blockingQuestions.push(blocking);
+    // Interactive prompts re-ask on empty input themselves; others are asked
+    // again until they give a resolution the ledger can record
+    let resolution = (await askUser(blocking)).trim();
+    while (resolution === '') {
+      resolution = (await askUser({ ...blocking, hint: 'Text cannot be empty' })).trim();
+    }
+    ledger.append({
+      category: 'constraint',
+      constraint: resolution,
+      rationale: `User decision on auditor finding: ${finding.issue.description}`,
+      source: 'human_resolution',
+      confidence: 'canonical',
+      phase: 'ignition',
+      contradiction_resolved: finding.issue.description,
+    });
+    resolutions.push(`${finding.issue.description}: ${resolution}`);
+  }
+
+  let state = result.state;
+  if (resolutions.length > 0 && question !== undefined) {
+    state = (
+      await engine.answer({
+        phase: question.phase,
+        type: 'open',
+        text: resolutions.join('\n'),
+        confidence: 'high',
+      })
+    ).state;
+  }
+
+  const proposal = await generateAndSaveProposal(state, options.specOptions);
+
+  return { state, inferredAnswers, blockingQuestions, findings, proposal };
+}
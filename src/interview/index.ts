@@ -28,6 +28,15 @@
  * - Presenting findings to user with Architect responses
  * - Uses auditor_model via ModelRouter
  *
+ * And the question bank loader for:
+ * - Loading and validating question banks, with domain-specific banks chosen by spec.meta.domain
+ * - Choosing follow-ups adaptively from answers and filling phase summary templates
+ *
+ * And the document-driven interview for:
+ * - Pre-answering interview phases from a requirements document via the Architect
+ * - Recording inferred answers as 'inferred' ledger decisions
+ * - Asking the user only about gaps and auditor findings that need a decision
+ *
  * And the spec artifact generator for:
  * - Transforming interview requirements into spec.toml
  * - Managing proposal versions (v1.toml, v2.toml, etc.)
@@ -42,6 +51,8 @@ export * from './types.js';
 export * from './persistence.js';
 export * from './structure.js';
 export * from './cli.js';
+export * from './question-bank.js';
 export * from './engine.js';
 export * from './auditor.js';
 export * from './spec-generator.js';
+export * from './ignite.js';
@@ -27,7 +27,12 @@ import type {
   TranscriptEntry,
   Feature,
 } from './types.js';
-import { INTERVIEW_PHASES, isValidInterviewPhase, isValidFeatureClassification } from './types.js';
+import {
+  INTERVIEW_PHASES,
+  isValidInterviewPhase,
+  isValidFeatureClassification,
+  isValidFactCategory,
+} from './types.js';
 
 /**
  * Error type for interview state persistence operations.
@@ -259,6 +264,35 @@ function validateExtractedRequirement(
       'schema_error'
     );
   }
+
+  if (req.questionId !== undefined && typeof req.questionId !== 'string') {
+    throw new InterviewPersistenceError(
+      `Invalid interview state: extractedRequirements[${indexStr}].questionId must be a string`,
+      'schema_error'
+    );
+  }
+
+  if (
+    req.facts !== undefined &&
+    (!Array.isArray(req.facts) ||
+      !req.facts.every((fact) => typeof fact === 'string' && isValidFactCategory(fact)))
+  ) {
+    throw new InterviewPersistenceError(
+      `Invalid interview state: extractedRequirements[${indexStr}].facts must be an array of fact categories`,
+      'validation_error'
+    );
+  }
+
+  if (
+    req.selectedOptions !== undefined &&
+    (!Array.isArray(req.selectedOptions) ||
+      !req.selectedOptions.every((option) => typeof option === 'string'))
+  ) {
+    throw new InterviewPersistenceError(
+      `Invalid interview state: extractedRequirements[${indexStr}].selectedOptions must be an array of strings`,
+      'schema_error'
+    );
+  }
 }
 
 /**
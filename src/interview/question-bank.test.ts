@@ -0,0 +1,293 @@
+/**
+ * Tests for question bank loading, validation and walking.
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { safeReadFile, safeWriteFile } from '../utils/safe-fs.js';
+import {
+  QuestionBankError,
+  fillSummaryTemplate,
+  loadQuestionBank,
+  matchQuestionOptions,
+  parseQuestionBank,
+  selectNextQuestion,
+  selectQuestionBank,
+  type QuestionBankPhase,
+} from './question-bank.js';
+import type { ExtractedRequirement, FactCategory } from './types.js';
+
+// Helper to record an answer the way the engine does
+function answer(
+  questionId: string,
+  text: string,
+  facts: FactCategory[],
+  selectedOptions?: string[]
+): ExtractedRequirement {
+  return {
+    id: `req_${questionId}`,
+    sourcePhase: 'Discovery',
+    category: 'functional',
+    text,
+    confidence: 'medium',
+    extractedAt: '2026-01-24T12:00:00.000Z',
+    questionId,
+    facts,
+    ...(selectedOptions !== undefined ? { selectedOptions } : {}),
+  };
+}
+
+function discovery(toml: string): QuestionBankPhase {
+  const phase = parseQuestionBank(`version = "1.0.0"\n${toml}`).phases.Discovery;
+  if (phase === undefined) {
+    throw new Error('bank has no discovery phase');
+  }
+  return phase;
+}
+
+describe('parseQuestionBank', () => {
+  it('parses the example question bank', async () => {
+    const bank = await loadQuestionBank(join('examples', 'question-bank.example.toml'));
+
+    expect(bank.version).toBe('1.0.0');
+    expect(Object.keys(bank.phases)).toEqual([
+      'Discovery',
+      'Architecture',
+      'Constraints',
+      'DesignPreferences',
+    ]);
+    expect(bank.phases.Discovery?.topics.map((topic) => topic.name)).toEqual([
+      'problem',
+      'users',
+      'success',
+      'features',
+    ]);
+    expect(bank.phases.Discovery?.topics[1]?.follow_ups[1]).toMatchObject({
+      id: 'discovery_users_003',
+      type: 'multiple_choice',
+      allows_freeform: true,
+      options: [{ id: 'non_technical' }, { id: 'technical' }, { id: 'developer' }, { id: 'mixed' }],
+    });
+    expect(bank.phases.Constraints?.delegation_prompt).toContain('sensible defaults');
+  });
+
+  it('rejects malformed TOML', () => {
+    expect(() => parseQuestionBank('version = ')).toThrow(
+      expect.objectContaining({ code: 'PARSE_ERROR' }) as Error
+    );
+  });
+
+  it.each([
+    [
+      'unknown phases',
+      '[phases.synthesis.topics.t.primary]\nid = "a"\ntext = "?"',
+      'phases.synthesis',
+    ],
+    [
+      'unknown fact categories',
+      '[phases.discovery.topics.t.primary]\nid = "a"\ntext = "?"\nextract_as = ["mood"]',
+      "unknown fact category 'mood'",
+    ],
+    [
+      'multiple choice questions without options',
+      '[phases.discovery.topics.t.primary]\nid = "a"\ntext = "?"\ntype = "multiple_choice"',
+      'must list at least one option',
+    ],
+    [
+      'repeated question ids',
+      '[phases.discovery.topics.t.primary]\nid = "a"\ntext = "?"\n[phases.architecture.topics.t.primary]\nid = "a"\ntext = "?"',
+      "repeats question id 'a'",
+    ],
+    [
+      'unknown summary placeholders',
+      '[phases.discovery]\nphase_summary_template = "{budget}"\n[phases.discovery.topics.t.primary]\nid = "a"\ntext = "?"',
+      "unknown placeholder '{budget}'",
+    ],
+    [
+      'inherited property names as placeholders',
+      '[phases.discovery]\nphase_summary_template = "{constructor}"\n[phases.discovery.topics.t.primary]\nid = "a"\ntext = "?"',
+      "unknown placeholder '{constructor}'",
+    ],
+    [
+      'triggers that leave the phase',
+      '[phases.discovery.topics.t.primary]\nid = "a"\ntext = "?"\ntype = "multiple_choice"\n[[phases.discovery.topics.t.primary.options]]\nid = "x"\ntext = "X"\ntriggers_follow_up = "b"\n[phases.architecture.topics.t.primary]\nid = "b"\ntext = "?"',
+      "refers to 'b', which is not a question in the same phase",
+    ],
+    ['phases without topics', '[phases.discovery]\ndescription = "empty"', 'at least one topic'],
+  ])('rejects %s', (_name, phases, message) => {
+    expect(() => parseQuestionBank(`version = "1.0.0"\n${phases}`)).toThrow(message);
+  });
+});
+
+describe('selectQuestionBank', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'question-bank-test-'));
+    const example = await safeReadFile(join('examples', 'question-bank.example.toml'), 'utf-8');
+    await safeWriteFile(join(directory, 'default.toml'), example, 'utf-8');
+    await safeWriteFile(
+      join(directory, 'fintech.toml'),
+      'version = "2.0.0-fintech"\n[phases.discovery.topics.t.primary]\nid = "a"\ntext = "Which payment rails?"',
+      'utf-8'
+    );
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('chooses the bank for the spec domain', async () => {
+    expect((await selectQuestionBank({ directory, domain: 'FinTech' })).version).toBe(
+      '2.0.0-fintech'
+    );
+  });
+
+  it('falls back to the default bank', async () => {
+    expect((await selectQuestionBank({ directory, domain: 'healthcare' })).version).toBe('1.0.0');
+    expect((await selectQuestionBank({ directory })).version).toBe('1.0.0');
+  });
+
+  it('rejects domains that are not bank names', async () => {
+    await expect(selectQuestionBank({ directory, domain: '../secrets' })).rejects.toThrow(
+      expect.objectContaining({ code: 'INVALID_DOMAIN' }) as Error
+    );
+  });
+
+  it('reports a missing default bank', async () => {
+    const error = await selectQuestionBank({ directory: join(directory, 'none') }).catch(
+      (e: unknown) => e
+    );
+    expect(error).toBeInstanceOf(QuestionBankError);
+    expect((error as QuestionBankError).code).toBe('NOT_FOUND');
+  });
+});
+
+describe('selectNextQuestion', () => {
+  const phase = discovery(`
+[phases.discovery.topics.problem.primary]
+id = "problem_001"
+text = "What problem are you trying to solve?"
+extract_as = ["problem"]
+
+[[phases.discovery.topics.problem.follow_ups]]
+id = "problem_002"
+text = "What do they currently do to work around it?"
+extract_as = ["problem"]
+
+[[phases.discovery.topics.problem.follow_ups]]
+id = "problem_003"
+text = "Who experiences this problem?"
+extract_as = ["user_persona"]
+
+[[phases.discovery.topics.problem.conditional_follow_ups]]
+condition = { previous_question_id = "problem_001", response_contains = ["payment", "card"] }
+question = { id = "problem_pci", text = "Will you store card numbers?", extract_as = ["constraint_compliance"] }
+
+[phases.discovery.topics.hosting.primary]
+id = "hosting_001"
+text = "Where will it run?"
+type = "multiple_choice"
+extract_as = ["platform_choice"]
+options = [
+  { id = "cloud", text = "Cloud" },
+  { id = "on_prem", text = "On premises", triggers_follow_up = "hosting_002" },
+]
+
+[[phases.discovery.topics.hosting.follow_ups]]
+id = "hosting_002"
+text = "Which data centres?"
+extract_as = ["platform_choice"]
+`);
+
+  it('starts with the first primary question', () => {
+    expect(selectNextQuestion(phase, [])?.id).toBe('problem_001');
+  });
+
+  it('skips follow-ups whose facts are already known', () => {
+    const answers = [answer('problem_001', 'Reports are slow', ['problem'])];
+    expect(selectNextQuestion(phase, answers)?.id).toBe('problem_003');
+  });
+
+  it('asks conditional follow-ups whose condition holds', () => {
+    const answers = [answer('problem_001', 'Card payments fail at peak', ['problem'])];
+    expect(selectNextQuestion(phase, answers)?.id).toBe('problem_pci');
+  });
+
+  it('asks questions triggered by a selected option first', () => {
+    const answers = [
+      answer('problem_001', 'Reports are slow', ['problem']),
+      answer('hosting_001', 'On premises', ['platform_choice'], ['on_prem']),
+    ];
+    expect(selectNextQuestion(phase, answers)?.id).toBe('hosting_002');
+  });
+
+  it('finishes once every question is answered or covered', () => {
+    const answers = [
+      answer('problem_001', 'Reports are slow', ['problem']),
+      answer('problem_003', 'Analysts', ['user_persona']),
+      answer('hosting_001', 'Cloud', ['platform_choice'], ['cloud']),
+    ];
+    expect(selectNextQuestion(phase, answers)).toBeUndefined();
+  });
+});
+
+describe('matchQuestionOptions', () => {
+  const question = discovery(`
+[phases.discovery.topics.t.primary]
+id = "security"
+text = "What security requirements apply?"
+type = "multiple_choice"
+allows_multiple = true
+options = [
+  { id = "standard", text = "Standard web security" },
+  { id = "regulated", text = "Regulatory compliance" },
+]
+`).topics[0]?.primary;
+
+  it('matches option ids, texts and positions', () => {
+    if (question === undefined) {
+      throw new Error('missing question');
+    }
+    expect(matchQuestionOptions(question, 'regulated')).toEqual(['regulated']);
+    expect(matchQuestionOptions(question, 'standard web security, 2')).toEqual([
+      'standard',
+      'regulated',
+    ]);
+    expect(matchQuestionOptions(question, 'HIPAA')).toBeUndefined();
+  });
+});
+
+describe('fillSummaryTemplate', () => {
+  it('lists facts per placeholder and includes classified features', () => {
+    const summary = fillSummaryTemplate(
+      'Problem: {problem_statement}\nBolt-on: {bolt_on_features}\nPlatform: {platform}\n{feature}',
+      [
+        answer('a', 'Reports are slow', ['problem']),
+        answer('b', ' Exports take hours ', ['problem']),
+        answer('c', 'Dark mode', ['feature_bolt_on']),
+      ],
+      [
+        {
+          id: 'f1',
+          name: 'Multi-tenancy',
+          description: 'Tenant isolation',
+          classification: 'bolt-on',
+          sourcePhase: 'Architecture',
+          identifiedAt: '2026-01-24T12:00:00.000Z',
+        },
+      ]
+    );
+
+    expect(summary).toBe(
+      'Problem: Reports are slow; Exports take hours\n' +
+        'Bolt-on: Dark mode; Multi-tenancy\n' +
+        'Platform: (not specified)\n' +
+        '{feature}'
+    );
+  });
+});
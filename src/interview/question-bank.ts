@@ -0,0 +1,915 @@
+/**
+ * Interview question banks for the Ignition phase.
+ *
+ * Loads and validates question banks (see `schemas/question-bank.schema.json`
+ * and `examples/question-bank.example.toml`) and provides the helpers the
+ * InterviewEngine uses to walk them: choosing the next question from the
+ * answers so far, matching multiple-choice answers to options, and filling
+ * phase summary templates from extracted facts.
+ *
+ * Teams can ship domain-specific banks (for example `fintech.toml` or
+ * `healthcare.toml`) next to a `default.toml`; the bank is chosen by the
+ * spec's `meta.domain`.
+ *
+ * @packageDocumentation
+ */
+
+import * as TOML from '@iarna/toml';
+import { join } from 'node:path';
+import { safeExists, safeReadFile } from '../utils/safe-fs.js';
+import type {
+  ExtractedRequirement,
+  FactCategory,
+  Feature,
+  FeatureClassification,
+  InterviewPhase,
+} from './types.js';
+import { isValidFactCategory } from './types.js';
+
+/**
+ * Error type codes for question bank errors.
+ */
+export type QuestionBankErrorCode = 'PARSE_ERROR' | 'INVALID_BANK' | 'NOT_FOUND' | 'INVALID_DOMAIN';
+
+/**
+ * Error class for question bank loading and validation.
+ */
+export class QuestionBankError extends Error {
+  /** The error code for programmatic handling. */
+  public readonly code: QuestionBankErrorCode;
+  /** The underlying cause if available. */
+  public readonly cause: Error | undefined;
+
+  /**
+   * Creates a new QuestionBankError.
+   *
+   * @param message - Human-readable error message.
+   * @param code - The error code.
+   * @param cause - The underlying error, if any.
+   */
+  constructor(message: string, code: QuestionBankErrorCode, cause?: Error) {
+    super(message);
+    this.name = 'QuestionBankError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Question types supported by question banks.
+ */
+export type QuestionBankQuestionType =
+  | 'open'
+  | 'multiple_choice'
+  | 'confirmation'
+  | 'rating'
+  | 'list';
+
+/**
+ * A fact implied by selecting an option.
+ */
+export interface QuestionBankImpliedFact {
+  /** Fact category. */
+  readonly category: FactCategory;
+  /** Fact text. */
+  readonly content: string;
+}
+
+/**
+ * An option of a multiple-choice question.
+ */
+export interface QuestionBankOption {
+  /** Option identifier. */
+  readonly id: string;
+  /** Option text. */
+  readonly text: string;
+  /** Additional context for the option. */
+  readonly description?: string;
+  /** Facts recorded when the option is selected. */
+  readonly implies_facts: readonly QuestionBankImpliedFact[];
+  /** ID of a question in the same phase to ask next when selected. */
+  readonly triggers_follow_up?: string;
+}
+
+/**
+ * A question in a question bank.
+ */
+export interface QuestionBankQuestion {
+  /** Unique question identifier. */
+  readonly id: string;
+  /** Question text (may include placeholders). */
+  readonly text: string;
+  /** Question type (default 'open'). */
+  readonly type: QuestionBankQuestionType;
+  /** Options for multiple-choice questions. */
+  readonly options: readonly QuestionBankOption[];
+  /** Whether a freeform answer is accepted (default true). */
+  readonly allows_freeform: boolean;
+  /** Whether several options may be selected (default false). */
+  readonly allows_multiple: boolean;
+  /** Additional context shown with the question. */
+  readonly context?: string;
+  /** Example answers. */
+  readonly examples: readonly string[];
+  /** Fact categories answers are extracted as. */
+  readonly extract_as: readonly FactCategory[];
+}
+
+/**
+ * When to ask a conditional follow-up. Every field that is set must hold.
+ */
+export interface QuestionBankCondition {
+  /** Question whose answer triggers the follow-up. */
+  readonly previous_question_id?: string;
+  /** Option that must have been selected. */
+  readonly selected_option?: string;
+  /** Keywords, any of which the answer must contain (case-insensitive). */
+  readonly response_contains?: readonly string[];
+  /** Fact category that must already be known. */
+  readonly fact_exists?: FactCategory;
+  /** Fact category that must still be unknown. */
+  readonly fact_missing?: FactCategory;
+}
+
+/**
+ * A follow-up asked only when its condition holds.
+ */
+export interface QuestionBankConditionalQuestion {
+  /** When to ask the question. */
+  readonly condition: QuestionBankCondition;
+  /** The question. */
+  readonly question: QuestionBankQuestion;
+}
+
+/**
+ * A topic within a phase.
+ */
+export interface QuestionBankTopic {
+  /** Topic name (its key in the bank). */
+  readonly name: string;
+  /** The main question. */
+  readonly primary: QuestionBankQuestion;
+  /** Follow-ups, asked in order while they can add a missing fact. */
+  readonly follow_ups: readonly QuestionBankQuestion[];
+  /** Follow-ups asked only when their condition holds. */
+  readonly conditional_follow_ups: readonly QuestionBankConditionalQuestion[];
+  /** Whether the topic is required (default true). */
+  readonly required: boolean;
+  /** Whether the topic can be delegated (default false). */
+  readonly delegation_eligible: boolean;
+}
+
+/**
+ * A phase of a question bank.
+ */
+export interface QuestionBankPhase {
+  /** What the phase covers. */
+  readonly description?: string;
+  /** Whether the phase is required (default true). */
+  readonly required: boolean;
+  /** Whether the whole phase can be delegated (default false). */
+  readonly delegation_eligible: boolean;
+  /** Topics, in bank order. */
+  readonly topics: readonly QuestionBankTopic[];
+  /** Summary shown when the phase is complete, with `{placeholders}`. */
+  readonly phase_summary_template?: string;
+  /** What to say when offering delegation. */
+  readonly delegation_prompt?: string;
+}
+
+/**
+ * A validated question bank.
+ */
+export interface QuestionBank {
+  /** Question bank version. */
+  readonly version: string;
+  /** Phases keyed by the interview phase they drive. */
+  readonly phases: Partial<Record<InterviewPhase, QuestionBankPhase>>;
+}
+
+/**
+ * Bank phase keys and the interview phases they drive. Synthesis and
+ * Approval are not question-driven.
+ */
+export const QUESTION_BANK_PHASES: Readonly<Record<string, InterviewPhase>> = {
+  discovery: 'Discovery',
+  architecture: 'Architecture',
+  constraints: 'Constraints',
+  design_preferences: 'DesignPreferences',
+};
+
+/**
+ * Summary template placeholders and the fact categories they list.
+ * Every fact category is also accepted as a placeholder under its own name.
+ */
+export const SUMMARY_PLACEHOLDERS: Readonly<Record<string, FactCategory>> = {
+  problem_statement: 'problem',
+  target_users: 'user_persona',
+  success_criteria: 'success_criterion',
+  core_features: 'feature_core',
+  foundational_features: 'feature_foundational',
+  bolt_on_features: 'feature_bolt_on',
+  integrations: 'integration',
+  language: 'language_choice',
+  platform: 'platform_choice',
+};
+
+/**
+ * Name of the bank used when no domain bank exists.
+ */
+export const DEFAULT_QUESTION_BANK_NAME = 'default';
+
+/** Text filled in for placeholders with no facts yet. */
+const UNSPECIFIED = '(not specified)';
+
+/** Valid question types as defined in schema. */
+const QUESTION_TYPES: readonly QuestionBankQuestionType[] = [
+  'open',
+  'multiple_choice',
+  'confirmation',
+  'rating',
+  'list',
+];
+
+/** Keys that are prohibited due to prototype pollution concerns. */
+const PROHIBITED_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+/** Domain names that map safely onto bank file names. */
+const DOMAIN_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/** Placeholders in summary templates. */
+const PLACEHOLDER_PATTERN = /\{([a-z_]+)\}/g;
+
+/** Feature classifications that fill each feature fact category. */
+const FEATURE_FACTS: Readonly<Partial<Record<FactCategory, FeatureClassification>>> = {
+  feature_core: 'core',
+  feature_foundational: 'foundational',
+  feature_bolt_on: 'bolt-on',
+};
+
+/**
+ * Resolves a summary template placeholder to the fact category it lists.
+ */
+function getPlaceholderCategory(name: string): FactCategory | undefined {
+  if (Object.hasOwn(SUMMARY_PLACEHOLDERS, name)) {
+    // eslint-disable-next-line security/detect-object-injection -- safe: name is an own property
+    return SUMMARY_PLACEHOLDERS[name];
+  }
+  return isValidFactCategory(name) ? name : undefined;
+}
+
+/**
+ * Creates a validation error for a field.
+ */
+function invalid(fieldPath: string, message: string): QuestionBankError {
+  return new QuestionBankError(`Invalid question bank: '${fieldPath}' ${message}`, 'INVALID_BANK');
+}
+
+/**
+ * Validates that a value is a table (plain object) with safe keys.
+ */
+function validateTable(value: unknown, fieldPath: string): Record<string, unknown> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw invalid(
+      fieldPath,
+      `must be a table, got ${Array.isArray(value) ? 'array' : typeof value}`
+    );
+  }
+  for (const key of Object.keys(value)) {
+    if (PROHIBITED_KEYS.includes(key)) {
+      throw invalid(`${fieldPath}.${key}`, 'is a prohibited key');
+    }
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Validates that a value is a string.
+ */
+function validateString(value: unknown, fieldPath: string): string {
+  if (typeof value !== 'string') {
+    throw invalid(fieldPath, `must be a string, got ${typeof value}`);
+  }
+  return value;
+}
+
+/**
+ * Validates an optional boolean, returning the default when absent.
+ */
+function validateBoolean(value: unknown, fieldPath: string, defaultValue: boolean): boolean {
+  if (value === undefined) {
+    return defaultValue;
+  }
+  if (typeof value !== 'boolean') {
+    throw invalid(fieldPath, `must be a boolean, got ${typeof value}`);
+  }
+  return value;
+}
+
+/**
+ * Validates an optional array, returning an empty array when absent.
+ */
+function validateArray(value: unknown, fieldPath: string): unknown[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw invalid(fieldPath, `must be an array, got ${typeof value}`);
+  }
+  return value;
+}
+
+/**
+ * Validates a fact category.
+ */
+function validateFactCategory(value: unknown, fieldPath: string): FactCategory {
+  const category = validateString(value, fieldPath);
+  if (!isValidFactCategory(category)) {
+    throw invalid(fieldPath, `has unknown fact category '${category}'`);
+  }
+  return category;
+}
+
+/**
+ * Parses an option of a multiple-choice question.
+ */
+function parseOption(value: unknown, fieldPath: string): QuestionBankOption {
+  const raw = validateTable(value, fieldPath);
+  return {
+    id: validateString(raw.id, `${fieldPath}.id`),
+    text: validateString(raw.text, `${fieldPath}.text`),
+    ...(raw.description !== undefined
+      ? { description: validateString(raw.description, `${fieldPath}.description`) }
+      : {}),
+    implies_facts: validateArray(raw.implies_facts, `${fieldPath}.implies_facts`).map((fact, i) => {
+      const factPath = `${fieldPath}.implies_facts[${String(i)}]`;
+      const rawFact = validateTable(fact, factPath);
+      return {
+        category: validateFactCategory(rawFact.category, `${factPath}.category`),
+        content: validateString(rawFact.content, `${factPath}.content`),
+      };
+    }),
+    ...(raw.triggers_follow_up !== undefined
+      ? {
+          triggers_follow_up: validateString(
+            raw.triggers_follow_up,
+            `${fieldPath}.triggers_follow_up`
+          ),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Parses a question.
+ */
+function parseQuestion(value: unknown, fieldPath: string): QuestionBankQuestion {
+  const raw = validateTable(value, fieldPath);
+
+  const type = raw.type === undefined ? 'open' : validateString(raw.type, `${fieldPath}.type`);
+  if (!(QUESTION_TYPES as readonly string[]).includes(type)) {
+    throw invalid(
+      `${fieldPath}.type`,
+      `must be one of ${QUESTION_TYPES.join(', ')}, got '${type}'`
+    );
+  }
+
+  const options = validateArray(raw.options, `${fieldPath}.options`).map((option, i) =>
+    parseOption(option, `${fieldPath}.options[${String(i)}]`)
+  );
+  if (type === 'multiple_choice' && options.length === 0) {
+    throw invalid(`${fieldPath}.options`, 'must list at least one option for multiple_choice');
+  }
+  const optionIds = new Set<string>();
+  for (const option of options) {
+    if (optionIds.has(option.id)) {
+      throw invalid(`${fieldPath}.options`, `repeats option '${option.id}'`);
+    }
+    optionIds.add(option.id);
+  }
+
+  return {
+    id: validateString(raw.id, `${fieldPath}.id`),
+    text: validateString(raw.text, `${fieldPath}.text`),
+    type: type as QuestionBankQuestionType,
+    options,
+    allows_freeform: validateBoolean(raw.allows_freeform, `${fieldPath}.allows_freeform`, true),
+    allows_multiple: validateBoolean(raw.allows_multiple, `${fieldPath}.allows_multiple`, false),
+    ...(raw.context !== undefined
+      ? { context: validateString(raw.context, `${fieldPath}.context`) }
+      : {}),
+    examples: validateArray(raw.examples, `${fieldPath}.examples`).map((example, i) =>
+      validateString(example, `${fieldPath}.examples[${String(i)}]`)
+    ),
+    extract_as: validateArray(raw.extract_as, `${fieldPath}.extract_as`).map((category, i) =>
+      validateFactCategory(category, `${fieldPath}.extract_as[${String(i)}]`)
+    ),
+  };
+}
+
+/**
+ * Parses a conditional follow-up.
+ */
+function parseConditionalQuestion(
+  value: unknown,
+  fieldPath: string
+): QuestionBankConditionalQuestion {
+  const raw = validateTable(value, fieldPath);
+  const conditionPath = `${fieldPath}.condition`;
+  const condition = validateTable(raw.condition, conditionPath);
+
+  const parsed: QuestionBankCondition = {
+    ...(condition.previous_question_id !== undefined
+      ? {
+          previous_question_id: validateString(
+            condition.previous_question_id,
+            `${conditionPath}.previous_question_id`
+          ),
+        }
+      : {}),
+    ...(condition.selected_option !== undefined
+      ? {
+          selected_option: validateString(
+            condition.selected_option,
+            `${conditionPath}.selected_option`
+          ),
+        }
+      : {}),
+    ...(condition.response_contains !== undefined
+      ? {
+          response_contains: validateArray(
+            condition.response_contains,
+            `${conditionPath}.response_contains`
+          ).map((keyword, i) =>
+            validateString(keyword, `${conditionPath}.response_contains[${String(i)}]`)
+          ),
+        }
+      : {}),
+    ...(condition.fact_exists !== undefined
+      ? { fact_exists: validateFactCategory(condition.fact_exists, `${conditionPath}.fact_exists`) }
+      : {}),
+    ...(condition.fact_missing !== undefined
+      ? {
+          fact_missing: validateFactCategory(
+            condition.fact_missing,
+            `${conditionPath}.fact_missing`
+          ),
+        }
+      : {}),
+  };
+  if (Object.keys(parsed).length === 0) {
+    throw invalid(conditionPath, 'must set at least one condition');
+  }
+
+  return { condition: parsed, question: parseQuestion(raw.question, `${fieldPath}.question`) };
+}
+
+/**
+ * Parses a topic.
+ */
+function parseTopic(name: string, value: unknown, fieldPath: string): QuestionBankTopic {
+  const raw = validateTable(value, fieldPath);
+  if (raw.primary === undefined) {
+    throw invalid(`${fieldPath}.primary`, 'is required');
+  }
+
+  return {
+    name,
+    primary: parseQuestion(raw.primary, `${fieldPath}.primary`),
+    follow_ups: validateArray(raw.follow_ups, `${fieldPath}.follow_ups`).map((question, i) =>
+      parseQuestion(question, `${fieldPath}.follow_ups[${String(i)}]`)
+    ),
+    conditional_follow_ups: validateArray(
+      raw.conditional_follow_ups,
+      `${fieldPath}.conditional_follow_ups`
+    ).map((question, i) =>
+      parseConditionalQuestion(question, `${fieldPath}.conditional_follow_ups[${String(i)}]`)
+    ),
+    required: validateBoolean(raw.required, `${fieldPath}.required`, true),
+    delegation_eligible: validateBoolean(
+      raw.delegation_eligible,
+      `${fieldPath}.delegation_eligible`,
+      false
+    ),
+  };
+}
+
+/**
+ * Parses a phase.
+ */
+function parsePhase(value: unknown, fieldPath: string): QuestionBankPhase {
+  const raw = validateTable(value, fieldPath);
+  const topics = Object.entries(validateTable(raw.topics ?? {}, `${fieldPath}.topics`)).map(
+    ([name, topic]) => parseTopic(name, topic, `${fieldPath}.topics.${name}`)
+  );
+  if (topics.length === 0) {
+    throw invalid(`${fieldPath}.topics`, 'must define at least one topic');
+  }
+
+  let template: string | undefined;
+  if (raw.phase_summary_template !== undefined) {
+    template = validateString(raw.phase_summary_template, `${fieldPath}.phase_summary_template`);
+    for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+      const placeholder = match[1] ?? '';
+      if (getPlaceholderCategory(placeholder) === undefined) {
+        throw invalid(
+          `${fieldPath}.phase_summary_template`,
+          `uses unknown placeholder '{${placeholder}}'`
+        );
+      }
+    }
+  }
+
+  return {
+    ...(raw.description !== undefined
+      ? { description: validateString(raw.description, `${fieldPath}.description`) }
+      : {}),
+    required: validateBoolean(raw.required, `${fieldPath}.required`, true),
+    delegation_eligible: validateBoolean(
+      raw.delegation_eligible,
+      `${fieldPath}.delegation_eligible`,
+      false
+    ),
+    topics,
+    ...(template !== undefined ? { phase_summary_template: template } : {}),
+    ...(raw.delegation_prompt !== undefined
+      ? {
+          delegation_prompt: validateString(
+            raw.delegation_prompt,
+            `${fieldPath}.delegation_prompt`
+          ),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Lists every question of a phase, conditional follow-ups included.
+ *
+ * @param phase - The bank phase.
+ * @returns The phase's questions in bank order.
+ */
+export function getPhaseQuestions(phase: QuestionBankPhase): QuestionBankQuestion[] {
+  return phase.topics.flatMap((topic) => [
+    topic.primary,
+    ...topic.follow_ups,
+    ...topic.conditional_follow_ups.map((conditional) => conditional.question),
+  ]);
+}
+
+/**
+ * Checks question IDs are unique and that every reference resolves.
+ */
+function validateReferences(bank: QuestionBank): void {
+  const allIds = new Set<string>();
+  for (const phase of Object.values(bank.phases)) {
+    for (const question of getPhaseQuestions(phase)) {
+      if (allIds.has(question.id)) {
+        throw invalid('phases', `repeats question id '${question.id}'`);
+      }
+      allIds.add(question.id);
+    }
+  }
+
+  for (const phase of Object.values(bank.phases)) {
+    const questions = getPhaseQuestions(phase);
+    const phaseIds = new Set(questions.map((question) => question.id));
+    for (const question of questions) {
+      for (const option of question.options) {
+        if (option.triggers_follow_up !== undefined && !phaseIds.has(option.triggers_follow_up)) {
+          throw invalid(
+            `${question.id}.${option.id}.triggers_follow_up`,
+            `refers to '${option.triggers_follow_up}', which is not a question in the same phase`
+          );
+        }
+      }
+    }
+    for (const topic of phase.topics) {
+      for (const { condition, question } of topic.conditional_follow_ups) {
+        const previous = condition.previous_question_id;
+        if (previous !== undefined && !allIds.has(previous)) {
+          throw invalid(
+            `${question.id}.condition.previous_question_id`,
+            `refers to unknown question '${previous}'`
+          );
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Parses and validates a question bank.
+ *
+ * @param tomlContent - The question bank TOML.
+ * @returns The validated question bank.
+ * @throws QuestionBankError if the TOML is malformed or the bank is invalid.
+ *
+ * @example
+ * ```typescript
+ * const bank = parseQuestionBank(await readFile('question-bank.toml', 'utf-8'));
+ * const engine = new InterviewEngine('my-project', { questionBank: bank });
+ * ```
+ */
+export function parseQuestionBank(tomlContent: string): QuestionBank {
+  let raw: Record<string, unknown>;
+  try {
+    raw = TOML.parse(tomlContent) as Record<string, unknown>;
+  } catch (error) {
+    throw new QuestionBankError(
+      `Failed to parse question bank TOML: ${error instanceof Error ? error.message : String(error)}`,
+      'PARSE_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  const version = validateString(raw.version, 'version');
+  const rawPhases = validateTable(raw.phases, 'phases');
+
+  const phases: Partial<Record<InterviewPhase, QuestionBankPhase>> = {};
+  for (const [key, value] of Object.entries(rawPhases)) {
+    const phase = Object.hasOwn(QUESTION_BANK_PHASES, key)
+      ? // eslint-disable-next-line security/detect-object-injection -- safe: key is an own property
+        QUESTION_BANK_PHASES[key]
+      : undefined;
+    if (phase === undefined) {
+      throw invalid(
+        `phases.${key}`,
+        `is not an interview phase (expected one of ${Object.keys(QUESTION_BANK_PHASES).join(', ')})`
+      );
+    }
+    // eslint-disable-next-line security/detect-object-injection -- safe: phase is InterviewPhase enum with known literal keys
+    phases[phase] = parsePhase(value, `phases.${key}`);
+  }
+
+  const bank = { version, phases };
+  validateReferences(bank);
+  return bank;
+}
+
+/**
+ * Loads and validates a question bank file.
+ *
+ * @param filePath - Path to the question bank TOML.
+ * @returns The validated question bank.
+ * @throws QuestionBankError if the file is missing, malformed or invalid.
+ */
+export async function loadQuestionBank(filePath: string): Promise<QuestionBank> {
+  let content: string;
+  try {
+    content = await safeReadFile(filePath, 'utf-8');
+  } catch (error) {
+    throw new QuestionBankError(
+      `Question bank not found: ${filePath}`,
+      'NOT_FOUND',
+      error instanceof Error ? error : undefined
+    );
+  }
+  return parseQuestionBank(content);
+}
+
+/**
+ * Options for selecting a question bank.
+ */
+export interface SelectQuestionBankOptions {
+  /** Directory holding `default.toml` and `<domain>.toml` banks. */
+  readonly directory: string;
+  /** The project's domain, usually `spec.meta.domain`. */
+  readonly domain?: string | undefined;
+}
+
+/**
+ * Loads the question bank for a domain, falling back to the default bank.
+ *
+ * Looks for `<directory>/<domain>.toml` (domain lowercased) and then
+ * `<directory>/default.toml`.
+ *
+ * @param options - Selection options.
+ * @returns The validated question bank.
+ * @throws QuestionBankError if the domain is not a valid bank name, no bank
+ *   exists, or the chosen bank is invalid.
+ */
+export async function selectQuestionBank(
+  options: SelectQuestionBankOptions
+): Promise<QuestionBank> {
+  const domain = options.domain?.trim().toLowerCase();
+  if (domain !== undefined && domain !== '') {
+    if (!DOMAIN_PATTERN.test(domain)) {
+      throw new QuestionBankError(
+        `Invalid domain '${domain}': expected letters, digits, '-' or '_'`,
+        'INVALID_DOMAIN'
+      );
+    }
+    const domainPath = join(options.directory, `${domain}.toml`);
+    if (await safeExists(domainPath)) {
+      return loadQuestionBank(domainPath);
+    }
+  }
+  return loadQuestionBank(join(options.directory, `${DEFAULT_QUESTION_BANK_NAME}.toml`));
+}
+
+/**
+ * Matches an answer to a question's options by option ID, option text or
+ * 1-based position. Answers to `allows_multiple` questions may list several
+ * options separated by commas.
+ *
+ * @param question - The question answered.
+ * @param answer - The answer text.
+ * @returns The selected option IDs, or undefined if the answer is freeform.
+ */
+export function matchQuestionOptions(
+  question: QuestionBankQuestion,
+  answer: string
+): string[] | undefined {
+  if (question.options.length === 0) {
+    return undefined;
+  }
+  const parts = question.allows_multiple ? answer.split(',') : [answer];
+  const selected: string[] = [];
+  for (const part of parts) {
+    const token = part.trim().toLowerCase();
+    const option = question.options.find(
+      (candidate, i) =>
+        candidate.id.toLowerCase() === token ||
+        candidate.text.toLowerCase() === token ||
+        String(i + 1) === token
+    );
+    if (option === undefined) {
+      return undefined;
+    }
+    if (!selected.includes(option.id)) {
+      selected.push(option.id);
+    }
+  }
+  return selected;
+}
+
+/**
+ * Collects the fact categories extracted so far.
+ */
+function collectFacts(answers: readonly ExtractedRequirement[]): Set<FactCategory> {
+  return new Set(answers.flatMap((answer) => answer.facts ?? []));
+}
+
+/**
+ * Checks whether a conditional follow-up's condition holds.
+ *
+ * @param condition - The condition.
+ * @param answers - All answers so far.
+ * @returns True if every condition field holds.
+ */
+export function isConditionMet(
+  condition: QuestionBankCondition,
+  answers: readonly ExtractedRequirement[]
+): boolean {
+  const candidates = answers.filter(
+    (answer) =>
+      answer.questionId !== undefined &&
+      (condition.previous_question_id === undefined ||
+        answer.questionId === condition.previous_question_id)
+  );
+  const facts = collectFacts(answers);
+
+  if (condition.previous_question_id !== undefined && candidates.length === 0) {
+    return false;
+  }
+  const selectedOption = condition.selected_option;
+  if (
+    selectedOption !== undefined &&
+    !candidates.some((answer) => answer.selectedOptions?.includes(selectedOption) === true)
+  ) {
+    return false;
+  }
+  const keywords = condition.response_contains?.map((keyword) => keyword.toLowerCase());
+  if (
+    keywords !== undefined &&
+    !candidates.some((answer) => {
+      const text = answer.text.toLowerCase();
+      return keywords.some((keyword) => text.includes(keyword));
+    })
+  ) {
+    return false;
+  }
+  if (condition.fact_exists !== undefined && !facts.has(condition.fact_exists)) {
+    return false;
+  }
+  return condition.fact_missing === undefined || !facts.has(condition.fact_missing);
+}
+
+/**
+ * Chooses the next question of a phase from the answers so far.
+ *
+ * 1. A question triggered by a selected option is asked first.
+ * 2. Topics are then walked in order: the primary question, then
+ *    conditional follow-ups whose condition holds, then plain follow-ups.
+ * 3. A plain follow-up is skipped when earlier answers already supplied
+ *    every fact it extracts.
+ *
+ * @param phase - The bank phase.
+ * @param answers - All answers so far, across phases.
+ * @returns The next question, or undefined when the phase is done.
+ */
+export function selectNextQuestion(
+  phase: QuestionBankPhase,
+  answers: readonly ExtractedRequirement[]
+): QuestionBankQuestion | undefined {
+  const answered = new Set(answers.map((answer) => answer.questionId));
+  const facts = collectFacts(answers);
+  const questions = getPhaseQuestions(phase);
+
+  for (const answer of answers) {
+    const question = questions.find((candidate) => candidate.id === answer.questionId);
+    for (const option of question?.options ?? []) {
+      if (answer.selectedOptions?.includes(option.id) !== true) {
+        continue;
+      }
+      const triggered = questions.find((candidate) => candidate.id === option.triggers_follow_up);
+      if (triggered !== undefined && !answered.has(triggered.id)) {
+        return triggered;
+      }
+    }
+  }
+
+  for (const topic of phase.topics) {
+    if (!answered.has(topic.primary.id)) {
+      return topic.primary;
+    }
+    for (const { condition, question } of topic.conditional_follow_ups) {
+      if (!answered.has(question.id) && isConditionMet(condition, answers)) {
+        return question;
+      }
+    }
+    for (const question of topic.follow_ups) {
+      const addsFact =
+        question.extract_as.length === 0 ||
+        question.extract_as.some((category) => !facts.has(category));
+      if (!answered.has(question.id) && addsFact) {
+        return question;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Fills a phase summary template from the facts extracted so far.
+ *
+ * Placeholders list every answer extracted as their fact category, joined
+ * with '; '. Feature placeholders also list features classified during the
+ * interview. Placeholders without facts read '(not specified)'.
+ *
+ * @param template - The phase summary template.
+ * @param requirements - The extracted requirements.
+ * @param features - The classified features.
+ * @returns The filled summary.
+ */
+export function fillSummaryTemplate(
+  template: string,
+  requirements: readonly ExtractedRequirement[],
+  features: readonly Feature[] = []
+): string {
+  return template.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    const category = getPlaceholderCategory(name);
+    if (category === undefined) {
+      return match;
+    }
+    // eslint-disable-next-line security/detect-object-injection -- safe: category is a FactCategory literal
+    const classification = FEATURE_FACTS[category];
+    const values = [
+      ...requirements
+        .filter((requirement) => requirement.facts?.includes(category) === true)
+        .map((requirement) => requirement.text.trim()),
+      ...features
+        .filter((feature) => feature.classification === classification)
+        .map((feature) => feature.name),
+    ];
+    return values.length > 0 ? values.join('; ') : UNSPECIFIED;
+  });
+}
+
+/**
+ * Maps fact categories onto the requirement category used by the spec
+ * generator.
+ *
+ * @param facts - The fact categories of an answer.
+ * @returns The requirement category of the first fact, or undefined if none.
+ */
+export function getRequirementCategoryForFacts(
+  facts: readonly FactCategory[]
+): ExtractedRequirement['category'] | undefined {
+  const [first] = facts;
+  if (first === undefined) {
+    return undefined;
+  }
+  if (first === 'constraint_performance') {
+    return 'non_functional';
+  }
+  if (first.startsWith('constraint_')) {
+    return 'constraint';
+  }
+  if (first === 'preference' || first === 'language_choice' || first === 'platform_choice') {
+    return 'preference';
+  }
+  return 'functional';
+}
@@ -130,6 +130,61 @@ export interface ExtractedRequirement {
   readonly confidence: 'high' | 'medium' | 'low';
   /** Timestamp when requirement was extracted (ISO 8601). */
   readonly extractedAt: string;
+  /** ID of the question-bank question that was answered, if any. */
+  readonly questionId?: string;
+  /** Fact categories the answer was extracted as (question-bank interviews). */
+  readonly facts?: readonly FactCategory[];
+  /** IDs of the options selected on a multiple-choice question. */
+  readonly selectedOptions?: readonly string[];
+}
+
+/**
+ * Fact categories a question-bank answer can be extracted as.
+ */
+export type FactCategory =
+  | 'problem'
+  | 'user_persona'
+  | 'success_criterion'
+  | 'feature_core'
+  | 'feature_foundational'
+  | 'feature_bolt_on'
+  | 'constraint_technical'
+  | 'constraint_performance'
+  | 'constraint_security'
+  | 'constraint_compliance'
+  | 'preference'
+  | 'integration'
+  | 'language_choice'
+  | 'platform_choice';
+
+/**
+ * Array of all fact categories, in question-bank schema order.
+ */
+export const FACT_CATEGORIES: readonly FactCategory[] = [
+  'problem',
+  'user_persona',
+  'success_criterion',
+  'feature_core',
+  'feature_foundational',
+  'feature_bolt_on',
+  'constraint_technical',
+  'constraint_performance',
+  'constraint_security',
+  'constraint_compliance',
+  'preference',
+  'integration',
+  'language_choice',
+  'platform_choice',
+] as const;
+
+/**
+ * Checks if a string is a valid FactCategory.
+ *
+ * @param value - The string to check.
+ * @returns True if the value is a valid FactCategory.
+ */
+export function isValidFactCategory(value: string): value is FactCategory {
+  return FACT_CATEGORIES.includes(value as FactCategory);
 }
 
 /**
@@ -61,6 +61,7 @@ export {
   generateWitnessIntegration,
   generateDomainWitnessIntegration,
   formatVerificationReport,
+  specWitnessToDefinition,
 } from './witness-generator.js';
 
 export type {
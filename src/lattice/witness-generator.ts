@@ -226,7 +226,7 @@ function canBrandInvariant(formal: string, _description: string): boolean {
 /**
  * Converts a spec witness to a WitnessDefinition for the TypeScriptAdapter.
  */
-function specWitnessToDefinition(witness: SpecWitness): WitnessDefinition {
+export function specWitnessToDefinition(witness: SpecWitness): WitnessDefinition {
   const typeParameters: WitnessTypeParameter[] = [];
 
   if (witness.type_params !== undefined) {
@@ -0,0 +1,220 @@
+/**
+ * Tests for the Decision Ledger hash chain.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GENESIS_HASH, verifyLedgerChain } from './chain.js';
+import { Ledger, fromData } from './ledger.js';
+import type { DecisionInput, LedgerData } from './types.js';
+
+const input = (overrides: Partial<DecisionInput> = {}): DecisionInput => ({
+  category: 'architectural',
+  constraint: 'Use PostgreSQL',
+  source: 'design_choice',
+  confidence: 'provisional',
+  phase: 'design',
+  ...overrides,
+});
+
+/**
+ * Builds a ledger exercising every kind of event:
+ * architectural_001 superseded by architectural_002, data_model_001
+ * invalidated, data_model_002 downgraded, testing_001 reinstated.
+ */
+function createLedger(): Ledger {
+  const ledger = new Ledger({
+    project: 'chain-test',
+    now: () => new Date('2024-01-20T12:00:00.000Z'),
+  });
+  ledger.append(input());
+  ledger.append(input({ category: 'data_model', constraint: 'Cents as integers' }));
+  ledger.append(
+    input({ category: 'data_model', constraint: 'Soft deletes', confidence: 'delegated' })
+  );
+  ledger.append(
+    input({ category: 'testing', constraint: 'Fuzz parsers', confidence: 'suspended' })
+  );
+  ledger.supersede('architectural_001', input({ constraint: 'Use SQLite' }));
+  ledger.invalidate('data_model_001');
+  ledger.downgradeDelegated('data_model_002', 'conflicts with retention policy');
+  ledger.reinstate('testing_001', {
+    reason: 'Re-verified',
+    validator: 'reviewer',
+    timestamp: '2024-01-20T12:00:00.000Z',
+  });
+  return ledger;
+}
+
+/** Round-trips ledger data through JSON, as a file edit would. */
+function copy(data: LedgerData): LedgerData {
+  return JSON.parse(JSON.stringify(data)) as LedgerData;
+}
+
+describe('hash chain', () => {
+  it('links every decision and event in append order', () => {
+    const ledger = createLedger();
+    const data = ledger.toData();
+    const decisions = data.decisions;
+    const events = data.events ?? [];
+
+    expect(decisions[0]?.prev_hash).toBe(GENESIS_HASH);
+    expect(decisions[1]?.prev_hash).toBe(decisions[0]?.hash);
+    // The superseding decision is appended before the supersede event
+    expect(events[0]?.prev_hash).toBe(decisions[4]?.hash);
+    expect(events.map((e) => [e.type, e.decision_id])).toEqual([
+      ['superseded', 'architectural_001'],
+      ['invalidated', 'data_model_001'],
+      ['downgraded', 'data_model_002'],
+      ['reinstated', 'testing_001'],
+    ]);
+    expect(events[0]).toMatchObject({
+      from: { status: 'active' },
+      to: { status: 'superseded', superseded_by: 'architectural_002' },
+    });
+    expect(data.meta.head_hash).toBe(events[3]?.hash);
+  });
+
+  it('verifies an untouched ledger', () => {
+    const data = copy(createLedger().toData());
+
+    expect(verifyLedgerChain(data)).toEqual({
+      status: 'intact',
+      entries: 9,
+      headHash: data.meta.head_hash,
+    });
+  });
+
+  it('verifies an empty ledger', () => {
+    const ledger = new Ledger({ project: 'chain-test' });
+
+    expect(verifyLedgerChain(ledger.toData())).toEqual({
+      status: 'intact',
+      entries: 0,
+      headHash: undefined,
+    });
+  });
+
+  it('keeps verifying after a reload and further changes', () => {
+    const ledger = fromData(copy(createLedger().toData()));
+    ledger.invalidate('architectural_002');
+
+    expect(verifyLedgerChain(copy(ledger.toData())).status).toBe('intact');
+  });
+
+  it('reports an edited decision', () => {
+    const data = copy(createLedger().toData());
+    const decision = data.decisions[1];
+    if (decision === undefined) {
+      throw new Error('missing decision');
+    }
+    decision.constraint = 'Cents as floats';
+
+    expect(verifyLedgerChain(data)).toEqual({
+      status: 'broken',
+      firstBreak: {
+        position: 1,
+        entry: 'decision',
+        decisionId: 'data_model_001',
+        reason: 'decision data_model_001 does not match its hash',
+      },
+    });
+  });
+
+  it('reports a status changed without an event', () => {
+    const data = copy(createLedger().toData());
+    const decision = data.decisions[1];
+    if (decision === undefined) {
+      throw new Error('missing decision');
+    }
+    decision.status = 'active';
+
+    expect(verifyLedgerChain(data)).toMatchObject({
+      status: 'broken',
+      firstBreak: {
+        position: 1,
+        decisionId: 'data_model_001',
+        reason: 'decision data_model_001 has a status that no event recorded',
+      },
+    });
+  });
+
+  it('reports a status changed on a decision with no events', () => {
+    const data = copy(createLedger().toData());
+    const decision = data.decisions[4];
+    if (decision === undefined) {
+      throw new Error('missing decision');
+    }
+    decision.status = 'invalidated';
+
+    expect(verifyLedgerChain(data)).toMatchObject({
+      status: 'broken',
+      firstBreak: { position: 4, reason: 'decision architectural_002 does not match its hash' },
+    });
+  });
+
+  it('reports an edited event', () => {
+    const data = copy(createLedger().toData());
+    const event = data.events?.[1];
+    if (event === undefined) {
+      throw new Error('missing event');
+    }
+    event.to = { status: 'superseded' };
+
+    expect(verifyLedgerChain(data)).toMatchObject({
+      status: 'broken',
+      firstBreak: {
+        position: 6,
+        entry: 'event',
+        reason: 'event on data_model_001 does not match its hash',
+      },
+    });
+  });
+
+  it('reports a removed decision at the entry that follows it', () => {
+    const data = copy(createLedger().toData());
+    data.decisions.splice(2, 1);
+
+    expect(verifyLedgerChain(data)).toMatchObject({
+      status: 'broken',
+      firstBreak: {
+        position: 2,
+        decisionId: 'testing_001',
+        reason: 'decision testing_001 does not link to the previous entry',
+      },
+    });
+  });
+
+  it('reports events removed from the end', () => {
+    const data = copy(createLedger().toData());
+    data.events?.pop();
+    const decision = data.decisions[3];
+    if (decision === undefined) {
+      throw new Error('missing decision');
+    }
+    // Undo the reinstatement so the decision agrees with the remaining events
+    decision.confidence = 'suspended';
+    delete decision.contradiction_resolved;
+
+    expect(verifyLedgerChain(data)).toEqual({
+      status: 'broken',
+      firstBreak: {
+        position: 8,
+        entry: 'head',
+        reason: 'head hash does not match the last entry',
+      },
+    });
+  });
+
+  it('reports a ledger written before chaining as unchained', () => {
+    const data = copy(createLedger().toData());
+    for (const decision of data.decisions) {
+      delete decision.hash;
+      delete decision.prev_hash;
+    }
+    delete data.events;
+    delete data.meta.head_hash;
+
+    expect(verifyLedgerChain(data)).toEqual({ status: 'unchained', entries: 5 });
+    expect(verifyLedgerChain(copy(fromData(data).toData())).status).toBe('intact');
+  });
+});
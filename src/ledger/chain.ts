@@ -0,0 +1,351 @@
+/**
+ * Hash chain for the Decision Ledger.
+ *
+ * Every decision and every later change to a decision (a {@link LedgerEvent})
+ * is an entry in a single SHA-256 chain: each entry stores the hash of the
+ * entry before it and a hash of its own content, and the ledger metadata
+ * records the head. Editing, reordering or removing any entry in the file
+ * breaks a link that {@link verifyLedgerChain} can point to.
+ *
+ * Decisions are hashed as they were appended. Their mutable fields
+ * (status, confidence, ...) change in place afterwards, so verification
+ * recovers the appended values from the first event touching each field and
+ * replays the events to check the current values.
+ *
+ * @packageDocumentation
+ */
+
+import { createHash } from 'node:crypto';
+import type {
+  Decision,
+  DecisionFieldValues,
+  LedgerData,
+  LedgerEvent,
+  MutableDecisionField,
+} from './types.js';
+
+/**
+ * The prev_hash of the first entry in a chain.
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Decision fields that events may change, in hashing order.
+ */
+export const MUTABLE_DECISION_FIELDS: readonly MutableDecisionField[] = [
+  'status',
+  'superseded_by',
+  'confidence',
+  'failure_context',
+  'contradiction_resolved',
+];
+
+/**
+ * Where and why a ledger's hash chain is broken.
+ */
+export interface LedgerChainBreak {
+  /** Position of the offending entry in chain order (0-based). */
+  position: number;
+  /** Kind of entry; 'head' means the metadata head hash. */
+  entry: 'decision' | 'event' | 'head';
+  /** ID of the decision the entry belongs to, if any. */
+  decisionId?: string;
+  /** Human-readable description of the break. */
+  reason: string;
+}
+
+/**
+ * Result of verifying a ledger's hash chain.
+ */
+export type LedgerChainVerification =
+  | {
+      /** Every entry links to the previous one and matches its hash. */
+      status: 'intact';
+      /** Number of chain entries (decisions plus events). */
+      entries: number;
+      /** Hash of the last entry, if any. */
+      headHash: string | undefined;
+    }
+  | {
+      /** The ledger was written before chaining and carries no hashes. */
+      status: 'unchained';
+      /** Number of decisions. */
+      entries: number;
+    }
+  | {
+      /** The chain does not verify. */
+      status: 'broken';
+      /** The first broken link found. */
+      firstBreak: LedgerChainBreak;
+    };
+
+function sha256(canonical: unknown): string {
+  return createHash('sha256').update(JSON.stringify(canonical), 'utf8').digest('hex');
+}
+
+function canonicalFieldValues(values: DecisionFieldValues): Record<MutableDecisionField, unknown> {
+  // Fixed field order keeps the serialization stable
+  return {
+    status: values.status ?? null,
+    superseded_by: values.superseded_by ?? null,
+    confidence: values.confidence ?? null,
+    failure_context: values.failure_context ?? null,
+    contradiction_resolved: values.contradiction_resolved ?? null,
+  };
+}
+
+/**
+ * Computes the chain hash of a decision.
+ *
+ * @param decision - The decision; any stored hash fields are ignored.
+ * @param prevHash - Hash of the previous chain entry.
+ * @param values - Mutable field values as appended. Defaults to the decision's own.
+ * @returns SHA-256 hex digest.
+ */
+export function hashDecision(
+  decision: Decision,
+  prevHash: string,
+  values: DecisionFieldValues = decision
+): string {
+  // Fixed field order keeps the serialization stable
+  return sha256({
+    prev_hash: prevHash,
+    id: decision.id,
+    timestamp: decision.timestamp,
+    category: decision.category,
+    constraint: decision.constraint,
+    rationale: decision.rationale ?? null,
+    source: decision.source,
+    phase: decision.phase,
+    dependencies: decision.dependencies ?? null,
+    supersedes: decision.supersedes ?? null,
+    human_query_id: decision.human_query_id ?? null,
+    file_move:
+      decision.file_move !== undefined
+        ? { from: decision.file_move.from, to: decision.file_move.to }
+        : null,
+    ...canonicalFieldValues(values),
+  });
+}
+
+/**
+ * Computes the chain hash of an event.
+ *
+ * @param event - The event; any stored hash fields are ignored.
+ * @param prevHash - Hash of the previous chain entry.
+ * @returns SHA-256 hex digest.
+ */
+export function hashEvent(
+  event: Pick<LedgerEvent, 'type' | 'decision_id' | 'timestamp' | 'from' | 'to'>,
+  prevHash: string
+): string {
+  return sha256({
+    prev_hash: prevHash,
+    type: event.type,
+    decision_id: event.decision_id,
+    timestamp: event.timestamp,
+    from: canonicalFieldValues(event.from),
+    to: canonicalFieldValues(event.to),
+  });
+}
+
+function pickFieldValues(source: DecisionFieldValues): DecisionFieldValues {
+  const values: DecisionFieldValues = {};
+  for (const field of MUTABLE_DECISION_FIELDS) {
+    // eslint-disable-next-line security/detect-object-injection -- safe: field is from MUTABLE_DECISION_FIELDS
+    const value = source[field];
+    if (value !== undefined) {
+      Object.assign(values, { [field]: value });
+    }
+  }
+  return values;
+}
+
+/**
+ * Recovers each decision's mutable field values as appended: the `from`
+ * value of the first event changing a field, or the current value if no
+ * event ever changed it.
+ */
+function recoverAppendedValues(
+  decisions: readonly Decision[],
+  events: readonly LedgerEvent[]
+): Map<string, DecisionFieldValues> {
+  const firstFrom = new Map<string, Map<MutableDecisionField, unknown>>();
+  for (const event of events) {
+    let fields = firstFrom.get(event.decision_id);
+    if (fields === undefined) {
+      fields = new Map();
+      firstFrom.set(event.decision_id, fields);
+    }
+    for (const field of MUTABLE_DECISION_FIELDS) {
+      if (field in event.to && !fields.has(field)) {
+        // eslint-disable-next-line security/detect-object-injection -- safe: field is from MUTABLE_DECISION_FIELDS
+        fields.set(field, event.from[field]);
+      }
+    }
+  }
+
+  const appended = new Map<string, DecisionFieldValues>();
+  for (const decision of decisions) {
+    const fields = firstFrom.get(decision.id);
+    const values: DecisionFieldValues = {};
+    for (const field of MUTABLE_DECISION_FIELDS) {
+      // eslint-disable-next-line security/detect-object-injection -- safe: field is from MUTABLE_DECISION_FIELDS
+      const value = fields?.has(field) === true ? fields.get(field) : decision[field];
+      if (value !== undefined) {
+        Object.assign(values, { [field]: value });
+      }
+    }
+    appended.set(decision.id, values);
+  }
+  return appended;
+}
+
+function differingField(
+  actual: DecisionFieldValues,
+  expected: DecisionFieldValues,
+  fields: readonly MutableDecisionField[]
+): MutableDecisionField | undefined {
+  // eslint-disable-next-line security/detect-object-injection -- safe: field is from MUTABLE_DECISION_FIELDS
+  return fields.find((field) => actual[field] !== expected[field]);
+}
+
+/**
+ * Verifies a ledger's hash chain.
+ *
+ * Walks decisions and events in chain order (each array is in append order;
+ * the prev_hash links interleave them), checking that every entry links to
+ * the previous one and matches its hash, that every event starts from the
+ * decision's state at that point, that the replayed events explain each
+ * decision's current values, and that the last entry is the recorded head.
+ *
+ * @param data - The ledger data as stored.
+ * @returns The verification result, with the first broken link if any.
+ *
+ * @example
+ * ```typescript
+ * const result = verifyLedgerChain(ledger.toData());
+ * if (result.status === 'broken') {
+ *   console.error(result.firstBreak.reason);
+ * }
+ * ```
+ */
+export function verifyLedgerChain(data: LedgerData): LedgerChainVerification {
+  const decisions = data.decisions;
+  const events = data.events ?? [];
+
+  if (
+    data.meta.head_hash === undefined &&
+    events.length === 0 &&
+    decisions.length > 0 &&
+    decisions.every((d) => d.hash === undefined && d.prev_hash === undefined)
+  ) {
+    return { status: 'unchained', entries: decisions.length };
+  }
+
+  const appended = recoverAppendedValues(decisions, events);
+  const replayed = new Map<string, DecisionFieldValues>();
+  const positions = new Map<string, number>();
+  let previous = GENESIS_HASH;
+  let position = 0;
+  let decisionIndex = 0;
+  let eventIndex = 0;
+
+  const broken = (
+    entry: LedgerChainBreak['entry'],
+    decisionId: string | undefined,
+    reason: string
+  ): LedgerChainVerification => ({
+    status: 'broken',
+    firstBreak: { position, entry, ...(decisionId !== undefined ? { decisionId } : {}), reason },
+  });
+
+  while (decisionIndex < decisions.length || eventIndex < events.length) {
+    // eslint-disable-next-line security/detect-object-injection -- safe: decisionIndex is a numeric counter
+    const decision = decisions[decisionIndex];
+    // eslint-disable-next-line security/detect-object-injection -- safe: eventIndex is a numeric counter
+    const event = events[eventIndex];
+
+    if (decision?.prev_hash === previous) {
+      const values = appended.get(decision.id) ?? {};
+      const hash = hashDecision(decision, previous, values);
+      if (decision.hash !== hash) {
+        return broken('decision', decision.id, `decision ${decision.id} does not match its hash`);
+      }
+      replayed.set(decision.id, { ...values });
+      positions.set(decision.id, position);
+      previous = hash;
+      decisionIndex++;
+    } else if (event?.prev_hash === previous) {
+      const hash = hashEvent(event, previous);
+      if (event.hash !== hash) {
+        return broken(
+          'event',
+          event.decision_id,
+          `event on ${event.decision_id} does not match its hash`
+        );
+      }
+      const state = replayed.get(event.decision_id);
+      if (state === undefined) {
+        return broken(
+          'event',
+          event.decision_id,
+          `event on ${event.decision_id} precedes the decision in the chain`
+        );
+      }
+      const changed = MUTABLE_DECISION_FIELDS.filter((field) => field in event.to);
+      const mismatch = differingField(state, event.from, changed);
+      if (mismatch !== undefined) {
+        return broken(
+          'event',
+          event.decision_id,
+          `${event.type} event on ${event.decision_id} does not start from its ${mismatch}`
+        );
+      }
+      Object.assign(state, pickFieldValues(event.to));
+      previous = hash;
+      eventIndex++;
+    } else if (decision !== undefined) {
+      return broken(
+        'decision',
+        decision.id,
+        decision.hash === undefined
+          ? `decision ${decision.id} has no hash`
+          : `decision ${decision.id} does not link to the previous entry`
+      );
+    } else if (event !== undefined) {
+      return broken(
+        'event',
+        event.decision_id,
+        `event on ${event.decision_id} does not link to the previous entry`
+      );
+    }
+    position++;
+  }
+
+  for (const decision of decisions) {
+    const state = replayed.get(decision.id) ?? {};
+    const mismatch = differingField(decision, state, MUTABLE_DECISION_FIELDS);
+    if (mismatch !== undefined) {
+      position = positions.get(decision.id) ?? position;
+      return broken(
+        'decision',
+        decision.id,
+        `decision ${decision.id} has a ${mismatch} that no event recorded`
+      );
+    }
+  }
+
+  const headHash = position > 0 ? previous : undefined;
+  if (data.meta.head_hash !== headHash) {
+    return broken(
+      'head',
+      undefined,
+      data.meta.head_hash === undefined
+        ? 'ledger metadata has no head hash'
+        : 'head hash does not match the last entry'
+    );
+  }
+
+  return { status: 'intact', entries: position, headHash };
+}
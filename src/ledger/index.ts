@@ -22,6 +22,11 @@ export type {
   DependencyGraphQueryOptions,
   DependencyGraphResult,
   ValidationProof,
+  FileMove,
+  LedgerEvent,
+  LedgerEventType,
+  MutableDecisionField,
+  DecisionFieldValues,
 } from './types.js';
 
 export {
@@ -34,6 +39,7 @@ export {
   CircularDependencyError,
   DependencyNotFoundError,
   InvalidFilterKeyError,
+  DECISION_FILTER_VALUES,
   fromData,
 } from './ledger.js';
 
@@ -48,6 +54,16 @@ export type {
   CascadeAffectedDecision,
 } from './ledger.js';
 
+export {
+  GENESIS_HASH,
+  MUTABLE_DECISION_FIELDS,
+  hashDecision,
+  hashEvent,
+  verifyLedgerChain,
+} from './chain.js';
+
+export type { LedgerChainBreak, LedgerChainVerification } from './chain.js';
+
 export { formatLedgerForPrompt } from './formatter.js';
 
 export type { FormatLedgerOptions } from './formatter.js';
@@ -58,6 +74,7 @@ export {
   deserialize,
   saveLedger,
   loadLedger,
+  verifyLedgerFile,
 } from './persistence.js';
 
 export type {
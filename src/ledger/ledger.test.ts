@@ -1245,7 +1245,8 @@ describe('Ledger', () => {
       'auditor_contradiction',
       'composition_audit',
       'mesoscopic_failure',
-      'human_resolution'
+      'human_resolution',
+      'spec_change'
     ) as fc.Arbitrary<DecisionInput['source']>;
 
     const confidenceArb = fc.constantFrom(
@@ -1931,6 +1932,29 @@ describe('Ledger', () => {
       });
     });
 
+    describe('previewInvalidate', () => {
+      it('should report the cascade without changing the ledger', () => {
+        const a = ledger.append(createTestInput({ constraint: 'A', confidence: 'provisional' }));
+        const b = ledger.append(
+          createTestInput({ constraint: 'B', confidence: 'provisional', dependencies: [a.id] })
+        );
+
+        const preview = ledger.previewInvalidate(a.id);
+
+        expect(preview.affectedDecisions.map((d) => d.id)).toEqual([a.id, b.id]);
+        expect(ledger.getById(a.id)?.status).toBe('active');
+        expect(ledger.getById(b.id)?.status).toBe('active');
+        expect(ledger.invalidate(a.id)).toEqual(preview);
+      });
+
+      it('should apply the same checks as invalidate', () => {
+        const decision = ledger.append(createTestInput({ confidence: 'canonical' }));
+
+        expect(() => ledger.previewInvalidate(decision.id)).toThrow(CanonicalOverrideError);
+        expect(() => ledger.previewInvalidate('architectural_999')).toThrow(DecisionNotFoundError);
+      });
+    });
+
     describe('append-only invariant preservation', () => {
       it('should preserve all decisions after cascade invalidation', () => {
         const a = ledger.append(
@@ -2527,6 +2551,57 @@ describe('Ledger', () => {
     });
   });
 
+  describe('getFileMoves', () => {
+    it('returns moves of active decisions in order', () => {
+      const ledger = createTestLedger();
+      ledger.append(
+        createTestInput({
+          constraint: 'Accounts live in their own module',
+          confidence: 'provisional',
+          file_move: { from: 'src/account.ts', to: 'src/accounts/account.ts' },
+        })
+      );
+      ledger.append(createTestInput({ constraint: 'Unrelated' }));
+      const reverted = ledger.append(
+        createTestInput({
+          constraint: 'Move sources under lib/',
+          confidence: 'provisional',
+          file_move: { from: 'src', to: 'lib' },
+        })
+      );
+      ledger.append(
+        createTestInput({
+          constraint: 'Ledger logic lives in src/ledger/',
+          file_move: { from: 'src/ledger.ts', to: 'src/ledger/ledger.ts' },
+        })
+      );
+
+      ledger.invalidate(reverted.id);
+
+      expect(ledger.getFileMoves()).toEqual([
+        { from: 'src/account.ts', to: 'src/accounts/account.ts' },
+        { from: 'src/ledger.ts', to: 'src/ledger/ledger.ts' },
+      ]);
+    });
+
+    it('rejects moves with empty paths', () => {
+      const ledger = createTestLedger();
+
+      expect(() =>
+        ledger.append(createTestInput({ file_move: { from: 'src/a.ts', to: ' ' } }))
+      ).toThrow(/file_move\.to: File move path must be a non-empty string/);
+    });
+
+    it('survives a round trip through toData and fromData', () => {
+      const ledger = createTestLedger();
+      ledger.append(createTestInput({ file_move: { from: 'src/a.ts', to: 'src/b.ts' } }));
+
+      expect(fromData(ledger.toData()).getFileMoves()).toEqual([
+        { from: 'src/a.ts', to: 'src/b.ts' },
+      ]);
+    });
+  });
+
   describe('getHistory', () => {
     let ledger: Ledger;
 
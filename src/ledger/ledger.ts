@@ -13,6 +13,7 @@ import type {
   DecisionInput,
   DecisionPhase,
   DecisionSource,
+  DecisionStatus,
   ConfidenceLevel,
   LedgerData,
   LedgerMeta,
@@ -22,7 +23,12 @@ import type {
   DependencyGraphQueryOptions,
   DependencyGraphResult,
   ValidationProof,
+  FileMove,
+  DecisionFieldValues,
+  LedgerEvent,
+  LedgerEventType,
 } from './types.js';
+import { GENESIS_HASH, MUTABLE_DECISION_FIELDS, hashDecision, hashEvent } from './chain.js';
 
 /**
  * Error class for ledger validation errors.
@@ -317,6 +323,7 @@ const VALID_SOURCES: ReadonlySet<DecisionSource> = new Set([
   'composition_audit',
   'mesoscopic_failure',
   'human_resolution',
+  'spec_change',
 ]);
 
 /**
@@ -344,6 +351,15 @@ const VALID_PHASES: ReadonlySet<DecisionPhase> = new Set([
   'mass_defect',
 ]);
 
+/**
+ * Valid decision statuses as defined in the schema.
+ */
+const VALID_STATUSES: ReadonlySet<DecisionStatus> = new Set([
+  'active',
+  'superseded',
+  'invalidated',
+]);
+
 /**
  * Valid filter keys for querying decisions.
  */
@@ -354,6 +370,16 @@ const VALID_FILTER_KEYS: readonly DecisionFilterKey[] = [
   'confidence',
 ] as const;
 
+/**
+ * Accepted values for each decision filter key.
+ */
+export const DECISION_FILTER_VALUES: Readonly<Record<DecisionFilterKey, ReadonlySet<string>>> = {
+  category: VALID_CATEGORIES,
+  phase: VALID_PHASES,
+  status: VALID_STATUSES,
+  confidence: VALID_CONFIDENCE_LEVELS,
+};
+
 /**
  * Pattern for valid decision IDs: category_NNN (e.g., "architectural_001").
  */
@@ -369,6 +395,8 @@ export interface LedgerOptions {
   now?: (() => Date) | undefined;
   /** Optional metadata to restore from existing ledger (internal use). */
   _meta?: LedgerMeta | undefined;
+  /** Optional events to restore from existing ledger (internal use). */
+  _events?: LedgerEvent[] | undefined;
 }
 
 /**
@@ -398,6 +426,7 @@ export interface LedgerOptions {
 export class Ledger {
   private readonly meta: LedgerMeta;
   private readonly decisions: Decision[] = [];
+  private readonly events: LedgerEvent[] = [];
   private readonly idCounters = new Map<DecisionCategory, number>();
   private readonly existingIds = new Set<string>();
   private readonly now: () => Date;
@@ -423,6 +452,10 @@ export class Ledger {
         project: options.project,
       };
     }
+
+    if (options._events !== undefined) {
+      this.events.push(...options._events);
+    }
   }
 
   /**
@@ -517,22 +550,28 @@ export class Ledger {
     if (input.human_query_id !== undefined) {
       decision.human_query_id = input.human_query_id;
     }
+    if (input.file_move !== undefined) {
+      decision.file_move = { from: input.file_move.from, to: input.file_move.to };
+    }
 
     // Record the decision
-    this.decisions.push(decision);
+    const chained = this.chainDecision(decision);
+    this.decisions.push(chained);
     this.existingIds.add(id);
 
     // Update last_modified
-    this.meta.last_modified = decision.timestamp;
+    this.meta.last_modified = chained.timestamp;
 
-    return decision;
+    return chained;
   }
 
   /**
    * Appends a decision with a specific ID.
    *
    * Used for loading existing decisions or testing.
-   * Validates the decision and rejects duplicate IDs.
+   * Validates the decision and rejects duplicate IDs. A decision that
+   * already carries a hash is stored as-is (it is being restored into its
+   * chain); one without is chained onto the current head.
    *
    * @param decision - Complete decision with ID.
    * @returns The appended decision.
@@ -556,16 +595,17 @@ export class Ledger {
     }
 
     // Record the decision
-    this.decisions.push(decision);
-    this.existingIds.add(decision.id);
+    const chained = decision.hash !== undefined ? decision : this.chainDecision(decision);
+    this.decisions.push(chained);
+    this.existingIds.add(chained.id);
 
     // Update counter to avoid future collisions
-    this.updateCounterFromId(decision.id, decision.category);
+    this.updateCounterFromId(chained.id, chained.category);
 
     // Update last_modified
-    this.meta.last_modified = decision.timestamp;
+    this.meta.last_modified = chained.timestamp;
 
-    return decision;
+    return chained;
   }
 
   /**
@@ -577,6 +617,15 @@ export class Ledger {
     return [...this.decisions];
   }
 
+  /**
+   * Gets all changes recorded against existing decisions, in order.
+   *
+   * @returns A copy of the events array.
+   */
+  getEvents(): LedgerEvent[] {
+    return [...this.events];
+  }
+
   /**
    * Gets the number of decisions in the ledger.
    *
@@ -615,6 +664,7 @@ export class Ledger {
     return {
       meta: { ...this.meta },
       decisions: [...this.decisions],
+      events: [...this.events],
     };
   }
 
@@ -626,6 +676,7 @@ export class Ledger {
    * - Sets superseded_by on the old decision to point to the new decision
    * - Sets supersedes on the new decision to include the old decision ID
    * - Preserves the original entry (append-only invariant)
+   * - Records the status change as a 'superseded' event in the hash chain
    *
    * Canonical decisions (confidence = 'canonical') require explicit override
    * via the forceOverrideCanonical option.
@@ -710,6 +761,7 @@ export class Ledger {
     // Replace in the array
     // eslint-disable-next-line security/detect-object-injection -- safe: oldDecisionIndex is numeric from .findIndex()
     this.decisions[oldDecisionIndex] = updatedOldDecision;
+    this.recordEvent('superseded', oldDecision, updatedOldDecision, newDecision.timestamp);
 
     return {
       oldDecision: updatedOldDecision,
@@ -773,6 +825,30 @@ export class Ledger {
     return this.decisions.filter((d) => d.status === 'active');
   }
 
+  /**
+   * Gets the file moves recorded by active decisions, in the order they were recorded.
+   *
+   * @returns Array of file moves, oldest first.
+   *
+   * @example
+   * ```typescript
+   * ledger.append({
+   *   category: 'architectural',
+   *   constraint: 'Account logic lives in src/accounts/',
+   *   source: 'design_choice',
+   *   confidence: 'provisional',
+   *   phase: 'injection',
+   *   file_move: { from: 'src/account.ts', to: 'src/accounts/account.ts' },
+   * });
+   * ledger.getFileMoves(); // [{ from: 'src/account.ts', to: 'src/accounts/account.ts' }]
+   * ```
+   */
+  getFileMoves(): FileMove[] {
+    return this.decisions.flatMap((d) =>
+      d.status === 'active' && d.file_move !== undefined ? [{ ...d.file_move }] : []
+    );
+  }
+
   /**
    * Gets the full decision history including all superseded and invalidated entries.
    *
@@ -1025,6 +1101,21 @@ export class Ledger {
       }
     }
 
+    // Validate file move paths if provided
+    if (input.file_move !== undefined) {
+      for (const key of ['from', 'to'] as const) {
+        // eslint-disable-next-line security/detect-object-injection -- safe: key is a literal union
+        const value: unknown = input.file_move[key];
+        if (typeof value !== 'string' || value.trim() === '') {
+          errors.push({
+            field: `file_move.${key}`,
+            value,
+            message: 'File move path must be a non-empty string',
+          });
+        }
+      }
+    }
+
     return errors;
   }
 
@@ -1092,6 +1183,9 @@ export class Ledger {
     if (decision.human_query_id !== undefined) {
       inputForValidation.human_query_id = decision.human_query_id;
     }
+    if (decision.file_move !== undefined) {
+      inputForValidation.file_move = decision.file_move;
+    }
     const inputErrors = this.validateDecisionInput(inputForValidation);
 
     errors.push(...inputErrors);
@@ -1272,14 +1366,48 @@ export class Ledger {
    * ```
    */
   invalidate(decisionId: string, options?: InvalidateOptions): CascadeReport {
-    // Find the decision
-    const decisionIndex = this.decisions.findIndex((d) => d.id === decisionId);
-    if (decisionIndex === -1) {
-      throw new DecisionNotFoundError(decisionId);
+    const report = this.previewInvalidate(decisionId, options);
+
+    // Mark every affected decision (append-only: we update status, not delete)
+    for (const affected of report.affectedDecisions) {
+      const index = this.decisions.findIndex((d) => d.id === affected.id);
+      // eslint-disable-next-line security/detect-object-injection -- safe: index is numeric from .findIndex()
+      const decision = this.decisions[index];
+      if (decision !== undefined) {
+        // eslint-disable-next-line security/detect-object-injection -- safe: index is numeric from .findIndex()
+        this.decisions[index] = { ...decision, status: 'invalidated' };
+        this.recordEvent('invalidated', decision, { status: 'invalidated' }, report.timestamp);
+      }
     }
 
-    // eslint-disable-next-line security/detect-object-injection -- safe: decisionIndex is numeric from .findIndex()
-    const decision = this.decisions[decisionIndex];
+    // Update last_modified
+    this.meta.last_modified = report.timestamp;
+
+    return report;
+  }
+
+  /**
+   * Reports which decisions {@link Ledger.invalidate} would invalidate,
+   * without changing the ledger.
+   *
+   * Performs the same checks as `invalidate`, so a preview that succeeds
+   * means the invalidation will too.
+   *
+   * @param decisionId - ID of the decision to invalidate.
+   * @param options - Invalidate options including cascade and forceInvalidateCanonical.
+   * @returns CascadeReport showing the decisions that would be invalidated.
+   * @throws DecisionNotFoundError if the decision doesn't exist.
+   * @throws InvalidSupersedeError if the decision is already invalidated or superseded.
+   * @throws CanonicalOverrideError if trying to invalidate a canonical decision without explicit flag.
+   *
+   * @example
+   * ```typescript
+   * const preview = ledger.previewInvalidate('architectural_001');
+   * console.log(preview.affectedDecisions.map((d) => d.id)); // ['architectural_001', ...]
+   * ```
+   */
+  previewInvalidate(decisionId: string, options?: InvalidateOptions): CascadeReport {
+    const decision = this.getById(decisionId);
     if (decision === undefined) {
       throw new DecisionNotFoundError(decisionId);
     }
@@ -1299,57 +1427,31 @@ export class Ledger {
 
     const timestamp = this.now().toISOString();
     const cascade = options?.cascade !== false; // Default to true
-    const affectedDecisions: CascadeAffectedDecision[] = [];
 
-    // Add the source decision to the affected list
-    affectedDecisions.push({
-      id: decision.id,
-      constraint: decision.constraint,
-      dependencyPath: [decision.id],
-      depth: 0,
-    });
-
-    // Invalidate the source decision
-    const updatedDecision: Decision = {
-      ...decision,
-      status: 'invalidated',
-    };
-    // eslint-disable-next-line security/detect-object-injection -- safe: decisionIndex is numeric from .findIndex()
-    this.decisions[decisionIndex] = updatedDecision;
+    // The source decision is always affected
+    const affectedDecisions: CascadeAffectedDecision[] = [
+      {
+        id: decision.id,
+        constraint: decision.constraint,
+        dependencyPath: [decision.id],
+        depth: 0,
+      },
+    ];
 
-    // If cascade is enabled, invalidate all dependents
+    // If cascade is enabled, so is every still-active dependent
     if (cascade) {
-      const transitiveDependents = this.getTransitiveDependents(decisionId);
-
-      for (const { decision: dependent, depth, path } of transitiveDependents) {
-        // Find the index of this dependent
-        const depIndex = this.decisions.findIndex((d) => d.id === dependent.id);
-        if (depIndex !== -1) {
-          // eslint-disable-next-line security/detect-object-injection -- safe: depIndex is numeric from .findIndex()
-          const depDecision = this.decisions[depIndex];
-          // Only invalidate if still active
-          if (depDecision?.status === 'active') {
-            const updatedDep: Decision = {
-              ...depDecision,
-              status: 'invalidated',
-            };
-            // eslint-disable-next-line security/detect-object-injection -- safe: depIndex is numeric from .findIndex()
-            this.decisions[depIndex] = updatedDep;
-
-            affectedDecisions.push({
-              id: dependent.id,
-              constraint: dependent.constraint,
-              dependencyPath: path,
-              depth,
-            });
-          }
+      for (const { decision: dependent, depth, path } of this.getTransitiveDependents(decisionId)) {
+        if (dependent.status === 'active') {
+          affectedDecisions.push({
+            id: dependent.id,
+            constraint: dependent.constraint,
+            dependencyPath: path,
+            depth,
+          });
         }
       }
     }
 
-    // Update last_modified
-    this.meta.last_modified = timestamp;
-
     return {
       sourceDecisionId: decisionId,
       affectedDecisions,
@@ -1432,6 +1534,7 @@ export class Ledger {
 
     // Update last_modified
     this.meta.last_modified = this.now().toISOString();
+    this.recordEvent('downgraded', decision, updatedDecision, this.meta.last_modified);
 
     return updatedDecision;
   }
@@ -1500,15 +1603,68 @@ export class Ledger {
 
     // Update last_modified
     this.meta.last_modified = this.now().toISOString();
+    this.recordEvent('reinstated', decision, updatedDecision, this.meta.last_modified);
 
     return updatedDecision;
   }
+
+  /**
+   * Links a decision onto the head of the hash chain.
+   *
+   * @param decision - The decision as appended.
+   * @returns A copy carrying prev_hash and hash.
+   */
+  private chainDecision(decision: Decision): Decision {
+    const prevHash = this.meta.head_hash ?? GENESIS_HASH;
+    const hash = hashDecision(decision, prevHash);
+    this.meta.head_hash = hash;
+    return { ...decision, prev_hash: prevHash, hash };
+  }
+
+  /**
+   * Appends a change to an existing decision to the hash chain.
+   *
+   * @param type - Kind of change.
+   * @param before - The decision before the change.
+   * @param after - The decision (or field values) after the change; only
+   *   mutable fields that differ from `before` are recorded.
+   * @param timestamp - When the change was made.
+   */
+  private recordEvent(
+    type: LedgerEventType,
+    before: Decision,
+    after: DecisionFieldValues,
+    timestamp: string
+  ): void {
+    const from: DecisionFieldValues = {};
+    const to: DecisionFieldValues = {};
+    for (const field of MUTABLE_DECISION_FIELDS) {
+      // eslint-disable-next-line security/detect-object-injection -- safe: field is from MUTABLE_DECISION_FIELDS
+      const previous = before[field];
+      // eslint-disable-next-line security/detect-object-injection -- safe: field is from MUTABLE_DECISION_FIELDS
+      const next = after[field];
+      if (next === undefined || next === previous) {
+        continue;
+      }
+      Object.assign(to, { [field]: next });
+      if (previous !== undefined) {
+        Object.assign(from, { [field]: previous });
+      }
+    }
+
+    const prevHash = this.meta.head_hash ?? GENESIS_HASH;
+    const event = { type, decision_id: before.id, timestamp, from, to };
+    const hash = hashEvent(event, prevHash);
+    this.events.push({ ...event, prev_hash: prevHash, hash });
+    this.meta.head_hash = hash;
+  }
 }
 
 /**
  * Creates a new Ledger instance from existing data.
  *
- * Validates all decisions and reconstructs the ID counters.
+ * Validates all decisions and reconstructs the ID counters. Ledgers written
+ * before the hash chain existed are chained in their current state.
  *
  * @param data - The ledger data to load.
  * @param options - Optional settings (now function for testing).
@@ -1527,6 +1683,7 @@ export function fromData(data: LedgerData, options?: { now?: (() => Date) | unde
   const ledgerOptions: LedgerOptions = {
     project: data.meta.project,
     _meta: data.meta,
+    _events: data.events,
   };
   if (nowFn !== undefined) {
     ledgerOptions.now = nowFn;
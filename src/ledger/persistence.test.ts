@@ -1,4 +1,4 @@
-import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest';
 import { rm } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
@@ -11,6 +11,7 @@ import {
   deserialize,
   saveLedger,
   loadLedger,
+  verifyLedgerFile,
   LedgerSerializationError,
 } from './index.js';
 import type {
@@ -150,7 +151,9 @@ describe('Ledger Persistence', () => {
         ],
       });
 
-      const ledger = deserialize(json);
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const ledger = deserialize(json, { allowUnchained: true });
+      vi.restoreAllMocks();
 
       expect(ledger.size).toBe(1);
       expect(ledger.hasId('architectural_001')).toBe(true);
@@ -424,6 +427,7 @@ describe('Ledger Persistence', () => {
       'composition_audit',
       'mesoscopic_failure',
       'human_resolution',
+      'spec_change',
     ];
 
     const confidenceLevels: ConfidenceLevel[] = [
@@ -835,6 +839,132 @@ describe('Ledger Persistence', () => {
 
         expect(loaded.size).toBe(1);
       });
+
+      it('should reject a ledger edited outside the Ledger API', async () => {
+        const ledger = createTestLedger();
+        ledger.append(createTestInput({ constraint: 'Use PostgreSQL' }));
+        const filePath = join(testDir, 'ledger.json');
+        await saveLedger(ledger, filePath);
+        const content = await safeReadFile(filePath, 'utf-8');
+        await safeWriteFile(filePath, content.replace('Use PostgreSQL', 'Use MySQL'), 'utf-8');
+
+        const error: unknown = await loadLedger(filePath).catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(LedgerSerializationError);
+        expect((error as LedgerSerializationError).errorType).toBe('integrity_error');
+        expect((error as LedgerSerializationError).message).toContain(
+          'Ledger hash chain is broken at entry 0: decision architectural_001 does not match its hash'
+        );
+        const loaded = await loadLedger(filePath, { verifyChain: false });
+        expect(loaded.getById('architectural_001')?.constraint).toBe('Use MySQL');
+      });
+
+      it('should load a ledger written before chaining', async () => {
+        const filePath = join(testDir, 'legacy.json');
+        await safeWriteFile(
+          filePath,
+          JSON.stringify({
+            meta: { version: '1.0.0', created: '2024-01-20T12:00:00.000Z', project: 'test' },
+            decisions: [
+              {
+                id: 'architectural_001',
+                timestamp: '2024-01-20T12:00:00.000Z',
+                category: 'architectural',
+                constraint: 'Use PostgreSQL',
+                source: 'design_choice',
+                confidence: 'canonical',
+                status: 'active',
+                phase: 'design',
+              },
+            ],
+          }),
+          'utf-8'
+        );
+
+        await expect(loadLedger(filePath)).rejects.toThrow('Ledger has no hash chain');
+
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const loaded = await loadLedger(filePath, { allowUnchained: true });
+        vi.restoreAllMocks();
+
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('without a hash chain'));
+        expect(loaded.toData().meta.head_hash).toBe(loaded.getById('architectural_001')?.hash);
+      });
+
+      it('should reject a saved ledger whose hash chain was stripped', async () => {
+        const ledger = createTestLedger();
+        ledger.append(createTestInput({ constraint: 'Use PostgreSQL' }));
+        ledger.invalidate('architectural_001', { forceInvalidateCanonical: true });
+        const filePath = join(testDir, 'ledger.json');
+        await saveLedger(ledger, filePath);
+        const data = JSON.parse(await safeReadFile(filePath, 'utf-8')) as LedgerData;
+        for (const decision of data.decisions) {
+          delete decision.hash;
+          delete decision.prev_hash;
+          decision.constraint = 'Use MySQL';
+          decision.status = 'active';
+        }
+        delete data.events;
+        delete data.meta.head_hash;
+        await safeWriteFile(filePath, JSON.stringify(data), 'utf-8');
+
+        const error: unknown = await loadLedger(filePath).catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(LedgerSerializationError);
+        expect((error as LedgerSerializationError).errorType).toBe('integrity_error');
+        expect((error as LedgerSerializationError).message).toContain('Ledger has no hash chain');
+      });
+    });
+
+    describe('verifyLedgerFile', () => {
+      it('should report an intact chain', async () => {
+        const ledger = createTestLedger();
+        ledger.append(createTestInput());
+        ledger.invalidate('architectural_001', { forceInvalidateCanonical: true });
+        const filePath = join(testDir, 'ledger.json');
+        await saveLedger(ledger, filePath);
+
+        expect(await verifyLedgerFile(filePath)).toEqual({
+          status: 'intact',
+          entries: 2,
+          headHash: ledger.toData().meta.head_hash,
+        });
+      });
+
+      it('should report the first broken link', async () => {
+        const ledger = createTestLedger();
+        ledger.append(createTestInput());
+        ledger.append(createTestInput({ constraint: 'Second' }));
+        const data = ledger.toData();
+        data.decisions.reverse();
+        const filePath = join(testDir, 'ledger.json');
+        await safeWriteFile(filePath, JSON.stringify(data), 'utf-8');
+
+        expect(await verifyLedgerFile(filePath)).toEqual({
+          status: 'broken',
+          firstBreak: {
+            position: 0,
+            entry: 'decision',
+            decisionId: 'architectural_002',
+            reason: 'decision architectural_002 does not link to the previous entry',
+          },
+        });
+      });
+
+      it('should still reject structurally invalid files', async () => {
+        const filePath = join(testDir, 'ledger.json');
+        await safeWriteFile(
+          filePath,
+          JSON.stringify({
+            meta: { version: '1.0.0', created: '2024-01-20T12:00:00.000Z', project: 'test' },
+            decisions: [],
+            events: [{ type: 'invalidated' }],
+          }),
+          'utf-8'
+        );
+
+        await expect(verifyLedgerFile(filePath)).rejects.toThrow(/event 0 is malformed/);
+      });
     });
 
     describe('save/load roundtrip', () => {
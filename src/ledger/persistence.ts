@@ -11,6 +11,7 @@ import { join, dirname } from 'node:path';
 import { randomUUID } from 'node:crypto';
 import type { LedgerData } from './types.js';
 import { Ledger, fromData, LedgerValidationError, DuplicateDecisionIdError } from './ledger.js';
+import { verifyLedgerChain, type LedgerChainVerification } from './chain.js';
 import { safeReadFile, safeWriteFile, safeRename, safeUnlink } from '../utils/safe-fs.js';
 
 /**
@@ -21,7 +22,8 @@ export type SerializationErrorType =
   | 'schema_error'
   | 'file_error'
   | 'validation_error'
-  | 'corruption_error';
+  | 'corruption_error'
+  | 'integrity_error';
 
 /**
  * Error class for ledger serialization/deserialization errors.
@@ -60,6 +62,14 @@ export class LedgerSerializationError extends Error {
 export interface LoadLedgerOptions {
   /** Optional function to get current time (for testing). */
   now?: (() => Date) | undefined;
+  /** Verify the hash chain before loading. Default is true. */
+  verifyChain?: boolean | undefined;
+  /**
+   * Load a ledger that carries no hash chain, with a warning, so it is
+   * chained when next saved. Default is false: a ledger whose hashes were
+   * stripped would otherwise be re-chained as if never edited.
+   */
+  allowUnchained?: boolean | undefined;
 }
 
 /**
@@ -103,12 +113,17 @@ export function serialize(ledger: Ledger, options?: SaveLedgerOptions): string {
 /**
  * Deserializes a JSON string to a Ledger instance.
  *
- * Validates the JSON structure and all decisions against the schema.
+ * Validates the JSON structure and all decisions against the schema, and
+ * unless `verifyChain` is false, the hash chain. Ledgers written before the
+ * chain existed carry no hashes; they are rejected unless `allowUnchained`
+ * is set, in which case they load unverified and are chained in their
+ * current state when next saved.
  *
  * @param json - JSON string to parse.
  * @param options - Deserialization options.
  * @returns A new Ledger instance populated with the data.
- * @throws LedgerSerializationError if the JSON is invalid or malformed.
+ * @throws LedgerSerializationError if the JSON is invalid or malformed, or
+ *   the hash chain is broken.
  * @throws LedgerValidationError if any decision fails validation.
  * @throws DuplicateDecisionIdError if duplicate IDs are found.
  *
@@ -209,10 +224,33 @@ export function deserialize(json: string, options?: LoadLedgerOptions): Ledger {
     );
   }
 
+  // Validate events, when present
+  if ('events' in obj) {
+    if (!Array.isArray(obj.events)) {
+      throw new LedgerSerializationError(
+        'Invalid ledger format: "events" must be an array',
+        'schema_error',
+        { details: `events is ${typeof obj.events}` }
+      );
+    }
+    const index = obj.events.findIndex((event: unknown) => !isLedgerEventShape(event));
+    if (index !== -1) {
+      throw new LedgerSerializationError(
+        `Invalid ledger format: event ${String(index)} is malformed`,
+        'schema_error',
+        {
+          details:
+            'Events must have string type, decision_id, timestamp, prev_hash and hash, and object from and to',
+        }
+      );
+    }
+  }
+
   // At this point, the basic structure is valid
   // Let fromData handle the detailed validation of each decision
+  let ledger: Ledger;
   try {
-    return fromData(obj as unknown as LedgerData, options);
+    ledger = fromData(obj as unknown as LedgerData, options);
   } catch (error) {
     // Re-throw known validation errors
     if (error instanceof LedgerValidationError) {
@@ -231,6 +269,52 @@ export function deserialize(json: string, options?: LoadLedgerOptions): Ledger {
     }
     throw error;
   }
+
+  if (options?.verifyChain !== false) {
+    const verification = verifyLedgerChain(obj as unknown as LedgerData);
+    if (verification.status === 'broken') {
+      const { position, reason } = verification.firstBreak;
+      throw new LedgerSerializationError(
+        `Ledger hash chain is broken at entry ${String(position)}: ${reason}`,
+        'integrity_error',
+        { details: 'The ledger was modified outside the Ledger API' }
+      );
+    }
+    if (verification.status === 'unchained') {
+      if (options?.allowUnchained !== true) {
+        throw new LedgerSerializationError(
+          "Ledger has no hash chain; run 'crit ledger verify --migrate' to chain a ledger you trust",
+          'integrity_error',
+          { details: 'The ledger was written before chaining or its hashes were removed' }
+        );
+      }
+      console.warn(
+        `Warning: Loading a ledger without a hash chain (${String(verification.entries)} decisions); it is chained in its current state when next saved.`
+      );
+    }
+  }
+
+  return ledger;
+}
+
+/**
+ * Checks the shape of a stored event; verifyLedgerChain checks its content.
+ */
+function isLedgerEventShape(value: unknown): boolean {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const event = value as Record<string, unknown>;
+  return (
+    ['type', 'decision_id', 'timestamp', 'prev_hash', 'hash'].every(
+      // eslint-disable-next-line security/detect-object-injection -- safe: field is a fixed literal
+      (field) => typeof event[field] === 'string'
+    ) &&
+    typeof event.from === 'object' &&
+    event.from !== null &&
+    typeof event.to === 'object' &&
+    event.to !== null
+  );
 }
 
 /**
@@ -284,7 +368,8 @@ export async function saveLedger(
 /**
  * Loads a ledger from a JSON file.
  *
- * Reads the file, parses the JSON, validates the structure and all decisions.
+ * Reads the file, parses the JSON, validates the structure and all decisions,
+ * and verifies the hash chain unless `verifyChain` is false.
  *
  * @param filePath - Path to the ledger JSON file.
  * @param options - Load options.
@@ -298,6 +383,41 @@ export async function saveLedger(
  * ```
  */
 export async function loadLedger(filePath: string, options?: LoadLedgerOptions): Promise<Ledger> {
+  const content = await readLedgerFile(filePath);
+
+  // Deserialize with validation
+  return withFileContext(filePath, () => deserialize(content, options));
+}
+
+/**
+ * Verifies the hash chain of a ledger file without loading it.
+ *
+ * The file must otherwise be a valid ledger; structural problems are
+ * thrown as they are by {@link loadLedger}.
+ *
+ * @param filePath - Path to the ledger JSON file.
+ * @returns The verification result, with the first broken link if any.
+ * @throws LedgerSerializationError if the file cannot be read or contains invalid data.
+ *
+ * @example
+ * ```typescript
+ * const result = await verifyLedgerFile('/path/to/ledger.json');
+ * console.log(result.status); // 'intact', 'unchained' or 'broken'
+ * ```
+ */
+export async function verifyLedgerFile(filePath: string): Promise<LedgerChainVerification> {
+  const content = await readLedgerFile(filePath);
+
+  return withFileContext(filePath, () => {
+    deserialize(content, { verifyChain: false });
+    return verifyLedgerChain(JSON.parse(content) as LedgerData);
+  });
+}
+
+/**
+ * Reads a ledger file, rejecting missing and empty files.
+ */
+async function readLedgerFile(filePath: string): Promise<string> {
   let content: string;
 
   try {
@@ -330,9 +450,15 @@ export async function loadLedger(filePath: string, options?: LoadLedgerOptions):
     });
   }
 
-  // Deserialize with validation
+  return content;
+}
+
+/**
+ * Runs a deserialization step, adding the file path to its errors.
+ */
+function withFileContext<T>(filePath: string, step: () => T): T {
   try {
-    return deserialize(content, options);
+    return step();
   } catch (error) {
     // Re-wrap errors with file path context
     if (error instanceof LedgerSerializationError) {
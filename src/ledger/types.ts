@@ -38,7 +38,8 @@ export type DecisionSource =
   | 'auditor_contradiction'
   | 'composition_audit'
   | 'mesoscopic_failure'
-  | 'human_resolution';
+  | 'human_resolution'
+  | 'spec_change';
 
 /**
  * Confidence level determining override rules.
@@ -68,6 +69,19 @@ export type DecisionPhase =
   | 'mesoscopic'
   | 'mass_defect';
 
+/**
+ * A source file move, as project-relative POSIX paths.
+ *
+ * Moves keep function identities stable: a function keeps the module path
+ * it was first identified under (see `FunctionId`).
+ */
+export interface FileMove {
+  /** Module path before the move. */
+  from: string;
+  /** Module path after the move. */
+  to: string;
+}
+
 /**
  * A decision entry in the ledger.
  */
@@ -102,6 +116,52 @@ export interface Decision {
   contradiction_resolved?: string;
   /** For human resolutions: the query that prompted this. */
   human_query_id?: string;
+  /** For file moves: the module path before and after the move. */
+  file_move?: FileMove;
+  /** Hash of the previous chain entry (decision or event). */
+  prev_hash?: string;
+  /** Hash of the decision as appended, covering prev_hash. */
+  hash?: string;
+}
+
+/**
+ * Decision fields that can change after the decision is appended.
+ */
+export type MutableDecisionField =
+  | 'status'
+  | 'superseded_by'
+  | 'confidence'
+  | 'failure_context'
+  | 'contradiction_resolved';
+
+/**
+ * Values of the mutable decision fields at one point in time.
+ */
+export type DecisionFieldValues = Partial<Pick<Decision, MutableDecisionField>>;
+
+/**
+ * Kind of change recorded by a ledger event.
+ */
+export type LedgerEventType = 'superseded' | 'invalidated' | 'downgraded' | 'reinstated';
+
+/**
+ * A change to an existing decision, appended to the hash chain.
+ */
+export interface LedgerEvent {
+  /** Kind of change. */
+  type: LedgerEventType;
+  /** ID of the decision that changed. */
+  decision_id: string;
+  /** When the change was made (ISO 8601). */
+  timestamp: string;
+  /** Values before the change, for the fields in `to`; unset fields are omitted. */
+  from: DecisionFieldValues;
+  /** Values after the change. */
+  to: DecisionFieldValues;
+  /** Hash of the previous chain entry. */
+  prev_hash: string;
+  /** Hash of this event, covering prev_hash. */
+  hash: string;
 }
 
 /**
@@ -128,6 +188,8 @@ export interface LedgerMeta {
   project: string;
   /** Last modification timestamp (ISO 8601). */
   last_modified?: string;
+  /** Hash of the last chain entry. Absent for ledgers written before chaining. */
+  head_hash?: string;
 }
 
 /**
@@ -138,6 +200,8 @@ export interface LedgerData {
   meta: LedgerMeta;
   /** Ordered list of decisions (append-only). */
   decisions: Decision[];
+  /** Ordered list of changes to existing decisions (append-only). */
+  events?: LedgerEvent[];
 }
 
 /**
@@ -167,6 +231,8 @@ export interface DecisionInput {
   contradiction_resolved?: string;
   /** For human resolutions: the query that prompted this. */
   human_query_id?: string;
+  /** For file moves: the module path before and after the move. */
+  file_move?: FileMove;
 }
 
 /**
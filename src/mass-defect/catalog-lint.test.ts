@@ -0,0 +1,202 @@
+/**
+ * Tests for the catalog linter.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getPatternExamples, lintCatalog } from './catalog-lint.js';
+import { BUILTIN_CATALOG_DIR, loadCatalog } from './catalog-parser.js';
+
+const OPTIONS = { numRuns: 25, seed: 42 };
+
+/**
+ * Builds a pattern definition with the given examples.
+ */
+function patternToml(id: string, examples: Array<{ before: string; after: string }>): string {
+  const tables = examples
+    .map((e) => `[[examples]]\nbefore = '''\n${e.before}'''\nafter = '''\n${e.after}'''\n`)
+    .join('\n');
+  return `
+[pattern]
+id = "${id}"
+name = "Pattern ${id}"
+description = "Test pattern"
+risk = 1
+risk_rationale = "Local"
+
+[verification]
+required = ["compile"]
+
+[prompt]
+template = "Transform it"
+
+${tables}`;
+}
+
+describe('lintCatalog', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'catalog-lint-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  async function writeLayer(files: Record<string, string>): Promise<string> {
+    for (const [file, content] of Object.entries(files)) {
+      await mkdir(join(root, file, '..'), { recursive: true });
+      await writeFile(join(root, file), content);
+    }
+    return root;
+  }
+
+  it('passes the built-in catalog self-tests', async () => {
+    const diagnostics = await lintCatalog([BUILTIN_CATALOG_DIR], OPTIONS);
+
+    expect(diagnostics.filter((d) => d.severity === 'error')).toEqual([]);
+  });
+
+  it('reports parse errors with their file', async () => {
+    const dir = await writeLayer({ 'patterns/bad.toml': '[pattern]\nid = "bad"\n' });
+
+    const diagnostics = await lintCatalog([dir], OPTIONS);
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ severity: 'error', filePath: join(dir, 'patterns/bad.toml') }),
+    ]);
+  });
+
+  it('reports ESLint rules that ESLint does not accept', async () => {
+    const dir = await writeLayer({
+      'smells/custom.toml': `
+[smell]
+id = "custom"
+name = "Custom"
+category = "control-flow"
+description = "Custom smell"
+
+[detection]
+tools = [
+  { name = "eslint", rule = "no-nested-ternary" },
+  { name = "eslint", rule = "no-such-rule" },
+  { name = "eslint", rule = "max-depth", options = [{ depth = 2 }] },
+]
+
+[detection.heuristics]
+patterns = []
+`,
+    });
+
+    const diagnostics = await lintCatalog([dir], OPTIONS);
+
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      expect.stringContaining('Invalid ESLint rule "no-such-rule": Key "rules"'),
+      expect.stringContaining('Invalid ESLint rule "max-depth": Key "rules"'),
+    ]);
+  });
+
+  it('warns about references to unknown IDs across layers', async () => {
+    const dir = await writeLayer({
+      'catalog.toml': '[disable]\npatterns = ["inline-single-use", "no-such-pattern"]\n',
+      'smells/custom.toml': `
+[smell]
+id = "custom"
+name = "Custom"
+category = "control-flow"
+description = "Custom smell"
+
+[detection]
+tools = []
+
+[detection.heuristics]
+patterns = []
+
+[[applicable_patterns]]
+pattern = "early-return"
+risk = 1
+rationale = "Defined by the built-in layer"
+
+[[applicable_patterns]]
+pattern = "inline-single-use"
+risk = 1
+rationale = "Disabled above"
+`,
+    });
+
+    const diagnostics = await lintCatalog([BUILTIN_CATALOG_DIR, dir], OPTIONS);
+    const projectDiagnostics = diagnostics.filter((d) => d.filePath.startsWith(dir));
+
+    expect(projectDiagnostics).toEqual([
+      {
+        severity: 'warning',
+        filePath: join(dir, 'catalog.toml'),
+        message: 'Disables unknown pattern "no-such-pattern"',
+      },
+      {
+        severity: 'warning',
+        filePath: join(dir, 'smells/custom.toml'),
+        message: 'Refers to unknown pattern "inline-single-use"',
+      },
+    ]);
+  });
+
+  it('fails examples that do not parse or add complexity', async () => {
+    const dir = await writeLayer({
+      'patterns/broken.toml': patternToml('broken', [
+        { before: 'function f(a: number) { return a; }\n', after: 'function f(a: number) {\n' },
+        {
+          before: 'function f(a: number): number { return a; }\n',
+          after: 'function f(a: number): number { if (a > 0) { return a; } return a; }\n',
+        },
+      ]),
+    });
+
+    const diagnostics = await lintCatalog([dir], OPTIONS);
+
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      expect.stringMatching(/^Example "1" of pattern "broken" does not parse \(after: /),
+      'Example "2" of pattern "broken" increases cyclomatic complexity from 1 to 2',
+      'Example "2" of pattern "broken" increases nesting depth from 0 to 1',
+    ]);
+  });
+
+  it('fails examples that change behavior', async () => {
+    const dir = await writeLayer({
+      'patterns/halve.toml': patternToml('halve', [
+        {
+          before: 'function half(n: number): number { return n / 2; }\n',
+          after: 'function half(n: number): number { return n * 0.5 + 1; }\n',
+        },
+      ]),
+    });
+
+    const diagnostics = await lintCatalog([dir], OPTIONS);
+
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      expect.stringMatching(
+        /^Example "1" of pattern "halve" changes behavior on half\(.+\): before returned .+, after returned .+$/
+      ),
+    ]);
+  });
+});
+
+describe('getPatternExamples', () => {
+  it('falls back to the TypeScript examples in the prompt', async () => {
+    const catalog = await loadCatalog(BUILTIN_CATALOG_DIR);
+    const pattern = catalog.getPattern('guard-clause');
+    if (pattern === null) {
+      throw new Error('guard-clause pattern missing');
+    }
+
+    const [example] = getPatternExamples(pattern);
+
+    expect(example?.before).toMatch(/^function processPayment\(order: Order\)/);
+    expect(example?.after).toContain(
+      "if (order === null) {\n        return { success: false, error: 'Invalid order' };"
+    );
+  });
+});
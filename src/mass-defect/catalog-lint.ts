@@ -0,0 +1,232 @@
+/**
+ * Catalog linter for the Mass Defect transformation catalog.
+ *
+ * Validates every layer's TOML with the catalog parser, checks that ESLint
+ * accepts each detection rule and its options, and runs each pattern's
+ * before/after examples as self-tests: both sides must parse, the rewrite
+ * must not add complexity or nesting, and (where the example is
+ * self-contained) it must behave the same on generated inputs.
+ *
+ * @packageDocumentation
+ */
+
+import { join } from 'node:path';
+import * as ts from 'typescript';
+import {
+  CATALOG_MANIFEST_FILE,
+  readCatalogLayer,
+  mergeCatalogLayers,
+  type CatalogLayer,
+} from './catalog-parser.js';
+import {
+  analyzeComplexity,
+  createSourceFileFromString,
+  validateEslintRule,
+} from './complexity-analyzer.js';
+import { verifyDifferential } from './differential-verifier.js';
+import type { PatternDefinition, PatternExample } from './types.js';
+
+/**
+ * A problem found by {@link lintCatalog}.
+ */
+export interface CatalogLintDiagnostic {
+  /** Errors make the catalog unusable or a self-test fail; warnings are advisory. */
+  severity: 'error' | 'warning';
+  /** The file the problem is in. */
+  filePath: string;
+  /** Description of the problem. */
+  message: string;
+}
+
+/**
+ * Options for {@link lintCatalog}.
+ */
+export interface CatalogLintOptions {
+  /** Generated inputs per example for the behavior check (default 25). */
+  numRuns?: number;
+  /** Seed for the behavior check, for reproducible runs. */
+  seed?: number;
+}
+
+const DEFAULT_EXAMPLE_RUNS = 25;
+
+/**
+ * Lints catalog layers, lowest precedence first.
+ *
+ * References and disables are resolved against the merged catalog, so a
+ * project layer may refer to patterns defined by the built-in layer.
+ *
+ * @param dirs - Layer directories (see {@link resolveCatalogLayers}).
+ * @param options - Self-test options.
+ * @returns Diagnostics in layer and file order.
+ */
+export async function lintCatalog(
+  dirs: readonly string[],
+  options: CatalogLintOptions = {}
+): Promise<CatalogLintDiagnostic[]> {
+  const layers: CatalogLayer[] = [];
+  for (const dir of dirs) {
+    layers.push(await readCatalogLayer(dir));
+  }
+
+  const diagnostics: CatalogLintDiagnostic[] = layers.flatMap((layer) =>
+    layer.errors.map((error) => ({
+      severity: 'error' as const,
+      filePath: error.filePath,
+      message: error.field !== undefined ? `${error.field}: ${error.message}` : error.message,
+    }))
+  );
+
+  const knownSmells = new Set(layers.flatMap((layer) => layer.smells.map((s) => s.definition.id)));
+  const knownPatterns = new Set(
+    layers.flatMap((layer) => layer.patterns.map((p) => p.definition.id))
+  );
+  const merged = mergeCatalogLayers(layers);
+
+  for (const layer of layers) {
+    const manifestPath = join(layer.dir, CATALOG_MANIFEST_FILE);
+    for (const id of layer.manifest.disabledSmells.filter((id) => !knownSmells.has(id))) {
+      diagnostics.push(warning(manifestPath, `Disables unknown smell "${id}"`));
+    }
+    for (const id of layer.manifest.disabledPatterns.filter((id) => !knownPatterns.has(id))) {
+      diagnostics.push(warning(manifestPath, `Disables unknown pattern "${id}"`));
+    }
+
+    for (const { path, definition } of layer.smells) {
+      for (const tool of definition.detection.tools) {
+        if (tool.name !== 'eslint') {
+          continue;
+        }
+        const ruleError = await validateEslintRule(tool.rule, tool.options);
+        if (ruleError !== undefined) {
+          diagnostics.push(
+            error(path, `Invalid ESLint rule "${tool.rule}": ${ruleError.replace(/\s+/g, ' ')}`)
+          );
+        }
+      }
+      for (const ref of definition.applicablePatterns) {
+        if (merged.getPattern(ref.patternId) === null) {
+          diagnostics.push(warning(path, `Refers to unknown pattern "${ref.patternId}"`));
+        }
+      }
+    }
+
+    for (const { path, definition } of layer.patterns) {
+      for (const id of definition.enables) {
+        if (merged.getPattern(id) === null) {
+          diagnostics.push(warning(path, `Enables unknown pattern "${id}"`));
+        }
+      }
+      for (const message of await selfTestPattern(definition, options)) {
+        diagnostics.push(error(path, message));
+      }
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Returns a pattern's examples: the explicit `[[examples]]`, or else the
+ * TypeScript BEFORE/AFTER code blocks in its prompt.
+ *
+ * @param pattern - The pattern definition.
+ * @returns The examples to self-test (empty when the pattern has none).
+ */
+export function getPatternExamples(pattern: PatternDefinition): PatternExample[] {
+  if (pattern.examples !== undefined) {
+    return pattern.examples;
+  }
+
+  const before = extractCodeBlock(pattern.prompt.template, 'BEFORE');
+  const after = extractCodeBlock(pattern.prompt.template, 'AFTER');
+  if (before === undefined || after === undefined) {
+    return [];
+  }
+  return [{ name: 'prompt example', before, after }];
+}
+
+/**
+ * Runs a pattern's examples, returning a message per failure.
+ */
+async function selfTestPattern(
+  pattern: PatternDefinition,
+  options: CatalogLintOptions
+): Promise<string[]> {
+  const failures: string[] = [];
+
+  for (const [index, example] of getPatternExamples(pattern).entries()) {
+    const label = `Example "${example.name ?? String(index + 1)}" of pattern "${pattern.id}"`;
+
+    const syntaxErrors = [
+      ...getSyntaxErrors(example.before).map((message) => `before: ${message}`),
+      ...getSyntaxErrors(example.after).map((message) => `after: ${message}`),
+    ];
+    if (syntaxErrors.length > 0) {
+      failures.push(`${label} does not parse (${syntaxErrors.join('; ')})`);
+      continue;
+    }
+
+    const before = analyzeComplexity(createSourceFileFromString(example.before));
+    const after = analyzeComplexity(createSourceFileFromString(example.after));
+    if (after.cyclomaticComplexity > before.cyclomaticComplexity) {
+      failures.push(
+        `${label} increases cyclomatic complexity from ${String(before.cyclomaticComplexity)} to ${String(after.cyclomaticComplexity)}`
+      );
+    }
+    if (after.nestingDepth > before.nestingDepth) {
+      failures.push(
+        `${label} increases nesting depth from ${String(before.nestingDepth)} to ${String(after.nestingDepth)}`
+      );
+    }
+
+    const functionName = createSourceFileFromString(example.before)
+      .getFunctions()
+      .map((func) => func.getName())
+      .find((name) => name !== undefined && example.after.includes(`function ${name}`));
+    if (functionName === undefined) {
+      continue;
+    }
+    const result = await verifyDifferential(example.before, example.after, functionName, {
+      numRuns: options.numRuns ?? DEFAULT_EXAMPLE_RUNS,
+      ...(options.seed !== undefined ? { seed: options.seed } : {}),
+    });
+    if (result.status === 'different' && result.counterexample) {
+      const { inputs, original, transformed } = result.counterexample;
+      failures.push(
+        `${label} changes behavior on ${functionName}(${inputs.join(', ')}): before ${original}, after ${transformed}`
+      );
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Extracts the TypeScript code block following a `BEFORE (TypeScript):`
+ * or `AFTER (TypeScript):` heading.
+ */
+function extractCodeBlock(template: string, heading: 'BEFORE' | 'AFTER'): string | undefined {
+  const match = new RegExp(
+    `${heading} \\(TypeScript\\):\\s*\`\`\`typescript\\n([\\s\\S]*?)\`\`\``
+  ).exec(template);
+  return match?.[1];
+}
+
+/**
+ * Returns the syntax errors in a TypeScript snippet.
+ */
+function getSyntaxErrors(code: string): string[] {
+  const output = ts.transpileModule(code, { reportDiagnostics: true });
+  return (output.diagnostics ?? []).map((diagnostic) =>
+    ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+  );
+}
+
+function error(filePath: string, message: string): CatalogLintDiagnostic {
+  return { severity: 'error', filePath, message };
+}
+
+function warning(filePath: string, message: string): CatalogLintDiagnostic {
+  return { severity: 'warning', filePath, message };
+}
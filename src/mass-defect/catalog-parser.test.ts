@@ -2,12 +2,20 @@
  * Tests for TOML catalog parser.
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import {
   parseSmellDefinition,
   parsePatternDefinition,
+  parseCatalogManifest,
   loadCatalog,
+  loadCatalogLayers,
+  readCatalogLayer,
+  resolveCatalogLayers,
   isCatalogError,
+  BUILTIN_CATALOG_DIR,
   type CatalogParseError,
 } from './catalog-parser.js';
 import type { SmellDefinition, PatternDefinition } from './types.js';
@@ -446,3 +454,229 @@ describe('loadCatalog', () => {
     ).toHaveLength(0);
   });
 });
+
+/**
+ * Builds a smell definition with the given detection tools.
+ */
+function smellToml(id: string, tools = '{ name = "eslint", rule = "max-depth" }'): string {
+  return `
+[smell]
+id = "${id}"
+name = "Smell ${id}"
+category = "control-flow"
+description = "Test smell"
+
+[detection]
+tools = [${tools}]
+
+[detection.heuristics]
+patterns = []
+`;
+}
+
+/**
+ * Builds a pattern definition with the given description.
+ */
+function patternToml(id: string, description = 'Test pattern', extra = ''): string {
+  return `
+[pattern]
+id = "${id}"
+name = "Pattern ${id}"
+description = "${description}"
+risk = 1
+risk_rationale = "Local"
+
+[verification]
+required = ["compile"]
+
+[prompt]
+template = "Transform it"
+${extra}
+`;
+}
+
+describe('custom detection rules', () => {
+  it('parses ESLint rule options', () => {
+    const result = parseSmellDefinition(
+      smellToml(
+        'nested-ternary',
+        '{ name = "eslint", rule = "max-depth", options = [{ max = 2 }] }'
+      )
+    );
+
+    expect(isCatalogError(result)).toBe(false);
+    expect((result as SmellDefinition).detection.tools[0]?.options).toEqual([{ max: 2 }]);
+  });
+
+  it('accepts ts-morph syntax selectors', () => {
+    const result = parseSmellDefinition(
+      smellToml(
+        'nested-ternary',
+        '{ name = "ts-morph", rule = "ConditionalExpression > ConditionalExpression" }'
+      )
+    );
+
+    expect(isCatalogError(result)).toBe(false);
+  });
+
+  it('rejects invalid ts-morph selectors', () => {
+    const result = parseSmellDefinition(
+      smellToml('nested-ternary', '{ name = "ts-morph", rule = "Conditional" }')
+    );
+
+    expect(isCatalogError(result)).toBe(true);
+    expect((result as CatalogParseError).message).toContain('Unknown syntax kind "Conditional"');
+  });
+
+  it('rejects options that are not an array', () => {
+    const result = parseSmellDefinition(
+      smellToml('nested-ternary', '{ name = "eslint", rule = "max-depth", options = 2 }')
+    );
+
+    expect(isCatalogError(result)).toBe(true);
+    expect((result as CatalogParseError).field).toBe('detection.tools[0].options');
+  });
+});
+
+describe('pattern examples', () => {
+  it('parses [[examples]] tables', () => {
+    const result = parsePatternDefinition(
+      patternToml(
+        'flatten',
+        'Test pattern',
+        `
+[[examples]]
+name = "single branch"
+before = "function f(a: boolean): number { if (a) { return 1; } else { return 2; } }"
+after = "function f(a: boolean): number { if (a) return 1; return 2; }"
+`
+      )
+    );
+
+    expect(isCatalogError(result)).toBe(false);
+    expect((result as PatternDefinition).examples).toEqual([
+      {
+        name: 'single branch',
+        before: 'function f(a: boolean): number { if (a) { return 1; } else { return 2; } }',
+        after: 'function f(a: boolean): number { if (a) return 1; return 2; }',
+      },
+    ]);
+  });
+
+  it('requires before and after code', () => {
+    const result = parsePatternDefinition(
+      patternToml('flatten', 'Test pattern', '[[examples]]\nbefore = "function f() {}"\n')
+    );
+
+    expect(isCatalogError(result)).toBe(true);
+    expect((result as CatalogParseError).field).toBe('examples[0]');
+  });
+});
+
+describe('parseCatalogManifest', () => {
+  it('parses disabled smells and patterns', () => {
+    const result = parseCatalogManifest(
+      '[disable]\nsmells = ["deep-nesting"]\npatterns = ["inline-single-use"]\n'
+    );
+
+    expect(result).toEqual({
+      disabledSmells: ['deep-nesting'],
+      disabledPatterns: ['inline-single-use'],
+    });
+  });
+
+  it('treats a manifest without [disable] as disabling nothing', () => {
+    expect(parseCatalogManifest('')).toEqual({ disabledSmells: [], disabledPatterns: [] });
+  });
+
+  it('rejects IDs that are not strings', () => {
+    const result = parseCatalogManifest('[disable]\npatterns = [1]\n');
+
+    expect(isCatalogError(result)).toBe(true);
+    expect((result as CatalogParseError).field).toBe('disable.patterns');
+  });
+});
+
+describe('layered catalogs', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'catalog-layers-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  async function writeLayer(name: string, files: Record<string, string>): Promise<string> {
+    const dir = join(root, name);
+    for (const [file, content] of Object.entries(files)) {
+      await mkdir(join(dir, file, '..'), { recursive: true });
+      await writeFile(join(dir, file), content);
+    }
+    return dir;
+  }
+
+  it('lists built-in, org and project layers without repeats', () => {
+    expect(resolveCatalogLayers('/p/catalog', '/org/catalog')).toEqual([
+      BUILTIN_CATALOG_DIR,
+      '/org/catalog',
+      '/p/catalog',
+    ]);
+    expect(resolveCatalogLayers(BUILTIN_CATALOG_DIR, '/org/catalog')).toEqual([
+      BUILTIN_CATALOG_DIR,
+      '/org/catalog',
+    ]);
+  });
+
+  it('lets later layers override, disable and add entries by ID', async () => {
+    const org = await writeLayer('org', {
+      'smells/a.toml': smellToml('deep-nesting'),
+      'patterns/a.toml': patternToml('early-return', 'Org version'),
+      'patterns/b.toml': patternToml('inline-single-use'),
+    });
+    const project = await writeLayer('project', {
+      'catalog.toml': '[disable]\nsmells = ["deep-nesting"]\npatterns = ["inline-single-use"]\n',
+      'patterns/a.toml': patternToml('early-return', 'Project version'),
+      'smells/custom.toml': smellToml(
+        'nested-ternary',
+        '{ name = "ts-morph", rule = "ConditionalExpression ConditionalExpression" }'
+      ),
+    });
+
+    const catalog = await loadCatalogLayers([org, project]);
+
+    expect(catalog.getPattern('early-return')?.description).toBe('Project version');
+    expect(catalog.getPattern('inline-single-use')).toBeNull();
+    expect(catalog.getSmell('deep-nesting')).toBeNull();
+    expect(catalog.getSmell('nested-ternary')).not.toBeNull();
+  });
+
+  it('lets a layer re-add an entry a lower layer disabled', async () => {
+    const org = await writeLayer('org', {
+      'catalog.toml': '[disable]\npatterns = ["early-return"]\n',
+    });
+    const project = await writeLayer('project', {
+      'patterns/a.toml': patternToml('early-return', 'Project version'),
+    });
+
+    const catalog = await loadCatalogLayers([BUILTIN_CATALOG_DIR, org, project]);
+
+    expect(catalog.getPattern('early-return')?.description).toBe('Project version');
+  });
+
+  it('reports duplicate IDs within a layer', async () => {
+    const dir = await writeLayer('project', {
+      'patterns/a.toml': patternToml('early-return'),
+      'patterns/b.toml': patternToml('early-return'),
+    });
+
+    const layer = await readCatalogLayer(dir);
+
+    expect(layer.patterns).toHaveLength(1);
+    expect(layer.errors).toEqual([
+      expect.objectContaining({ message: 'Duplicate pattern id "early-return"' }),
+    ]);
+    await expect(loadCatalogLayers([dir])).rejects.toThrow('Duplicate pattern id "early-return"');
+  });
+});
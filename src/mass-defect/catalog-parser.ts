@@ -1,26 +1,53 @@
 /**
  * TOML catalog parser for Mass Defect phase.
  *
- * Parses smell and pattern definitions from TOML files with validation.
+ * Parses smell and pattern definitions from TOML files with validation,
+ * and loads layered catalogs: the built-in catalog, then an org-wide
+ * catalog, then the project's own. Each layer can add smells and patterns,
+ * override lower-layer entries by ID, and disable them in `catalog.toml`.
  *
  * @packageDocumentation
  */
 
 import * as toml from '@iarna/toml';
 import { readdir, readFile } from 'node:fs/promises';
-import { join } from 'node:path';
+import { homedir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
 import type {
   PatternReference,
   DetectionCriteria,
   ToolRule,
   SmellDefinition,
   PatternDefinition,
+  PatternExample,
   VerificationScope,
   PromptTemplate,
   SmellCategory,
   RiskLevel,
+  CatalogManifest,
 } from './types.js';
 import { TransformationCatalog } from './catalog.js';
+import { parseSyntaxSelector } from './syntax-query.js';
+
+/**
+ * Directory of the catalog shipped with Criticality.
+ *
+ * Resolved from this module so it works from both `src/` and `dist/`.
+ */
+export const BUILTIN_CATALOG_DIR = join(
+  dirname(fileURLToPath(import.meta.url)),
+  '..',
+  '..',
+  'src',
+  'mass-defect',
+  'catalog'
+);
+
+/**
+ * Name of the per-layer settings file.
+ */
+export const CATALOG_MANIFEST_FILE = 'catalog.toml';
 
 /**
  * Error type for catalog parsing failures.
@@ -198,6 +225,7 @@ export function parseSmellDefinition(tomlStr: string): ParseResult<SmellDefiniti
     const toolObj: Record<string, unknown> = tool;
     const name = toolObj.name;
     const rule = toolObj.rule;
+    const options = toolObj.options;
     if (typeof name !== 'string') {
       return createError(
         'validation_error',
@@ -214,7 +242,30 @@ export function parseSmellDefinition(tomlStr: string): ParseResult<SmellDefiniti
         `detection.tools[${String(i)}].rule`
       );
     }
-    detectionCriteria.tools.push({ name, rule } as ToolRule);
+    if (options !== undefined && !Array.isArray(options)) {
+      return createError(
+        'validation_error',
+        `"options" in tool at index ${String(i)} must be an array`,
+        '<string>',
+        `detection.tools[${String(i)}].options`
+      );
+    }
+    if (name === 'ts-morph') {
+      const selector = parseSyntaxSelector(rule);
+      if (typeof selector === 'string') {
+        return createError(
+          'validation_error',
+          `Invalid ts-morph selector in tool at index ${String(i)}: ${selector}`,
+          '<string>',
+          `detection.tools[${String(i)}].rule`
+        );
+      }
+    }
+    const toolRule: ToolRule = { name, rule };
+    if (options !== undefined) {
+      toolRule.options = options as unknown[];
+    }
+    detectionCriteria.tools.push(toolRule);
   }
 
   const heuristicsSection = detection.heuristics;
@@ -438,7 +489,39 @@ export function parsePatternDefinition(tomlStr: string): ParseResult<PatternDefi
 
   const promptTemplate: PromptTemplate = { template };
 
-  return {
+  const examplesSection = root.examples;
+  const examples: PatternExample[] = [];
+  if (examplesSection !== undefined) {
+    if (!Array.isArray(examplesSection)) {
+      return createError(
+        'validation_error',
+        'Invalid "examples" field. Must be an array of [[examples]] tables',
+        '<string>',
+        'examples'
+      );
+    }
+    for (let i = 0; i < examplesSection.length; i++) {
+      const example = examplesSection[i] as Record<string, unknown> | null;
+      const before = example?.before;
+      const after = example?.after;
+      if (typeof before !== 'string' || typeof after !== 'string') {
+        return createError(
+          'validation_error',
+          `Example at index ${String(i)} needs "before" and "after" strings`,
+          '<string>',
+          `examples[${String(i)}]`
+        );
+      }
+      const exampleName = example?.name;
+      examples.push({
+        before,
+        after,
+        ...(typeof exampleName === 'string' ? { name: exampleName } : {}),
+      });
+    }
+  }
+
+  const definition: PatternDefinition = {
     id,
     name,
     description,
@@ -449,6 +532,61 @@ export function parsePatternDefinition(tomlStr: string): ParseResult<PatternDefi
     enables,
     prompt: promptTemplate,
   };
+  if (examples.length > 0) {
+    definition.examples = examples;
+  }
+  return definition;
+}
+
+/**
+ * Parses a layer's `catalog.toml`.
+ *
+ * @example
+ * [disable]
+ * patterns = ["loop-to-map"]
+ * smells = ["over-documentation"]
+ *
+ * @param tomlStr - The TOML string to parse.
+ * @returns Either a CatalogManifest or a CatalogParseError.
+ */
+export function parseCatalogManifest(tomlStr: string): ParseResult<CatalogManifest> {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = toml.parse(tomlStr) as Record<string, unknown>;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return createError('parse_error', `Failed to parse TOML: ${message}`, '<string>');
+  }
+
+  const manifest: CatalogManifest = { disabledSmells: [], disabledPatterns: [] };
+  const disable = parsed.disable;
+  if (disable === undefined) {
+    return manifest;
+  }
+  if (typeof disable !== 'object' || disable === null || Array.isArray(disable)) {
+    return createError('validation_error', 'Invalid [disable] section', '<string>', 'disable');
+  }
+
+  for (const key of ['smells', 'patterns'] as const) {
+    const ids = (disable as Record<string, unknown>)[key];
+    if (ids === undefined) {
+      continue;
+    }
+    if (!Array.isArray(ids) || !ids.every((id): id is string => typeof id === 'string')) {
+      return createError(
+        'validation_error',
+        `"${key}" in [disable] must be an array of IDs`,
+        '<string>',
+        `disable.${key}`
+      );
+    }
+    if (key === 'smells') {
+      manifest.disabledSmells = ids;
+    } else {
+      manifest.disabledPatterns = ids;
+    }
+  }
+  return manifest;
 }
 
 /**
@@ -472,63 +610,179 @@ function parseVerificationScope(required: unknown[]): VerificationScope | null {
 }
 
 /**
- * Loads a transformation catalog from a directory.
- *
- * The directory should contain:
- * - smells/ subdirectory with .toml files
- * - patterns/ subdirectory with .toml files
- *
- * @param catalogDir - Path to catalog directory.
- * @returns A Promise that resolves to a TransformationCatalog or rejects with error.
+ * A catalog layer directory, parsed but not yet merged.
  */
-export async function loadCatalog(catalogDir: string): Promise<TransformationCatalog> {
-  const smellsDir = join(catalogDir, 'smells');
-  const patternsDir = join(catalogDir, 'patterns');
+export interface CatalogLayer {
+  /** The layer directory. */
+  dir: string;
+  /** Smells defined by the layer, with their files. */
+  smells: Array<{ path: string; definition: SmellDefinition }>;
+  /** Patterns defined by the layer, with their files. */
+  patterns: Array<{ path: string; definition: PatternDefinition }>;
+  /** The layer's `catalog.toml` settings (empty when absent). */
+  manifest: CatalogManifest;
+  /** Parse and validation errors, including duplicate IDs within the layer. */
+  errors: CatalogParseError[];
+}
 
-  const smellFiles = await loadTomlFiles(smellsDir);
-  const patternFiles = await loadTomlFiles(patternsDir);
+/**
+ * Returns the org-wide catalog directory shared by all projects.
+ */
+export function getOrgCatalogDir(): string {
+  return join(homedir(), '.criticality', 'catalog');
+}
 
-  const smellsMap = new Map<string, SmellDefinition>();
-  const patternsMap = new Map<string, PatternDefinition>();
+/**
+ * Lists the catalog layers to load, lowest precedence first.
+ *
+ * @param projectCatalogDir - The project's catalog (`mass_defect.catalog_path`).
+ * @param orgCatalogDir - The org-wide catalog (defaults to `~/.criticality/catalog`).
+ * @returns Built-in, org-wide and project directories, without repeats.
+ */
+export function resolveCatalogLayers(
+  projectCatalogDir: string,
+  orgCatalogDir: string = getOrgCatalogDir()
+): string[] {
+  const dirs = [BUILTIN_CATALOG_DIR, orgCatalogDir, projectCatalogDir].map((dir) => resolve(dir));
+  return dirs.filter((dir, index) => dirs.indexOf(dir) === index);
+}
 
-  const errors: CatalogParseError[] = [];
+/**
+ * Reads and parses one catalog layer.
+ *
+ * The directory may contain `smells/` and `patterns/` subdirectories of
+ * .toml files and a `catalog.toml`. Missing parts are treated as empty.
+ *
+ * @param dir - Path to the layer directory.
+ * @returns The parsed layer; errors are collected rather than thrown.
+ */
+export async function readCatalogLayer(dir: string): Promise<CatalogLayer> {
+  const layer: CatalogLayer = {
+    dir,
+    smells: [],
+    patterns: [],
+    manifest: { disabledSmells: [], disabledPatterns: [] },
+    errors: [],
+  };
 
-  for (const { path, content } of smellFiles) {
+  for (const { path, content } of await loadTomlFiles(join(dir, 'smells'))) {
     const result = parseSmellDefinition(content);
     if (isCatalogError(result)) {
-      errors.push({ ...result, filePath: path });
+      layer.errors.push({ ...result, filePath: path });
+    } else if (layer.smells.some((smell) => smell.definition.id === result.id)) {
+      layer.errors.push(
+        createError('validation_error', `Duplicate smell id "${result.id}"`, path, 'smell.id')
+      );
     } else {
-      if (smellsMap.has(result.id)) {
-        errors.push(
-          createError('validation_error', `Duplicate smell id "${result.id}"`, path, 'smell.id')
-        );
-      } else {
-        smellsMap.set(result.id, result);
-      }
+      layer.smells.push({ path, definition: result });
     }
   }
 
-  for (const { path, content } of patternFiles) {
+  for (const { path, content } of await loadTomlFiles(join(dir, 'patterns'))) {
     const result = parsePatternDefinition(content);
     if (isCatalogError(result)) {
-      errors.push({ ...result, filePath: path });
+      layer.errors.push({ ...result, filePath: path });
+    } else if (layer.patterns.some((pattern) => pattern.definition.id === result.id)) {
+      layer.errors.push(
+        createError('validation_error', `Duplicate pattern id "${result.id}"`, path, 'pattern.id')
+      );
     } else {
-      if (patternsMap.has(result.id)) {
-        errors.push(
-          createError('validation_error', `Duplicate pattern id "${result.id}"`, path, 'pattern.id')
-        );
-      } else {
-        patternsMap.set(result.id, result);
-      }
+      layer.patterns.push({ path, definition: result });
     }
   }
 
+  const manifestPath = join(dir, CATALOG_MANIFEST_FILE);
+  const manifestContent = await readOptionalFile(manifestPath);
+  if (manifestContent !== undefined) {
+    const manifest = parseCatalogManifest(manifestContent);
+    if (isCatalogError(manifest)) {
+      layer.errors.push({ ...manifest, filePath: manifestPath });
+    } else {
+      layer.manifest = manifest;
+    }
+  }
+
+  return layer;
+}
+
+/**
+ * Merges catalog layers, lowest precedence first.
+ *
+ * Each layer first removes the IDs its manifest disables, then adds its own
+ * smells and patterns, replacing lower-layer entries with the same ID.
+ *
+ * @param layers - Parsed layers in precedence order.
+ * @returns The merged catalog.
+ */
+export function mergeCatalogLayers(layers: readonly CatalogLayer[]): TransformationCatalog {
+  const smellsMap = new Map<string, SmellDefinition>();
+  const patternsMap = new Map<string, PatternDefinition>();
+
+  for (const layer of layers) {
+    for (const id of layer.manifest.disabledSmells) {
+      smellsMap.delete(id);
+    }
+    for (const id of layer.manifest.disabledPatterns) {
+      patternsMap.delete(id);
+    }
+    for (const { definition } of layer.smells) {
+      smellsMap.set(definition.id, definition);
+    }
+    for (const { definition } of layer.patterns) {
+      patternsMap.set(definition.id, definition);
+    }
+  }
+
+  return new TransformationCatalog(smellsMap, patternsMap);
+}
+
+/**
+ * Loads a transformation catalog from layered directories.
+ *
+ * @param dirs - Layer directories, lowest precedence first (see {@link resolveCatalogLayers}).
+ * @returns A Promise that resolves to the merged catalog or rejects listing every error.
+ */
+export async function loadCatalogLayers(dirs: readonly string[]): Promise<TransformationCatalog> {
+  const layers: CatalogLayer[] = [];
+  for (const dir of dirs) {
+    layers.push(await readCatalogLayer(dir));
+  }
+
+  const errors = layers.flatMap((layer) => layer.errors);
   if (errors.length > 0) {
     const errorMessages = errors.map((e) => `${e.filePath}: ${e.message}`).join('\n');
     throw new Error(`Failed to load catalog:\n${errorMessages}`);
   }
 
-  return new TransformationCatalog(smellsMap, patternsMap);
+  return mergeCatalogLayers(layers);
+}
+
+/**
+ * Loads a transformation catalog from a directory.
+ *
+ * The directory should contain:
+ * - smells/ subdirectory with .toml files
+ * - patterns/ subdirectory with .toml files
+ *
+ * @param catalogDir - Path to catalog directory.
+ * @returns A Promise that resolves to a TransformationCatalog or rejects with error.
+ */
+export async function loadCatalog(catalogDir: string): Promise<TransformationCatalog> {
+  return loadCatalogLayers([catalogDir]);
+}
+
+/**
+ * Reads a file, returning undefined if it does not exist.
+ */
+async function readOptionalFile(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw err;
+  }
 }
 
 /**
@@ -55,6 +55,24 @@ export class TransformationCatalog {
     return Array.from(this.smells.values()).filter((s) => s.category === category);
   }
 
+  /**
+   * Get all smells.
+   *
+   * @returns Array of all smell definitions.
+   */
+  getSmells(): SmellDefinition[] {
+    return Array.from(this.smells.values());
+  }
+
+  /**
+   * Get all patterns.
+   *
+   * @returns Array of all pattern definitions.
+   */
+  getPatterns(): PatternDefinition[] {
+    return Array.from(this.patterns.values());
+  }
+
   /**
    * Select applicable patterns for detected smells.
    *
@@ -13,6 +13,8 @@ import {
   createSourceFileFromString,
 } from './complexity-analyzer.js';
 import { loadCatalog } from './catalog-parser.js';
+import { TransformationCatalog } from './catalog.js';
+import type { SmellDefinition } from './types.js';
 
 describe('complexity-analyzer', () => {
   describe('analyzeComplexity', () => {
@@ -439,6 +441,91 @@ ${lines.join('\n')}
         }
       });
     });
+
+    describe('custom catalog rules', () => {
+      function customSmell(tools: SmellDefinition['detection']['tools']): SmellDefinition {
+        return {
+          id: 'nested-ternary',
+          name: 'Nested Ternary',
+          category: 'clarity-debt',
+          description: 'Ternaries nested inside ternaries',
+          detection: { tools, heuristics: [] },
+          applicablePatterns: [],
+        };
+      }
+
+      const code = `
+        function sign(a: number, b: number): string {
+          return a > 0 ? (b > 0 ? 'both' : 'a') : 'none';
+        }
+      `;
+
+      it('runs arbitrary ESLint rules named by catalog smells', async () => {
+        const custom = new TransformationCatalog(
+          new Map([
+            ['nested-ternary', customSmell([{ name: 'eslint', rule: 'no-nested-ternary' }])],
+          ]),
+          new Map()
+        );
+
+        const smells = await detectSmells(createSourceFileFromString(code), custom);
+
+        expect(smells.filter((s) => s.smellId === 'nested-ternary')).toHaveLength(1);
+      });
+
+      it('passes rule options to ESLint', async () => {
+        const nested = `
+          function f(x: number): number {
+            if (x > 0) {
+              if (x > 1) {
+                return x;
+              }
+            }
+            return 0;
+          }
+        `;
+        const custom = new TransformationCatalog(
+          new Map([
+            [
+              'deep-nesting',
+              {
+                ...customSmell([{ name: 'eslint', rule: 'max-depth', options: [{ max: 1 }] }]),
+                id: 'deep-nesting',
+              },
+            ],
+          ]),
+          new Map()
+        );
+
+        const smells = await detectSmells(createSourceFileFromString(nested), custom);
+
+        expect(smells.filter((s) => s.smellId === 'deep-nesting')).toHaveLength(1);
+      });
+
+      it('runs ts-morph syntax selectors', async () => {
+        const custom = new TransformationCatalog(
+          new Map([
+            [
+              'nested-ternary',
+              customSmell([
+                { name: 'ts-morph', rule: 'ConditionalExpression ConditionalExpression' },
+              ]),
+            ],
+          ]),
+          new Map()
+        );
+
+        const smells = await detectSmells(createSourceFileFromString(code), custom);
+
+        expect(smells.filter((s) => s.smellId === 'nested-ternary')).toEqual([
+          {
+            smellId: 'nested-ternary',
+            severity: 1,
+            location: { filePath: expect.any(String) as string, line: 3, column: 27 },
+          },
+        ]);
+      });
+    });
   });
 
   describe('createSourceFileFromString', () => {
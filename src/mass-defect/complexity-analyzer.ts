@@ -2,7 +2,9 @@
  * Complexity analyzer and smell detector for Mass Defect phase.
  *
  * Analyzes code complexity metrics and detects code smells using
- * ESLint rules and custom heuristics.
+ * ESLint rules and custom heuristics. Catalog smells can add detection
+ * rules of their own: any ESLint rule (with options) via an `eslint` tool,
+ * or a syntax selector via a `ts-morph` tool.
  *
  * @packageDocumentation
  */
@@ -16,14 +18,60 @@ import type {
   TransformationCatalog,
   SmellDefinition,
 } from './types.js';
+import { parseSyntaxSelector, querySyntax } from './syntax-query.js';
 
 type FunctionNode = ReturnType<SourceFile['getFunctions']>[number];
 
 /**
- * ESLint instance configured for smell detection.
+ * ESLint rules enabled for every catalog.
+ */
+const BASE_ESLINT_RULES: Linter.RulesRecord = {
+  complexity: ['error', { max: 10 }],
+  'max-depth': ['error', { max: 3 }],
+  'max-lines-per-function': ['error', { max: 50, skipComments: true }],
+  'no-magic-numbers': ['error', { ignore: [0, 1, -1], ignoreArrayIndexes: true }],
+  'no-unreachable': 'error',
+  'no-unused-vars': ['error', { argsIgnorePattern: '^_' }],
+  'no-restricted-syntax': [
+    'error',
+    {
+      selector: 'ForStatement',
+      message:
+        'Use functional transformations (map/filter/reduce) instead of traditional for loops',
+    },
+  ],
+};
+
+/**
+ * ESLint instances configured for smell detection, keyed by their rules.
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-let eslintInstance: any = null;
+const eslintInstances = new Map<string, any>();
+
+/**
+ * Returns the ESLint rules for a catalog: the base rules plus every rule
+ * named by an `eslint` tool in the catalog's smells. Tool options replace
+ * the base options for the same rule.
+ *
+ * @param catalog - The transformation catalog.
+ * @returns The rules record to lint with.
+ */
+export function getCatalogEslintRules(catalog: TransformationCatalog): Linter.RulesRecord {
+  const rules: Linter.RulesRecord = { ...BASE_ESLINT_RULES };
+  for (const smell of catalog.getSmells()) {
+    for (const tool of smell.detection.tools) {
+      if (tool.name !== 'eslint') {
+        continue;
+      }
+      if (tool.options !== undefined) {
+        rules[tool.rule] = ['error', ...tool.options];
+      } else if (!(tool.rule in rules)) {
+        rules[tool.rule] = 'error';
+      }
+    }
+  }
+  return rules;
+}
 
 /**
  * Initializes ESLint instance with required rules for smell detection.
@@ -32,9 +80,11 @@ let eslintInstance: any = null;
  * to support linting in-memory code snippets.
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function initializeESLint(): Promise<any> {
-  if (eslintInstance) {
-    return eslintInstance;
+async function initializeESLint(rules: Linter.RulesRecord): Promise<any> {
+  const key = JSON.stringify(rules);
+  const cached: unknown = eslintInstances.get(key);
+  if (cached !== undefined) {
+    return cached;
   }
 
   const { ESLint } = await import('eslint');
@@ -53,30 +103,19 @@ async function initializeESLint(): Promise<any> {
           project: false,
         },
       },
-      rules: {
-        complexity: ['error', { max: 10 }],
-        'max-depth': ['error', { max: 3 }],
-        'max-lines-per-function': ['error', { max: 50, skipComments: true }],
-        'no-magic-numbers': ['error', { ignore: [0, 1, -1], ignoreArrayIndexes: true }],
-        'no-unreachable': 'error',
-        'no-unused-vars': ['error', { argsIgnorePattern: '^_' }],
-        'no-restricted-syntax': [
-          'error',
-          {
-            selector: 'ForStatement',
-            message:
-              'Use functional transformations (map/filter/reduce) instead of traditional for loops',
-          },
-        ],
+      plugins: {
+        '@typescript-eslint': tseslint.plugin,
       },
+      rules,
     },
   ];
 
-  eslintInstance = new ESLint({
+  const eslintInstance = new ESLint({
     overrideConfigFile: true,
     // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
     overrideConfig: standaloneConfig as any,
   });
+  eslintInstances.set(key, eslintInstance);
 
   return eslintInstance;
 }
@@ -199,7 +238,7 @@ export async function detectSmells(
 ): Promise<DetectedSmell[]> {
   const detectedSmells: DetectedSmell[] = [];
 
-  const eslintResults = await runESLint(sourceFile);
+  const eslintResults = await runESLint(sourceFile, getCatalogEslintRules(catalog));
   detectedSmells.push(...processESLintResults(eslintResults, catalog));
 
   const heuristicResults = runHeuristics(sourceFile, catalog);
@@ -216,10 +255,11 @@ export async function detectSmells(
  * so ESLint doesn't reject them as outside the base path.
  */
 async function runESLint(
-  sourceFile: SourceFile
+  sourceFile: SourceFile,
+  rules: Linter.RulesRecord
 ): Promise<{ messages: Linter.LintMessage[]; filePath: string }[]> {
   // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-  const eslint = await initializeESLint();
+  const eslint = await initializeESLint(rules);
   const originalFilePath = sourceFile.getFilePath();
   const code = sourceFile.getFullText();
 
@@ -249,6 +289,33 @@ async function runESLint(
   }
 }
 
+/**
+ * Checks that ESLint accepts a rule and its options.
+ *
+ * Detection swallows ESLint configuration errors, so a misspelled rule in
+ * a catalog would silently disable all ESLint-based detection.
+ *
+ * @param rule - The rule ID, e.g. `max-depth` or `@typescript-eslint/no-explicit-any`.
+ * @param options - The rule options, if any.
+ * @returns The ESLint error message, or undefined if the rule is valid.
+ */
+export async function validateEslintRule(
+  rule: string,
+  options?: unknown[]
+): Promise<string | undefined> {
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+  const eslint = await initializeESLint({
+    [rule]: options !== undefined ? ['error', ...options] : 'error',
+  });
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+    await eslint.lintText('', { filePath: `${process.cwd()}/__eslint_temp__.ts` });
+    return undefined;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
 /**
  * Processes ESLint results and maps them to DetectedSmell objects.
  */
@@ -262,7 +329,7 @@ function processESLintResults(
     const { messages, filePath } = eslintResult;
 
     for (const message of messages) {
-      const smellId = mapESLintRuleToSmell(message.ruleId ?? '');
+      const smellId = mapESLintRuleToSmell(message.ruleId ?? '', catalog);
       const smell = catalog.getSmell(smellId);
 
       if (!smell) {
@@ -290,8 +357,20 @@ function processESLintResults(
 
 /**
  * Maps ESLint rule IDs to smell IDs.
+ *
+ * A smell that names the rule in its `eslint` tools takes precedence over
+ * the built-in mapping.
  */
-function mapESLintRuleToSmell(ruleId: string): string {
+function mapESLintRuleToSmell(ruleId: string, catalog: TransformationCatalog): string {
+  const catalogSmell = catalog
+    .getSmells()
+    .find((smell) =>
+      smell.detection.tools.some((tool) => tool.name === 'eslint' && tool.rule === ruleId)
+    );
+  if (catalogSmell) {
+    return catalogSmell.id;
+  }
+
   const ruleToSmellMap: Record<string, string> = {
     complexity: 'high-cyclomatic-complexity',
     'max-depth': 'deep-nesting',
@@ -367,9 +446,40 @@ function runHeuristics(sourceFile: SourceFile, catalog: TransformationCatalog):
   const overDocumentationSmells = detectOverDocumentation(sourceFile, catalog);
   detectedSmells.push(...overDocumentationSmells);
 
+  detectedSmells.push(...runSyntaxQueries(sourceFile, catalog));
+
   return detectedSmells;
 }
 
+/**
+ * Reports a smell for every node matching one of its `ts-morph` selectors.
+ */
+function runSyntaxQueries(sourceFile: SourceFile, catalog: TransformationCatalog): DetectedSmell[] {
+  const smells: DetectedSmell[] = [];
+
+  for (const smell of catalog.getSmells()) {
+    for (const tool of smell.detection.tools) {
+      if (tool.name !== 'ts-morph') {
+        continue;
+      }
+      const steps = parseSyntaxSelector(tool.rule);
+      if (typeof steps === 'string') {
+        continue;
+      }
+      for (const node of querySyntax(sourceFile, steps)) {
+        const { line, column } = sourceFile.getLineAndColumnAtPos(node.getStart());
+        smells.push({
+          smellId: smell.id,
+          severity: 1,
+          location: { filePath: sourceFile.getFilePath(), line, column },
+        });
+      }
+    }
+  }
+
+  return smells;
+}
+
 /**
  * Detects over-documentation smell using comment-to-code ratio heuristic.
  */
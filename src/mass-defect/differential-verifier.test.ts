@@ -0,0 +1,184 @@
+/**
+ * Tests for differential verification of transformations.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  describeValue,
+  formatCounterexample,
+  verifyDifferential,
+} from './differential-verifier.js';
+
+const OPTIONS = { numRuns: 50, seed: 42 };
+
+describe('verifyDifferential', () => {
+  it('accepts a behavior-preserving refactoring', async () => {
+    const result = await verifyDifferential(
+      `function grade(score: number, curved?: boolean): string {
+        if (curved === true) {
+          score += 5;
+        }
+        if (score >= 90) {
+          return 'A';
+        } else {
+          if (score >= 80) {
+            return 'B';
+          }
+          return 'C';
+        }
+      }`,
+      `function grade(score: number, curved?: boolean): string {
+        const adjusted = curved === true ? score + 5 : score;
+        if (adjusted >= 90) return 'A';
+        if (adjusted >= 80) return 'B';
+        return 'C';
+      }`,
+      'grade',
+      OPTIONS
+    );
+
+    expect(result).toEqual({ status: 'equivalent', runs: 50 });
+  });
+
+  it('rejects a different return value with a shrunk counterexample', async () => {
+    const result = await verifyDifferential(
+      'function clamp(n: number): number { return n < 0 ? 0 : n; }',
+      'function clamp(n: number): number { return Math.max(0, n); }',
+      'clamp',
+      OPTIONS
+    );
+
+    expect(result.status).toBe('different');
+    expect(result.counterexample).toEqual({
+      inputs: ['-0'],
+      original: 'returned -0',
+      transformed: 'returned 0',
+      seed: 42,
+    });
+  });
+
+  it('rejects a change in thrown errors', async () => {
+    const result = await verifyDifferential(
+      `function root(items: number[]): number {
+        if (items.length === 0) throw new RangeError('empty');
+        return items[0];
+      }`,
+      'function root(items: number[]): number { return items[0]; }',
+      'root',
+      OPTIONS
+    );
+
+    expect(result.counterexample).toMatchObject({
+      inputs: ['[]'],
+      original: 'threw RangeError: empty',
+      transformed: 'returned undefined',
+    });
+  });
+
+  it('rejects argument mutation the original did not do', async () => {
+    const result = await verifyDifferential(
+      'function sorted(items: string[]): string[] { return [...items].sort(); }',
+      'function sorted(items: string[]): string[] { return items.sort(); }',
+      'sorted',
+      OPTIONS
+    );
+
+    expect(result.status).toBe('different');
+    expect(result.counterexample?.original).toMatch(/^returned \[.*\], leaving arguments \(\[/);
+  });
+
+  it('compares resolved values of async functions', async () => {
+    const result = await verifyDifferential(
+      'async function total(prices: Map<string, number>): Promise<number> { let t = 0; for (const p of prices.values()) t += p; return t; }',
+      'async function total(prices: Map<string, number>): Promise<number> { return prices.size; }',
+      'total',
+      OPTIONS
+    );
+
+    expect(result.status).toBe('different');
+    expect(result.counterexample?.original).toMatch(/^resolved /);
+  });
+
+  it('reports a transformed function that no longer terminates', async () => {
+    const result = await verifyDifferential(
+      'function answer(): number { return 42; }',
+      'function answer(): number { for (;;) {} }',
+      'answer',
+      { ...OPTIONS, callTimeoutMs: 50 }
+    );
+
+    expect(result.counterexample).toMatchObject({
+      inputs: [],
+      original: 'returned 42',
+      transformed: 'timed out after 50ms',
+    });
+  });
+
+  it('generates witness-typed parameters from witness arbitraries', async () => {
+    const original = `function root(n: NonNegative): number {
+      return n < 0 ? 0 : Math.sqrt(n);
+    }`;
+    const transformed = 'function root(n: NonNegative): number { return Math.sqrt(n); }';
+    const witnesses = [{ name: 'NonNegative', baseType: 'number', invariant: 'value >= 0' }];
+
+    const result = await verifyDifferential(original, transformed, 'root', {
+      ...OPTIONS,
+      witnesses,
+    });
+
+    expect(result).toEqual({ status: 'equivalent', runs: 50 });
+  });
+
+  it.each([
+    ['parameters without a type', 'function f(x) { return x; }', 'has no type annotation'],
+    ['rest parameters', 'function f(...xs: number[]) { return xs; }', 'Rest parameter'],
+    [
+      'types without an arbitrary',
+      'function f(order: Order) { return order; }',
+      "no arbitrary for type 'Order'",
+    ],
+    [
+      'calls to code outside the function',
+      'function f(x: number) { return helper(x); }',
+      'not self-contained: threw ReferenceError: helper is not defined',
+    ],
+  ])('skips %s', async (_name, code, reason) => {
+    const result = await verifyDifferential(code, code, 'f', OPTIONS);
+
+    expect(result.status).toBe('skipped');
+    expect(result.reason).toContain(reason);
+  });
+});
+
+describe('formatCounterexample', () => {
+  it('renders the call and both outcomes', () => {
+    expect(
+      formatCounterexample('clamp', {
+        inputs: ['-0'],
+        original: 'returned -0',
+        transformed: 'returned 0',
+        seed: 7,
+      })
+    ).toBe(
+      'Behavior differs from the original on clamp(-0): original returned -0, transformed returned 0 (seed 7)'
+    );
+  });
+});
+
+describe('describeValue', () => {
+  it('distinguishes values that equality or JSON would conflate', () => {
+    expect(describeValue(-0)).not.toBe(describeValue(0));
+    expect(describeValue(NaN)).toBe('NaN');
+    expect(describeValue(10n)).toBe('10n');
+    expect(describeValue(undefined)).not.toBe(describeValue(null));
+    expect(describeValue(new Map([['a', new Set([1])]]))).toBe('Map {"a" => Set {1}}');
+    expect(describeValue(new TypeError('bad'))).toBe('TypeError: bad');
+  });
+
+  it('renders cycles without recursing forever', () => {
+    const node: Record<string, unknown> = { id: 1 };
+    node.self = node;
+
+    expect(describeValue(node)).toBe('{"id": 1, "self": [Circular]}');
+  });
+});
@@ -0,0 +1,523 @@
+/**
+ * Differential verifier for Mass Defect phase.
+ *
+ * Compiles the original and transformed function in isolation and runs both
+ * on the same fast-check inputs, derived from the function's signature and
+ * the project's witness arbitraries. Any difference in return value, thrown
+ * error or argument mutation rejects the transformation, even where the
+ * project's own tests never exercise the function.
+ *
+ * @packageDocumentation
+ */
+
+import vm from 'node:vm';
+import * as fc from 'fast-check';
+import * as ts from 'typescript';
+import { Project } from 'ts-morph';
+import {
+  generateArbitrary,
+  generateTypeArbitrary,
+  type WitnessDefinition,
+} from '../adapters/typescript/witness.js';
+import type { Counterexample, DifferentialOptions, DifferentialResult } from './types.js';
+
+/** Default time limit for a single call, in milliseconds. */
+const DEFAULT_CALL_TIMEOUT_MS = 1000;
+
+/** Arbitraries for named types that need no witness. */
+const BUILTIN_ARBITRARIES: Readonly<Record<string, fc.Arbitrary<unknown>>> = {
+  arbDate: fc.date(),
+};
+
+/**
+ * What one version of the function did with one input.
+ */
+interface Outcome {
+  /** Rendered result, e.g. `returned 3` or `threw TypeError: x is null`. */
+  readonly result: string;
+  /** Rendered arguments after the call, to catch mutation. */
+  readonly args: readonly string[];
+  /** Whether the call failed on a name the isolated code does not define. */
+  readonly unresolved: boolean;
+}
+
+/**
+ * A version of the function compiled into its own context.
+ */
+interface LoadedFunction {
+  readonly context: vm.Context;
+  readonly call: string;
+}
+
+/**
+ * Runs the original and transformed function on generated inputs and
+ * compares what they do.
+ *
+ * @param original - Source of the original function (may include helpers).
+ * @param transformed - Source of the transformed function (may include helpers).
+ * @param functionName - Name of the function to compare.
+ * @param options - Number of runs, witnesses, call timeout and seed.
+ * @returns `different` with a shrunk counterexample, `equivalent`, or
+ *   `skipped` with the reason the versions could not be run in isolation.
+ *
+ * @remarks
+ * The check is skipped rather than failed when it cannot be run fairly:
+ * parameters without a type annotation, rest parameters, types with no
+ * arbitrary, or code that refers to names outside the function (imports,
+ * module state, globals such as `console`).
+ *
+ * @example
+ * const result = await verifyDifferential(
+ *   'function clamp(n: number) { return n < 0 ? 0 : n; }',
+ *   'function clamp(n: number) { return Math.max(0, n); }',
+ *   'clamp',
+ *   { numRuns: 100 }
+ * );
+ * // result.status === 'different': clamp(-0) returned -0, transformed returned 0
+ */
+export async function verifyDifferential(
+  original: string,
+  transformed: string,
+  functionName: string,
+  options: DifferentialOptions
+): Promise<DifferentialResult> {
+  if (!/^[A-Za-z_$][\w$]*$/.test(functionName)) {
+    return skipped(`'${functionName}' is not a plain function name`);
+  }
+
+  const signature = parseParameters(original, functionName);
+  if (typeof signature === 'string') {
+    return skipped(signature);
+  }
+
+  const witnessArbitraries = loadWitnessArbitraries(options.witnesses ?? []);
+  const arbitraries: fc.Arbitrary<unknown>[] = [];
+  for (const parameter of signature) {
+    const arbitrary = parameterArbitrary(parameter.type, witnessArbitraries);
+    if (typeof arbitrary === 'string') {
+      return skipped(`Parameter '${parameter.name}': ${arbitrary}`);
+    }
+    arbitraries.push(parameter.optional ? fc.option(arbitrary, { nil: undefined }) : arbitrary);
+  }
+
+  const timeoutMs = options.callTimeoutMs ?? DEFAULT_CALL_TIMEOUT_MS;
+  const originalFn = loadFunction(original, functionName, timeoutMs);
+  if (typeof originalFn === 'string') {
+    return skipped(`Original code ${originalFn}`);
+  }
+  const transformedFn = loadFunction(transformed, functionName, timeoutMs);
+  if (typeof transformedFn === 'string') {
+    return skipped(`Transformed code ${transformedFn}`);
+  }
+
+  const runBoth = async (args: readonly unknown[]): Promise<[Outcome, Outcome]> => [
+    await callFunction(originalFn, cloneArgs(args), timeoutMs),
+    await callFunction(transformedFn, cloneArgs(args), timeoutMs),
+  ];
+
+  let runs = 0;
+  let skipReason: string | undefined;
+  const property = fc.asyncProperty(fc.tuple(...arbitraries), async (args) => {
+    if (skipReason !== undefined) {
+      return true;
+    }
+    const [before, after] = await runBoth(args);
+    if (before.unresolved || after.unresolved) {
+      skipReason = `Function is not self-contained: ${before.unresolved ? before.result : after.result}`;
+      return true;
+    }
+    runs++;
+    return sameOutcome(before, after);
+  });
+
+  const details = await fc.check(property, {
+    numRuns: arbitraries.length === 0 ? 1 : options.numRuns,
+    ...(options.seed !== undefined ? { seed: options.seed } : {}),
+  });
+
+  if (skipReason !== undefined) {
+    return { status: 'skipped', runs, reason: skipReason };
+  }
+  if (!details.failed || details.counterexample === null) {
+    return { status: 'equivalent', runs };
+  }
+
+  const [args] = details.counterexample;
+  const [before, after] = await runBoth(args);
+  return {
+    status: 'different',
+    runs,
+    counterexample: buildCounterexample(args, before, after, details.seed),
+  };
+}
+
+/**
+ * Formats a counterexample as a single verification error message.
+ *
+ * @param functionName - Name of the compared function.
+ * @param counterexample - The distinguishing input.
+ * @returns A message such as
+ *   `Behavior differs from the original on clamp(-0): original returned -0, transformed returned 0 (seed 42)`.
+ */
+export function formatCounterexample(functionName: string, counterexample: Counterexample): string {
+  return (
+    `Behavior differs from the original on ${functionName}(${counterexample.inputs.join(', ')}): ` +
+    `original ${counterexample.original}, transformed ${counterexample.transformed} ` +
+    `(seed ${String(counterexample.seed)})`
+  );
+}
+
+function skipped(reason: string): DifferentialResult {
+  return { status: 'skipped', runs: 0, reason };
+}
+
+/**
+ * A parameter of the compared function.
+ */
+interface ParameterInfo {
+  readonly name: string;
+  readonly type: string;
+  readonly optional: boolean;
+}
+
+/**
+ * Reads the parameter list of the named function.
+ *
+ * @returns The parameters, or the reason they cannot drive generation.
+ */
+function parseParameters(code: string, functionName: string): ParameterInfo[] | string {
+  const project = new Project({ useInMemoryFileSystem: true });
+  const sourceFile = project.createSourceFile('original.ts', code);
+  const func = sourceFile.getFunction(functionName);
+  if (!func) {
+    return `Function '${functionName}' not found`;
+  }
+  if (func.getTypeParameters().length > 0) {
+    return 'Generic functions are not supported';
+  }
+
+  const parameters: ParameterInfo[] = [];
+  for (const parameter of func.getParameters()) {
+    const typeNode = parameter.getTypeNode();
+    if (parameter.isRestParameter()) {
+      return `Rest parameter '${parameter.getName()}' is not supported`;
+    }
+    if (!typeNode) {
+      return `Parameter '${parameter.getName()}' has no type annotation`;
+    }
+    parameters.push({
+      name: parameter.getName(),
+      type: typeNode.getText(),
+      optional: parameter.isOptional() || parameter.hasInitializer(),
+    });
+  }
+  return parameters;
+}
+
+/**
+ * Builds the arbitraries for the given witnesses, keyed by the `arb<Name>`
+ * placeholders that {@link generateTypeArbitrary} emits.
+ *
+ * Generic witnesses are bound to their `arbitrary<Name>` factory instead.
+ * Witnesses whose arbitrary cannot be built are left out, so parameters of
+ * that type are skipped rather than generated wrongly.
+ */
+function loadWitnessArbitraries(witnesses: readonly WitnessDefinition[]): Record<string, unknown> {
+  const bindings: Record<string, unknown> = { ...BUILTIN_ARBITRARIES };
+
+  for (const witness of witnesses) {
+    const generic = witness.typeParameters !== undefined && witness.typeParameters.length > 0;
+    try {
+      const code = ts.transpileModule(generateArbitrary(witness, { includeJsDoc: false }), {
+        compilerOptions: { target: ts.ScriptTarget.ES2022 },
+      }).outputText;
+      const arbitrary: unknown = vm.runInNewContext(`${code}\narbitrary${witness.name};`, {
+        ...bindings,
+        fc,
+      });
+      bindings[`${generic ? 'arbitrary' : 'arb'}${witness.name}`] = arbitrary;
+    } catch {
+      // Leave the witness unbound; parameters of its type are skipped
+    }
+  }
+
+  return bindings;
+}
+
+/**
+ * Builds the arbitrary for a parameter type.
+ *
+ * @returns The arbitrary, or the reason no faithful one exists.
+ */
+function parameterArbitrary(
+  typeText: string,
+  bindings: Readonly<Record<string, unknown>>
+): fc.Arbitrary<unknown> | string {
+  const expression = typeArbitraryExpression(typeText.trim(), bindings);
+  if (expression === undefined) {
+    return `no arbitrary for type '${typeText}'`;
+  }
+
+  for (const match of expression.matchAll(/\b(arb(?:itrary)?[A-Z]\w*)\b/g)) {
+    const placeholder = match[1] ?? '';
+    if (!Object.hasOwn(bindings, placeholder)) {
+      return `no arbitrary for type '${placeholder.replace(/^arb(?:itrary)?/, '')}'`;
+    }
+  }
+
+  try {
+    return vm.runInNewContext(expression, { ...bindings, fc }) as fc.Arbitrary<unknown>;
+  } catch (error) {
+    return `cannot build an arbitrary for type '${typeText}': ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+/**
+ * Returns the fast-check expression for a type, calling generic witness
+ * factories for `Name<Args>` types.
+ */
+function typeArbitraryExpression(
+  typeText: string,
+  bindings: Readonly<Record<string, unknown>>
+): string | undefined {
+  const generic = /^([A-Z]\w*)<(.+)>$/s.exec(typeText);
+  if (generic?.[1] !== undefined && Object.hasOwn(bindings, `arbitrary${generic[1]}`)) {
+    const args = splitTypeArguments(generic[2] ?? '').map((arg) =>
+      typeArbitraryExpression(arg, bindings)
+    );
+    if (args.some((arg) => arg === undefined)) {
+      return undefined;
+    }
+    return `arbitrary${generic[1]}(${args.join(', ')})`;
+  }
+
+  const expression = generateTypeArbitrary(typeText);
+  // fc.anything() stands in for types the generator does not understand
+  if (expression.includes('fc.anything()') && typeText !== 'unknown' && typeText !== 'any') {
+    return undefined;
+  }
+  return expression;
+}
+
+/**
+ * Splits type arguments on top-level commas.
+ */
+function splitTypeArguments(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === '<' || char === '[' || char === '{' || char === '(') {
+      depth++;
+    } else if (char === '>' || char === ']' || char === '}' || char === ')') {
+      depth--;
+    }
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * Compiles one version of the code into a fresh context.
+ *
+ * @returns The loaded function, or the reason it could not be loaded.
+ */
+function loadFunction(
+  code: string,
+  functionName: string,
+  timeoutMs: number
+): LoadedFunction | string {
+  const output = ts.transpileModule(code, {
+    compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.CommonJS },
+    reportDiagnostics: true,
+  });
+  const diagnostic = output.diagnostics?.[0];
+  if (diagnostic !== undefined) {
+    return `does not compile: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`;
+  }
+
+  const context = vm.createContext({ exports: {} });
+  try {
+    vm.runInContext(output.outputText, context, { timeout: timeoutMs });
+  } catch (error) {
+    return `fails to load: ${describeValue(error)}`;
+  }
+  if (vm.runInContext(`typeof ${functionName}`, context) !== 'function') {
+    return `does not define function '${functionName}'`;
+  }
+  return { context, call: `${functionName}(...__args)` };
+}
+
+/**
+ * Calls a loaded function and records what it did.
+ */
+async function callFunction(
+  loaded: LoadedFunction,
+  args: unknown[],
+  timeoutMs: number
+): Promise<Outcome> {
+  const outcome = (result: string, thrown?: unknown): Outcome => ({
+    result,
+    args: args.map((arg) => describeValue(arg)),
+    unresolved: errorName(thrown) === 'ReferenceError',
+  });
+
+  let value: unknown;
+  try {
+    loaded.context.__args = args;
+    value = vm.runInContext(loaded.call, loaded.context, { timeout: timeoutMs });
+  } catch (error) {
+    if (errorCode(error) === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      return outcome(`timed out after ${String(timeoutMs)}ms`);
+    }
+    return outcome(`threw ${describeValue(error)}`, error);
+  }
+
+  if (!isThenable(value)) {
+    return outcome(`returned ${describeValue(value)}`);
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<Outcome>((resolve) => {
+    timer = setTimeout(() => {
+      resolve(outcome(`timed out after ${String(timeoutMs)}ms`));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([
+      Promise.resolve(value).then(
+        (resolved: unknown) => outcome(`resolved ${describeValue(resolved)}`),
+        (error: unknown) => outcome(`rejected ${describeValue(error)}`, error)
+      ),
+      timeout,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return (
+    typeof value === 'object' && value !== null && typeof Reflect.get(value, 'then') === 'function'
+  );
+}
+
+function errorName(error: unknown): unknown {
+  return typeof error === 'object' && error !== null ? Reflect.get(error, 'name') : undefined;
+}
+
+function errorCode(error: unknown): unknown {
+  return typeof error === 'object' && error !== null ? Reflect.get(error, 'code') : undefined;
+}
+
+/**
+ * Gives each version its own copy of the arguments, so that mutation by one
+ * cannot leak into the other.
+ */
+function cloneArgs(args: readonly unknown[]): unknown[] {
+  try {
+    return structuredClone([...args]);
+  } catch {
+    return [...args];
+  }
+}
+
+function sameOutcome(before: Outcome, after: Outcome): boolean {
+  return (
+    before.result === after.result &&
+    before.args.length === after.args.length &&
+    before.args.every((arg, index) => arg === after.args[index])
+  );
+}
+
+function buildCounterexample(
+  args: readonly unknown[],
+  before: Outcome,
+  after: Outcome,
+  seed: number
+): Counterexample {
+  const argsDiffer = before.args.some((arg, index) => arg !== after.args[index]);
+  const render = (outcome: Outcome): string =>
+    argsDiffer
+      ? `${outcome.result}, leaving arguments (${outcome.args.join(', ')})`
+      : outcome.result;
+
+  return {
+    inputs: args.map((arg) => fc.stringify(arg)),
+    original: render(before),
+    transformed: render(after),
+    seed,
+  };
+}
+
+/**
+ * Renders a value canonically, so that values from different contexts can
+ * be compared as strings.
+ *
+ * Distinguishes `-0` from `0`, shows `NaN`, bigints, collections, dates,
+ * regular expressions and errors, and keeps object key order, which callers
+ * can observe.
+ */
+export function describeValue(value: unknown, seen: Set<object> = new Set()): string {
+  switch (typeof value) {
+    case 'string':
+      return JSON.stringify(value);
+    case 'number':
+      return Object.is(value, -0) ? '-0' : String(value);
+    case 'bigint':
+      return `${String(value)}n`;
+    case 'undefined':
+    case 'boolean':
+    case 'symbol':
+      return String(value);
+    case 'function':
+      return `[Function ${value.name}]`;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return String(value);
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+
+  seen.add(value);
+  try {
+    const describe = (item: unknown): string => describeValue(item, seen);
+    switch (Object.prototype.toString.call(value)) {
+      case '[object Array]':
+        return `[${Array.from(value as unknown[], describe).join(', ')}]`;
+      case '[object Map]':
+        return `Map {${Array.from(
+          value as Map<unknown, unknown>,
+          ([key, item]) => `${describe(key)} => ${describe(item)}`
+        ).join(', ')}}`;
+      case '[object Set]':
+        return `Set {${Array.from(value as Set<unknown>, describe).join(', ')}}`;
+      case '[object Date]': {
+        const time = (value as Date).getTime();
+        return `Date(${Number.isNaN(time) ? 'Invalid' : new Date(time).toISOString()})`;
+      }
+      case '[object RegExp]':
+        return RegExp.prototype.toString.call(value);
+      case '[object Error]':
+        return `${String(Reflect.get(value, 'name'))}: ${String(Reflect.get(value, 'message'))}`;
+    }
+
+    const entries = Object.keys(value).map(
+      (key) => `${JSON.stringify(key)}: ${describe(Reflect.get(value, key))}`
+    );
+    const prototype: unknown = Object.getPrototypeOf(value);
+    const constructorName =
+      prototype === null ? undefined : (Reflect.get(prototype as object, 'constructor') as unknown);
+    const name = typeof constructorName === 'function' ? constructorName.name : '';
+    return `${name === 'Object' || name === '' ? '' : `${name} `}{${entries.join(', ')}}`;
+  } finally {
+    seen.delete(value);
+  }
+}
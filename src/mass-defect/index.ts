@@ -10,8 +10,18 @@
 
 export * from './types.js';
 export * from './reporter.js';
-export { loadCatalog } from './catalog-parser.js';
-export type { CatalogParseError, ParseResult } from './catalog-parser.js';
+export {
+  loadCatalog,
+  loadCatalogLayers,
+  readCatalogLayer,
+  mergeCatalogLayers,
+  resolveCatalogLayers,
+  getOrgCatalogDir,
+  BUILTIN_CATALOG_DIR,
+} from './catalog-parser.js';
+export type { CatalogLayer, CatalogParseError, ParseResult } from './catalog-parser.js';
+export { lintCatalog, getPatternExamples } from './catalog-lint.js';
+export type { CatalogLintDiagnostic, CatalogLintOptions } from './catalog-lint.js';
 export { TransformationCatalog } from './catalog.js';
 export {
   analyzeComplexity,
@@ -20,4 +30,5 @@ export {
 } from './complexity-analyzer.js';
 export { applyTransformation } from './transformation-applier.js';
 export { verifyTransformation } from './semantic-verifier.js';
+export { verifyDifferential, formatCounterexample } from './differential-verifier.js';
 export { runMassDefect } from './mass-defect-loop.js';
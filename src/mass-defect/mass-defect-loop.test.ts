@@ -15,6 +15,7 @@ import { describe, it, expect, beforeAll, vi } from 'vitest';
 import { runMassDefect } from './mass-defect-loop.js';
 import { loadCatalog } from './catalog-parser.js';
 import { createSourceFileFromString } from './complexity-analyzer.js';
+import { getQualifiedName, resolveFunctionFile } from '../adapters/typescript/function-id.js';
 import type { ModelRouter, ModelRouterResult, StreamChunk } from '../router/types.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -22,7 +23,7 @@ const __dirname = dirname(__filename);
 const catalogPath = resolve(__dirname, 'catalog');
 
 /**
- * Helper to find function result by name (function IDs now include line numbers).
+ * Helper to find a function result by file and name (function IDs are project-relative).
  */
 function findFunctionResultByName(
   results: Awaited<ReturnType<typeof runMassDefect>>['functionResults'],
@@ -32,7 +33,10 @@ function findFunctionResultByName(
   ? T | undefined
   : never {
   for (const [key, value] of results) {
-    if (key.startsWith(`${filePath}:${functionName}:`)) {
+    if (
+      resolveFunctionFile(key, process.cwd()) === resolve(filePath) &&
+      getQualifiedName(key) === functionName
+    ) {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-return
       return value as any;
     }
@@ -83,6 +87,33 @@ describe('mass-defect-loop', () => {
       expect(result.manualReviewFunctions).toBe(0);
     });
 
+    it('keys results by canonical function id', async () => {
+      const code = `
+        function parse(x: string): number;
+        function parse(x: string): number {
+          return Number(x);
+        }
+      `;
+
+      const result = await runMassDefect(
+        [createSourceFileFromString(code, 'src/parse.ts')],
+        catalog,
+        {
+          maxCyclomaticComplexity: 10,
+          maxFunctionLength: 50,
+          maxNestingDepth: 4,
+          minTestCoverage: 0,
+          catalogPath: './catalog',
+          projectRoot: '/',
+          fileMoves: [{ from: 'parse.ts', to: 'src/parse.ts' }],
+        },
+        createMockRouter()
+      );
+
+      // The overload signature has no body and is not analyzed
+      expect([...result.functionResults.keys()]).toEqual(['parse.ts::parse']);
+    });
+
     it('applies transformations until complexity targets are met', async () => {
       const code = `
         function complexFunction(x: number, y: number, z: number): number {
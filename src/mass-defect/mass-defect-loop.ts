@@ -9,6 +9,7 @@
 
 import { Project, SourceFile, SyntaxKind } from 'ts-morph';
 import type { ModelRouter } from '../router/types.js';
+import { getFunctionId } from '../adapters/typescript/ast.js';
 import type {
   TransformationCatalog,
   MassDefectConfig,
@@ -108,10 +109,17 @@ function initializeFunctionStates(
   const functions = sourceFile.getFunctions();
 
   for (const func of functions) {
+    // Overload signatures have no body to transform
+    if (!func.hasBody()) {
+      continue;
+    }
     const startLine = func.getStartLineNumber();
     const endLine = func.getEndLineNumber();
     const functionName = func.getName() ?? 'anonymous';
-    const functionId = `${filePath}:${functionName}:${String(startLine)}`;
+    const functionId = getFunctionId(func, {
+      ...(config.projectRoot !== undefined ? { projectRoot: config.projectRoot } : {}),
+      ...(config.fileMoves !== undefined ? { fileMoves: config.fileMoves } : {}),
+    });
     const functionCode = func.getFullText();
 
     const metrics = calculateFunctionMetrics(func);
@@ -372,7 +380,7 @@ async function attemptTransformation(
   state: FunctionIterationState,
   transformation: TransformationType,
   catalog: TransformationCatalog,
-  _config: MassDefectConfig,
+  config: MassDefectConfig,
   router: ModelRouter
 ): Promise<boolean> {
   const pattern = catalog.getPattern(transformation.patternId);
@@ -433,10 +441,14 @@ async function attemptTransformation(
       filePath: state.filePath,
       functionName: state.functionName,
       workingDir: process.cwd(),
+      ...(config.differential !== undefined ? { differential: config.differential } : {}),
     }
   );
 
   attempt.verification = verificationResult;
+  if (verificationResult.differential?.counterexample !== undefined) {
+    attempt.counterexample = verificationResult.differential.counterexample;
+  }
 
   if (!verificationResult.passed) {
     attempt.success = false;
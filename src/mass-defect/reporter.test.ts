@@ -71,6 +71,36 @@ describe('formatMassDefectReport', () => {
     expect(report).toContain('Current metrics:');
   });
 
+  it('shows the counterexample that rejected a transformation', () => {
+    const result = createMockMassDefectResult({
+      totalFunctions: 1,
+      transformedFunctions: 0,
+      optimalFunctions: 0,
+      manualReviewFunctions: 1,
+      converged: false,
+    });
+    const [funcResult] = result.functionResults.values();
+    funcResult?.attempts.push({
+      patternId: 'guard-clause',
+      success: false,
+      risk: 2,
+      beforeMetrics: createMockMetrics(20),
+      counterexample: {
+        inputs: ['-0'],
+        original: 'returned -0',
+        transformed: 'returned 0',
+        seed: 42,
+      },
+    });
+
+    const report = formatMassDefectReport(result);
+
+    expect(report).toContain('✗ guard-clause (Risk 2): Failed');
+    expect(report).toContain('Counterexample: (-0) [seed 42]');
+    expect(report).toContain('Original:    returned -0');
+    expect(report).toContain('Transformed: returned 0');
+  });
+
   it('shows configuration targets', () => {
     const result = createMockMassDefectResult({
       totalFunctions: 1,
@@ -7,7 +7,7 @@
  * @packageDocumentation
  */
 
-import type { MassDefectResult } from './types.js';
+import type { Counterexample, MassDefectResult } from './types.js';
 
 /**
  * Metrics improvement summary showing before/after comparisons.
@@ -139,6 +139,7 @@ export function formatMassDefectReport(result: MassDefectResult): string {
           lines.push(
             `    ✗ ${attempt.patternId} (Risk ${String(attempt.risk)}): ${attempt.error ?? 'Failed'}`
           );
+          lines.push(...formatCounterexampleLines(attempt.counterexample));
         }
       }
     }
@@ -168,6 +169,7 @@ export function formatMassDefectReport(result: MassDefectResult): string {
           lines.push(
             `    ✗ ${attempt.patternId} (Risk ${String(attempt.risk)}): ${attempt.error ?? 'Failed'}`
           );
+          lines.push(...formatCounterexampleLines(attempt.counterexample));
         }
       }
     }
@@ -299,3 +301,20 @@ function calculateMetricsImprovement(result: MassDefectResult): MetricsImproveme
     },
   };
 }
+
+/**
+ * Formats the counterexample that rejected a transformation, if any.
+ *
+ * @param counterexample - The input on which the transformed function behaved differently.
+ * @returns Indented report lines (empty when there is no counterexample).
+ */
+function formatCounterexampleLines(counterexample: Counterexample | undefined): string[] {
+  if (counterexample === undefined) {
+    return [];
+  }
+  return [
+    `      Counterexample: (${counterexample.inputs.join(', ')}) [seed ${String(counterexample.seed)}]`,
+    `        Original:    ${counterexample.original}`,
+    `        Transformed: ${counterexample.transformed}`,
+  ];
+}
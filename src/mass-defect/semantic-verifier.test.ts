@@ -421,5 +421,64 @@ describe('semantic-verifier', () => {
       expect(result.errors).toEqual([]);
       expect(result.testsRun).toBe(0);
     });
+
+    it('rejects behavior changes found by differential verification before running tests', async () => {
+      const context = createContext({
+        functionName: 'clamp',
+        differential: { numRuns: 50, seed: 42 },
+      });
+
+      vi.mocked(runTypeCheck).mockResolvedValue({
+        success: true,
+        errors: [],
+        errorCount: 0,
+        warningCount: 0,
+      });
+
+      const result = await verifyTransformation(
+        'function clamp(n: number): number { return n < 0 ? 0 : n; }',
+        'function clamp(n: number): number { return Math.max(0, n); }',
+        2,
+        context
+      );
+
+      expect(result.passed).toBe(false);
+      expect(result.errors).toEqual([
+        'Behavior differs from the original on clamp(-0): original returned -0, transformed returned 0 (seed 42)',
+      ]);
+      expect(result.differential?.counterexample?.inputs).toEqual(['-0']);
+      expect(runVitestTests).not.toHaveBeenCalled();
+    });
+
+    it('runs tests as usual when differential verification is skipped', async () => {
+      const context = createContext({ differential: { numRuns: 50 } });
+
+      vi.mocked(runTypeCheck).mockResolvedValue({
+        success: true,
+        errors: [],
+        errorCount: 0,
+        warningCount: 0,
+      });
+
+      vi.mocked(runVitestTests).mockResolvedValue({
+        success: true,
+        totalTests: 2,
+        passedTests: 2,
+        failedTests: 0,
+        skippedTests: 0,
+        tests: [],
+      });
+
+      const result = await verifyTransformation(
+        'function calculateTotal(items: LineItem[]): number { return sum(items); }',
+        'function calculateTotal(items: LineItem[]): number { return sum(items); }',
+        2,
+        context
+      );
+
+      expect(result.passed).toBe(true);
+      expect(result.testsRun).toBe(2);
+      expect(result.differential).toMatchObject({ status: 'skipped' });
+    });
   });
 });
@@ -7,9 +7,15 @@
  * @packageDocumentation
  */
 
-import type { RiskLevel, VerificationResult, VerificationContext } from './types.js';
+import type {
+  DifferentialResult,
+  RiskLevel,
+  VerificationResult,
+  VerificationContext,
+} from './types.js';
 import { runTypeCheck } from '../adapters/typescript/typecheck.js';
 import { runTests as runVitestTests } from '../adapters/typescript/testrunner.js';
+import { formatCounterexample, verifyDifferential } from './differential-verifier.js';
 
 /**
  * Verifies a transformation preserves program behavior.
@@ -20,6 +26,10 @@ import { runTests as runVitestTests } from '../adapters/typescript/testrunner.js
  * - Risk 3 (Moderate): TypeScript compilation + unit tests for entire module
  * - Risk 4 (Structural): TypeScript compilation + full test suite
  *
+ * When `context.differential` is set, the original and transformed function
+ * are also run side by side on generated inputs after compilation, and any
+ * observable difference fails verification before the tests run.
+ *
  * @param original - The original function code.
  * @param transformed - The transformed function code.
  * @param risk - The risk level of the transformation.
@@ -29,6 +39,8 @@ import { runTests as runVitestTests } from '../adapters/typescript/testrunner.js
  * @remarks
  * The verifier:
  * - Always runs TypeScript type checking via tsc
+ * - Optionally compares both versions on fast-check inputs, reporting the
+ *   shrunk counterexample in `result.differential`
  * - Uses vitest for test execution with appropriate filters
  * - Returns clear error messages on failure for revert decisions
  * - Counts all tests run for reporting
@@ -64,8 +76,8 @@ import { runTests as runVitestTests } from '../adapters/typescript/testrunner.js
  * // result.passed === false, result.errors includes test failure
  */
 export async function verifyTransformation(
-  _original: string,
-  _transformed: string,
+  original: string,
+  transformed: string,
   risk: RiskLevel,
   context: VerificationContext
 ): Promise<VerificationResult> {
@@ -87,6 +99,26 @@ export async function verifyTransformation(
     };
   }
 
+  // Compare both versions on generated inputs when enabled
+  let differential: DifferentialResult | undefined;
+  if (context.differential !== undefined) {
+    differential = await verifyDifferential(
+      original,
+      transformed,
+      context.functionName,
+      context.differential
+    );
+    if (differential.counterexample !== undefined) {
+      errors.push(formatCounterexample(context.functionName, differential.counterexample));
+      return {
+        passed: false,
+        errors,
+        testsRun,
+        differential,
+      };
+    }
+  }
+
   // Run tests based on risk level
   switch (risk) {
     case 1: {
@@ -145,5 +177,6 @@ export async function verifyTransformation(
     passed: errors.length === 0,
     errors,
     testsRun,
+    ...(differential !== undefined ? { differential } : {}),
   };
 }
@@ -0,0 +1,64 @@
+/**
+ * Tests for syntax selectors.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SyntaxKind } from 'ts-morph';
+import { parseSyntaxSelector, querySyntax, type SyntaxSelectorStep } from './syntax-query.js';
+import { createSourceFileFromString } from './complexity-analyzer.js';
+
+function parse(selector: string): SyntaxSelectorStep[] {
+  const steps = parseSyntaxSelector(selector);
+  if (typeof steps === 'string') {
+    throw new Error(steps);
+  }
+  return steps;
+}
+
+describe('parseSyntaxSelector', () => {
+  it('parses descendant and child combinators', () => {
+    expect(parseSyntaxSelector('IfStatement>Block  ReturnStatement')).toEqual([
+      { kind: SyntaxKind.IfStatement, combinator: 'descendant' },
+      { kind: SyntaxKind.Block, combinator: 'child' },
+      { kind: SyntaxKind.ReturnStatement, combinator: 'descendant' },
+    ]);
+  });
+
+  it.each([
+    ['', 'Empty selector'],
+    ['Conditional', 'Unknown syntax kind "Conditional"'],
+    ['> Block', "Unexpected '>'"],
+    ['IfStatement > > Block', "Unexpected '>'"],
+    ['IfStatement >', "ends with '>'"],
+  ])('rejects %j', (selector, message) => {
+    expect(parseSyntaxSelector(selector)).toContain(message);
+  });
+});
+
+describe('querySyntax', () => {
+  const sourceFile = createSourceFileFromString(`
+function pick(a: number, b: number): string {
+  const sign = a > 0 ? (b > 0 ? 'both' : 'a') : 'none';
+  try {
+    return sign;
+  } catch {
+    return a > b ? 'a' : 'b';
+  }
+}
+`);
+
+  it('matches nodes with a matching ancestor', () => {
+    const matches = querySyntax(sourceFile, parse('ConditionalExpression ConditionalExpression'));
+
+    expect(matches.map((node) => node.getText())).toEqual(["b > 0 ? 'both' : 'a'"]);
+  });
+
+  it('requires direct parents for child combinators', () => {
+    expect(querySyntax(sourceFile, parse('CatchClause > ReturnStatement'))).toHaveLength(0);
+    expect(
+      querySyntax(sourceFile, parse('CatchClause > Block > ReturnStatement')).map((node) =>
+        node.getText()
+      )
+    ).toEqual(["return a > b ? 'a' : 'b';"]);
+  });
+});
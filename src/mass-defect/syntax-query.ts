@@ -0,0 +1,114 @@
+/**
+ * Syntax selectors for custom ts-morph smell detection rules.
+ *
+ * A selector is a chain of `SyntaxKind` names separated by whitespace (any
+ * descendant) or `>` (direct child), matched like a CSS selector: the last
+ * name is the reported node, and the names before it must appear among its
+ * ancestors in order.
+ *
+ * @example
+ * // Nested ternaries
+ * 'ConditionalExpression ConditionalExpression'
+ *
+ * @example
+ * // Catch clauses whose body is a bare block
+ * 'CatchClause > Block'
+ *
+ * @packageDocumentation
+ */
+
+import { SyntaxKind, type Node } from 'ts-morph';
+
+/**
+ * One step of a parsed syntax selector.
+ */
+export interface SyntaxSelectorStep {
+  /** The kind of node this step matches. */
+  kind: SyntaxKind;
+  /** How this step relates to the previous one (ignored for the first step). */
+  combinator: 'descendant' | 'child';
+}
+
+/**
+ * Parses a syntax selector.
+ *
+ * @param selector - The selector text, e.g. `IfStatement > Block IfStatement`.
+ * @returns The parsed steps, or an error message naming the invalid part.
+ */
+export function parseSyntaxSelector(selector: string): SyntaxSelectorStep[] | string {
+  const tokens = selector
+    .replace(/>/g, ' > ')
+    .split(/\s+/)
+    .filter((token) => token !== '');
+  const steps: SyntaxSelectorStep[] = [];
+  let combinator: SyntaxSelectorStep['combinator'] = 'descendant';
+
+  for (const token of tokens) {
+    if (token === '>') {
+      if (steps.length === 0 || combinator === 'child') {
+        return `Unexpected '>' in selector "${selector}"`;
+      }
+      combinator = 'child';
+      continue;
+    }
+
+    const kind: unknown = Reflect.get(SyntaxKind, token);
+    if (typeof kind !== 'number') {
+      return `Unknown syntax kind "${token}" in selector "${selector}"`;
+    }
+    steps.push({ kind, combinator });
+    combinator = 'descendant';
+  }
+
+  if (steps.length === 0) {
+    return 'Empty selector';
+  }
+  if (combinator === 'child') {
+    return `Selector "${selector}" ends with '>'`;
+  }
+  return steps;
+}
+
+/**
+ * Finds the nodes under `root` that match a parsed selector.
+ *
+ * @param root - The node to search (e.g. a source file or function).
+ * @param steps - The parsed selector.
+ * @returns Matching nodes in document order.
+ */
+export function querySyntax(root: Node, steps: readonly SyntaxSelectorStep[]): Node[] {
+  const last = steps[steps.length - 1];
+  if (last === undefined) {
+    return [];
+  }
+  return root
+    .getDescendantsOfKind(last.kind)
+    .filter((node) => matchesAncestors(node, steps, steps.length - 1));
+}
+
+/**
+ * Checks that the steps before `index` match the ancestors of `node`.
+ */
+function matchesAncestors(
+  node: Node,
+  steps: readonly SyntaxSelectorStep[],
+  index: number
+): boolean {
+  const step = steps[index];
+  const previous = steps[index - 1];
+  if (step === undefined || previous === undefined) {
+    return true;
+  }
+
+  let ancestor = node.getParent();
+  while (ancestor !== undefined) {
+    if (ancestor.getKind() === previous.kind && matchesAncestors(ancestor, steps, index - 1)) {
+      return true;
+    }
+    if (step.combinator === 'child') {
+      return false;
+    }
+    ancestor = ancestor.getParent();
+  }
+  return false;
+}
@@ -41,6 +41,7 @@ export async function applyTransformation(
     const result = await router.complete({
       modelAlias,
       prompt,
+      taskType: 'transform',
       parameters: {
         maxTokens: 4000,
         temperature: 0.3,
@@ -249,6 +249,9 @@ describe('Mass Defect Types', () => {
         getSmellsByCategory(_category: SmellCategory) {
           return [];
         },
+        getSmells() {
+          return [];
+        },
         selectPatterns(_detectedSmells, _functionContext) {
           return [];
         },
@@ -4,6 +4,10 @@
  * @packageDocumentation
  */
 
+import type { WitnessDefinition } from '../adapters/typescript/witness.js';
+import type { FunctionId } from '../adapters/typescript/function-id.js';
+import type { FileMove } from '../ledger/types.js';
+
 /**
  * Smell categories for code smell classification.
  */
@@ -45,10 +49,15 @@ export type VerificationScope =
  * Tool rule for code smell detection.
  */
 export interface ToolRule {
-  /** Name of the tool (e.g., 'eslint', 'pylint'). */
+  /** Name of the tool (e.g., 'eslint', 'ts-morph', 'pylint'). */
   name: string;
-  /** Rule identifier in the tool. */
+  /**
+   * Rule identifier in the tool. For 'ts-morph' this is a syntax selector
+   * such as `ConditionalExpression ConditionalExpression`.
+   */
   rule: string;
+  /** Rule options (ESLint rules only), e.g. `[{ max: 2 }]`. */
+  options?: unknown[];
 }
 
 /**
@@ -101,6 +110,18 @@ export interface PromptTemplate {
   template: string;
 }
 
+/**
+ * A before/after example of a pattern, run as a self-test by `crit catalog lint`.
+ */
+export interface PatternExample {
+  /** Short description of the example. */
+  name?: string;
+  /** TypeScript code before the transformation. */
+  before: string;
+  /** TypeScript code after the transformation. */
+  after: string;
+}
+
 /**
  * Definition of a transformation pattern.
  */
@@ -123,6 +144,18 @@ export interface PatternDefinition {
   enables: string[];
   /** Prompt template for LLM transformation. */
   prompt: PromptTemplate;
+  /** Explicit examples (defaults to the TypeScript BEFORE/AFTER blocks in the prompt). */
+  examples?: PatternExample[];
+}
+
+/**
+ * Per-layer catalog settings, read from `catalog.toml` in the layer directory.
+ */
+export interface CatalogManifest {
+  /** Smell IDs from lower layers to remove. */
+  disabledSmells: string[];
+  /** Pattern IDs from lower layers to remove. */
+  disabledPatterns: string[];
 }
 
 /**
@@ -164,9 +197,9 @@ export interface ComplexityMetrics {
 }
 
 /**
- * Unique identifier for a function.
+ * Unique identifier for a function: the canonical id shared with injection.
  */
-export type FunctionId = string;
+export type { FunctionId } from '../adapters/typescript/function-id.js';
 
 /**
  * Context for a function being transformed.
@@ -219,6 +252,12 @@ export interface TransformationCatalog {
    */
   getSmellsByCategory(category: SmellCategory): SmellDefinition[];
 
+  /**
+   * Get all smells.
+   * @returns Array of all smell definitions.
+   */
+  getSmells(): SmellDefinition[];
+
   /**
    * Select applicable patterns for detected smells.
    * @param detectedSmells - Array of detected smells.
@@ -245,6 +284,12 @@ export interface MassDefectConfig {
   minTestCoverage: number;
   /** Path to the transformation catalog directory. */
   catalogPath: string;
+  /** Differential verification options (disabled when omitted). */
+  differential?: DifferentialOptions;
+  /** Project root that function ids are relative to. Default: the current directory. */
+  projectRoot?: string;
+  /** File moves recorded in the ledger, oldest first, for stable function ids. */
+  fileMoves?: readonly FileMove[];
 }
 
 /**
@@ -275,6 +320,55 @@ export interface VerificationContext {
   moduleName?: string;
   /** Working directory for running tests. */
   workingDir: string;
+  /** Run the original and transformed function side by side with these options. */
+  differential?: DifferentialOptions;
+}
+
+/**
+ * Options for differential verification of a transformation.
+ */
+export interface DifferentialOptions {
+  /** Number of generated inputs to run both versions on. */
+  numRuns: number;
+  /** Witness types whose arbitraries generate inputs for parameters of that type. */
+  witnesses?: WitnessDefinition[];
+  /** Time limit for a single call of either version, in milliseconds (default 1000). */
+  callTimeoutMs?: number;
+  /** Seed for input generation (random when omitted). */
+  seed?: number;
+}
+
+/**
+ * An input on which the original and transformed function behave differently.
+ */
+export interface Counterexample {
+  /** The generated arguments, rendered as source. */
+  inputs: string[];
+  /** What the original function did, e.g. `returned 3`. */
+  original: string;
+  /** What the transformed function did, e.g. `threw RangeError: negative`. */
+  transformed: string;
+  /** Seed that reproduces the run. */
+  seed: number;
+}
+
+/**
+ * Outcome of differential verification.
+ */
+export type DifferentialStatus = 'equivalent' | 'different' | 'skipped';
+
+/**
+ * Result of running the original and transformed function side by side.
+ */
+export interface DifferentialResult {
+  /** Whether both versions behaved the same on every input. */
+  status: DifferentialStatus;
+  /** Number of inputs both versions were run on. */
+  runs: number;
+  /** Why the check could not run (if skipped). */
+  reason?: string;
+  /** The input that told the versions apart (if different). */
+  counterexample?: Counterexample;
 }
 
 /**
@@ -287,6 +381,8 @@ export interface VerificationResult {
   errors: string[];
   /** Number of tests run. */
   testsRun: number;
+  /** Differential verification result (if enabled). */
+  differential?: DifferentialResult;
 }
 
 /**
@@ -312,6 +408,8 @@ export interface TransformationAttempt {
   error?: string;
   /** Verification result (if transformation was applied). */
   verification?: VerificationResult;
+  /** Input on which the transformed function behaved differently (if rejected for it). */
+  counterexample?: Counterexample;
 }
 
 /**
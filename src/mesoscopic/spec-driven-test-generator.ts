@@ -142,6 +142,7 @@ async function generateTestsWithModel(
       const result = await options.modelRouter.complete({
         modelAlias: 'structurer',
         prompt,
+        taskType: 'structure',
         parameters: {
           maxTokens: 4000,
           temperature: 0.3,
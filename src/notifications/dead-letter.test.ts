@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  DeadLetterError,
+  appendDeadLetter,
+  getDeadLetterPath,
+  loadDeadLetters,
+  retryDeadLetters,
+  type DeadLetter,
+} from './dead-letter.js';
+import { NotificationService } from './service.js';
+import { WEBHOOK_DELIVERY_HEADER, WEBHOOK_SIGNATURE_HEADER, WebhookSender } from './webhook.js';
+import type { NotificationChannel } from './types.js';
+import type { BlockingRecord } from '../protocol/blocking.js';
+
+const ENDPOINT = 'https://example.com/webhook';
+
+function deadLetter(overrides: Partial<DeadLetter> = {}): DeadLetter {
+  return {
+    id: 'delivery-1',
+    event: 'block',
+    endpoint: ENDPOINT,
+    payload: {
+      event: 'block',
+      timestamp: '2024-02-07T12:00:00Z',
+      protocol_state: {
+        phase: 'Lattice',
+        state_kind: 'Blocked',
+        substate: { kind: 'Blocking', query: 'Approve?' },
+      },
+    },
+    attempts: 4,
+    last_error: 'HTTP 503: Service Unavailable',
+    first_failed_at: '2024-02-07T12:00:10.000Z',
+    last_failed_at: '2024-02-07T12:00:10.000Z',
+    ...overrides,
+  };
+}
+
+const WEBHOOK_CHANNEL: NotificationChannel = {
+  type: 'webhook',
+  endpoint: ENDPOINT,
+  enabled: true,
+  events: ['block'],
+  secret: 's3cret',
+};
+
+describe('dead-letter queue', () => {
+  let tempDir: string;
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let originalFetch: typeof fetch;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), 'dead-letter-test-'));
+    mockFetch = vi.fn();
+    originalFetch = global.fetch;
+    global.fetch = mockFetch as unknown as typeof fetch;
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    rmSync(tempDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('should load an empty queue when there is no file', async () => {
+    expect(await loadDeadLetters(tempDir)).toEqual([]);
+  });
+
+  it('should append letters and update an existing delivery in place', async () => {
+    await appendDeadLetter(tempDir, deadLetter());
+    await appendDeadLetter(tempDir, deadLetter({ id: 'delivery-2' }));
+    await appendDeadLetter(tempDir, deadLetter({ attempts: 8 }));
+
+    const letters = await loadDeadLetters(tempDir);
+
+    expect(letters.map((letter) => [letter.id, letter.attempts])).toEqual([
+      ['delivery-1', 8],
+      ['delivery-2', 4],
+    ]);
+  });
+
+  it('should reject a malformed file', async () => {
+    writeFileSync(getDeadLetterPath(tempDir), JSON.stringify({ version: 1, dead_letters: [{}] }));
+
+    await expect(loadDeadLetters(tempDir)).rejects.toThrow(DeadLetterError);
+  });
+
+  it('should replay letters with their original delivery ID and the current secret', async () => {
+    await appendDeadLetter(tempDir, deadLetter());
+    mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+    const result = await retryDeadLetters(
+      tempDir,
+      [WEBHOOK_CHANNEL],
+      new WebhookSender({ retry: { maxAttempts: 1 } })
+    );
+
+    expect(result.delivered.map((letter) => letter.id)).toEqual(['delivery-1']);
+    const init = mockFetch.mock.calls[0]?.[1] as { headers: Record<string, string> };
+    expect(init.headers[WEBHOOK_DELIVERY_HEADER]).toBe('delivery-1');
+    expect(init.headers[WEBHOOK_SIGNATURE_HEADER]).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(await loadDeadLetters(tempDir)).toEqual([]);
+  });
+
+  it('should keep failed and unmatched letters queued', async () => {
+    await appendDeadLetter(tempDir, deadLetter());
+    await appendDeadLetter(
+      tempDir,
+      deadLetter({ id: 'delivery-2', endpoint: 'https://removed.example.com/hook' })
+    );
+    mockFetch.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+
+    const result = await retryDeadLetters(
+      tempDir,
+      [WEBHOOK_CHANNEL],
+      new WebhookSender({ retry: { maxAttempts: 2, baseDelayMs: 0 } }),
+      () => new Date('2024-02-08T09:00:00.000Z')
+    );
+
+    expect(result.failed.map((letter) => letter.id)).toEqual(['delivery-1']);
+    expect(result.skipped.map((letter) => letter.id)).toEqual(['delivery-2']);
+    expect(await loadDeadLetters(tempDir)).toEqual([
+      deadLetter({ attempts: 6, last_failed_at: '2024-02-08T09:00:00.000Z' }),
+      deadLetter({ id: 'delivery-2', endpoint: 'https://removed.example.com/hook' }),
+    ]);
+  });
+
+  it('should queue webhook deliveries that exhaust their retries', async () => {
+    const service = new NotificationService(
+      {
+        enabled: true,
+        channels: [{ type: 'webhook', endpoint: ENDPOINT, enabled: true, events: ['block'] }],
+      },
+      { stateDir: tempDir, webhookRetry: { maxAttempts: 2, baseDelayMs: 0 } }
+    );
+    const record: BlockingRecord = {
+      id: 'blocking_lattice_1',
+      phase: 'Lattice',
+      query: 'Approve?',
+      blockedAt: '2024-02-07T12:00:00Z',
+      resolved: false,
+    };
+    mockFetch.mockRejectedValue(new Error('Network error'));
+
+    const sent = await service.notify('block', record);
+
+    expect(sent.allSucceeded).toBe(false);
+    const [letter] = await loadDeadLetters(tempDir);
+    expect(letter).toMatchObject({
+      event: 'block',
+      endpoint: ENDPOINT,
+      attempts: 2,
+      last_error: 'Network error',
+    });
+    expect(letter?.payload.blocking_record).toEqual(record);
+
+    mockFetch.mockResolvedValue({ ok: true, status: 200 });
+    const replayed = await service.retryDeadLetters();
+
+    expect(replayed.delivered).toHaveLength(1);
+    expect(await loadDeadLetters(tempDir)).toEqual([]);
+  });
+});
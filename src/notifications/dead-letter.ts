@@ -0,0 +1,254 @@
+/**
+ * Dead-letter queue for webhook notifications.
+ *
+ * Webhook deliveries that still fail after all retries are persisted here
+ * with their full payload, so they can be replayed later with
+ * `crit notifications retry` instead of being lost.
+ *
+ * @packageDocumentation
+ */
+
+import * as path from 'node:path';
+import {
+  safeExists,
+  safeMkdir,
+  safeReadFile,
+  safeRename,
+  safeWriteFile,
+} from '../utils/safe-fs.js';
+import type { NotificationChannel, NotificationEvent, WebhookPayload } from './types.js';
+import type { WebhookSender } from './webhook.js';
+
+/**
+ * File name of the dead-letter queue within the state directory.
+ */
+export const DEAD_LETTER_FILENAME = 'notification-dead-letters.json';
+
+/**
+ * Current dead-letter file format version.
+ */
+const DEAD_LETTER_VERSION = 1;
+
+/**
+ * A webhook delivery that exhausted its retries.
+ */
+export interface DeadLetter {
+  /** Delivery ID, reused when the delivery is replayed. */
+  readonly id: string;
+  /** The notification event. */
+  readonly event: NotificationEvent;
+  /** Webhook endpoint the delivery was addressed to. */
+  readonly endpoint: string;
+  /** The undelivered payload. */
+  readonly payload: WebhookPayload;
+  /** Total delivery attempts so far. */
+  readonly attempts: number;
+  /** Error from the most recent attempt. */
+  readonly last_error: string;
+  /** When the delivery first failed (ISO 8601). */
+  readonly first_failed_at: string;
+  /** When the delivery last failed (ISO 8601). */
+  readonly last_failed_at: string;
+}
+
+/**
+ * Outcome of replaying the dead-letter queue.
+ */
+export interface DeadLetterRetryResult {
+  /** Deliveries that succeeded and were removed from the queue. */
+  readonly delivered: readonly DeadLetter[];
+  /** Deliveries that failed again and remain queued. */
+  readonly failed: readonly DeadLetter[];
+  /** Deliveries whose endpoint is no longer a configured webhook channel. */
+  readonly skipped: readonly DeadLetter[];
+}
+
+/**
+ * Error thrown when the dead-letter file cannot be read.
+ */
+export class DeadLetterError extends Error {
+  /** Path of the dead-letter file. */
+  public readonly filePath: string;
+
+  /**
+   * Creates a new DeadLetterError.
+   *
+   * @param message - Descriptive error message.
+   * @param filePath - Path of the dead-letter file.
+   */
+  constructor(message: string, filePath: string) {
+    super(message);
+    this.name = 'DeadLetterError';
+    this.filePath = filePath;
+  }
+}
+
+/**
+ * Gets the dead-letter file path for a state directory.
+ *
+ * @param stateDir - Directory holding notification state.
+ * @returns Path of the dead-letter file.
+ */
+export function getDeadLetterPath(stateDir: string): string {
+  return path.join(stateDir, DEAD_LETTER_FILENAME);
+}
+
+/**
+ * Type guard for a persisted dead letter.
+ */
+function isDeadLetter(value: unknown): value is DeadLetter {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const letter = value as Record<string, unknown>;
+  return (
+    typeof letter.id === 'string' &&
+    typeof letter.event === 'string' &&
+    typeof letter.endpoint === 'string' &&
+    typeof letter.payload === 'object' &&
+    letter.payload !== null &&
+    typeof letter.attempts === 'number' &&
+    typeof letter.last_error === 'string' &&
+    typeof letter.first_failed_at === 'string' &&
+    typeof letter.last_failed_at === 'string'
+  );
+}
+
+/**
+ * Loads the dead-letter queue.
+ *
+ * @param stateDir - Directory holding notification state.
+ * @returns Queued deliveries, oldest first; empty if there is no file.
+ * @throws DeadLetterError if the file exists but is malformed.
+ */
+export async function loadDeadLetters(stateDir: string): Promise<DeadLetter[]> {
+  const filePath = getDeadLetterPath(stateDir);
+  if (!(await safeExists(filePath))) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await safeReadFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new DeadLetterError(
+      `Failed to read dead-letter file: ${error instanceof Error ? error.message : String(error)}`,
+      filePath
+    );
+  }
+
+  const file = parsed as { version?: unknown; dead_letters?: unknown };
+  if (
+    file.version !== DEAD_LETTER_VERSION ||
+    !Array.isArray(file.dead_letters) ||
+    !file.dead_letters.every(isDeadLetter)
+  ) {
+    throw new DeadLetterError('Dead-letter file has an unrecognized format', filePath);
+  }
+
+  return file.dead_letters;
+}
+
+/**
+ * Replaces the dead-letter queue on disk with an atomic write.
+ *
+ * @param stateDir - Directory holding notification state.
+ * @param letters - The deliveries to keep queued.
+ */
+export async function saveDeadLetters(
+  stateDir: string,
+  letters: readonly DeadLetter[]
+): Promise<void> {
+  const filePath = getDeadLetterPath(stateDir);
+  const tmpPath = `${filePath}.tmp`;
+  await safeMkdir(stateDir, { recursive: true });
+  await safeWriteFile(
+    tmpPath,
+    JSON.stringify({ version: DEAD_LETTER_VERSION, dead_letters: letters }, null, 2),
+    'utf-8'
+  );
+  await safeRename(tmpPath, filePath);
+}
+
+/**
+ * Adds a failed delivery to the dead-letter queue.
+ *
+ * A delivery already queued under the same ID is updated in place.
+ *
+ * @param stateDir - Directory holding notification state.
+ * @param letter - The failed delivery.
+ */
+export async function appendDeadLetter(stateDir: string, letter: DeadLetter): Promise<void> {
+  const letters = await loadDeadLetters(stateDir);
+  const existing = letters.findIndex((queued) => queued.id === letter.id);
+  if (existing === -1) {
+    letters.push(letter);
+  } else {
+    letters.splice(existing, 1, letter);
+  }
+  await saveDeadLetters(stateDir, letters);
+}
+
+/**
+ * Replays every queued delivery.
+ *
+ * Each delivery is re-sent with its original delivery ID, signed with the
+ * current secret of the webhook channel that has its endpoint. Delivered
+ * entries are removed; failed and skipped entries stay queued.
+ *
+ * @param stateDir - Directory holding notification state.
+ * @param channels - Currently configured notification channels.
+ * @param sender - Sender used for the replay (with its retry policy).
+ * @param now - Clock for failure timestamps.
+ * @returns What was delivered, what failed again, and what was skipped.
+ */
+export async function retryDeadLetters(
+  stateDir: string,
+  channels: readonly NotificationChannel[],
+  sender: WebhookSender,
+  now: () => Date = () => new Date()
+): Promise<DeadLetterRetryResult> {
+  const letters = await loadDeadLetters(stateDir);
+  const delivered: DeadLetter[] = [];
+  const failed: DeadLetter[] = [];
+  const skipped: DeadLetter[] = [];
+
+  for (const letter of letters) {
+    const channel = channels.find(
+      (candidate) => candidate.type === 'webhook' && candidate.endpoint === letter.endpoint
+    );
+    if (channel === undefined) {
+      skipped.push(letter);
+      continue;
+    }
+
+    const result = await sender.deliver(letter.endpoint, letter.payload, {
+      deliveryId: letter.id,
+      ...(channel.secret !== undefined ? { secret: channel.secret } : {}),
+    });
+
+    if (result.success) {
+      delivered.push(letter);
+    } else {
+      failed.push({
+        ...letter,
+        attempts: letter.attempts + result.attempts,
+        last_error: result.error,
+        last_failed_at: now().toISOString(),
+      });
+    }
+  }
+
+  if (letters.length > 0) {
+    const remaining = new Map([...failed, ...skipped].map((letter) => [letter.id, letter]));
+    await saveDeadLetters(
+      stateDir,
+      letters.flatMap((letter) => {
+        const kept = remaining.get(letter.id);
+        return kept !== undefined ? [kept] : [];
+      })
+    );
+  }
+
+  return { delivered, failed, skipped };
+}
@@ -0,0 +1,334 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server, type Socket } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, rmSync } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { EmailSender, buildMimeMessage, getResolveCommand, renderEmail } from './email.js';
+import { NotificationService, loadNotificationHistory } from './service.js';
+import type { NotificationChannel, WebhookPayload } from './types.js';
+import type { BlockingRecord } from '../protocol/blocking.js';
+
+/**
+ * A message accepted by the SMTP sink.
+ */
+interface SinkMessage {
+  readonly from: string;
+  readonly to: readonly string[];
+  readonly data: string;
+}
+
+/**
+ * Local SMTP sink that accepts every message.
+ *
+ * Speaks just enough ESMTP for the sender: greeting, EHLO, MAIL, RCPT,
+ * DATA, and QUIT. Setting `rejectRecipients` answers RCPT with 550.
+ */
+interface SmtpSink {
+  readonly port: number;
+  readonly messages: SinkMessage[];
+  readonly commands: string[];
+  rejectRecipients: boolean;
+  close(): Promise<void>;
+}
+
+async function startSmtpSink(): Promise<SmtpSink> {
+  const messages: SinkMessage[] = [];
+  const commands: string[] = [];
+  const sockets = new Set<Socket>();
+  const sink = { rejectRecipients: false };
+
+  const server: Server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.setEncoding('utf-8');
+
+    let buffer = '';
+    let inData = false;
+    let from = '';
+    let to: string[] = [];
+
+    socket.write('220 sink.test ESMTP\r\n');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+
+      for (;;) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) {
+            return;
+          }
+          messages.push({ from, to, data: buffer.slice(0, end).replace(/^\.\./gm, '.') });
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 OK queued\r\n');
+          continue;
+        }
+
+        const lineEnd = buffer.indexOf('\r\n');
+        if (lineEnd === -1) {
+          return;
+        }
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        commands.push(line);
+        const verb = line.split(' ')[0]?.toUpperCase();
+
+        if (verb === 'EHLO') {
+          socket.write('250-sink.test\r\n250 SIZE 1000000\r\n');
+        } else if (verb === 'MAIL') {
+          from = /<(.*)>/.exec(line)?.[1] ?? '';
+          to = [];
+          socket.write('250 OK\r\n');
+        } else if (verb === 'RCPT') {
+          if (sink.rejectRecipients) {
+            socket.write('550 No such user\r\n');
+          } else {
+            to.push(/<(.*)>/.exec(line)?.[1] ?? '');
+            socket.write('250 OK\r\n');
+          }
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('502 Command not implemented\r\n');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => {
+    server.listen(0, '127.0.0.1', resolve);
+  });
+
+  return Object.assign(sink, {
+    port: (server.address() as AddressInfo).port,
+    messages,
+    commands,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) {
+          socket.destroy();
+        }
+        server.close(() => {
+          resolve();
+        });
+      }),
+  });
+}
+
+/**
+ * Decodes the base64 body of a MIME part with the given content type.
+ */
+function decodePart(data: string, contentType: string): string {
+  const start = data.indexOf(`Content-Type: ${contentType}`);
+  const bodyStart = data.indexOf('\r\n\r\n', start) + 4;
+  const bodyEnd = data.indexOf('\r\n--', bodyStart);
+  return Buffer.from(data.slice(bodyStart, bodyEnd).replace(/\r\n/g, ''), 'base64').toString(
+    'utf-8'
+  );
+}
+
+const BLOCKING_RECORD: BlockingRecord = {
+  id: 'blocking_lattice_1',
+  phase: 'Lattice',
+  query: 'Use <Money> or number for balances?',
+  options: ['Money', 'number'],
+  blockedAt: '2024-02-07T08:00:00.000Z',
+  resolved: false,
+};
+
+const BLOCK_PAYLOAD: WebhookPayload = {
+  event: 'block',
+  timestamp: '2024-02-07T08:00:00.000Z',
+  blocking_record: BLOCKING_RECORD,
+  protocol_state: {
+    phase: 'Lattice',
+    state_kind: 'Blocked',
+    substate: { kind: 'Blocking', query: BLOCKING_RECORD.query },
+  },
+};
+
+describe('renderEmail', () => {
+  it('should list the options and the resolve command for blocking queries', () => {
+    const email = renderEmail(BLOCK_PAYLOAD, { projectDir: '/work/bank' });
+
+    expect(email.subject).toBe(
+      '[Criticality] Protocol blocked in Lattice: Use <Money> or number for balances?'
+    );
+    expect(email.text).toContain('Options:\n  1. Money\n  2. number\n');
+    expect(email.text).toContain('To resolve, run:\n\n  cd "/work/bank" && crit resolve\n');
+    expect(email.html).toContain('<td>Use &lt;Money&gt; or number for balances?</td>');
+    expect(email.html).toContain('<li>Money</li>\n<li>number</li>');
+    expect(email.html).toContain('<pre>cd &quot;/work/bank&quot; &amp;&amp; crit resolve</pre>');
+  });
+
+  it('should render each event type', () => {
+    const state = { phase: 'Mesoscopic', state_kind: 'Active', substate: { kind: 'Active' } };
+
+    expect(renderEmail({ event: 'complete', timestamp: 't', protocol_state: state }).subject).toBe(
+      '[Criticality] Protocol complete: Mesoscopic'
+    );
+    expect(
+      renderEmail({
+        event: 'phase_change',
+        timestamp: 't',
+        phase_change: { from: 'Injection', to: 'Mesoscopic' },
+        protocol_state: state,
+      }).text
+    ).toContain('Phase changed from Injection to Mesoscopic.');
+    expect(
+      renderEmail({
+        event: 'error',
+        timestamp: 't',
+        blocking_record: BLOCKING_RECORD,
+        protocol_state: state,
+      }).subject
+    ).toBe('[Criticality] Protocol error in Lattice: Use <Money> or number for balances?');
+  });
+
+  it('should use the bare command when the project directory is unknown', () => {
+    expect(getResolveCommand()).toBe('crit resolve');
+  });
+});
+
+describe('buildMimeMessage', () => {
+  it('should encode non-ASCII subjects and strip line breaks', () => {
+    const message = buildMimeMessage({
+      from: 'crit@example.com',
+      to: ['a@example.com'],
+      content: { subject: 'Blocked:\r\nBcc: x@example.com ✓', text: 't', html: 'h' },
+      messageId: '<id@criticality>',
+      date: new Date('2024-02-07T08:00:00.000Z'),
+    });
+
+    const subject = message.split('\r\n').find((line) => line.startsWith('Subject: '));
+    expect(subject).toBe(
+      `Subject: =?UTF-8?B?${Buffer.from('Blocked: Bcc: x@example.com ✓').toString('base64')}?=`
+    );
+    expect(message).not.toContain('\r\nBcc:');
+  });
+});
+
+describe('EmailSender', () => {
+  let sink: SmtpSink;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    sink = await startSmtpSink();
+    tempDir = mkdtempSync(path.join(os.tmpdir(), 'email-test-'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await sink.close();
+    rmSync(tempDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  function emailChannel(overrides: Partial<NotificationChannel> = {}): NotificationChannel {
+    return {
+      type: 'email',
+      endpoint: `smtp://127.0.0.1:${String(sink.port)}`,
+      enabled: true,
+      events: ['block', 'complete'],
+      emailFrom: 'criticality@example.com',
+      emailTo: ['oncall@example.com', 'lead@example.com'],
+      ...overrides,
+    };
+  }
+
+  it('should deliver a multipart message to every recipient', async () => {
+    const sender = new EmailSender({ clientHostname: 'client.test', projectDir: '/work/bank' });
+
+    const result = await sender.send(emailChannel(), BLOCK_PAYLOAD);
+
+    expect(result.success).toBe(true);
+    expect(sink.commands.slice(0, 5)).toEqual([
+      'EHLO client.test',
+      'MAIL FROM:<criticality@example.com>',
+      'RCPT TO:<oncall@example.com>',
+      'RCPT TO:<lead@example.com>',
+      'DATA',
+    ]);
+    expect(sink.messages).toHaveLength(1);
+    const [message] = sink.messages;
+    expect(message?.to).toEqual(['oncall@example.com', 'lead@example.com']);
+    expect(message?.data).toContain('Content-Type: multipart/alternative;');
+    expect(decodePart(message?.data ?? '', 'text/plain')).toBe(
+      renderEmail(BLOCK_PAYLOAD, { projectDir: '/work/bank' }).text
+    );
+    expect(decodePart(message?.data ?? '', 'text/html')).toContain('<li>number</li>');
+  });
+
+  it('should report rejected recipients', async () => {
+    sink.rejectRecipients = true;
+
+    const result = await new EmailSender().send(emailChannel(), BLOCK_PAYLOAD);
+
+    expect(result).toEqual({
+      success: false,
+      error: 'RCPT TO oncall@example.com failed: 550 No such user',
+    });
+  });
+
+  it('should refuse to send credentials without TLS', async () => {
+    const result = await new EmailSender().send(
+      emailChannel({ smtpUsername: 'user', smtpPassword: 'secret' }),
+      BLOCK_PAYLOAD
+    );
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Refusing to send SMTP credentials over an unencrypted connection',
+    });
+    expect(sink.commands.some((command) => command.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('should report unreachable servers', async () => {
+    const result = await new EmailSender({ timeoutMs: 2000 }).send(
+      emailChannel({ endpoint: 'smtp://127.0.0.1:1' }),
+      BLOCK_PAYLOAD
+    );
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should dispatch through NotificationService and record history', async () => {
+    const service = new NotificationService(
+      {
+        enabled: true,
+        channels: [
+          {
+            type: 'email',
+            endpoint: `smtp://127.0.0.1:${String(sink.port)}`,
+            enabled: true,
+            events: ['block'],
+            email_from: 'criticality@example.com',
+            email_to: ['oncall@example.com'],
+          },
+        ],
+      },
+      { stateDir: tempDir }
+    );
+
+    const result = await service.notify('block', BLOCKING_RECORD);
+
+    expect(result.allSucceeded).toBe(true);
+    expect(sink.messages).toHaveLength(1);
+    expect(decodePart(sink.messages[0]?.data ?? '', 'text/plain')).toContain(
+      `cd ${JSON.stringify(tempDir)} && crit resolve`
+    );
+    expect(service.getSentNotifications()).toMatchObject([
+      {
+        event: 'block',
+        channel_type: 'email',
+        endpoint: `smtp://127.0.0.1:${String(sink.port)}`,
+        success: true,
+      },
+    ]);
+    expect(await loadNotificationHistory(tempDir)).toEqual(service.getSentNotifications());
+  });
+});
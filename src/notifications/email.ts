@@ -0,0 +1,653 @@
+/**
+ * Email notification sender.
+ *
+ * Renders notification payloads as plain-text and HTML emails and delivers
+ * them over SMTP. The transport is a minimal SMTP client on node:net and
+ * node:tls: `smtp://` endpoints upgrade with STARTTLS when the server offers
+ * it, `smtps://` endpoints use implicit TLS.
+ *
+ * @packageDocumentation
+ */
+
+import * as net from 'node:net';
+import * as os from 'node:os';
+import * as tls from 'node:tls';
+import { randomUUID } from 'node:crypto';
+import type { BlockingRecord } from '../protocol/blocking.js';
+import type { NotificationChannel, WebhookPayload } from './types.js';
+
+/**
+ * Default SMTP port for `smtp://` endpoints (message submission).
+ */
+const DEFAULT_SMTP_PORT = 587;
+
+/**
+ * Default SMTP port for `smtps://` endpoints (implicit TLS).
+ */
+const DEFAULT_SMTPS_PORT = 465;
+
+/**
+ * Maximum subject length before the query text is truncated.
+ */
+const MAX_SUBJECT_LENGTH = 120;
+
+/**
+ * Rendered email content.
+ */
+export interface EmailContent {
+  /** Subject line (unencoded). */
+  readonly subject: string;
+  /** Plain-text body. */
+  readonly text: string;
+  /** HTML body. */
+  readonly html: string;
+}
+
+/**
+ * Options for rendering emails.
+ */
+export interface EmailRenderOptions {
+  /** Project directory to run `crit resolve` from, when known. */
+  readonly projectDir?: string;
+}
+
+/**
+ * Configuration for the email sender.
+ */
+export interface EmailSenderOptions {
+  /** Timeout in milliseconds for the whole SMTP exchange (default: 10000ms). */
+  readonly timeoutMs?: number;
+  /** Project directory included in resolve instructions. */
+  readonly projectDir?: string;
+  /** Host name announced in EHLO (default: os.hostname()). */
+  readonly clientHostname?: string;
+  /** Whether to verify the server's TLS certificate (default: true). */
+  readonly rejectUnauthorized?: boolean;
+}
+
+/**
+ * Result of a single email send attempt.
+ */
+export type EmailSendResult =
+  | {
+      readonly success: true;
+      /** Message-ID header of the delivered message. */
+      readonly messageId: string;
+    }
+  | {
+      readonly success: false;
+      readonly error: string;
+    };
+
+/**
+ * Error raised for unexpected SMTP replies or transport failures.
+ */
+export class SmtpError extends Error {
+  /** SMTP reply code, when the server answered. */
+  readonly code: number | undefined;
+
+  /**
+   * Creates a new SmtpError.
+   *
+   * @param message - Error message.
+   * @param code - SMTP reply code, if any.
+   */
+  constructor(message: string, code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+    this.code = code;
+  }
+}
+
+/**
+ * Escapes text for inclusion in HTML.
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Truncates text to a maximum length, marking the cut with an ellipsis.
+ */
+function truncate(text: string, maxLength: number): string {
+  return text.length <= maxLength ? text : `${text.slice(0, maxLength - 1)}…`;
+}
+
+/**
+ * Gets the exact command that resolves pending queries.
+ *
+ * @param projectDir - Project directory, if known.
+ * @returns The shell command to run.
+ */
+export function getResolveCommand(projectDir?: string): string {
+  return projectDir !== undefined
+    ? `cd ${JSON.stringify(projectDir)} && crit resolve`
+    : 'crit resolve';
+}
+
+/**
+ * Wraps body markup in a minimal HTML document.
+ */
+function htmlDocument(title: string, body: string): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    `<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>`,
+    '<body style="font-family: sans-serif; line-height: 1.4;">',
+    `<h2>${escapeHtml(title)}</h2>`,
+    body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Renders a blocking query email.
+ */
+function renderBlocking(
+  record: BlockingRecord,
+  options: EmailRenderOptions,
+  title: string
+): EmailContent {
+  const command = getResolveCommand(options.projectDir);
+  const choices = record.options ?? [];
+
+  const textLines = [
+    title,
+    '',
+    `Phase: ${record.phase}`,
+    `Query: ${record.query}`,
+    `Query ID: ${record.id}`,
+    `Blocked since: ${record.blockedAt}`,
+    '',
+  ];
+  if (choices.length > 0) {
+    textLines.push('Options:');
+    choices.forEach((option, index) => {
+      textLines.push(`  ${String(index + 1)}. ${option}`);
+    });
+    textLines.push('');
+  }
+  textLines.push('To resolve, run:', '', `  ${command}`, '');
+
+  const htmlParts = [
+    '<table>',
+    `<tr><th align="left">Phase</th><td>${escapeHtml(record.phase)}</td></tr>`,
+    `<tr><th align="left">Query</th><td>${escapeHtml(record.query)}</td></tr>`,
+    `<tr><th align="left">Query ID</th><td><code>${escapeHtml(record.id)}</code></td></tr>`,
+    `<tr><th align="left">Blocked since</th><td>${escapeHtml(record.blockedAt)}</td></tr>`,
+    '</table>',
+  ];
+  if (choices.length > 0) {
+    htmlParts.push(
+      '<p>Options:</p>',
+      '<ol>',
+      ...choices.map((option) => `<li>${escapeHtml(option)}</li>`),
+      '</ol>'
+    );
+  }
+  htmlParts.push('<p>To resolve, run:</p>', `<pre>${escapeHtml(command)}</pre>`);
+
+  return {
+    subject: `[Criticality] ${title} in ${record.phase}: ${truncate(record.query, MAX_SUBJECT_LENGTH)}`,
+    text: textLines.join('\n'),
+    html: htmlDocument(title, htmlParts.join('\n')),
+  };
+}
+
+/**
+ * Renders a notification payload as an email.
+ *
+ * Block and error events that carry a blocking record list the query, its
+ * options, and the `crit resolve` command to run. Other events summarize
+ * the protocol state.
+ *
+ * @param payload - The notification payload.
+ * @param options - Rendering options.
+ * @returns The subject, plain-text body, and HTML body.
+ */
+export function renderEmail(
+  payload: WebhookPayload,
+  options: EmailRenderOptions = {}
+): EmailContent {
+  const record = payload.blocking_record;
+  const state = payload.protocol_state;
+
+  if (payload.event === 'block' && record !== undefined) {
+    return renderBlocking(record, options, 'Protocol blocked');
+  }
+  if (payload.event === 'error' && record !== undefined) {
+    return renderBlocking(record, options, 'Protocol error');
+  }
+
+  let title: string;
+  let summary: string;
+  switch (payload.event) {
+    case 'complete':
+      title = 'Protocol complete';
+      summary = 'The protocol finished all phases.';
+      break;
+    case 'phase_change':
+      title = 'Phase changed';
+      summary =
+        payload.phase_change !== undefined
+          ? `Phase changed from ${payload.phase_change.from} to ${payload.phase_change.to}.`
+          : `Protocol is now in ${state.phase}.`;
+      break;
+    case 'error':
+      title = 'Protocol error';
+      summary = `Protocol failed in ${state.phase}.`;
+      break;
+    case 'block':
+      title = 'Protocol blocked';
+      summary = `Protocol is blocked in ${state.phase}. Run ${getResolveCommand(options.projectDir)} to continue.`;
+      break;
+  }
+
+  const details = [
+    `Phase: ${state.phase}`,
+    `State: ${state.state_kind}`,
+    `Time: ${payload.timestamp}`,
+  ];
+
+  return {
+    subject: `[Criticality] ${title}: ${state.phase}`,
+    text: [title, '', summary, '', ...details, ''].join('\n'),
+    html: htmlDocument(
+      title,
+      [
+        `<p>${escapeHtml(summary)}</p>`,
+        '<ul>',
+        ...details.map((line) => `<li>${escapeHtml(line)}</li>`),
+        '</ul>',
+      ].join('\n')
+    ),
+  };
+}
+
+/**
+ * Encodes a header value as an RFC 2047 encoded word when it is not ASCII.
+ *
+ * Line breaks are collapsed first so query text cannot inject headers.
+ */
+function encodeHeader(value: string): string {
+  const singleLine = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(singleLine)
+    ? singleLine
+    : `=?UTF-8?B?${Buffer.from(singleLine, 'utf-8').toString('base64')}?=`;
+}
+
+/**
+ * Base64-encodes a body part, wrapped at 76 characters per line.
+ */
+function encodeBody(body: string): string {
+  const encoded = Buffer.from(body, 'utf-8').toString('base64');
+  return (encoded.match(/.{1,76}/g) ?? []).join('\r\n');
+}
+
+/**
+ * Builds a multipart/alternative MIME message.
+ *
+ * @param input - Envelope headers, content, and message metadata.
+ * @returns The message with CRLF line endings, without SMTP dot-stuffing.
+ */
+export function buildMimeMessage(input: {
+  readonly from: string;
+  readonly to: readonly string[];
+  readonly content: EmailContent;
+  readonly messageId: string;
+  readonly date: Date;
+}): string {
+  const boundary = `criticality-${randomUUID()}`;
+
+  return [
+    `From: ${input.from}`,
+    `To: ${input.to.join(', ')}`,
+    `Subject: ${encodeHeader(input.content.subject)}`,
+    `Date: ${input.date.toUTCString()}`,
+    `Message-ID: ${input.messageId}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(input.content.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(input.content.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+/**
+ * A complete SMTP reply.
+ */
+interface SmtpReply {
+  readonly code: number;
+  readonly lines: readonly string[];
+}
+
+/**
+ * Line-oriented SMTP connection that can be upgraded to TLS.
+ */
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = '';
+  private pendingLines: string[] = [];
+  private readonly replies: SmtpReply[] = [];
+  private waiter:
+    | { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }
+    | undefined;
+  private failure: Error | undefined;
+
+  constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  /**
+   * Wires data, error, and close handlers to a socket.
+   */
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf-8');
+    socket.on('data', (chunk: string) => {
+      this.onData(chunk);
+    });
+    socket.on('error', (error: Error) => {
+      this.fail(error);
+    });
+    socket.on('close', () => {
+      this.fail(new SmtpError('Connection closed by server'));
+    });
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let index = this.buffer.indexOf('\r\n');
+    while (index !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.pendingLines.push(line);
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.deliver({ code: Number(line.slice(0, 3)), lines: this.pendingLines });
+        this.pendingLines = [];
+      }
+      index = this.buffer.indexOf('\r\n');
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    if (this.waiter !== undefined) {
+      const { resolve } = this.waiter;
+      this.waiter = undefined;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    if (this.waiter !== undefined) {
+      const { reject } = this.waiter;
+      this.waiter = undefined;
+      reject(this.failure);
+    }
+  }
+
+  /**
+   * Reads the next reply and checks its code.
+   */
+  async expect(expected: readonly number[], context: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      const text = reply.lines.map((line) => line.slice(4)).join(' ');
+      throw new SmtpError(`${context} failed: ${String(reply.code)} ${text}`.trim(), reply.code);
+    }
+    return reply;
+  }
+
+  private read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued !== undefined) {
+      return Promise.resolve(queued);
+    }
+    if (this.failure !== undefined) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  /**
+   * Sends a command line and checks the reply code.
+   */
+  async command(line: string, expected: readonly number[], context: string): Promise<SmtpReply> {
+    this.write(`${line}\r\n`);
+    return this.expect(expected, context);
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  /**
+   * Upgrades the connection to TLS after a successful STARTTLS.
+   */
+  async upgrade(host: string, rejectUnauthorized: boolean): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('close');
+    this.buffer = '';
+    this.pendingLines = [];
+
+    const secure = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const socket = tls.connect({ socket: plain, servername: host, rejectUnauthorized }, () => {
+        resolve(socket);
+      });
+      socket.once('error', reject);
+    });
+    this.socket = secure;
+    this.attach(secure);
+  }
+
+  get secure(): boolean {
+    return this.socket instanceof tls.TLSSocket;
+  }
+
+  close(): void {
+    this.socket.removeAllListeners('close');
+    this.socket.destroy();
+  }
+}
+
+/**
+ * Opens a TCP or implicit-TLS connection.
+ */
+function openSocket(
+  host: string,
+  port: number,
+  implicitTls: boolean,
+  rejectUnauthorized: boolean
+): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = implicitTls
+      ? tls.connect({ host, port, servername: host, rejectUnauthorized }, () => {
+          resolve(socket);
+        })
+      : net.connect({ host, port }, () => {
+          resolve(socket);
+        });
+    socket.once('error', reject);
+  });
+}
+
+/**
+ * Applies SMTP dot-stuffing and terminates the DATA section.
+ */
+function toDataSection(message: string): string {
+  return `${message.replace(/^\./gm, '..')}\r\n.\r\n`;
+}
+
+/**
+ * EmailSender class for delivering notifications over SMTP.
+ *
+ * Each send opens a fresh connection, which suits the low volume of
+ * protocol notifications. Like WebhookSender, failures are logged and
+ * returned, never thrown.
+ */
+export class EmailSender {
+  private readonly defaultTimeoutMs: number;
+  private readonly projectDir: string | undefined;
+  private readonly clientHostname: string;
+  private readonly rejectUnauthorized: boolean;
+
+  /**
+   * Creates a new EmailSender.
+   *
+   * @param options - Configuration options.
+   */
+  constructor(options?: EmailSenderOptions) {
+    this.defaultTimeoutMs = options?.timeoutMs ?? 10000;
+    this.projectDir = options?.projectDir;
+    this.clientHostname = options?.clientHostname ?? os.hostname();
+    this.rejectUnauthorized = options?.rejectUnauthorized ?? true;
+  }
+
+  /**
+   * Renders and sends a notification email.
+   *
+   * @param channel - The email channel configuration.
+   * @param payload - The notification payload.
+   * @returns Result indicating success or failure with error message.
+   */
+  async send(channel: NotificationChannel, payload: WebhookPayload): Promise<EmailSendResult> {
+    const from = channel.emailFrom;
+    const to = channel.emailTo ?? [];
+    if (from === undefined || to.length === 0) {
+      return {
+        success: false,
+        error: 'Email channel requires a sender and at least one recipient',
+      };
+    }
+
+    const content = renderEmail(
+      payload,
+      this.projectDir !== undefined ? { projectDir: this.projectDir } : {}
+    );
+    const messageId = `<${randomUUID()}@criticality>`;
+    const message = buildMimeMessage({ from, to, content, messageId, date: new Date() });
+
+    let timeoutId: NodeJS.Timeout | undefined;
+    let connection: SmtpConnection | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timeoutId = setTimeout(() => {
+        reject(new SmtpError(`SMTP timeout after ${String(this.defaultTimeoutMs)}ms`));
+      }, this.defaultTimeoutMs);
+    });
+
+    try {
+      await Promise.race([
+        this.deliver(channel, from, to, message, (opened) => {
+          connection = opened;
+        }),
+        timeout,
+      ]);
+      return { success: true, messageId };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Email notification failed for ${channel.endpoint}: ${errorMessage}`);
+      return { success: false, error: errorMessage };
+    } finally {
+      clearTimeout(timeoutId);
+      connection?.close();
+    }
+  }
+
+  /**
+   * Sends an email notification and formats the result as ChannelSendResult.
+   *
+   * @param channel - The email channel configuration.
+   * @param payload - The notification payload.
+   * @returns Result formatted for the notification service.
+   */
+  async sendAsChannelResult(
+    channel: NotificationChannel,
+    payload: WebhookPayload
+  ): Promise<{ readonly success: true } | { readonly success: false; readonly error: string }> {
+    const result = await this.send(channel, payload);
+
+    return result.success ? { success: true } : result;
+  }
+
+  /**
+   * Runs the SMTP exchange for one message.
+   */
+  private async deliver(
+    channel: NotificationChannel,
+    from: string,
+    to: readonly string[],
+    message: string,
+    onOpen: (connection: SmtpConnection) => void
+  ): Promise<void> {
+    const url = new URL(channel.endpoint);
+    const implicitTls = url.protocol === 'smtps:';
+    const host = url.hostname;
+    const port =
+      url.port !== '' ? Number(url.port) : implicitTls ? DEFAULT_SMTPS_PORT : DEFAULT_SMTP_PORT;
+
+    const socket = await openSocket(host, port, implicitTls, this.rejectUnauthorized);
+    const connection = new SmtpConnection(socket);
+    onOpen(connection);
+
+    await connection.expect([220], 'Greeting');
+    let ehlo = await connection.command(`EHLO ${this.clientHostname}`, [250], 'EHLO');
+
+    if (!connection.secure && hasExtension(ehlo, 'STARTTLS')) {
+      await connection.command('STARTTLS', [220], 'STARTTLS');
+      await connection.upgrade(host, this.rejectUnauthorized);
+      ehlo = await connection.command(`EHLO ${this.clientHostname}`, [250], 'EHLO');
+    }
+
+    if (channel.smtpUsername !== undefined) {
+      if (!connection.secure) {
+        throw new SmtpError('Refusing to send SMTP credentials over an unencrypted connection');
+      }
+      const credentials = Buffer.from(
+        `\0${channel.smtpUsername}\0${channel.smtpPassword ?? ''}`,
+        'utf-8'
+      ).toString('base64');
+      await connection.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+    }
+
+    await connection.command(`MAIL FROM:<${from}>`, [250], 'MAIL FROM');
+    for (const recipient of to) {
+      await connection.command(`RCPT TO:<${recipient}>`, [250, 251], `RCPT TO ${recipient}`);
+    }
+    await connection.command('DATA', [354], 'DATA');
+    connection.write(toDataSection(message));
+    await connection.expect([250], 'Message delivery');
+    await connection.command('QUIT', [221], 'QUIT').catch(() => undefined);
+  }
+}
+
+/**
+ * Checks whether an EHLO reply advertises an extension.
+ */
+function hasExtension(reply: SmtpReply, extension: string): boolean {
+  return reply.lines
+    .slice(1)
+    .some((line) => line.slice(4).toUpperCase().split(' ')[0] === extension);
+}
@@ -22,14 +22,66 @@ export { NOTIFICATION_EVENTS } from './types.js';
 
 export { parseCronExpression, isValidCronExpression, getNextOccurrence } from './cron.js';
 
-export { WebhookSender, validateWebhookEndpoint } from './webhook.js';
+export {
+  WebhookSender,
+  validateWebhookEndpoint,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+} from './webhook.js';
 export type {
   WebhookSenderOptions,
   WebhookSendResult,
   WebhookValidationResult,
+  WebhookRetryOptions,
+  WebhookSendOptions,
+  WebhookDeliveryResult,
 } from './webhook.js';
 
-export { NotificationService } from './service.js';
+export {
+  DeadLetterError,
+  DEAD_LETTER_FILENAME,
+  getDeadLetterPath,
+  loadDeadLetters,
+  saveDeadLetters,
+  appendDeadLetter,
+  retryDeadLetters,
+} from './dead-letter.js';
+export type { DeadLetter, DeadLetterRetryResult } from './dead-letter.js';
+
+export { SlackSender, buildSlackMessage, SLACK_THREADS_FILENAME } from './slack.js';
+export type {
+  SlackSenderOptions,
+  SlackSendResult,
+  SlackMessage,
+  SlackBlock,
+  SlackTextObject,
+  SlackButtonElement,
+  SlackThreadRef,
+} from './slack.js';
+
+export {
+  EmailSender,
+  SmtpError,
+  renderEmail,
+  buildMimeMessage,
+  getResolveCommand,
+} from './email.js';
+export type {
+  EmailSenderOptions,
+  EmailSendResult,
+  EmailContent,
+  EmailRenderOptions,
+} from './email.js';
+
+export {
+  NotificationService,
+  loadNotificationHistory,
+  NOTIFICATION_HISTORY_FILENAME,
+} from './service.js';
+export type { NotificationServiceOptions } from './service.js';
 
 export { ReminderScheduler } from './reminder.js';
 export type { ReminderSchedulerOptions, ReminderCheckResult } from './reminder.js';
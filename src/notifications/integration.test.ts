@@ -646,7 +646,7 @@ describe('Notification Integration Tests', () => {
 
       mockFetch.mockRejectedValue(new Error('Network error'));
 
-      const service = new NotificationServiceImpl(config);
+      const service = new NotificationServiceImpl(config, { webhookRetry: { maxAttempts: 1 } });
 
       const blockingRecord: BlockingRecord = {
         id: 'blocking-test-8',
@@ -739,7 +739,7 @@ describe('Notification Integration Tests', () => {
         })
         .mockRejectedValueOnce(new Error('Network error'));
 
-      const service = new NotificationServiceImpl(config);
+      const service = new NotificationServiceImpl(config, { webhookRetry: { maxAttempts: 1 } });
 
       const blockingRecord: BlockingRecord = {
         id: 'blocking-test-9',
@@ -200,18 +200,18 @@ describe('NotificationService', () => {
         defaultWebhookUrl1,
         expect.objectContaining({
           method: 'POST',
-          headers: {
+          headers: expect.objectContaining({
             'Content-Type': 'application/json',
-          },
+          }) as Record<string, string>,
         })
       );
       expect(mockFetch).toHaveBeenCalledWith(
         defaultWebhookUrl2,
         expect.objectContaining({
           method: 'POST',
-          headers: {
+          headers: expect.objectContaining({
             'Content-Type': 'application/json',
-          },
+          }) as Record<string, string>,
         })
       );
     });
@@ -440,7 +440,7 @@ describe('NotificationService', () => {
         reminder_schedule: undefined,
       };
 
-      const service = new NotificationService(config);
+      const service = new NotificationService(config, { webhookRetry: { maxAttempts: 1 } });
       mockFetch.mockRejectedValue(new Error('Network error'));
 
       const blockingRecord: BlockingRecord = {
@@ -496,7 +496,7 @@ describe('NotificationService', () => {
         reminder_schedule: undefined,
       };
 
-      const service = new NotificationService(config);
+      const service = new NotificationService(config, { webhookRetry: { maxAttempts: 1 } });
       mockFetch.mockRejectedValue(new Error('Network error'));
 
       const blockingRecord: BlockingRecord = {
@@ -537,7 +537,7 @@ describe('NotificationService', () => {
         reminder_schedule: undefined,
       };
 
-      const service = new NotificationService(config);
+      const service = new NotificationService(config, { webhookRetry: { maxAttempts: 1 } });
       mockFetch
         .mockResolvedValueOnce({ ok: true, status: 200 })
         .mockRejectedValueOnce(new Error('Network error'));
@@ -10,16 +10,68 @@
 import type { BlockingRecord } from '../protocol/blocking.js';
 import type { ProtocolState } from '../protocol/types.js';
 import { isActiveState, isBlockedState, isFailedState } from '../protocol/types.js';
-import type { NotificationConfig } from '../config/types.js';
+import type { NotificationChannelConfig, NotificationConfig } from '../config/types.js';
 import type {
+  ChannelSendResult,
   NotificationChannel,
   NotificationEvent,
   NotificationSendResult,
+  SentNotification,
   WebhookPayload,
   WebhookProtocolState,
 } from './types.js';
 import { NOTIFICATION_EVENTS } from './types.js';
-import { WebhookSender } from './webhook.js';
+import { WebhookSender, type WebhookRetryOptions } from './webhook.js';
+import { appendDeadLetter, retryDeadLetters, type DeadLetterRetryResult } from './dead-letter.js';
+import { SlackSender, SLACK_THREADS_FILENAME } from './slack.js';
+import { EmailSender } from './email.js';
+import { safeMkdir, safeReadFile, safeRename, safeWriteFile } from '../utils/safe-fs.js';
+import * as path from 'node:path';
+
+/**
+ * File name of the persisted sent-notification history.
+ */
+export const NOTIFICATION_HISTORY_FILENAME = 'notification-history.json';
+
+/**
+ * Maximum number of history entries kept on disk.
+ */
+const MAX_HISTORY_ENTRIES = 200;
+
+/**
+ * Options for creating a NotificationService.
+ */
+export interface NotificationServiceOptions {
+  /**
+   * Directory for channel state such as Slack thread references and the
+   * sent-notification history. Also used as the project directory in
+   * `crit resolve` instructions. Webhook deliveries that exhaust their
+   * retries are queued here as dead letters. When omitted, state is kept in
+   * memory only and failed deliveries are dropped.
+   */
+  readonly stateDir?: string;
+  /** Retry policy for webhook deliveries. */
+  readonly webhookRetry?: WebhookRetryOptions;
+}
+
+/**
+ * Loads the persisted sent-notification history.
+ *
+ * @param stateDir - Directory containing the history file.
+ * @returns History entries, oldest first; empty if none were recorded.
+ */
+export async function loadNotificationHistory(stateDir: string): Promise<SentNotification[]> {
+  try {
+    const data = JSON.parse(
+      await safeReadFile(path.join(stateDir, NOTIFICATION_HISTORY_FILENAME), 'utf-8')
+    ) as { sent_notifications?: unknown };
+    return Array.isArray(data.sent_notifications)
+      ? (data.sent_notifications as SentNotification[])
+      : [];
+  } catch {
+    return [];
+  }
+}
 
 /**
  * Converts an internal ProtocolState to the webhook wire format.
@@ -62,46 +114,114 @@ function toWebhookProtocolState(state: ProtocolState): WebhookProtocolState {
   };
 }
 
+/**
+ * Converts a configured channel to its runtime form.
+ *
+ * @returns The channel, or undefined if it subscribes to no known events.
+ */
+function toNotificationChannel(
+  channelConfig: NotificationChannelConfig
+): NotificationChannel | undefined {
+  const validEvents = channelConfig.events.filter((e): e is NotificationEvent =>
+    (NOTIFICATION_EVENTS as readonly string[]).includes(e)
+  );
+
+  if (validEvents.length === 0) {
+    return undefined;
+  }
+
+  return {
+    type: channelConfig.type,
+    endpoint: channelConfig.endpoint,
+    enabled: channelConfig.enabled,
+    events: validEvents,
+    ...(channelConfig.secret !== undefined ? { secret: channelConfig.secret } : {}),
+    ...(channelConfig.bot_token !== undefined ? { botToken: channelConfig.bot_token } : {}),
+    ...(channelConfig.slack_channel !== undefined
+      ? { slackChannel: channelConfig.slack_channel }
+      : {}),
+    ...(channelConfig.email_from !== undefined ? { emailFrom: channelConfig.email_from } : {}),
+    ...(channelConfig.email_to !== undefined ? { emailTo: channelConfig.email_to } : {}),
+    ...(channelConfig.smtp_username !== undefined
+      ? { smtpUsername: channelConfig.smtp_username }
+      : {}),
+    ...(channelConfig.smtp_password !== undefined
+      ? { smtpPassword: channelConfig.smtp_password }
+      : {}),
+  };
+}
+
 /**
  * Unified notification service for managing multiple notification channels.
  *
  * Sends notifications to all enabled channels that subscribe to a given event.
- * Currently supports webhook channels, with extensibility for future channel types.
+ * Supports webhook, Slack, and email channels.
  */
 export class NotificationService {
   private readonly channels: readonly NotificationChannel[];
   private readonly webhookSender: WebhookSender;
+  private readonly slackSender: SlackSender;
+  private readonly emailSender: EmailSender;
+  private readonly stateDir: string | undefined;
+  private readonly sentNotifications: SentNotification[] = [];
 
   /**
    * Creates a new NotificationService.
    *
    * @param config - Notification configuration from parsed criticality.toml.
+   * @param options - Optional service settings.
    */
-  constructor(config: NotificationConfig) {
+  constructor(config: NotificationConfig, options?: NotificationServiceOptions) {
     const channelsArr: NotificationChannel[] = [];
 
     if (config.enabled && config.channels !== undefined && config.channels.length > 0) {
       for (const channelConfig of config.channels) {
-        if (channelConfig.type === 'webhook') {
-          const validEvents = channelConfig.events.filter((e): e is NotificationEvent =>
-            (NOTIFICATION_EVENTS as readonly string[]).includes(e)
-          );
-
-          if (validEvents.length > 0) {
-            const channel: NotificationChannel = {
-              type: 'webhook',
-              endpoint: channelConfig.endpoint,
-              enabled: channelConfig.enabled,
-              events: validEvents,
-            };
-            channelsArr.push(channel);
-          }
+        const channel = toNotificationChannel(channelConfig);
+        if (channel !== undefined) {
+          channelsArr.push(channel);
         }
       }
     }
 
     this.channels = channelsArr;
-    this.webhookSender = new WebhookSender({ timeoutMs: 5000 });
+    this.webhookSender = new WebhookSender({
+      timeoutMs: 5000,
+      ...(options?.webhookRetry !== undefined ? { retry: options.webhookRetry } : {}),
+    });
+    this.slackSender = new SlackSender({
+      timeoutMs: 5000,
+      ...(options?.stateDir !== undefined
+        ? { threadStatePath: path.join(options.stateDir, SLACK_THREADS_FILENAME) }
+        : {}),
+    });
+    this.emailSender = new EmailSender({
+      ...(options?.stateDir !== undefined ? { projectDir: options.stateDir } : {}),
+    });
+    this.stateDir = options?.stateDir;
+  }
+
+  /**
+   * Replays webhook deliveries queued in the dead-letter file.
+   *
+   * Uses the configured webhook channels to look up signing secrets.
+   * Without a state directory there is no queue and nothing is replayed.
+   *
+   * @returns What was delivered, what failed again, and what was skipped.
+   */
+  async retryDeadLetters(): Promise<DeadLetterRetryResult> {
+    if (this.stateDir === undefined) {
+      return { delivered: [], failed: [], skipped: [] };
+    }
+    return retryDeadLetters(this.stateDir, this.channels, this.webhookSender);
+  }
+
+  /**
+   * Gets the notifications sent by this service instance.
+   *
+   * @returns One entry per channel delivery attempt, oldest first.
+   */
+  getSentNotifications(): readonly SentNotification[] {
+    return this.sentNotifications;
   }
 
   /**
@@ -119,6 +239,7 @@ export class NotificationService {
    *
    * Filters channels by event type and sends notifications in parallel.
    * Returns aggregate results showing which channels succeeded/failed.
+   * Every delivery attempt is recorded in the sent-notification history.
    *
    * @param event - The notification event type.
    * @param payload - The webhook payload containing event data and protocol state.
@@ -138,9 +259,9 @@ export class NotificationService {
     }
 
     const channelPromises = matchingChannels.map(async (channel) => {
-      const webhookResult = await this.webhookSender.sendAsChannelResult(channel.endpoint, payload);
+      const channelResult = await this.sendToChannel(channel, event, payload);
 
-      if (webhookResult.success) {
+      if (channelResult.success) {
         return {
           success: true as const,
           channel,
@@ -149,12 +270,13 @@ export class NotificationService {
         return {
           success: false as const,
           channel,
-          error: webhookResult.error,
+          error: channelResult.error,
         };
       }
     });
 
     const results = await Promise.all(channelPromises);
+    await this.recordSent(event, results);
 
     const allSucceeded = results.every((r) => r.success);
     const anySucceeded = results.some((r) => r.success);
@@ -166,6 +288,107 @@ export class NotificationService {
     };
   }
 
+  /**
+   * Dispatches a payload to the sender for the channel's type.
+   */
+  private sendToChannel(
+    channel: NotificationChannel,
+    event: NotificationEvent,
+    payload: WebhookPayload
+  ): Promise<{ readonly success: true } | { readonly success: false; readonly error: string }> {
+    switch (channel.type) {
+      case 'slack':
+        return this.slackSender.sendAsChannelResult(channel, payload);
+      case 'email':
+        return this.emailSender.sendAsChannelResult(channel, payload);
+      case 'webhook':
+        return this.deliverWebhook(channel, event, payload);
+    }
+  }
+
+  /**
+   * Delivers a webhook with retries, queueing it as a dead letter when
+   * every attempt fails and a state directory is configured.
+   */
+  private async deliverWebhook(
+    channel: NotificationChannel,
+    event: NotificationEvent,
+    payload: WebhookPayload
+  ): Promise<{ readonly success: true } | { readonly success: false; readonly error: string }> {
+    const result = await this.webhookSender.deliver(
+      channel.endpoint,
+      payload,
+      channel.secret !== undefined ? { secret: channel.secret } : undefined
+    );
+
+    if (result.success) {
+      return { success: true };
+    }
+
+    if (this.stateDir !== undefined) {
+      const failedAt = new Date().toISOString();
+      try {
+        await appendDeadLetter(this.stateDir, {
+          id: result.deliveryId,
+          event,
+          endpoint: channel.endpoint,
+          payload,
+          attempts: result.attempts,
+          last_error: result.error,
+          first_failed_at: failedAt,
+          last_failed_at: failedAt,
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to queue dead-letter notification: ${errorMessage}`);
+      }
+    }
+
+    return { success: false, error: result.error };
+  }
+
+  /**
+   * Appends delivery results to the history, persisting it when a state
+   * directory is configured. History failures are logged, never thrown.
+   */
+  private async recordSent(
+    event: NotificationEvent,
+    results: readonly ChannelSendResult[]
+  ): Promise<void> {
+    const sentAt = new Date().toISOString();
+    const entries: SentNotification[] = results.map((result) => ({
+      event,
+      sent_at: sentAt,
+      channel_type: result.channel.type,
+      endpoint: result.channel.endpoint,
+      success: result.success,
+      ...(!result.success ? { error: result.error } : {}),
+    }));
+    this.sentNotifications.push(...entries);
+
+    if (this.stateDir === undefined) {
+      return;
+    }
+
+    const historyPath = path.join(this.stateDir, NOTIFICATION_HISTORY_FILENAME);
+    const tmpPath = `${historyPath}.tmp`;
+    try {
+      const history = [...(await loadNotificationHistory(this.stateDir)), ...entries].slice(
+        -MAX_HISTORY_ENTRIES
+      );
+      await safeMkdir(this.stateDir, { recursive: true });
+      await safeWriteFile(
+        tmpPath,
+        JSON.stringify({ sent_notifications: history }, null, 2),
+        'utf-8'
+      );
+      await safeRename(tmpPath, historyPath);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to save notification history: ${errorMessage}`);
+    }
+  }
+
   /**
    * Sends a notification with data.
    *
@@ -0,0 +1,311 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { SlackSender, buildSlackMessage, SLACK_THREADS_FILENAME } from './slack.js';
+import { NotificationService } from './service.js';
+import { ReminderScheduler } from './reminder.js';
+import type { NotificationChannel, WebhookPayload } from './types.js';
+import type { BlockingRecord } from '../protocol/blocking.js';
+
+/**
+ * A request received by the Slack stand-in.
+ */
+interface RecordedRequest {
+  readonly url: string;
+  readonly headers: IncomingHttpHeaders;
+  readonly body: Record<string, unknown>;
+}
+
+/**
+ * Local HTTP stand-in for the Slack Web API and incoming webhooks.
+ *
+ * `chat.postMessage` answers like Slack, assigning increasing message
+ * timestamps; any other path answers like an incoming webhook.
+ */
+interface SlackStandIn {
+  readonly baseUrl: string;
+  readonly requests: RecordedRequest[];
+  apiError: string | undefined;
+  close(): Promise<void>;
+}
+
+async function startSlackStandIn(): Promise<SlackStandIn> {
+  const requests: RecordedRequest[] = [];
+  let nextTs = 1;
+  const standIn = { apiError: undefined as string | undefined };
+
+  const server: Server = createServer((req, res) => {
+    let data = '';
+    req.on('data', (chunk: Buffer) => {
+      data += chunk.toString('utf-8');
+    });
+    req.on('end', () => {
+      const body = JSON.parse(data) as Record<string, unknown>;
+      requests.push({ url: req.url ?? '', headers: req.headers, body });
+
+      if (req.url === '/api/chat.postMessage') {
+        res.setHeader('Content-Type', 'application/json');
+        if (standIn.apiError !== undefined) {
+          res.end(JSON.stringify({ ok: false, error: standIn.apiError }));
+          return;
+        }
+        const ts = `1700000000.00000${String(nextTs++)}`;
+        res.end(JSON.stringify({ ok: true, channel: 'C0123456', ts }));
+        return;
+      }
+
+      res.setHeader('Content-Type', 'text/plain');
+      res.end('ok');
+    });
+  });
+
+  await new Promise<void>((resolve) => {
+    server.listen(0, '127.0.0.1', resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return Object.assign(standIn, {
+    baseUrl: `http://127.0.0.1:${String(port)}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => {
+          resolve();
+        });
+      }),
+  });
+}
+
+const BLOCKING_RECORD: BlockingRecord = {
+  id: 'blocking_lattice_1',
+  phase: 'Lattice',
+  query: 'Use <Money> or number for balances?',
+  options: ['Money', 'number'],
+  blockedAt: '2024-02-07T08:00:00.000Z',
+  resolved: false,
+};
+
+const BLOCK_PAYLOAD: WebhookPayload = {
+  event: 'block',
+  timestamp: '2024-02-07T08:00:00.000Z',
+  blocking_record: BLOCKING_RECORD,
+  protocol_state: {
+    phase: 'Lattice',
+    state_kind: 'Blocked',
+    substate: { kind: 'Blocking', query: BLOCKING_RECORD.query },
+  },
+};
+
+describe('buildSlackMessage', () => {
+  it('should render a blocking query with its options as buttons', () => {
+    const message = buildSlackMessage(BLOCK_PAYLOAD);
+
+    expect(message.text).toBe('Protocol blocked in Lattice: Use <Money> or number for balances?');
+    expect(message.blocks.map((b) => b.type)).toEqual(['header', 'section', 'actions', 'context']);
+    expect(message.blocks[1]).toEqual({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: '*Phase:* Lattice\n*Query:* Use &lt;Money&gt; or number for balances?',
+      },
+    });
+    expect(message.blocks[2]).toEqual({
+      type: 'actions',
+      block_id: 'criticality_block_blocking_lattice_1',
+      elements: [
+        {
+          type: 'button',
+          text: { type: 'plain_text', text: 'Money' },
+          value: 'Money',
+          action_id: 'criticality_option_0',
+        },
+        {
+          type: 'button',
+          text: { type: 'plain_text', text: 'number' },
+          value: 'number',
+          action_id: 'criticality_option_1',
+        },
+      ],
+    });
+  });
+
+  it('should omit the actions block for free-form queries', () => {
+    const { options: _options, ...record } = BLOCKING_RECORD;
+
+    const message = buildSlackMessage({ ...BLOCK_PAYLOAD, blocking_record: record });
+
+    expect(message.blocks.map((b) => b.type)).toEqual(['header', 'section', 'context']);
+  });
+
+  it('should render phase changes', () => {
+    const message = buildSlackMessage({
+      event: 'phase_change',
+      timestamp: '2024-02-07T08:00:00.000Z',
+      phase_change: { from: 'Lattice', to: 'CompositionAudit' },
+      protocol_state: {
+        phase: 'CompositionAudit',
+        state_kind: 'Active',
+        substate: { kind: 'Active' },
+      },
+    });
+
+    expect(message.blocks[1]).toEqual({
+      type: 'section',
+      text: { type: 'mrkdwn', text: '*Lattice* → *CompositionAudit*' },
+    });
+  });
+});
+
+describe('SlackSender', () => {
+  let standIn: SlackStandIn;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    standIn = await startSlackStandIn();
+    tempDir = mkdtempSync(path.join(os.tmpdir(), 'slack-test-'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await standIn.close();
+    rmSync(tempDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  function botChannel(): NotificationChannel {
+    return {
+      type: 'slack',
+      endpoint: `${standIn.baseUrl}/api`,
+      enabled: true,
+      events: ['block'],
+      botToken: 'xoxb-test',
+      slackChannel: '#criticality',
+    };
+  }
+
+  it('should post to an incoming webhook without authorization', async () => {
+    const sender = new SlackSender();
+
+    const result = await sender.send(
+      {
+        type: 'slack',
+        endpoint: `${standIn.baseUrl}/hooks/T000`,
+        enabled: true,
+        events: ['block'],
+      },
+      BLOCK_PAYLOAD
+    );
+
+    expect(result).toEqual({ success: true });
+    expect(standIn.requests).toHaveLength(1);
+    expect(standIn.requests[0]?.url).toBe('/hooks/T000');
+    expect(standIn.requests[0]?.headers.authorization).toBeUndefined();
+    expect(standIn.requests[0]?.body).toEqual(buildSlackMessage(BLOCK_PAYLOAD));
+  });
+
+  it('should post with a bot token and remember the thread', async () => {
+    const sender = new SlackSender();
+
+    const result = await sender.send(botChannel(), BLOCK_PAYLOAD);
+
+    expect(result).toEqual({
+      success: true,
+      thread: { channel: 'C0123456', ts: '1700000000.000001' },
+    });
+    expect(standIn.requests[0]?.url).toBe('/api/chat.postMessage');
+    expect(standIn.requests[0]?.headers.authorization).toBe('Bearer xoxb-test');
+    expect(standIn.requests[0]?.body.channel).toBe('#criticality');
+    expect(standIn.requests[0]?.body.thread_ts).toBeUndefined();
+    expect(await sender.getThread(BLOCKING_RECORD.id)).toEqual({
+      channel: 'C0123456',
+      ts: '1700000000.000001',
+    });
+  });
+
+  it('should reply in the thread when the same query is sent again', async () => {
+    const sender = new SlackSender();
+
+    await sender.send(botChannel(), BLOCK_PAYLOAD);
+    await sender.send(botChannel(), { ...BLOCK_PAYLOAD, timestamp: '2024-02-07T09:00:00.000Z' });
+
+    const reply = standIn.requests[1]?.body;
+    expect(reply?.channel).toBe('C0123456');
+    expect(reply?.thread_ts).toBe('1700000000.000001');
+    expect(reply?.text).toBe(
+      'Reminder: still waiting on this query (blocked since 2024-02-07T08:00:00.000Z).'
+    );
+  });
+
+  it('should report Slack API errors', async () => {
+    standIn.apiError = 'channel_not_found';
+
+    const result = await new SlackSender().send(botChannel(), BLOCK_PAYLOAD);
+
+    expect(result).toEqual({ success: false, error: 'Slack API error: channel_not_found' });
+  });
+
+  it('should report unreachable endpoints', async () => {
+    const channel: NotificationChannel = { ...botChannel(), endpoint: 'http://127.0.0.1:1/api' };
+
+    const result = await new SlackSender({ timeoutMs: 1000 }).send(channel, BLOCK_PAYLOAD);
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should never log the webhook URL', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const webhookUrl = 'http://127.0.0.1:1/services/T000/B000/XXXXsecretXXXX';
+
+    const result = await new SlackSender({ timeoutMs: 1000 }).send(
+      { type: 'slack', endpoint: webhookUrl, enabled: true, events: ['block'] },
+      BLOCK_PAYLOAD
+    );
+
+    expect(result.success).toBe(false);
+    const logged = errorSpy.mock.calls.map((args) => args.map(String).join(' ')).join('\n');
+    expect(logged).toContain('Slack notification failed for 127.0.0.1:1/…');
+    expect(logged).not.toContain('/services/');
+    expect(logged).not.toContain('XXXXsecretXXXX');
+  });
+
+  it('should thread reminders from the scheduler across service instances', async () => {
+    const config = {
+      enabled: true,
+      channels: [
+        {
+          type: 'slack' as const,
+          endpoint: `${standIn.baseUrl}/api`,
+          enabled: true,
+          events: ['block'],
+          bot_token: 'xoxb-test',
+          slack_channel: '#criticality',
+        },
+      ],
+    };
+
+    const blockingService = new NotificationService(config, { stateDir: tempDir });
+    const sent = await blockingService.notify('block', BLOCKING_RECORD);
+    expect(sent.allSucceeded).toBe(true);
+
+    const scheduler = new ReminderScheduler({
+      cronExpression: '0 9 * * *',
+      notificationService: new NotificationService(config, { stateDir: tempDir }),
+      stateDir: tempDir,
+      enabled: true,
+    });
+    await scheduler.initialize();
+    await scheduler.scheduleReminder(new Date('2024-02-07T08:00:00.000Z'));
+    const reminder = await scheduler.checkAndSendReminder(
+      new Date('2024-02-08T10:00:00.000Z'),
+      BLOCKING_RECORD
+    );
+
+    expect(reminder.sent).toBe(true);
+    expect(standIn.requests).toHaveLength(2);
+    expect(standIn.requests[1]?.body.thread_ts).toBe('1700000000.000001');
+    expect(existsSync(path.join(tempDir, SLACK_THREADS_FILENAME))).toBe(true);
+  });
+});
@@ -0,0 +1,530 @@
+/**
+ * Slack notification sender.
+ *
+ * Renders notification payloads as Slack Block Kit messages and posts
+ * them through an incoming webhook or the Web API (`chat.postMessage`)
+ * with a bot token. Blocking queries are rendered with their options as
+ * buttons; reminders for an already-posted query are threaded under the
+ * original message when a bot token is configured.
+ *
+ * @packageDocumentation
+ */
+
+import * as path from 'node:path';
+import type { BlockingRecord } from '../protocol/blocking.js';
+import { safeMkdir, safeReadFile, safeRename, safeWriteFile } from '../utils/safe-fs.js';
+import type { NotificationChannel, WebhookPayload } from './types.js';
+
+/**
+ * Default file name for persisted Slack thread references.
+ */
+export const SLACK_THREADS_FILENAME = 'slack-threads.json';
+
+/**
+ * Maximum number of buttons Slack allows in a single actions block.
+ */
+const MAX_ACTION_BUTTONS = 25;
+
+/**
+ * Maximum length of a button label.
+ */
+const MAX_BUTTON_TEXT_LENGTH = 75;
+
+/**
+ * Maximum length of a button value.
+ */
+const MAX_BUTTON_VALUE_LENGTH = 2000;
+
+/**
+ * Plain or mrkdwn text object.
+ */
+export interface SlackTextObject {
+  readonly type: 'plain_text' | 'mrkdwn';
+  readonly text: string;
+}
+
+/**
+ * Button element for an actions block.
+ */
+export interface SlackButtonElement {
+  readonly type: 'button';
+  readonly text: SlackTextObject;
+  readonly value: string;
+  readonly action_id: string;
+}
+
+/**
+ * Subset of Block Kit blocks used by Criticality messages.
+ */
+export type SlackBlock =
+  | { readonly type: 'header'; readonly text: SlackTextObject }
+  | { readonly type: 'section'; readonly text: SlackTextObject }
+  | { readonly type: 'context'; readonly elements: readonly SlackTextObject[] }
+  | {
+      readonly type: 'actions';
+      readonly block_id: string;
+      readonly elements: readonly SlackButtonElement[];
+    };
+
+/**
+ * Block Kit message body.
+ */
+export interface SlackMessage {
+  /** Fallback text for notifications and clients without Block Kit. */
+  readonly text: string;
+  /** Block Kit blocks. */
+  readonly blocks: readonly SlackBlock[];
+  /** Channel to post to (bot token mode only). */
+  readonly channel?: string;
+  /** Parent message timestamp when replying in a thread. */
+  readonly thread_ts?: string;
+}
+
+/**
+ * Reference to a posted Slack message that replies can thread under.
+ */
+export interface SlackThreadRef {
+  /** Channel ID returned by Slack. */
+  readonly channel: string;
+  /** Message timestamp returned by Slack. */
+  readonly ts: string;
+}
+
+/**
+ * Configuration for the Slack sender.
+ */
+export interface SlackSenderOptions {
+  /** Timeout in milliseconds (default: 5000ms). */
+  readonly timeoutMs?: number;
+  /**
+   * File used to persist thread references across runs.
+   * When omitted, threads are only remembered for the lifetime of the sender.
+   */
+  readonly threadStatePath?: string;
+}
+
+/**
+ * Result of a single Slack send attempt.
+ */
+export type SlackSendResult =
+  | {
+      readonly success: true;
+      /** Thread the message was posted in or started, when known. */
+      readonly thread?: SlackThreadRef;
+    }
+  | {
+      readonly success: false;
+      readonly error: string;
+    };
+
+/**
+ * Response body of `chat.postMessage`.
+ */
+interface PostMessageResponse {
+  readonly ok?: boolean;
+  readonly error?: string;
+  readonly channel?: string;
+  readonly ts?: string;
+}
+
+/**
+ * Escapes the characters Slack treats as control sequences in text.
+ *
+ * @param text - The text to escape.
+ * @returns Text safe to embed in a mrkdwn or plain_text object.
+ */
+function escapeSlackText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Truncates text to a maximum length, marking the cut with an ellipsis.
+ */
+function truncate(text: string, maxLength: number): string {
+  return text.length <= maxLength ? text : `${text.slice(0, maxLength - 1)}…`;
+}
+
+/**
+ * Creates a mrkdwn text object.
+ */
+function mrkdwn(text: string): SlackTextObject {
+  return { type: 'mrkdwn', text };
+}
+
+/**
+ * Creates a plain_text text object.
+ */
+function plainText(text: string): SlackTextObject {
+  return { type: 'plain_text', text };
+}
+
+/**
+ * Reduces a URL to its host for logging.
+ *
+ * Incoming webhook URLs carry their secret in the path, so only the host
+ * may appear in logs.
+ *
+ * @param url - The URL to redact.
+ * @returns The host followed by an ellipsis, e.g. `hooks.slack.com/…`.
+ */
+function redactUrl(url: string): string {
+  try {
+    return `${new URL(url).host}/…`;
+  } catch {
+    return '<invalid URL>';
+  }
+}
+
+/**
+ * Builds the actions block presenting a blocking query's options as buttons.
+ *
+ * Button values carry the full option text so an interactivity handler can
+ * resolve the query; the block ID carries the query ID.
+ */
+function buildOptionsBlock(record: BlockingRecord): SlackBlock | undefined {
+  if (record.options === undefined || record.options.length === 0) {
+    return undefined;
+  }
+
+  return {
+    type: 'actions',
+    block_id: `criticality_block_${record.id}`,
+    elements: record.options.slice(0, MAX_ACTION_BUTTONS).map((option, index) => ({
+      type: 'button',
+      text: plainText(truncate(option, MAX_BUTTON_TEXT_LENGTH)),
+      value: truncate(option, MAX_BUTTON_VALUE_LENGTH),
+      action_id: `criticality_option_${String(index)}`,
+    })),
+  };
+}
+
+/**
+ * Builds the message for a blocking query.
+ */
+function buildBlockingMessage(record: BlockingRecord): SlackMessage {
+  const title = 'Protocol blocked';
+  const blocks: SlackBlock[] = [
+    { type: 'header', text: plainText(title) },
+    {
+      type: 'section',
+      text: mrkdwn(`*Phase:* ${record.phase}\n*Query:* ${escapeSlackText(record.query)}`),
+    },
+  ];
+
+  const optionsBlock = buildOptionsBlock(record);
+  if (optionsBlock !== undefined) {
+    blocks.push(optionsBlock);
+  }
+
+  blocks.push({
+    type: 'context',
+    elements: [
+      mrkdwn(
+        `Blocked since ${record.blockedAt} · Resolve with \`crit resolve\` (query ${record.id})`
+      ),
+    ],
+  });
+
+  return {
+    text: `${title} in ${record.phase}: ${record.query}`,
+    blocks,
+  };
+}
+
+/**
+ * Builds the short reply posted in the thread of an earlier blocking message.
+ */
+function buildThreadedReminder(record: BlockingRecord, timestamp: string): SlackMessage {
+  const text = `Reminder: still waiting on this query (blocked since ${record.blockedAt}).`;
+  return {
+    text,
+    blocks: [
+      { type: 'section', text: mrkdwn(text) },
+      { type: 'context', elements: [mrkdwn(`Sent ${timestamp}`)] },
+    ],
+  };
+}
+
+/**
+ * Renders a notification payload as a Block Kit message.
+ *
+ * Blocking payloads become a header, the query, one button per option,
+ * and resolution instructions. Other events render as a header and a
+ * summary section of the protocol state.
+ *
+ * @param payload - The notification payload.
+ * @returns The Block Kit message (without channel or thread fields).
+ */
+export function buildSlackMessage(payload: WebhookPayload): SlackMessage {
+  const record = payload.blocking_record;
+  const state = payload.protocol_state;
+
+  if (payload.event === 'block' && record !== undefined) {
+    return buildBlockingMessage(record);
+  }
+
+  let title: string;
+  let summary: string;
+  switch (payload.event) {
+    case 'complete':
+      title = 'Protocol complete';
+      summary = 'The protocol finished all phases.';
+      break;
+    case 'error':
+      title = 'Protocol error';
+      summary =
+        record !== undefined
+          ? `*Phase:* ${record.phase}\n*Error:* ${escapeSlackText(record.query)}`
+          : `*Phase:* ${state.phase}\n*State:* ${state.state_kind}`;
+      break;
+    case 'phase_change':
+      title = 'Phase changed';
+      summary =
+        payload.phase_change !== undefined
+          ? `*${payload.phase_change.from}* → *${payload.phase_change.to}*`
+          : `*Phase:* ${state.phase}`;
+      break;
+    case 'block':
+      title = 'Protocol blocked';
+      summary = `*Phase:* ${state.phase}`;
+      break;
+  }
+
+  return {
+    text: `${title}: ${state.phase}`,
+    blocks: [
+      { type: 'header', text: plainText(title) },
+      { type: 'section', text: mrkdwn(summary) },
+      { type: 'context', elements: [mrkdwn(`${state.state_kind} · ${payload.timestamp}`)] },
+    ],
+  };
+}
+
+/**
+ * SlackSender class for posting Block Kit notifications.
+ *
+ * Channels with a bot token post through `chat.postMessage` at
+ * `<endpoint>/chat.postMessage`, where the endpoint is the Web API base URL
+ * (normally `https://slack.com/api`). Channels without a bot token post to
+ * the endpoint as an incoming webhook, which cannot report message
+ * timestamps, so their reminders are posted as new messages.
+ *
+ * Like WebhookSender, failures are logged and returned, never thrown.
+ */
+export class SlackSender {
+  private readonly defaultTimeoutMs: number;
+  private readonly threadStatePath: string | undefined;
+  private threads: Map<string, SlackThreadRef> | undefined;
+
+  /**
+   * Creates a new SlackSender.
+   *
+   * @param options - Configuration options.
+   */
+  constructor(options?: SlackSenderOptions) {
+    this.defaultTimeoutMs = options?.timeoutMs ?? 5000;
+    this.threadStatePath = options?.threadStatePath;
+  }
+
+  /**
+   * Sends a notification to a Slack channel.
+   *
+   * A block event for a query that already has a thread is treated as a
+   * reminder and posted as a reply in that thread.
+   *
+   * @param channel - The Slack channel configuration.
+   * @param payload - The notification payload.
+   * @returns Result indicating success or failure with error message.
+   */
+  async send(channel: NotificationChannel, payload: WebhookPayload): Promise<SlackSendResult> {
+    const record = payload.event === 'block' ? payload.blocking_record : undefined;
+
+    if (channel.botToken === undefined) {
+      const message = buildSlackMessage(payload);
+      return this.post(channel.endpoint, message, undefined);
+    }
+
+    const threads = await this.loadThreads();
+    const parent = record !== undefined ? threads.get(record.id) : undefined;
+    const baseMessage =
+      record !== undefined && parent !== undefined
+        ? buildThreadedReminder(record, payload.timestamp)
+        : buildSlackMessage(payload);
+    const message: SlackMessage = {
+      ...baseMessage,
+      channel: parent?.channel ?? channel.slackChannel ?? '',
+      ...(parent !== undefined ? { thread_ts: parent.ts } : {}),
+    };
+
+    const result = await this.post(
+      `${channel.endpoint.replace(/\/+$/, '')}/chat.postMessage`,
+      message,
+      channel.botToken
+    );
+
+    if (
+      result.success &&
+      record !== undefined &&
+      parent === undefined &&
+      result.thread !== undefined
+    ) {
+      threads.set(record.id, result.thread);
+      await this.saveThreads(threads);
+    }
+
+    return result.success && parent !== undefined ? { success: true, thread: parent } : result;
+  }
+
+  /**
+   * Sends a Slack notification and formats the result as ChannelSendResult.
+   *
+   * @param channel - The Slack channel configuration.
+   * @param payload - The notification payload.
+   * @returns Result formatted for the notification service.
+   */
+  async sendAsChannelResult(
+    channel: NotificationChannel,
+    payload: WebhookPayload
+  ): Promise<{ readonly success: true } | { readonly success: false; readonly error: string }> {
+    const result = await this.send(channel, payload);
+
+    return result.success ? { success: true } : result;
+  }
+
+  /**
+   * Gets the thread started for a blocking query, if any.
+   *
+   * @param queryId - The blocking query ID.
+   * @returns The thread reference, or undefined if none was recorded.
+   */
+  async getThread(queryId: string): Promise<SlackThreadRef | undefined> {
+    return (await this.loadThreads()).get(queryId);
+  }
+
+  /**
+   * POSTs a message and interprets the response.
+   *
+   * @param url - Incoming webhook URL or `chat.postMessage` URL.
+   * @param message - The message body.
+   * @param botToken - Bot token for the Web API, or undefined for webhooks.
+   */
+  private async post(
+    url: string,
+    message: SlackMessage,
+    botToken: string | undefined
+  ): Promise<SlackSendResult> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => {
+      controller.abort();
+    }, this.defaultTimeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          ...(botToken !== undefined ? { Authorization: `Bearer ${botToken}` } : {}),
+        },
+        body: JSON.stringify(message),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const error = `HTTP ${String(response.status)}: ${response.statusText}`;
+        console.error(`Slack notification failed for ${redactUrl(url)}: ${error}`);
+        return { success: false, error };
+      }
+
+      if (botToken === undefined) {
+        return { success: true };
+      }
+
+      const body = (await response.json()) as PostMessageResponse;
+      if (body.ok !== true) {
+        const error = `Slack API error: ${body.error ?? 'unknown_error'}`;
+        console.error(`Slack notification failed for ${redactUrl(url)}: ${error}`);
+        return { success: false, error };
+      }
+
+      return body.channel !== undefined && body.ts !== undefined
+        ? { success: true, thread: { channel: body.channel, ts: body.ts } }
+        : { success: true };
+    } catch (error) {
+      let errorMessage = 'Unknown error';
+
+      if (error instanceof Error) {
+        if (error.name === 'AbortError') {
+          errorMessage = `Request timeout after ${String(this.defaultTimeoutMs)}ms`;
+        } else {
+          errorMessage = error.message;
+        }
+      }
+
+      console.error(`Slack notification failed for ${redactUrl(url)}: ${errorMessage}`);
+      return { success: false, error: errorMessage };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Loads thread references, reading the state file on first use.
+   *
+   * A missing or unreadable file starts an empty map; losing threads
+   * only means the next reminder is posted as a new message.
+   */
+  private async loadThreads(): Promise<Map<string, SlackThreadRef>> {
+    if (this.threads !== undefined) {
+      return this.threads;
+    }
+
+    const threads = new Map<string, SlackThreadRef>();
+    if (this.threadStatePath !== undefined) {
+      try {
+        const data = JSON.parse(await safeReadFile(this.threadStatePath, 'utf-8')) as unknown;
+        if (typeof data === 'object' && data !== null) {
+          for (const [queryId, ref] of Object.entries(data)) {
+            if (isThreadRef(ref)) {
+              threads.set(queryId, ref);
+            }
+          }
+        }
+      } catch {
+        // No persisted threads yet
+      }
+    }
+
+    this.threads = threads;
+    return threads;
+  }
+
+  /**
+   * Persists thread references with an atomic write.
+   */
+  private async saveThreads(threads: Map<string, SlackThreadRef>): Promise<void> {
+    if (this.threadStatePath === undefined) {
+      return;
+    }
+
+    const tmpPath = `${this.threadStatePath}.tmp`;
+    try {
+      await safeMkdir(path.dirname(this.threadStatePath), { recursive: true });
+      await safeWriteFile(tmpPath, JSON.stringify(Object.fromEntries(threads), null, 2), 'utf-8');
+      await safeRename(tmpPath, this.threadStatePath);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to save Slack thread state: ${errorMessage}`);
+    }
+  }
+}
+
+/**
+ * Type guard for persisted thread references.
+ */
+function isThreadRef(value: unknown): value is SlackThreadRef {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const ref = value as Record<string, unknown>;
+  return typeof ref.channel === 'string' && typeof ref.ts === 'string';
+}
@@ -28,7 +28,7 @@ export const NOTIFICATION_EVENTS: readonly NotificationEvent[] = [
 /**
  * Notification channel types.
  */
-export type ChannelType = 'webhook';
+export type ChannelType = 'webhook' | 'slack' | 'email';
 
 /**
  * Interface for a notification channel configuration.
@@ -36,12 +36,26 @@ export type ChannelType = 'webhook';
 export interface NotificationChannel {
   /** Type of notification channel. */
   readonly type: ChannelType;
-  /** Endpoint URL for sending notifications. */
+  /** Endpoint URL for sending notifications (an smtp:// or smtps:// URL for email). */
   readonly endpoint: string;
   /** Whether this channel is enabled. */
   readonly enabled: boolean;
   /** Events that this channel subscribes to. */
   readonly events: readonly NotificationEvent[];
+  /** Shared secret for signing webhook requests. */
+  readonly secret?: string;
+  /** Slack bot token; when set, the endpoint is the Slack Web API base URL. */
+  readonly botToken?: string;
+  /** Slack channel ID or name to post to with a bot token. */
+  readonly slackChannel?: string;
+  /** Sender address for email channels. */
+  readonly emailFrom?: string;
+  /** Recipient addresses for email channels. */
+  readonly emailTo?: readonly string[];
+  /** SMTP username for email channels. */
+  readonly smtpUsername?: string;
+  /** SMTP password for email channels. */
+  readonly smtpPassword?: string;
 }
 
 /**
@@ -132,6 +146,8 @@ export interface SentNotification {
   readonly event: NotificationEvent;
   /** Timestamp when sent (ISO 8601). */
   readonly sent_at: string;
+  /** Channel type. */
+  readonly channel_type: ChannelType;
   /** Channel endpoint. */
   readonly endpoint: string;
   /** Whether sending was successful. */
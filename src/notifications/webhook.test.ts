@@ -1,5 +1,14 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { WebhookSender, validateWebhookEndpoint } from './webhook.js';
+import { createHmac } from 'node:crypto';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WebhookSender,
+  signWebhookPayload,
+  validateWebhookEndpoint,
+  verifyWebhookSignature,
+} from './webhook.js';
 import type { WebhookPayload } from './types.js';
 
 describe('WebhookSender', () => {
@@ -42,6 +51,8 @@ describe('WebhookSender', () => {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'X-Criticality-Delivery': expect.any(String) as string,
+          'X-Criticality-Timestamp': expect.stringMatching(/^\d+$/) as string,
         },
         body: JSON.stringify(payload),
         signal: expect.any(AbortSignal) as AbortSignal,
@@ -439,6 +450,159 @@ describe('WebhookSender', () => {
     });
   });
 
+  describe('signing', () => {
+    const payload: WebhookPayload = {
+      event: 'complete',
+      timestamp: '2024-02-07T12:00:00Z',
+      protocol_state: {
+        phase: 'Complete',
+        state_kind: 'Complete',
+        substate: { kind: 'Active' },
+      },
+    };
+
+    it('should sign the delivery ID, timestamp, and body with the channel secret', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200 });
+
+      await sender.send('https://example.com/webhook', payload, {
+        secret: 's3cret',
+        deliveryId: 'delivery-1',
+      });
+
+      const init = mockFetch.mock.calls[0]?.[1] as {
+        headers: Record<string, string>;
+        body: string;
+      };
+      const timestamp = init.headers[WEBHOOK_TIMESTAMP_HEADER] ?? '';
+      expect(init.headers[WEBHOOK_DELIVERY_HEADER]).toBe('delivery-1');
+      expect(init.headers[WEBHOOK_SIGNATURE_HEADER]).toBe(
+        `sha256=${createHmac('sha256', 's3cret').update(`delivery-1.${timestamp}.${init.body}`).digest('hex')}`
+      );
+      expect(
+        verifyWebhookSignature({
+          secret: 's3cret',
+          body: init.body,
+          deliveryId: 'delivery-1',
+          timestamp,
+          signature: init.headers[WEBHOOK_SIGNATURE_HEADER] ?? '',
+        })
+      ).toBe(true);
+    });
+
+    it('should omit the signature without a secret', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200 });
+
+      await sender.send('https://example.com/webhook', payload);
+
+      const init = mockFetch.mock.calls[0]?.[1] as { headers: Record<string, string> };
+      expect(init.headers[WEBHOOK_SIGNATURE_HEADER]).toBeUndefined();
+    });
+
+    it('should reject tampered bodies, wrong secrets, and stale timestamps', () => {
+      const now = new Date('2024-02-07T12:00:00Z');
+      const timestamp = String(Math.floor(now.getTime() / 1000));
+      const signature = signWebhookPayload('s3cret', 'delivery-1', timestamp, '{"a":1}');
+      const input = {
+        secret: 's3cret',
+        body: '{"a":1}',
+        deliveryId: 'delivery-1',
+        timestamp,
+        signature,
+        now,
+      };
+
+      expect(verifyWebhookSignature(input)).toBe(true);
+      expect(verifyWebhookSignature({ ...input, body: '{"a":2}' })).toBe(false);
+      expect(verifyWebhookSignature({ ...input, secret: 'other' })).toBe(false);
+      expect(verifyWebhookSignature({ ...input, deliveryId: 'delivery-2' })).toBe(false);
+      expect(verifyWebhookSignature({ ...input, now: new Date(now.getTime() + 301_000) })).toBe(
+        false
+      );
+    });
+  });
+
+  describe('deliver', () => {
+    const payload: WebhookPayload = {
+      event: 'block',
+      timestamp: '2024-02-07T12:00:00Z',
+      protocol_state: {
+        phase: 'Lattice',
+        state_kind: 'Blocked',
+        substate: { kind: 'Blocking', query: 'Approve?' },
+      },
+    };
+
+    beforeEach(() => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should retry transient failures with the same delivery ID', async () => {
+      const retrying = new WebhookSender({ retry: { maxAttempts: 4, baseDelayMs: 0 } });
+      mockFetch
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable' })
+        .mockResolvedValueOnce({ ok: true, status: 200 });
+
+      const result = await retrying.deliver('https://example.com/webhook', payload);
+
+      expect(result).toMatchObject({ success: true, attempts: 3, statusCode: 200 });
+      const ids = mockFetch.mock.calls.map(
+        (call) => (call[1] as { headers: Record<string, string> }).headers[WEBHOOK_DELIVERY_HEADER]
+      );
+      expect(new Set(ids)).toEqual(new Set([result.deliveryId]));
+    });
+
+    it('should give up after the configured number of attempts', async () => {
+      const retrying = new WebhookSender({ retry: { maxAttempts: 3, baseDelayMs: 0 } });
+      mockFetch.mockResolvedValue({ ok: false, status: 500, statusText: 'Internal Server Error' });
+
+      const result = await retrying.deliver('https://example.com/webhook', payload);
+
+      expect(result).toMatchObject({
+        success: false,
+        attempts: 3,
+        error: 'HTTP 500: Internal Server Error',
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry client errors', async () => {
+      const retrying = new WebhookSender({ retry: { maxAttempts: 4, baseDelayMs: 0 } });
+      mockFetch.mockResolvedValue({ ok: false, status: 401, statusText: 'Unauthorized' });
+
+      const result = await retrying.deliver('https://example.com/webhook', payload);
+
+      expect(result).toMatchObject({ success: false, attempts: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should back off exponentially between attempts', async () => {
+      vi.useFakeTimers();
+      try {
+        const retrying = new WebhookSender({ retry: { maxAttempts: 3, baseDelayMs: 100 } });
+        mockFetch.mockRejectedValue(new Error('Network error'));
+
+        const pending = retrying.deliver('https://example.com/webhook', payload);
+        await vi.advanceTimersByTimeAsync(99);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(199);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+
+        expect((await pending).attempts).toBe(3);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
   describe('validateWebhookEndpoint', () => {
     it('should validate a valid http URL', async () => {
       const result = await validateWebhookEndpoint('http://example.com/webhook');
@@ -1,14 +1,48 @@
 /**
  * Webhook notification sender.
  *
- * Sends HTTP POST notifications to configured webhook endpoints.
- * Uses fire-and-forget semantics with configurable timeouts.
+ * Sends HTTP POST notifications to configured webhook endpoints with
+ * configurable timeouts. Every request carries a delivery ID and timestamp;
+ * channels with a secret also carry an HMAC-SHA256 signature so receivers
+ * can authenticate payloads and reject replays. `deliver` retries failed
+ * requests with exponential backoff.
  *
  * @packageDocumentation
  */
 
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
 import type { WebhookPayload } from './types.js';
 
+/**
+ * Header carrying the unique delivery ID (stable across retries).
+ */
+export const WEBHOOK_DELIVERY_HEADER = 'X-Criticality-Delivery';
+
+/**
+ * Header carrying the request time in Unix seconds.
+ */
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Criticality-Timestamp';
+
+/**
+ * Header carrying the `sha256=<hex>` HMAC signature.
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Criticality-Signature';
+
+/**
+ * Default tolerance for signature timestamps when verifying (5 minutes).
+ */
+const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Retry policy for webhook deliveries.
+ */
+export interface WebhookRetryOptions {
+  /** Total attempts including the first (default: 4). */
+  readonly maxAttempts?: number;
+  /** Delay before the first retry in milliseconds; doubles per retry (default: 1000ms). */
+  readonly baseDelayMs?: number;
+}
+
 /**
  * Configuration for webhook sender.
  */
@@ -17,6 +51,112 @@ export interface WebhookSenderOptions {
   readonly timeoutMs?: number;
   /** Whether to send a test ping on validation (default: false). */
   readonly pingOnValidation?: boolean;
+  /** Retry policy used by `deliver`. */
+  readonly retry?: WebhookRetryOptions;
+}
+
+/**
+ * Per-request signing options.
+ */
+export interface WebhookSendOptions {
+  /** Shared secret for the HMAC signature; unsigned when omitted. */
+  readonly secret?: string;
+  /** Delivery ID to send; generated when omitted. */
+  readonly deliveryId?: string;
+}
+
+/**
+ * Result of a delivery, including retries.
+ */
+export type WebhookDeliveryResult =
+  | {
+      readonly success: true;
+      readonly deliveryId: string;
+      readonly attempts: number;
+      readonly statusCode?: number;
+    }
+  | {
+      readonly success: false;
+      readonly deliveryId: string;
+      readonly attempts: number;
+      readonly error: string;
+    };
+
+/**
+ * Computes the signature header value for a webhook request.
+ *
+ * The signed content is `<deliveryId>.<timestamp>.<body>`, binding the
+ * delivery ID and timestamp to the payload.
+ *
+ * @param secret - Shared channel secret.
+ * @param deliveryId - Delivery ID header value.
+ * @param timestamp - Timestamp header value (Unix seconds).
+ * @param body - Raw request body.
+ * @returns The header value, `sha256=<hex digest>`.
+ */
+export function signWebhookPayload(
+  secret: string,
+  deliveryId: string,
+  timestamp: string,
+  body: string
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${deliveryId}.${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Verifies a signed webhook request on the receiving side.
+ *
+ * Rejects requests whose timestamp is outside the tolerance window, which
+ * bounds replays; receivers should also drop delivery IDs they have seen.
+ *
+ * @param input - The secret, raw body, and header values.
+ * @returns True if the signature is valid and the timestamp is fresh.
+ */
+export function verifyWebhookSignature(input: {
+  readonly secret: string;
+  readonly body: string;
+  readonly deliveryId: string;
+  readonly timestamp: string;
+  readonly signature: string;
+  readonly toleranceSeconds?: number;
+  readonly now?: Date;
+}): boolean {
+  const timestampSeconds = Number(input.timestamp);
+  if (!Number.isInteger(timestampSeconds)) {
+    return false;
+  }
+
+  const nowSeconds = Math.floor((input.now ?? new Date()).getTime() / 1000);
+  const tolerance = input.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+  if (Math.abs(nowSeconds - timestampSeconds) > tolerance) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    signWebhookPayload(input.secret, input.deliveryId, input.timestamp, input.body)
+  );
+  const actual = Buffer.from(input.signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Checks whether an HTTP error response is worth retrying.
+ *
+ * 429 and 5xx responses are transient; other 4xx responses will fail the
+ * same way again. Network errors and timeouts are always retried.
+ */
+function isRetryable(statusCode: number): boolean {
+  return statusCode === 429 || statusCode >= 500;
+}
+
+/**
+ * Waits for the given number of milliseconds.
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 /**
@@ -148,11 +288,13 @@ export async function validateWebhookEndpoint(
 /**
  * WebhookSender class for sending HTTP POST notifications.
  *
- * Sends JSON payloads to configured endpoints with fire-and-forget
- * semantics. Failed requests are logged but do not throw errors.
+ * `send` makes a single attempt; `deliver` retries transient failures with
+ * exponential backoff. Failed requests are logged but do not throw errors.
  */
 export class WebhookSender {
   private readonly defaultTimeoutMs: number;
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
 
   /**
    * Creates a new WebhookSender.
@@ -161,16 +303,21 @@ export class WebhookSender {
    */
   constructor(options?: WebhookSenderOptions) {
     this.defaultTimeoutMs = options?.timeoutMs ?? 5000;
+    this.maxAttempts = Math.max(1, options?.retry?.maxAttempts ?? 4);
+    this.baseDelayMs = options?.retry?.baseDelayMs ?? 1000;
   }
 
   /**
    * Sends a webhook notification to the specified endpoint.
    *
-   * POSTs the payload as JSON with Content-Type: application/json.
-   * Uses configurable timeout and returns success/failure without throwing.
+   * POSTs the payload as JSON with Content-Type: application/json, plus the
+   * delivery ID, timestamp, and (with a secret) signature headers.
+   * Makes a single attempt with a configurable timeout and returns
+   * success/failure without throwing.
    *
    * @param endpoint - The webhook endpoint URL.
    * @param payload - The webhook payload to send.
+   * @param options - Optional secret and delivery ID.
    * @returns Result indicating success or failure with error message.
    *
    * @example
@@ -188,19 +335,52 @@ export class WebhookSender {
    * }
    * ```
    */
-  async send(endpoint: string, payload: WebhookPayload): Promise<WebhookSendResult> {
+  async send(
+    endpoint: string,
+    payload: WebhookPayload,
+    options?: WebhookSendOptions
+  ): Promise<WebhookSendResult> {
+    return (await this.attempt(endpoint, payload, options)).result;
+  }
+
+  /**
+   * Makes a single delivery attempt.
+   *
+   * @returns The send result and whether the failure is worth retrying.
+   */
+  private async attempt(
+    endpoint: string,
+    payload: WebhookPayload,
+    options?: WebhookSendOptions
+  ): Promise<{ readonly result: WebhookSendResult; readonly retryable: boolean }> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => {
       controller.abort();
     }, this.defaultTimeoutMs);
 
+    const body = JSON.stringify(payload);
+    const deliveryId = options?.deliveryId ?? randomUUID();
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
     try {
       const response = await fetch(endpoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          [WEBHOOK_DELIVERY_HEADER]: deliveryId,
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+          ...(options?.secret !== undefined
+            ? {
+                [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+                  options.secret,
+                  deliveryId,
+                  timestamp,
+                  body
+                ),
+              }
+            : {}),
         },
-        body: JSON.stringify(payload),
+        body,
         signal: controller.signal,
       });
 
@@ -209,10 +389,10 @@ export class WebhookSender {
       if (!response.ok) {
         const error = `HTTP ${String(response.status)}: ${response.statusText}`;
         console.error(`Webhook failed for ${endpoint}: ${error}`);
-        return { success: false, error };
+        return { result: { success: false, error }, retryable: isRetryable(response.status) };
       }
 
-      return { success: true, statusCode: response.status };
+      return { result: { success: true, statusCode: response.status }, retryable: false };
     } catch (error) {
       clearTimeout(timeoutId);
 
@@ -227,7 +407,50 @@ export class WebhookSender {
       }
 
       console.error(`Webhook failed for ${endpoint}: ${errorMessage}`);
-      return { success: false, error: errorMessage };
+      return { result: { success: false, error: errorMessage }, retryable: true };
+    }
+  }
+
+  /**
+   * Delivers a webhook notification, retrying transient failures.
+   *
+   * Retries network errors, timeouts, 429, and 5xx responses up to the
+   * configured attempt count, waiting `baseDelayMs * 2^(n-1)` before retry n.
+   * All attempts share one delivery ID so receivers can deduplicate; each
+   * attempt is signed with a fresh timestamp.
+   *
+   * @param endpoint - The webhook endpoint URL.
+   * @param payload - The webhook payload to send.
+   * @param options - Optional secret and delivery ID.
+   * @returns Result with the delivery ID and number of attempts made.
+   */
+  async deliver(
+    endpoint: string,
+    payload: WebhookPayload,
+    options?: WebhookSendOptions
+  ): Promise<WebhookDeliveryResult> {
+    const deliveryId = options?.deliveryId ?? randomUUID();
+    const sendOptions: WebhookSendOptions = { ...options, deliveryId };
+
+    let attempts = 0;
+    for (;;) {
+      attempts++;
+      const { result, retryable } = await this.attempt(endpoint, payload, sendOptions);
+
+      if (result.success) {
+        return {
+          success: true,
+          deliveryId,
+          attempts,
+          ...(result.statusCode !== undefined ? { statusCode: result.statusCode } : {}),
+        };
+      }
+
+      if (attempts >= this.maxAttempts || !retryable) {
+        return { success: false, deliveryId, attempts, error: result.error };
+      }
+
+      await sleep(this.baseDelayMs * 2 ** (attempts - 1));
     }
   }
 
@@ -0,0 +1,194 @@
+/**
+ * Tests for the protocol state history.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync, mkdirSync } from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { execa } from 'execa';
+import {
+  createStateHistoryRecorder,
+  getEntrySnapshot,
+  getStateHistoryPath,
+  loadStateHistory,
+  recordStateHistory,
+  restoreSourceTree,
+  rewindToHistoryEntry,
+  StateHistoryError,
+  STATE_HISTORY_REF_PREFIX,
+  type StateHistoryOptions,
+} from './history.js';
+import type { ProtocolStateSnapshot } from './persistence.js';
+import {
+  createActiveState,
+  createIgnitionInterviewing,
+  createIgnitionPhaseState,
+  createLatticeGeneratingStructure,
+  createLatticePhaseState,
+  getPhase,
+} from './types.js';
+import { Ledger } from '../ledger/index.js';
+
+const ignition: ProtocolStateSnapshot = {
+  state: createActiveState(createIgnitionPhaseState(createIgnitionInterviewing('Discovery', 0))),
+  artifacts: [],
+  blockingQueries: [],
+};
+
+const lattice: ProtocolStateSnapshot = {
+  state: createActiveState(createLatticePhaseState(createLatticeGeneratingStructure())),
+  artifacts: ['spec'],
+  blockingQueries: [],
+};
+
+function appendDecision(ledger: Ledger, constraint: string): string {
+  return ledger.append({
+    category: 'architectural',
+    constraint,
+    source: 'design_choice',
+    confidence: 'canonical',
+    phase: 'lattice',
+  }).id;
+}
+
+describe('state history', () => {
+  let tempDir: string;
+  let options: StateHistoryOptions;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), 'history-test-'));
+    options = {
+      projectRoot: tempDir,
+      statePath: path.join(tempDir, '.criticality-state.json'),
+      now: () => new Date('2026-01-01T00:00:00.000Z'),
+    };
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('appends entries with sequential ids', async () => {
+    await recordStateHistory(ignition, 0, options);
+    await recordStateHistory(lattice, 3, options);
+
+    const entries = await loadStateHistory(tempDir);
+
+    expect(entries.map((e) => [e.id, e.ledgerLength, e.recordedAt])).toEqual([
+      [1, 0, '2026-01-01T00:00:00.000Z'],
+      [2, 3, '2026-01-01T00:00:00.000Z'],
+    ]);
+    expect(entries[1] && getPhase(getEntrySnapshot(entries[1]).state)).toBe('Lattice');
+    expect(readFileSync(getStateHistoryPath(tempDir), 'utf-8').trim().split('\n')).toHaveLength(2);
+  });
+
+  it('records no source tree outside a git work tree', async () => {
+    const entry = await recordStateHistory(ignition, 0, options);
+
+    expect(entry.treeHash).toBeUndefined();
+  });
+
+  it('returns no entries before anything is recorded', async () => {
+    expect(await loadStateHistory(tempDir)).toEqual([]);
+  });
+
+  it('rejects a malformed history line', async () => {
+    mkdirSync(path.join(tempDir, '.criticality'));
+    writeFileSync(getStateHistoryPath(tempDir), '{"id":1}\n');
+
+    await expect(loadStateHistory(tempDir)).rejects.toThrow(StateHistoryError);
+  });
+
+  it('asks for the ledger length on every record', async () => {
+    let length = 0;
+    const recorder = createStateHistoryRecorder({
+      ...options,
+      getLedgerLength: () => Promise.resolve(++length),
+    });
+
+    await recorder.record(ignition);
+    await recorder.record(lattice);
+
+    expect((await loadStateHistory(tempDir)).map((e) => e.ledgerLength)).toEqual([1, 2]);
+  });
+
+  it('invalidates later decisions and records the rewind', async () => {
+    const ledger = new Ledger({ project: 'history-test' });
+    appendDecision(ledger, 'Use PostgreSQL');
+    const entry = await recordStateHistory(ignition, ledger.size, options);
+    const later = appendDecision(ledger, 'Use MongoDB');
+    await recordStateHistory(lattice, ledger.size, options);
+
+    const result = await rewindToHistoryEntry(entry, ledger, options);
+
+    expect(getPhase(result.snapshot.state)).toBe('Ignition');
+    expect(result.invalidated).toEqual([later]);
+    expect(ledger.getById(later)?.status).toBe('invalidated');
+    expect(ledger.getDecisions()[0]?.status).toBe('active');
+    expect(result.decision).toMatchObject({
+      category: 'orchestrator',
+      constraint: 'Protocol rewound to history entry 1 (Ignition)',
+      source: 'user_explicit',
+      phase: 'ignition',
+    });
+    expect(result.treeRestored).toBe(false);
+  });
+
+  it('refuses to restore a source tree outside a git work tree', async () => {
+    await expect(restoreSourceTree(tempDir, 'abc123')).rejects.toThrow(/not a git work tree/);
+  });
+
+  describe('in a git work tree', () => {
+    const sourcePath = (): string => path.join(tempDir, 'src', 'account.ts');
+
+    beforeEach(async () => {
+      await execa('git', ['init', '--quiet'], { cwd: tempDir });
+      mkdirSync(path.join(tempDir, 'src'));
+      writeFileSync(path.join(tempDir, '.gitignore'), 'build/\n');
+      writeFileSync(sourcePath(), 'export const balance = 0;\n');
+      writeFileSync(options.statePath, '{}');
+    });
+
+    it('captures and pins the source tree without the state files', async () => {
+      const entry = await recordStateHistory(ignition, 0, options);
+
+      expect(entry.treeHash).toMatch(/^[0-9a-f]{40}$/);
+      const { stdout: ref } = await execa('git', ['rev-parse', `${STATE_HISTORY_REF_PREFIX}1`], {
+        cwd: tempDir,
+      });
+      expect(ref).toBe(entry.treeHash);
+      const { stdout: files } = await execa(
+        'git',
+        ['ls-tree', '-r', '--name-only', entry.treeHash ?? ''],
+        { cwd: tempDir }
+      );
+      expect(files.split('\n')).toEqual(['.gitignore', 'src/account.ts']);
+    });
+
+    it('leaves the repository index alone', async () => {
+      await recordStateHistory(ignition, 0, options);
+
+      const { stdout } = await execa('git', ['diff', '--cached', '--name-only'], { cwd: tempDir });
+      expect(stdout).toBe('');
+    });
+
+    it('restores the source tree on rewind', async () => {
+      const ledger = new Ledger({ project: 'history-test' });
+      const entry = await recordStateHistory(ignition, 0, options);
+      writeFileSync(sourcePath(), 'export const balance = -1;\n');
+      writeFileSync(path.join(tempDir, 'src', 'mistake.ts'), 'export {};\n');
+      mkdirSync(path.join(tempDir, 'build'));
+      writeFileSync(path.join(tempDir, 'build', 'out.js'), '');
+
+      const result = await rewindToHistoryEntry(entry, ledger, options);
+
+      expect(result.treeRestored).toBe(true);
+      expect(readFileSync(sourcePath(), 'utf-8')).toBe('export const balance = 0;\n');
+      expect(existsSync(path.join(tempDir, 'src', 'mistake.ts'))).toBe(false);
+      expect(existsSync(path.join(tempDir, 'build', 'out.js'))).toBe(true);
+      expect(readFileSync(options.statePath, 'utf-8')).toBe('{}');
+      expect(existsSync(getStateHistoryPath(tempDir))).toBe(true);
+    });
+  });
+});
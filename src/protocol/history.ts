@@ -0,0 +1,467 @@
+/**
+ * Time-travel history of protocol state.
+ *
+ * Every snapshot the orchestrator persists is appended to a compact JSON
+ * Lines file under `.criticality/`, together with the length of the
+ * decision ledger at that moment and the git tree hash of the project's
+ * sources. Rewinding to an entry restores all three: the state file, the
+ * ledger view, and the source tree.
+ *
+ * Source trees are captured with a private git index, so the user's own
+ * index and branches are untouched. Each captured tree is pinned by a ref
+ * under `refs/criticality/history/` so garbage collection keeps it.
+ *
+ * The ledger is append-only, so rewinding does not delete decisions made
+ * after the entry; it invalidates them and records the rewind itself as a
+ * new decision.
+ *
+ * @packageDocumentation
+ */
+
+import * as path from 'node:path';
+import { execa } from 'execa';
+import type { Decision, DecisionPhase, Ledger } from '../ledger/index.js';
+import type { StateHistory } from './orchestrator.js';
+import {
+  deserializeState,
+  serializeState,
+  type PersistedStateData,
+  type ProtocolStateSnapshot,
+} from './persistence.js';
+import { getPhase, type ProtocolPhase } from './types.js';
+import { safeAppendFile, safeExists, safeMkdir, safeReadFile } from '../utils/safe-fs.js';
+
+/**
+ * Directory (relative to the project root) holding the history file.
+ */
+export const STATE_HISTORY_DIR = '.criticality';
+
+/**
+ * File name of the state history.
+ */
+export const STATE_HISTORY_FILENAME = 'history.jsonl';
+
+/**
+ * Prefix of the refs that keep captured source trees reachable.
+ */
+export const STATE_HISTORY_REF_PREFIX = 'refs/criticality/history/';
+
+/**
+ * Name of the private git index used to capture and restore source trees.
+ */
+const HISTORY_INDEX_NAME = 'criticality-history-index';
+
+/**
+ * Time limit for each git command.
+ */
+const GIT_TIMEOUT_MS = 60_000;
+
+/**
+ * One recorded point in the protocol's history.
+ */
+export interface StateHistoryEntry {
+  /** Sequential entry number, starting at 1. */
+  readonly id: number;
+  /** ISO 8601 timestamp of when the entry was recorded. */
+  readonly recordedAt: string;
+  /** The persisted protocol state. */
+  readonly snapshot: PersistedStateData;
+  /** Number of decisions in the ledger when the entry was recorded. */
+  readonly ledgerLength: number;
+  /** Git tree hash of the sources, absent if the project is not a git work tree. */
+  readonly treeHash?: string;
+}
+
+/**
+ * Options shared by history operations.
+ */
+export interface StateHistoryOptions {
+  /** The project root. */
+  readonly projectRoot: string;
+  /** Path to the state file, which is left out of captured source trees. */
+  readonly statePath: string;
+  /** Clock for timestamps (for testing). */
+  readonly now?: () => Date;
+}
+
+/**
+ * Options for a history recorder used by the orchestrator.
+ */
+export interface StateHistoryRecorderOptions extends StateHistoryOptions {
+  /** Returns the current number of ledger decisions. */
+  readonly getLedgerLength: () => Promise<number>;
+}
+
+/**
+ * Result of rewinding to a history entry.
+ */
+export interface RewindResult {
+  /** The restored state snapshot. */
+  readonly snapshot: ProtocolStateSnapshot;
+  /** IDs of decisions made after the entry, now invalidated. */
+  readonly invalidated: readonly string[];
+  /** The ledger decision recording the rewind. */
+  readonly decision: Decision;
+  /** Whether the source tree was restored. */
+  readonly treeRestored: boolean;
+}
+
+/**
+ * Error thrown when the history cannot be read or a rewind cannot be carried out.
+ */
+export class StateHistoryError extends Error {
+  /** The underlying cause of the error if available. */
+  public readonly cause: Error | undefined;
+
+  /**
+   * Creates a new StateHistoryError.
+   *
+   * @param message - Descriptive error message.
+   * @param options - Additional error options.
+   */
+  constructor(message: string, options?: { cause?: Error | undefined }) {
+    super(message);
+    this.name = 'StateHistoryError';
+    this.cause = options?.cause;
+  }
+}
+
+/**
+ * Gets the state history path for a project.
+ *
+ * @param projectRoot - The project root.
+ * @returns The history path.
+ */
+export function getStateHistoryPath(projectRoot: string): string {
+  return path.join(projectRoot, STATE_HISTORY_DIR, STATE_HISTORY_FILENAME);
+}
+
+/**
+ * Loads all recorded history entries, oldest first.
+ *
+ * @param projectRoot - The project root.
+ * @returns The entries, or an empty list if nothing has been recorded.
+ * @throws StateHistoryError if a line of the history file is malformed.
+ */
+export async function loadStateHistory(projectRoot: string): Promise<StateHistoryEntry[]> {
+  const historyPath = getStateHistoryPath(projectRoot);
+  if (!(await safeExists(historyPath))) {
+    return [];
+  }
+
+  const content = await safeReadFile(historyPath, 'utf-8');
+  const entries: StateHistoryEntry[] = [];
+  for (const [index, line] of content.split('\n').entries()) {
+    if (line.trim() === '') {
+      continue;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch (error) {
+      throw new StateHistoryError(
+        `Failed to parse line ${String(index + 1)} of "${historyPath}": ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error instanceof Error ? error : undefined }
+      );
+    }
+    if (!isStateHistoryEntry(parsed)) {
+      throw new StateHistoryError(
+        `Line ${String(index + 1)} of "${historyPath}" is not a history entry`
+      );
+    }
+    entries.push(parsed);
+  }
+  return entries;
+}
+
+/**
+ * Checks the shape of a parsed history line.
+ *
+ * @param value - The parsed line.
+ * @returns True if it has the fields of a history entry.
+ */
+function isStateHistoryEntry(value: unknown): value is StateHistoryEntry {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.id === 'number' &&
+    typeof record.recordedAt === 'string' &&
+    typeof record.snapshot === 'object' &&
+    record.snapshot !== null &&
+    typeof record.ledgerLength === 'number' &&
+    (record.treeHash === undefined || typeof record.treeHash === 'string')
+  );
+}
+
+/**
+ * Reads the protocol state of a history entry.
+ *
+ * @param entry - The history entry.
+ * @returns The state snapshot.
+ * @throws StatePersistenceError if the recorded state is invalid.
+ */
+export function getEntrySnapshot(entry: StateHistoryEntry): ProtocolStateSnapshot {
+  return deserializeState(JSON.stringify(entry.snapshot));
+}
+
+/**
+ * Appends a snapshot to the history.
+ *
+ * @param snapshot - The state snapshot that was just persisted.
+ * @param ledgerLength - Current number of ledger decisions.
+ * @param options - History options.
+ * @returns The recorded entry.
+ * @throws StateHistoryError if the source tree cannot be captured.
+ */
+export async function recordStateHistory(
+  snapshot: ProtocolStateSnapshot,
+  ledgerLength: number,
+  options: StateHistoryOptions
+): Promise<StateHistoryEntry> {
+  const { projectRoot, now = (): Date => new Date() } = options;
+  const entries = await loadStateHistory(projectRoot);
+  const id = (entries.at(-1)?.id ?? 0) + 1;
+
+  const treeHash = await captureSourceTree(projectRoot, getExcludedPaths(options));
+  if (treeHash !== undefined) {
+    await runGit(
+      ['update-ref', `${STATE_HISTORY_REF_PREFIX}${String(id)}`, treeHash],
+      projectRoot,
+      'pin the source tree'
+    );
+  }
+
+  const entry: StateHistoryEntry = {
+    id,
+    recordedAt: now().toISOString(),
+    snapshot: JSON.parse(serializeState(snapshot, { pretty: false })) as PersistedStateData,
+    ledgerLength,
+    ...(treeHash !== undefined ? { treeHash } : {}),
+  };
+
+  const historyPath = getStateHistoryPath(projectRoot);
+  await safeMkdir(path.dirname(historyPath), { recursive: true });
+  await safeAppendFile(historyPath, `${JSON.stringify(entry)}\n`, 'utf-8');
+  return entry;
+}
+
+/**
+ * Creates a recorder that appends every snapshot the orchestrator persists.
+ *
+ * @param options - Recorder options.
+ * @returns The recorder.
+ */
+export function createStateHistoryRecorder(options: StateHistoryRecorderOptions): StateHistory {
+  return {
+    async record(snapshot: ProtocolStateSnapshot): Promise<StateHistoryEntry> {
+      return recordStateHistory(snapshot, await options.getLedgerLength(), options);
+    },
+  };
+}
+
+/**
+ * Rewinds the protocol to a history entry.
+ *
+ * Restores the entry's source tree, invalidates every still-active decision
+ * made after the entry, and records the rewind in the ledger. The caller
+ * persists the returned snapshot and the ledger.
+ *
+ * @param entry - The entry to rewind to.
+ * @param ledger - The decision ledger.
+ * @param options - History options.
+ * @returns The rewind result.
+ * @throws StateHistoryError if the source tree cannot be restored.
+ */
+export async function rewindToHistoryEntry(
+  entry: StateHistoryEntry,
+  ledger: Ledger,
+  options: StateHistoryOptions
+): Promise<RewindResult> {
+  const snapshot = getEntrySnapshot(entry);
+
+  if (entry.treeHash !== undefined) {
+    await restoreSourceTree(options.projectRoot, entry.treeHash, getExcludedPaths(options));
+  }
+
+  const invalidated: string[] = [];
+  for (const decision of ledger.getDecisions().slice(entry.ledgerLength)) {
+    if (decision.status === 'active') {
+      ledger.invalidate(decision.id, { cascade: false, forceInvalidateCanonical: true });
+      invalidated.push(decision.id);
+    }
+  }
+
+  const phase = getPhase(snapshot.state);
+  const decision = ledger.append({
+    category: 'orchestrator',
+    constraint: `Protocol rewound to history entry ${String(entry.id)} (${phase ?? snapshot.state.kind})`,
+    rationale:
+      `Restored the state recorded at ${entry.recordedAt}` +
+      (entry.treeHash !== undefined ? ` and source tree ${entry.treeHash}` : '') +
+      `. Invalidated later decisions: ${invalidated.join(', ') || '(none)'}.`,
+    source: 'user_explicit',
+    confidence: 'canonical',
+    phase: toDecisionPhase(phase),
+  });
+
+  return { snapshot, invalidated, decision, treeRestored: entry.treeHash !== undefined };
+}
+
+/**
+ * Maps the phase rewound to onto a ledger decision phase.
+ *
+ * @param phase - The protocol phase, undefined for the Complete state.
+ * @returns The ledger decision phase.
+ */
+function toDecisionPhase(phase: ProtocolPhase | undefined): DecisionPhase {
+  switch (phase) {
+    case 'Ignition':
+      return 'ignition';
+    case 'Lattice':
+      return 'lattice';
+    case 'CompositionAudit':
+      return 'composition_audit';
+    case 'Injection':
+      return 'injection';
+    case 'Mesoscopic':
+      return 'mesoscopic';
+    case 'MassDefect':
+    case 'Complete':
+    case undefined:
+      return 'mass_defect';
+  }
+}
+
+/**
+ * Gets the project paths left out of captured source trees: the history
+ * directory and the state file, which are restored separately.
+ *
+ * @param options - History options.
+ * @returns Project-relative paths with `/` separators.
+ */
+function getExcludedPaths(options: StateHistoryOptions): string[] {
+  const statePath = path
+    .relative(path.resolve(options.projectRoot), path.resolve(options.statePath))
+    .split(path.sep)
+    .join('/');
+  return [STATE_HISTORY_DIR, statePath];
+}
+
+/**
+ * Runs a git command in the project.
+ *
+ * @param args - Git arguments.
+ * @param cwd - Working directory.
+ * @param action - What the command does, for error messages.
+ * @param indexFile - Git index to use instead of the repository's own.
+ * @returns The command's standard output, trimmed.
+ * @throws StateHistoryError if git fails.
+ */
+async function runGit(
+  args: readonly string[],
+  cwd: string,
+  action: string,
+  indexFile?: string
+): Promise<string> {
+  const result = await execa('git', [...args], {
+    cwd,
+    reject: false,
+    timeout: GIT_TIMEOUT_MS,
+    ...(indexFile !== undefined ? { env: { GIT_INDEX_FILE: indexFile } } : {}),
+  });
+  if (result.exitCode !== 0) {
+    const detail =
+      result.stderr.trim() || (result.message ?? `exit code ${String(result.exitCode)}`);
+    throw new StateHistoryError(`Failed to ${action}: ${detail}`);
+  }
+  return result.stdout.trim();
+}
+
+/**
+ * Locates the private index, or returns undefined outside a git work tree.
+ *
+ * @param projectRoot - The project root.
+ * @returns Absolute path of the private index.
+ */
+async function getHistoryIndexPath(projectRoot: string): Promise<string | undefined> {
+  const result = await execa('git', ['rev-parse', '--git-path', HISTORY_INDEX_NAME], {
+    cwd: projectRoot,
+    reject: false,
+    timeout: GIT_TIMEOUT_MS,
+  });
+  if (result.exitCode !== 0) {
+    return undefined;
+  }
+  return path.resolve(projectRoot, result.stdout.trim());
+}
+
+/**
+ * Stages the project's sources, honoring .gitignore, into the private index.
+ *
+ * @param projectRoot - The project root.
+ * @param indexFile - The private index.
+ * @param excluded - Project-relative paths to leave out.
+ */
+async function stageSources(
+  projectRoot: string,
+  indexFile: string,
+  excluded: readonly string[]
+): Promise<void> {
+  const pathspecs = ['.', ...excluded.map((p) => `:(exclude)${p}`)];
+  await runGit(['add', '--all', '--', ...pathspecs], projectRoot, 'stage sources', indexFile);
+}
+
+/**
+ * Captures the project's sources as a git tree.
+ *
+ * @param projectRoot - The project root.
+ * @param excluded - Project-relative paths to leave out.
+ * @returns The tree hash, or undefined if the project is not a git work tree.
+ * @throws StateHistoryError if git fails.
+ */
+export async function captureSourceTree(
+  projectRoot: string,
+  excluded: readonly string[] = []
+): Promise<string | undefined> {
+  const indexFile = await getHistoryIndexPath(projectRoot);
+  if (indexFile === undefined) {
+    return undefined;
+  }
+  await stageSources(projectRoot, indexFile, excluded);
+  return runGit(['write-tree'], projectRoot, 'write the source tree', indexFile);
+}
+
+/**
+ * Restores the project's sources from a captured git tree.
+ *
+ * Files that are in the tree are overwritten and files that are not are
+ * removed. Ignored and excluded files are left alone.
+ *
+ * @param projectRoot - The project root.
+ * @param treeHash - The tree to restore.
+ * @param excluded - Project-relative paths to leave alone.
+ * @throws StateHistoryError if the project is not a git work tree or git fails.
+ */
+export async function restoreSourceTree(
+  projectRoot: string,
+  treeHash: string,
+  excluded: readonly string[] = []
+): Promise<void> {
+  const indexFile = await getHistoryIndexPath(projectRoot);
+  if (indexFile === undefined) {
+    throw new StateHistoryError(
+      `Cannot restore source tree ${treeHash}: "${projectRoot}" is not a git work tree`
+    );
+  }
+  await runGit(['cat-file', '-e', `${treeHash}^{tree}`], projectRoot, `find tree ${treeHash}`);
+  // The private index must match the working tree so read-tree knows which files to remove
+  await stageSources(projectRoot, indexFile, excluded);
+  await runGit(
+    ['read-tree', '--reset', '-u', treeHash],
+    projectRoot,
+    'restore the source tree',
+    indexFile
+  );
+}
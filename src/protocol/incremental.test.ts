@@ -0,0 +1,419 @@
+/**
+ * Tests for incremental re-synthesis after spec changes.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, writeFileSync, mkdirSync } from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  planIncrementalUpdate,
+  applyIncrementalPlan,
+  saveIncrementalPlan,
+  loadIncrementalPlan,
+  clearIncrementalPlan,
+  saveSpecBaseline,
+  loadSpecBaseline,
+  getIncrementalPlanPath,
+  extractFunctionBodies,
+  restoreFunctionBodies,
+  IncrementalPlanError,
+} from './incremental.js';
+import type { ProtocolStateSnapshot } from './persistence.js';
+import {
+  createActiveState,
+  createBlockedState,
+  createInjectionPhaseState,
+  createInjectionImplementing,
+  createIgnitionPhaseState,
+  createIgnitionInterviewing,
+  isActiveState,
+  getPhase,
+} from './types.js';
+import { Ledger } from '../ledger/index.js';
+import type { Spec } from '../spec/types.js';
+
+/**
+ * Builds a spec with an account domain and an audit domain.
+ */
+function createSpec(): Spec {
+  return {
+    meta: { version: '1.0.0', created: '2024-01-24T12:00:00Z' },
+    system: { name: 'bank' },
+    data_models: {
+      Account: {
+        fields: [
+          { name: 'id', type: 'string' },
+          { name: 'balance', type: 'number' },
+        ],
+      },
+      Statement: {
+        fields: [{ name: 'account', type: 'Account' }],
+      },
+    },
+    interfaces: {
+      AccountService: {
+        methods: [
+          { name: 'deposit', params: ['account: Account', 'amount: number'], returns: 'Account' },
+          { name: 'getBalance', params: ['id: string'], returns: 'number' },
+        ],
+      },
+      AuditService: {
+        methods: [
+          { name: 'record', params: ['statement: Statement'], returns: 'void' },
+          { name: 'count', returns: 'number' },
+        ],
+      },
+    },
+  };
+}
+
+/**
+ * Creates a snapshot in the Injection phase with Lattice artifacts.
+ */
+function createInjectionSnapshot(): ProtocolStateSnapshot {
+  return {
+    state: createActiveState(createInjectionPhaseState(createInjectionImplementing('fn-1', 0))),
+    artifacts: ['spec', 'latticeCode', 'witnesses', 'contracts', 'validatedStructure'],
+    blockingQueries: [],
+  };
+}
+
+describe('Incremental re-synthesis', () => {
+  describe('planIncrementalUpdate', () => {
+    it('should plan nothing for identical specs', () => {
+      const plan = planIncrementalUpdate(createSpec(), createSpec());
+
+      expect(plan.targetPhase).toBeUndefined();
+      expect(plan.invalidatedFunctions).toEqual([]);
+      expect(plan.preservedFunctions).toHaveLength(4);
+    });
+
+    it('should invalidate only the method whose signature changed', () => {
+      const next = createSpec();
+      const getBalance = next.interfaces?.AccountService?.methods[1];
+      if (getBalance !== undefined) {
+        getBalance.returns = 'bigint';
+      }
+
+      const plan = planIncrementalUpdate(createSpec(), next);
+
+      expect(plan.targetPhase).toBe('Lattice');
+      expect(plan.invalidatedFunctions).toEqual([
+        {
+          id: 'AccountService.getBalance',
+          interfaceName: 'AccountService',
+          name: 'getBalance',
+          modulePath: path.join('src', 'domain', 'account'),
+          reasons: ['Signature of AccountService.getBalance changed'],
+          removed: false,
+        },
+      ]);
+      expect(plan.preservedFunctions.map((f) => f.id)).toEqual([
+        'AccountService.deposit',
+        'AuditService.record',
+        'AuditService.count',
+      ]);
+      expect(plan.affectedModules).toEqual([path.join('src', 'domain', 'account')]);
+    });
+
+    it('should follow data model changes into embedding models and signatures', () => {
+      const next = createSpec();
+      const account = next.data_models?.Account;
+      if (account !== undefined) {
+        account.fields = [...account.fields, { name: 'owner', type: 'string' }];
+      }
+
+      const plan = planIncrementalUpdate(createSpec(), next);
+
+      expect(plan.targetPhase).toBe('Lattice');
+      expect(plan.invalidatedFunctions.map((f) => f.id)).toEqual([
+        'AccountService.deposit',
+        'AuditService.record',
+      ]);
+      expect(plan.preservedFunctions.map((f) => f.id)).toEqual([
+        'AccountService.getBalance',
+        'AuditService.count',
+      ]);
+      expect(plan.affectedModules).toEqual([
+        path.join('src', 'domain', 'account'),
+        path.join('src', 'domain', 'audit'),
+        path.join('src', 'domain', 'statement'),
+      ]);
+    });
+
+    it('should mark functions dropped from the spec as removed', () => {
+      const next = createSpec();
+      const audit = next.interfaces?.AuditService;
+      if (audit !== undefined) {
+        audit.methods = audit.methods.filter((m) => m.name !== 'count');
+      }
+
+      const plan = planIncrementalUpdate(createSpec(), next);
+
+      expect(plan.invalidatedFunctions).toMatchObject([
+        { id: 'AuditService.count', removed: true },
+      ]);
+      expect(plan.preservedFunctions.map((f) => f.id)).not.toContain('AuditService.count');
+    });
+
+    it('should not regress for documentation-only changes', () => {
+      const next = createSpec();
+      const service = next.interfaces?.AccountService;
+      if (service !== undefined) {
+        service.description = 'Account operations';
+      }
+
+      const plan = planIncrementalUpdate(createSpec(), next);
+
+      expect(plan.diff.hasChanges).toBe(true);
+      expect(plan.targetPhase).toBeUndefined();
+      expect(plan.invalidatedFunctions).toEqual([]);
+    });
+
+    it('should regress to Lattice for claims attached to a function', () => {
+      const next = createSpec();
+      next.claims = {
+        deposit_001: { text: 'deposit increases the balance', type: 'behavioral' },
+      };
+
+      const plan = planIncrementalUpdate(createSpec(), next);
+
+      expect(plan.targetPhase).toBe('Lattice');
+      expect(plan.invalidatedFunctions.map((f) => f.id)).toEqual(['AccountService.deposit']);
+    });
+
+    it('should regress to Mesoscopic for claims attached to no function', () => {
+      const next = createSpec();
+      next.claims = {
+        perf_001: { text: 'responses arrive within 100ms', type: 'performance' },
+      };
+
+      const plan = planIncrementalUpdate(createSpec(), next);
+
+      expect(plan.targetPhase).toBe('Mesoscopic');
+      expect(plan.invalidatedFunctions).toEqual([]);
+    });
+  });
+
+  describe('applyIncrementalPlan', () => {
+    it('should regress to the target phase and record every function', () => {
+      const next = createSpec();
+      const getBalance = next.interfaces?.AccountService?.methods[1];
+      if (getBalance !== undefined) {
+        getBalance.returns = 'bigint';
+      }
+      const plan = planIncrementalUpdate(createSpec(), next);
+      const ledger = new Ledger({ project: 'bank' });
+
+      const result = applyIncrementalPlan(createInjectionSnapshot(), plan, ledger);
+
+      expect(result.regressed).toBe(true);
+      expect(result.fromPhase).toBe('Injection');
+      expect(isActiveState(result.snapshot.state)).toBe(true);
+      expect(getPhase(result.snapshot.state)).toBe('Lattice');
+      expect(result.snapshot.artifacts).toEqual(['spec']);
+
+      const [regression, ...functions] = result.decisions;
+      expect(regression?.category).toBe('phase_structure');
+      expect(regression?.source).toBe('spec_change');
+      expect(regression?.constraint).toBe(
+        'Spec change regressed the protocol from Injection to Lattice'
+      );
+      expect(functions.map((d) => d.constraint)).toEqual([
+        'Implementation of AccountService.getBalance invalidated by spec change',
+        'Implementation of AccountService.deposit preserved across spec change',
+        'Implementation of AuditService.record preserved across spec change',
+        'Implementation of AuditService.count preserved across spec change',
+      ]);
+      expect(functions.every((d) => d.dependencies?.[0] === regression?.id)).toBe(true);
+      expect(ledger.getDecisions()).toHaveLength(5);
+    });
+
+    it('should keep earlier artifacts when regressing to Mesoscopic', () => {
+      const next = createSpec();
+      next.claims = { perf_001: { text: 'fast', type: 'performance' } };
+      const snapshot: ProtocolStateSnapshot = {
+        ...createInjectionSnapshot(),
+        state: { kind: 'Complete', artifacts: [] },
+        artifacts: [
+          'spec',
+          'latticeCode',
+          'witnesses',
+          'contracts',
+          'validatedStructure',
+          'implementedCode',
+          'verifiedCode',
+          'finalArtifact',
+        ],
+      };
+
+      const result = applyIncrementalPlan(
+        snapshot,
+        planIncrementalUpdate(createSpec(), next),
+        new Ledger({ project: 'bank' })
+      );
+
+      expect(result.fromPhase).toBe('Complete');
+      expect(getPhase(result.snapshot.state)).toBe('Mesoscopic');
+      expect(result.snapshot.artifacts).toEqual([
+        'spec',
+        'latticeCode',
+        'witnesses',
+        'contracts',
+        'validatedStructure',
+        'implementedCode',
+      ]);
+    });
+
+    it('should not regress a protocol that has not reached the target phase', () => {
+      const next = createSpec();
+      next.interfaces = {};
+      const snapshot: ProtocolStateSnapshot = {
+        state: createActiveState(
+          createIgnitionPhaseState(createIgnitionInterviewing('Discovery', 0))
+        ),
+        artifacts: [],
+        blockingQueries: [],
+      };
+      const ledger = new Ledger({ project: 'bank' });
+
+      const result = applyIncrementalPlan(
+        snapshot,
+        planIncrementalUpdate(createSpec(), next),
+        ledger
+      );
+
+      expect(result.regressed).toBe(false);
+      expect(result.snapshot).toBe(snapshot);
+      expect(ledger.getDecisions()).toHaveLength(0);
+    });
+
+    it('should leave blocked states alone', () => {
+      const next = createSpec();
+      next.interfaces = {};
+      const snapshot: ProtocolStateSnapshot = {
+        state: createBlockedState({ reason: 'user_requested', phase: 'Injection', query: '?' }),
+        artifacts: [],
+        blockingQueries: [],
+      };
+
+      const result = applyIncrementalPlan(
+        snapshot,
+        planIncrementalUpdate(createSpec(), next),
+        new Ledger({ project: 'bank' })
+      );
+
+      expect(result.regressed).toBe(false);
+    });
+  });
+
+  describe('function bodies', () => {
+    const generated = [
+      '/**',
+      ' * Adds two numbers.',
+      ' */',
+      'export function add(a: number, b: number): number {',
+      "  throw new Error('TODO');",
+      '}',
+      '',
+      'export async function fetchUser(id: string): Promise<{ id: string }> {',
+      "  throw new Error('TODO');",
+      '}',
+      '',
+    ].join('\n');
+
+    const implemented = generated
+      .replace("  throw new Error('TODO');", '  const sum = a + b;\n  return sum;')
+      .replace("  throw new Error('TODO');", '  return Promise.resolve({ id });');
+
+    it('should extract only implemented bodies', () => {
+      const bodies = extractFunctionBodies(implemented);
+
+      expect(bodies.get('add')).toBe('  const sum = a + b;\n  return sum;');
+      expect(bodies.get('fetchUser')).toBe('  return Promise.resolve({ id });');
+      expect(extractFunctionBodies(generated).size).toBe(0);
+    });
+
+    it('should restore preserved bodies into regenerated code', () => {
+      const result = restoreFunctionBodies(
+        generated,
+        extractFunctionBodies(implemented),
+        new Set(['add'])
+      );
+
+      expect(result.restored).toEqual(['add']);
+      expect(result.code).toContain('  const sum = a + b;\n  return sum;\n}');
+      expect(result.code).toContain("Promise<{ id: string }> {\n  throw new Error('TODO');\n}");
+    });
+
+    it('should keep bodies whole when a nested line is a column-0 brace', () => {
+      const body = [
+        '  if (a > b) {',
+        '    return `',
+        '}',
+        '`.length;',
+        '  }',
+        '  return a + b;',
+      ].join('\n');
+      const withBrace = generated.replace("  throw new Error('TODO');", body);
+
+      const bodies = extractFunctionBodies(withBrace);
+      expect(bodies.get('add')).toBe(body);
+
+      const result = restoreFunctionBodies(generated, bodies, new Set(['add']));
+      expect(result.restored).toEqual(['add']);
+      expect(result.code).toBe(withBrace);
+    });
+  });
+
+  describe('persistence', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(path.join(os.tmpdir(), 'incremental-test-'));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should round-trip the spec baseline', async () => {
+      expect(await loadSpecBaseline(tempDir)).toBeUndefined();
+
+      await saveSpecBaseline(tempDir, '[meta]\nversion = "1.0.0"\n');
+
+      expect(await loadSpecBaseline(tempDir)).toBe('[meta]\nversion = "1.0.0"\n');
+    });
+
+    it('should save, load, and clear the pending plan', async () => {
+      const next = createSpec();
+      next.interfaces = {};
+      const plan = planIncrementalUpdate(createSpec(), next);
+
+      await saveIncrementalPlan(tempDir, plan, () => new Date('2026-01-01T00:00:00.000Z'));
+      const loaded = await loadIncrementalPlan(tempDir);
+
+      expect(loaded?.createdAt).toBe('2026-01-01T00:00:00.000Z');
+      expect(loaded?.targetPhase).toBe('Lattice');
+      expect(loaded?.invalidatedFunctions).toHaveLength(4);
+
+      await clearIncrementalPlan(tempDir);
+      expect(existsSync(getIncrementalPlanPath(tempDir))).toBe(false);
+      expect(await loadIncrementalPlan(tempDir)).toBeUndefined();
+    });
+
+    it('should not persist a plan without a target phase', async () => {
+      await saveIncrementalPlan(tempDir, planIncrementalUpdate(createSpec(), createSpec()));
+
+      expect(existsSync(getIncrementalPlanPath(tempDir))).toBe(false);
+    });
+
+    it('should reject a malformed plan', async () => {
+      mkdirSync(path.dirname(getIncrementalPlanPath(tempDir)), { recursive: true });
+      writeFileSync(getIncrementalPlanPath(tempDir), '{"version": 99}');
+
+      await expect(loadIncrementalPlan(tempDir)).rejects.toThrow(IncrementalPlanError);
+    });
+  });
+});
@@ -0,0 +1,822 @@
+/**
+ * Incremental re-synthesis after spec.toml changes.
+ *
+ * Maps the classified changes from the spec diff engine onto lattice
+ * modules and TODO functions, regresses the protocol only to the earliest
+ * affected phase, and records every preserved or invalidated function
+ * implementation in the decision ledger.
+ *
+ * The spec the current artifacts were generated from is kept as a
+ * baseline under `.criticality/`. When the Lattice phase re-runs after a
+ * regression it consults the pending plan to restore the bodies of
+ * functions the change did not touch.
+ *
+ * @packageDocumentation
+ */
+
+import * as path from 'node:path';
+import { Project } from 'ts-morph';
+import type { Decision, DecisionPhase, Ledger } from '../ledger/index.js';
+import type { Spec, SpecClaim, SpecDataModel, SpecInterface } from '../spec/types.js';
+import { diffSpecs, type SpecChange, type SpecDiff } from '../spec/diff.js';
+import { inferDomainBoundaries } from '../lattice/module-generator.js';
+import type { ProtocolStateSnapshot } from './persistence.js';
+import {
+  createActiveState,
+  getPhase,
+  getPhaseIndex,
+  isBlockedState,
+  isCompleteState,
+  type ProtocolPhase,
+} from './types.js';
+import { REQUIRED_ARTIFACTS, createDefaultPhaseState } from './transitions.js';
+import {
+  safeExists,
+  safeMkdir,
+  safeReadFile,
+  safeRename,
+  safeUnlink,
+  safeWriteFile,
+} from '../utils/safe-fs.js';
+
+/**
+ * Directory (relative to the project root) holding incremental state.
+ */
+export const INCREMENTAL_STATE_DIR = '.criticality';
+
+/**
+ * File name of the spec baseline the current artifacts were generated from.
+ */
+export const SPEC_BASELINE_FILENAME = 'spec.baseline.toml';
+
+/**
+ * File name of the pending incremental plan.
+ */
+export const INCREMENTAL_PLAN_FILENAME = 'incremental-plan.json';
+
+/**
+ * Version of the persisted incremental plan format.
+ */
+export const INCREMENTAL_PLAN_VERSION = 1;
+
+/**
+ * Phases a spec change can regress the protocol to.
+ *
+ * - Lattice: Generated types, signatures, or contracts change
+ * - Mesoscopic: Only claims that no function carries as a contract change
+ */
+export type IncrementalTargetPhase = 'Lattice' | 'Mesoscopic';
+
+/**
+ * A function generated from a spec interface method.
+ */
+export interface SpecFunctionRef {
+  /** Stable identifier (`Interface.method`). */
+  readonly id: string;
+  /** Interface declaring the method. */
+  readonly interfaceName: string;
+  /** Method name, which is also the generated function name. */
+  readonly name: string;
+  /** Lattice module the interface belongs to. */
+  readonly modulePath: string;
+}
+
+/**
+ * A function whose implementation must be regenerated.
+ */
+export interface InvalidatedFunction extends SpecFunctionRef {
+  /** Descriptions of the changes that invalidated it. */
+  readonly reasons: readonly string[];
+  /** Whether the function no longer exists in the new spec. */
+  readonly removed: boolean;
+}
+
+/**
+ * Plan for re-synthesizing after a spec change.
+ */
+export interface IncrementalPlan {
+  /** The classified spec changes. */
+  readonly diff: SpecDiff;
+  /** Earliest phase affected by the changes, or undefined if none is. */
+  readonly targetPhase: IncrementalTargetPhase | undefined;
+  /** Lattice modules containing changed types or functions. */
+  readonly affectedModules: readonly string[];
+  /** Functions that must be (re-)implemented. */
+  readonly invalidatedFunctions: readonly InvalidatedFunction[];
+  /** Functions whose implementations can be kept. */
+  readonly preservedFunctions: readonly SpecFunctionRef[];
+}
+
+/**
+ * Options for planning an incremental update.
+ */
+export interface IncrementalPlanOptions {
+  /** Base directory of generated code. Default: 'src'. */
+  readonly baseDir?: string;
+  /** Domain subdirectory name. Default: 'domain'. */
+  readonly domainDir?: string;
+}
+
+/**
+ * Result of applying an incremental plan to protocol state.
+ */
+export interface IncrementalUpdateResult<S extends ProtocolStateSnapshot> {
+  /** Whether the protocol was moved back to an earlier phase. */
+  readonly regressed: boolean;
+  /** The phase the protocol was in before the update. */
+  readonly fromPhase: ProtocolPhase | undefined;
+  /** The updated snapshot (unchanged if not regressed). */
+  readonly snapshot: S;
+  /** Ledger decisions recorded for the update. */
+  readonly decisions: readonly Decision[];
+}
+
+/**
+ * Pending plan persisted for the Lattice phase.
+ */
+export interface PersistedIncrementalPlan {
+  /** Plan format version. */
+  readonly version: number;
+  /** ISO 8601 timestamp of when the plan was created. */
+  readonly createdAt: string;
+  /** Phase the protocol was regressed to. */
+  readonly targetPhase: IncrementalTargetPhase;
+  /** Functions that must be (re-)implemented. */
+  readonly invalidatedFunctions: readonly InvalidatedFunction[];
+  /** Functions whose implementations can be kept. */
+  readonly preservedFunctions: readonly SpecFunctionRef[];
+}
+
+/**
+ * Error thrown when the pending incremental plan cannot be read.
+ */
+export class IncrementalPlanError extends Error {
+  /** Path of the plan file. */
+  public readonly filePath: string;
+
+  /**
+   * Creates a new IncrementalPlanError.
+   *
+   * @param message - Descriptive error message.
+   * @param filePath - Path of the plan file.
+   */
+  constructor(message: string, filePath: string) {
+    super(message);
+    this.name = 'IncrementalPlanError';
+    this.filePath = filePath;
+  }
+}
+
+/**
+ * Extracts identifiers from a type expression.
+ *
+ * @param typeExpression - A spec type or 'name: Type' parameter string.
+ * @returns The identifiers it mentions.
+ */
+function extractIdentifiers(typeExpression: string): string[] {
+  return typeExpression.match(/[A-Za-z_][A-Za-z0-9_]*/g) ?? [];
+}
+
+/**
+ * Collects the type names a method signature references.
+ *
+ * @param params - Method parameters.
+ * @param returns - Method return type.
+ * @returns Referenced identifiers.
+ */
+function collectSignatureTypes(
+  params: readonly string[] | undefined,
+  returns: string
+): Set<string> {
+  const types = new Set(extractIdentifiers(returns));
+  for (const param of params ?? []) {
+    const colon = param.indexOf(':');
+    for (const identifier of extractIdentifiers(colon >= 0 ? param.slice(colon + 1) : param)) {
+      types.add(identifier);
+    }
+  }
+  return types;
+}
+
+/**
+ * Lists the functions a spec generates, keyed by ID.
+ *
+ * @param spec - The specification.
+ * @param options - Module layout options.
+ * @returns Functions with their referenced types.
+ */
+function listFunctions(
+  spec: Spec,
+  options: Required<IncrementalPlanOptions>
+): Map<string, { ref: SpecFunctionRef; types: Set<string> }> {
+  const moduleByInterface = new Map<string, string>();
+  for (const domain of inferDomainBoundaries(spec)) {
+    for (const interfaceName of domain.interfaces) {
+      moduleByInterface.set(
+        interfaceName,
+        path.join(options.baseDir, options.domainDir, domain.name)
+      );
+    }
+  }
+
+  const functions = new Map<string, { ref: SpecFunctionRef; types: Set<string> }>();
+  for (const [interfaceName, iface] of Object.entries(spec.interfaces ?? {})) {
+    for (const method of iface.methods) {
+      const id = `${interfaceName}.${method.name}`;
+      functions.set(id, {
+        ref: {
+          id,
+          interfaceName,
+          name: method.name,
+          modulePath:
+            moduleByInterface.get(interfaceName) ??
+            path.join(options.baseDir, options.domainDir, spec.system.name),
+        },
+        types: collectSignatureTypes(method.params, method.returns),
+      });
+    }
+  }
+  return functions;
+}
+
+/**
+ * Gets the lattice module a data model belongs to.
+ *
+ * @param spec - The specification declaring the model.
+ * @param modelName - The data model name.
+ * @param options - Module layout options.
+ * @returns The module path, or undefined if the model is not in the spec.
+ */
+function findDataModelModule(
+  spec: Spec,
+  modelName: string,
+  options: Required<IncrementalPlanOptions>
+): string | undefined {
+  const domain = inferDomainBoundaries(spec).find((d) => d.dataModels.includes(modelName));
+  return domain !== undefined
+    ? path.join(options.baseDir, options.domainDir, domain.name)
+    : undefined;
+}
+
+/**
+ * Expands a set of changed type names to the data models that embed them.
+ *
+ * @param changedTypes - Directly changed type names.
+ * @param dataModels - Data models from both specs.
+ * @returns All affected type names.
+ */
+function expandAffectedTypes(
+  changedTypes: ReadonlySet<string>,
+  dataModels: readonly [string, SpecDataModel][]
+): Set<string> {
+  const affected = new Set(changedTypes);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const [modelName, model] of dataModels) {
+      if (affected.has(modelName)) {
+        continue;
+      }
+      const embedsAffected = model.fields.some((field) =>
+        extractIdentifiers(field.type).some((identifier) => affected.has(identifier))
+      );
+      if (embedsAffected) {
+        affected.add(modelName);
+        grew = true;
+      }
+    }
+  }
+  return affected;
+}
+
+/**
+ * Checks whether a claim refers to a function.
+ *
+ * Uses the same matching as contract attachment: the claim ID, subject,
+ * operation, trigger, or text mentions the method, or the claim ID or
+ * subject mentions the interface.
+ *
+ * @param claimId - The claim ID.
+ * @param claim - The claim.
+ * @param ref - The function.
+ * @returns True if the claim is attached to the function.
+ */
+function claimMatchesFunction(claimId: string, claim: SpecClaim, ref: SpecFunctionRef): boolean {
+  const methodName = ref.name.toLowerCase();
+  const interfaceName = ref.interfaceName.toLowerCase();
+  const id = claimId.toLowerCase();
+  const subject = claim.subject?.toLowerCase() ?? '';
+
+  return (
+    id.includes(methodName) ||
+    id.includes(interfaceName) ||
+    subject.includes(methodName) ||
+    subject.includes(interfaceName) ||
+    (claim.operation?.toLowerCase().includes(methodName) ?? false) ||
+    (claim.trigger?.toLowerCase().includes(methodName) ?? false) ||
+    claim.text.toLowerCase().includes(methodName)
+  );
+}
+
+/**
+ * Gets a record entry by key without prototype lookups.
+ *
+ * @param record - The record.
+ * @param key - The key.
+ * @returns The entry, or undefined.
+ */
+function getEntry<T>(record: Record<string, T> | undefined, key: string): T | undefined {
+  return new Map(Object.entries(record ?? {})).get(key);
+}
+
+/**
+ * Plans an incremental update from one spec to another.
+ *
+ * Structural and contract changes to interfaces, data models, and
+ * witnesses invalidate the functions whose signatures reference the
+ * changed entries and regress to Lattice. Claim changes invalidate the
+ * functions the claim is attached to; a claim attached to no function
+ * only affects cluster tests and regresses to Mesoscopic. Documentation
+ * changes never force a regression.
+ *
+ * @param previous - The spec the current artifacts were generated from.
+ * @param next - The edited spec.
+ * @param options - Module layout options.
+ * @returns The incremental plan.
+ */
+export function planIncrementalUpdate(
+  previous: Spec,
+  next: Spec,
+  options: IncrementalPlanOptions = {}
+): IncrementalPlan {
+  const layout: Required<IncrementalPlanOptions> = {
+    baseDir: options.baseDir ?? 'src',
+    domainDir: options.domainDir ?? 'domain',
+  };
+  const diff = diffSpecs(previous, next);
+  const previousFunctions = listFunctions(previous, layout);
+  const nextFunctions = listFunctions(next, layout);
+
+  const reasons = new Map<string, string[]>();
+  const invalidate = (id: string, change: SpecChange): void => {
+    const existing = reasons.get(id);
+    if (existing === undefined) {
+      reasons.set(id, [change.description]);
+    } else if (!existing.includes(change.description)) {
+      existing.push(change.description);
+    }
+  };
+  const affectedModules = new Set<string>();
+  let targetPhase: IncrementalTargetPhase | undefined;
+  const reach = (phase: IncrementalTargetPhase): void => {
+    if (targetPhase === undefined || getPhaseIndex(phase) < getPhaseIndex(targetPhase)) {
+      targetPhase = phase;
+    }
+  };
+
+  const allDataModels = [
+    ...Object.entries(previous.data_models ?? {}),
+    ...Object.entries(next.data_models ?? {}),
+  ];
+
+  for (const change of diff.changes) {
+    if (change.impact === 'documentation') {
+      continue;
+    }
+
+    switch (change.section) {
+      case 'interfaces': {
+        reach('Lattice');
+        const beforeIface: SpecInterface | undefined = getEntry(previous.interfaces, change.name);
+        const afterIface: SpecInterface | undefined = getEntry(next.interfaces, change.name);
+        const methodNames =
+          change.member !== undefined
+            ? [change.member]
+            : [...(beforeIface?.methods ?? []), ...(afterIface?.methods ?? [])].map((m) => m.name);
+        for (const methodName of methodNames) {
+          const id = `${change.name}.${methodName}`;
+          invalidate(id, change);
+          const ref = nextFunctions.get(id)?.ref ?? previousFunctions.get(id)?.ref;
+          if (ref !== undefined) {
+            affectedModules.add(ref.modulePath);
+          }
+        }
+        break;
+      }
+
+      case 'data_models':
+      case 'witnesses': {
+        reach('Lattice');
+        const changedType =
+          change.section === 'witnesses'
+            ? (getEntry(next.witnesses, change.name)?.name ??
+              getEntry(previous.witnesses, change.name)?.name ??
+              change.name)
+            : change.name;
+        const affectedTypes = expandAffectedTypes(new Set([changedType]), allDataModels);
+        for (const typeName of affectedTypes) {
+          const modulePath =
+            findDataModelModule(next, typeName, layout) ??
+            findDataModelModule(previous, typeName, layout);
+          if (modulePath !== undefined) {
+            affectedModules.add(modulePath);
+          }
+        }
+        for (const functions of [previousFunctions, nextFunctions]) {
+          for (const [id, { ref, types }] of functions) {
+            if ([...types].some((t) => affectedTypes.has(t))) {
+              invalidate(id, change);
+              affectedModules.add(ref.modulePath);
+            }
+          }
+        }
+        break;
+      }
+
+      case 'claims': {
+        const claim = getEntry(next.claims, change.name) ?? getEntry(previous.claims, change.name);
+        let attached = false;
+        if (claim !== undefined) {
+          for (const functions of [previousFunctions, nextFunctions]) {
+            for (const [id, { ref }] of functions) {
+              if (claimMatchesFunction(change.name, claim, ref)) {
+                attached = true;
+                invalidate(id, change);
+                affectedModules.add(ref.modulePath);
+              }
+            }
+          }
+        }
+        reach(attached ? 'Lattice' : 'Mesoscopic');
+        break;
+      }
+    }
+  }
+
+  const invalidatedFunctions: InvalidatedFunction[] = [];
+  for (const [id, changeReasons] of reasons) {
+    const current = nextFunctions.get(id);
+    const ref = current?.ref ?? previousFunctions.get(id)?.ref;
+    if (ref !== undefined) {
+      invalidatedFunctions.push({ ...ref, reasons: changeReasons, removed: current === undefined });
+    }
+  }
+
+  const preservedFunctions = [...nextFunctions.values()]
+    .map(({ ref }) => ref)
+    .filter((ref) => !reasons.has(ref.id));
+
+  return {
+    diff,
+    targetPhase,
+    affectedModules: [...affectedModules].sort(),
+    invalidatedFunctions,
+    preservedFunctions,
+  };
+}
+
+/**
+ * Maps a regression target to the ledger phase.
+ *
+ * @param phase - The regression target.
+ * @returns The ledger decision phase.
+ */
+function toDecisionPhase(phase: IncrementalTargetPhase): DecisionPhase {
+  switch (phase) {
+    case 'Lattice':
+      return 'lattice';
+    case 'Mesoscopic':
+      return 'mesoscopic';
+  }
+}
+
+/**
+ * Gets the artifacts that remain valid when regressing to a phase.
+ *
+ * Artifacts required to enter the target phase or any phase before it
+ * were produced before the target and are kept; everything else is
+ * regenerated.
+ *
+ * @param artifacts - Current artifacts.
+ * @param targetPhase - The regression target.
+ * @returns Artifacts to keep.
+ */
+function retainArtifacts(
+  artifacts: readonly string[],
+  targetPhase: IncrementalTargetPhase
+): string[] {
+  const kept = new Set<string>();
+  for (const [phase, required] of REQUIRED_ARTIFACTS) {
+    if (getPhaseIndex(phase) <= getPhaseIndex(targetPhase)) {
+      for (const artifact of required) {
+        kept.add(artifact);
+      }
+    }
+  }
+  return artifacts.filter((artifact) => kept.has(artifact));
+}
+
+/**
+ * Applies an incremental plan to protocol state.
+ *
+ * The protocol is regressed only if it has already reached or passed the
+ * plan's target phase. Blocked states are left alone; the blocking query
+ * must be resolved first. On regression, one decision is recorded for the
+ * regression itself and one for every invalidated or preserved function.
+ *
+ * @param snapshot - The current state snapshot.
+ * @param plan - The incremental plan.
+ * @param ledger - The decision ledger for recording.
+ * @returns The update result.
+ */
+export function applyIncrementalPlan<S extends ProtocolStateSnapshot>(
+  snapshot: S,
+  plan: IncrementalPlan,
+  ledger: Ledger
+): IncrementalUpdateResult<S> {
+  const { state } = snapshot;
+  const fromPhase: ProtocolPhase | undefined = isCompleteState(state)
+    ? 'Complete'
+    : getPhase(state);
+  const targetPhase = plan.targetPhase;
+
+  if (
+    targetPhase === undefined ||
+    fromPhase === undefined ||
+    isBlockedState(state) ||
+    getPhaseIndex(fromPhase) < getPhaseIndex(targetPhase)
+  ) {
+    return { regressed: false, fromPhase, snapshot, decisions: [] };
+  }
+
+  const phase = toDecisionPhase(targetPhase);
+  const changeSummary = plan.diff.changes
+    .filter((c) => c.impact !== 'documentation')
+    .map((c) => `[${c.impact}] ${c.description}`)
+    .join('; ');
+
+  const regression = ledger.append({
+    category: 'phase_structure',
+    constraint: `Spec change regressed the protocol from ${fromPhase} to ${targetPhase}`,
+    rationale: `Changes: ${changeSummary}. Affected modules: ${plan.affectedModules.join(', ') || '(none)'}.`,
+    source: 'spec_change',
+    confidence: 'inferred',
+    phase,
+  });
+  const decisions: Decision[] = [regression];
+
+  for (const fn of plan.invalidatedFunctions) {
+    decisions.push(
+      ledger.append({
+        category: 'injection',
+        constraint: fn.removed
+          ? `Implementation of ${fn.id} discarded: function removed from spec`
+          : `Implementation of ${fn.id} invalidated by spec change`,
+        rationale: fn.reasons.join('; '),
+        source: 'spec_change',
+        confidence: 'inferred',
+        phase,
+        dependencies: [regression.id],
+      })
+    );
+  }
+
+  for (const fn of plan.preservedFunctions) {
+    decisions.push(
+      ledger.append({
+        category: 'injection',
+        constraint: `Implementation of ${fn.id} preserved across spec change`,
+        rationale:
+          'No change to the function signature, its contracts, or the types it references.',
+        source: 'spec_change',
+        confidence: 'inferred',
+        phase,
+        dependencies: [regression.id],
+      })
+    );
+  }
+
+  const regressedSnapshot: S = {
+    ...snapshot,
+    state: createActiveState(createDefaultPhaseState(targetPhase)),
+    artifacts: retainArtifacts(snapshot.artifacts, targetPhase),
+  };
+
+  return { regressed: true, fromPhase, snapshot: regressedSnapshot, decisions };
+}
+
+/**
+ * Gets the spec baseline path for a project.
+ *
+ * @param projectRoot - The project root.
+ * @returns The baseline path.
+ */
+export function getSpecBaselinePath(projectRoot: string): string {
+  return path.join(projectRoot, INCREMENTAL_STATE_DIR, SPEC_BASELINE_FILENAME);
+}
+
+/**
+ * Gets the pending incremental plan path for a project.
+ *
+ * @param projectRoot - The project root.
+ * @returns The plan path.
+ */
+export function getIncrementalPlanPath(projectRoot: string): string {
+  return path.join(projectRoot, INCREMENTAL_STATE_DIR, INCREMENTAL_PLAN_FILENAME);
+}
+
+/**
+ * Writes a file atomically via a temporary file.
+ *
+ * @param filePath - Destination path.
+ * @param content - File content.
+ */
+async function writeAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${String(process.pid)}.tmp`;
+  await safeMkdir(path.dirname(filePath), { recursive: true });
+  await safeWriteFile(tempPath, content, 'utf-8');
+  await safeRename(tempPath, filePath);
+}
+
+/**
+ * Loads the spec the current artifacts were generated from.
+ *
+ * @param projectRoot - The project root.
+ * @returns The baseline spec.toml content, or undefined if none is recorded.
+ */
+export async function loadSpecBaseline(projectRoot: string): Promise<string | undefined> {
+  const baselinePath = getSpecBaselinePath(projectRoot);
+  if (!(await safeExists(baselinePath))) {
+    return undefined;
+  }
+  return safeReadFile(baselinePath, 'utf-8');
+}
+
+/**
+ * Records the spec the current artifacts were generated from.
+ *
+ * @param projectRoot - The project root.
+ * @param specContent - The spec.toml content.
+ */
+export async function saveSpecBaseline(projectRoot: string, specContent: string): Promise<void> {
+  await writeAtomic(getSpecBaselinePath(projectRoot), specContent);
+}
+
+/**
+ * Persists a plan for the Lattice phase to consult.
+ *
+ * @param projectRoot - The project root.
+ * @param plan - The incremental plan; must have a target phase.
+ * @param now - Clock for the timestamp (for testing).
+ */
+export async function saveIncrementalPlan(
+  projectRoot: string,
+  plan: IncrementalPlan,
+  now: () => Date = () => new Date()
+): Promise<void> {
+  if (plan.targetPhase === undefined) {
+    return;
+  }
+  const persisted: PersistedIncrementalPlan = {
+    version: INCREMENTAL_PLAN_VERSION,
+    createdAt: now().toISOString(),
+    targetPhase: plan.targetPhase,
+    invalidatedFunctions: plan.invalidatedFunctions,
+    preservedFunctions: plan.preservedFunctions,
+  };
+  await writeAtomic(getIncrementalPlanPath(projectRoot), JSON.stringify(persisted, null, 2));
+}
+
+/**
+ * Loads the pending incremental plan, if any.
+ *
+ * @param projectRoot - The project root.
+ * @returns The pending plan, or undefined if there is none.
+ * @throws IncrementalPlanError if the plan file is unreadable or malformed.
+ */
+export async function loadIncrementalPlan(
+  projectRoot: string
+): Promise<PersistedIncrementalPlan | undefined> {
+  const planPath = getIncrementalPlanPath(projectRoot);
+  if (!(await safeExists(planPath))) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await safeReadFile(planPath, 'utf-8'));
+  } catch (error) {
+    throw new IncrementalPlanError(
+      `Failed to read incremental plan: ${error instanceof Error ? error.message : String(error)}`,
+      planPath
+    );
+  }
+
+  if (
+    typeof parsed !== 'object' ||
+    parsed === null ||
+    (parsed as Record<string, unknown>).version !== INCREMENTAL_PLAN_VERSION ||
+    !Array.isArray((parsed as Record<string, unknown>).invalidatedFunctions) ||
+    !Array.isArray((parsed as Record<string, unknown>).preservedFunctions)
+  ) {
+    throw new IncrementalPlanError('Incremental plan has an unrecognized format', planPath);
+  }
+
+  return parsed as PersistedIncrementalPlan;
+}
+
+/**
+ * Removes the pending incremental plan once it has been carried out.
+ *
+ * @param projectRoot - The project root.
+ */
+export async function clearIncrementalPlan(projectRoot: string): Promise<void> {
+  const planPath = getIncrementalPlanPath(projectRoot);
+  if (await safeExists(planPath)) {
+    await safeUnlink(planPath);
+  }
+}
+
+/**
+ * Body of a TODO function as emitted by the Lattice function generator.
+ */
+const TODO_BODY = "  throw new Error('TODO');";
+
+/**
+ * Splits generated code into top-level function bodies.
+ *
+ * Bodies are located through the ts-morph AST, so braces inside strings,
+ * templates or nested blocks never end a body early.
+ *
+ * @param code - Generated functions module.
+ * @returns Body text per function, with the offsets of the text between its braces.
+ */
+function scanFunctions(code: string): Map<string, { start: number; end: number; body: string }> {
+  const project = new Project({ useInMemoryFileSystem: true });
+  const sourceFile = project.createSourceFile('functions.ts', code);
+  const functions = new Map<string, { start: number; end: number; body: string }>();
+
+  for (const func of sourceFile.getFunctions()) {
+    const name = func.getName();
+    const block = func.getBody();
+    if (name === undefined || block === undefined || functions.has(name)) {
+      continue;
+    }
+    const start = block.getStart() + 1;
+    const end = block.getEnd() - 1;
+    const body = code
+      .slice(start, end)
+      .replace(/^[^\S\n]*\n/, '')
+      .replace(/\n[^\S\n]*$/, '');
+    functions.set(name, { start, end, body });
+  }
+
+  return functions;
+}
+
+/**
+ * Extracts implemented (non-TODO) function bodies from generated code.
+ *
+ * @param code - Generated functions module.
+ * @returns Body text keyed by function name.
+ */
+export function extractFunctionBodies(code: string): Map<string, string> {
+  const bodies = new Map<string, string>();
+  for (const [name, { body }] of scanFunctions(code)) {
+    if (body !== TODO_BODY) {
+      bodies.set(name, body);
+    }
+  }
+  return bodies;
+}
+
+/**
+ * Restores implemented bodies into freshly generated code.
+ *
+ * Only functions that still have a TODO body and are listed as preserved
+ * are restored.
+ *
+ * @param code - Freshly generated functions module.
+ * @param bodies - Previously implemented bodies keyed by function name.
+ * @param preserved - Names of functions whose implementations are kept.
+ * @returns The merged code and the names of restored functions.
+ */
+export function restoreFunctionBodies(
+  code: string,
+  bodies: ReadonlyMap<string, string>,
+  preserved: ReadonlySet<string>
+): { code: string; restored: string[] } {
+  let merged = code;
+  const restored: string[] = [];
+  const functions = [...scanFunctions(code)].sort(([, a], [, b]) => b.start - a.start);
+
+  for (const [name, { start, end, body }] of functions) {
+    const implemented = bodies.get(name);
+    if (implemented !== undefined && body === TODO_BODY && preserved.has(name)) {
+      merged = `${merged.slice(0, start)}\n${implemented}\n${merged.slice(end)}`;
+      restored.push(name);
+    }
+  }
+
+  return { code: merged, restored: restored.reverse() };
+}
@@ -124,6 +124,7 @@ export {
   transition,
   getValidTransitions,
   getNextPhase,
+  createDefaultPhaseState,
 } from './transitions.js';
 
 export {
@@ -207,7 +208,10 @@ export {
   type TickStopReason,
   type OrchestratorOptions,
   type OrchestratorState,
+  type BudgetGuard,
+  type StateHistory,
   // Orchestrator utilities
+  BUDGET_APPROVAL_OPTION,
   Guards,
   Actions,
   executeTick,
@@ -215,11 +219,64 @@ export {
   getProtocolStatus,
 } from './orchestrator.js';
 
+export {
+  // Incremental re-synthesis types
+  type IncrementalTargetPhase,
+  type SpecFunctionRef,
+  type InvalidatedFunction,
+  type IncrementalPlan,
+  type IncrementalPlanOptions,
+  type IncrementalUpdateResult,
+  type PersistedIncrementalPlan,
+  // Incremental re-synthesis constants
+  INCREMENTAL_STATE_DIR,
+  SPEC_BASELINE_FILENAME,
+  INCREMENTAL_PLAN_FILENAME,
+  INCREMENTAL_PLAN_VERSION,
+  // Incremental re-synthesis functions
+  planIncrementalUpdate,
+  applyIncrementalPlan,
+  getSpecBaselinePath,
+  getIncrementalPlanPath,
+  loadSpecBaseline,
+  saveSpecBaseline,
+  saveIncrementalPlan,
+  loadIncrementalPlan,
+  clearIncrementalPlan,
+  extractFunctionBodies,
+  restoreFunctionBodies,
+  IncrementalPlanError,
+} from './incremental.js';
+
+export {
+  // State history types
+  type StateHistoryEntry,
+  type StateHistoryOptions,
+  type StateHistoryRecorderOptions,
+  type RewindResult,
+  // State history constants
+  STATE_HISTORY_DIR,
+  STATE_HISTORY_FILENAME,
+  STATE_HISTORY_REF_PREFIX,
+  // State history functions
+  getStateHistoryPath,
+  loadStateHistory,
+  getEntrySnapshot,
+  recordStateHistory,
+  createStateHistoryRecorder,
+  rewindToHistoryEntry,
+  captureSourceTree,
+  restoreSourceTree,
+  StateHistoryError,
+} from './history.js';
+
 export {
   // Phase execution types
   type MassDefectPhaseContext,
+  type InjectionPhaseContext,
   // Phase execution functions
   executeMassDefectPhase,
+  executeInjectionPhase,
 } from './phase-execution.js';
 
 export {
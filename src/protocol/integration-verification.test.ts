@@ -326,13 +326,14 @@ describe('US-009: Final integration verification', () => {
       });
     });
 
-    describe('Blocked states — all 5 BlockReasons', () => {
+    describe('Blocked states — all 6 BlockReasons', () => {
       const blockReasons: BlockReason[] = [
         'canonical_conflict',
         'unresolved_contradiction',
         'circuit_breaker',
         'security_review',
         'user_requested',
+        'budget_exceeded',
       ];
 
       for (const reason of blockReasons) {
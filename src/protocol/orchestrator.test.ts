@@ -9,6 +9,7 @@ import {
   executeTick,
   createOrchestrator,
   getProtocolStatus,
+  BUDGET_APPROVAL_OPTION,
   type TickContext,
   type ExternalOperations,
 } from './orchestrator.js';
@@ -21,6 +22,7 @@ import {
   createFailedState,
   createCompleteState,
   isActiveState,
+  isBlockedState,
   isCompleteState,
   getPhase,
   createIgnitionPhaseState,
@@ -36,6 +38,7 @@ import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { safeMkdir } from '../utils/safe-fs.js';
 import type { NotificationService } from '../notifications/service.js';
+import { CostLedger } from '../router/cost.js';
 
 /**
  * Helper to create a default Ignition ActiveState for use in tests.
@@ -463,6 +466,131 @@ describe('Protocol Orchestrator', () => {
       expect(getPhase(result.snapshot.state)).toBe('Ignition');
       expect(result.shouldContinue).toBe(true); // Still waiting for artifacts
     });
+
+    it('blocks for approval when spend passes the budget', async () => {
+      const budget = new CostLedger({
+        cost: {
+          budget_usd: 1,
+          prices: { 'test-model': { input_per_mtok: 1, output_per_mtok: 1 } },
+        },
+      });
+      budget.record({
+        modelAlias: 'worker',
+        modelId: 'test-model',
+        usage: { promptTokens: 1_000_000, completionTokens: 500_000, totalTokens: 1_500_000 },
+      });
+      const snapshot: ProtocolStateSnapshot = {
+        state: createDefaultIgnitionState(),
+        artifacts: ['spec'],
+        blockingQueries: [],
+      };
+
+      const context: TickContext = {
+        snapshot,
+        artifacts: new Set(['spec'] as const),
+        pendingResolutions: [],
+        operations: mockOperations,
+        notificationService: undefined,
+        budget,
+      };
+
+      const result = await executeTick(context, statePath);
+
+      expect(result.stopReason).toBe('BLOCKED');
+      expect(result.shouldContinue).toBe(false);
+      expect(isBlockedState(result.snapshot.state)).toBe(true);
+      if (isBlockedState(result.snapshot.state)) {
+        expect(result.snapshot.state.reason).toBe('budget_exceeded');
+        expect(result.snapshot.state.phase).toBe('Ignition');
+        expect(result.snapshot.state.query).toContain('spent $1.50 of the $1.00 limit');
+        expect(result.snapshot.state.options).toEqual([BUDGET_APPROVAL_OPTION]);
+      }
+      expect(result.snapshot.blockingQueries).toHaveLength(1);
+    });
+
+    it('raises the budget limit when a budget block is resolved', async () => {
+      const budget = new CostLedger({
+        cost: {
+          budget_usd: 1,
+          prices: { 'test-model': { input_per_mtok: 1, output_per_mtok: 1 } },
+        },
+      });
+      budget.record({
+        modelAlias: 'worker',
+        modelId: 'test-model',
+        usage: { promptTokens: 2_000_000, completionTokens: 0, totalTokens: 2_000_000 },
+      });
+      const snapshot: ProtocolStateSnapshot = {
+        state: createBlockedState({
+          reason: 'budget_exceeded',
+          phase: 'Ignition',
+          query: 'Budget exceeded',
+          options: [BUDGET_APPROVAL_OPTION],
+        }),
+        artifacts: [],
+        blockingQueries: [],
+      };
+
+      const context: TickContext = {
+        snapshot,
+        artifacts: new Set(),
+        pendingResolutions: [
+          {
+            queryId: 'budget-query',
+            response: BUDGET_APPROVAL_OPTION,
+            resolvedAt: new Date().toISOString(),
+          },
+        ],
+        operations: mockOperations,
+        notificationService: undefined,
+        budget,
+      };
+
+      const result = await executeTick(context, statePath);
+
+      expect(result.transitioned).toBe(true);
+      expect(isActiveState(result.snapshot.state)).toBe(true);
+      expect(budget.getBudgetStatus()).toEqual({ exceeded: false, spentUsd: 2, limitUsd: 3 });
+    });
+
+    it('records each persisted snapshot in the state history', async () => {
+      const recorded: ProtocolStateSnapshot[] = [];
+      const context: TickContext = {
+        snapshot: { state: createDefaultIgnitionState(), artifacts: ['spec'], blockingQueries: [] },
+        artifacts: new Set(['spec'] as const),
+        pendingResolutions: [],
+        operations: mockOperations,
+        notificationService: undefined,
+        history: {
+          record: (snapshot) => {
+            recorded.push(snapshot);
+            return Promise.resolve();
+          },
+        },
+      };
+
+      const result = await executeTick(context, statePath);
+
+      expect(recorded).toEqual([result.snapshot]);
+    });
+
+    it('keeps running when the state history cannot be recorded', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const context: TickContext = {
+        snapshot: { state: createDefaultIgnitionState(), artifacts: ['spec'], blockingQueries: [] },
+        artifacts: new Set(['spec'] as const),
+        pendingResolutions: [],
+        operations: mockOperations,
+        notificationService: undefined,
+        history: { record: () => Promise.reject(new Error('disk full')) },
+      };
+
+      const result = await executeTick(context, statePath);
+
+      expect(result.transitioned).toBe(true);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('disk full'));
+      warn.mockRestore();
+    });
   });
 
   describe('createOrchestrator', () => {
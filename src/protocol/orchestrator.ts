@@ -16,7 +16,7 @@ import type { BlockingRecord, BlockingResolution } from './blocking.js';
 import type { ProtocolStateSnapshot } from './persistence.js';
 import type { NotificationService } from '../notifications/service.js';
 import { transition, getValidTransitions, REQUIRED_ARTIFACTS } from './transitions.js';
-import { checkTimeout } from './blocking.js';
+import { checkTimeout, enterBlocking } from './blocking.js';
 import { saveState } from './persistence.js';
 import { getStartupState } from './checkpoint.js';
 import * as path from 'node:path';
@@ -73,6 +73,37 @@ export interface TransitionDefinition {
   readonly action: Action;
 }
 
+/**
+ * Option presented when the protocol blocks on an exceeded budget.
+ */
+export const BUDGET_APPROVAL_OPTION = 'Approve further spend';
+
+/**
+ * Spend check consulted before each transition.
+ *
+ * Implemented by the router's CostLedger.
+ */
+export interface BudgetGuard {
+  /** Returns the current spend and whether it has passed the limit. */
+  getBudgetStatus(): {
+    readonly exceeded: boolean;
+    readonly spentUsd: number;
+    readonly limitUsd: number | undefined;
+  };
+  /** Raises the limit after a human approves further spend. */
+  approveFurtherSpend(): Promise<unknown>;
+}
+
+/**
+ * Record of every snapshot a tick persists.
+ *
+ * Implemented by the state history (see `createStateHistoryRecorder`).
+ */
+export interface StateHistory {
+  /** Records a snapshot that was just saved to the state file. */
+  record(snapshot: ProtocolStateSnapshot): Promise<unknown>;
+}
+
 /**
  * Context available during tick execution.
  */
@@ -87,6 +118,10 @@ export interface TickContext {
   readonly operations: ExternalOperations;
   /** Notification service for sending protocol events. */
   readonly notificationService: NotificationService | undefined;
+  /** Budget guard; when spend passes the limit the protocol blocks for approval. */
+  readonly budget?: BudgetGuard;
+  /** State history each persisted snapshot is appended to. */
+  readonly history?: StateHistory;
 }
 
 /**
@@ -144,6 +179,10 @@ export interface OrchestratorOptions {
   readonly notificationService?: NotificationService;
   /** Maximum ticks before forced stop (safety limit). */
   readonly maxTicks?: number;
+  /** Budget guard checked before each transition. */
+  readonly budget?: BudgetGuard;
+  /** State history each persisted snapshot is appended to. */
+  readonly history?: StateHistory;
 }
 
 /**
@@ -342,6 +381,34 @@ function hasRequiredArtifacts(
   return required.every((a) => available.has(a));
 }
 
+/**
+ * Saves a snapshot and appends it to the state history.
+ *
+ * A history failure does not stop the protocol; the state file is already saved.
+ *
+ * @param context - The tick context.
+ * @param snapshot - The snapshot to persist.
+ * @param statePath - Path to persist state.
+ */
+async function persistSnapshot(
+  context: TickContext,
+  snapshot: ProtocolStateSnapshot,
+  statePath: string
+): Promise<void> {
+  await saveState(snapshot, statePath);
+
+  if (context.history !== undefined) {
+    try {
+      await context.history.record(snapshot);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn(
+        `⚠ Failed to record state history: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
 /**
  * Execute a single tick of the orchestrator.
  *
@@ -432,7 +499,7 @@ export async function executeTick(context: TickContext, statePath: string): Prom
         state: failedState,
       };
 
-      await saveState(newSnapshot, statePath);
+      await persistSnapshot(context, newSnapshot, statePath);
 
       try {
         if (notificationService !== undefined) {
@@ -456,6 +523,10 @@ export async function executeTick(context: TickContext, statePath: string): Prom
     if (context.pendingResolutions.length > 0) {
       const resolution = context.pendingResolutions[0];
       if (resolution !== undefined) {
+        if (blockedState.reason === 'budget_exceeded' && context.budget !== undefined) {
+          await context.budget.approveFurtherSpend();
+        }
+
         // Create active state with the default substate for the blocked phase
         const blockedPhase = blockedState.phase;
         const phaseState = createDefaultPhaseStateForResolution(blockedPhase);
@@ -467,7 +538,7 @@ export async function executeTick(context: TickContext, statePath: string): Prom
           blockingQueries: snapshot.blockingQueries.filter((q) => q.id !== resolution.queryId),
         };
 
-        await saveState(newSnapshot, statePath);
+        await persistSnapshot(context, newSnapshot, statePath);
 
         return {
           transitioned: true,
@@ -497,6 +568,36 @@ export async function executeTick(context: TickContext, statePath: string): Prom
     };
   }
 
+  // Block for approval once spend has passed the budget
+  if (context.budget !== undefined) {
+    const budgetStatus = context.budget.getBudgetStatus();
+    if (budgetStatus.exceeded && budgetStatus.limitUsd !== undefined) {
+      const blockResult = enterBlocking(state, {
+        reason: 'budget_exceeded',
+        phase,
+        query: `Budget exceeded: spent $${budgetStatus.spentUsd.toFixed(2)} of the $${budgetStatus.limitUsd.toFixed(2)} limit. Approve further spend?`,
+        options: [BUDGET_APPROVAL_OPTION],
+      });
+
+      if (blockResult.success) {
+        const newSnapshot: ProtocolStateSnapshot = {
+          ...snapshot,
+          state: blockResult.state,
+          blockingQueries: [...snapshot.blockingQueries, blockResult.record],
+        };
+
+        await persistSnapshot(context, newSnapshot, statePath);
+
+        return {
+          transitioned: true,
+          snapshot: newSnapshot,
+          shouldContinue: false,
+          stopReason: 'BLOCKED',
+        };
+      }
+    }
+  }
+
   const validTargets = getValidTransitions(phase);
 
   if (validTargets.length === 0) {
@@ -527,7 +628,7 @@ export async function executeTick(context: TickContext, statePath: string): Prom
           blockingQueries: snapshot.blockingQueries,
         };
 
-        await saveState(newSnapshot, statePath);
+        await persistSnapshot(context, newSnapshot, statePath);
 
         // Send phase_change notification if phase changed
         if (phase !== targetPhase) {
@@ -572,7 +673,7 @@ export async function createOrchestrator(options: OrchestratorOptions): Promise<
   addArtifact: (artifact: ArtifactType) => void;
   resolveBlocking: (response: string) => void;
 }> {
-  const { statePath, operations, notificationService, maxTicks = 1000 } = options;
+  const { statePath, operations, notificationService, budget, history, maxTicks = 1000 } = options;
 
   // Load or create initial state
   const startupResult = await getStartupState(statePath);
@@ -596,13 +697,18 @@ export async function createOrchestrator(options: OrchestratorOptions): Promise<
    * Execute a single tick.
    */
   async function tick(): Promise<TickResult> {
-    const context: TickContext = {
+    const baseContext: TickContext = {
       snapshot: currentSnapshot,
       artifacts: collectedArtifacts,
       pendingResolutions,
       operations,
       notificationService,
     };
+    const context: TickContext = {
+      ...baseContext,
+      ...(budget !== undefined ? { budget } : {}),
+      ...(history !== undefined ? { history } : {}),
+    };
 
     const result = await executeTick(context, statePath);
 
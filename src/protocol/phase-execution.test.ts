@@ -4,17 +4,40 @@
 
 import { describe, it, expect, vi } from 'vitest';
 import type { ActionResult, TickContext, ExternalOperations } from './orchestrator.js';
-import type { MassDefectPhaseContext, LatticePhaseContext } from './phase-execution.js';
-import { executeMassDefectPhase, executeLatticePhase } from './phase-execution.js';
+import type {
+  MassDefectPhaseContext,
+  LatticePhaseContext,
+  InjectionPhaseContext,
+} from './phase-execution.js';
+import {
+  executeMassDefectPhase,
+  executeLatticePhase,
+  executeInjectionPhase,
+} from './phase-execution.js';
+import { DEFAULT_CONFIG } from '../config/index.js';
+import type { RalphLoopOptions, RalphLoopResult } from '../injection/ralph-loop.js';
 import type { ModelRouter, ModelRouterResult } from '../router/types.js';
 import {
   createActiveState,
   createMassDefectAnalyzingComplexity,
   createLatticeGeneratingStructure,
+  createInjectionSelectingFunction,
 } from './types.js';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 
+const ralphLoop = vi.hoisted(() => ({
+  options: [] as RalphLoopOptions[],
+  result: undefined as RalphLoopResult | undefined,
+}));
+
+vi.mock('../injection/ralph-loop.js', () => ({
+  createRalphLoop: (options: RalphLoopOptions) => {
+    ralphLoop.options.push(options);
+    return { run: () => Promise.resolve(ralphLoop.result) };
+  },
+}));
+
 describe('Phase Execution', () => {
   describe('MassDefect Phase', () => {
     describe('Negative case: MassDefect with no catalog directory', () => {
@@ -102,6 +125,28 @@ describe('Phase Execution', () => {
                 min_test_coverage: 0.8,
               },
               catalog_path: './non-existent-catalog',
+              differential: false,
+              differential_runs: 100,
+            },
+            injection: {
+              max_concurrency: 1,
+            },
+            model_cache: {
+              enabled: false,
+              directory: '.criticality/cache/models',
+              task_types: ['structure', 'audit'],
+            },
+            cost: {
+              budget_usd: 0,
+              prices: {},
+            },
+            router: {
+              backend: 'claude-code',
+              base_url: 'https://api.anthropic.com',
+              api_key_env: 'ANTHROPIC_API_KEY',
+              fixtures: 'off',
+              fixtures_dir: 'test-fixtures/model-runs',
+              fallback_backends: [],
             },
             cli: {
               colors: true,
@@ -201,6 +246,28 @@ describe('Phase Execution', () => {
             min_test_coverage: 0.8,
           },
           catalog_path: './catalog',
+          differential: false,
+          differential_runs: 100,
+        },
+        injection: {
+          max_concurrency: 1,
+        },
+        model_cache: {
+          enabled: false,
+          directory: '.criticality/cache/models',
+          task_types: ['structure', 'audit'],
+        },
+        cost: {
+          budget_usd: 0,
+          prices: {},
+        },
+        router: {
+          backend: 'claude-code',
+          base_url: 'https://api.anthropic.com',
+          api_key_env: 'ANTHROPIC_API_KEY',
+          fixtures: 'off',
+          fixtures_dir: 'test-fixtures/model-runs',
+          fallback_backends: [],
         },
         cli: {
           colors: true,
@@ -566,4 +633,90 @@ language = "typescript"
       });
     });
   });
+
+  describe('Injection Phase', () => {
+    const createContext = (
+      archive = vi.fn().mockResolvedValue({ success: true })
+    ): TickContext => ({
+      snapshot: {
+        state: createActiveState({
+          phase: 'Injection',
+          substate: createInjectionSelectingFunction(),
+        }),
+        artifacts: [],
+        blockingQueries: [],
+      },
+      artifacts: new Set(),
+      pendingResolutions: [],
+      operations: {
+        // eslint-disable-next-line @typescript-eslint/require-await
+        executeModelCall: async () => ({ success: true }),
+        // eslint-disable-next-line @typescript-eslint/require-await
+        runCompilation: async () => ({ success: true }),
+        // eslint-disable-next-line @typescript-eslint/require-await
+        runTests: async () => ({ success: true }),
+        archivePhaseArtifacts: archive,
+        sendBlockingNotification: async () => {},
+      },
+      notificationService: undefined,
+    });
+
+    const injectionContext: InjectionPhaseContext = {
+      config: { ...DEFAULT_CONFIG, injection: { max_concurrency: 4 } },
+      projectRoot: '/tmp/injection-project',
+      router: {} as ModelRouter,
+    };
+
+    const loopResult = (overrides: Partial<RalphLoopResult> = {}): RalphLoopResult => ({
+      success: true,
+      totalFunctions: 2,
+      implementedCount: 2,
+      failedCount: 0,
+      attempts: [],
+      totalDurationMs: 10,
+      remainingTodos: [],
+      circuitTripped: false,
+      ...overrides,
+    });
+
+    it('runs the Ralph Loop with the configured max_concurrency', async () => {
+      ralphLoop.options = [];
+      ralphLoop.result = loopResult();
+      const archive = vi.fn().mockResolvedValue({ success: true });
+
+      const result = await executeInjectionPhase(createContext(archive), injectionContext);
+
+      expect(ralphLoop.options).toHaveLength(1);
+      expect(ralphLoop.options[0]).toMatchObject({
+        projectPath: '/tmp/injection-project',
+        maxConcurrency: 4,
+      });
+      expect(archive).toHaveBeenCalledWith('Injection');
+      expect(result).toEqual({ success: true, artifacts: ['implementedCode'] });
+    });
+
+    it('returns a recoverable error when functions remain unimplemented', async () => {
+      ralphLoop.result = loopResult({
+        success: false,
+        implementedCount: 1,
+        failedCount: 1,
+        remainingTodos: [
+          {
+            id: 'src/math.ts::divide',
+            name: 'divide',
+            filePath: 'src/math.ts',
+            line: 3,
+            signature: 'function divide(a: number, b: number): number',
+            hasTodoBody: true,
+          },
+        ],
+      });
+
+      const result = await executeInjectionPhase(createContext(), injectionContext);
+
+      expect(result.success).toBe(false);
+      expect(result.recoverable).toBe(true);
+      expect(result.error).toContain('divide');
+    });
+  });
 });
@@ -3,7 +3,8 @@
  *
  * Implements phase-specific execution logic for each protocol phase,
  * including Mass Defect which runs complexity reduction transformations,
- * and Lattice which generates module structure, types, and contracts.
+ * Lattice which generates module structure, types, and contracts, and
+ * Injection which implements TODO functions through the Ralph Loop.
  *
  * @packageDocumentation
  */
@@ -18,11 +19,13 @@ import {
   type MassDefectConfig,
   type MassDefectResult,
   type TransformationCatalog,
-  loadCatalog,
+  loadCatalogLayers,
+  resolveCatalogLayers,
   runMassDefect,
   formatMassDefectReport,
 } from '../mass-defect/index.js';
 import type { ModelRouter } from '../router/types.js';
+import type { WitnessDefinition } from '../adapters/typescript/witness.js';
 import { getPhase } from './types.js';
 import { parseSpec } from '../spec/parser.js';
 import type { Spec } from '../spec/types.js';
@@ -32,15 +35,28 @@ import { generateTypeDefinitions } from '../lattice/type-generator.js';
 import type { TypeGeneratorOptions } from '../lattice/type-generator.js';
 import { generateFunctionSignatures } from '../lattice/function-generator.js';
 import type { FunctionGeneratorOptions } from '../lattice/function-generator.js';
-import { generateWitnessIntegration } from '../lattice/witness-generator.js';
+import {
+  generateWitnessIntegration,
+  specWitnessToDefinition,
+} from '../lattice/witness-generator.js';
 import type { WitnessGeneratorOptions } from '../lattice/witness-generator.js';
 import { attachContracts } from '../lattice/contract-attacher.js';
 import type { ContractAttachmentOptions } from '../lattice/contract-attacher.js';
 import { CompilationVerifier } from '../lattice/compilation-verifier.js';
 import type { CompilationVerifierOptions } from '../lattice/compilation-verifier.js';
+import { createRalphLoop } from '../injection/ralph-loop.js';
+import { formatStructuralDefectReport } from '../injection/circuit-breaker.js';
+import {
+  clearIncrementalPlan,
+  extractFunctionBodies,
+  loadIncrementalPlan,
+  restoreFunctionBodies,
+  saveSpecBaseline,
+} from './incremental.js';
 
 const logger = new Logger({ component: 'MassDefectPhase', debugMode: false });
 const latticeLogger = new Logger({ component: 'LatticePhase', debugMode: false });
+const injectionLogger = new Logger({ component: 'InjectionPhase', debugMode: false });
 
 /**
  * Context for MassDefect phase execution.
@@ -60,7 +76,8 @@ export interface MassDefectPhaseContext {
  *
  * @remarks
  * The MassDefect phase:
- * - Loads the transformation catalog from the configured path
+ * - Loads the transformation catalog, layering the configured project catalog
+ *   over the org-wide and built-in catalogs
  * - Analyzes all source files for complexity issues
  * - Runs the Mass Defect iteration loop to apply transformations
  * - Generates a report of all transformations applied
@@ -121,7 +138,11 @@ export async function executeMassDefectPhase(
 
     let catalog: TransformationCatalog;
     try {
-      catalog = await loadCatalog(catalogPath);
+      const orgCatalogPath =
+        massDefectConfig.org_catalog_path !== undefined
+          ? path.resolve(projectRoot, massDefectConfig.org_catalog_path)
+          : undefined;
+      catalog = await loadCatalogLayers(resolveCatalogLayers(catalogPath, orgCatalogPath));
     } catch (error) {
       logger.error('catalog_load_failed', {
         error: error instanceof Error ? error.message : String(error),
@@ -191,12 +212,15 @@ export async function executeMassDefectPhase(
       maxFunctionLength: massDefectConfig.targets.max_function_length_lines,
       maxNestingDepth: massDefectConfig.targets.max_nesting_depth,
       minTestCoverage: massDefectConfig.targets.min_test_coverage,
+      differential: massDefectConfig.differential,
     });
 
+    const witnesses = massDefectConfig.differential ? await loadSpecWitnesses(projectRoot) : [];
+
     const result: MassDefectResult = await runMassDefect(
       sourceFiles,
       catalog,
-      convertConfig(massDefectConfig),
+      { ...convertConfig(massDefectConfig, witnesses), projectRoot },
       router
     );
 
@@ -218,6 +242,7 @@ export async function executeMassDefectPhase(
           beforeMetrics: attempt.beforeMetrics,
           afterMetrics: attempt.afterMetrics,
           error: attempt.error,
+          counterexample: attempt.counterexample,
         });
       }
     }
@@ -265,25 +290,56 @@ export async function executeMassDefectPhase(
 
 /**
  * Converts MassDefectConfig from config types to mass-defect types.
+ *
+ * @param config - Mass Defect configuration.
+ * @param witnesses - Witnesses whose arbitraries drive differential verification.
  */
-function convertConfig(config: {
-  readonly targets: {
-    readonly max_cyclomatic_complexity: number;
-    readonly max_function_length_lines: number;
-    readonly max_nesting_depth: number;
-    readonly min_test_coverage: number;
-  };
-  readonly catalog_path: string;
-}): MassDefectConfig {
+function convertConfig(
+  config: {
+    readonly targets: {
+      readonly max_cyclomatic_complexity: number;
+      readonly max_function_length_lines: number;
+      readonly max_nesting_depth: number;
+      readonly min_test_coverage: number;
+    };
+    readonly catalog_path: string;
+    readonly differential: boolean;
+    readonly differential_runs: number;
+  },
+  witnesses: WitnessDefinition[] = []
+): MassDefectConfig {
   return {
     maxCyclomaticComplexity: config.targets.max_cyclomatic_complexity,
     maxFunctionLength: config.targets.max_function_length_lines,
     maxNestingDepth: config.targets.max_nesting_depth,
     minTestCoverage: config.targets.min_test_coverage,
     catalogPath: config.catalog_path,
+    ...(config.differential
+      ? { differential: { numRuns: config.differential_runs, witnesses } }
+      : {}),
   };
 }
 
+/**
+ * Loads the witness definitions from spec.toml in the project root.
+ *
+ * A missing or unparseable spec yields no witnesses: differential
+ * verification then skips parameters of witness types.
+ */
+async function loadSpecWitnesses(projectRoot: string): Promise<WitnessDefinition[]> {
+  const specPath = path.join(projectRoot, 'spec.toml');
+  try {
+    const spec = parseSpec(await fs.readFile(specPath, 'utf-8'));
+    return Object.values(spec.witnesses ?? {}).map(specWitnessToDefinition);
+  } catch (error) {
+    logger.warn('spec_witnesses_unavailable', {
+      specPath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
 /**
  * Finds all TypeScript source files in a directory.
  *
@@ -346,11 +402,13 @@ export interface LatticePhaseContext {
  * - Parses spec.toml from the project root
  * - Generates module structure with domain boundaries
  * - Generates type definitions from data models
- * - Generates function signatures from interfaces
+ * - Generates function signatures from interfaces, restoring implementations
+ *   preserved by a pending incremental plan
  * - Generates witness integration code
  * - Attaches contracts to functions
  * - Verifies compilation and repairs if needed
- * - On success: archives artifacts and returns success
+ * - On success: records spec.toml as the incremental baseline, archives
+ *   artifacts and returns success
  * - On failure: returns error with recoverable flag
  */
 export async function executeLatticePhase(
@@ -472,8 +530,26 @@ export async function executeLatticePhase(
       const functionResult = generateFunctionSignatures(spec, functionOptions);
 
       const functionsOutputPath = path.join(projectRoot, 'src', 'generated', 'functions.ts');
+      let functionsCode = functionResult.code;
+
+      // After a spec change, keep implementations the change did not touch
+      const incrementalPlan = await loadIncrementalPlan(projectRoot);
+      if (incrementalPlan !== undefined) {
+        const existingCode = await fs.readFile(functionsOutputPath, 'utf-8').catch(() => '');
+        const merged = restoreFunctionBodies(
+          functionsCode,
+          extractFunctionBodies(existingCode),
+          new Set(incrementalPlan.preservedFunctions.map((f) => f.name))
+        );
+        functionsCode = merged.code;
+        latticeLogger.info('lattice_bodies_preserved', {
+          preserved: merged.restored.length,
+          invalidated: incrementalPlan.invalidatedFunctions.length,
+        });
+      }
+
       await fs.mkdir(path.dirname(functionsOutputPath), { recursive: true });
-      await fs.writeFile(functionsOutputPath, functionResult.code, 'utf-8');
+      await fs.writeFile(functionsOutputPath, functionsCode, 'utf-8');
 
       if (functionResult.warnings.length > 0) {
         latticeLogger.warn('function_generation_warnings', {
@@ -601,6 +677,9 @@ export async function executeLatticePhase(
       astPassed: verifyResult.astInspection?.passed ?? true,
     });
 
+    await saveSpecBaseline(projectRoot, specContent);
+    await clearIncrementalPlan(projectRoot);
+
     await context.operations.archivePhaseArtifacts('Lattice');
 
     return {
@@ -628,3 +707,95 @@ export async function executeLatticePhase(
     };
   }
 }
+
+/**
+ * Context for Injection phase execution.
+ */
+export interface InjectionPhaseContext {
+  readonly config: Config;
+  readonly projectRoot: string;
+  readonly router: ModelRouter;
+}
+
+/**
+ * Executes the Injection phase.
+ *
+ * @param context - The tick context containing phase and artifacts.
+ * @param injectionContext - Injection-specific context.
+ * @returns Promise resolving to action result.
+ *
+ * @remarks
+ * The Injection phase:
+ * - Runs the Ralph Loop over the project's TODO functions, implementing up to
+ *   `injection.max_concurrency` functions in parallel
+ * - On success: archives artifacts and produces 'implementedCode' for the
+ *   Mesoscopic transition
+ * - When the circuit breaker trips: produces 'structuralDefectReport' so the
+ *   protocol can return to Lattice
+ * - When functions remain unimplemented: returns a recoverable error
+ */
+export async function executeInjectionPhase(
+  context: TickContext,
+  injectionContext: InjectionPhaseContext
+): Promise<ActionResult> {
+  const { snapshot } = context;
+  const { config, projectRoot, router } = injectionContext;
+
+  injectionLogger.info('injection_started', {
+    phase: getPhase(snapshot.state),
+    projectRoot,
+    maxConcurrency: config.injection.max_concurrency,
+  });
+
+  try {
+    const loop = createRalphLoop({
+      projectPath: projectRoot,
+      modelRouter: router,
+      maxConcurrency: config.injection.max_concurrency,
+      logger: (message) => {
+        injectionLogger.debug('ralph_loop', { message });
+      },
+    });
+    const result = await loop.run();
+
+    injectionLogger.info('injection_completed', {
+      totalFunctions: result.totalFunctions,
+      implementedCount: result.implementedCount,
+      failedCount: result.failedCount,
+      circuitTripped: result.circuitTripped,
+    });
+
+    if (result.structuralDefectReport !== undefined) {
+      return {
+        success: false,
+        artifacts: ['structuralDefectReport'],
+        error: formatStructuralDefectReport(result.structuralDefectReport),
+        recoverable: true,
+      };
+    }
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: `Injection left ${String(result.remainingTodos.length)} function(s) unimplemented: ${result.remainingTodos.map((fn) => fn.name).join(', ')}`,
+        recoverable: true,
+      };
+    }
+
+    await context.operations.archivePhaseArtifacts('Injection');
+
+    return {
+      success: true,
+      artifacts: ['implementedCode'],
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    injectionLogger.error('injection_failed', { error: message });
+
+    return {
+      success: false,
+      error: `Injection phase failed: ${message}`,
+      recoverable: true,
+    };
+  }
+}
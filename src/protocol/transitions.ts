@@ -36,7 +36,7 @@ import * as path from 'node:path';
  * @param phase - The target protocol phase.
  * @returns A PhaseState with the default substate for that phase.
  */
-function createDefaultPhaseState(phase: ProtocolPhase): PhaseState {
+export function createDefaultPhaseState(phase: ProtocolPhase): PhaseState {
   switch (phase) {
     case 'Ignition':
       return {
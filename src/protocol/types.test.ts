@@ -507,6 +507,7 @@ describe('Protocol State Types', () => {
         'circuit_breaker',
         'security_review',
         'user_requested',
+        'budget_exceeded',
       ];
 
       for (const reason of reasons) {
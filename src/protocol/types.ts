@@ -53,7 +53,8 @@ export type BlockReason =
   | 'unresolved_contradiction'
   | 'circuit_breaker'
   | 'security_review'
-  | 'user_requested';
+  | 'user_requested'
+  | 'budget_exceeded';
 
 /**
  * ArtifactType - types of artifacts produced during protocol execution.
@@ -808,6 +809,7 @@ const BLOCK_REASON_LABELS: Readonly<Record<BlockReason, string>> = {
   circuit_breaker: 'Circuit Breaker',
   security_review: 'Security Review',
   user_requested: 'User Requested',
+  budget_exceeded: 'Budget Exceeded',
 };
 
 /**
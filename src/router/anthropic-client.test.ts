@@ -0,0 +1,480 @@
+/**
+ * Tests for AnthropicClient against a local Messages API stand-in.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  createServer,
+  type IncomingHttpHeaders,
+  type ServerResponse,
+  type Server,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { DEFAULT_CONFIG } from '../config/defaults.js';
+import {
+  AnthropicApiKeyMissingError,
+  AnthropicClient,
+  createAnthropicClient,
+} from './anthropic-client.js';
+import type { ModelRouterResult, StreamChunk } from './types.js';
+
+/**
+ * A request received by the Messages API stand-in.
+ */
+interface RecordedRequest {
+  readonly url: string;
+  readonly headers: IncomingHttpHeaders;
+  readonly body: Record<string, unknown>;
+}
+
+/**
+ * Local HTTP stand-in for the Messages API. Each test sets `respond` to
+ * answer the next requests.
+ */
+interface MessagesStandIn {
+  readonly baseUrl: string;
+  readonly requests: RecordedRequest[];
+  respond: (res: ServerResponse, body: Record<string, unknown>) => void;
+  /** Resolves once a response has been closed by the client. */
+  closed: Promise<void>;
+  close(): Promise<void>;
+}
+
+async function startMessagesStandIn(): Promise<MessagesStandIn> {
+  const requests: RecordedRequest[] = [];
+  let markClosed = (): void => undefined;
+  const standIn: Pick<MessagesStandIn, 'respond' | 'closed'> = {
+    respond: (res) => {
+      res.statusCode = 500;
+      res.end();
+    },
+    closed: new Promise<void>((resolve) => {
+      markClosed = resolve;
+    }),
+  };
+
+  const server: Server = createServer((req, res) => {
+    let data = '';
+    req.on('data', (chunk: Buffer) => {
+      data += chunk.toString('utf-8');
+    });
+    req.on('end', () => {
+      const body = JSON.parse(data) as Record<string, unknown>;
+      requests.push({ url: req.url ?? '', headers: req.headers, body });
+      res.on('close', () => {
+        markClosed();
+      });
+      standIn.respond(res, body);
+    });
+  });
+
+  await new Promise<void>((resolve) => {
+    server.listen(0, '127.0.0.1', resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return Object.assign(standIn, {
+    baseUrl: `http://127.0.0.1:${String(port)}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => {
+          resolve();
+        });
+      }),
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+function sseEvent(type: string, data: Record<string, unknown>): string {
+  return `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+}
+
+const MESSAGE_START = sseEvent('message_start', {
+  message: {
+    model: 'claude-opus-4-5-20251101',
+    usage: { input_tokens: 12, cache_read_input_tokens: 3, output_tokens: 1 },
+  },
+});
+
+const HELLO_DELTA = sseEvent('content_block_delta', {
+  index: 0,
+  delta: { type: 'text_delta', text: 'Hello' },
+});
+
+const STREAM_EVENTS = [
+  MESSAGE_START,
+  sseEvent('content_block_start', { index: 0, content_block: { type: 'text', text: '' } }),
+  ': keep-alive comment\n\n',
+  sseEvent('ping', {}),
+  HELLO_DELTA,
+  sseEvent('content_block_delta', { index: 0, delta: { type: 'text_delta', text: ', world' } }),
+  sseEvent('content_block_stop', { index: 0 }),
+  sseEvent('message_delta', { delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 7 } }),
+  sseEvent('message_stop', {}),
+];
+
+async function collect(
+  stream: AsyncGenerator<StreamChunk, ModelRouterResult>
+): Promise<{ chunks: StreamChunk[]; result: ModelRouterResult }> {
+  const chunks: StreamChunk[] = [];
+  for (;;) {
+    const next = await stream.next();
+    if (next.done === true) {
+      return { chunks, result: next.value };
+    }
+    chunks.push(next.value);
+  }
+}
+
+describe('AnthropicClient', () => {
+  let standIn: MessagesStandIn;
+  let client: AnthropicClient;
+
+  beforeEach(async () => {
+    standIn = await startMessagesStandIn();
+    client = new AnthropicClient({
+      config: DEFAULT_CONFIG,
+      apiKey: 'sk-test',
+      baseUrl: `${standIn.baseUrl}/`,
+      timeoutMs: 5000,
+    });
+  });
+
+  afterEach(async () => {
+    await standIn.close();
+  });
+
+  describe('complete', () => {
+    it('should post a Messages API request and parse the response', async () => {
+      standIn.respond = (res) => {
+        sendJson(res, 200, {
+          model: 'claude-opus-4-5-20251101',
+          content: [
+            { type: 'thinking', thinking: '...' },
+            { type: 'text', text: 'four' },
+          ],
+          usage: { input_tokens: 10, cache_creation_input_tokens: 5, output_tokens: 2 },
+        });
+      };
+
+      const result = await client.complete({
+        modelAlias: 'architect',
+        prompt: 'What is 2+2?',
+        requestId: 'req-1',
+        parameters: {
+          maxTokens: 100,
+          temperature: 0.2,
+          systemPrompt: 'Be terse.',
+          stopSequences: ['\n'],
+        },
+      });
+
+      expect(result).toEqual({
+        success: true,
+        response: {
+          content: 'four',
+          usage: { promptTokens: 15, completionTokens: 2, totalTokens: 17 },
+          metadata: {
+            modelId: 'claude-opus-4-5-20251101',
+            provider: 'anthropic',
+            latencyMs: expect.any(Number) as number,
+          },
+          requestId: 'req-1',
+        },
+      });
+      const [request] = standIn.requests;
+      expect(request?.url).toBe('/v1/messages');
+      expect(request?.headers['x-api-key']).toBe('sk-test');
+      expect(request?.headers['anthropic-version']).toBe('2023-06-01');
+      expect(request?.body).toEqual({
+        model: 'claude-opus-4-5',
+        max_tokens: 100,
+        messages: [{ role: 'user', content: 'What is 2+2?' }],
+        system: 'Be terse.',
+        temperature: 0.2,
+        stop_sequences: ['\n'],
+      });
+    });
+
+    it('should send unmapped model names unchanged', async () => {
+      standIn.respond = (res) => {
+        sendJson(res, 200, { content: [{ type: 'text', text: 'ok' }], usage: {} });
+      };
+
+      const result = await client.prompt('worker', 'hi');
+
+      expect(standIn.requests[0]?.body).toMatchObject({ model: 'minimax-m2', max_tokens: 8192 });
+      expect(result.success && result.response.metadata.modelId).toBe('minimax-m2');
+    });
+  });
+
+  describe('errors', () => {
+    it('should map 429 to a RateLimitError with retry-after', async () => {
+      standIn.respond = (res) => {
+        res.setHeader('retry-after', '7');
+        sendJson(res, 429, {
+          type: 'error',
+          error: { type: 'rate_limit_error', message: 'Slow down' },
+        });
+      };
+
+      const result = await client.prompt('architect', 'hi');
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.error).toMatchObject({
+        kind: 'RateLimitError',
+        message: 'Messages API returned 429: Slow down',
+        retryable: true,
+        retryAfterMs: 7000,
+      });
+    });
+
+    it('should map 401 to an AuthenticationError', async () => {
+      standIn.respond = (res) => {
+        sendJson(res, 401, {
+          type: 'error',
+          error: { type: 'authentication_error', message: 'invalid x-api-key' },
+        });
+      };
+
+      const result = await client.prompt('architect', 'hi');
+
+      expect(!result.success && result.error).toMatchObject({
+        kind: 'AuthenticationError',
+        provider: 'anthropic',
+        retryable: false,
+      });
+    });
+
+    it('should map 400 to a ValidationError', async () => {
+      standIn.respond = (res) => {
+        sendJson(res, 400, {
+          type: 'error',
+          error: { type: 'invalid_request_error', message: 'max_tokens: too large' },
+        });
+      };
+
+      const result = await client.prompt('architect', 'hi');
+
+      expect(!result.success && result.error).toMatchObject({
+        kind: 'ValidationError',
+        message: 'Messages API returned 400: max_tokens: too large',
+      });
+    });
+
+    it('should map 529 to a retryable ModelError carrying the error type', async () => {
+      standIn.respond = (res) => {
+        sendJson(res, 529, {
+          type: 'error',
+          error: { type: 'overloaded_error', message: 'Overloaded' },
+        });
+      };
+
+      const result = await client.prompt('architect', 'hi');
+
+      expect(!result.success && result.error).toMatchObject({
+        kind: 'ModelError',
+        retryable: true,
+        errorCode: 'overloaded_error',
+        modelId: 'claude-opus-4-5',
+      });
+    });
+
+    it('should map non-JSON 404s to a non-retryable ModelError', async () => {
+      standIn.respond = (res) => {
+        res.statusCode = 404;
+        res.end('not found');
+      };
+
+      const result = await client.prompt('architect', 'hi');
+
+      expect(!result.success && result.error).toMatchObject({
+        kind: 'ModelError',
+        retryable: false,
+        errorCode: 'HTTP_404',
+      });
+    });
+
+    it('should map unreachable endpoints to a NetworkError', async () => {
+      const offline = new AnthropicClient({
+        config: DEFAULT_CONFIG,
+        apiKey: 'sk-test',
+        baseUrl: 'http://127.0.0.1:1',
+      });
+
+      const result = await offline.prompt('architect', 'hi');
+
+      expect(!result.success && result.error).toMatchObject({
+        kind: 'NetworkError',
+        endpoint: 'http://127.0.0.1:1/v1/messages',
+      });
+    });
+
+    it('should map an exceeded timeout to a TimeoutError', async () => {
+      standIn.respond = () => {
+        // Never answer
+      };
+
+      const result = await client.prompt('architect', 'hi', 50);
+
+      expect(!result.success && result.error).toMatchObject({
+        kind: 'TimeoutError',
+        timeoutMs: 50,
+      });
+    });
+  });
+
+  describe('stream', () => {
+    it('should yield text deltas from server-sent events', async () => {
+      standIn.respond = (res) => {
+        res.setHeader('Content-Type', 'text/event-stream');
+        // Split mid-event to exercise buffering across chunks
+        const payload = STREAM_EVENTS.join('');
+        res.write(payload.slice(0, 200));
+        res.end(payload.slice(200));
+      };
+
+      const { chunks, result } = await collect(
+        client.stream({ modelAlias: 'architect', prompt: 'Say hello', requestId: 'req-2' })
+      );
+
+      expect(standIn.requests[0]?.body).toMatchObject({ stream: true });
+      expect(chunks).toEqual([
+        { content: 'Hello', done: false },
+        { content: ', world', done: false },
+        {
+          content: '',
+          done: true,
+          usage: { promptTokens: 15, completionTokens: 7, totalTokens: 22 },
+        },
+      ]);
+      expect(result).toMatchObject({
+        success: true,
+        response: {
+          content: 'Hello, world',
+          metadata: { modelId: 'claude-opus-4-5-20251101', provider: 'anthropic' },
+          requestId: 'req-2',
+        },
+      });
+    });
+
+    it('should fail on error events mid-stream', async () => {
+      standIn.respond = (res) => {
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.end(
+          MESSAGE_START +
+            HELLO_DELTA +
+            sseEvent('error', { error: { type: 'overloaded_error', message: 'Overloaded' } })
+        );
+      };
+
+      const { chunks, result } = await collect(
+        client.stream({ modelAlias: 'architect', prompt: 'hi' })
+      );
+
+      expect(chunks.map((c) => c.content)).toEqual(['Hello', '']);
+      expect(!result.success && result.error).toMatchObject({
+        kind: 'ModelError',
+        retryable: true,
+        errorCode: 'overloaded_error',
+      });
+    });
+
+    it('should return HTTP errors without yielding', async () => {
+      standIn.respond = (res) => {
+        sendJson(res, 401, { type: 'error', error: { type: 'authentication_error' } });
+      };
+
+      const { chunks, result } = await collect(
+        client.stream({ modelAlias: 'architect', prompt: 'hi' })
+      );
+
+      expect(chunks).toEqual([]);
+      expect(!result.success && result.error.kind).toBe('AuthenticationError');
+    });
+
+    it('should cancel the request when the signal aborts', async () => {
+      standIn.respond = (res) => {
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.write(MESSAGE_START + HELLO_DELTA);
+        // Keep the stream open until the client goes away
+      };
+      const controller = new AbortController();
+      const stream = client.stream({
+        modelAlias: 'architect',
+        prompt: 'hi',
+        signal: controller.signal,
+      });
+
+      expect((await stream.next()).value).toEqual({ content: 'Hello', done: false });
+      controller.abort();
+      const { result } = await collect(stream);
+
+      expect(!result.success && result.error).toMatchObject({
+        kind: 'ModelError',
+        errorCode: 'ABORTED',
+        retryable: false,
+      });
+      await standIn.closed;
+    });
+
+    it('should close the connection when the consumer stops early', async () => {
+      standIn.respond = (res) => {
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.write(MESSAGE_START + HELLO_DELTA);
+      };
+
+      for await (const chunk of client.stream({ modelAlias: 'architect', prompt: 'hi' })) {
+        expect(chunk.content).toBe('Hello');
+        break;
+      }
+
+      await standIn.closed;
+    });
+  });
+
+  it('should abort before sending when the signal is already aborted', async () => {
+    const result = await client.complete({
+      modelAlias: 'architect',
+      prompt: 'hi',
+      signal: AbortSignal.abort(),
+    });
+
+    expect(!result.success && result.error).toMatchObject({
+      kind: 'ModelError',
+      errorCode: 'ABORTED',
+    });
+    expect(standIn.requests).toEqual([]);
+  });
+});
+
+describe('createAnthropicClient', () => {
+  it('should read the API key from the configured environment variable', () => {
+    const client = createAnthropicClient({
+      config: DEFAULT_CONFIG,
+      apiKeyEnv: 'CRIT_TEST_KEY',
+      env: { CRIT_TEST_KEY: 'sk-env' },
+    });
+
+    expect(client).toBeInstanceOf(AnthropicClient);
+  });
+
+  it('should throw AnthropicApiKeyMissingError without a key', () => {
+    expect(() => createAnthropicClient({ config: DEFAULT_CONFIG, env: {} })).toThrow(
+      AnthropicApiKeyMissingError
+    );
+    try {
+      createAnthropicClient({ config: DEFAULT_CONFIG, env: { ANTHROPIC_API_KEY: ' ' } });
+    } catch (error) {
+      expect((error as AnthropicApiKeyMissingError).code).toBe('ANTHROPIC_API_KEY_MISSING');
+      expect((error as Error).message).toContain('ANTHROPIC_API_KEY');
+    }
+  });
+});
@@ -0,0 +1,537 @@
+/**
+ * Anthropic Messages API client for the Criticality Protocol.
+ *
+ * Implements the ModelRouter interface by calling the Messages API over
+ * HTTP, so no CLI has to be installed. Streams responses as server-sent
+ * events, cancels in-flight requests through AbortSignal, and maps HTTP
+ * errors onto the router's error kinds.
+ *
+ * @packageDocumentation
+ */
+
+import { TypedMap } from '../utils/typed-map.js';
+import type { Config } from '../config/types.js';
+import type {
+  ModelAlias,
+  ModelRouter,
+  ModelRouterError,
+  ModelRouterRequest,
+  ModelRouterResult,
+  ModelRouterResponse,
+  ModelUsage,
+  StreamChunk,
+} from './types.js';
+import {
+  createAuthenticationError,
+  createModelError,
+  createRateLimitError,
+  createValidationError,
+  createSuccessResult,
+  createFailureResult,
+} from './types.js';
+import {
+  createFetchError,
+  createHttpStatusError,
+  parseRetryAfter,
+  parseServerSentEvents,
+} from './http.js';
+
+/**
+ * Options for creating an AnthropicClient.
+ */
+export interface AnthropicClientOptions {
+  /** Configuration for model aliases. */
+  config: Config;
+  /** API key sent in the x-api-key header. */
+  apiKey: string;
+  /** Base URL of the API (default: 'https://api.anthropic.com'). */
+  baseUrl?: string;
+  /** Value of the anthropic-version header (default: '2023-06-01'). */
+  apiVersion?: string;
+  /** max_tokens for requests that do not set maxTokens (default: 8192). */
+  defaultMaxTokens?: number;
+  /** Timeout in milliseconds for requests (default: 300000 = 5 minutes). */
+  timeoutMs?: number;
+}
+
+/**
+ * Options for creating an AnthropicClient from the environment.
+ */
+export interface CreateAnthropicClientOptions extends Omit<AnthropicClientOptions, 'apiKey'> {
+  /** API key; read from `apiKeyEnv` when omitted. */
+  apiKey?: string;
+  /** Environment variable holding the API key (default: 'ANTHROPIC_API_KEY'). */
+  apiKeyEnv?: string;
+  /** Environment to read the key from (default: process.env). */
+  env?: Readonly<Record<string, string | undefined>>;
+}
+
+/**
+ * Token usage as reported by the Messages API.
+ */
+interface MessagesUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+}
+
+/**
+ * A Messages API response body (or the `message` of a message_start event).
+ */
+interface MessagesResponse {
+  model?: string;
+  content?: { type: string; text?: string }[];
+  usage?: MessagesUsage;
+}
+
+/**
+ * The `error` member of an error body or error event.
+ */
+interface MessagesErrorDetail {
+  type?: string;
+  message?: string;
+}
+
+/**
+ * A streamed Messages API event.
+ */
+interface MessagesStreamEvent {
+  type?: string;
+  message?: MessagesResponse;
+  delta?: { type?: string; text?: string };
+  usage?: MessagesUsage;
+  error?: MessagesErrorDetail;
+}
+
+/**
+ * Error thrown when no API key is available for the Messages API.
+ */
+export class AnthropicApiKeyMissingError extends Error {
+  readonly code = 'ANTHROPIC_API_KEY_MISSING';
+
+  constructor(envVar: string) {
+    super(`No Anthropic API key found. Set the ${envVar} environment variable.`);
+    this.name = 'AnthropicApiKeyMissingError';
+  }
+}
+
+const MODEL_ALIAS_MAP = TypedMap.fromObject({
+  architect: 'architect_model',
+  auditor: 'auditor_model',
+  structurer: 'structurer_model',
+  worker: 'worker_model',
+  fallback: 'fallback_model',
+});
+
+/**
+ * Messages API model IDs for the configuration's model names.
+ * Names not listed are sent unchanged.
+ */
+const API_MODEL_IDS: ReadonlyMap<string, string> = new Map([
+  ['claude-opus-4.5', 'claude-opus-4-5'],
+  ['claude-sonnet-4.5', 'claude-sonnet-4-5'],
+  ['claude-sonnet-4', 'claude-sonnet-4-0'],
+  ['claude-3-opus', 'claude-3-opus-latest'],
+  ['claude-3-sonnet', 'claude-3-sonnet-20240229'],
+  ['claude-3-haiku', 'claude-3-haiku-20240307'],
+  ['claude-3.5-sonnet', 'claude-3-5-sonnet-latest'],
+  ['claude-3.5-haiku', 'claude-3-5-haiku-latest'],
+]);
+
+/**
+ * Resolves a model alias to the Messages API model ID.
+ *
+ * @param alias - The model alias to resolve.
+ * @param config - Configuration containing model assignments.
+ * @returns The model ID to send.
+ */
+function resolveModelAlias(alias: ModelAlias, config: Config): string {
+  const configKey = MODEL_ALIAS_MAP.get(alias) ?? 'architect_model';
+  const model = config.models[configKey as keyof Config['models']];
+  return API_MODEL_IDS.get(model) ?? model;
+}
+
+/**
+ * Converts Messages API usage to router usage. Cached prompt tokens count
+ * as prompt tokens.
+ *
+ * @param usage - Usage from the API.
+ * @returns Router usage.
+ */
+function toModelUsage(usage: MessagesUsage): ModelUsage {
+  const promptTokens =
+    (usage.input_tokens ?? 0) +
+    (usage.cache_read_input_tokens ?? 0) +
+    (usage.cache_creation_input_tokens ?? 0);
+  const completionTokens = usage.output_tokens ?? 0;
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+/**
+ * Anthropic Messages API client implementing the ModelRouter interface.
+ *
+ * @example
+ * ```typescript
+ * const client = new AnthropicClient({ config, apiKey: process.env.ANTHROPIC_API_KEY ?? '' });
+ * const controller = new AbortController();
+ * for await (const chunk of client.stream({
+ *   modelAlias: 'worker',
+ *   prompt: 'What is 2+2?',
+ *   signal: controller.signal,
+ * })) {
+ *   process.stdout.write(chunk.content);
+ * }
+ * ```
+ */
+export class AnthropicClient implements ModelRouter {
+  private readonly config: Config;
+  private readonly apiKey: string;
+  private readonly endpoint: string;
+  private readonly apiVersion: string;
+  private readonly defaultMaxTokens: number;
+  private readonly timeoutMs: number;
+
+  /**
+   * Creates a new AnthropicClient.
+   *
+   * @param options - Client configuration options.
+   */
+  constructor(options: AnthropicClientOptions) {
+    this.config = options.config;
+    this.apiKey = options.apiKey;
+    const baseUrl = (options.baseUrl ?? 'https://api.anthropic.com').replace(/\/+$/, '');
+    this.endpoint = `${baseUrl}/v1/messages`;
+    this.apiVersion = options.apiVersion ?? '2023-06-01';
+    this.defaultMaxTokens = options.defaultMaxTokens ?? 8192;
+    this.timeoutMs = options.timeoutMs ?? 300000; // 5 minutes
+  }
+
+  /**
+   * Builds the Messages API request body.
+   *
+   * @param request - The model router request.
+   * @param stream - Whether to request a server-sent event stream.
+   * @returns The JSON body.
+   */
+  private buildBody(request: ModelRouterRequest, stream: boolean): Record<string, unknown> {
+    const params = request.parameters;
+    const body: Record<string, unknown> = {
+      model: resolveModelAlias(request.modelAlias, this.config),
+      max_tokens: params?.maxTokens ?? this.defaultMaxTokens,
+      messages: [{ role: 'user', content: request.prompt }],
+    };
+
+    if (params?.systemPrompt !== undefined && params.systemPrompt !== '') {
+      body.system = params.systemPrompt;
+    }
+    if (params?.temperature !== undefined) {
+      body.temperature = params.temperature;
+    }
+    if (params?.topP !== undefined) {
+      body.top_p = params.topP;
+    }
+    if (params?.stopSequences !== undefined && params.stopSequences.length > 0) {
+      body.stop_sequences = params.stopSequences;
+    }
+    if (stream) {
+      body.stream = true;
+    }
+
+    return body;
+  }
+
+  /**
+   * Sends a request and returns the response once its headers arrive.
+   *
+   * @param request - The model router request.
+   * @param stream - Whether to request a server-sent event stream.
+   * @param timeoutMs - Timeout for the whole exchange, including the body.
+   * @param signal - Additional signal that aborts the request.
+   * @returns The successful response, or the mapped error.
+   */
+  private async send(
+    request: ModelRouterRequest,
+    stream: boolean,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<{ response: Response } | { error: ModelRouterError }> {
+    const signals = [AbortSignal.timeout(timeoutMs)];
+    if (request.signal !== undefined) {
+      signals.push(request.signal);
+    }
+    if (signal !== undefined) {
+      signals.push(signal);
+    }
+
+    try {
+      const response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': this.apiVersion,
+        },
+        body: JSON.stringify(this.buildBody(request, stream)),
+        signal: AbortSignal.any(signals),
+      });
+
+      if (!response.ok) {
+        return { error: await this.toHttpError(response, request) };
+      }
+      return { response };
+    } catch (error) {
+      return { error: createFetchError(error, request, this.endpoint, timeoutMs) };
+    }
+  }
+
+  /**
+   * Maps a non-2xx response onto a router error.
+   *
+   * @param response - The failed response.
+   * @param request - The original request (for error context).
+   * @returns The router error.
+   */
+  private async toHttpError(
+    response: Response,
+    request: ModelRouterRequest
+  ): Promise<ModelRouterError> {
+    let detail: MessagesErrorDetail = {};
+    try {
+      const body = (await response.json()) as { error?: MessagesErrorDetail };
+      detail = body.error ?? {};
+    } catch {
+      // Proxies may answer with non-JSON bodies
+    }
+
+    const status = response.status;
+    const message = `Messages API returned ${String(status)}: ${detail.message ?? (response.statusText || 'no details')}`;
+    const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+    return createHttpStatusError(status, message, {
+      provider: 'anthropic',
+      request,
+      modelId: resolveModelAlias(request.modelAlias, this.config),
+      timeoutMs: this.timeoutMs,
+      ...(detail.type !== undefined ? { errorCode: detail.type } : {}),
+      ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+    });
+  }
+
+  /**
+   * Maps an error event received mid-stream onto a router error.
+   *
+   * @param detail - The event's error.
+   * @param request - The original request (for error context).
+   * @returns The router error.
+   */
+  private toStreamError(
+    detail: MessagesErrorDetail,
+    request: ModelRouterRequest
+  ): ModelRouterError {
+    const message = `Messages API stream error: ${detail.message ?? detail.type ?? 'unknown error'}`;
+    switch (detail.type) {
+      case 'rate_limit_error':
+        return createRateLimitError(message, { request });
+      case 'authentication_error':
+      case 'permission_error':
+        return createAuthenticationError(message, 'anthropic', { request });
+      case 'invalid_request_error':
+        return createValidationError(message, { request });
+      default:
+        return createModelError(
+          message,
+          detail.type === 'overloaded_error' || detail.type === 'api_error',
+          { errorCode: detail.type ?? 'stream_error', request }
+        );
+    }
+  }
+
+  /**
+   * Builds a success result, carrying the request ID if one was given.
+   */
+  private succeed(
+    request: ModelRouterRequest,
+    response: ModelRouterResponse
+  ): Extract<ModelRouterResult, { success: true }> {
+    return createSuccessResult(
+      request.requestId !== undefined ? { ...response, requestId: request.requestId } : response
+    );
+  }
+
+  /**
+   * Send a simple prompt to a model.
+   *
+   * @param modelAlias - The model alias to route to.
+   * @param prompt - The prompt text.
+   * @param timeoutMs - Optional timeout in milliseconds for this request.
+   * @returns A result containing the response or an error.
+   */
+  async prompt(
+    modelAlias: ModelAlias,
+    prompt: string,
+    timeoutMs?: number
+  ): Promise<ModelRouterResult> {
+    return this.execute({ modelAlias, prompt }, timeoutMs ?? this.timeoutMs);
+  }
+
+  /**
+   * Send a complete request with parameters.
+   *
+   * @param request - The full request with model alias, prompt, and parameters.
+   * @returns A result containing the response or an error.
+   */
+  async complete(request: ModelRouterRequest): Promise<ModelRouterResult> {
+    return this.execute(request, this.timeoutMs);
+  }
+
+  /**
+   * Sends a non-streaming request and parses the response.
+   */
+  private async execute(
+    request: ModelRouterRequest,
+    timeoutMs: number
+  ): Promise<ModelRouterResult> {
+    const startTime = Date.now();
+    const sent = await this.send(request, false, timeoutMs);
+    if ('error' in sent) {
+      return createFailureResult(sent.error);
+    }
+
+    let body: MessagesResponse;
+    try {
+      body = (await sent.response.json()) as MessagesResponse;
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        return createFailureResult(
+          createModelError('Messages API returned a malformed response', true, {
+            errorCode: 'MALFORMED_RESPONSE',
+            cause: error,
+            request,
+          })
+        );
+      }
+      return createFailureResult(createFetchError(error, request, this.endpoint, timeoutMs));
+    }
+
+    const content = (body.content ?? [])
+      .map((block) => (block.type === 'text' ? (block.text ?? '') : ''))
+      .join('');
+
+    return this.succeed(request, {
+      content,
+      usage: toModelUsage(body.usage ?? {}),
+      metadata: {
+        modelId: body.model ?? resolveModelAlias(request.modelAlias, this.config),
+        provider: 'anthropic',
+        latencyMs: Date.now() - startTime,
+      },
+    });
+  }
+
+  /**
+   * Stream a response from the model.
+   *
+   * Text deltas are yielded as they arrive. Ending iteration early, or
+   * aborting `request.signal`, cancels the underlying HTTP request.
+   *
+   * @param request - The full request with model alias, prompt, and parameters.
+   * @yields StreamChunk objects as they arrive.
+   * @returns The final ModelRouterResult when streaming completes.
+   */
+  async *stream(
+    request: ModelRouterRequest
+  ): AsyncGenerator<StreamChunk, ModelRouterResult, unknown> {
+    const startTime = Date.now();
+    // Aborted when the consumer stops iterating, releasing the connection
+    const controller = new AbortController();
+
+    try {
+      const sent = await this.send(request, true, this.timeoutMs, controller.signal);
+      if ('error' in sent) {
+        return createFailureResult(sent.error);
+      }
+      const body = sent.response.body;
+      if (body === null) {
+        return createFailureResult(
+          createModelError('Messages API returned an empty stream', true, {
+            errorCode: 'EMPTY_STREAM',
+            request,
+          })
+        );
+      }
+
+      let content = '';
+      let usage: MessagesUsage = {};
+      let modelId = resolveModelAlias(request.modelAlias, this.config);
+      let failure: ModelRouterError | undefined;
+
+      try {
+        for await (const sse of parseServerSentEvents(body)) {
+          let event: MessagesStreamEvent;
+          try {
+            event = JSON.parse(sse.data) as MessagesStreamEvent;
+          } catch {
+            // Skip non-JSON data
+            continue;
+          }
+
+          if (event.type === 'message_start') {
+            modelId = event.message?.model ?? modelId;
+            usage = { ...usage, ...event.message?.usage };
+          } else if (event.type === 'content_block_delta') {
+            const text = event.delta?.type === 'text_delta' ? (event.delta.text ?? '') : '';
+            if (text !== '') {
+              content += text;
+              yield { content: text, done: false };
+            }
+          } else if (event.type === 'message_delta') {
+            usage = { ...usage, ...event.usage };
+          } else if (event.type === 'error') {
+            failure = this.toStreamError(event.error ?? {}, request);
+            break;
+          }
+        }
+      } catch (error) {
+        failure = createFetchError(error, request, this.endpoint, this.timeoutMs);
+      }
+
+      const finalUsage = toModelUsage(usage);
+      yield { content: '', done: true, usage: finalUsage };
+
+      if (failure !== undefined) {
+        return createFailureResult(failure);
+      }
+
+      return this.succeed(request, {
+        content,
+        usage: finalUsage,
+        metadata: { modelId, provider: 'anthropic', latencyMs: Date.now() - startTime },
+      });
+    } finally {
+      controller.abort();
+    }
+  }
+}
+
+/**
+ * Creates an Anthropic client, reading the API key from the environment
+ * when it is not given.
+ *
+ * @param options - Client configuration options.
+ * @returns A configured AnthropicClient.
+ * @throws AnthropicApiKeyMissingError if no API key is available.
+ *
+ * @example
+ * ```typescript
+ * const client = createAnthropicClient({ config, baseUrl: config.router.base_url });
+ * const result = await client.prompt('architect', 'Hello!');
+ * ```
+ */
+export function createAnthropicClient(options: CreateAnthropicClientOptions): AnthropicClient {
+  const { apiKey, apiKeyEnv = 'ANTHROPIC_API_KEY', env = process.env, ...rest } = options;
+  const key = apiKey ?? env[apiKeyEnv];
+  if (key === undefined || key.trim() === '') {
+    throw new AnthropicApiKeyMissingError(apiKeyEnv);
+  }
+  return new AnthropicClient({ ...rest, apiKey: key });
+}
@@ -0,0 +1,349 @@
+/**
+ * Tests for the content-addressed model response cache.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, writeFileSync, mkdirSync, readdirSync } from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  CachingModelRouter,
+  ModelResponseCache,
+  computeCacheKey,
+  createCachingModelRouter,
+  resolveTaskType,
+} from './cache.js';
+import {
+  createModelError,
+  createSuccessResult,
+  createFailureResult,
+  type ModelRouter,
+  type ModelRouterRequest,
+  type ModelRouterResult,
+  type StreamChunk,
+} from './types.js';
+
+/**
+ * Creates a router that counts calls and answers with a numbered response.
+ */
+function createCountingRouter(): ModelRouter & { calls: number; fail: boolean } {
+  const router = {
+    calls: 0,
+    fail: false,
+    respond(request: ModelRouterRequest): ModelRouterResult {
+      router.calls++;
+      if (router.fail) {
+        return createFailureResult(createModelError('model failed', false));
+      }
+      return createSuccessResult({
+        content: `response ${String(router.calls)} for ${request.prompt}`,
+        usage: { promptTokens: 10, completionTokens: 20, totalTokens: 30 },
+        metadata: { modelId: 'test-model', provider: 'test', latencyMs: 250 },
+      });
+    },
+    prompt(modelAlias: ModelRouterRequest['modelAlias'], prompt: string) {
+      return Promise.resolve(router.respond({ modelAlias, prompt }));
+    },
+    complete(request: ModelRouterRequest) {
+      return Promise.resolve(router.respond(request));
+    },
+    async *stream(
+      request: ModelRouterRequest
+    ): AsyncGenerator<StreamChunk, ModelRouterResult, unknown> {
+      const result = router.respond(request);
+      if (result.success) {
+        yield { content: result.response.content, done: true };
+      }
+      return Promise.resolve(result);
+    },
+  };
+  return router;
+}
+
+/**
+ * Drains a stream, returning its chunks and final result.
+ */
+async function drain(
+  stream: AsyncGenerator<StreamChunk, ModelRouterResult, unknown>
+): Promise<{ chunks: StreamChunk[]; result: ModelRouterResult }> {
+  const chunks: StreamChunk[] = [];
+  let next = await stream.next();
+  while (next.done !== true) {
+    chunks.push(next.value);
+    next = await stream.next();
+  }
+  return { chunks, result: next.value };
+}
+
+describe('Model response cache', () => {
+  let tempDir: string;
+  let cacheDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), 'model-cache-test-'));
+    cacheDir = path.join(tempDir, 'cache');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('resolveTaskType', () => {
+    it('should prefer the explicit task type', () => {
+      expect(
+        resolveTaskType({ modelAlias: 'structurer', prompt: 'x', taskType: 'implement' })
+      ).toBe('implement');
+    });
+
+    it('should fall back to the alias convention', () => {
+      expect(resolveTaskType({ modelAlias: 'architect', prompt: 'x' })).toBe('synthesize');
+      expect(resolveTaskType({ modelAlias: 'auditor', prompt: 'x' })).toBe('audit');
+      expect(resolveTaskType({ modelAlias: 'structurer', prompt: 'x' })).toBe('structure');
+      expect(resolveTaskType({ modelAlias: 'worker', prompt: 'x' })).toBe('implement');
+      expect(resolveTaskType({ modelAlias: 'fallback', prompt: 'x' })).toBe('implement');
+    });
+  });
+
+  describe('computeCacheKey', () => {
+    it('should ignore request ID and task type', () => {
+      const base: ModelRouterRequest = { modelAlias: 'auditor', prompt: 'check this' };
+      expect(computeCacheKey({ ...base, requestId: 'a', taskType: 'audit' })).toBe(
+        computeCacheKey(base)
+      );
+    });
+
+    it('should treat missing and empty parameters alike', () => {
+      const base: ModelRouterRequest = { modelAlias: 'auditor', prompt: 'check this' };
+      expect(computeCacheKey({ ...base, parameters: {} })).toBe(computeCacheKey(base));
+    });
+
+    it('should differ by alias, prompt, and each parameter', () => {
+      const base: ModelRouterRequest = {
+        modelAlias: 'auditor',
+        prompt: 'check this',
+        parameters: { temperature: 0.2 },
+      };
+      const key = computeCacheKey(base);
+
+      expect(computeCacheKey({ ...base, modelAlias: 'structurer' })).not.toBe(key);
+      expect(computeCacheKey({ ...base, prompt: 'check that' })).not.toBe(key);
+      expect(computeCacheKey({ ...base, parameters: { temperature: 0.3 } })).not.toBe(key);
+      expect(
+        computeCacheKey({ ...base, parameters: { temperature: 0.2, systemPrompt: 'be strict' } })
+      ).not.toBe(key);
+      expect(
+        computeCacheKey({ ...base, parameters: { temperature: 0.2, stopSequences: ['END'] } })
+      ).not.toBe(key);
+    });
+  });
+
+  describe('CachingModelRouter', () => {
+    it('should replay structure responses flagged as cache hits', async () => {
+      const inner = createCountingRouter();
+      const router = new CachingModelRouter({
+        router: inner,
+        cache: new ModelResponseCache({ directory: cacheDir }),
+      });
+      const request: ModelRouterRequest = { modelAlias: 'structurer', prompt: 'types' };
+
+      const first = await router.complete(request);
+      const second = await router.complete({ ...request, requestId: 'req-2' });
+
+      expect(inner.calls).toBe(1);
+      expect(first.success && second.success).toBe(true);
+      if (first.success && second.success) {
+        expect(second.response.content).toBe(first.response.content);
+        expect(first.response.usage.cacheHit).toBeUndefined();
+        expect(second.response.usage).toEqual({
+          promptTokens: 10,
+          completionTokens: 20,
+          totalTokens: 30,
+          cacheHit: true,
+        });
+        expect(second.response.requestId).toBe('req-2');
+        expect(second.response.metadata.modelId).toBe('test-model');
+      }
+      expect(router.getStats()).toEqual({ hits: 1, misses: 1, bypassed: 0 });
+    });
+
+    it('should not cache implementation requests by default', async () => {
+      const inner = createCountingRouter();
+      const router = new CachingModelRouter({
+        router: inner,
+        cache: new ModelResponseCache({ directory: cacheDir }),
+      });
+      const request: ModelRouterRequest = {
+        modelAlias: 'structurer',
+        prompt: 'implement add',
+        taskType: 'implement',
+      };
+
+      await router.complete(request);
+      await router.complete(request);
+
+      expect(inner.calls).toBe(2);
+      expect(router.getStats()).toEqual({ hits: 0, misses: 0, bypassed: 2 });
+      expect(existsSync(cacheDir)).toBe(false);
+    });
+
+    it('should cache implementation requests when opted in', async () => {
+      const inner = createCountingRouter();
+      const router = new CachingModelRouter({
+        router: inner,
+        cache: new ModelResponseCache({ directory: cacheDir }),
+        cacheableTaskTypes: ['implement'],
+      });
+
+      await router.prompt('worker', 'implement add');
+      const replayed = await router.prompt('worker', 'implement add');
+
+      expect(inner.calls).toBe(1);
+      expect(replayed.success && replayed.response.usage.cacheHit).toBe(true);
+    });
+
+    it('should not store failed responses', async () => {
+      const inner = createCountingRouter();
+      const router = new CachingModelRouter({
+        router: inner,
+        cache: new ModelResponseCache({ directory: cacheDir }),
+      });
+      inner.fail = true;
+
+      const failed = await router.prompt('auditor', 'audit spec');
+      inner.fail = false;
+      const retried = await router.prompt('auditor', 'audit spec');
+
+      expect(failed.success).toBe(false);
+      expect(retried.success).toBe(true);
+      expect(inner.calls).toBe(2);
+    });
+
+    it('should share entries across router instances', async () => {
+      const inner = createCountingRouter();
+      const request: ModelRouterRequest = { modelAlias: 'auditor', prompt: 'audit spec' };
+
+      await new CachingModelRouter({
+        router: inner,
+        cache: new ModelResponseCache({ directory: cacheDir }),
+      }).complete(request);
+      const replayed = await new CachingModelRouter({
+        router: inner,
+        cache: new ModelResponseCache({ directory: cacheDir }),
+      }).complete(request);
+
+      expect(inner.calls).toBe(1);
+      expect(replayed.success && replayed.response.usage.cacheHit).toBe(true);
+    });
+
+    it('should replay streamed responses as a single final chunk', async () => {
+      const inner = createCountingRouter();
+      const router = new CachingModelRouter({
+        router: inner,
+        cache: new ModelResponseCache({ directory: cacheDir }),
+      });
+      const request: ModelRouterRequest = { modelAlias: 'structurer', prompt: 'types' };
+
+      const first = await drain(router.stream(request));
+      const second = await drain(router.stream(request));
+
+      expect(inner.calls).toBe(1);
+      expect(second.chunks).toHaveLength(1);
+      expect(second.chunks[0]?.done).toBe(true);
+      expect(second.chunks[0]?.content).toBe(first.chunks[0]?.content);
+      expect(second.result.success && second.result.response.usage.cacheHit).toBe(true);
+    });
+
+    it('should treat corrupt entries as misses', async () => {
+      const inner = createCountingRouter();
+      const router = new CachingModelRouter({
+        router: inner,
+        cache: new ModelResponseCache({ directory: cacheDir }),
+      });
+      const request: ModelRouterRequest = { modelAlias: 'auditor', prompt: 'audit spec' };
+      const key = computeCacheKey(request);
+      mkdirSync(path.join(cacheDir, key.slice(0, 2)), { recursive: true });
+      writeFileSync(path.join(cacheDir, key.slice(0, 2), `${key}.json`), '{not json');
+
+      const result = await router.complete(request);
+
+      expect(result.success).toBe(true);
+      expect(inner.calls).toBe(1);
+      expect(router.getStats().misses).toBe(1);
+    });
+  });
+
+  describe('ModelResponseCache', () => {
+    it('should report stats and clear entries', async () => {
+      const cache = new ModelResponseCache({
+        directory: cacheDir,
+        now: () => new Date('2026-01-01T00:00:00.000Z'),
+      });
+      const router = new CachingModelRouter({ router: createCountingRouter(), cache });
+
+      await router.complete({ modelAlias: 'structurer', prompt: 'a' });
+      await router.complete({ modelAlias: 'structurer', prompt: 'b' });
+      await router.complete({ modelAlias: 'auditor', prompt: 'c' });
+      await router.complete({ modelAlias: 'architect', prompt: 'd' });
+
+      const stats = await cache.stats();
+      expect(stats.entries).toBe(3);
+      expect(stats.storedTokens).toBe(90);
+      expect(stats.totalBytes).toBeGreaterThan(0);
+      expect(stats.byTaskType).toEqual({ structure: 2, audit: 1 });
+      expect(stats.byModelAlias).toEqual({ structurer: 2, auditor: 1 });
+      expect(stats.oldestEntry).toBe('2026-01-01T00:00:00.000Z');
+
+      expect(await cache.clear()).toBe(3);
+      expect((await cache.stats()).entries).toBe(0);
+    });
+
+    it('should leave files other than entries alone when clearing', async () => {
+      const cache = new ModelResponseCache({ directory: cacheDir });
+      const router = new CachingModelRouter({ router: createCountingRouter(), cache });
+      await router.complete({ modelAlias: 'structurer', prompt: 'a' });
+      writeFileSync(path.join(cacheDir, 'notes.txt'), 'keep');
+      mkdirSync(path.join(cacheDir, 'src'));
+      writeFileSync(path.join(cacheDir, 'src', 'settings.json'), '{}');
+
+      expect(await cache.clear()).toBe(1);
+
+      expect(readdirSync(cacheDir).sort()).toEqual(['notes.txt', 'src']);
+      expect(readdirSync(path.join(cacheDir, 'src'))).toEqual(['settings.json']);
+    });
+
+    it('should report empty stats for a missing directory', async () => {
+      const stats = await new ModelResponseCache({ directory: cacheDir }).stats();
+      expect(stats.entries).toBe(0);
+      expect(stats.oldestEntry).toBeUndefined();
+    });
+  });
+
+  describe('createCachingModelRouter', () => {
+    it('should return the router unchanged when disabled', () => {
+      const inner = createCountingRouter();
+      const router = createCachingModelRouter(
+        inner,
+        { enabled: false, directory: 'cache', task_types: ['structure'] },
+        tempDir
+      );
+      expect(router).toBe(inner);
+    });
+
+    it('should honour configured task types', async () => {
+      const inner = createCountingRouter();
+      const router = createCachingModelRouter(
+        inner,
+        { enabled: true, directory: 'cache', task_types: ['synthesize'] },
+        tempDir
+      );
+
+      await router.prompt('architect', 'spec');
+      await router.prompt('architect', 'spec');
+      await router.prompt('structurer', 'types');
+      await router.prompt('structurer', 'types');
+
+      expect(inner.calls).toBe(3);
+      expect(existsSync(path.join(tempDir, 'cache'))).toBe(true);
+    });
+  });
+});
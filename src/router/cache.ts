@@ -0,0 +1,678 @@
+/**
+ * Content-addressed model response cache for the Criticality Protocol.
+ *
+ * Wraps any ModelRouter and replays stored responses for requests whose
+ * task type is safe to cache. Entries are keyed by a SHA-256 hash of the
+ * model alias, prompt, and model parameters, and stored as JSON files
+ * under the project so repeated runs over an unchanged spec skip
+ * redundant model calls.
+ *
+ * @packageDocumentation
+ */
+
+import { createHash } from 'node:crypto';
+import * as path from 'node:path';
+import type { ModelCacheConfig } from '../config/types.js';
+import type {
+  ModelAlias,
+  ModelMetadata,
+  ModelRouter,
+  ModelRouterRequest,
+  ModelRouterResponse,
+  ModelRouterResult,
+  ModelUsage,
+  StreamChunk,
+} from './types.js';
+import { isValidTaskType, type TaskType } from './routing.js';
+import { computePromptHash } from './logging.js';
+import {
+  safeExists,
+  safeMkdir,
+  safeReadFile,
+  safeReaddir,
+  safeRename,
+  safeRmdir,
+  safeStat,
+  safeUnlink,
+  safeWriteFile,
+} from '../utils/safe-fs.js';
+
+/**
+ * Version of the on-disk entry format. Bumping it invalidates every entry.
+ */
+export const MODEL_CACHE_FORMAT_VERSION = 1;
+
+/**
+ * Task types whose responses are replayed by default.
+ *
+ * Implementation is deliberately excluded: the Ralph Loop re-prompts with the
+ * same request on retry and expects a fresh answer.
+ */
+export const DEFAULT_CACHEABLE_TASK_TYPES: readonly TaskType[] = ['structure', 'audit'] as const;
+
+/**
+ * Name of a shard directory: the first two characters of the key.
+ */
+const SHARD_NAME_PATTERN = /^[0-9a-f]{2}$/;
+
+/**
+ * Name of an entry file: the SHA-256 cache key.
+ */
+const ENTRY_NAME_PATTERN = /^[0-9a-f]{64}\.json$/;
+
+/**
+ * A single cached model response as stored on disk.
+ */
+export interface ModelCacheEntry {
+  /** Entry format version. */
+  readonly version: number;
+  /** Cache key (full SHA-256 hex digest). */
+  readonly key: string;
+  /** ISO 8601 timestamp of when the entry was written. */
+  readonly createdAt: string;
+  /** Model alias the request was routed to. */
+  readonly modelAlias: ModelAlias;
+  /** Task type the request was classified as. */
+  readonly taskType: TaskType;
+  /** Prompt hash, matching the one used in model logs. */
+  readonly promptHash: string;
+  /** The generated content. */
+  readonly content: string;
+  /** Token usage of the original model call. */
+  readonly usage: ModelUsage;
+  /** Metadata of the original model call. */
+  readonly metadata: ModelMetadata;
+}
+
+/**
+ * Summary of the on-disk cache contents.
+ */
+export interface ModelCacheStats {
+  /** Absolute cache directory. */
+  readonly directory: string;
+  /** Number of valid entries. */
+  readonly entries: number;
+  /** Total size of all entry files in bytes. */
+  readonly totalBytes: number;
+  /** Sum of total tokens across valid entries (tokens saved per full replay). */
+  readonly storedTokens: number;
+  /** Valid entry counts grouped by task type. */
+  readonly byTaskType: Readonly<Record<string, number>>;
+  /** Valid entry counts grouped by model alias. */
+  readonly byModelAlias: Readonly<Record<string, number>>;
+  /** Number of entry files that could not be read or have an outdated format. */
+  readonly invalidEntries: number;
+  /** Creation timestamp of the oldest valid entry. */
+  readonly oldestEntry?: string;
+  /** Creation timestamp of the newest valid entry. */
+  readonly newestEntry?: string;
+}
+
+/**
+ * Hit/miss counters for a CachingModelRouter instance.
+ */
+export interface CachingModelRouterStats {
+  /** Requests answered from the cache. */
+  readonly hits: number;
+  /** Cacheable requests forwarded to the underlying router. */
+  readonly misses: number;
+  /** Requests forwarded without consulting the cache (task type not cacheable). */
+  readonly bypassed: number;
+}
+
+/**
+ * Resolves the task type of a request.
+ *
+ * Uses the explicit `taskType` when present, otherwise falls back to the
+ * task type conventionally served by the request's model alias.
+ *
+ * @param request - The model router request.
+ * @returns The resolved task type.
+ */
+export function resolveTaskType(request: ModelRouterRequest): TaskType {
+  if (request.taskType !== undefined) {
+    return request.taskType;
+  }
+
+  switch (request.modelAlias) {
+    case 'architect':
+      return 'synthesize';
+    case 'auditor':
+      return 'audit';
+    case 'structurer':
+      return 'structure';
+    case 'worker':
+    case 'fallback':
+      return 'implement';
+  }
+}
+
+/**
+ * Computes the content-addressed cache key for a request.
+ *
+ * The key covers the model alias, prompt, and every model parameter.
+ * Request IDs and task types are excluded so that identical calls share
+ * an entry regardless of how they are tracked.
+ *
+ * @param request - The model router request.
+ * @returns Full SHA-256 hex digest.
+ */
+export function computeCacheKey(request: ModelRouterRequest): string {
+  const params = request.parameters;
+  // Fixed field order keeps the serialization stable
+  const canonical = {
+    version: MODEL_CACHE_FORMAT_VERSION,
+    modelAlias: request.modelAlias,
+    prompt: request.prompt,
+    parameters: {
+      maxTokens: params?.maxTokens ?? null,
+      temperature: params?.temperature ?? null,
+      topP: params?.topP ?? null,
+      stopSequences: params?.stopSequences ?? null,
+      systemPrompt: params?.systemPrompt ?? null,
+    },
+  };
+
+  return createHash('sha256').update(JSON.stringify(canonical), 'utf8').digest('hex');
+}
+
+/**
+ * Type guard for entries read back from disk.
+ *
+ * @param value - Parsed JSON value.
+ * @returns True if the value is a current-format cache entry.
+ */
+function isModelCacheEntry(value: unknown): value is ModelCacheEntry {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const entry = value as Record<string, unknown>;
+  const usage = entry.usage as Record<string, unknown> | undefined;
+  const metadata = entry.metadata as Record<string, unknown> | undefined;
+
+  return (
+    entry.version === MODEL_CACHE_FORMAT_VERSION &&
+    typeof entry.key === 'string' &&
+    typeof entry.createdAt === 'string' &&
+    typeof entry.modelAlias === 'string' &&
+    typeof entry.taskType === 'string' &&
+    typeof entry.promptHash === 'string' &&
+    typeof entry.content === 'string' &&
+    typeof usage?.promptTokens === 'number' &&
+    typeof usage.completionTokens === 'number' &&
+    typeof usage.totalTokens === 'number' &&
+    typeof metadata?.modelId === 'string' &&
+    typeof metadata.provider === 'string' &&
+    typeof metadata.latencyMs === 'number'
+  );
+}
+
+/**
+ * Options for creating a ModelResponseCache.
+ */
+export interface ModelResponseCacheOptions {
+  /** Directory where entries are stored. */
+  directory: string;
+  /** Clock used for entry timestamps (for testing). */
+  now?: () => Date;
+}
+
+/**
+ * On-disk store of model responses.
+ *
+ * Entries live at `<directory>/<first two key chars>/<key>.json` and are
+ * written via a temporary file and rename so concurrent writers never
+ * expose partial entries.
+ */
+export class ModelResponseCache {
+  private readonly directory: string;
+  private readonly now: () => Date;
+
+  /**
+   * Creates a new ModelResponseCache.
+   *
+   * @param options - Cache options.
+   */
+  constructor(options: ModelResponseCacheOptions) {
+    this.directory = path.resolve(options.directory);
+    this.now = options.now ?? ((): Date => new Date());
+  }
+
+  /**
+   * Gets the absolute cache directory.
+   *
+   * @returns The cache directory.
+   */
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Reads an entry by key.
+   *
+   * Unreadable, malformed, or outdated entries are treated as misses.
+   *
+   * @param key - The cache key.
+   * @returns The entry, or undefined on a miss.
+   */
+  async get(key: string): Promise<ModelCacheEntry | undefined> {
+    const entryPath = this.getEntryPath(key);
+    if (!(await safeExists(entryPath))) {
+      return undefined;
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(await safeReadFile(entryPath, 'utf-8'));
+      if (!isModelCacheEntry(parsed) || parsed.key !== key) {
+        return undefined;
+      }
+      return parsed;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores a successful response.
+   *
+   * @param key - The cache key.
+   * @param request - The request that produced the response.
+   * @param response - The response to store.
+   * @returns The written entry.
+   */
+  async set(
+    key: string,
+    request: ModelRouterRequest,
+    response: ModelRouterResponse
+  ): Promise<ModelCacheEntry> {
+    const entry: ModelCacheEntry = {
+      version: MODEL_CACHE_FORMAT_VERSION,
+      key,
+      createdAt: this.now().toISOString(),
+      modelAlias: request.modelAlias,
+      taskType: resolveTaskType(request),
+      promptHash: computePromptHash(request.prompt),
+      content: response.content,
+      usage: {
+        promptTokens: response.usage.promptTokens,
+        completionTokens: response.usage.completionTokens,
+        totalTokens: response.usage.totalTokens,
+      },
+      metadata: response.metadata,
+    };
+
+    const entryPath = this.getEntryPath(key);
+    const tempPath = `${entryPath}.${String(process.pid)}.${String(Date.now())}.tmp`;
+    await safeMkdir(path.dirname(entryPath), { recursive: true });
+    await safeWriteFile(tempPath, JSON.stringify(entry, null, 2), 'utf-8');
+    await safeRename(tempPath, entryPath);
+
+    return entry;
+  }
+
+  /**
+   * Summarizes the cache contents.
+   *
+   * @returns Cache statistics.
+   */
+  async stats(): Promise<ModelCacheStats> {
+    const files = await this.listEntryFiles();
+    const byTaskType = new Map<string, number>();
+    const byModelAlias = new Map<string, number>();
+    let entries = 0;
+    let totalBytes = 0;
+    let storedTokens = 0;
+    let invalidEntries = 0;
+    let oldestEntry: string | undefined;
+    let newestEntry: string | undefined;
+
+    for (const file of files) {
+      totalBytes += Number((await safeStat(file)).size);
+
+      let entry: unknown;
+      try {
+        entry = JSON.parse(await safeReadFile(file, 'utf-8'));
+      } catch {
+        entry = undefined;
+      }
+      if (!isModelCacheEntry(entry)) {
+        invalidEntries++;
+        continue;
+      }
+
+      entries++;
+      storedTokens += entry.usage.totalTokens;
+      byTaskType.set(entry.taskType, (byTaskType.get(entry.taskType) ?? 0) + 1);
+      byModelAlias.set(entry.modelAlias, (byModelAlias.get(entry.modelAlias) ?? 0) + 1);
+      if (oldestEntry === undefined || entry.createdAt < oldestEntry) {
+        oldestEntry = entry.createdAt;
+      }
+      if (newestEntry === undefined || entry.createdAt > newestEntry) {
+        newestEntry = entry.createdAt;
+      }
+    }
+
+    const stats: ModelCacheStats = {
+      directory: this.directory,
+      entries,
+      totalBytes,
+      storedTokens,
+      byTaskType: Object.fromEntries(byTaskType),
+      byModelAlias: Object.fromEntries(byModelAlias),
+      invalidEntries,
+    };
+
+    if (oldestEntry !== undefined && newestEntry !== undefined) {
+      return { ...stats, oldestEntry, newestEntry };
+    }
+    return stats;
+  }
+
+  /**
+   * Removes every entry from the cache.
+   *
+   * Deletes only the entry files and the shard directories they leave
+   * empty; anything else in the cache directory is left alone.
+   *
+   * @returns The number of entry files removed.
+   */
+  async clear(): Promise<number> {
+    const files = await this.listEntryFiles();
+    const shards = new Set<string>();
+    for (const file of files) {
+      await safeUnlink(file);
+      shards.add(path.dirname(file));
+    }
+    for (const shard of shards) {
+      if ((await safeReaddir(shard)).length === 0) {
+        await safeRmdir(shard);
+      }
+    }
+    return files.length;
+  }
+
+  /**
+   * Builds the path of an entry file.
+   *
+   * @param key - The cache key.
+   * @returns Absolute entry path.
+   */
+  private getEntryPath(key: string): string {
+    return path.join(this.directory, key.slice(0, 2), `${key}.json`);
+  }
+
+  /**
+   * Lists all entry files in the cache directory.
+   *
+   * Only `<2 hex chars>/<64 hex chars>.json` paths count as entries.
+   *
+   * @returns Absolute paths of entry files.
+   */
+  private async listEntryFiles(): Promise<string[]> {
+    if (!(await safeExists(this.directory))) {
+      return [];
+    }
+
+    const files: string[] = [];
+    for (const shard of await safeReaddir(this.directory)) {
+      const shardPath = path.join(this.directory, shard);
+      if (!SHARD_NAME_PATTERN.test(shard) || !(await safeStat(shardPath)).isDirectory()) {
+        continue;
+      }
+      for (const name of await safeReaddir(shardPath)) {
+        if (ENTRY_NAME_PATTERN.test(name) && name.startsWith(shard)) {
+          files.push(path.join(shardPath, name));
+        }
+      }
+    }
+    return files.sort();
+  }
+}
+
+/**
+ * Options for creating a CachingModelRouter.
+ */
+export interface CachingModelRouterOptions {
+  /** The router that serves cache misses. */
+  router: ModelRouter;
+  /** The response store. */
+  cache: ModelResponseCache;
+  /** Task types whose responses may be replayed (default: structure and audit). */
+  cacheableTaskTypes?: readonly TaskType[];
+}
+
+/**
+ * ModelRouter decorator that replays cached responses.
+ *
+ * Only successful responses to cacheable task types are stored. Replayed
+ * responses carry `usage.cacheHit = true` with the token counts of the
+ * original call, so cost reporting can distinguish billed from replayed
+ * tokens.
+ *
+ * @example
+ * ```typescript
+ * const router = new CachingModelRouter({
+ *   router: await createClaudeCodeClient({ config }),
+ *   cache: new ModelResponseCache({ directory: '.criticality/cache/models' }),
+ * });
+ *
+ * const result = await router.complete({ modelAlias: 'structurer', prompt });
+ * ```
+ */
+export class CachingModelRouter implements ModelRouter {
+  private readonly router: ModelRouter;
+  private readonly cache: ModelResponseCache;
+  private readonly cacheableTaskTypes: ReadonlySet<TaskType>;
+  private hits = 0;
+  private misses = 0;
+  private bypassed = 0;
+
+  /**
+   * Creates a new CachingModelRouter.
+   *
+   * @param options - Router options.
+   */
+  constructor(options: CachingModelRouterOptions) {
+    this.router = options.router;
+    this.cache = options.cache;
+    this.cacheableTaskTypes = new Set(options.cacheableTaskTypes ?? DEFAULT_CACHEABLE_TASK_TYPES);
+  }
+
+  /**
+   * Gets the hit/miss counters for this router instance.
+   *
+   * @returns Router cache statistics.
+   */
+  getStats(): CachingModelRouterStats {
+    return { hits: this.hits, misses: this.misses, bypassed: this.bypassed };
+  }
+
+  /**
+   * Checks whether a request's responses may be cached.
+   *
+   * @param request - The model router request.
+   * @returns True if the request's task type is cacheable.
+   */
+  isCacheable(request: ModelRouterRequest): boolean {
+    return this.cacheableTaskTypes.has(resolveTaskType(request));
+  }
+
+  /**
+   * Send a simple prompt to a model, replaying a cached response if available.
+   *
+   * @param modelAlias - The model alias to route to.
+   * @param prompt - The prompt text.
+   * @param timeoutMs - Optional timeout in milliseconds for this request.
+   * @returns A result containing the response or an error.
+   */
+  async prompt(
+    modelAlias: ModelAlias,
+    prompt: string,
+    timeoutMs?: number
+  ): Promise<ModelRouterResult> {
+    return this.withCache({ modelAlias, prompt }, () =>
+      this.router.prompt(modelAlias, prompt, timeoutMs)
+    );
+  }
+
+  /**
+   * Send a complete request, replaying a cached response if available.
+   *
+   * @param request - The full request with model alias, prompt, and parameters.
+   * @returns A result containing the response or an error.
+   */
+  async complete(request: ModelRouterRequest): Promise<ModelRouterResult> {
+    return this.withCache(request, () => this.router.complete(request));
+  }
+
+  /**
+   * Stream a response. Cache hits are delivered as a single final chunk.
+   *
+   * @param request - The full request with model alias, prompt, and parameters.
+   * @yields StreamChunk objects as they arrive.
+   * @returns The final ModelRouterResult when streaming completes.
+   */
+  async *stream(
+    request: ModelRouterRequest
+  ): AsyncGenerator<StreamChunk, ModelRouterResult, unknown> {
+    if (!this.isCacheable(request)) {
+      this.bypassed++;
+      return yield* this.router.stream(request);
+    }
+
+    const startTime = Date.now();
+    const key = computeCacheKey(request);
+    const cached = await this.lookup(key, request, startTime);
+    if (cached !== undefined) {
+      yield { content: cached.content, done: true, usage: cached.usage };
+      return { success: true, response: cached };
+    }
+
+    this.misses++;
+    const result = yield* this.router.stream(request);
+    if (result.success) {
+      await this.store(key, request, result.response);
+    }
+    return result;
+  }
+
+  /**
+   * Answers a request from the cache or forwards it and stores the result.
+   *
+   * @param request - The model router request.
+   * @param forward - Calls the underlying router.
+   * @returns The cached or freshly generated result.
+   */
+  private async withCache(
+    request: ModelRouterRequest,
+    forward: () => Promise<ModelRouterResult>
+  ): Promise<ModelRouterResult> {
+    if (!this.isCacheable(request)) {
+      this.bypassed++;
+      return forward();
+    }
+
+    const startTime = Date.now();
+    const key = computeCacheKey(request);
+    const cached = await this.lookup(key, request, startTime);
+    if (cached !== undefined) {
+      return { success: true, response: cached };
+    }
+
+    this.misses++;
+    const result = await forward();
+    if (result.success) {
+      await this.store(key, request, result.response);
+    }
+    return result;
+  }
+
+  /**
+   * Looks up a cached response and rebuilds it for the current request.
+   *
+   * @param key - The cache key.
+   * @param request - The current request.
+   * @param startTime - Lookup start time for latency reporting.
+   * @returns The replayed response, or undefined on a miss.
+   */
+  private async lookup(
+    key: string,
+    request: ModelRouterRequest,
+    startTime: number
+  ): Promise<ModelRouterResponse | undefined> {
+    const entry = await this.cache.get(key);
+    if (entry === undefined) {
+      return undefined;
+    }
+
+    this.hits++;
+    const response: ModelRouterResponse = {
+      content: entry.content,
+      usage: { ...entry.usage, cacheHit: true },
+      metadata: { ...entry.metadata, latencyMs: Date.now() - startTime },
+    };
+    if (request.requestId !== undefined) {
+      return { ...response, requestId: request.requestId };
+    }
+    return response;
+  }
+
+  /**
+   * Stores a response, ignoring write failures.
+   *
+   * @param key - The cache key.
+   * @param request - The request that produced the response.
+   * @param response - The response to store.
+   */
+  private async store(
+    key: string,
+    request: ModelRouterRequest,
+    response: ModelRouterResponse
+  ): Promise<void> {
+    try {
+      await this.cache.set(key, request, response);
+    } catch {
+      // A cache that cannot be written degrades to pass-through; the model call already succeeded
+    }
+  }
+}
+
+/**
+ * Creates a ModelResponseCache from configuration.
+ *
+ * @param config - The model cache configuration.
+ * @param projectRoot - Project root the cache directory is relative to.
+ * @returns A new ModelResponseCache.
+ */
+export function createModelResponseCache(
+  config: ModelCacheConfig,
+  projectRoot: string = process.cwd()
+): ModelResponseCache {
+  return new ModelResponseCache({ directory: path.resolve(projectRoot, config.directory) });
+}
+
+/**
+ * Wraps a router with response caching according to configuration.
+ *
+ * Returns the router unchanged when caching is disabled.
+ *
+ * @param router - The router that serves cache misses.
+ * @param config - The model cache configuration.
+ * @param projectRoot - Project root the cache directory is relative to.
+ * @returns The caching router, or the original router if caching is disabled.
+ */
+export function createCachingModelRouter(
+  router: ModelRouter,
+  config: ModelCacheConfig,
+  projectRoot: string = process.cwd()
+): ModelRouter {
+  if (!config.enabled) {
+    return router;
+  }
+
+  return new CachingModelRouter({
+    router,
+    cache: createModelResponseCache(config, projectRoot),
+    cacheableTaskTypes: config.task_types.filter(isValidTaskType),
+  });
+}
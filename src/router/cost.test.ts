@@ -0,0 +1,330 @@
+/**
+ * Tests for cost accounting and budget enforcement.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync } from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  CostLedger,
+  CostLedgerError,
+  CostTrackingModelRouter,
+  computeCallCost,
+  getCostReportPath,
+} from './cost.js';
+import {
+  createModelError,
+  createSuccessResult,
+  createFailureResult,
+  type ModelRouter,
+  type ModelRouterRequest,
+  type ModelRouterResult,
+  type ModelUsage,
+  type StreamChunk,
+} from './types.js';
+import type { CostConfig, ModelAssignments } from '../config/types.js';
+
+const PRICED_COST: CostConfig = {
+  budget_usd: 0,
+  prices: {
+    'big-model': { input_per_mtok: 3, output_per_mtok: 15 },
+    'small-model': { input_per_mtok: 0.5, output_per_mtok: 1 },
+  },
+};
+
+const MODELS: ModelAssignments = {
+  architect_model: 'big-model',
+  auditor_model: 'big-model',
+  structurer_model: 'big-model',
+  worker_model: 'small-model',
+  fallback_model: 'big-model',
+};
+
+/**
+ * Builds usage with the given token counts.
+ */
+function usage(promptTokens: number, completionTokens: number, cacheHit?: boolean): ModelUsage {
+  const base = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  return cacheHit !== undefined ? { ...base, cacheHit } : base;
+}
+
+/**
+ * Creates a router that answers every request with fixed usage.
+ */
+function createFixedRouter(modelId: string): ModelRouter & { fail: boolean } {
+  const router = {
+    fail: false,
+    respond(): ModelRouterResult {
+      if (router.fail) {
+        return createFailureResult(createModelError('model failed', false));
+      }
+      return createSuccessResult({
+        content: 'ok',
+        usage: usage(1_000_000, 100_000),
+        metadata: { modelId, provider: 'test', latencyMs: 10 },
+      });
+    },
+    prompt() {
+      return Promise.resolve(router.respond());
+    },
+    complete() {
+      return Promise.resolve(router.respond());
+    },
+    async *stream(): AsyncGenerator<StreamChunk, ModelRouterResult, unknown> {
+      yield { content: 'ok', done: true };
+      return Promise.resolve(router.respond());
+    },
+  };
+  return router;
+}
+
+describe('Cost ledger', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), 'cost-ledger-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('computeCallCost', () => {
+    it('should price input and output tokens per million', () => {
+      expect(
+        computeCallCost(usage(2_000_000, 500_000), { input_per_mtok: 3, output_per_mtok: 15 })
+      ).toBeCloseTo(13.5);
+    });
+  });
+
+  describe('getCostReportPath', () => {
+    it('should place the report beside the state file', () => {
+      expect(getCostReportPath('/project/.criticality-state.json')).toBe(
+        '/project/.criticality-cost.json'
+      );
+    });
+  });
+
+  describe('CostLedger', () => {
+    it('should break totals down by phase, function, and alias', () => {
+      const ledger = new CostLedger({ cost: PRICED_COST });
+
+      ledger.record({
+        modelAlias: 'worker',
+        modelId: 'small-model',
+        usage: usage(1_000_000, 1_000_000),
+        phase: 'Injection',
+        functionId: 'src/math.ts:add',
+      });
+      ledger.record({
+        modelAlias: 'architect',
+        modelId: 'big-model',
+        usage: usage(1_000_000, 0),
+        phase: 'Ignition',
+      });
+
+      const report = ledger.getReport();
+      expect(report.total.calls).toBe(2);
+      expect(report.total.costUsd).toBeCloseTo(4.5);
+      expect(report.byPhase.Injection?.costUsd).toBeCloseTo(1.5);
+      expect(report.byPhase.Ignition?.costUsd).toBeCloseTo(3);
+      expect(report.byFunction['src/math.ts:add']?.promptTokens).toBe(1_000_000);
+      expect(Object.keys(report.byFunction)).toEqual(['src/math.ts:add']);
+      expect(report.byModelAlias.worker?.completionTokens).toBe(1_000_000);
+    });
+
+    it('should fall back to the model assigned to the alias', () => {
+      const ledger = new CostLedger({ cost: PRICED_COST, models: MODELS });
+
+      expect(ledger.getPrice('small-model-2025-01-01', 'worker')).toEqual({
+        input_per_mtok: 0.5,
+        output_per_mtok: 1,
+      });
+      expect(new CostLedger({ cost: PRICED_COST }).getPrice('unknown', 'worker')).toBeUndefined();
+    });
+
+    it('should count unpriced tokens without cost', () => {
+      const ledger = new CostLedger({ cost: PRICED_COST });
+
+      const cost = ledger.record({ modelAlias: 'worker', modelId: 'unknown', usage: usage(10, 5) });
+
+      expect(cost).toBe(0);
+      expect(ledger.getReport().total).toMatchObject({ calls: 1, unpricedTokens: 15, costUsd: 0 });
+    });
+
+    it('should not bill cache hits', () => {
+      const ledger = new CostLedger({ cost: PRICED_COST });
+
+      ledger.record({ modelAlias: 'auditor', modelId: 'big-model', usage: usage(100, 50, true) });
+
+      expect(ledger.getReport().total).toEqual({
+        calls: 1,
+        cachedCalls: 1,
+        promptTokens: 0,
+        completionTokens: 0,
+        cachedTokens: 150,
+        unpricedTokens: 0,
+        costUsd: 0,
+      });
+    });
+
+    it('should persist and reload totals', async () => {
+      const filePath = path.join(tempDir, '.criticality-cost.json');
+      const ledger = new CostLedger({ cost: PRICED_COST, filePath });
+      ledger.record({
+        modelAlias: 'worker',
+        modelId: 'small-model',
+        usage: usage(1_000_000, 0),
+        phase: 'Injection',
+      });
+      await ledger.save();
+
+      const reloaded = new CostLedger({ cost: PRICED_COST, filePath });
+      await reloaded.load();
+
+      expect(reloaded.getReport()).toEqual(ledger.getReport());
+    });
+
+    it('should start empty when no report exists', async () => {
+      const ledger = new CostLedger({
+        cost: PRICED_COST,
+        filePath: path.join(tempDir, 'missing.json'),
+      });
+      await ledger.load();
+
+      expect(ledger.getReport().total.calls).toBe(0);
+    });
+
+    it('should reject a malformed report', async () => {
+      const filePath = path.join(tempDir, '.criticality-cost.json');
+      writeFileSync(filePath, JSON.stringify({ version: 99 }));
+
+      await expect(new CostLedger({ cost: PRICED_COST, filePath }).load()).rejects.toThrow(
+        CostLedgerError
+      );
+    });
+
+    it('should report no budget when none is configured', () => {
+      const ledger = new CostLedger({ cost: PRICED_COST });
+      ledger.record({ modelAlias: 'architect', modelId: 'big-model', usage: usage(10_000_000, 0) });
+
+      expect(ledger.getBudgetStatus()).toEqual({
+        exceeded: false,
+        spentUsd: 30,
+        limitUsd: undefined,
+      });
+    });
+
+    it('should raise the limit by one budget per approval', async () => {
+      const filePath = path.join(tempDir, '.criticality-cost.json');
+      const ledger = new CostLedger({
+        cost: { ...PRICED_COST, budget_usd: 2 },
+        filePath,
+        now: () => new Date('2026-01-01T00:00:00.000Z'),
+      });
+      ledger.record({ modelAlias: 'architect', modelId: 'big-model', usage: usage(1_000_000, 0) });
+
+      expect(ledger.getBudgetStatus()).toEqual({ exceeded: true, spentUsd: 3, limitUsd: 2 });
+
+      const approval = await ledger.approveFurtherSpend();
+
+      expect(approval).toEqual({
+        approvedAt: '2026-01-01T00:00:00.000Z',
+        spentUsd: 3,
+        limitUsd: 5,
+      });
+      expect(ledger.getBudgetStatus().exceeded).toBe(false);
+      const persisted = JSON.parse(readFileSync(filePath, 'utf-8')) as { approvals: unknown[] };
+      expect(persisted.approvals).toHaveLength(1);
+    });
+  });
+
+  describe('CostTrackingModelRouter', () => {
+    it('should attribute calls to the current phase and function', async () => {
+      const filePath = path.join(tempDir, '.criticality-cost.json');
+      const ledger = new CostLedger({ cost: PRICED_COST, filePath });
+      const router = new CostTrackingModelRouter({
+        router: createFixedRouter('small-model'),
+        ledger,
+      });
+      const request: ModelRouterRequest = {
+        modelAlias: 'worker',
+        prompt: 'implement add',
+        functionId: 'src/math.ts:add',
+      };
+
+      router.setPhase('Injection');
+      await router.complete(request);
+      await router.prompt('worker', 'summarize');
+
+      const report = ledger.getReport();
+      expect(report.total.calls).toBe(2);
+      expect(report.byPhase.Injection?.calls).toBe(2);
+      expect(report.byFunction['src/math.ts:add']?.calls).toBe(1);
+      expect(report.total.costUsd).toBeCloseTo(1.2);
+      expect(JSON.parse(readFileSync(filePath, 'utf-8'))).toEqual(report);
+    });
+
+    it('should record streamed calls once they finish', async () => {
+      const ledger = new CostLedger({ cost: PRICED_COST });
+      const router = new CostTrackingModelRouter({
+        router: createFixedRouter('big-model'),
+        ledger,
+      });
+
+      const stream = router.stream({ modelAlias: 'architect', prompt: 'spec' });
+      let next = await stream.next();
+      expect(ledger.getReport().total.calls).toBe(0);
+      while (next.done !== true) {
+        next = await stream.next();
+      }
+
+      expect(ledger.getReport().byModelAlias.architect?.costUsd).toBeCloseTo(4.5);
+    });
+
+    it('should not record failed calls', async () => {
+      const ledger = new CostLedger({ cost: PRICED_COST });
+      const inner = createFixedRouter('big-model');
+      inner.fail = true;
+      const router = new CostTrackingModelRouter({ router: inner, ledger });
+
+      await router.prompt('architect', 'spec');
+
+      expect(ledger.getReport().total.calls).toBe(0);
+    });
+
+    it('should refuse requests once spend passes the budget', async () => {
+      const ledger = new CostLedger({ cost: { ...PRICED_COST, budget_usd: 1 } });
+      const inner = createFixedRouter('small-model');
+      const completeSpy = vi.spyOn(inner, 'complete');
+      const router = new CostTrackingModelRouter({ router: inner, ledger });
+      const request: ModelRouterRequest = { modelAlias: 'worker', prompt: 'implement add' };
+
+      expect((await router.complete(request)).success).toBe(true);
+      // The call that crosses the limit still completes: overshoot is one request
+      expect((await router.complete(request)).success).toBe(true);
+      const refused = await router.complete(request);
+      const streamed = router.stream(request);
+      let next = await streamed.next();
+      while (next.done !== true) {
+        next = await streamed.next();
+      }
+
+      expect(refused.success).toBe(false);
+      expect(!refused.success && refused.error).toMatchObject({
+        kind: 'ModelError',
+        errorCode: 'budget_exceeded',
+        retryable: false,
+      });
+      expect(next.value.success).toBe(false);
+      expect(completeSpy).toHaveBeenCalledTimes(2);
+      expect(ledger.getReport().total.costUsd).toBeCloseTo(1.2);
+
+      await ledger.approveFurtherSpend();
+
+      expect((await router.complete(request)).success).toBe(true);
+      expect(completeSpy).toHaveBeenCalledTimes(3);
+    });
+  });
+});
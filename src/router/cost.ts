@@ -0,0 +1,652 @@
+/**
+ * Cost accounting and budget enforcement for the Criticality Protocol.
+ *
+ * Adds up the ModelUsage attached to every router response into a cost
+ * ledger, broken down per protocol phase, per function ID, and per model
+ * alias. Dollar amounts come from the price table in criticality.toml.
+ * Totals are persisted next to the protocol state file so a resumed run
+ * continues counting from where it stopped.
+ *
+ * Once spend passes the limit, the tracking router refuses further requests
+ * until further spend is approved, so a long phase cannot run past the
+ * budget. A run overshoots the limit by at most the requests already in
+ * flight when it was reached.
+ *
+ * @packageDocumentation
+ */
+
+import * as path from 'node:path';
+import type { CostConfig, ModelAssignments, ModelPriceConfig } from '../config/types.js';
+import {
+  createModelError,
+  type ModelAlias,
+  type ModelRouter,
+  type ModelRouterRequest,
+  type ModelRouterResponse,
+  type ModelRouterResult,
+  type ModelUsage,
+  type StreamChunk,
+} from './types.js';
+import {
+  safeExists,
+  safeMkdir,
+  safeReadFile,
+  safeRename,
+  safeWriteFile,
+} from '../utils/safe-fs.js';
+
+/**
+ * Version of the persisted cost report format.
+ */
+export const COST_REPORT_VERSION = 1;
+
+/**
+ * File name of the persisted cost report.
+ */
+export const COST_REPORT_FILENAME = '.criticality-cost.json';
+
+/**
+ * Accumulated token and dollar totals.
+ */
+export interface CostTotals {
+  /** Number of model calls. */
+  readonly calls: number;
+  /** Number of calls answered from the response cache. */
+  readonly cachedCalls: number;
+  /** Billed prompt tokens. */
+  readonly promptTokens: number;
+  /** Billed completion tokens. */
+  readonly completionTokens: number;
+  /** Tokens replayed from the cache (not billed). */
+  readonly cachedTokens: number;
+  /** Billed tokens for which no price was configured. */
+  readonly unpricedTokens: number;
+  /** Cost in USD. */
+  readonly costUsd: number;
+}
+
+/**
+ * Record of a human approving spend beyond the budget.
+ */
+export interface BudgetApproval {
+  /** ISO 8601 timestamp of the approval. */
+  readonly approvedAt: string;
+  /** Spend at the time of approval in USD. */
+  readonly spentUsd: number;
+  /** New spending limit in USD. */
+  readonly limitUsd: number;
+}
+
+/**
+ * Current budget position.
+ */
+export interface BudgetStatus {
+  /** Whether spend has passed the current limit. */
+  readonly exceeded: boolean;
+  /** Total spend in USD. */
+  readonly spentUsd: number;
+  /** Current spending limit in USD, or undefined when no budget is configured. */
+  readonly limitUsd: number | undefined;
+}
+
+/**
+ * Persisted cost report.
+ */
+export interface CostReport {
+  /** Report format version. */
+  readonly version: number;
+  /** ISO 8601 timestamp of the last update. */
+  readonly updatedAt: string;
+  /** Totals across the whole run. */
+  readonly total: CostTotals;
+  /** Totals per protocol phase. */
+  readonly byPhase: Readonly<Record<string, CostTotals>>;
+  /** Totals per function ID. */
+  readonly byFunction: Readonly<Record<string, CostTotals>>;
+  /** Totals per model alias. */
+  readonly byModelAlias: Readonly<Record<string, CostTotals>>;
+  /** Budget approvals granted so far, oldest first. */
+  readonly approvals: readonly BudgetApproval[];
+}
+
+/**
+ * A single model call to record.
+ */
+export interface CostRecordInput {
+  /** Model alias the call was routed to. */
+  readonly modelAlias: ModelAlias;
+  /** Model that served the call, as reported in response metadata. */
+  readonly modelId: string;
+  /** Token usage of the call. */
+  readonly usage: ModelUsage;
+  /** Protocol phase the call belongs to. */
+  readonly phase?: string;
+  /** Function the call worked on. */
+  readonly functionId?: string;
+}
+
+/**
+ * Error thrown when a persisted cost report cannot be read.
+ */
+export class CostLedgerError extends Error {
+  /** Path of the report file. */
+  public readonly filePath: string;
+
+  /**
+   * Creates a new CostLedgerError.
+   *
+   * @param message - Descriptive error message.
+   * @param filePath - Path of the report file.
+   */
+  constructor(message: string, filePath: string) {
+    super(message);
+    this.name = 'CostLedgerError';
+    this.filePath = filePath;
+  }
+}
+
+/**
+ * Totals with every counter at zero.
+ */
+const EMPTY_TOTALS: CostTotals = {
+  calls: 0,
+  cachedCalls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  cachedTokens: 0,
+  unpricedTokens: 0,
+  costUsd: 0,
+};
+
+/**
+ * Gets the cost report path for a given state path.
+ *
+ * The report lives beside the state file.
+ *
+ * @param statePath - Path to the protocol state file.
+ * @returns The cost report path.
+ */
+export function getCostReportPath(statePath: string): string {
+  return path.join(path.dirname(statePath), COST_REPORT_FILENAME);
+}
+
+/**
+ * Computes the USD cost of a call.
+ *
+ * @param usage - Token usage of the call.
+ * @param price - Price of the model that served the call.
+ * @returns Cost in USD.
+ */
+export function computeCallCost(usage: ModelUsage, price: ModelPriceConfig): number {
+  return (
+    (usage.promptTokens * price.input_per_mtok + usage.completionTokens * price.output_per_mtok) /
+    1_000_000
+  );
+}
+
+/**
+ * Gets the model assigned to an alias in configuration.
+ *
+ * @param models - Model assignments from configuration.
+ * @param alias - The model alias.
+ * @returns The assigned model ID.
+ */
+function getAssignedModel(models: ModelAssignments, alias: ModelAlias): string {
+  switch (alias) {
+    case 'architect':
+      return models.architect_model;
+    case 'auditor':
+      return models.auditor_model;
+    case 'structurer':
+      return models.structurer_model;
+    case 'worker':
+      return models.worker_model;
+    case 'fallback':
+      return models.fallback_model;
+  }
+}
+
+/**
+ * Adds a call to a totals record.
+ *
+ * @param totals - Existing totals.
+ * @param usage - Token usage of the call.
+ * @param costUsd - Cost of the call.
+ * @param priced - Whether a price was found for the call.
+ * @returns Updated totals.
+ */
+function addToTotals(
+  totals: CostTotals,
+  usage: ModelUsage,
+  costUsd: number,
+  priced: boolean
+): CostTotals {
+  if (usage.cacheHit === true) {
+    return {
+      ...totals,
+      calls: totals.calls + 1,
+      cachedCalls: totals.cachedCalls + 1,
+      cachedTokens: totals.cachedTokens + usage.totalTokens,
+    };
+  }
+
+  return {
+    ...totals,
+    calls: totals.calls + 1,
+    promptTokens: totals.promptTokens + usage.promptTokens,
+    completionTokens: totals.completionTokens + usage.completionTokens,
+    unpricedTokens: totals.unpricedTokens + (priced ? 0 : usage.totalTokens),
+    costUsd: totals.costUsd + costUsd,
+  };
+}
+
+/**
+ * Checks whether a parsed value looks like a cost report.
+ *
+ * @param value - Parsed JSON value.
+ * @returns True if the value is a current-format cost report.
+ */
+function isCostReport(value: unknown): value is CostReport {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const report = value as Record<string, unknown>;
+  return (
+    report.version === COST_REPORT_VERSION &&
+    typeof report.total === 'object' &&
+    typeof report.byPhase === 'object' &&
+    typeof report.byFunction === 'object' &&
+    typeof report.byModelAlias === 'object' &&
+    Array.isArray(report.approvals)
+  );
+}
+
+/**
+ * Options for creating a CostLedger.
+ */
+export interface CostLedgerOptions {
+  /** Cost configuration (price table and budget). */
+  cost: CostConfig;
+  /** Model assignments, used to price calls whose model ID has no entry. */
+  models?: ModelAssignments;
+  /** Where the report is persisted; omit for an in-memory ledger. */
+  filePath?: string;
+  /** Clock for timestamps (for testing). */
+  now?: () => Date;
+}
+
+/**
+ * Run-wide cost ledger with budget enforcement.
+ *
+ * @example
+ * ```typescript
+ * const ledger = new CostLedger({ cost: config.cost, filePath: getCostReportPath(statePath) });
+ * await ledger.load();
+ *
+ * ledger.record({ modelAlias: 'worker', modelId: 'minimax-m2', usage, phase: 'Injection' });
+ * await ledger.save();
+ *
+ * if (ledger.getBudgetStatus().exceeded) {
+ *   // block for approval
+ * }
+ * ```
+ */
+export class CostLedger {
+  private readonly prices: ReadonlyMap<string, ModelPriceConfig>;
+  private readonly budgetUsd: number;
+  private readonly models: ModelAssignments | undefined;
+  private readonly filePath: string | undefined;
+  private readonly now: () => Date;
+  private total: CostTotals = EMPTY_TOTALS;
+  private readonly byPhase = new Map<string, CostTotals>();
+  private readonly byFunction = new Map<string, CostTotals>();
+  private readonly byModelAlias = new Map<string, CostTotals>();
+  private approvals: BudgetApproval[] = [];
+  private updatedAt: string;
+  private saveQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new CostLedger.
+   *
+   * @param options - Ledger options.
+   */
+  constructor(options: CostLedgerOptions) {
+    this.prices = new Map(Object.entries(options.cost.prices));
+    this.budgetUsd = options.cost.budget_usd;
+    this.models = options.models;
+    this.filePath = options.filePath;
+    this.now = options.now ?? ((): Date => new Date());
+    this.updatedAt = this.now().toISOString();
+  }
+
+  /**
+   * Loads persisted totals, if a report file exists.
+   *
+   * @throws CostLedgerError if the report file is unreadable or malformed.
+   */
+  async load(): Promise<void> {
+    if (this.filePath === undefined || !(await safeExists(this.filePath))) {
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await safeReadFile(this.filePath, 'utf-8'));
+    } catch (error) {
+      throw new CostLedgerError(
+        `Failed to read cost report: ${error instanceof Error ? error.message : String(error)}`,
+        this.filePath
+      );
+    }
+    if (!isCostReport(parsed)) {
+      throw new CostLedgerError('Cost report has an unrecognized format', this.filePath);
+    }
+
+    this.total = { ...EMPTY_TOTALS, ...parsed.total };
+    for (const [target, source] of [
+      [this.byPhase, parsed.byPhase],
+      [this.byFunction, parsed.byFunction],
+      [this.byModelAlias, parsed.byModelAlias],
+    ] as const) {
+      target.clear();
+      for (const [key, totals] of Object.entries(source)) {
+        target.set(key, { ...EMPTY_TOTALS, ...totals });
+      }
+    }
+    this.approvals = [...parsed.approvals];
+    this.updatedAt = parsed.updatedAt;
+  }
+
+  /**
+   * Persists the current report.
+   *
+   * Saves are serialized so the file always ends with the latest totals.
+   * Does nothing for an in-memory ledger.
+   */
+  async save(): Promise<void> {
+    const filePath = this.filePath;
+    if (filePath === undefined) {
+      return;
+    }
+
+    this.saveQueue = this.saveQueue.then(async () => {
+      const tempPath = `${filePath}.${String(process.pid)}.tmp`;
+      await safeMkdir(path.dirname(filePath), { recursive: true });
+      await safeWriteFile(tempPath, JSON.stringify(this.getReport(), null, 2), 'utf-8');
+      await safeRename(tempPath, filePath);
+    });
+    return this.saveQueue;
+  }
+
+  /**
+   * Looks up the price for a call.
+   *
+   * Tries the model ID reported by the backend first, then the model
+   * assigned to the alias in configuration.
+   *
+   * @param modelId - Model ID from response metadata.
+   * @param modelAlias - Model alias the call was routed to.
+   * @returns The price, or undefined if none is configured.
+   */
+  getPrice(modelId: string, modelAlias: ModelAlias): ModelPriceConfig | undefined {
+    const direct = this.prices.get(modelId);
+    if (direct !== undefined || this.models === undefined) {
+      return direct;
+    }
+    return this.prices.get(getAssignedModel(this.models, modelAlias));
+  }
+
+  /**
+   * Records a model call.
+   *
+   * Cache hits count as calls but add no billed tokens or cost.
+   *
+   * @param input - The call to record.
+   * @returns The cost of the call in USD.
+   */
+  record(input: CostRecordInput): number {
+    const price =
+      input.usage.cacheHit === true ? undefined : this.getPrice(input.modelId, input.modelAlias);
+    const costUsd = price !== undefined ? computeCallCost(input.usage, price) : 0;
+    const priced = price !== undefined;
+
+    this.total = addToTotals(this.total, input.usage, costUsd, priced);
+    const buckets: [Map<string, CostTotals>, string | undefined][] = [
+      [this.byPhase, input.phase],
+      [this.byFunction, input.functionId],
+      [this.byModelAlias, input.modelAlias],
+    ];
+    for (const [bucket, key] of buckets) {
+      if (key !== undefined) {
+        bucket.set(key, addToTotals(bucket.get(key) ?? EMPTY_TOTALS, input.usage, costUsd, priced));
+      }
+    }
+    this.updatedAt = this.now().toISOString();
+
+    return costUsd;
+  }
+
+  /**
+   * Gets the current report.
+   *
+   * @returns A snapshot of all totals and approvals.
+   */
+  getReport(): CostReport {
+    return {
+      version: COST_REPORT_VERSION,
+      updatedAt: this.updatedAt,
+      total: this.total,
+      byPhase: Object.fromEntries(this.byPhase),
+      byFunction: Object.fromEntries(this.byFunction),
+      byModelAlias: Object.fromEntries(this.byModelAlias),
+      approvals: [...this.approvals],
+    };
+  }
+
+  /**
+   * Gets the current budget position.
+   *
+   * The limit starts at the configured budget and moves to the spend at
+   * approval time plus another budget's worth on every approval.
+   *
+   * @returns The budget status.
+   */
+  getBudgetStatus(): BudgetStatus {
+    const spentUsd = this.total.costUsd;
+    if (this.budgetUsd <= 0) {
+      return { exceeded: false, spentUsd, limitUsd: undefined };
+    }
+
+    const limitUsd = this.approvals.at(-1)?.limitUsd ?? this.budgetUsd;
+    return { exceeded: spentUsd > limitUsd, spentUsd, limitUsd };
+  }
+
+  /**
+   * Approves spending another budget's worth beyond the current spend.
+   *
+   * @returns The recorded approval.
+   */
+  async approveFurtherSpend(): Promise<BudgetApproval> {
+    const spentUsd = this.total.costUsd;
+    const approval: BudgetApproval = {
+      approvedAt: this.now().toISOString(),
+      spentUsd,
+      limitUsd: spentUsd + this.budgetUsd,
+    };
+    this.approvals.push(approval);
+    this.updatedAt = approval.approvedAt;
+    await this.save();
+    return approval;
+  }
+}
+
+/**
+ * Options for creating a CostTrackingModelRouter.
+ */
+export interface CostTrackingModelRouterOptions {
+  /** The router that serves requests. */
+  router: ModelRouter;
+  /** The ledger to record usage in. */
+  ledger: CostLedger;
+}
+
+/**
+ * ModelRouter decorator that records the usage of every successful call.
+ *
+ * Calls are attributed to the phase set via {@link setPhase} and to the
+ * request's `functionId`. The ledger is saved after each call. Once the
+ * budget is exceeded, requests fail with a non-retryable ModelError
+ * (`errorCode: 'budget_exceeded'`) without reaching the model until
+ * further spend is approved.
+ */
+export class CostTrackingModelRouter implements ModelRouter {
+  private readonly router: ModelRouter;
+  private readonly ledger: CostLedger;
+  private phase: string | undefined;
+
+  /**
+   * Creates a new CostTrackingModelRouter.
+   *
+   * @param options - Router options.
+   */
+  constructor(options: CostTrackingModelRouterOptions) {
+    this.router = options.router;
+    this.ledger = options.ledger;
+  }
+
+  /**
+   * Sets the protocol phase subsequent calls are attributed to.
+   *
+   * @param phase - The protocol phase, or undefined to stop attributing.
+   */
+  setPhase(phase: string | undefined): void {
+    this.phase = phase;
+  }
+
+  /**
+   * Gets the ledger usage is recorded in.
+   *
+   * @returns The cost ledger.
+   */
+  getLedger(): CostLedger {
+    return this.ledger;
+  }
+
+  /**
+   * Send a simple prompt to a model and record its usage.
+   *
+   * @param modelAlias - The model alias to route to.
+   * @param prompt - The prompt text.
+   * @param timeoutMs - Optional timeout in milliseconds for this request.
+   * @returns A result containing the response or an error.
+   */
+  async prompt(
+    modelAlias: ModelAlias,
+    prompt: string,
+    timeoutMs?: number
+  ): Promise<ModelRouterResult> {
+    const refused = this.refuseOverBudget({ modelAlias, prompt });
+    if (refused !== undefined) {
+      return refused;
+    }
+    const result = await this.router.prompt(modelAlias, prompt, timeoutMs);
+    await this.recordResult({ modelAlias, prompt }, result);
+    return result;
+  }
+
+  /**
+   * Send a complete request and record its usage.
+   *
+   * @param request - The full request with model alias, prompt, and parameters.
+   * @returns A result containing the response or an error.
+   */
+  async complete(request: ModelRouterRequest): Promise<ModelRouterResult> {
+    const refused = this.refuseOverBudget(request);
+    if (refused !== undefined) {
+      return refused;
+    }
+    const result = await this.router.complete(request);
+    await this.recordResult(request, result);
+    return result;
+  }
+
+  /**
+   * Stream a response and record its final usage.
+   *
+   * @param request - The full request with model alias, prompt, and parameters.
+   * @yields StreamChunk objects as they arrive.
+   * @returns The final ModelRouterResult when streaming completes.
+   */
+  async *stream(
+    request: ModelRouterRequest
+  ): AsyncGenerator<StreamChunk, ModelRouterResult, unknown> {
+    const refused = this.refuseOverBudget(request);
+    if (refused !== undefined) {
+      return refused;
+    }
+    const result = yield* this.router.stream(request);
+    await this.recordResult(request, result);
+    return result;
+  }
+
+  /**
+   * Refuses a request once spend has passed the budget.
+   *
+   * @param request - The request about to be sent.
+   * @returns A failed result if the budget is exceeded, undefined otherwise.
+   */
+  private refuseOverBudget(request: ModelRouterRequest): ModelRouterResult | undefined {
+    const status = this.ledger.getBudgetStatus();
+    if (!status.exceeded || status.limitUsd === undefined) {
+      return undefined;
+    }
+    return {
+      success: false,
+      error: createModelError(
+        `Budget exceeded: spent $${status.spentUsd.toFixed(2)} of the $${status.limitUsd.toFixed(2)} limit`,
+        false,
+        { errorCode: 'budget_exceeded', request }
+      ),
+    };
+  }
+
+  /**
+   * Records a successful result in the ledger and persists it.
+   *
+   * @param request - The request that produced the result.
+   * @param result - The router result.
+   */
+  private async recordResult(
+    request: ModelRouterRequest,
+    result: ModelRouterResult
+  ): Promise<void> {
+    if (!result.success) {
+      return;
+    }
+
+    this.ledger.record(this.buildRecordInput(request, result.response));
+    await this.ledger.save();
+  }
+
+  /**
+   * Builds the ledger input for a response.
+   *
+   * @param request - The request that produced the response.
+   * @param response - The model response.
+   * @returns The ledger record input.
+   */
+  private buildRecordInput(
+    request: ModelRouterRequest,
+    response: ModelRouterResponse
+  ): CostRecordInput {
+    const base: CostRecordInput = {
+      modelAlias: request.modelAlias,
+      modelId: response.metadata.modelId,
+      usage: response.usage,
+    };
+    const withPhase = this.phase !== undefined ? { ...base, phase: this.phase } : base;
+    return request.functionId !== undefined
+      ? { ...withPhase, functionId: request.functionId }
+      : withPhase;
+  }
+}
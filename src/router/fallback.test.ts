@@ -0,0 +1,348 @@
+/**
+ * Tests for the fallback model router and its circuit breaker.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { FallbackModelRouter, InvalidFallbackChainError } from './fallback.js';
+import { createModelLogger } from './logging.js';
+import type { ModelRouter, ModelRouterResult, StreamChunk } from './types.js';
+import {
+  createAuthenticationError,
+  createFailureResult,
+  createNetworkError,
+  createRateLimitError,
+  createTimeoutError,
+} from './types.js';
+
+function success(content: string): ModelRouterResult {
+  return {
+    success: true,
+    response: {
+      content,
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      metadata: { modelId: 'claude-sonnet-4-5', provider: 'anthropic', latencyMs: 1200 },
+    },
+  };
+}
+
+const unreachable = (): ModelRouterResult =>
+  createFailureResult(createNetworkError('connect ECONNREFUSED', { endpoint: 'https://api' }));
+
+// Helper to create a ModelRouter that answers every call with `answer()`
+function createMockModelRouter(answer: () => ModelRouterResult): ModelRouter {
+  return {
+    prompt: vi.fn().mockImplementation(() => Promise.resolve(answer())),
+    complete: vi.fn().mockImplementation(() => Promise.resolve(answer())),
+    // eslint-disable-next-line @typescript-eslint/require-await -- matches the ModelRouter signature
+    stream: vi.fn().mockImplementation(async function* (): AsyncGenerator<
+      StreamChunk,
+      ModelRouterResult
+    > {
+      const result = answer();
+      if (result.success) {
+        yield { content: result.response.content, done: false };
+      }
+      yield { content: '', done: true };
+      return result;
+    }),
+  };
+}
+
+async function drain(
+  stream: AsyncGenerator<StreamChunk, ModelRouterResult>
+): Promise<{ chunks: StreamChunk[]; result: ModelRouterResult }> {
+  const chunks: StreamChunk[] = [];
+  for (;;) {
+    const next = await stream.next();
+    if (next.done === true) {
+      return { chunks, result: next.value };
+    }
+    chunks.push(next.value);
+  }
+}
+
+describe('FallbackModelRouter', () => {
+  it('should fail over on rate limits, network errors and timeouts', async () => {
+    const failures = [
+      createFailureResult(createRateLimitError('slow down')),
+      unreachable(),
+      createFailureResult(createTimeoutError('timed out', 1000)),
+    ];
+    for (const failure of failures) {
+      const router = new FallbackModelRouter({
+        backends: [
+          { name: 'anthropic', router: createMockModelRouter(() => failure) },
+          { name: 'claude-code', router: createMockModelRouter(() => success('fallback')) },
+        ],
+      });
+
+      const result = await router.prompt('worker', 'Implement add');
+
+      expect(result.success && result.response.metadata).toEqual({
+        modelId: 'claude-sonnet-4-5',
+        provider: 'anthropic',
+        latencyMs: 1200,
+        backend: 'claude-code',
+      });
+    }
+  });
+
+  it('should return other errors without failing over', async () => {
+    const secondary = createMockModelRouter(() => success('fallback'));
+    const router = new FallbackModelRouter({
+      backends: [
+        {
+          name: 'anthropic',
+          router: createMockModelRouter(() =>
+            createFailureResult(createAuthenticationError('bad key', 'anthropic'))
+          ),
+        },
+        { name: 'claude-code', router: secondary },
+      ],
+    });
+
+    const result = await router.complete({ modelAlias: 'worker', prompt: 'hi' });
+
+    expect(!result.success && result.error.kind).toBe('AuthenticationError');
+    // eslint-disable-next-line @typescript-eslint/unbound-method -- vi.fn() mocks are safe to use this way
+    expect(secondary.complete).not.toHaveBeenCalled();
+  });
+
+  it('should use per-alias chains', async () => {
+    const local = createMockModelRouter(() => success('local'));
+    const router = new FallbackModelRouter({
+      backends: [{ name: 'anthropic', router: createMockModelRouter(() => success('remote')) }],
+      chains: { worker: [{ name: 'local', router: local }] },
+    });
+
+    expect(await router.prompt('worker', 'hi')).toMatchObject({
+      success: true,
+      response: { content: 'local', metadata: { backend: 'local' } },
+    });
+    expect(await router.prompt('architect', 'hi')).toMatchObject({
+      success: true,
+      response: { content: 'remote', metadata: { backend: 'anthropic' } },
+    });
+  });
+
+  it('should return the last error once every backend has failed', async () => {
+    const router = new FallbackModelRouter({
+      backends: [
+        { name: 'anthropic', router: createMockModelRouter(unreachable) },
+        {
+          name: 'claude-code',
+          router: createMockModelRouter(() =>
+            createFailureResult(createRateLimitError('slow down', { retryAfterMs: 500 }))
+          ),
+        },
+      ],
+    });
+
+    const result = await router.prompt('worker', 'hi');
+
+    expect(!result.success && result.error).toMatchObject({
+      kind: 'RateLimitError',
+      retryAfterMs: 500,
+    });
+  });
+
+  it('should open the circuit and probe once the cooldown has passed', async () => {
+    let now = 0;
+    let primaryUp = false;
+    const primary = createMockModelRouter(() => (primaryUp ? success('primary') : unreachable()));
+    const router = new FallbackModelRouter({
+      backends: [
+        { name: 'anthropic', router: primary },
+        { name: 'claude-code', router: createMockModelRouter(() => success('fallback')) },
+      ],
+      circuitBreaker: { failureThreshold: 2, cooldownMs: 1000 },
+      now: () => now,
+    });
+
+    await router.prompt('worker', 'one');
+    await router.prompt('worker', 'two');
+    expect(router.getHealth()[0]).toMatchObject({
+      name: 'anthropic',
+      state: 'open',
+      consecutiveFailures: 2,
+      openedAt: 0,
+      lastError: { kind: 'NetworkError' },
+    });
+
+    // Skipped while open
+    await router.prompt('worker', 'three');
+    // eslint-disable-next-line @typescript-eslint/unbound-method -- vi.fn() mocks are safe to use this way
+    expect(primary.prompt).toHaveBeenCalledTimes(2);
+
+    // A failed probe reopens the circuit
+    now = 1000;
+    expect(router.getHealth()[0]?.state).toBe('half-open');
+    await router.prompt('worker', 'four');
+    // eslint-disable-next-line @typescript-eslint/unbound-method -- vi.fn() mocks are safe to use this way
+    expect(primary.prompt).toHaveBeenCalledTimes(3);
+    expect(router.getHealth()[0]).toMatchObject({ state: 'open', openedAt: 1000 });
+
+    // A successful probe closes it
+    now = 2000;
+    primaryUp = true;
+    const result = await router.prompt('worker', 'five');
+    expect(result.success && result.response.metadata.backend).toBe('anthropic');
+    expect(router.getHealth()[0]).toEqual({
+      name: 'anthropic',
+      state: 'closed',
+      consecutiveFailures: 0,
+    });
+  });
+
+  it('should let a single probe through a half-open circuit', async () => {
+    let now = 0;
+    let release: (() => void) | undefined;
+    const primary: ModelRouter = {
+      ...createMockModelRouter(unreachable),
+      prompt: vi.fn().mockImplementation(
+        () =>
+          new Promise<ModelRouterResult>((resolve) => {
+            release = () => {
+              resolve(success('primary'));
+            };
+          })
+      ),
+    };
+    const router = new FallbackModelRouter({
+      backends: [
+        { name: 'anthropic', router: primary },
+        { name: 'claude-code', router: createMockModelRouter(() => success('fallback')) },
+      ],
+      circuitBreaker: { failureThreshold: 1, cooldownMs: 1000 },
+      now: () => now,
+    });
+
+    await router.complete({ modelAlias: 'worker', prompt: 'fails' });
+    now = 1000;
+
+    const probe = router.prompt('worker', 'probe');
+    const concurrent = await router.prompt('worker', 'concurrent');
+    release?.();
+
+    expect(concurrent.success && concurrent.response.metadata.backend).toBe('claude-code');
+    expect((await probe).success).toBe(true);
+    expect(router.getHealth()[0]?.state).toBe('closed');
+  });
+
+  it('should report unavailable backends when every circuit is open', async () => {
+    const router = new FallbackModelRouter({
+      backends: [{ name: 'anthropic', router: createMockModelRouter(unreachable) }],
+      circuitBreaker: { failureThreshold: 1 },
+      now: () => 0,
+    });
+
+    await router.prompt('worker', 'fails');
+    const result = await router.prompt('worker', 'skipped');
+
+    expect(!result.success && result.error).toMatchObject({
+      kind: 'ModelError',
+      retryable: true,
+      errorCode: 'BACKENDS_UNAVAILABLE',
+    });
+  });
+
+  it('should log failovers', async () => {
+    const logger = createModelLogger({ logLevel: 'summary' });
+    const router = new FallbackModelRouter({
+      backends: [
+        { name: 'anthropic', router: createMockModelRouter(unreachable) },
+        { name: 'claude-code', router: createMockModelRouter(() => success('fallback')) },
+      ],
+      circuitBreaker: { failureThreshold: 1 },
+      logger,
+      now: () => 0,
+    });
+
+    await router.complete({ modelAlias: 'auditor', prompt: 'audit', requestId: 'req-1' });
+    await router.complete({ modelAlias: 'auditor', prompt: 'audit', requestId: 'req-2' });
+
+    expect(logger.getEntries()).toEqual([
+      expect.objectContaining({
+        type: 'failover',
+        modelAlias: 'auditor',
+        fromBackend: 'anthropic',
+        toBackend: 'claude-code',
+        reason: 'error',
+        errorKind: 'NetworkError',
+        requestId: 'req-1',
+      }),
+      expect.objectContaining({
+        type: 'failover',
+        fromBackend: 'anthropic',
+        toBackend: 'claude-code',
+        reason: 'circuit-open',
+        requestId: 'req-2',
+      }),
+    ]);
+  });
+
+  describe('stream', () => {
+    it('should fail over before any content and hold back failed done chunks', async () => {
+      const router = new FallbackModelRouter({
+        backends: [
+          { name: 'anthropic', router: createMockModelRouter(unreachable) },
+          { name: 'claude-code', router: createMockModelRouter(() => success('streamed')) },
+        ],
+      });
+
+      const { chunks, result } = await drain(router.stream({ modelAlias: 'worker', prompt: 'hi' }));
+
+      expect(chunks).toEqual([
+        { content: 'streamed', done: false },
+        { content: '', done: true },
+      ]);
+      expect(result.success && result.response.metadata.backend).toBe('claude-code');
+    });
+
+    it('should not fail over once content has been streamed', async () => {
+      const secondary = createMockModelRouter(() => success('fallback'));
+      const partial: ModelRouter = {
+        ...createMockModelRouter(unreachable),
+        // eslint-disable-next-line @typescript-eslint/require-await -- matches the ModelRouter signature
+        stream: vi.fn().mockImplementation(async function* (): AsyncGenerator<
+          StreamChunk,
+          ModelRouterResult
+        > {
+          yield { content: 'Hel', done: false };
+          return unreachable();
+        }),
+      };
+      const router = new FallbackModelRouter({
+        backends: [
+          { name: 'anthropic', router: partial },
+          { name: 'claude-code', router: secondary },
+        ],
+      });
+
+      const { chunks, result } = await drain(router.stream({ modelAlias: 'worker', prompt: 'hi' }));
+
+      expect(chunks).toEqual([{ content: 'Hel', done: false }]);
+      expect(!result.success && result.error.kind).toBe('NetworkError');
+      // eslint-disable-next-line @typescript-eslint/unbound-method -- vi.fn() mocks are safe to use this way
+      expect(secondary.stream).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should reject empty chains and repeated backends', () => {
+    const router = createMockModelRouter(() => success('ok'));
+
+    expect(() => new FallbackModelRouter({ backends: [] })).toThrow(InvalidFallbackChainError);
+    expect(
+      () =>
+        new FallbackModelRouter({
+          backends: [{ name: 'anthropic', router }],
+          chains: {
+            worker: [
+              { name: 'local', router },
+              { name: 'local', router },
+            ],
+          },
+        })
+    ).toThrow("Fallback chain for alias 'worker' lists backend 'local' more than once");
+  });
+});
@@ -0,0 +1,530 @@
+/**
+ * Multi-provider fallback chains for the Criticality Protocol.
+ *
+ * Routes each model alias through an ordered list of backends. A backend
+ * that is rate limited, unreachable or timing out hands the request to the
+ * next one, and a per-backend circuit breaker stops sending requests to a
+ * backend that keeps failing until a cooldown has passed. After the
+ * cooldown a single probe request is let through (half-open); it closes the
+ * circuit on success and reopens it on failure.
+ *
+ * @packageDocumentation
+ */
+
+import type { ModelLogger } from './logging.js';
+import type {
+  ModelAlias,
+  ModelRouter,
+  ModelRouterError,
+  ModelRouterRequest,
+  ModelRouterResult,
+  StreamChunk,
+} from './types.js';
+import { createFailureResult, createModelError } from './types.js';
+
+/**
+ * A named backend in a fallback chain.
+ */
+export interface ModelBackend {
+  /** Backend name, recorded in response metadata and failover logs. */
+  readonly name: string;
+  /** The router that serves requests for this backend. */
+  readonly router: ModelRouter;
+}
+
+/**
+ * Circuit breaker settings shared by every backend.
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive failover-eligible failures that open the circuit. */
+  readonly failureThreshold: number;
+  /** How long an open circuit skips the backend before a probe, in milliseconds. */
+  readonly cooldownMs: number;
+}
+
+/**
+ * Default circuit breaker settings.
+ */
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 3,
+  cooldownMs: 60000,
+};
+
+/**
+ * Circuit state of a backend.
+ *
+ * - `closed`: requests flow normally.
+ * - `open`: requests skip the backend until the cooldown has passed.
+ * - `half-open`: the cooldown has passed and one probe request is allowed.
+ */
+export type BackendHealthState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Health snapshot of a backend.
+ */
+export interface BackendHealth {
+  /** Backend name. */
+  readonly name: string;
+  /** Current circuit state. */
+  readonly state: BackendHealthState;
+  /** Consecutive failover-eligible failures. */
+  readonly consecutiveFailures: number;
+  /** When the circuit last opened (epoch milliseconds), if it is open or half-open. */
+  readonly openedAt?: number;
+  /** The last failover-eligible error, if any. */
+  readonly lastError?: ModelRouterError;
+}
+
+/**
+ * Options for FallbackModelRouter.
+ */
+export interface FallbackModelRouterOptions {
+  /** Chain used by aliases without an entry in `chains`. */
+  readonly backends: readonly ModelBackend[];
+  /** Per-alias chains that replace `backends`. */
+  readonly chains?: Partial<Record<ModelAlias, readonly ModelBackend[]>>;
+  /** Circuit breaker settings. */
+  readonly circuitBreaker?: Partial<CircuitBreakerConfig>;
+  /** Logger that records every failover. */
+  readonly logger?: ModelLogger;
+  /** Decides whether an error moves the request on to the next backend. */
+  readonly shouldFailover?: (error: ModelRouterError) => boolean;
+  /** Clock used for cooldowns (injectable for testing). */
+  readonly now?: () => number;
+}
+
+/**
+ * Error thrown when a fallback chain is empty or names a backend twice.
+ */
+export class InvalidFallbackChainError extends Error {
+  readonly code = 'INVALID_FALLBACK_CHAIN' as const;
+
+  /**
+   * Creates a new InvalidFallbackChainError.
+   *
+   * @param message - Description of the problem.
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidFallbackChainError';
+  }
+}
+
+/**
+ * Default failover policy: move on when the backend is rate limited,
+ * unreachable or timing out. Other errors would fail the same way on any
+ * backend and are returned as-is.
+ *
+ * @param error - The error returned by a backend.
+ * @returns True if the next backend should be tried.
+ */
+export function isFailoverError(error: ModelRouterError): boolean {
+  return (
+    error.kind === 'RateLimitError' ||
+    error.kind === 'NetworkError' ||
+    error.kind === 'TimeoutError'
+  );
+}
+
+/**
+ * Mutable per-backend circuit state.
+ */
+interface CircuitState {
+  state: BackendHealthState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  probeInFlight: boolean;
+  lastError?: ModelRouterError;
+}
+
+/**
+ * Checks a chain for emptiness and duplicate backend names.
+ *
+ * @param chain - The chain to check.
+ * @param label - Chain label for error messages.
+ * @throws InvalidFallbackChainError if the chain is invalid.
+ */
+function assertValidChain(chain: readonly ModelBackend[], label: string): void {
+  if (chain.length === 0) {
+    throw new InvalidFallbackChainError(`Fallback chain for ${label} has no backends`);
+  }
+  const names = new Set<string>();
+  for (const backend of chain) {
+    if (names.has(backend.name)) {
+      throw new InvalidFallbackChainError(
+        `Fallback chain for ${label} lists backend '${backend.name}' more than once`
+      );
+    }
+    names.add(backend.name);
+  }
+}
+
+/**
+ * Records the serving backend in a successful result's metadata.
+ *
+ * @param result - The backend's result.
+ * @param backend - Name of the backend.
+ * @returns The result with `metadata.backend` set.
+ */
+function withBackend(result: ModelRouterResult, backend: string): ModelRouterResult {
+  if (!result.success) {
+    return result;
+  }
+  return {
+    success: true,
+    response: {
+      ...result.response,
+      metadata: { ...result.response.metadata, backend },
+    },
+  };
+}
+
+/**
+ * A ModelRouter that fails over across an ordered chain of backends.
+ *
+ * Health is tracked per backend name, so a backend shared by several
+ * aliases opens its circuit for all of them. Only failover-eligible errors
+ * count as failures; any other answer shows the backend is up.
+ *
+ * @example
+ * ```typescript
+ * const router = new FallbackModelRouter({
+ *   backends: [
+ *     { name: 'anthropic', router: anthropicClient },
+ *     { name: 'claude-code', router: claudeCodeClient },
+ *   ],
+ *   logger,
+ * });
+ *
+ * const result = await router.prompt('worker', 'Implement add');
+ * if (result.success) {
+ *   console.log(result.response.metadata.backend);
+ * }
+ * ```
+ */
+export class FallbackModelRouter implements ModelRouter {
+  private readonly backends: readonly ModelBackend[];
+  private readonly chains: Partial<Record<ModelAlias, readonly ModelBackend[]>>;
+  private readonly circuitBreaker: CircuitBreakerConfig;
+  private readonly logger: ModelLogger | undefined;
+  private readonly shouldFailover: (error: ModelRouterError) => boolean;
+  private readonly now: () => number;
+  private readonly circuits = new Map<string, CircuitState>();
+
+  /**
+   * Creates a new FallbackModelRouter.
+   *
+   * @param options - Router options.
+   * @throws InvalidFallbackChainError if a chain is empty or repeats a backend.
+   */
+  constructor(options: FallbackModelRouterOptions) {
+    assertValidChain(options.backends, 'the default chain');
+    const chains = options.chains ?? {};
+    for (const [alias, chain] of Object.entries(chains)) {
+      assertValidChain(chain, `alias '${alias}'`);
+    }
+
+    this.backends = options.backends;
+    this.chains = chains;
+    this.circuitBreaker = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...options.circuitBreaker };
+    this.logger = options.logger;
+    this.shouldFailover = options.shouldFailover ?? isFailoverError;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Gets the health of every backend that has served or failed a request.
+   *
+   * @returns One snapshot per backend, in the order they were first used.
+   */
+  getHealth(): BackendHealth[] {
+    return [...this.circuits].map(([name, circuit]) => {
+      this.refresh(circuit);
+      return {
+        name,
+        state: circuit.state,
+        consecutiveFailures: circuit.consecutiveFailures,
+        ...(circuit.openedAt !== undefined ? { openedAt: circuit.openedAt } : {}),
+        ...(circuit.lastError !== undefined ? { lastError: circuit.lastError } : {}),
+      };
+    });
+  }
+
+  /**
+   * Send a simple prompt, failing over across the alias's chain.
+   *
+   * @param modelAlias - The model alias to route to.
+   * @param prompt - The prompt text.
+   * @param timeoutMs - Optional timeout in milliseconds for each backend attempt.
+   * @returns A result from the first backend that answered.
+   */
+  async prompt(
+    modelAlias: ModelAlias,
+    prompt: string,
+    timeoutMs?: number
+  ): Promise<ModelRouterResult> {
+    return this.run({ modelAlias, prompt }, (router) =>
+      router.prompt(modelAlias, prompt, timeoutMs)
+    );
+  }
+
+  /**
+   * Send a complete request, failing over across the alias's chain.
+   *
+   * @param request - The full request with model alias, prompt, and parameters.
+   * @returns A result from the first backend that answered.
+   */
+  async complete(request: ModelRouterRequest): Promise<ModelRouterResult> {
+    return this.run(request, (router) => router.complete(request));
+  }
+
+  /**
+   * Stream a response, failing over across the alias's chain.
+   *
+   * A backend is only abandoned before it has streamed any content; a
+   * failure after that point is returned, since the caller has already
+   * seen part of the answer.
+   *
+   * @param request - The full request with model alias, prompt, and parameters.
+   * @yields Stream chunks from the serving backend.
+   * @returns The final result from the serving backend.
+   */
+  async *stream(request: ModelRouterRequest): AsyncGenerator<StreamChunk, ModelRouterResult> {
+    const chain = this.getChain(request.modelAlias);
+    let lastError: ModelRouterError | undefined;
+
+    for (const [index, backend] of chain.entries()) {
+      if (!this.tryAcquire(backend.name)) {
+        await this.logSkip(request, chain, index);
+        continue;
+      }
+
+      let streamedContent = false;
+      let done: StreamChunk | undefined;
+      let result: ModelRouterResult;
+      try {
+        const stream = backend.router.stream(request);
+        let next = await stream.next();
+        while (next.done !== true) {
+          if (next.value.done) {
+            // Held back until the result is known, so a failed attempt stays silent
+            done = next.value;
+          } else {
+            streamedContent ||= next.value.content !== '';
+            yield next.value;
+          }
+          next = await stream.next();
+        }
+        result = next.value;
+      } finally {
+        this.release(backend.name);
+      }
+
+      if (result.success || streamedContent || !this.shouldFailover(result.error)) {
+        this.recordAnswer(backend.name, result);
+        if (done !== undefined) {
+          yield done;
+        }
+        return withBackend(result, backend.name);
+      }
+
+      lastError = result.error;
+      await this.recordFailure(request, chain, index, result.error);
+    }
+
+    return this.exhausted(request, lastError);
+  }
+
+  /**
+   * Runs a non-streaming call against each backend in turn.
+   *
+   * @param request - The request, for logging and errors.
+   * @param call - Sends the request to one backend's router.
+   * @returns The first non-failover result, or the last error.
+   */
+  private async run(
+    request: ModelRouterRequest,
+    call: (router: ModelRouter) => Promise<ModelRouterResult>
+  ): Promise<ModelRouterResult> {
+    const chain = this.getChain(request.modelAlias);
+    let lastError: ModelRouterError | undefined;
+
+    for (const [index, backend] of chain.entries()) {
+      if (!this.tryAcquire(backend.name)) {
+        await this.logSkip(request, chain, index);
+        continue;
+      }
+
+      let result: ModelRouterResult;
+      try {
+        result = await call(backend.router);
+      } finally {
+        this.release(backend.name);
+      }
+      if (result.success || !this.shouldFailover(result.error)) {
+        this.recordAnswer(backend.name, result);
+        return withBackend(result, backend.name);
+      }
+
+      lastError = result.error;
+      await this.recordFailure(request, chain, index, result.error);
+    }
+
+    return this.exhausted(request, lastError);
+  }
+
+  /**
+   * Gets the chain for an alias.
+   */
+  private getChain(modelAlias: ModelAlias): readonly ModelBackend[] {
+    return this.chains[modelAlias] ?? this.backends;
+  }
+
+  /**
+   * Gets or creates the circuit for a backend.
+   */
+  private getCircuit(name: string): CircuitState {
+    let circuit = this.circuits.get(name);
+    if (circuit === undefined) {
+      circuit = { state: 'closed', consecutiveFailures: 0, probeInFlight: false };
+      this.circuits.set(name, circuit);
+    }
+    return circuit;
+  }
+
+  /**
+   * Moves an open circuit to half-open once its cooldown has passed.
+   */
+  private refresh(circuit: CircuitState): void {
+    if (
+      circuit.state === 'open' &&
+      circuit.openedAt !== undefined &&
+      this.now() - circuit.openedAt >= this.circuitBreaker.cooldownMs
+    ) {
+      circuit.state = 'half-open';
+      circuit.probeInFlight = false;
+    }
+  }
+
+  /**
+   * Checks whether a backend may take a request, claiming the probe slot
+   * of a half-open circuit.
+   */
+  private tryAcquire(name: string): boolean {
+    const circuit = this.getCircuit(name);
+    this.refresh(circuit);
+
+    switch (circuit.state) {
+      case 'closed':
+        return true;
+      case 'open':
+        return false;
+      case 'half-open':
+        if (circuit.probeInFlight) {
+          return false;
+        }
+        circuit.probeInFlight = true;
+        return true;
+    }
+  }
+
+  /**
+   * Frees a half-open circuit's probe slot, including when the attempt
+   * threw or the caller stopped consuming its stream.
+   */
+  private release(name: string): void {
+    this.getCircuit(name).probeInFlight = false;
+  }
+
+  /**
+   * Records an answer that ends the chain: the backend is up.
+   */
+  private recordAnswer(name: string, result: ModelRouterResult): void {
+    const circuit = this.getCircuit(name);
+    circuit.state = 'closed';
+    circuit.consecutiveFailures = 0;
+    delete circuit.openedAt;
+    if (result.success) {
+      delete circuit.lastError;
+    }
+  }
+
+  /**
+   * Records a failover-eligible failure and logs the failover.
+   */
+  private async recordFailure(
+    request: ModelRouterRequest,
+    chain: readonly ModelBackend[],
+    index: number,
+    error: ModelRouterError
+  ): Promise<void> {
+    const backend = chain[index];
+    const next = chain[index + 1];
+    if (backend === undefined) {
+      return;
+    }
+
+    const circuit = this.getCircuit(backend.name);
+    circuit.consecutiveFailures++;
+    circuit.lastError = error;
+    if (
+      circuit.state === 'half-open' ||
+      circuit.consecutiveFailures >= this.circuitBreaker.failureThreshold
+    ) {
+      circuit.state = 'open';
+      circuit.openedAt = this.now();
+    }
+
+    await this.logger?.logFailover({
+      modelAlias: request.modelAlias,
+      fromBackend: backend.name,
+      ...(next !== undefined ? { toBackend: next.name } : {}),
+      reason: 'error',
+      errorKind: error.kind,
+      errorMessage: error.message,
+      ...(request.requestId !== undefined ? { requestId: request.requestId } : {}),
+    });
+  }
+
+  /**
+   * Logs a backend skipped because its circuit is open.
+   */
+  private async logSkip(
+    request: ModelRouterRequest,
+    chain: readonly ModelBackend[],
+    index: number
+  ): Promise<void> {
+    const backend = chain[index];
+    const next = chain[index + 1];
+    if (backend === undefined) {
+      return;
+    }
+
+    await this.logger?.logFailover({
+      modelAlias: request.modelAlias,
+      fromBackend: backend.name,
+      ...(next !== undefined ? { toBackend: next.name } : {}),
+      reason: 'circuit-open',
+      ...(request.requestId !== undefined ? { requestId: request.requestId } : {}),
+    });
+  }
+
+  /**
+   * Builds the result once every backend has failed or been skipped.
+   */
+  private exhausted(
+    request: ModelRouterRequest,
+    lastError: ModelRouterError | undefined
+  ): ModelRouterResult {
+    if (lastError !== undefined) {
+      return createFailureResult(lastError);
+    }
+    return createFailureResult(
+      createModelError(
+        `Every backend for '${request.modelAlias}' is unavailable while its circuit is open`,
+        true,
+        { errorCode: 'BACKENDS_UNAVAILABLE', request }
+      )
+    );
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Shared HTTP helpers for the model router's API clients.
+ *
+ * Parses server-sent event streams and maps HTTP statuses and fetch
+ * failures onto the router's error kinds, so every HTTP client reports
+ * failures the same way.
+ *
+ * @packageDocumentation
+ */
+
+import type { ModelRouterError, ModelRouterRequest } from './types.js';
+import {
+  createAuthenticationError,
+  createModelError,
+  createNetworkError,
+  createRateLimitError,
+  createTimeoutError,
+  createValidationError,
+} from './types.js';
+
+/**
+ * A server-sent event.
+ */
+export interface ServerSentEvent {
+  /** Event name ('message' when the stream does not name it). */
+  event: string;
+  /** Data lines joined with newlines. */
+  data: string;
+}
+
+/**
+ * Context for mapping a failed HTTP response onto a router error.
+ */
+export interface HttpErrorContext {
+  /** Provider name reported on authentication errors. */
+  provider: string;
+  /** The original request. */
+  request: ModelRouterRequest;
+  /** Model ID the request was sent to. */
+  modelId: string;
+  /** Timeout reported on gateway timeouts. */
+  timeoutMs: number;
+  /** Provider error code, if the body carried one. */
+  errorCode?: string;
+  /** Parsed Retry-After delay, for 429 responses. */
+  retryAfterMs?: number;
+}
+
+/**
+ * Parses a Retry-After header (seconds or an HTTP date) into milliseconds.
+ *
+ * @param header - The header value.
+ * @returns Milliseconds to wait, or undefined if absent or malformed.
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (header === null || header.trim() === '') {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, Math.round(seconds * 1000));
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Splits a response body into server-sent events.
+ *
+ * @param body - The response body stream.
+ * @yields One event per blank-line-terminated block with data.
+ */
+export async function* parseServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+
+  const flush = (): ServerSentEvent | undefined => {
+    const result = data.length > 0 ? { event, data: data.join('\n') } : undefined;
+    event = 'message';
+    data = [];
+    return result;
+  };
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    // Keep the last incomplete line in the buffer
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (line === '') {
+        const complete = flush();
+        if (complete !== undefined) {
+          yield complete;
+        }
+      } else if (line.startsWith('event:')) {
+        event = line.slice('event:'.length).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice('data:'.length).replace(/^ /, ''));
+      }
+      // Comments (":") and unknown fields are ignored
+    }
+  }
+
+  const last = flush();
+  if (last !== undefined) {
+    yield last;
+  }
+}
+
+/**
+ * Maps a non-2xx HTTP status onto a router error.
+ *
+ * 5xx statuses (including 529 overloaded) become retryable ModelErrors;
+ * other unmapped 4xx statuses become non-retryable ones.
+ *
+ * @param status - The HTTP status.
+ * @param message - Error message.
+ * @param context - Request context.
+ * @returns The router error.
+ */
+export function createHttpStatusError(
+  status: number,
+  message: string,
+  context: HttpErrorContext
+): ModelRouterError {
+  const { request } = context;
+
+  if (status === 401 || status === 403) {
+    return createAuthenticationError(message, context.provider, { request });
+  }
+  if (status === 429) {
+    return createRateLimitError(message, {
+      ...(context.retryAfterMs !== undefined ? { retryAfterMs: context.retryAfterMs } : {}),
+      request,
+    });
+  }
+  if (status === 400 || status === 413 || status === 422) {
+    return createValidationError(message, { request });
+  }
+  if (status === 408 || status === 504) {
+    return createTimeoutError(message, context.timeoutMs, { request });
+  }
+  return createModelError(message, status >= 500, {
+    errorCode: context.errorCode ?? `HTTP_${String(status)}`,
+    modelId: context.modelId,
+    request,
+  });
+}
+
+/**
+ * Maps a thrown fetch or body-read error onto a router error.
+ *
+ * Aborts through `request.signal` become non-retryable ModelErrors with
+ * errorCode 'ABORTED'; timeouts become TimeoutErrors; anything else is a
+ * NetworkError.
+ *
+ * @param error - The thrown error.
+ * @param request - The original request.
+ * @param endpoint - The URL that was requested.
+ * @param timeoutMs - The timeout that applied.
+ * @returns The router error.
+ */
+export function createFetchError(
+  error: unknown,
+  request: ModelRouterRequest,
+  endpoint: string,
+  timeoutMs: number
+): ModelRouterError {
+  const cause = error instanceof Error ? error : undefined;
+
+  if (request.signal?.aborted === true) {
+    return createModelError('Request was cancelled', false, {
+      errorCode: 'ABORTED',
+      ...(cause !== undefined ? { cause } : {}),
+      request,
+    });
+  }
+  if (cause?.name === 'TimeoutError') {
+    return createTimeoutError(`Request timed out after ${String(timeoutMs)}ms`, timeoutMs, {
+      cause,
+      request,
+    });
+  }
+
+  return createNetworkError(`Request to ${endpoint} failed: ${cause?.message ?? String(error)}`, {
+    endpoint,
+    ...(cause !== undefined ? { cause } : {}),
+    request,
+  });
+}
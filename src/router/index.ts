@@ -2,7 +2,7 @@
  * Model Router module for the Criticality Protocol.
  *
  * Provides the abstract interface and types for routing model requests
- * to different backends (Claude Code, OpenCode, etc.).
+ * to different backends (Claude Code, OpenCode, the Anthropic API, etc.).
  *
  * @packageDocumentation
  */
@@ -65,6 +65,60 @@ export {
   type OpenCodeClientOptions,
 } from './opencode-client.js';
 
+// Anthropic Messages API client
+export {
+  AnthropicClient,
+  AnthropicApiKeyMissingError,
+  createAnthropicClient,
+  type AnthropicClientOptions,
+  type CreateAnthropicClientOptions,
+} from './anthropic-client.js';
+
+// OpenAI-compatible client
+export {
+  OpenAICompatibleClient,
+  InvalidOpenAICompatibleModelError,
+  OPENAI_COMPATIBLE_PREFIX,
+  isOpenAICompatibleModel,
+  parseOpenAICompatibleModel,
+  usesOnlyOpenAICompatibleModels,
+  withOpenAICompatibleModels,
+  type OpenAICompatibleClientOptions,
+  type OpenAICompatibleModel,
+} from './openai-compatible-client.js';
+
+// Record/replay routers for deterministic runs
+export {
+  MODEL_FIXTURE_FORMAT_VERSION,
+  DEFAULT_PROMPT_NORMALIZERS,
+  ModelFixtureStore,
+  RecordingModelRouter,
+  ReplayModelRouter,
+  UnrecordedModelRequestError,
+  computeFixtureKey,
+  normalizePrompt,
+  type ModelFixtureEntry,
+  type ModelFixtureStoreOptions,
+  type PromptNormalizer,
+  type RecordedModelError,
+  type RecordedModelResult,
+  type RecordingModelRouterOptions,
+  type ReplayModelRouterOptions,
+} from './record-replay.js';
+
+// Multi-provider fallback chains with per-backend circuit breaking
+export {
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+  FallbackModelRouter,
+  InvalidFallbackChainError,
+  isFailoverError,
+  type BackendHealth,
+  type BackendHealthState,
+  type CircuitBreakerConfig,
+  type FallbackModelRouterOptions,
+  type ModelBackend,
+} from './fallback.js';
+
 // Model interaction logging
 export {
   // Types
@@ -72,6 +126,7 @@ export {
   type ModelRequestLogEntry,
   type ModelResponseLogEntry,
   type ModelErrorLogEntry,
+  type ModelFailoverLogEntry,
   type ModelLogEntry,
   type ModelLoggerOptions,
   // Constants
@@ -105,6 +160,49 @@ export {
   defaultSleep,
 } from './retry.js';
 
+// Content-addressed response cache
+export {
+  // Types
+  type ModelCacheEntry,
+  type ModelCacheStats,
+  type CachingModelRouterStats,
+  type ModelResponseCacheOptions,
+  type CachingModelRouterOptions,
+  // Constants
+  MODEL_CACHE_FORMAT_VERSION,
+  DEFAULT_CACHEABLE_TASK_TYPES,
+  // Functions
+  resolveTaskType,
+  computeCacheKey,
+  createModelResponseCache,
+  createCachingModelRouter,
+  // Classes
+  ModelResponseCache,
+  CachingModelRouter,
+} from './cache.js';
+
+// Cost accounting and budget enforcement
+export {
+  // Types
+  type CostTotals,
+  type BudgetApproval,
+  type BudgetStatus,
+  type CostReport,
+  type CostRecordInput,
+  type CostLedgerOptions,
+  type CostTrackingModelRouterOptions,
+  // Constants
+  COST_REPORT_VERSION,
+  COST_REPORT_FILENAME,
+  // Functions
+  getCostReportPath,
+  computeCallCost,
+  // Classes
+  CostLedger,
+  CostLedgerError,
+  CostTrackingModelRouter,
+} from './cost.js';
+
 // Context budgeting and truncation
 export {
   // Types
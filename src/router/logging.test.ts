@@ -408,6 +408,49 @@ describe('ModelLogger', () => {
     });
   });
 
+  describe('logFailover', () => {
+    it('returns undefined when log level is none', async () => {
+      const logger = createModelLogger({ logLevel: 'none' });
+      const entry = await logger.logFailover({
+        modelAlias: 'worker',
+        fromBackend: 'anthropic',
+        reason: 'circuit-open',
+      });
+      expect(entry).toBeUndefined();
+    });
+
+    it('logs failover details', async () => {
+      const fixedDate = new Date('2026-01-24T14:00:00.000Z');
+      const logger = createModelLogger({
+        logLevel: 'summary',
+        now: () => fixedDate,
+      });
+
+      const entry = await logger.logFailover({
+        modelAlias: 'auditor',
+        fromBackend: 'anthropic',
+        toBackend: 'claude-code',
+        reason: 'error',
+        errorKind: 'NetworkError',
+        errorMessage: 'connect ECONNREFUSED',
+        requestId: 'req-42',
+      });
+
+      expect(entry).toEqual({
+        type: 'failover',
+        timestamp: '2026-01-24T14:00:00.000Z',
+        modelAlias: 'auditor',
+        fromBackend: 'anthropic',
+        toBackend: 'claude-code',
+        reason: 'error',
+        errorKind: 'NetworkError',
+        errorMessage: 'connect ECONNREFUSED',
+        requestId: 'req-42',
+      });
+      expect(logger.getEntries()).toHaveLength(1);
+    });
+  });
+
   describe('File logging', () => {
     it('writes entries to log file', async () => {
       const logPath = path.join(tempDir, 'test.log');
@@ -522,7 +565,7 @@ describe('ModelLogger', () => {
   describe('getLogStats', () => {
     it('returns zeros for non-existent file', () => {
       const stats = getLogStats(path.join(tempDir, 'nonexistent.log'));
-      expect(stats).toEqual({ requests: 0, responses: 0, errors: 0, total: 0 });
+      expect(stats).toEqual({ requests: 0, responses: 0, errors: 0, failovers: 0, total: 0 });
     });
 
     it('counts entry types correctly', async () => {
@@ -550,7 +593,7 @@ describe('ModelLogger', () => {
       await logger.logError(createModelError('Error', true), 'worker');
 
       const stats = getLogStats(logPath);
-      expect(stats).toEqual({ requests: 2, responses: 1, errors: 1, total: 4 });
+      expect(stats).toEqual({ requests: 2, responses: 1, errors: 1, failovers: 0, total: 4 });
     });
   });
 
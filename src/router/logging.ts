@@ -116,10 +116,38 @@ export interface ModelErrorLogEntry {
   readonly requestId?: string;
 }
 
+/**
+ * Entry logged when a request moves on to the next backend in a fallback chain.
+ */
+export interface ModelFailoverLogEntry {
+  /** Type discriminator. */
+  readonly type: 'failover';
+  /** ISO 8601 timestamp of failover. */
+  readonly timestamp: string;
+  /** Model alias of the request. */
+  readonly modelAlias: ModelAlias;
+  /** Backend that was skipped or failed. */
+  readonly fromBackend: string;
+  /** Backend tried next, if any is left. */
+  readonly toBackend?: string;
+  /** Why the backend was left: it failed, or its circuit is open. */
+  readonly reason: 'error' | 'circuit-open';
+  /** Error kind, when the backend failed. */
+  readonly errorKind?: string;
+  /** Error message, when the backend failed. */
+  readonly errorMessage?: string;
+  /** Request ID for correlation. */
+  readonly requestId?: string;
+}
+
 /**
  * Union of all log entry types.
  */
-export type ModelLogEntry = ModelRequestLogEntry | ModelResponseLogEntry | ModelErrorLogEntry;
+export type ModelLogEntry =
+  | ModelRequestLogEntry
+  | ModelResponseLogEntry
+  | ModelErrorLogEntry
+  | ModelFailoverLogEntry;
 
 /**
  * Options for model logger.
@@ -377,6 +405,34 @@ export class ModelLogger {
     return entry;
   }
 
+  /**
+   * Logs a failover from one backend to the next.
+   *
+   * Logged at every level except 'none'; failovers are rare and explain
+   * which provider served a request.
+   *
+   * @param failover - The failover details.
+   * @returns The created log entry, or undefined if log level is 'none'.
+   */
+  async logFailover(
+    failover: Omit<ModelFailoverLogEntry, 'type' | 'timestamp'>
+  ): Promise<ModelFailoverLogEntry | undefined> {
+    if (this.logLevel === 'none') {
+      return undefined;
+    }
+
+    const entry: ModelFailoverLogEntry = {
+      type: 'failover',
+      timestamp: this.now().toISOString(),
+      ...failover,
+    };
+
+    this.entries.push(entry);
+    await this.writeToFile(entry);
+
+    return entry;
+  }
+
   /**
    * Formats a log entry as a string for file output.
    *
@@ -468,6 +524,7 @@ export function getLogStats(filePath: string): {
   requests: number;
   responses: number;
   errors: number;
+  failovers: number;
   total: number;
 } {
   const entries = readLogFile(filePath);
@@ -475,6 +532,7 @@ export function getLogStats(filePath: string): {
   let requests = 0;
   let responses = 0;
   let errors = 0;
+  let failovers = 0;
 
   for (const entry of entries) {
     switch (entry.type) {
@@ -487,6 +545,9 @@ export function getLogStats(filePath: string): {
       case 'error':
         errors++;
         break;
+      case 'failover':
+        failovers++;
+        break;
     }
   }
 
@@ -494,6 +555,7 @@ export function getLogStats(filePath: string): {
     requests,
     responses,
     errors,
+    failovers,
     total: entries.length,
   };
 }
@@ -0,0 +1,353 @@
+/**
+ * Tests for OpenAICompatibleClient against a local chat completions stand-in.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createServer,
+  type IncomingHttpHeaders,
+  type ServerResponse,
+  type Server,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { DEFAULT_CONFIG } from '../config/defaults.js';
+import type { Config } from '../config/types.js';
+import {
+  InvalidOpenAICompatibleModelError,
+  OpenAICompatibleClient,
+  parseOpenAICompatibleModel,
+  usesOnlyOpenAICompatibleModels,
+  withOpenAICompatibleModels,
+} from './openai-compatible-client.js';
+import type { ModelRouter, ModelRouterResult, StreamChunk } from './types.js';
+
+/**
+ * A request received by the chat completions stand-in.
+ */
+interface RecordedRequest {
+  readonly url: string;
+  readonly headers: IncomingHttpHeaders;
+  readonly body: Record<string, unknown>;
+}
+
+/**
+ * Local HTTP stand-in for an OpenAI-compatible server. Each test sets
+ * `respond` to answer the next requests.
+ */
+interface ChatStandIn {
+  readonly baseUrl: string;
+  readonly requests: RecordedRequest[];
+  respond: (res: ServerResponse, body: Record<string, unknown>) => void;
+  close(): Promise<void>;
+}
+
+async function startChatStandIn(): Promise<ChatStandIn> {
+  const requests: RecordedRequest[] = [];
+  const standIn: Pick<ChatStandIn, 'respond'> = {
+    respond: (res) => {
+      res.statusCode = 500;
+      res.end();
+    },
+  };
+
+  const server: Server = createServer((req, res) => {
+    let data = '';
+    req.on('data', (chunk: Buffer) => {
+      data += chunk.toString('utf-8');
+    });
+    req.on('end', () => {
+      const body = JSON.parse(data) as Record<string, unknown>;
+      requests.push({ url: req.url ?? '', headers: req.headers, body });
+      standIn.respond(res, body);
+    });
+  });
+
+  await new Promise<void>((resolve) => {
+    server.listen(0, '127.0.0.1', resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return Object.assign(standIn, {
+    baseUrl: `http://127.0.0.1:${String(port)}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => {
+          resolve();
+        });
+      }),
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+function sseData(data: unknown): string {
+  return `data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`;
+}
+
+function createTestConfig(models: Partial<Config['models']>): Config {
+  return { ...DEFAULT_CONFIG, models: { ...DEFAULT_CONFIG.models, ...models } };
+}
+
+async function collect(
+  stream: AsyncGenerator<StreamChunk, ModelRouterResult>
+): Promise<{ chunks: StreamChunk[]; result: ModelRouterResult }> {
+  const chunks: StreamChunk[] = [];
+  for (;;) {
+    const next = await stream.next();
+    if (next.done === true) {
+      return { chunks, result: next.value };
+    }
+    chunks.push(next.value);
+  }
+}
+
+describe('parseOpenAICompatibleModel', () => {
+  it('should split the URL into server and model', () => {
+    expect(parseOpenAICompatibleModel('openai-compat:http://localhost:8080/qwen-coder')).toEqual({
+      baseUrl: 'http://localhost:8080',
+      endpoint: 'http://localhost:8080/v1/chat/completions',
+      model: 'qwen-coder',
+    });
+  });
+
+  it('should not add a second /v1 and should decode the model name', () => {
+    expect(
+      parseOpenAICompatibleModel('openai-compat:https://gpu.internal/v1/Qwen%2FQwen2.5-Coder:7b')
+    ).toEqual({
+      baseUrl: 'https://gpu.internal/v1',
+      endpoint: 'https://gpu.internal/v1/chat/completions',
+      model: 'Qwen/Qwen2.5-Coder:7b',
+    });
+  });
+
+  it('should reject malformed assignments', () => {
+    for (const spec of [
+      'claude-opus-4.5',
+      'openai-compat:not a url',
+      'openai-compat:ftp://host/model',
+      'openai-compat:http://localhost:8080/',
+    ]) {
+      expect(() => parseOpenAICompatibleModel(spec)).toThrow(InvalidOpenAICompatibleModelError);
+    }
+  });
+});
+
+describe('OpenAICompatibleClient', () => {
+  let standIn: ChatStandIn;
+  let client: OpenAICompatibleClient;
+
+  beforeEach(async () => {
+    standIn = await startChatStandIn();
+    client = new OpenAICompatibleClient({
+      config: createTestConfig({
+        worker_model: `openai-compat:${standIn.baseUrl}/qwen-coder`,
+        structurer_model: `openai-compat:${standIn.baseUrl}/v1/llama3`,
+      }),
+      apiKey: 'local-key',
+      timeoutMs: 5000,
+    });
+  });
+
+  afterEach(async () => {
+    await standIn.close();
+  });
+
+  it('should map requests onto chat completions and report usage', async () => {
+    standIn.respond = (res) => {
+      sendJson(res, 200, {
+        model: 'qwen-coder',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'return a + b;' } }],
+        usage: { prompt_tokens: 20, completion_tokens: 5, total_tokens: 25 },
+      });
+    };
+
+    const result = await client.complete({
+      modelAlias: 'worker',
+      prompt: 'Implement add',
+      requestId: 'req-1',
+      parameters: {
+        maxTokens: 256,
+        temperature: 0,
+        topP: 0.9,
+        stopSequences: ['```'],
+        systemPrompt: 'Output code only.',
+      },
+    });
+
+    expect(result).toEqual({
+      success: true,
+      response: {
+        content: 'return a + b;',
+        usage: { promptTokens: 20, completionTokens: 5, totalTokens: 25 },
+        metadata: {
+          modelId: 'qwen-coder',
+          provider: 'openai-compat',
+          latencyMs: expect.any(Number) as number,
+        },
+        requestId: 'req-1',
+      },
+    });
+    const [request] = standIn.requests;
+    expect(request?.url).toBe('/v1/chat/completions');
+    expect(request?.headers.authorization).toBe('Bearer local-key');
+    expect(request?.body).toEqual({
+      model: 'qwen-coder',
+      messages: [
+        { role: 'system', content: 'Output code only.' },
+        { role: 'user', content: 'Implement add' },
+      ],
+      max_tokens: 256,
+      temperature: 0,
+      top_p: 0.9,
+      stop: ['```'],
+    });
+  });
+
+  it('should stream content deltas and the final usage chunk', async () => {
+    standIn.respond = (res) => {
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.end(
+        sseData({ model: 'llama3', choices: [{ delta: { role: 'assistant' } }] }) +
+          sseData({ choices: [{ delta: { content: 'Hel' } }] }) +
+          sseData({ choices: [{ delta: { content: 'lo' }, finish_reason: null }] }) +
+          sseData({ choices: [], usage: { prompt_tokens: 4, completion_tokens: 2 } }) +
+          sseData('[DONE]')
+      );
+    };
+
+    const { chunks, result } = await collect(
+      client.stream({ modelAlias: 'structurer', prompt: 'Say hello' })
+    );
+
+    expect(standIn.requests[0]?.url).toBe('/v1/chat/completions');
+    expect(standIn.requests[0]?.body).toMatchObject({
+      model: 'llama3',
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    expect(chunks).toEqual([
+      { content: 'Hel', done: false },
+      { content: 'lo', done: false },
+      { content: '', done: true, usage: { promptTokens: 4, completionTokens: 2, totalTokens: 6 } },
+    ]);
+    expect(result).toMatchObject({
+      success: true,
+      response: { content: 'Hello', metadata: { modelId: 'llama3', provider: 'openai-compat' } },
+    });
+  });
+
+  it('should fail on error chunks mid-stream', async () => {
+    standIn.respond = (res) => {
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.end(
+        sseData({ choices: [{ delta: { content: 'Hel' } }] }) +
+          sseData({ error: { message: 'KV cache full', type: 'server_error' } })
+      );
+    };
+
+    const { result } = await collect(client.stream({ modelAlias: 'worker', prompt: 'hi' }));
+
+    expect(!result.success && result.error).toMatchObject({
+      kind: 'ModelError',
+      retryable: true,
+      errorCode: 'server_error',
+    });
+  });
+
+  it('should map HTTP errors, including plain-string error bodies', async () => {
+    standIn.respond = (res) => {
+      sendJson(res, 404, { error: "model 'qwen-coder' not found, try pulling it first" });
+    };
+
+    const result = await client.prompt('worker', 'hi');
+
+    expect(!result.success && result.error).toMatchObject({
+      kind: 'ModelError',
+      retryable: false,
+      errorCode: 'HTTP_404',
+      modelId: 'qwen-coder',
+    });
+    expect(!result.success && result.error.message).toContain('try pulling it first');
+  });
+
+  it('should map 429 to a RateLimitError', async () => {
+    standIn.respond = (res) => {
+      res.setHeader('retry-after', '2');
+      sendJson(res, 429, { error: { message: 'queue full', type: 'rate_limit_exceeded' } });
+    };
+
+    const result = await client.prompt('worker', 'hi');
+
+    expect(!result.success && result.error).toMatchObject({
+      kind: 'RateLimitError',
+      retryAfterMs: 2000,
+    });
+  });
+
+  it('should reject aliases that are not assigned an OpenAI-compatible model', async () => {
+    const result = await client.prompt('architect', 'hi');
+
+    expect(!result.success && result.error).toMatchObject({
+      kind: 'ValidationError',
+      invalidFields: ['modelAlias'],
+    });
+    expect(standIn.requests).toEqual([]);
+  });
+});
+
+describe('withOpenAICompatibleModels', () => {
+  function createMockRouter(): ModelRouter {
+    return { prompt: vi.fn(), complete: vi.fn(), stream: vi.fn() };
+  }
+
+  it('should return the router unchanged when no alias opts in', () => {
+    const router = createMockRouter();
+    expect(withOpenAICompatibleModels(router, { config: DEFAULT_CONFIG })).toBe(router);
+  });
+
+  it('should send only opted-in aliases to the OpenAI-compatible server', async () => {
+    const router = createMockRouter();
+    const standIn = await startChatStandIn();
+    try {
+      standIn.respond = (res) => {
+        sendJson(res, 200, { choices: [{ message: { content: 'local' } }] });
+      };
+      const routed = withOpenAICompatibleModels(router, {
+        config: createTestConfig({ worker_model: `openai-compat:${standIn.baseUrl}/qwen-coder` }),
+      });
+
+      const result = await routed.prompt('worker', 'hi');
+      await routed.complete({ modelAlias: 'architect', prompt: 'hi' });
+
+      expect(result.success && result.response.content).toBe('local');
+      // eslint-disable-next-line @typescript-eslint/unbound-method -- vi.fn() mocks are safe to use this way
+      expect(router.prompt).not.toHaveBeenCalled();
+      // eslint-disable-next-line @typescript-eslint/unbound-method -- vi.fn() mocks are safe to use this way
+      expect(router.complete).toHaveBeenCalledWith({ modelAlias: 'architect', prompt: 'hi' });
+    } finally {
+      await standIn.close();
+    }
+  });
+});
+
+describe('usesOnlyOpenAICompatibleModels', () => {
+  it('should be true only when every alias opts in', () => {
+    const local = 'openai-compat:http://localhost:8080/qwen-coder';
+    expect(usesOnlyOpenAICompatibleModels(DEFAULT_CONFIG.models)).toBe(false);
+    expect(
+      usesOnlyOpenAICompatibleModels({
+        architect_model: local,
+        auditor_model: local,
+        structurer_model: local,
+        worker_model: local,
+        fallback_model: local,
+      })
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,630 @@
+/**
+ * OpenAI-compatible chat completions client for the Criticality Protocol.
+ *
+ * Routes model aliases to self-hosted servers (llama.cpp, vLLM, Ollama)
+ * that expose `/v1/chat/completions`. An alias opts in through its model
+ * assignment, e.g. `worker_model = "openai-compat:http://localhost:8080/qwen-coder"`.
+ *
+ * @packageDocumentation
+ */
+
+import { TypedMap } from '../utils/typed-map.js';
+import type { Config, ModelAssignments } from '../config/types.js';
+import type {
+  ModelAlias,
+  ModelRouter,
+  ModelRouterError,
+  ModelRouterRequest,
+  ModelRouterResult,
+  ModelRouterResponse,
+  ModelUsage,
+  StreamChunk,
+} from './types.js';
+import {
+  MODEL_ALIASES,
+  createModelError,
+  createValidationError,
+  createSuccessResult,
+  createFailureResult,
+} from './types.js';
+import {
+  createFetchError,
+  createHttpStatusError,
+  parseRetryAfter,
+  parseServerSentEvents,
+} from './http.js';
+
+/**
+ * Prefix marking a model assignment as an OpenAI-compatible endpoint.
+ */
+export const OPENAI_COMPATIBLE_PREFIX = 'openai-compat:';
+
+/**
+ * An OpenAI-compatible model assignment, split into server and model.
+ */
+export interface OpenAICompatibleModel {
+  /** Server base URL, without the model segment. */
+  baseUrl: string;
+  /** Chat completions endpoint derived from the base URL. */
+  endpoint: string;
+  /** Model name sent in the request body. */
+  model: string;
+}
+
+/**
+ * Options for creating an OpenAICompatibleClient.
+ */
+export interface OpenAICompatibleClientOptions {
+  /** Configuration for model aliases. */
+  config: Config;
+  /** Bearer token for servers started with an API key. */
+  apiKey?: string;
+  /** Timeout in milliseconds for requests (default: 300000 = 5 minutes). */
+  timeoutMs?: number;
+}
+
+/**
+ * Error thrown when an `openai-compat:` model assignment is malformed.
+ */
+export class InvalidOpenAICompatibleModelError extends Error {
+  readonly code = 'INVALID_OPENAI_COMPATIBLE_MODEL';
+
+  constructor(spec: string, reason: string) {
+    super(`Invalid OpenAI-compatible model '${spec}': ${reason}`);
+    this.name = 'InvalidOpenAICompatibleModelError';
+  }
+}
+
+/**
+ * Token usage as reported by chat completions.
+ */
+interface ChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+/**
+ * Error bodies: OpenAI-style objects, or plain strings from Ollama.
+ */
+type ChatError = { message?: string; type?: string; code?: string | number | null } | string;
+
+/**
+ * A chat completion response or streamed chunk.
+ */
+interface ChatCompletion {
+  model?: string;
+  choices?: {
+    message?: { content?: string | null };
+    delta?: { content?: string | null };
+  }[];
+  usage?: ChatUsage | null;
+  error?: ChatError;
+}
+
+const MODEL_ALIAS_MAP = TypedMap.fromObject({
+  architect: 'architect_model',
+  auditor: 'auditor_model',
+  structurer: 'structurer_model',
+  worker: 'worker_model',
+  fallback: 'fallback_model',
+});
+
+/**
+ * Returns the model assigned to an alias.
+ *
+ * @param alias - The model alias.
+ * @param models - Model assignments.
+ * @returns The assigned model string.
+ */
+function getAssignedModel(alias: ModelAlias, models: ModelAssignments): string {
+  const configKey = MODEL_ALIAS_MAP.get(alias) ?? 'architect_model';
+  return models[configKey as keyof ModelAssignments];
+}
+
+/**
+ * Checks whether a model assignment targets an OpenAI-compatible endpoint.
+ *
+ * @param model - The model assignment.
+ * @returns True if the assignment starts with `openai-compat:`.
+ */
+export function isOpenAICompatibleModel(model: string): boolean {
+  return model.startsWith(OPENAI_COMPATIBLE_PREFIX);
+}
+
+/**
+ * Checks whether every alias is assigned an OpenAI-compatible model, in
+ * which case no other backend is needed.
+ *
+ * @param models - Model assignments.
+ * @returns True if all aliases use `openai-compat:` models.
+ */
+export function usesOnlyOpenAICompatibleModels(models: ModelAssignments): boolean {
+  return MODEL_ALIASES.every((alias) => isOpenAICompatibleModel(getAssignedModel(alias, models)));
+}
+
+/**
+ * Splits an `openai-compat:` assignment into server and model.
+ *
+ * The model is the last path segment of the URL (percent-encode slashes
+ * in model names); the rest is the server's base URL. A base URL already
+ * ending in `/v1` is not given a second one.
+ *
+ * @param spec - The model assignment.
+ * @returns The server and model.
+ * @throws InvalidOpenAICompatibleModelError if the assignment is malformed.
+ *
+ * @example
+ * ```typescript
+ * parseOpenAICompatibleModel('openai-compat:http://localhost:11434/v1/qwen2.5-coder:7b');
+ * // { baseUrl: 'http://localhost:11434/v1',
+ * //   endpoint: 'http://localhost:11434/v1/chat/completions',
+ * //   model: 'qwen2.5-coder:7b' }
+ * ```
+ */
+export function parseOpenAICompatibleModel(spec: string): OpenAICompatibleModel {
+  if (!isOpenAICompatibleModel(spec)) {
+    throw new InvalidOpenAICompatibleModelError(
+      spec,
+      `expected the '${OPENAI_COMPATIBLE_PREFIX}' prefix`
+    );
+  }
+
+  let url: URL;
+  try {
+    url = new URL(spec.slice(OPENAI_COMPATIBLE_PREFIX.length));
+  } catch {
+    throw new InvalidOpenAICompatibleModelError(spec, 'not a valid URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new InvalidOpenAICompatibleModelError(spec, 'the URL must use http or https');
+  }
+
+  const segments = url.pathname.split('/').filter((segment) => segment !== '');
+  const last = segments.pop();
+  if (last === undefined) {
+    throw new InvalidOpenAICompatibleModelError(spec, 'the URL must end with a model name');
+  }
+
+  const basePath = segments.length > 0 ? `/${segments.join('/')}` : '';
+  const baseUrl = `${url.origin}${basePath}`;
+  const endpoint = `${baseUrl}${basePath.endsWith('/v1') ? '' : '/v1'}/chat/completions`;
+  return { baseUrl, endpoint, model: decodeURIComponent(last) };
+}
+
+/**
+ * Converts chat completion usage to router usage.
+ *
+ * @param usage - Usage from the server, if it reported any.
+ * @returns Router usage.
+ */
+function toModelUsage(usage: ChatUsage | null | undefined): ModelUsage {
+  const promptTokens = usage?.prompt_tokens ?? 0;
+  const completionTokens = usage?.completion_tokens ?? 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage?.total_tokens ?? promptTokens + completionTokens,
+  };
+}
+
+/**
+ * Normalizes an error body to a message and optional code.
+ */
+function describeChatError(error: ChatError): { message: string; code?: string } {
+  if (typeof error === 'string') {
+    return { message: error };
+  }
+  // `code` is null for errors that only carry a type
+  const code = error.code ?? error.type;
+  return {
+    message: error.message ?? 'unknown error',
+    ...(code !== undefined ? { code: String(code) } : {}),
+  };
+}
+
+/**
+ * OpenAI-compatible chat completions client implementing the ModelRouter
+ * interface.
+ *
+ * Serves aliases whose model assignment starts with `openai-compat:`;
+ * requests for other aliases fail with a ValidationError. Use
+ * {@link withOpenAICompatibleModels} to combine it with another backend.
+ *
+ * @example
+ * ```typescript
+ * // criticality.toml: worker_model = "openai-compat:http://localhost:8080/qwen-coder"
+ * const client = new OpenAICompatibleClient({ config });
+ * const result = await client.prompt('worker', 'Implement add(a, b)');
+ * ```
+ */
+export class OpenAICompatibleClient implements ModelRouter {
+  private readonly config: Config;
+  private readonly apiKey: string | undefined;
+  private readonly timeoutMs: number;
+
+  /**
+   * Creates a new OpenAICompatibleClient.
+   *
+   * @param options - Client configuration options.
+   */
+  constructor(options: OpenAICompatibleClientOptions) {
+    this.config = options.config;
+    this.apiKey = options.apiKey;
+    this.timeoutMs = options.timeoutMs ?? 300000; // 5 minutes
+  }
+
+  /**
+   * Resolves the request's alias to its server and model.
+   *
+   * @param request - The model router request.
+   * @returns The target, or a ValidationError if the alias is not served here.
+   */
+  private resolveTarget(
+    request: ModelRouterRequest
+  ): { target: OpenAICompatibleModel } | { error: ModelRouterError } {
+    const spec = getAssignedModel(request.modelAlias, this.config.models);
+    try {
+      return { target: parseOpenAICompatibleModel(spec) };
+    } catch (error) {
+      const message =
+        error instanceof InvalidOpenAICompatibleModelError
+          ? error.message
+          : `Model alias '${request.modelAlias}' is not assigned an OpenAI-compatible model`;
+      return {
+        error: createValidationError(message, {
+          invalidFields: ['modelAlias'],
+          ...(error instanceof Error ? { cause: error } : {}),
+          request,
+        }),
+      };
+    }
+  }
+
+  /**
+   * Builds the chat completions request body.
+   *
+   * @param request - The model router request.
+   * @param model - The model name.
+   * @param stream - Whether to request a server-sent event stream.
+   * @returns The JSON body.
+   */
+  private buildBody(
+    request: ModelRouterRequest,
+    model: string,
+    stream: boolean
+  ): Record<string, unknown> {
+    const params = request.parameters;
+    const messages: { role: string; content: string }[] = [];
+    if (params?.systemPrompt !== undefined && params.systemPrompt !== '') {
+      messages.push({ role: 'system', content: params.systemPrompt });
+    }
+    messages.push({ role: 'user', content: request.prompt });
+
+    const body: Record<string, unknown> = { model, messages };
+    if (params?.maxTokens !== undefined) {
+      body.max_tokens = params.maxTokens;
+    }
+    if (params?.temperature !== undefined) {
+      body.temperature = params.temperature;
+    }
+    if (params?.topP !== undefined) {
+      body.top_p = params.topP;
+    }
+    if (params?.stopSequences !== undefined && params.stopSequences.length > 0) {
+      body.stop = params.stopSequences;
+    }
+    if (stream) {
+      body.stream = true;
+      // Ask for a final usage chunk; servers that do not know the option ignore it
+      body.stream_options = { include_usage: true };
+    }
+
+    return body;
+  }
+
+  /**
+   * Sends a request and returns the response once its headers arrive.
+   *
+   * @param request - The model router request.
+   * @param target - The server and model.
+   * @param stream - Whether to request a server-sent event stream.
+   * @param timeoutMs - Timeout for the whole exchange, including the body.
+   * @param signal - Additional signal that aborts the request.
+   * @returns The successful response, or the mapped error.
+   */
+  private async send(
+    request: ModelRouterRequest,
+    target: OpenAICompatibleModel,
+    stream: boolean,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<{ response: Response } | { error: ModelRouterError }> {
+    const signals = [AbortSignal.timeout(timeoutMs)];
+    if (request.signal !== undefined) {
+      signals.push(request.signal);
+    }
+    if (signal !== undefined) {
+      signals.push(signal);
+    }
+
+    try {
+      const response = await fetch(target.endpoint, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          ...(this.apiKey !== undefined ? { authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify(this.buildBody(request, target.model, stream)),
+        signal: AbortSignal.any(signals),
+      });
+
+      if (!response.ok) {
+        return { error: await this.toHttpError(response, request, target) };
+      }
+      return { response };
+    } catch (error) {
+      return { error: createFetchError(error, request, target.endpoint, timeoutMs) };
+    }
+  }
+
+  /**
+   * Maps a non-2xx response onto a router error.
+   *
+   * @param response - The failed response.
+   * @param request - The original request (for error context).
+   * @param target - The server and model.
+   * @returns The router error.
+   */
+  private async toHttpError(
+    response: Response,
+    request: ModelRouterRequest,
+    target: OpenAICompatibleModel
+  ): Promise<ModelRouterError> {
+    let detail: { message: string; code?: string } = {
+      message: response.statusText || 'no details',
+    };
+    try {
+      const body = (await response.json()) as ChatCompletion;
+      if (body.error !== undefined) {
+        detail = describeChatError(body.error);
+      }
+    } catch {
+      // Proxies may answer with non-JSON bodies
+    }
+
+    const status = response.status;
+    const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+    return createHttpStatusError(
+      status,
+      `${target.endpoint} returned ${String(status)}: ${detail.message}`,
+      {
+        provider: 'openai-compat',
+        request,
+        modelId: target.model,
+        timeoutMs: this.timeoutMs,
+        ...(detail.code !== undefined ? { errorCode: detail.code } : {}),
+        ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+      }
+    );
+  }
+
+  /**
+   * Builds a success result, carrying the request ID if one was given.
+   */
+  private succeed(
+    request: ModelRouterRequest,
+    response: ModelRouterResponse
+  ): Extract<ModelRouterResult, { success: true }> {
+    return createSuccessResult(
+      request.requestId !== undefined ? { ...response, requestId: request.requestId } : response
+    );
+  }
+
+  /**
+   * Send a simple prompt to a model.
+   *
+   * @param modelAlias - The model alias to route to.
+   * @param prompt - The prompt text.
+   * @param timeoutMs - Optional timeout in milliseconds for this request.
+   * @returns A result containing the response or an error.
+   */
+  async prompt(
+    modelAlias: ModelAlias,
+    prompt: string,
+    timeoutMs?: number
+  ): Promise<ModelRouterResult> {
+    return this.execute({ modelAlias, prompt }, timeoutMs ?? this.timeoutMs);
+  }
+
+  /**
+   * Send a complete request with parameters.
+   *
+   * @param request - The full request with model alias, prompt, and parameters.
+   * @returns A result containing the response or an error.
+   */
+  async complete(request: ModelRouterRequest): Promise<ModelRouterResult> {
+    return this.execute(request, this.timeoutMs);
+  }
+
+  /**
+   * Sends a non-streaming request and parses the response.
+   */
+  private async execute(
+    request: ModelRouterRequest,
+    timeoutMs: number
+  ): Promise<ModelRouterResult> {
+    const startTime = Date.now();
+    const resolved = this.resolveTarget(request);
+    if ('error' in resolved) {
+      return createFailureResult(resolved.error);
+    }
+    const { target } = resolved;
+
+    const sent = await this.send(request, target, false, timeoutMs);
+    if ('error' in sent) {
+      return createFailureResult(sent.error);
+    }
+
+    let body: ChatCompletion;
+    try {
+      body = (await sent.response.json()) as ChatCompletion;
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        return createFailureResult(
+          createModelError(`${target.endpoint} returned a malformed response`, true, {
+            errorCode: 'MALFORMED_RESPONSE',
+            modelId: target.model,
+            cause: error,
+            request,
+          })
+        );
+      }
+      return createFailureResult(createFetchError(error, request, target.endpoint, timeoutMs));
+    }
+
+    return this.succeed(request, {
+      content: body.choices?.[0]?.message?.content ?? '',
+      usage: toModelUsage(body.usage),
+      metadata: {
+        modelId: body.model ?? target.model,
+        provider: 'openai-compat',
+        latencyMs: Date.now() - startTime,
+      },
+    });
+  }
+
+  /**
+   * Stream a response from the model.
+   *
+   * Content deltas are yielded as they arrive. Ending iteration early, or
+   * aborting `request.signal`, cancels the underlying HTTP request. Usage
+   * is zero when the server does not report it for streams.
+   *
+   * @param request - The full request with model alias, prompt, and parameters.
+   * @yields StreamChunk objects as they arrive.
+   * @returns The final ModelRouterResult when streaming completes.
+   */
+  async *stream(
+    request: ModelRouterRequest
+  ): AsyncGenerator<StreamChunk, ModelRouterResult, unknown> {
+    const startTime = Date.now();
+    const resolved = this.resolveTarget(request);
+    if ('error' in resolved) {
+      return createFailureResult(resolved.error);
+    }
+    const { target } = resolved;
+    // Aborted when the consumer stops iterating, releasing the connection
+    const controller = new AbortController();
+
+    try {
+      const sent = await this.send(request, target, true, this.timeoutMs, controller.signal);
+      if ('error' in sent) {
+        return createFailureResult(sent.error);
+      }
+      const body = sent.response.body;
+      if (body === null) {
+        return createFailureResult(
+          createModelError(`${target.endpoint} returned an empty stream`, true, {
+            errorCode: 'EMPTY_STREAM',
+            modelId: target.model,
+            request,
+          })
+        );
+      }
+
+      let content = '';
+      let usage: ChatUsage | undefined;
+      let modelId = target.model;
+      let failure: ModelRouterError | undefined;
+
+      try {
+        for await (const sse of parseServerSentEvents(body)) {
+          if (sse.data === '[DONE]') {
+            break;
+          }
+          let chunk: ChatCompletion;
+          try {
+            chunk = JSON.parse(sse.data) as ChatCompletion;
+          } catch {
+            // Skip non-JSON data
+            continue;
+          }
+
+          if (chunk.error !== undefined) {
+            const detail = describeChatError(chunk.error);
+            failure = createModelError(`${target.endpoint} stream error: ${detail.message}`, true, {
+              errorCode: detail.code ?? 'stream_error',
+              modelId,
+              request,
+            });
+            break;
+          }
+
+          modelId = chunk.model ?? modelId;
+          if (chunk.usage !== undefined && chunk.usage !== null) {
+            usage = chunk.usage;
+          }
+          const text = chunk.choices?.[0]?.delta?.content ?? '';
+          if (text !== '') {
+            content += text;
+            yield { content: text, done: false };
+          }
+        }
+      } catch (error) {
+        failure = createFetchError(error, request, target.endpoint, this.timeoutMs);
+      }
+
+      const finalUsage = toModelUsage(usage);
+      yield { content: '', done: true, usage: finalUsage };
+
+      if (failure !== undefined) {
+        return createFailureResult(failure);
+      }
+
+      return this.succeed(request, {
+        content,
+        usage: finalUsage,
+        metadata: { modelId, provider: 'openai-compat', latencyMs: Date.now() - startTime },
+      });
+    } finally {
+      controller.abort();
+    }
+  }
+}
+
+/**
+ * Sends aliases assigned an `openai-compat:` model to an
+ * OpenAICompatibleClient and all others to `router`.
+ *
+ * @param router - Router for the remaining aliases.
+ * @param options - Options for the OpenAI-compatible client.
+ * @returns `router` unchanged if no alias uses an OpenAI-compatible model.
+ *
+ * @example
+ * ```typescript
+ * const router = withOpenAICompatibleModels(await createClaudeCodeClient({ config }), { config });
+ * ```
+ */
+export function withOpenAICompatibleModels(
+  router: ModelRouter,
+  options: OpenAICompatibleClientOptions
+): ModelRouter {
+  const models = options.config.models;
+  const served = new Set(
+    MODEL_ALIASES.filter((alias) => isOpenAICompatibleModel(getAssignedModel(alias, models)))
+  );
+  if (served.size === 0) {
+    return router;
+  }
+
+  const client = new OpenAICompatibleClient(options);
+  const pick = (alias: ModelAlias): ModelRouter => (served.has(alias) ? client : router);
+
+  return {
+    prompt: (modelAlias, prompt, timeoutMs) =>
+      pick(modelAlias).prompt(modelAlias, prompt, timeoutMs),
+    complete: (request) => pick(request.modelAlias).complete(request),
+    stream: (request) => pick(request.modelAlias).stream(request),
+  };
+}
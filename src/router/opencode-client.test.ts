@@ -61,6 +61,28 @@ function createTestConfig(): Config {
         min_test_coverage: 0.8,
       },
       catalog_path: './mass-defect-catalog',
+      differential: false,
+      differential_runs: 100,
+    },
+    injection: {
+      max_concurrency: 1,
+    },
+    model_cache: {
+      enabled: false,
+      directory: '.criticality/cache/models',
+      task_types: ['structure', 'audit'],
+    },
+    cost: {
+      budget_usd: 0,
+      prices: {},
+    },
+    router: {
+      backend: 'claude-code',
+      base_url: 'https://api.anthropic.com',
+      api_key_env: 'ANTHROPIC_API_KEY',
+      fixtures: 'off',
+      fixtures_dir: 'test-fixtures/model-runs',
+      fallback_backends: [],
     },
     cli: {
       colors: true,
@@ -0,0 +1,265 @@
+/**
+ * Tests for the record/replay model routers.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { safeReaddir, safeWriteFile } from '../utils/safe-fs.js';
+import {
+  ModelFixtureStore,
+  RecordingModelRouter,
+  ReplayModelRouter,
+  UnrecordedModelRequestError,
+  computeFixtureKey,
+  normalizePrompt,
+} from './record-replay.js';
+import type { ModelRouter, ModelRouterRequest, ModelRouterResult, StreamChunk } from './types.js';
+import { createFailureResult, createRateLimitError } from './types.js';
+
+function success(content: string): ModelRouterResult {
+  return {
+    success: true,
+    response: {
+      content,
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      metadata: { modelId: 'claude-sonnet-4-5', provider: 'anthropic', latencyMs: 1200 },
+    },
+  };
+}
+
+// Helper to create a ModelRouter that answers with a queue of results
+function createMockModelRouter(results: ModelRouterResult[]): ModelRouter {
+  const next = (): ModelRouterResult => results.shift() ?? success('unexpected');
+  return {
+    prompt: vi.fn().mockImplementation(() => Promise.resolve(next())),
+    complete: vi.fn().mockImplementation(() => Promise.resolve(next())),
+    // eslint-disable-next-line @typescript-eslint/require-await -- matches the ModelRouter signature
+    stream: vi.fn().mockImplementation(async function* (): AsyncGenerator<
+      StreamChunk,
+      ModelRouterResult
+    > {
+      const result = next();
+      if (result.success) {
+        yield { content: result.response.content, done: false };
+      }
+      return result;
+    }),
+  };
+}
+
+async function drain(
+  stream: AsyncGenerator<StreamChunk, ModelRouterResult>
+): Promise<{ chunks: StreamChunk[]; result: ModelRouterResult }> {
+  const chunks: StreamChunk[] = [];
+  for (;;) {
+    const next = await stream.next();
+    if (next.done === true) {
+      return { chunks, result: next.value };
+    }
+    chunks.push(next.value);
+  }
+}
+
+describe('normalizePrompt', () => {
+  it('should mask timestamps, UUIDs and temporary paths', () => {
+    const tmp = path.join(os.tmpdir(), 'ralph-abc123');
+    expect(
+      normalizePrompt(
+        `Run 0b7e6f0a-3c1d-4e5f-9a8b-7c6d5e4f3a2b at 2026-10-19T14:50:03.123Z in ${tmp}/src/a.ts`
+      )
+    ).toBe('Run <uuid> at <timestamp> in <tmpdir>/src/a.ts');
+  });
+
+  it('should apply custom normalizers', () => {
+    expect(
+      normalizePrompt('attempt 3 of 5', [{ pattern: /attempt \d+/g, replacement: 'attempt N' }])
+    ).toBe('attempt N of 5');
+  });
+});
+
+describe('computeFixtureKey', () => {
+  const request: ModelRouterRequest = {
+    modelAlias: 'structurer',
+    prompt: 'Generated at 2026-10-19T14:50:03Z: structure the spec',
+    parameters: { maxTokens: 1000 },
+  };
+
+  it('should ignore volatile fragments, request IDs and task types', () => {
+    expect(
+      computeFixtureKey({
+        ...request,
+        prompt: 'Generated at 2027-01-01T00:00:00Z: structure the spec',
+        requestId: 'req-9',
+        taskType: 'structure',
+      })
+    ).toBe(computeFixtureKey(request));
+  });
+
+  it('should cover the alias and parameters', () => {
+    expect(computeFixtureKey({ ...request, modelAlias: 'worker' })).not.toBe(
+      computeFixtureKey(request)
+    );
+    expect(computeFixtureKey({ ...request, parameters: { maxTokens: 2000 } })).not.toBe(
+      computeFixtureKey(request)
+    );
+  });
+});
+
+describe('record and replay', () => {
+  let fixturesDir: string;
+  let store: ModelFixtureStore;
+
+  beforeEach(async () => {
+    fixturesDir = await mkdtemp(path.join(os.tmpdir(), 'record-replay-test-'));
+    store = new ModelFixtureStore({ directory: path.join(fixturesDir, 'run') });
+  });
+
+  afterEach(async () => {
+    await rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('should replay recorded results in call order without a model', async () => {
+    const live = createMockModelRouter([
+      success('first'),
+      success('second'),
+      success('structured'),
+      createFailureResult(createRateLimitError('slow down', { retryAfterMs: 1000 })),
+    ]);
+    const recorder = new RecordingModelRouter({ router: live, store });
+
+    await recorder.prompt('worker', 'Implement add');
+    await recorder.prompt('worker', 'Implement add');
+    await recorder.complete({ modelAlias: 'structurer', prompt: 'Structure', requestId: 'r1' });
+    await recorder.complete({ modelAlias: 'auditor', prompt: 'Audit' });
+
+    expect((await safeReaddir(store.getDirectory())).sort()).toEqual(
+      [
+        expect.stringMatching(/^auditor-[0-9a-f]{16}\.json$/) as string,
+        expect.stringMatching(/^structurer-[0-9a-f]{16}\.json$/) as string,
+        expect.stringMatching(/^worker-[0-9a-f]{16}\.json$/) as string,
+      ].sort()
+    );
+
+    const replay = await ReplayModelRouter.load({ store });
+
+    expect(await replay.prompt('worker', 'Implement add')).toEqual(success('first'));
+    expect(await replay.complete({ modelAlias: 'worker', prompt: 'Implement add' })).toEqual(
+      success('second')
+    );
+    expect(
+      await replay.complete({ modelAlias: 'structurer', prompt: 'Structure', requestId: 'r2' })
+    ).toMatchObject({ success: true, response: { content: 'structured', requestId: 'r2' } });
+
+    const failed = await replay.complete({ modelAlias: 'auditor', prompt: 'Audit' });
+    expect(failed.success).toBe(false);
+    expect(!failed.success && failed.error).toMatchObject({
+      kind: 'RateLimitError',
+      message: 'slow down',
+      retryAfterMs: 1000,
+      request: { modelAlias: 'auditor', prompt: 'Audit' },
+    });
+    expect(replay.getUnplayed()).toEqual([]);
+  });
+
+  it('should record and replay streams', async () => {
+    const recorder = new RecordingModelRouter({
+      router: createMockModelRouter([success('streamed')]),
+      store,
+    });
+    await drain(recorder.stream({ modelAlias: 'architect', prompt: 'Interview' }));
+
+    const replay = await ReplayModelRouter.load({ store });
+    const { chunks, result } = await drain(
+      replay.stream({ modelAlias: 'architect', prompt: 'Interview' })
+    );
+
+    expect(chunks).toEqual([
+      { content: 'streamed', done: false },
+      {
+        content: '',
+        done: true,
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      },
+    ]);
+    expect(result).toEqual(success('streamed'));
+  });
+
+  it('should throw on requests that were never recorded', async () => {
+    const recorder = new RecordingModelRouter({
+      router: createMockModelRouter([success('ok')]),
+      store,
+    });
+    await recorder.prompt('worker', 'Implement add');
+    const replay = await ReplayModelRouter.load({ store });
+
+    await expect(replay.prompt('worker', 'Implement sub')).rejects.toThrow(
+      UnrecordedModelRequestError
+    );
+    await expect(drain(replay.stream({ modelAlias: 'auditor', prompt: 'x' }))).rejects.toThrow(
+      /was never recorded/
+    );
+    expect(replay.getUnplayed()).toEqual([
+      { key: expect.any(String) as string, modelAlias: 'worker', remaining: 1 },
+    ]);
+  });
+
+  it('should throw once the recorded results for a request are used up', async () => {
+    const recorder = new RecordingModelRouter({
+      router: createMockModelRouter([success('ok')]),
+      store,
+    });
+    await recorder.prompt('worker', 'Implement add');
+    const replay = await ReplayModelRouter.load({ store });
+
+    await replay.prompt('worker', 'Implement add');
+    const error = await replay.prompt('worker', 'Implement add').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UnrecordedModelRequestError);
+    expect((error as UnrecordedModelRequestError).code).toBe('UNRECORDED_MODEL_REQUEST');
+    expect((error as Error).message).toContain('all 1 recorded results were already served');
+  });
+
+  it('should match prompts whose volatile fragments changed since recording', async () => {
+    const recorder = new RecordingModelRouter({
+      router: createMockModelRouter([success('ok')]),
+      store,
+    });
+    await recorder.prompt('architect', 'Session 2026-10-19T10:00:00Z');
+    const replay = await ReplayModelRouter.load({ store });
+
+    expect(await replay.prompt('architect', 'Session 2026-12-01T08:30:00Z')).toEqual(success('ok'));
+  });
+
+  it('should start a fresh recording over existing fixtures', async () => {
+    await new RecordingModelRouter({
+      router: createMockModelRouter([success('old')]),
+      store,
+    }).prompt('worker', 'Implement add');
+    await new RecordingModelRouter({
+      router: createMockModelRouter([success('new')]),
+      store,
+    }).prompt('worker', 'Implement add');
+
+    const replay = await ReplayModelRouter.load({ store });
+    expect(await replay.prompt('worker', 'Implement add')).toEqual(success('new'));
+    expect(replay.getUnplayed()).toEqual([]);
+  });
+
+  it('should reject fixtures with an outdated format', async () => {
+    await safeWriteFile(
+      path.join(fixturesDir, 'worker-0000000000000000.json'),
+      JSON.stringify({ version: 0 })
+    );
+
+    await expect(
+      ReplayModelRouter.load({ store: new ModelFixtureStore({ directory: fixturesDir }) })
+    ).rejects.toThrow('expected format version 1');
+  });
+
+  it('should replay nothing from a missing directory', async () => {
+    const replay = await ReplayModelRouter.load({ store });
+    expect(replay.getUnplayed()).toEqual([]);
+  });
+});
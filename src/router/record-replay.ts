@@ -0,0 +1,604 @@
+/**
+ * Record/replay model routers for deterministic protocol runs.
+ *
+ * RecordingModelRouter wraps a live router and writes every request and
+ * its result to a fixture directory. ReplayModelRouter serves those
+ * results back without a model and throws on any request that was not
+ * recorded, so a golden run checked into `test-fixtures/` fails loudly
+ * when the protocol starts asking different questions.
+ *
+ * Fixtures are keyed by a hash of the model alias, the normalized prompt,
+ * and the model parameters. Normalization masks volatile prompt fragments
+ * (timestamps, UUIDs, temporary directories) so they do not break matching.
+ *
+ * @packageDocumentation
+ */
+
+import { createHash } from 'node:crypto';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type {
+  ModelAlias,
+  ModelMetadata,
+  ModelRouter,
+  ModelRouterError,
+  ModelRouterRequest,
+  ModelRouterResult,
+  ModelUsage,
+  StreamChunk,
+} from './types.js';
+import { computePromptHash } from './logging.js';
+import {
+  safeExists,
+  safeMkdir,
+  safeReadFile,
+  safeReaddir,
+  safeRename,
+  safeWriteFile,
+} from '../utils/safe-fs.js';
+
+/**
+ * Version of the on-disk fixture format. Bumping it invalidates every fixture.
+ */
+export const MODEL_FIXTURE_FORMAT_VERSION = 1;
+
+/**
+ * Replaces a volatile prompt fragment before hashing.
+ */
+export interface PromptNormalizer {
+  /** Pattern matching the fragment; must have the global flag. */
+  readonly pattern: RegExp;
+  /** Stable placeholder substituted for every match. */
+  readonly replacement: string;
+}
+
+/**
+ * Escapes a string for use inside a regular expression.
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Normalizers applied when none are given: ISO 8601 timestamps, UUIDs,
+ * and paths under the OS temporary directory.
+ */
+export const DEFAULT_PROMPT_NORMALIZERS: readonly PromptNormalizer[] = [
+  {
+    // eslint-disable-next-line security/detect-unsafe-regex -- Optional groups are anchored by fixed separators; no nested quantifiers
+    pattern: /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})?/g,
+    replacement: '<timestamp>',
+  },
+  {
+    pattern: /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi,
+    replacement: '<uuid>',
+  },
+  {
+    pattern: new RegExp(`${escapeRegExp(os.tmpdir())}[\\\\/][^\\s\\\\/'"\`]+`, 'g'),
+    replacement: '<tmpdir>',
+  },
+];
+
+/**
+ * A model error as stored in a fixture, without the request and cause.
+ */
+export type RecordedModelError = {
+  readonly [K in ModelRouterError['kind']]: Omit<
+    Extract<ModelRouterError, { kind: K }>,
+    'request' | 'cause'
+  >;
+}[ModelRouterError['kind']];
+
+/**
+ * A recorded result: a response or an error.
+ */
+export type RecordedModelResult =
+  | {
+      readonly success: true;
+      readonly content: string;
+      readonly usage: ModelUsage;
+      readonly metadata: ModelMetadata;
+    }
+  | { readonly success: false; readonly error: RecordedModelError };
+
+/**
+ * All recorded results for one fixture key, in call order.
+ */
+export interface ModelFixtureEntry {
+  /** Fixture format version. */
+  readonly version: number;
+  /** Fixture key (full SHA-256 hex digest). */
+  readonly key: string;
+  /** Model alias the request was routed to. */
+  readonly modelAlias: ModelAlias;
+  /** Hash of the normalized prompt, in the format used by model logs. */
+  readonly promptHash: string;
+  /** The normalized prompt, kept so fixture diffs are reviewable. */
+  readonly prompt: string;
+  /** Results in the order the requests were made. */
+  readonly results: readonly RecordedModelResult[];
+}
+
+/**
+ * Error thrown when a replayed request has no recorded result.
+ */
+export class UnrecordedModelRequestError extends Error {
+  readonly code = 'UNRECORDED_MODEL_REQUEST';
+
+  /**
+   * Creates a new UnrecordedModelRequestError.
+   *
+   * @param request - The unmatched request.
+   * @param key - Its fixture key.
+   * @param detail - Why it did not match.
+   */
+  constructor(
+    public readonly request: ModelRouterRequest,
+    public readonly key: string,
+    detail: string
+  ) {
+    super(
+      `No recorded model result for ${request.modelAlias} request ${key.slice(0, 16)}: ${detail}. ` +
+        'Re-record the fixtures if the protocol prompts changed.'
+    );
+    this.name = 'UnrecordedModelRequestError';
+  }
+}
+
+/**
+ * Applies normalizers to a prompt.
+ *
+ * @param prompt - The prompt text.
+ * @param normalizers - Normalizers to apply in order.
+ * @returns The normalized prompt.
+ */
+export function normalizePrompt(
+  prompt: string,
+  normalizers: readonly PromptNormalizer[] = DEFAULT_PROMPT_NORMALIZERS
+): string {
+  return normalizers.reduce(
+    (normalized, { pattern, replacement }) => normalized.replace(pattern, replacement),
+    prompt
+  );
+}
+
+/**
+ * Computes the fixture key for a request.
+ *
+ * Covers the model alias, normalized prompt and system prompt, and every
+ * model parameter. Request IDs, task types, and signals are excluded.
+ *
+ * @param request - The model router request.
+ * @param normalizers - Normalizers applied to the prompts.
+ * @returns Full SHA-256 hex digest.
+ */
+export function computeFixtureKey(
+  request: ModelRouterRequest,
+  normalizers: readonly PromptNormalizer[] = DEFAULT_PROMPT_NORMALIZERS
+): string {
+  const params = request.parameters;
+  // Fixed field order keeps the serialization stable
+  const canonical = {
+    version: MODEL_FIXTURE_FORMAT_VERSION,
+    modelAlias: request.modelAlias,
+    prompt: normalizePrompt(request.prompt, normalizers),
+    parameters: {
+      maxTokens: params?.maxTokens ?? null,
+      temperature: params?.temperature ?? null,
+      topP: params?.topP ?? null,
+      stopSequences: params?.stopSequences ?? null,
+      systemPrompt:
+        params?.systemPrompt !== undefined
+          ? normalizePrompt(params.systemPrompt, normalizers)
+          : null,
+    },
+  };
+
+  return createHash('sha256').update(JSON.stringify(canonical), 'utf8').digest('hex');
+}
+
+/**
+ * Type guard for fixtures read back from disk.
+ *
+ * @param value - Parsed JSON value.
+ * @returns True if the value is a current-format fixture entry.
+ */
+function isModelFixtureEntry(value: unknown): value is ModelFixtureEntry {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const entry = value as Record<string, unknown>;
+  return (
+    entry.version === MODEL_FIXTURE_FORMAT_VERSION &&
+    typeof entry.key === 'string' &&
+    typeof entry.modelAlias === 'string' &&
+    typeof entry.promptHash === 'string' &&
+    typeof entry.prompt === 'string' &&
+    Array.isArray(entry.results)
+  );
+}
+
+/**
+ * Converts a result to its recorded form.
+ *
+ * @param result - The live result.
+ * @returns The result without request, cause, request ID, or cache flags.
+ */
+function toRecordedResult(result: ModelRouterResult): RecordedModelResult {
+  if (result.success) {
+    const { usage, metadata, content } = result.response;
+    return {
+      success: true,
+      content,
+      usage: {
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        totalTokens: usage.totalTokens,
+      },
+      metadata,
+    };
+  }
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars -- request and cause are not serializable
+  const { request, cause, ...error } = result.error;
+  return { success: false, error };
+}
+
+/**
+ * Options for creating a ModelFixtureStore.
+ */
+export interface ModelFixtureStoreOptions {
+  /** Directory where fixtures are stored. */
+  directory: string;
+}
+
+/**
+ * Directory of fixture files, one per key, named
+ * `<model alias>-<first 16 key chars>.json` so reviewers can tell them apart.
+ */
+export class ModelFixtureStore {
+  private readonly directory: string;
+
+  /**
+   * Creates a new ModelFixtureStore.
+   *
+   * @param options - Store options.
+   */
+  constructor(options: ModelFixtureStoreOptions) {
+    this.directory = path.resolve(options.directory);
+  }
+
+  /**
+   * Gets the absolute fixture directory.
+   *
+   * @returns The fixture directory.
+   */
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Reads every fixture in the directory.
+   *
+   * @returns Fixtures by key.
+   * @throws Error if a fixture file is malformed or has an outdated format.
+   */
+  async load(): Promise<Map<string, ModelFixtureEntry>> {
+    const entries = new Map<string, ModelFixtureEntry>();
+    if (!(await safeExists(this.directory))) {
+      return entries;
+    }
+
+    for (const name of (await safeReaddir(this.directory)).sort()) {
+      if (!name.endsWith('.json')) {
+        continue;
+      }
+      const file = path.join(this.directory, name);
+      const parsed: unknown = JSON.parse(await safeReadFile(file, 'utf-8'));
+      if (!isModelFixtureEntry(parsed)) {
+        throw new Error(
+          `Invalid model fixture ${file}: expected format version ${String(MODEL_FIXTURE_FORMAT_VERSION)}`
+        );
+      }
+      entries.set(parsed.key, parsed);
+    }
+    return entries;
+  }
+
+  /**
+   * Writes a fixture, replacing any previous file for its key.
+   *
+   * @param entry - The fixture to write.
+   */
+  async write(entry: ModelFixtureEntry): Promise<void> {
+    const file = path.join(this.directory, `${entry.modelAlias}-${entry.key.slice(0, 16)}.json`);
+    const tempPath = `${file}.${String(process.pid)}.${String(Date.now())}.tmp`;
+    await safeMkdir(this.directory, { recursive: true });
+    await safeWriteFile(tempPath, `${JSON.stringify(entry, null, 2)}\n`, 'utf-8');
+    await safeRename(tempPath, file);
+  }
+}
+
+/**
+ * Options for creating a RecordingModelRouter.
+ */
+export interface RecordingModelRouterOptions {
+  /** The router that serves requests. */
+  router: ModelRouter;
+  /** Where fixtures are written. */
+  store: ModelFixtureStore;
+  /** Prompt normalizers (default: DEFAULT_PROMPT_NORMALIZERS). */
+  normalizers?: readonly PromptNormalizer[];
+}
+
+/**
+ * ModelRouter decorator that records every result to a fixture store.
+ *
+ * Each recording session starts from scratch: the first result recorded
+ * for a key replaces any fixture already on disk for it.
+ *
+ * @example
+ * ```typescript
+ * const router = new RecordingModelRouter({
+ *   router: await createClaudeCodeClient({ config }),
+ *   store: new ModelFixtureStore({ directory: 'test-fixtures/model-runs/ignition' }),
+ * });
+ * ```
+ */
+export class RecordingModelRouter implements ModelRouter {
+  private readonly router: ModelRouter;
+  private readonly store: ModelFixtureStore;
+  private readonly normalizers: readonly PromptNormalizer[];
+  private readonly entries = new Map<string, ModelFixtureEntry>();
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new RecordingModelRouter.
+   *
+   * @param options - Router options.
+   */
+  constructor(options: RecordingModelRouterOptions) {
+    this.router = options.router;
+    this.store = options.store;
+    this.normalizers = options.normalizers ?? DEFAULT_PROMPT_NORMALIZERS;
+  }
+
+  /**
+   * Send a simple prompt to a model and record the result.
+   *
+   * @param modelAlias - The model alias to route to.
+   * @param prompt - The prompt text.
+   * @param timeoutMs - Optional timeout in milliseconds for this request.
+   * @returns A result containing the response or an error.
+   */
+  async prompt(
+    modelAlias: ModelAlias,
+    prompt: string,
+    timeoutMs?: number
+  ): Promise<ModelRouterResult> {
+    const result = await this.router.prompt(modelAlias, prompt, timeoutMs);
+    await this.record({ modelAlias, prompt }, result);
+    return result;
+  }
+
+  /**
+   * Send a complete request and record the result.
+   *
+   * @param request - The full request with model alias, prompt, and parameters.
+   * @returns A result containing the response or an error.
+   */
+  async complete(request: ModelRouterRequest): Promise<ModelRouterResult> {
+    const result = await this.router.complete(request);
+    await this.record(request, result);
+    return result;
+  }
+
+  /**
+   * Stream a response and record the final result.
+   *
+   * @param request - The full request with model alias, prompt, and parameters.
+   * @yields StreamChunk objects as they arrive.
+   * @returns The final ModelRouterResult when streaming completes.
+   */
+  async *stream(
+    request: ModelRouterRequest
+  ): AsyncGenerator<StreamChunk, ModelRouterResult, unknown> {
+    const result = yield* this.router.stream(request);
+    await this.record(request, result);
+    return result;
+  }
+
+  /**
+   * Appends a result to its fixture and rewrites the fixture file.
+   *
+   * Writes are serialized so concurrent requests sharing a key keep
+   * their call order.
+   *
+   * @param request - The request.
+   * @param result - Its result.
+   */
+  private async record(request: ModelRouterRequest, result: ModelRouterResult): Promise<void> {
+    const key = computeFixtureKey(request, this.normalizers);
+    const prompt = normalizePrompt(request.prompt, this.normalizers);
+    const previous = this.entries.get(key);
+    const entry: ModelFixtureEntry = {
+      version: MODEL_FIXTURE_FORMAT_VERSION,
+      key,
+      modelAlias: request.modelAlias,
+      promptHash: computePromptHash(prompt),
+      prompt,
+      results: [...(previous?.results ?? []), toRecordedResult(result)],
+    };
+    this.entries.set(key, entry);
+
+    const write = this.writes.then(() => this.store.write(entry));
+    this.writes = write.catch(() => undefined);
+    await write;
+  }
+}
+
+/**
+ * Options for creating a ReplayModelRouter.
+ */
+export interface ReplayModelRouterOptions {
+  /** Where fixtures are read from. */
+  store: ModelFixtureStore;
+  /** Prompt normalizers; must match the ones used when recording. */
+  normalizers?: readonly PromptNormalizer[];
+}
+
+/**
+ * ModelRouter that serves recorded results and never calls a model.
+ *
+ * Results for a key are served in recorded order. A request whose key was
+ * never recorded, or whose recorded results are used up, throws
+ * UnrecordedModelRequestError rather than returning a failure result, so
+ * retry loops cannot swallow it.
+ *
+ * @example
+ * ```typescript
+ * const router = await ReplayModelRouter.load({
+ *   store: new ModelFixtureStore({ directory: 'test-fixtures/model-runs/ignition' }),
+ * });
+ * // ... run the protocol ...
+ * expect(router.getUnplayed()).toEqual([]);
+ * ```
+ */
+export class ReplayModelRouter implements ModelRouter {
+  private readonly entries: ReadonlyMap<string, ModelFixtureEntry>;
+  private readonly normalizers: readonly PromptNormalizer[];
+  private readonly played = new Map<string, number>();
+
+  /**
+   * Creates a new ReplayModelRouter over loaded fixtures.
+   *
+   * @param entries - Fixtures by key.
+   * @param normalizers - Prompt normalizers used when recording.
+   */
+  constructor(
+    entries: ReadonlyMap<string, ModelFixtureEntry>,
+    normalizers: readonly PromptNormalizer[] = DEFAULT_PROMPT_NORMALIZERS
+  ) {
+    this.entries = entries;
+    this.normalizers = normalizers;
+  }
+
+  /**
+   * Loads fixtures from a store.
+   *
+   * @param options - Router options.
+   * @returns A router serving the store's fixtures.
+   */
+  static async load(options: ReplayModelRouterOptions): Promise<ReplayModelRouter> {
+    return new ReplayModelRouter(await options.store.load(), options.normalizers);
+  }
+
+  /**
+   * Lists fixtures with results that were never served, to detect runs
+   * that ended earlier than the recording.
+   *
+   * @returns Fixture keys with the number of unserved results.
+   */
+  getUnplayed(): { key: string; modelAlias: ModelAlias; remaining: number }[] {
+    const unplayed: { key: string; modelAlias: ModelAlias; remaining: number }[] = [];
+    for (const [key, entry] of this.entries) {
+      const remaining = entry.results.length - (this.played.get(key) ?? 0);
+      if (remaining > 0) {
+        unplayed.push({ key, modelAlias: entry.modelAlias, remaining });
+      }
+    }
+    return unplayed;
+  }
+
+  /**
+   * Replay the recorded result for a simple prompt.
+   *
+   * @param modelAlias - The model alias to route to.
+   * @param prompt - The prompt text.
+   * @returns The recorded result.
+   * @throws UnrecordedModelRequestError if the request was not recorded.
+   */
+  prompt(modelAlias: ModelAlias, prompt: string): Promise<ModelRouterResult> {
+    return this.complete({ modelAlias, prompt });
+  }
+
+  /**
+   * Replay the recorded result for a request.
+   *
+   * @param request - The full request with model alias, prompt, and parameters.
+   * @returns The recorded result.
+   * @throws UnrecordedModelRequestError if the request was not recorded.
+   */
+  complete(request: ModelRouterRequest): Promise<ModelRouterResult> {
+    try {
+      return Promise.resolve(this.next(request));
+    } catch (error) {
+      return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Replay the recorded result as a stream of one content chunk.
+   *
+   * @param request - The full request with model alias, prompt, and parameters.
+   * @yields The recorded content, then a final usage chunk.
+   * @returns The recorded result.
+   * @throws UnrecordedModelRequestError if the request was not recorded.
+   */
+  // eslint-disable-next-line @typescript-eslint/require-await -- async generator required by the ModelRouter interface
+  async *stream(
+    request: ModelRouterRequest
+  ): AsyncGenerator<StreamChunk, ModelRouterResult, unknown> {
+    const result = this.next(request);
+    if (result.success) {
+      if (result.response.content !== '') {
+        yield { content: result.response.content, done: false };
+      }
+      yield { content: '', done: true, usage: result.response.usage };
+    }
+    return result;
+  }
+
+  /**
+   * Takes the next recorded result for a request.
+   *
+   * @param request - The request.
+   * @returns The result, rebuilt for this request.
+   * @throws UnrecordedModelRequestError if none is left.
+   */
+  private next(request: ModelRouterRequest): ModelRouterResult {
+    const key = computeFixtureKey(request, this.normalizers);
+    const entry = this.entries.get(key);
+    if (entry === undefined) {
+      throw new UnrecordedModelRequestError(
+        request,
+        key,
+        `prompt ${computePromptHash(normalizePrompt(request.prompt, this.normalizers))} was never recorded`
+      );
+    }
+
+    const index = this.played.get(key) ?? 0;
+    const recorded = entry.results[index];
+    if (recorded === undefined) {
+      throw new UnrecordedModelRequestError(
+        request,
+        key,
+        `all ${String(entry.results.length)} recorded results were already served`
+      );
+    }
+    this.played.set(key, index + 1);
+
+    if (!recorded.success) {
+      return { success: false, error: { ...recorded.error, request } as ModelRouterError };
+    }
+    const response = {
+      content: recorded.content,
+      usage: recorded.usage,
+      metadata: recorded.metadata,
+    };
+    return {
+      success: true,
+      response:
+        request.requestId !== undefined ? { ...response, requestId: request.requestId } : response,
+    };
+  }
+}
@@ -7,6 +7,8 @@
  * @packageDocumentation
  */
 
+import type { TaskType } from './routing.js';
+
 /**
  * Model alias used for routing requests.
  * These correspond to the role-based model assignments in configuration.
@@ -41,6 +43,12 @@ export interface ModelRouterRequest {
   parameters?: ModelParameters;
   /** Optional request ID for tracking/correlation. */
   requestId?: string;
+  /** Kind of work the request performs; used to decide whether responses may be cached. */
+  taskType?: TaskType;
+  /** Function the request works on, for cost attribution. */
+  functionId?: string;
+  /** Cancels the request; honored by clients that can abort in flight. */
+  signal?: AbortSignal;
 }
 
 /**
@@ -53,6 +61,8 @@ export interface ModelUsage {
   completionTokens: number;
   /** Total tokens used. */
   totalTokens: number;
+  /** True when the response was replayed from the cache and no tokens were billed. */
+  cacheHit?: boolean;
 }
 
 /**
@@ -65,6 +75,8 @@ export interface ModelMetadata {
   provider: string;
   /** Latency in milliseconds. */
   latencyMs: number;
+  /** Name of the backend that served the request, when chosen from a fallback chain. */
+  backend?: string;
 }
 
 /**
@@ -0,0 +1,221 @@
+/**
+ * Swarm access control for Criticality MCP servers.
+ *
+ * Each MCP session is bound to an agent identity, either pinned when the
+ * server is started (`--agent <role>`) or declared by the client in its
+ * `initialize` capabilities. Every tool call is checked against that
+ * agent's policy in the swarm registry; denied calls are answered with a
+ * structured {@link UnauthorizedMCPAccessError} and written to an audit log.
+ *
+ * @packageDocumentation
+ */
+
+import path from 'node:path';
+import type { CallToolResult, ClientCapabilities } from '@modelcontextprotocol/sdk/types.js';
+import { AGENT_ROLES, type AgentRole } from '../agents/types.js';
+import {
+  UnauthorizedMCPAccessError,
+  type MCPServerName,
+  type MCPToolCall,
+} from '../agents/swarm/types.js';
+import { swarmRegistry, type SwarmRegistry } from '../agents/swarm/registry.js';
+import type { ServerLogger } from './logging.js';
+import { safeAppendFile, safeMkdir } from '../utils/safe-fs.js';
+
+/**
+ * Key under `capabilities.experimental` where clients declare their agent
+ * identity during `initialize`, e.g. `{ 'criticality/agent': { role: 'Worker' } }`.
+ */
+export const AGENT_IDENTITY_CAPABILITY = 'criticality/agent';
+
+/**
+ * Audit log location relative to the project root.
+ */
+export const DEFAULT_AUDIT_LOG_PATH = path.join('.criticality', 'mcp-audit.jsonl');
+
+/**
+ * Access control options shared by the MCP server configurations.
+ */
+export interface MCPAccessConfig {
+  /**
+   * Agent identity for every session of this server. When unset, each
+   * client must declare its identity in its `initialize` capabilities.
+   */
+  agent?: AgentRole;
+  /** Registry holding the agent policies (default: the global swarm registry). */
+  registry?: SwarmRegistry;
+  /** Audit log file for denied calls (default: .criticality/mcp-audit.jsonl under the project root). */
+  auditLogPath?: string;
+}
+
+/**
+ * An audit log entry for a denied tool call.
+ */
+export interface MCPAuditEntry {
+  /** ISO 8601 timestamp of the call. */
+  readonly timestamp: string;
+  /** Always 'denied'; allowed calls are not audited. */
+  readonly decision: 'denied';
+  /** The agent that made the call, or null if it did not identify itself. */
+  readonly agent: AgentRole | null;
+  /** The server that was called. */
+  readonly server: MCPServerName;
+  /** The tool that was called. */
+  readonly tool: string;
+  /** Project-relative paths the call would have touched. */
+  readonly paths: readonly string[];
+  /** Why the call was denied. */
+  readonly reason: string;
+}
+
+/**
+ * Options for {@link createMCPAccessGuard}.
+ */
+export interface MCPAccessGuardOptions extends MCPAccessConfig {
+  /** The server being protected. */
+  server: MCPServerName;
+  /** Project root; tool call paths are made relative to it. */
+  projectRoot: string;
+  /** Logger for denial events. */
+  logger: ServerLogger;
+  /** Function to get current timestamp (injectable for testing). */
+  now?: () => Date;
+}
+
+/**
+ * Checks tool calls against the swarm registry.
+ */
+export interface MCPAccessGuard {
+  /**
+   * Authorizes a tool call for the session's agent.
+   *
+   * @param clientCapabilities - Capabilities the client sent in `initialize`.
+   * @param call - The tool call; paths may be absolute or relative to the project root.
+   * @returns The denial, or undefined if the call is allowed.
+   */
+  authorize(
+    clientCapabilities: ClientCapabilities | undefined,
+    call: MCPToolCall
+  ): Promise<UnauthorizedMCPAccessError | undefined>;
+}
+
+/**
+ * Reads the agent identity a client declared in its capabilities.
+ *
+ * @param capabilities - Capabilities the client sent in `initialize`.
+ * @returns The declared role string, or undefined if none was declared.
+ */
+export function getDeclaredAgent(capabilities: ClientCapabilities | undefined): string | undefined {
+  const identity: unknown = capabilities?.experimental?.[AGENT_IDENTITY_CAPABILITY];
+  if (typeof identity !== 'object' || identity === null) {
+    return undefined;
+  }
+  const role: unknown = (identity as Record<string, unknown>).role;
+  return typeof role === 'string' ? role : undefined;
+}
+
+/**
+ * Creates the access guard for an MCP server.
+ *
+ * @param options - Guard options.
+ * @returns The access guard.
+ */
+export function createMCPAccessGuard(options: MCPAccessGuardOptions): MCPAccessGuard {
+  const { server, projectRoot, logger, agent: pinnedAgent, registry = swarmRegistry } = options;
+  const now = options.now ?? ((): Date => new Date());
+  const auditLogPath = path.resolve(projectRoot, options.auditLogPath ?? DEFAULT_AUDIT_LOG_PATH);
+
+  function resolveAgent(
+    capabilities: ClientCapabilities | undefined,
+    tool: string
+  ): AgentRole | UnauthorizedMCPAccessError {
+    const declared = getDeclaredAgent(capabilities);
+    if (pinnedAgent !== undefined) {
+      if (declared !== undefined && declared !== pinnedAgent) {
+        return new UnauthorizedMCPAccessError(pinnedAgent, server, {
+          tool,
+          reason: `Client identified as agent '${declared}' but this server only serves agent '${pinnedAgent}'`,
+        });
+      }
+      return pinnedAgent;
+    }
+    if (declared === undefined) {
+      return new UnauthorizedMCPAccessError(undefined, server, {
+        tool,
+        reason: `MCP server '${server}' requires an agent identity; none was provided at session start`,
+      });
+    }
+    if (!AGENT_ROLES.includes(declared as AgentRole)) {
+      return new UnauthorizedMCPAccessError(undefined, server, {
+        tool,
+        reason: `Unknown agent role: ${declared}`,
+      });
+    }
+    return declared as AgentRole;
+  }
+
+  async function audit(error: UnauthorizedMCPAccessError, call: MCPToolCall): Promise<void> {
+    const entry: MCPAuditEntry = {
+      timestamp: now().toISOString(),
+      decision: 'denied',
+      agent: error.agent ?? null,
+      server,
+      tool: call.tool,
+      paths: call.paths,
+      reason: error.reason,
+    };
+    logger.warn('access_denied', { ...entry });
+    try {
+      await safeMkdir(path.dirname(auditLogPath), { recursive: true });
+      await safeAppendFile(auditLogPath, JSON.stringify(entry) + '\n', 'utf-8');
+    } catch (err) {
+      logger.error('audit_log_failed', {
+        path: auditLogPath,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return {
+    async authorize(capabilities, rawCall) {
+      const call: MCPToolCall = {
+        ...rawCall,
+        paths: rawCall.paths.map((p) =>
+          path.isAbsolute(p) ? path.relative(projectRoot, p) || '.' : p
+        ),
+      };
+
+      const agent = resolveAgent(capabilities, call.tool);
+      let denial: UnauthorizedMCPAccessError | undefined;
+      if (agent instanceof UnauthorizedMCPAccessError) {
+        denial = agent;
+      } else {
+        const result = registry.validateMCPToolCall(agent, server, call);
+        if (!result.allowed) {
+          denial = new UnauthorizedMCPAccessError(agent, server, {
+            tool: call.tool,
+            ...(result.reason !== undefined ? { reason: result.reason } : {}),
+          });
+        }
+      }
+
+      if (denial !== undefined) {
+        await audit(denial, call);
+      }
+      return denial;
+    },
+  };
+}
+
+/**
+ * Builds the tool result returned for a denied call.
+ *
+ * @param error - The denial.
+ * @returns An error result carrying the structured denial.
+ */
+export function createAccessDeniedResult(error: UnauthorizedMCPAccessError): CallToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(error) }],
+    isError: true,
+  };
+}
@@ -3,10 +3,10 @@
  * CLI entry point for the criticality-artifact-server.
  *
  * Usage:
- *   npx tsx src/servers/artifact/cli.ts [--project-root <path>] [--debug]
+ *   npx tsx src/servers/artifact/cli.ts [--project-root <path>] [--agent <role>] [--debug]
  *
  * Or when compiled:
- *   node dist/servers/artifact/cli.js [--project-root <path>] [--debug]
+ *   node dist/servers/artifact/cli.js [--project-root <path>] [--agent <role>] [--debug]
  *
  * @packageDocumentation
  */
@@ -14,6 +14,7 @@
 import path from 'node:path';
 import { startArtifactServer } from './server.js';
 import { createServerLogger } from '../logging.js';
+import { AGENT_ROLES, type AgentRole } from '../../agents/types.js';
 
 const HELP_TEXT = `
 criticality-artifact-server - MCP Server for protocol artifacts
@@ -23,12 +24,17 @@ Usage:
 
 Options:
   --project-root, -p <path>  Root directory for protocol artifacts (default: cwd)
+  --agent, -a <role>         Swarm agent this server serves (Architect, Auditor, ...).
+                             Without it, clients must declare their agent in
+                             the 'criticality/agent' experimental capability.
   --debug, -d                Enable debug logging
   --help, -h                 Show this help message
 
 This server provides read/write access ONLY to official protocol artifacts
 (spec.toml, DECISIONS.toml). It prevents context hallucination by ensuring
-agents only see committed truth.
+agents only see committed truth. Every tool call is checked against the
+agent's access policy in the swarm registry; denied calls are recorded in
+.criticality/mcp-audit.jsonl.
 
 Tools provided:
   - read_spec_section: Returns specific sections from spec.toml
@@ -37,10 +43,11 @@ Tools provided:
   - validate_schema: Validates artifacts against their JSON schemas
 `;
 
-function parseArgs(): { projectRoot: string; debug: boolean } {
+function parseArgs(): { projectRoot: string; debug: boolean; agent?: AgentRole } {
   const args = process.argv.slice(2);
   let projectRoot = process.cwd();
   let debug = false;
+  let agent: AgentRole | undefined;
 
   /* eslint-disable security/detect-object-injection -- args[i] and args[i+1] are safe: bounded array access for CLI argument parsing */
   for (let i = 0; i < args.length; i++) {
@@ -51,6 +58,14 @@ function parseArgs(): { projectRoot: string; debug: boolean } {
         projectRoot = path.resolve(next);
         i++;
       }
+    } else if (arg === '--agent' || arg === '-a') {
+      const next = args[i + 1];
+      if (next === undefined || !AGENT_ROLES.includes(next as AgentRole)) {
+        process.stderr.write(`--agent must be one of: ${AGENT_ROLES.join(', ')}\n`);
+        process.exit(1);
+      }
+      agent = next as AgentRole;
+      i++;
     } else if (arg === '--debug' || arg === '-d') {
       debug = true;
     } else if (arg === '--help' || arg === '-h') {
@@ -60,18 +75,20 @@ function parseArgs(): { projectRoot: string; debug: boolean } {
   }
   /* eslint-enable security/detect-object-injection */
 
-  return { projectRoot, debug };
+  return { projectRoot, debug, ...(agent !== undefined ? { agent } : {}) };
 }
 
-const { projectRoot, debug } = parseArgs();
+const { projectRoot, debug, agent } = parseArgs();
 const logger = createServerLogger({ serverName: 'artifact-server', debug });
 
 if (debug) {
-  logger.logDebug('server_start', { projectRoot });
+  logger.logDebug('server_start', { projectRoot, agent });
 }
 
-startArtifactServer({ projectRoot, debug }).catch((err: unknown) => {
-  const errorMessage = err instanceof Error ? err.message : String(err);
-  logger.error('startup_failed', { error: errorMessage });
-  process.exit(1);
-});
+startArtifactServer({ projectRoot, debug, ...(agent !== undefined ? { agent } : {}) }).catch(
+  (err: unknown) => {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    logger.error('startup_failed', { error: errorMessage });
+    process.exit(1);
+  }
+);
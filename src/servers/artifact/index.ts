@@ -23,3 +23,4 @@ export {
   type ValidateSchemaResult,
   type AppendDecisionInput,
 } from './types.js';
+export { AGENT_IDENTITY_CAPABILITY, type MCPAccessConfig, type MCPAuditEntry } from '../access.js';
@@ -12,12 +12,14 @@ import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
 
 import { createArtifactServer } from './server.js';
+import { AGENT_IDENTITY_CAPABILITY, type MCPAuditEntry } from '../access.js';
 import {
   ArtifactScopingError,
   ArtifactNotFoundError,
   SpecSectionNotFoundError,
   WitnessNotFoundError,
   ALLOWED_ARTIFACT_FILES,
+  type ArtifactServerConfig,
 } from './types.js';
 import {
   safeMkdir,
@@ -54,12 +56,21 @@ async function callTool(
   return result as unknown as ToolCallResult;
 }
 
-// Helper to create a connected server-client pair
-async function createConnectedPair(projectRoot: string): Promise<{ client: Client }> {
-  const server = createArtifactServer({ projectRoot, debug: false });
+// Helper to create a connected server-client pair, optionally with the client declaring an agent
+async function createConnectedPair(
+  projectRoot: string,
+  access: Pick<ArtifactServerConfig, 'agent'> = { agent: 'Architect' },
+  clientAgent?: string
+): Promise<{ client: Client }> {
+  const server = createArtifactServer({ projectRoot, debug: false, ...access });
   const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
 
-  const client = new Client({ name: 'test-client', version: '1.0.0' }, {});
+  const client = new Client(
+    { name: 'test-client', version: '1.0.0' },
+    clientAgent !== undefined
+      ? { capabilities: { experimental: { [AGENT_IDENTITY_CAPABILITY]: { role: clientAgent } } } }
+      : {}
+  );
 
   await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
 
@@ -401,6 +412,109 @@ describe('criticality-artifact-server', () => {
     });
   });
 
+  describe('swarm access control', () => {
+    const decision = {
+      category: 'testing',
+      constraint: 'Auditor constraint',
+      source: 'design_choice',
+      confidence: 'provisional',
+      phase: 'design',
+    };
+
+    async function readAuditLog(): Promise<MCPAuditEntry[]> {
+      const content = await safeReadFile(
+        path.join(tempDir, '.criticality', 'mcp-audit.jsonl'),
+        'utf-8'
+      );
+      return content
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line) as MCPAuditEntry);
+    }
+
+    it('denies append_decision to a read-only agent and audits the call', async () => {
+      const auditor = await createConnectedPair(tempDir, { agent: 'Auditor' });
+
+      const result = await callTool(auditor.client, 'append_decision', decision);
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(getResultText(result))).toEqual({
+        error: "Tool 'append_decision' is blocked for agent 'Auditor' on server 'artifact-server'",
+        type: 'UnauthorizedMCPAccessError',
+        agent: 'Auditor',
+        server: 'artifact-server',
+        tool: 'append_decision',
+      });
+      const content = await safeReadFile(path.join(tempDir, 'DECISIONS.toml'), 'utf-8');
+      expect(content).not.toContain('Auditor constraint');
+      expect(await readAuditLog()).toEqual([
+        expect.objectContaining({
+          decision: 'denied',
+          agent: 'Auditor',
+          server: 'artifact-server',
+          tool: 'append_decision',
+          paths: ['DECISIONS.toml'],
+        }),
+      ]);
+
+      // Reads remain available
+      const read = await callTool(auditor.client, 'read_spec_section', { section: 'meta' });
+      expect(read.isError).toBeFalsy();
+      await auditor.client.close();
+    });
+
+    it('denies agents without access to the server', async () => {
+      const worker = await createConnectedPair(tempDir, { agent: 'Worker' });
+
+      const result = await callTool(worker.client, 'read_spec_section', { section: 'meta' });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(getResultText(result))).toMatchObject({
+        error: "Agent 'Worker' is not authorized to access MCP server 'artifact-server'",
+        agent: 'Worker',
+      });
+      await worker.client.close();
+    });
+
+    it('accepts the agent identity a client declares at session start', async () => {
+      const architect = await createConnectedPair(tempDir, {}, 'Architect');
+      const auditor = await createConnectedPair(tempDir, {}, 'Auditor');
+
+      const allowed = await callTool(architect.client, 'append_decision', decision);
+      const denied = await callTool(auditor.client, 'append_decision', decision);
+
+      expect(allowed.isError).toBeFalsy();
+      expect(denied.isError).toBe(true);
+      await architect.client.close();
+      await auditor.client.close();
+    });
+
+    it('denies sessions without an agent identity', async () => {
+      const anonymous = await createConnectedPair(tempDir, {});
+
+      const result = await callTool(anonymous.client, 'read_spec_section', { section: 'meta' });
+
+      expect(JSON.parse(getResultText(result))).toMatchObject({
+        error:
+          "MCP server 'artifact-server' requires an agent identity; none was provided at session start",
+        agent: null,
+      });
+      expect(await readAuditLog()).toEqual([expect.objectContaining({ agent: null })]);
+      await anonymous.client.close();
+    });
+
+    it('denies clients claiming a different agent than the server was started for', async () => {
+      const pair = await createConnectedPair(tempDir, { agent: 'Auditor' }, 'Architect');
+
+      const result = await callTool(pair.client, 'read_spec_section', { section: 'meta' });
+
+      expect(JSON.parse(getResultText(result))).toMatchObject({
+        error: "Client identified as agent 'Architect' but this server only serves agent 'Auditor'",
+      });
+      await pair.client.close();
+    });
+  });
+
   describe('error classes', () => {
     it('ArtifactScopingError has correct message', () => {
       const error = new ArtifactScopingError('/etc/passwd');
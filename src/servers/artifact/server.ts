@@ -36,8 +36,50 @@ import { fromData } from '../../ledger/ledger.js';
 import type { DecisionInput, LedgerData, Decision } from '../../ledger/types.js';
 import type { ErrorObject } from 'ajv';
 import { createServerLogger } from '../logging.js';
+import { createAccessDeniedResult, createMCPAccessGuard } from '../access.js';
+import type { MCPToolCall } from '../../agents/swarm/types.js';
 import { safeReadFile, safeWriteFile } from '../../utils/safe-fs.js';
 
+/**
+ * Default file and schema for each artifact type accepted by validate_schema.
+ */
+const ARTIFACT_SCHEMAS: Record<string, { defaultFile: string; schema: string }> = {
+  spec: { defaultFile: 'spec.toml', schema: 'spec' },
+  ledger: { defaultFile: 'DECISIONS.toml', schema: 'ledger' },
+  witness: { defaultFile: 'examples/witness.example.toml', schema: 'witness' },
+  proposal: { defaultFile: 'examples/proposal.example.toml', schema: 'proposal' },
+  interview: { defaultFile: 'examples/interview.example.toml', schema: 'interview' },
+  'question-bank': {
+    defaultFile: 'examples/question-bank.example.toml',
+    schema: 'question-bank',
+  },
+};
+
+/**
+ * Describes a tool call for access control: whether it writes and which
+ * artifacts it touches.
+ */
+function describeToolCall(name: string, args: Record<string, unknown> | undefined): MCPToolCall {
+  switch (name) {
+    case 'read_spec_section':
+      return { tool: name, writes: false, paths: ['spec.toml'] };
+    case 'append_decision':
+      return { tool: name, writes: true, paths: ['DECISIONS.toml'] };
+    case 'get_type_witness':
+      return { tool: name, writes: false, paths: ['spec.toml', 'examples'] };
+    case 'validate_schema': {
+      const file = args?.file;
+      const artifact = args?.artifact;
+      const defaultFile =
+        typeof artifact === 'string' ? ARTIFACT_SCHEMAS[artifact]?.defaultFile : undefined;
+      const target = typeof file === 'string' ? file : defaultFile;
+      return { tool: name, writes: false, paths: target !== undefined ? [target] : [] };
+    }
+    default:
+      return { tool: name, writes: false, paths: [] };
+  }
+}
+
 /**
  * Creates and configures the criticality-artifact-server.
  *
@@ -49,6 +91,7 @@ export function createArtifactServer(config: ArtifactServerConfig): Server {
   const { projectRoot, debug = false } = config;
 
   const logger = createServerLogger({ serverName: 'artifact-server', debug });
+  const accessGuard = createMCPAccessGuard({ ...config, server: 'artifact-server', logger });
 
   const ajv = new (Ajv as unknown as new (opts: { allErrors: boolean }) => {
     compile: (schema: Record<string, unknown>) => {
@@ -214,6 +257,7 @@ export function createArtifactServer(config: ArtifactServerConfig): Server {
                   'composition_audit',
                   'mesoscopic_failure',
                   'human_resolution',
+                  'spec_change',
                 ],
                 description: 'Origin of the decision',
               },
@@ -299,6 +343,14 @@ export function createArtifactServer(config: ArtifactServerConfig): Server {
 
     logger.logDebug('tool_call', { name, args });
 
+    const denied = await accessGuard.authorize(
+      server.getClientCapabilities(),
+      describeToolCall(name, args)
+    );
+    if (denied !== undefined) {
+      return createAccessDeniedResult(denied);
+    }
+
     try {
       switch (name) {
         case 'read_spec_section': {
@@ -494,21 +546,8 @@ export function createArtifactServer(config: ArtifactServerConfig): Server {
     artifact: string,
     file?: string
   ): Promise<ValidateSchemaResult> {
-    // Map artifact type to default file and schema
-    const artifactMap: Record<string, { defaultFile: string; schema: string }> = {
-      spec: { defaultFile: 'spec.toml', schema: 'spec' },
-      ledger: { defaultFile: 'DECISIONS.toml', schema: 'ledger' },
-      witness: { defaultFile: 'examples/witness.example.toml', schema: 'witness' },
-      proposal: { defaultFile: 'examples/proposal.example.toml', schema: 'proposal' },
-      interview: { defaultFile: 'examples/interview.example.toml', schema: 'interview' },
-      'question-bank': {
-        defaultFile: 'examples/question-bank.example.toml',
-        schema: 'question-bank',
-      },
-    };
-
     // eslint-disable-next-line security/detect-object-injection -- safe: artifact is typed as ArtifactType with known literal keys
-    const mapping = artifactMap[artifact];
+    const mapping = ARTIFACT_SCHEMAS[artifact];
     if (mapping === undefined) {
       return {
         valid: false,
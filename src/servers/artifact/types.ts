@@ -5,6 +5,7 @@
  */
 
 import type { DecisionInput, Decision } from '../../ledger/types.js';
+import type { MCPAccessConfig } from '../access.js';
 
 /**
  * Allowed artifact file types that the server can access.
@@ -73,8 +74,11 @@ export interface AppendDecisionInput extends DecisionInput {
 
 /**
  * Server configuration options.
+ *
+ * Tool calls are checked against the swarm policy of the session's agent
+ * (see {@link MCPAccessConfig}).
  */
-export interface ArtifactServerConfig {
+export interface ArtifactServerConfig extends MCPAccessConfig {
   /** Root directory for protocol artifacts. */
   projectRoot: string;
   /** Enable debug logging. */
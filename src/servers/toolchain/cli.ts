@@ -2,19 +2,24 @@
 /**
  * CLI entry point for criticality-toolchain-server.
  *
- * Usage: node cli.js [--project-root <path>] [--debug]
+ * Usage: node cli.js [--project-root <path>] [--agent <role>] [--debug]
+ *
+ * Without `--agent`, clients must declare their swarm agent in the
+ * 'criticality/agent' experimental capability.
  *
  * @packageDocumentation
  */
 
 import { startToolchainServer } from './server.js';
 import { createServerLogger } from '../logging.js';
+import { AGENT_ROLES, type AgentRole } from '../../agents/types.js';
 
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
 
   let projectRoot = process.cwd();
   let debug = false;
+  let agent: AgentRole | undefined;
 
   /* eslint-disable security/detect-object-injection -- args[i] and args[i+1] are safe: bounded array access for CLI argument parsing */
   for (let i = 0; i < args.length; i++) {
@@ -23,6 +28,12 @@ async function main(): Promise<void> {
     if (arg === '--project-root' && nextArg !== undefined) {
       projectRoot = nextArg;
       i++;
+    } else if (arg === '--agent' && nextArg !== undefined) {
+      if (!AGENT_ROLES.includes(nextArg as AgentRole)) {
+        throw new Error(`--agent must be one of: ${AGENT_ROLES.join(', ')}`);
+      }
+      agent = nextArg as AgentRole;
+      i++;
     } else if (arg === '--debug') {
       debug = true;
     }
@@ -32,10 +43,10 @@ async function main(): Promise<void> {
   const logger = createServerLogger({ serverName: 'toolchain-server', debug });
 
   if (debug) {
-    logger.logDebug('server_start', { projectRoot });
+    logger.logDebug('server_start', { projectRoot, agent });
   }
 
-  await startToolchainServer({ projectRoot, debug });
+  await startToolchainServer({ projectRoot, debug, ...(agent !== undefined ? { agent } : {}) });
 }
 
 main().catch((err: unknown) => {
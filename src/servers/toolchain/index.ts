@@ -48,3 +48,5 @@ export {
   ToolExecutionError,
   OutputParseError,
 } from './types.js';
+
+export { AGENT_IDENTITY_CAPABILITY, type MCPAccessConfig, type MCPAuditEntry } from '../access.js';
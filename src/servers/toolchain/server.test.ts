@@ -12,10 +12,13 @@ import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
 
 import { createToolchainServer } from './server.js';
+import { createSwarmRegistryFromData } from '../../agents/swarm/registry.js';
+import { DEFAULT_SWARM_CONFIG, WORKER_AGENT } from '../../agents/swarm/definitions.js';
 import {
   ToolchainNotInstalledError,
   ToolExecutionError,
   OutputParseError,
+  type ToolchainServerConfig,
   type VerifyStructureResult,
   type RunFunctionTestResult,
   type CheckComplexityResult,
@@ -48,8 +51,11 @@ async function callTool(
 }
 
 // Helper to create a connected server-client pair
-async function createConnectedPair(projectRoot: string): Promise<{ client: Client }> {
-  const server = createToolchainServer({ projectRoot, debug: false });
+async function createConnectedPair(
+  projectRoot: string,
+  access: Pick<ToolchainServerConfig, 'agent' | 'registry' | 'fileMoves'> = { agent: 'Refiner' }
+): Promise<{ client: Client }> {
+  const server = createToolchainServer({ projectRoot, debug: false, ...access });
   const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
 
   const client = new Client({ name: 'test-client', version: '1.0.0' }, {});
@@ -235,6 +241,42 @@ export function multiply(a: number, b: number): number {
       const parsed = JSON.parse(getResultText(result)) as RunFunctionTestResult;
       expect(parsed.command).toContain('--coverage');
     });
+
+    it('derives the test pattern and name from a function id', async () => {
+      const result = await callTool(client, 'run_function_test', {
+        functionId: 'src/valid.ts::Calculator.add',
+      });
+
+      expect(result.isError).toBeFalsy();
+      const parsed = JSON.parse(getResultText(result)) as RunFunctionTestResult;
+      expect(parsed.command).toBe('npx vitest run --reporter=json src/valid -t add');
+    }, 15000);
+
+    it('follows file moves recorded in the ledger', async () => {
+      const moved = await createConnectedPair(tempDir, {
+        agent: 'Refiner',
+        fileMoves: [{ from: 'lib/valid.ts', to: 'src/valid.ts' }],
+      });
+
+      const result = await callTool(moved.client, 'run_function_test', {
+        functionId: 'lib/valid.ts::multiply',
+        testName: 'multiplies',
+      });
+      await moved.client.close();
+
+      expect(result.isError).toBeFalsy();
+      const parsed = JSON.parse(getResultText(result)) as RunFunctionTestResult;
+      expect(parsed.command).toBe('npx vitest run --reporter=json src/valid -t multiplies');
+    }, 15000);
+
+    it('requires a test pattern or a function id', async () => {
+      const result = await callTool(client, 'run_function_test', { testName: 'add' });
+
+      expect(result.isError).toBe(true);
+      expect(getResultText(result)).toContain(
+        'run_function_test requires testPattern or functionId'
+      );
+    });
   });
 
   describe('check_complexity', () => {
@@ -445,6 +487,136 @@ edition = "2021"
       }
       // If error, it's because cargo isn't available, which is fine
     });
+
+    it('detects Go from go.mod and reports vet findings', async () => {
+      await fs.rm(path.join(tempDir, 'tsconfig.json'));
+      await fs.rm(path.join(tempDir, 'package.json'));
+      await safeWriteFile(path.join(tempDir, 'go.mod'), 'module example.com/m\n\ngo 1.21\n');
+      await safeWriteFile(
+        path.join(tempDir, 'main.go'),
+        'package main\n\nimport "fmt"\n\nfunc main() {\n\tfmt.Printf("%d\\n", "x")\n}\n'
+      );
+
+      await client.close();
+      const pair = await createConnectedPair(tempDir);
+      client = pair.client;
+
+      const result = await callTool(client, 'verify_structure', {});
+      const parsed = JSON.parse(getResultText(result)) as VerifyStructureResult | { error: string };
+
+      // If error, it's because go isn't available, which is fine
+      if ('language' in parsed) {
+        expect(parsed.language).toBe('go');
+        expect(parsed.success).toBe(false);
+        expect(parsed.errors[0]).toMatchObject({
+          file: path.join(tempDir, 'main.go'),
+          line: 6,
+          code: 'printf',
+        });
+      }
+    });
+  });
+
+  describe('swarm access control', () => {
+    it('denies state-changing calls to read-only agents', async () => {
+      const guardian = await createConnectedPair(tempDir, { agent: 'Guardian' });
+
+      const denied = await callTool(guardian.client, 'verify_structure', { emit: true });
+
+      expect(denied.isError).toBe(true);
+      expect(JSON.parse(getResultText(denied))).toEqual({
+        error:
+          "Agent 'Guardian' has read-only access to MCP server 'toolchain-server' and tool 'verify_structure' modifies state",
+        type: 'UnauthorizedMCPAccessError',
+        agent: 'Guardian',
+        server: 'toolchain-server',
+        tool: 'verify_structure',
+      });
+      const audit = await fs.readFile(
+        path.join(tempDir, '.criticality', 'mcp-audit.jsonl'),
+        'utf-8'
+      );
+      expect(audit).toContain('"tool":"verify_structure"');
+
+      const allowed = await callTool(guardian.client, 'check_complexity', { path: 'src/valid.ts' });
+      expect(allowed.isError).toBeFalsy();
+      await guardian.client.close();
+    });
+
+    it('denies tools outside an agent whitelist', async () => {
+      const auditor = await createConnectedPair(tempDir, { agent: 'Auditor' });
+
+      const result = await callTool(auditor.client, 'run_function_test', { testPattern: 'src' });
+
+      expect(JSON.parse(getResultText(result))).toMatchObject({
+        error:
+          "Tool 'run_function_test' is blocked for agent 'Auditor' on server 'toolchain-server'",
+      });
+      await auditor.client.close();
+    });
+
+    it('restricts scoped agents to their scoped paths', async () => {
+      const registry = createSwarmRegistryFromData({
+        ...DEFAULT_SWARM_CONFIG,
+        agents: DEFAULT_SWARM_CONFIG.agents.map((agent) =>
+          agent.role === 'Worker'
+            ? {
+                ...WORKER_AGENT,
+                mcpServers: [{ server: 'toolchain-server', mode: 'scoped', scopedPaths: ['src/'] }],
+              }
+            : agent
+        ),
+      });
+      const worker = await createConnectedPair(tempDir, { agent: 'Worker', registry });
+
+      const inside = await callTool(worker.client, 'check_complexity', { path: 'src/valid.ts' });
+      const outside = await callTool(worker.client, 'check_complexity', {
+        path: 'src/../package.json',
+      });
+      const escaping = await callTool(worker.client, 'check_complexity', { path: '/etc/passwd' });
+
+      expect(inside.isError).toBeFalsy();
+      expect(JSON.parse(getResultText(outside))).toMatchObject({
+        error:
+          "Path 'src/../package.json' is outside the scoped paths of agent 'Worker' on server 'toolchain-server' (src/)",
+      });
+      expect(JSON.parse(getResultText(escaping))).toMatchObject({
+        type: 'UnauthorizedMCPAccessError',
+      });
+      await worker.client.close();
+    });
+
+    it('checks whole-suite test runs against the project root', async () => {
+      const registry = createSwarmRegistryFromData({
+        ...DEFAULT_SWARM_CONFIG,
+        agents: DEFAULT_SWARM_CONFIG.agents.map((agent) =>
+          agent.role === 'Worker'
+            ? {
+                ...WORKER_AGENT,
+                mcpServers: [{ server: 'toolchain-server', mode: 'scoped', scopedPaths: ['src/'] }],
+              }
+            : agent
+        ),
+      });
+
+      for (const [manifest, functionId] of [
+        ['pyproject.toml', 'src/valid.py::add'],
+        ['Cargo.toml', 'src/valid.rs::add'],
+      ] as const) {
+        const projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'toolchain-server-scope-'));
+        await safeWriteFile(path.join(projectRoot, manifest), '');
+        const worker = await createConnectedPair(projectRoot, { agent: 'Worker', registry });
+
+        const result = await callTool(worker.client, 'run_function_test', { functionId });
+        await worker.client.close();
+        await fs.rm(projectRoot, { recursive: true, force: true });
+
+        expect(JSON.parse(getResultText(result))).toMatchObject({
+          error:
+            "Path '.' is outside the scoped paths of agent 'Worker' on server 'toolchain-server' (src/)",
+        });
+      }
+    });
   });
 
   describe('error handling', () => {
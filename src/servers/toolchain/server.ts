@@ -1,7 +1,8 @@
 /**
  * Criticality Toolchain Server - MCP Server wrapping build tools.
  *
- * Provides structured JSON output from build tools (tsc, cargo check, vitest)
+ * Provides structured JSON output from build tools (tsc, cargo check, mypy, go vet, vitest,
+ * pytest, go test)
  * instead of raw stdout, enabling agents to programmatically process results.
  *
  * @packageDocumentation
@@ -15,6 +16,7 @@ import {
   type CallToolResult,
 } from '@modelcontextprotocol/sdk/types.js';
 import { execa, type ResultPromise, type Options as ExecaOptions } from 'execa';
+import os from 'node:os';
 import path from 'node:path';
 
 import {
@@ -35,18 +37,140 @@ import {
   OutputParseError,
 } from './types.js';
 import { createServerLogger } from '../logging.js';
-import { safeStat, safeReadFile, safeReaddir } from '../../utils/safe-fs.js';
+import { createAccessDeniedResult, createMCPAccessGuard } from '../access.js';
+import type { MCPToolCall } from '../../agents/swarm/types.js';
+import { parseGoTestJson, parseGoVetOutput } from '../../adapters/go/gotool.js';
+import { parseMypyOutput } from '../../adapters/python/mypy.js';
+import { parseJUnitXml } from '../../adapters/python/pytest.js';
+import { parseFunctionId, toCurrentModulePath } from '../../adapters/typescript/function-id.js';
+import type { FileMove } from '../../ledger/types.js';
+import {
+  safeStat,
+  safeReadFile,
+  safeReaddir,
+  safeExists,
+  safeMkdirTemp,
+  safeRm,
+} from '../../utils/safe-fs.js';
 
 const DEFAULT_TIMEOUT = 60000;
 
+/**
+ * Describes a tool call for access control: whether it writes and which
+ * paths it touches. Running tests executes project code and emitting
+ * writes build output, so both count as writes.
+ */
+async function describeToolCall(
+  name: string,
+  args: Record<string, unknown> | undefined,
+  fileMoves: readonly FileMove[],
+  detectLanguage: () => Promise<ToolchainLanguage>
+): Promise<MCPToolCall> {
+  switch (name) {
+    case 'verify_structure': {
+      const target = typeof args?.path === 'string' ? args.path : '.';
+      return { tool: name, writes: args?.emit === true, paths: [target] };
+    }
+    case 'run_function_test': {
+      const input: RunFunctionTestInput = {
+        ...(typeof args?.testPattern === 'string' ? { testPattern: args.testPattern } : {}),
+        ...(typeof args?.functionId === 'string' ? { functionId: args.functionId } : {}),
+      };
+      return {
+        tool: name,
+        writes: true,
+        paths: [testAccessPath(input, await detectLanguage(), fileMoves)],
+      };
+    }
+    case 'check_complexity': {
+      const target = typeof args?.path === 'string' ? args.path : '.';
+      return { tool: name, writes: false, paths: [target] };
+    }
+    default:
+      return { tool: name, writes: false, paths: [] };
+  }
+}
+
+/**
+ * Resolves the test pattern and test name to run.
+ *
+ * Given a function id, TypeScript runs the tests of the function's module
+ * (vitest matches file paths by substring), Go runs the function's package,
+ * and Python and Rust filter the whole suite. Tests are selected by the
+ * function's own name. An explicit testPattern or testName wins.
+ */
+function resolveTestTarget(
+  input: RunFunctionTestInput,
+  language: ToolchainLanguage,
+  fileMoves: readonly FileMove[]
+): { testPattern: string; testName: string | undefined } {
+  if (input.functionId === undefined) {
+    if (input.testPattern === undefined) {
+      throw new Error('run_function_test requires testPattern or functionId');
+    }
+    return { testPattern: input.testPattern, testName: input.testName };
+  }
+
+  const parts = parseFunctionId(input.functionId);
+  if (parts === undefined) {
+    throw new Error(`Invalid function id: '${input.functionId}'`);
+  }
+  const modulePath = toCurrentModulePath(parts.modulePath, fileMoves);
+  const directory = path.posix.dirname(modulePath);
+
+  let derivedPattern: string;
+  switch (language) {
+    case 'typescript':
+      derivedPattern = modulePath.replace(/\.[cm]?tsx?$/, '');
+      break;
+    case 'go':
+      derivedPattern = directory === '.' ? '.' : `./${directory}`;
+      break;
+    case 'python':
+      derivedPattern = '.';
+      break;
+    case 'rust':
+      derivedPattern = parts.name;
+      break;
+  }
+
+  return {
+    testPattern: input.testPattern ?? derivedPattern,
+    // cargo test already filters by the pattern
+    testName: input.testName ?? (language === 'rust' ? undefined : parts.name),
+  };
+}
+
+/**
+ * Returns the path a test run touches: the pattern actually passed to the
+ * test runner, or '.' when the whole suite runs. cargo test always builds
+ * and filters the whole crate, so Rust runs count as '.', as do calls whose
+ * target cannot be resolved.
+ */
+function testAccessPath(
+  input: RunFunctionTestInput,
+  language: ToolchainLanguage,
+  fileMoves: readonly FileMove[]
+): string {
+  if (language === 'rust') {
+    return '.';
+  }
+  try {
+    return resolveTestTarget(input, language, fileMoves).testPattern;
+  } catch {
+    return '.';
+  }
+}
+
 /**
  * Creates and configures the criticality-toolchain-server.
  */
 // eslint-disable-next-line @typescript-eslint/no-deprecated
 export function createToolchainServer(config: ToolchainServerConfig): Server {
-  const { projectRoot, debug = false, timeout = DEFAULT_TIMEOUT } = config;
+  const { projectRoot, debug = false, timeout = DEFAULT_TIMEOUT, fileMoves = [] } = config;
 
   const logger = createServerLogger({ serverName: 'toolchain-server', debug });
+  const accessGuard = createMCPAccessGuard({ ...config, server: 'toolchain-server', logger });
 
   // eslint-disable-next-line @typescript-eslint/no-deprecated
   const server = new Server(
@@ -113,18 +237,6 @@ export function createToolchainServer(config: ToolchainServerConfig): Server {
     }
   }
 
-  /**
-   * Checks if a command is available.
-   */
-  async function isCommandAvailable(command: string): Promise<boolean> {
-    try {
-      await execa('which', [command], { cwd: projectRoot, reject: true });
-      return true;
-    } catch {
-      return false;
-    }
-  }
-
   // Handle tool listing
   server.setRequestHandler(ListToolsRequestSchema, () => {
     return Promise.resolve({
@@ -134,7 +246,7 @@ export function createToolchainServer(config: ToolchainServerConfig): Server {
           description:
             'Runs structural verification (type checking) for the project. ' +
             'Returns structured JSON with errors instead of raw compiler output. ' +
-            'Supports TypeScript (tsc) and Rust (cargo check).',
+            'Supports TypeScript (tsc), Rust (cargo check), Python (mypy) and Go (go vet).',
           inputSchema: {
             type: 'object',
             properties: {
@@ -157,9 +269,9 @@ export function createToolchainServer(config: ToolchainServerConfig): Server {
         {
           name: 'run_function_test',
           description:
-            'Runs isolated tests matching a pattern. ' +
+            'Runs isolated tests matching a pattern, or the tests of one function given its id. ' +
             'Returns structured JSON with test results and optional coverage. ' +
-            'Uses vitest for TypeScript, cargo test for Rust.',
+            'Uses vitest for TypeScript, cargo test for Rust, pytest for Python, go test for Go.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -172,6 +284,12 @@ export function createToolchainServer(config: ToolchainServerConfig): Server {
                 type: 'string',
                 description: 'Optional: specific test name or describe block to run.',
               },
+              functionId: {
+                type: 'string',
+                description:
+                  'Optional: function id (e.g., "src/ledger/ledger.ts::Ledger.append"). ' +
+                  'Derives testPattern and testName when they are omitted.',
+              },
               coverage: {
                 type: 'boolean',
                 description: 'Whether to collect coverage information (default: false).',
@@ -181,7 +299,6 @@ export function createToolchainServer(config: ToolchainServerConfig): Server {
                 description: 'Timeout for the test run in milliseconds.',
               },
             },
-            required: ['testPattern'],
           },
         },
         {
@@ -220,6 +337,14 @@ export function createToolchainServer(config: ToolchainServerConfig): Server {
 
     logger.logDebug('tool_call', { name, args });
 
+    const denied = await accessGuard.authorize(
+      server.getClientCapabilities(),
+      await describeToolCall(name, args, fileMoves, detectLanguage)
+    );
+    if (denied !== undefined) {
+      return createAccessDeniedResult(denied);
+    }
+
     try {
       switch (name) {
         case 'verify_structure': {
@@ -293,31 +418,26 @@ export function createToolchainServer(config: ToolchainServerConfig): Server {
       }
 
       case 'python': {
-        // Use mypy for Python type checking
-        const hasPyright = await isCommandAvailable('pyright');
-        if (hasPyright) {
-          command = 'pyright';
-          args = ['--outputjson'];
-        } else {
-          command = 'mypy';
-          args = ['--no-error-summary', '--show-column-numbers'];
-        }
-        if (input.path !== undefined) {
-          args.push(input.path);
-        } else {
-          args.push('.');
-        }
+        // mypy JSON diagnostics, run through the interpreter so the project's environment is used
+        command = 'python3';
+        args = [
+          '-m',
+          'mypy',
+          '-O',
+          'json',
+          '--show-column-numbers',
+          '--no-error-summary',
+          '--no-color-output',
+        ];
+        args.push(input.path ?? '.');
         break;
       }
 
       case 'go': {
+        // go vet type-checks packages and their tests, then runs the vet analyzers
         command = 'go';
-        args = ['build', '-o', '/dev/null'];
-        if (input.path !== undefined) {
-          args.push(input.path);
-        } else {
-          args.push('./...');
-        }
+        args = ['vet', '-json'];
+        args.push(input.path ?? './...');
         break;
       }
     }
@@ -411,42 +531,14 @@ export function createToolchainServer(config: ToolchainServerConfig): Server {
       }
 
       case 'python': {
-        // mypy format: file:line:col: error: message [error-code]
-        /* eslint-disable security/detect-unsafe-regex --
-           pyRegex is safe: anchored with ^ and $, uses only bounded character classes
-           ([^:]+, [^\]]+, [^[]+?) with no nested quantifiers or catastrophic-backtracking
-           constructs, and [ \t] instead of \s reduces ambiguity. */
-        const pyRegex =
-          /^([^:]+):(\d+):(\d+):[ \t]+(error|warning):[ \t]+([^[]+?)(?:[ \t]+\[([^\]]+)\])?$/gm;
-        /* eslint-enable security/detect-unsafe-regex */
-        let match;
-        while ((match = pyRegex.exec(output)) !== null) {
-          errors.push({
-            file: match[1] ?? '',
-            line: parseInt(match[2] ?? '0', 10),
-            column: parseInt(match[3] ?? '0', 10),
-            severity: (match[4] ?? 'error') as 'error' | 'warning',
-            code: match[6] ?? 'python-error',
-            message: match[5] ?? '',
-          });
-        }
+        // mypy JSON lines (the text format is accepted too)
+        errors.push(...parseMypyOutput(output));
         break;
       }
 
       case 'go': {
-        // Go format: file:line:col: message
-        const goRegex = /^(.+?):(\d+):(\d+):\s+(.+)$/gm;
-        let match;
-        while ((match = goRegex.exec(output)) !== null) {
-          errors.push({
-            file: match[1] ?? '',
-            line: parseInt(match[2] ?? '0', 10),
-            column: parseInt(match[3] ?? '0', 10),
-            severity: 'error',
-            code: 'go-error',
-            message: match[4] ?? '',
-          });
-        }
+        // go vet JSON findings, plus type errors as text
+        errors.push(...parseGoVetOutput(output));
         break;
       }
     }
@@ -461,16 +553,18 @@ export function createToolchainServer(config: ToolchainServerConfig): Server {
     input: RunFunctionTestInput
   ): Promise<RunFunctionTestResult> {
     const language = await detectLanguage();
+    const { testPattern, testName } = resolveTestTarget(input, language, fileMoves);
     let command: string;
     let args: string[];
+    let reportDir: string | undefined;
 
     switch (language) {
       case 'typescript': {
         command = 'npx';
         args = ['vitest', 'run', '--reporter=json'];
-        args.push(input.testPattern);
-        if (input.testName !== undefined) {
-          args.push('-t', input.testName);
+        args.push(testPattern);
+        if (testName !== undefined) {
+          args.push('-t', testName);
         }
         if (input.coverage === true) {
           args.push('--coverage', '--coverage.reporter=json');
@@ -481,19 +575,21 @@ export function createToolchainServer(config: ToolchainServerConfig): Server {
       case 'rust': {
         command = 'cargo';
         args = ['test', '--', '--format=json', '-Z', 'unstable-options'];
-        args.push(input.testPattern);
-        if (input.testName !== undefined) {
-          args.push('--exact', input.testName);
+        args.push(testPattern);
+        if (testName !== undefined) {
+          args.push('--exact', testName);
         }
         break;
       }
 
       case 'python': {
-        command = 'python';
-        args = ['-m', 'pytest', '--json-report', '--json-report-file=-'];
-        args.push(input.testPattern);
-        if (input.testName !== undefined) {
-          args.push('-k', input.testName);
+        // JUnit XML (xunit1 records each test's file) written to a private temp dir
+        reportDir = await safeMkdirTemp(path.join(os.tmpdir(), 'crit-pytest-'));
+        command = 'python3';
+        args = ['-m', 'pytest', testPattern, '-q', '--color=no', '-p', 'no:cacheprovider'];
+        args.push(`--junitxml=${path.join(reportDir, 'junit.xml')}`, '-o', 'junit_family=xunit1');
+        if (testName !== undefined) {
+          args.push('-k', testName);
         }
         if (input.coverage === true) {
           args.push('--cov', '--cov-report=json');
@@ -503,10 +599,10 @@ export function createToolchainServer(config: ToolchainServerConfig): Server {
 
       case 'go': {
         command = 'go';
-        args = ['test', '-json'];
-        args.push(input.testPattern);
-        if (input.testName !== undefined) {
-          args.push('-run', input.testName);
+        args = ['test', '-json', '-count=1'];
+        args.push(testPattern);
+        if (testName !== undefined) {
+          args.push('-run', testName);
         }
         if (input.coverage === true) {
           args.push('-cover');
@@ -516,11 +612,22 @@ export function createToolchainServer(config: ToolchainServerConfig): Server {
     }
 
     const testTimeout = input.timeout ?? timeout;
-    const { stdout, stderr, exitCode, durationMs } = await runCommand(command, args, {
-      timeout: testTimeout,
-    });
+    let report: string | undefined;
+    let execution: Awaited<ReturnType<typeof runCommand>>;
+    try {
+      execution = await runCommand(command, args, { timeout: testTimeout });
+      if (reportDir !== undefined) {
+        const reportPath = path.join(reportDir, 'junit.xml');
+        report = (await safeExists(reportPath)) ? await safeReadFile(reportPath, 'utf-8') : '';
+      }
+    } finally {
+      if (reportDir !== undefined) {
+        await safeRm(reportDir, { recursive: true, force: true });
+      }
+    }
+    const { stdout, exitCode, durationMs } = execution;
 
-    const parsed = parseTestOutput(language, stdout, stderr);
+    const parsed = parseTestOutput(language, stdout, report);
 
     const result: RunFunctionTestResult = {
       success: exitCode === 0 && parsed.failedTests === 0,
@@ -547,7 +654,7 @@ export function createToolchainServer(config: ToolchainServerConfig): Server {
   function parseTestOutput(
     language: ToolchainLanguage,
     stdout: string,
-    stderr: string
+    report?: string
   ): {
     totalTests: number;
     passedTests: number;
@@ -673,93 +780,45 @@ export function createToolchainServer(config: ToolchainServerConfig): Server {
       }
 
       case 'python': {
-        // pytest JSON report
-        try {
-          const report = JSON.parse(stdout) as {
-            summary?: {
-              passed?: number;
-              failed?: number;
-              skipped?: number;
-            };
-            tests?: {
-              nodeid?: string;
-              outcome?: string;
-              duration?: number;
-              call?: { longrepr?: string };
-            }[];
+        // pytest JUnit XML report
+        for (const test of parseJUnitXml(report ?? '')) {
+          const testResult: TestResult = {
+            name: test.fullName,
+            file: test.file,
+            status: test.status === 'pending' ? 'skipped' : test.status,
+            durationMs: test.durationMs,
           };
-
-          passedTests = report.summary?.passed ?? 0;
-          failedTests = report.summary?.failed ?? 0;
-          skippedTests = report.summary?.skipped ?? 0;
-
-          if (report.tests !== undefined) {
-            for (const test of report.tests) {
-              const testResult: TestResult = {
-                name: test.nodeid ?? '',
-                file: test.nodeid?.split('::')[0] ?? '',
-                status: mapPytestStatus(test.outcome ?? 'skipped'),
-                durationMs: (test.duration ?? 0) * 1000,
-              };
-              if (test.call?.longrepr !== undefined) {
-                testResult.error = test.call.longrepr;
-              }
-              tests.push(testResult);
+          if (test.error !== undefined) {
+            testResult.error = test.error.message;
+            if (test.error.stack !== undefined) {
+              testResult.stack = test.error.stack;
             }
           }
-        } catch {
-          // Fall back to basic parsing from stderr
-          passedTests = (stderr.match(/passed/g) ?? []).length;
-          failedTests = (stderr.match(/failed/g) ?? []).length;
+          tests.push(testResult);
         }
+        passedTests = tests.filter((t) => t.status === 'passed').length;
+        failedTests = tests.filter((t) => t.status === 'failed').length;
+        skippedTests = tests.length - passedTests - failedTests;
         break;
       }
 
       case 'go': {
-        // Go test JSON output
-        for (const line of stdout.split('\n')) {
-          try {
-            const msg = JSON.parse(line) as {
-              Action?: string;
-              Test?: string;
-              Package?: string;
-              Elapsed?: number;
-              Output?: string;
-            };
-
-            if (msg.Action === 'pass' && msg.Test !== undefined) {
-              passedTests++;
-              tests.push({
-                name: msg.Test,
-                file: msg.Package ?? '',
-                status: 'passed',
-                durationMs: (msg.Elapsed ?? 0) * 1000,
-              });
-            } else if (msg.Action === 'fail' && msg.Test !== undefined) {
-              failedTests++;
-              const goFailedTest: TestResult = {
-                name: msg.Test,
-                file: msg.Package ?? '',
-                status: 'failed',
-                durationMs: (msg.Elapsed ?? 0) * 1000,
-              };
-              if (msg.Output !== undefined) {
-                goFailedTest.error = msg.Output;
-              }
-              tests.push(goFailedTest);
-            } else if (msg.Action === 'skip' && msg.Test !== undefined) {
-              skippedTests++;
-              tests.push({
-                name: msg.Test,
-                file: msg.Package ?? '',
-                status: 'skipped',
-                durationMs: 0,
-              });
-            }
-          } catch {
-            // Not JSON, skip
+        // go test -json event stream
+        for (const test of parseGoTestJson(stdout)) {
+          const testResult: TestResult = {
+            name: test.fullName,
+            file: test.file,
+            status: test.status === 'pending' ? 'skipped' : test.status,
+            durationMs: test.durationMs,
+          };
+          if (test.error !== undefined) {
+            testResult.error = test.error.message;
           }
+          tests.push(testResult);
         }
+        passedTests = tests.filter((t) => t.status === 'passed').length;
+        failedTests = tests.filter((t) => t.status === 'failed').length;
+        skippedTests = tests.length - passedTests - failedTests;
         break;
       }
     }
@@ -805,22 +864,6 @@ export function createToolchainServer(config: ToolchainServerConfig): Server {
     }
   }
 
-  /**
-   * Maps pytest outcome to our status type.
-   */
-  function mapPytestStatus(outcome: string): TestResult['status'] {
-    switch (outcome) {
-      case 'passed':
-        return 'passed';
-      case 'failed':
-        return 'failed';
-      case 'skipped':
-        return 'skipped';
-      default:
-        return 'skipped';
-    }
-  }
-
   /**
    * Handles the check_complexity tool.
    */
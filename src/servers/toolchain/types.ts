@@ -7,6 +7,10 @@
  * @packageDocumentation
  */
 
+import type { MCPAccessConfig } from '../access.js';
+import type { FunctionId } from '../../adapters/typescript/function-id.js';
+import type { FileMove } from '../../ledger/types.js';
+
 /**
  * Language/toolchain types supported by the toolchain server.
  */
@@ -14,14 +18,19 @@ export type ToolchainLanguage = 'typescript' | 'rust' | 'python' | 'go';
 
 /**
  * Server configuration options.
+ *
+ * Tool calls are checked against the swarm policy of the session's agent
+ * (see {@link MCPAccessConfig}).
  */
-export interface ToolchainServerConfig {
+export interface ToolchainServerConfig extends MCPAccessConfig {
   /** Root directory for the project being analyzed. */
   projectRoot: string;
   /** Enable debug logging. */
   debug?: boolean;
   /** Timeout for tool execution in milliseconds (default: 60000). */
   timeout?: number;
+  /** File moves recorded in the ledger, oldest first, used to locate functions by id. */
+  fileMoves?: readonly FileMove[];
 }
 
 // ============================================================================
@@ -88,10 +97,12 @@ export interface VerifyStructureResult {
  * Input for the run_function_test tool.
  */
 export interface RunFunctionTestInput {
-  /** Test file or pattern to run. */
-  testPattern: string;
+  /** Test file or pattern to run. Derived from `functionId` when omitted. */
+  testPattern?: string;
   /** Optional: specific test name or describe block to run. */
   testName?: string;
+  /** Optional: canonical id of the function under test (see `FunctionId`). */
+  functionId?: FunctionId;
   /** Whether to collect coverage information. */
   coverage?: boolean;
   /** Timeout for the test run in milliseconds. */
@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import { diffSpecs } from './diff.js';
+import type { Spec } from './types.js';
+
+/**
+ * Builds a small account spec for diffing.
+ */
+function createSpec(): Spec {
+  return {
+    meta: { version: '1.0.0', created: '2024-01-24T12:00:00Z' },
+    system: { name: 'bank' },
+    data_models: {
+      Account: {
+        description: 'A bank account',
+        fields: [
+          { name: 'id', type: 'AccountId' },
+          { name: 'balance', type: 'Money', constraints: ['>= 0'] },
+        ],
+        invariants: ['balance >= 0'],
+      },
+    },
+    interfaces: {
+      AccountService: {
+        description: 'Account operations',
+        methods: [
+          {
+            name: 'deposit',
+            params: ['account: Account', 'amount: Money'],
+            returns: 'Account',
+            contracts: ['REQUIRES: amount > 0'],
+          },
+          { name: 'getBalance', params: ['account: Account'], returns: 'Money' },
+        ],
+      },
+    },
+    witnesses: {
+      NonNegative: {
+        name: 'NonNegative',
+        base_type: 'number',
+        invariants: [{ id: 'nn', formal: 'value >= 0' }],
+      },
+    },
+    claims: {
+      deposit_001: { text: 'deposit increases the balance', type: 'behavioral' },
+    },
+  };
+}
+
+describe('Spec Diff', () => {
+  describe('diffSpecs', () => {
+    it('should report no changes for identical specs', () => {
+      const diff = diffSpecs(createSpec(), createSpec());
+
+      expect(diff.hasChanges).toBe(false);
+      expect(diff.changes).toEqual([]);
+    });
+
+    it('should ignore sections outside interfaces, data models, witnesses, and claims', () => {
+      const next = { ...createSpec(), meta: { version: '1.1.0', created: '2025-01-01T00:00:00Z' } };
+
+      expect(diffSpecs(createSpec(), next).hasChanges).toBe(false);
+    });
+
+    it('should classify method signature changes as structural', () => {
+      const next = createSpec();
+      const method = next.interfaces?.AccountService?.methods[0];
+      if (method !== undefined) {
+        method.params = ['account: Account', 'amount: Money', 'memo: string'];
+      }
+
+      expect(diffSpecs(createSpec(), next).changes).toEqual([
+        {
+          section: 'interfaces',
+          kind: 'modified',
+          name: 'AccountService',
+          member: 'deposit',
+          impact: 'structural',
+          description: 'Signature of AccountService.deposit changed',
+        },
+      ]);
+    });
+
+    it('should classify contract changes and description changes', () => {
+      const next = createSpec();
+      const [deposit, getBalance] = next.interfaces?.AccountService?.methods ?? [];
+      if (deposit !== undefined && getBalance !== undefined) {
+        deposit.contracts = ['REQUIRES: amount > 0', 'ENSURES: balance increases'];
+        getBalance.description = 'Reads the balance';
+      }
+
+      const changes = diffSpecs(createSpec(), next).changes;
+
+      expect(changes.map((c) => [c.member, c.impact])).toEqual([
+        ['deposit', 'contract'],
+        ['getBalance', 'documentation'],
+      ]);
+    });
+
+    it('should report added and removed methods and interfaces', () => {
+      const next = createSpec();
+      const service = next.interfaces?.AccountService;
+      if (service !== undefined) {
+        service.methods = [
+          ...service.methods.filter((m) => m.name !== 'getBalance'),
+          { name: 'withdraw', params: ['amount: Money'], returns: 'Account' },
+        ];
+      }
+      next.interfaces = {
+        ...next.interfaces,
+        AuditService: { methods: [{ name: 'log', returns: 'void' }] },
+      };
+
+      const changes = diffSpecs(createSpec(), next).changes;
+
+      expect(changes.map((c) => `${c.kind}:${c.name}:${c.member ?? ''}`)).toEqual([
+        'removed:AccountService:getBalance',
+        'added:AccountService:withdraw',
+        'added:AuditService:',
+      ]);
+      expect(changes.every((c) => c.impact === 'structural')).toBe(true);
+    });
+
+    it('should classify data model field and invariant changes', () => {
+      const next = createSpec();
+      const account = next.data_models?.Account;
+      if (account !== undefined) {
+        account.fields = [
+          { name: 'id', type: 'string' },
+          { name: 'balance', type: 'Money', constraints: ['>= 0', '<= 1000000'] },
+          { name: 'owner', type: 'string' },
+        ];
+        account.invariants = [];
+      }
+
+      const changes = diffSpecs(createSpec(), next).changes;
+
+      expect(changes.map((c) => [c.kind, c.member, c.impact])).toEqual([
+        ['modified', 'id', 'structural'],
+        ['modified', 'balance', 'contract'],
+        ['added', 'owner', 'structural'],
+        ['modified', undefined, 'contract'],
+      ]);
+      expect(changes[0]?.description).toBe(
+        'Type of field Account.id changed from AccountId to string'
+      );
+    });
+
+    it('should classify witness changes by what changed', () => {
+      const baseTypeChange = createSpec();
+      const invariantChange = createSpec();
+      const witness = baseTypeChange.witnesses?.NonNegative;
+      const otherWitness = invariantChange.witnesses?.NonNegative;
+      if (witness !== undefined && otherWitness !== undefined) {
+        witness.base_type = 'bigint';
+        otherWitness.invariants = [{ id: 'nn', formal: 'value > 0' }];
+      }
+
+      expect(diffSpecs(createSpec(), baseTypeChange).changes[0]?.impact).toBe('structural');
+      expect(diffSpecs(createSpec(), invariantChange).changes[0]?.impact).toBe('contract');
+    });
+
+    it('should classify every claim change as a contract change', () => {
+      const next = createSpec();
+      next.claims = {
+        deposit_001: { text: 'deposit never decreases the balance', type: 'behavioral' },
+        audit_001: { text: 'all operations are logged', type: 'invariant' },
+      };
+
+      const changes = diffSpecs(createSpec(), next).changes;
+
+      expect(changes.map((c) => [c.kind, c.name, c.impact])).toEqual([
+        ['modified', 'deposit_001', 'contract'],
+        ['added', 'audit_001', 'contract'],
+      ]);
+    });
+  });
+});
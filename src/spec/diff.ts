@@ -0,0 +1,508 @@
+/**
+ * Spec diff engine.
+ *
+ * Compares two parsed specifications and classifies every change to
+ * interfaces, data models, witnesses, and claims, so that a spec edit can
+ * be re-synthesized incrementally instead of restarting from Ignition.
+ *
+ * @packageDocumentation
+ */
+
+import type {
+  Spec,
+  SpecClaim,
+  SpecDataModel,
+  SpecField,
+  SpecInterface,
+  SpecMethod,
+  SpecWitness,
+} from './types.js';
+
+/**
+ * Spec sections tracked by the diff engine.
+ */
+export type SpecDiffSection = 'interfaces' | 'data_models' | 'witnesses' | 'claims';
+
+/**
+ * Kind of change to a spec entry or one of its members.
+ */
+export type SpecChangeKind = 'added' | 'removed' | 'modified';
+
+/**
+ * How far a change reaches into generated code.
+ *
+ * - structural: Generated types or signatures change
+ * - contract: Contracts, invariants, or claims change; signatures stay the same
+ * - documentation: Only descriptions change
+ */
+export type SpecChangeImpact = 'structural' | 'contract' | 'documentation';
+
+/**
+ * A single classified change between two specs.
+ */
+export interface SpecChange {
+  /** Spec section containing the change. */
+  readonly section: SpecDiffSection;
+  /** Kind of change. */
+  readonly kind: SpecChangeKind;
+  /** Name of the changed entry (interface, data model, witness, or claim ID). */
+  readonly name: string;
+  /** Changed member (method or field name), if the change is below entry level. */
+  readonly member?: string;
+  /** How far the change reaches into generated code. */
+  readonly impact: SpecChangeImpact;
+  /** Human-readable description of the change. */
+  readonly description: string;
+}
+
+/**
+ * Result of comparing two specs.
+ */
+export interface SpecDiff {
+  /** All classified changes, grouped by section in a stable order. */
+  readonly changes: readonly SpecChange[];
+  /** Whether any tracked section changed. */
+  readonly hasChanges: boolean;
+}
+
+/**
+ * Compares two values by their JSON serialization.
+ *
+ * Parsed specs contain only plain data, so this is a structural comparison.
+ *
+ * @param a - First value.
+ * @param b - Second value.
+ * @returns True if both serialize identically.
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Creates a change record, omitting the member when absent.
+ *
+ * @param section - Spec section.
+ * @param kind - Kind of change.
+ * @param name - Entry name.
+ * @param impact - Change impact.
+ * @param description - Human-readable description.
+ * @param member - Optional member name.
+ * @returns The change record.
+ */
+function createChange(
+  section: SpecDiffSection,
+  kind: SpecChangeKind,
+  name: string,
+  impact: SpecChangeImpact,
+  description: string,
+  member?: string
+): SpecChange {
+  const base = { section, kind, name, impact, description };
+  return member !== undefined ? { ...base, member } : base;
+}
+
+/**
+ * Pairs entries of two records by key, in first-seen order.
+ *
+ * @param previous - Entries before the change.
+ * @param next - Entries after the change.
+ * @returns Key with previous and next values.
+ */
+function pairEntries<T>(
+  previous: Record<string, T> | undefined,
+  next: Record<string, T> | undefined
+): [string, T | undefined, T | undefined][] {
+  const before = new Map(Object.entries(previous ?? {}));
+  const after = new Map(Object.entries(next ?? {}));
+  const keys = [...new Set([...before.keys(), ...after.keys()])];
+  return keys.map((key) => [key, before.get(key), after.get(key)]);
+}
+
+/**
+ * Pairs named members of two lists by name, in first-seen order.
+ *
+ * @param previous - Members before the change.
+ * @param next - Members after the change.
+ * @returns Name with previous and next members.
+ */
+function pairMembers<T extends { name: string }>(
+  previous: readonly T[],
+  next: readonly T[]
+): [string, T | undefined, T | undefined][] {
+  const before = new Map(previous.map((m) => [m.name, m]));
+  const after = new Map(next.map((m) => [m.name, m]));
+  const names = [...new Set([...before.keys(), ...after.keys()])];
+  return names.map((name) => [name, before.get(name), after.get(name)]);
+}
+
+/**
+ * Classifies a change to an interface method.
+ *
+ * @param interfaceName - Interface containing the method.
+ * @param before - Method before the change.
+ * @param after - Method after the change.
+ * @returns The change, or undefined if the method is unchanged.
+ */
+function diffMethod(
+  interfaceName: string,
+  before: SpecMethod,
+  after: SpecMethod
+): SpecChange | undefined {
+  const id = `${interfaceName}.${after.name}`;
+  if (!sameValue(before.params ?? [], after.params ?? []) || before.returns !== after.returns) {
+    return createChange(
+      'interfaces',
+      'modified',
+      interfaceName,
+      'structural',
+      `Signature of ${id} changed`,
+      after.name
+    );
+  }
+  if (!sameValue(before.contracts ?? [], after.contracts ?? [])) {
+    return createChange(
+      'interfaces',
+      'modified',
+      interfaceName,
+      'contract',
+      `Contracts of ${id} changed`,
+      after.name
+    );
+  }
+  if (before.description !== after.description) {
+    return createChange(
+      'interfaces',
+      'modified',
+      interfaceName,
+      'documentation',
+      `Description of ${id} changed`,
+      after.name
+    );
+  }
+  return undefined;
+}
+
+/**
+ * Diffs the interfaces section.
+ *
+ * @param previous - Interfaces before the change.
+ * @param next - Interfaces after the change.
+ * @returns Classified changes.
+ */
+function diffInterfaces(
+  previous: Record<string, SpecInterface> | undefined,
+  next: Record<string, SpecInterface> | undefined
+): SpecChange[] {
+  const changes: SpecChange[] = [];
+
+  for (const [name, before, after] of pairEntries(previous, next)) {
+    if (before === undefined) {
+      changes.push(
+        createChange('interfaces', 'added', name, 'structural', `Interface ${name} added`)
+      );
+      continue;
+    }
+    if (after === undefined) {
+      changes.push(
+        createChange('interfaces', 'removed', name, 'structural', `Interface ${name} removed`)
+      );
+      continue;
+    }
+
+    for (const [methodName, beforeMethod, afterMethod] of pairMembers(
+      before.methods,
+      after.methods
+    )) {
+      if (beforeMethod === undefined) {
+        changes.push(
+          createChange(
+            'interfaces',
+            'added',
+            name,
+            'structural',
+            `Method ${name}.${methodName} added`,
+            methodName
+          )
+        );
+      } else if (afterMethod === undefined) {
+        changes.push(
+          createChange(
+            'interfaces',
+            'removed',
+            name,
+            'structural',
+            `Method ${name}.${methodName} removed`,
+            methodName
+          )
+        );
+      } else {
+        const change = diffMethod(name, beforeMethod, afterMethod);
+        if (change !== undefined) {
+          changes.push(change);
+        }
+      }
+    }
+
+    if (before.description !== after.description) {
+      changes.push(
+        createChange(
+          'interfaces',
+          'modified',
+          name,
+          'documentation',
+          `Description of interface ${name} changed`
+        )
+      );
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Classifies a change to a data model field.
+ *
+ * @param modelName - Data model containing the field.
+ * @param before - Field before the change.
+ * @param after - Field after the change.
+ * @returns The change, or undefined if the field is unchanged.
+ */
+function diffField(modelName: string, before: SpecField, after: SpecField): SpecChange | undefined {
+  const id = `${modelName}.${after.name}`;
+  if (before.type !== after.type) {
+    return createChange(
+      'data_models',
+      'modified',
+      modelName,
+      'structural',
+      `Type of field ${id} changed from ${before.type} to ${after.type}`,
+      after.name
+    );
+  }
+  if (!sameValue(before.constraints ?? [], after.constraints ?? [])) {
+    return createChange(
+      'data_models',
+      'modified',
+      modelName,
+      'contract',
+      `Constraints of field ${id} changed`,
+      after.name
+    );
+  }
+  if (before.description !== after.description) {
+    return createChange(
+      'data_models',
+      'modified',
+      modelName,
+      'documentation',
+      `Description of field ${id} changed`,
+      after.name
+    );
+  }
+  return undefined;
+}
+
+/**
+ * Diffs the data_models section.
+ *
+ * @param previous - Data models before the change.
+ * @param next - Data models after the change.
+ * @returns Classified changes.
+ */
+function diffDataModels(
+  previous: Record<string, SpecDataModel> | undefined,
+  next: Record<string, SpecDataModel> | undefined
+): SpecChange[] {
+  const changes: SpecChange[] = [];
+
+  for (const [name, before, after] of pairEntries(previous, next)) {
+    if (before === undefined) {
+      changes.push(
+        createChange('data_models', 'added', name, 'structural', `Data model ${name} added`)
+      );
+      continue;
+    }
+    if (after === undefined) {
+      changes.push(
+        createChange('data_models', 'removed', name, 'structural', `Data model ${name} removed`)
+      );
+      continue;
+    }
+
+    for (const [fieldName, beforeField, afterField] of pairMembers(before.fields, after.fields)) {
+      if (beforeField === undefined) {
+        changes.push(
+          createChange(
+            'data_models',
+            'added',
+            name,
+            'structural',
+            `Field ${name}.${fieldName} added`,
+            fieldName
+          )
+        );
+      } else if (afterField === undefined) {
+        changes.push(
+          createChange(
+            'data_models',
+            'removed',
+            name,
+            'structural',
+            `Field ${name}.${fieldName} removed`,
+            fieldName
+          )
+        );
+      } else {
+        const change = diffField(name, beforeField, afterField);
+        if (change !== undefined) {
+          changes.push(change);
+        }
+      }
+    }
+
+    if (!sameValue(before.invariants ?? [], after.invariants ?? [])) {
+      changes.push(
+        createChange(
+          'data_models',
+          'modified',
+          name,
+          'contract',
+          `Invariants of data model ${name} changed`
+        )
+      );
+    }
+    if (before.description !== after.description) {
+      changes.push(
+        createChange(
+          'data_models',
+          'modified',
+          name,
+          'documentation',
+          `Description of data model ${name} changed`
+        )
+      );
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Diffs the witnesses section.
+ *
+ * @param previous - Witnesses before the change.
+ * @param next - Witnesses after the change.
+ * @returns Classified changes.
+ */
+function diffWitnesses(
+  previous: Record<string, SpecWitness> | undefined,
+  next: Record<string, SpecWitness> | undefined
+): SpecChange[] {
+  const changes: SpecChange[] = [];
+
+  for (const [key, before, after] of pairEntries(previous, next)) {
+    if (before === undefined) {
+      changes.push(createChange('witnesses', 'added', key, 'structural', `Witness ${key} added`));
+      continue;
+    }
+    if (after === undefined) {
+      changes.push(
+        createChange('witnesses', 'removed', key, 'structural', `Witness ${key} removed`)
+      );
+      continue;
+    }
+
+    if (
+      before.name !== after.name ||
+      before.base_type !== after.base_type ||
+      !sameValue(before.type_params ?? [], after.type_params ?? [])
+    ) {
+      changes.push(
+        createChange('witnesses', 'modified', key, 'structural', `Type of witness ${key} changed`)
+      );
+    } else if (
+      !sameValue(before.invariants, after.invariants) ||
+      !sameValue(before.constructors ?? [], after.constructors ?? [])
+    ) {
+      changes.push(
+        createChange(
+          'witnesses',
+          'modified',
+          key,
+          'contract',
+          `Invariants or constructors of witness ${key} changed`
+        )
+      );
+    } else if (before.description !== after.description) {
+      changes.push(
+        createChange(
+          'witnesses',
+          'modified',
+          key,
+          'documentation',
+          `Description of witness ${key} changed`
+        )
+      );
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Diffs the claims section.
+ *
+ * Every claim change is a contract change: claims are attached to
+ * functions as contract references and drive property tests.
+ *
+ * @param previous - Claims before the change.
+ * @param next - Claims after the change.
+ * @returns Classified changes.
+ */
+function diffClaims(
+  previous: Record<string, SpecClaim> | undefined,
+  next: Record<string, SpecClaim> | undefined
+): SpecChange[] {
+  const changes: SpecChange[] = [];
+
+  for (const [id, before, after] of pairEntries(previous, next)) {
+    if (before === undefined) {
+      changes.push(createChange('claims', 'added', id, 'contract', `Claim ${id} added`));
+    } else if (after === undefined) {
+      changes.push(createChange('claims', 'removed', id, 'contract', `Claim ${id} removed`));
+    } else if (!sameValue(before, after)) {
+      changes.push(createChange('claims', 'modified', id, 'contract', `Claim ${id} changed`));
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compares two specs and classifies the changes between them.
+ *
+ * Only interfaces, data models, witnesses, and claims are compared; these
+ * are the sections the Lattice phase generates code from.
+ *
+ * @param previous - The spec the current artifacts were generated from.
+ * @param next - The edited spec.
+ * @returns The classified changes.
+ *
+ * @example
+ * ```typescript
+ * const diff = diffSpecs(parseSpec(baselineToml), parseSpec(currentToml));
+ * for (const change of diff.changes) {
+ *   console.log(`[${change.impact}] ${change.description}`);
+ * }
+ * ```
+ */
+export function diffSpecs(previous: Spec, next: Spec): SpecDiff {
+  const changes = [
+    ...diffInterfaces(previous.interfaces, next.interfaces),
+    ...diffDataModels(previous.data_models, next.data_models),
+    ...diffWitnesses(previous.witnesses, next.witnesses),
+    ...diffClaims(previous.claims, next.claims),
+  ];
+
+  return { changes, hasChanges: changes.length > 0 };
+}
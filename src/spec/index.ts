@@ -7,6 +7,14 @@
  */
 
 export { parseSpec, SpecParseError } from './parser.js';
+export {
+  diffSpecs,
+  type SpecChange,
+  type SpecChangeImpact,
+  type SpecChangeKind,
+  type SpecDiff,
+  type SpecDiffSection,
+} from './diff.js';
 export type {
   ClaimType,
   Language,
@@ -9,6 +9,7 @@ import {
   safeReaddir,
   safeStat,
   safeUnlink,
+  safeRmdir,
   safeRename,
   PathValidationError,
 } from './safe-fs.js';
@@ -193,6 +194,23 @@ describe('safe-fs', () => {
     });
   });
 
+  describe('safeRmdir', () => {
+    it('should delete an empty directory', async () => {
+      const dir = join(tempDir, 'test-rmdir');
+      await safeMkdir(dir);
+      await safeRmdir(dir);
+      expect(await safeExists(dir)).toBe(false);
+    });
+
+    it('should refuse to delete a directory that is not empty', async () => {
+      const dir = join(tempDir, 'test-rmdir-full');
+      await safeMkdir(dir);
+      await safeWriteFile(join(dir, 'keep.txt'), 'content');
+      await expect(safeRmdir(dir)).rejects.toThrow();
+      expect(await safeExists(join(dir, 'keep.txt'))).toBe(true);
+    });
+  });
+
   describe('safeRename', () => {
     it('should rename a file after validating both paths', async () => {
       const oldPath = join(tempDir, 'old-name.txt');
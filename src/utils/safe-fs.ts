@@ -29,6 +29,7 @@ import {
   mkdtemp,
   copyFile,
   rm,
+  rmdir,
 } from 'node:fs/promises';
 import { existsSync, readFileSync, readdirSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
 import * as path from 'node:path';
@@ -352,6 +353,20 @@ export async function safeUnlink(filePath: string): Promise<void> {
   return unlink(validatedPath);
 }
 
+/**
+ * Safely deletes an empty directory after validating the path.
+ *
+ * @param dirPath - The path to the directory to delete.
+ * @returns A promise that resolves when the directory is deleted.
+ * @throws {PathValidationError} If the path is invalid.
+ * @throws {Error} If the directory cannot be deleted (e.g., not found, not empty, permission denied).
+ */
+export async function safeRmdir(dirPath: string): Promise<void> {
+  const validatedPath = validatePath(dirPath);
+  // eslint-disable-next-line security/detect-non-literal-fs-filename -- path is validated by validatePath
+  return rmdir(validatedPath);
+}
+
 /**
  * Safely renames a file or directory after validating both paths.
  *